@@ -0,0 +1,65 @@
+const esbuild = require("esbuild");
+const fs = require("fs");
+const path = require("path");
+const { spawnSync } = require("child_process");
+
+/**
+ * Bundle src/test/*.test.ts with the "vscode" module resolved to the in-memory stand-in in
+ * src/test/vscode.ts, then run them once with the Node test runner. Extra arguments are passed
+ * to `node --test`, e.g. `npm test -- --test-name-pattern=bastion`.
+ */
+
+const root = path.join(__dirname, "..");
+const testDir = path.join(root, "src", "test");
+const outDir = path.join(root, "dist", "test");
+
+async function main() {
+  const entryPoints = fs.readdirSync(testDir)
+    .filter((name) => name.endsWith(".test.ts"))
+    .map((name) => path.join(testDir, name));
+  if (entryPoints.length === 0) {
+    console.error("[run-tests] No test files in src/test.");
+    return 1;
+  }
+
+  fs.rmSync(outDir, { recursive: true, force: true });
+  await esbuild.build({
+    entryPoints,
+    bundle: true,
+    outdir: outDir,
+    format: "cjs",
+    platform: "node",
+    sourcemap: "inline",
+    target: "node18",
+    external: ["oracledb"],
+    alias: { vscode: path.join(testDir, "vscode.ts") },
+    // The stand-in leaves out editor APIs (ranges, text editors, webviews) that no test reaches.
+    logOverride: { "import-is-undefined": "silent" },
+    logLevel: "warning",
+  });
+
+  const files = entryPoints.map((entry) => path.join(outDir, `${path.basename(entry, ".ts")}.js`));
+  const result = spawnSync(
+    process.execPath,
+    [
+      "--enable-source-maps",
+      "--test",
+      "--test-concurrency=1",
+      "--test-timeout=60000",
+      // A handle a test forgot to close must not keep the run alive.
+      "--test-force-exit",
+      ...process.argv.slice(2),
+      ...files,
+    ],
+    { cwd: root, stdio: "inherit" }
+  );
+  return result.status ?? 1;
+}
+
+main().then(
+  (status) => process.exit(status),
+  (error) => {
+    console.error(`[run-tests] ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+);
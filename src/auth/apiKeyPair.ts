@@ -0,0 +1,24 @@
+import * as crypto from "crypto";
+
+export type GeneratedApiKeyPair = {
+  privateKey: string;
+  publicKey: string;
+  fingerprint: string;
+};
+
+/** Generate a 2048-bit RSA key pair in the PEM formats the OCI console and CLI use. */
+export function generateApiKeyPair(): GeneratedApiKeyPair {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: "spki", format: "pem" },
+    privateKeyEncoding: { type: "pkcs8", format: "pem" },
+  });
+  return { privateKey, publicKey, fingerprint: computeApiKeyFingerprint(publicKey) };
+}
+
+/** OCI API key fingerprint: colon-separated MD5 of the DER-encoded public key. */
+export function computeApiKeyFingerprint(publicKeyPem: string): string {
+  const der = crypto.createPublicKey(publicKeyPem).export({ type: "spki", format: "der" });
+  const digest = crypto.createHash("md5").update(der).digest("hex");
+  return digest.match(/.{2}/g)?.join(":") ?? digest;
+}
@@ -1,7 +1,19 @@
+import * as fs from "fs/promises";
 import * as vscode from "vscode";
-
-const SECRET_FIELDS = ["tenancyOcid", "userOcid", "fingerprint", "privateKey", "privateKeyPassphrase"] as const;
-const AUTH_MODES = ["api-key"] as const;
+import type { ConfigFileSourceStatus, RegionFeatureKey } from "../shared/services";
+import { OciConfigFileProfile, readOciConfigProfiles, resolveOciConfigFilePath } from "./ociConfigFile";
+import {
+  PROFILE_BUNDLE_EXTENSION,
+  ProfileBundle,
+  ProfileBundleEntry,
+  decryptProfileBundle,
+  encryptProfileBundle,
+} from "./profileBundle";
+
+const SECRET_FIELDS = ["tenancyOcid", "userOcid", "fingerprint", "privateKey", "privateKeyPassphrase", "sessionToken"] as const;
+const AUTH_MODES = ["api-key", "security-token", "instance-principal", "resource-principal"] as const;
+const CONFIG_FILE_SOURCES_KEY = "ociAi.configFileSources";
+const MIN_BUNDLE_PASSPHRASE_LENGTH = 8;
 
 function secretKey(profile: string, field: typeof SECRET_FIELDS[number]): string {
   return `ociAi.${profile}.${field}`;
@@ -13,6 +25,63 @@ function getProfileRegionMap(): Record<string, string> {
   return raw && typeof raw === "object" ? raw : {};
 }
 
+function getProfileAuthModeMap(): Record<string, string> {
+  const cfg = vscode.workspace.getConfiguration("ociAi");
+  const raw = cfg.get<Record<string, string>>("profileAuthModeMap", {});
+  return raw && typeof raw === "object" ? raw : {};
+}
+
+type FeatureRegionMap = Partial<Record<RegionFeatureKey, string[]>>;
+
+function getProfileFeatureRegionMap(): Record<string, FeatureRegionMap> {
+  const cfg = vscode.workspace.getConfiguration("ociAi");
+  const raw = cfg.get<Record<string, FeatureRegionMap>>("profileFeatureRegionMap", {});
+  return raw && typeof raw === "object" ? raw : {};
+}
+
+function normalizeAuthMode(raw: unknown): AuthMode | undefined {
+  return AUTH_MODES.find((mode) => mode === raw);
+}
+
+function getProfilesConfig(): { name: string; compartments: { id: string; name: string }[] }[] {
+  const raw = vscode.workspace
+    .getConfiguration("ociAi")
+    .get<{ name: string; compartments: { id: string; name: string }[] }[]>("profilesConfig", []);
+  return Array.isArray(raw) ? raw : [];
+}
+
+function getSavedCompartments(): { id: string; name: string }[] {
+  const raw = vscode.workspace.getConfiguration("ociAi").get<{ id: string; name: string }[]>("savedCompartments", []);
+  return Array.isArray(raw) ? raw : [];
+}
+
+/** Append items whose id is not already present; existing entries win. */
+function mergeCompartments(
+  current: { id: string; name: string }[],
+  incoming: { id: string; name: string }[]
+): { id: string; name: string }[] {
+  const known = new Set(current.map((c) => c.id));
+  const added = incoming.filter((c) => typeof c?.id === "string" && c.id.trim() && !known.has(c.id));
+  return [...current, ...added.map((c) => ({ id: c.id, name: String(c.name ?? "") }))];
+}
+
+function configFileSourcePaths(filePath: string, profile: OciConfigFileProfile | undefined): string[] {
+  return [filePath, profile?.keyFile ?? "", profile?.securityTokenFile ?? ""].filter((item) => item.length > 0);
+}
+
+/** Modification time and size of each file, so a cached read can tell whether any of them changed. */
+async function getFilesSignature(filePaths: string[]): Promise<string> {
+  const parts = await Promise.all(filePaths.map(async (filePath) => {
+    try {
+      const stat = await fs.stat(filePath);
+      return `${filePath}:${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      return `${filePath}:missing`;
+    }
+  }));
+  return parts.join("|");
+}
+
 export type ApiKeySecrets = {
   tenancyOcid: string;
   userOcid: string;
@@ -23,11 +92,54 @@ export type ApiKeySecrets = {
 
 export type AuthMode = typeof AUTH_MODES[number];
 
+/** Where an imported profile came from, kept in globalState (no secret values). */
+type ConfigFileSource = {
+  filePath: string;
+  sourceProfile: string;
+  importedAt: string;
+  /** Set for session profiles so refreshed tokens are written back for the OCI CLI. */
+  securityTokenFile?: string;
+};
+
 export class AuthManager {
+  /** Config-file sections read for drift checks, reused until one of the files they came from changes. */
+  private readonly configFileSourceCache = new Map<string, { signature: string; profile: OciConfigFileProfile | undefined }>();
+
   constructor(private readonly context: vscode.ExtensionContext) { }
 
-  public getAuthMode(): AuthMode {
-    return "api-key";
+  public getAuthMode(profile?: string): AuthMode {
+    const p = profile ?? this.getProfile();
+    return normalizeAuthMode(getProfileAuthModeMap()[p])
+      ?? normalizeAuthMode(vscode.workspace.getConfiguration("ociAi").get<string>("authMode", "api-key"))
+      ?? "api-key";
+  }
+
+  /** Optional instance metadata endpoint override (e.g. a local stand-in); undefined means the SDK default. */
+  public getInstanceMetadataBaseUrl(): string | undefined {
+    const raw = vscode.workspace.getConfiguration("ociAi").get<string>("instanceMetadataBaseUrl", "");
+    const trimmed = String(raw ?? "").trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  }
+
+  public async updateAuthModeForProfile(profile: string, mode: AuthMode): Promise<void> {
+    const trimmedProfile = profile.trim() || "DEFAULT";
+    const normalized = normalizeAuthMode(mode);
+    if (!normalized) {
+      return;
+    }
+    const next = { ...getProfileAuthModeMap(), [trimmedProfile]: normalized };
+    await vscode.workspace.getConfiguration("ociAi").update("profileAuthModeMap", next, vscode.ConfigurationTarget.Global);
+  }
+
+  public async deleteAuthModeForProfile(profile: string): Promise<void> {
+    const trimmedProfile = profile.trim() || "DEFAULT";
+    const current = getProfileAuthModeMap();
+    if (!(trimmedProfile in current)) {
+      return;
+    }
+    const next = { ...current };
+    delete next[trimmedProfile];
+    await vscode.workspace.getConfiguration("ociAi").update("profileAuthModeMap", next, vscode.ConfigurationTarget.Global);
   }
 
   public getProfile(): string {
@@ -156,6 +268,420 @@ export class AuthManager {
     vscode.window.showInformationMessage("SecretStorage updated for OCI API key fields.");
   }
 
+  public getConfigFilePath(): string {
+    return resolveOciConfigFilePath(vscode.workspace.getConfiguration("ociAi").get<string>("configFilePath", ""));
+  }
+
+  /** Pick profiles from the OCI config file and copy them into SecretStorage. Returns the imported profile names. */
+  public async importProfilesFromConfigFileInteractive(): Promise<string[]> {
+    const filePath = this.getConfigFilePath();
+    let sourceProfiles: OciConfigFileProfile[];
+    try {
+      sourceProfiles = await readOciConfigProfiles(filePath);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Cannot read OCI config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return [];
+    }
+    if (sourceProfiles.length === 0) {
+      vscode.window.showWarningMessage(`No profiles found in ${filePath}.`);
+      return [];
+    }
+
+    const existingProfiles = new Set(getProfilesConfig().map((p) => p.name));
+    type QpItem = vscode.QuickPickItem & { source: OciConfigFileProfile };
+    const items: QpItem[] = sourceProfiles.map((source) => ({
+      label: source.name,
+      description: [source.region, existingProfiles.has(source.name) ? "replaces existing SecretStorage values" : ""]
+        .filter(Boolean)
+        .join(" · "),
+      detail: source.error ? `$(warning) ${source.error}` : source.userOcid,
+      picked: !source.error && !existingProfiles.has(source.name),
+      source,
+    }));
+
+    const picked = await vscode.window.showQuickPick(items, {
+      title: "Import Profiles from OCI Config",
+      placeHolder: `Select profiles from ${filePath}`,
+      canPickMany: true,
+      ignoreFocusOut: true,
+    });
+    if (!picked || picked.length === 0) {
+      return [];
+    }
+
+    const importable = picked.filter((item) => !item.source.error);
+    const skipped = picked.filter((item) => item.source.error).map((item) => item.source.name);
+    for (const { source } of importable) {
+      await this.importConfigFileProfile(source, filePath);
+    }
+
+    if (skipped.length > 0) {
+      vscode.window.showWarningMessage(`Skipped profiles with unreadable key or token files: ${skipped.join(", ")}.`);
+    }
+    if (importable.length > 0) {
+      vscode.window.showInformationMessage(
+        `Imported ${importable.length} profile(s) from ${filePath} into SecretStorage.`
+      );
+    }
+    return importable.map((item) => item.source.name);
+  }
+
+  /**
+   * Write the selected profiles (secrets, region, auth mode, compartments) and the saved compartments
+   * to a passphrase-encrypted bundle file. Returns the file path, or undefined when cancelled.
+   */
+  public async exportProfileBundleInteractive(): Promise<string | undefined> {
+    const active = this.getProfile();
+    const names = Array.from(new Set([active, ...getProfilesConfig().map((p) => p.name)]));
+    const picked = await vscode.window.showQuickPick(
+      names.map((name) => ({ label: name, description: name === active ? "active" : undefined, picked: true })),
+      {
+        title: "Export Profile Bundle",
+        placeHolder: "Select profiles to export",
+        canPickMany: true,
+        ignoreFocusOut: true,
+      }
+    );
+    if (!picked || picked.length === 0) {
+      return undefined;
+    }
+
+    const passphrase = await vscode.window.showInputBox({
+      title: "Export Profile Bundle: Passphrase",
+      prompt: "The bundle contains private keys and tokens. Choose a passphrase to encrypt it with.",
+      password: true,
+      ignoreFocusOut: true,
+      validateInput: (value) => value.length < MIN_BUNDLE_PASSPHRASE_LENGTH
+        ? `Use at least ${MIN_BUNDLE_PASSPHRASE_LENGTH} characters.`
+        : undefined,
+    });
+    if (passphrase === undefined) {
+      return undefined;
+    }
+    const confirmation = await vscode.window.showInputBox({
+      title: "Export Profile Bundle: Confirm Passphrase",
+      password: true,
+      ignoreFocusOut: true,
+      validateInput: (value) => value === passphrase ? undefined : "Passphrases do not match.",
+    });
+    if (confirmation !== passphrase) {
+      return undefined;
+    }
+
+    const target = await vscode.window.showSaveDialog({
+      title: "Export Profile Bundle",
+      defaultUri: vscode.Uri.file(`oci-ai-profiles.${PROFILE_BUNDLE_EXTENSION}`),
+      filters: { "OCI AI Profile Bundle": [PROFILE_BUNDLE_EXTENSION] },
+    });
+    if (!target) {
+      return undefined;
+    }
+
+    const profilesConfig = getProfilesConfig();
+    const bundle: ProfileBundle = {
+      exportedAt: new Date().toISOString(),
+      profiles: [],
+      savedCompartments: getSavedCompartments(),
+    };
+    for (const { label: name } of picked) {
+      const secrets: Record<string, string> = {};
+      for (const field of SECRET_FIELDS) {
+        secrets[field] = (await this.context.secrets.get(secretKey(name, field))) ?? "";
+      }
+      bundle.profiles.push({
+        name,
+        region: await this.getRegionForProfile(name),
+        authMode: this.getAuthMode(name),
+        compartments: profilesConfig.find((p) => p.name === name)?.compartments ?? [],
+        secrets,
+      });
+    }
+
+    await fs.writeFile(target.fsPath, encryptProfileBundle(bundle, passphrase), { encoding: "utf8", mode: 0o600 });
+    vscode.window.showInformationMessage(`Exported ${bundle.profiles.length} profile(s) to ${target.fsPath}.`);
+    return target.fsPath;
+  }
+
+  /**
+   * Decrypt a profile bundle and merge it in. Name conflicts are resolved per profile
+   * (replace, import under another name, or skip). Returns the names written.
+   */
+  public async importProfileBundleInteractive(): Promise<string[]> {
+    const source = await vscode.window.showOpenDialog({
+      title: "Import Profile Bundle",
+      canSelectMany: false,
+      filters: { "OCI AI Profile Bundle": [PROFILE_BUNDLE_EXTENSION], "All Files": ["*"] },
+    });
+    if (!source || source.length === 0) {
+      return [];
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(source[0].fsPath, "utf8");
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Cannot read ${source[0].fsPath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return [];
+    }
+    const passphrase = await vscode.window.showInputBox({
+      title: "Import Profile Bundle: Passphrase",
+      password: true,
+      ignoreFocusOut: true,
+    });
+    if (passphrase === undefined) {
+      return [];
+    }
+    let bundle: ProfileBundle;
+    try {
+      bundle = decryptProfileBundle(content, passphrase);
+    } catch (error) {
+      vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+      return [];
+    }
+    if (bundle.profiles.length === 0) {
+      vscode.window.showWarningMessage("The profile bundle contains no profiles.");
+      return [];
+    }
+
+    const imported: string[] = [];
+    const skipped: string[] = [];
+    const taken = new Set([this.getProfile(), ...getProfilesConfig().map((p) => p.name)]);
+    for (const entry of bundle.profiles) {
+      const sourceName = String(entry?.name ?? "").trim();
+      if (!sourceName) {
+        continue;
+      }
+      let targetName = sourceName;
+      if (taken.has(sourceName)) {
+        const resolved = await this.resolveBundleProfileConflict(sourceName, taken);
+        if (!resolved) {
+          skipped.push(sourceName);
+          continue;
+        }
+        targetName = resolved;
+      }
+      await this.importBundleProfile(entry, targetName);
+      taken.add(targetName);
+      imported.push(targetName);
+    }
+
+    const savedCompartments = getSavedCompartments();
+    const mergedSaved = mergeCompartments(savedCompartments, bundle.savedCompartments);
+    if (mergedSaved.length !== savedCompartments.length) {
+      await vscode.workspace
+        .getConfiguration("ociAi")
+        .update("savedCompartments", mergedSaved, vscode.ConfigurationTarget.Global);
+    }
+
+    if (skipped.length > 0) {
+      vscode.window.showWarningMessage(`Skipped existing profiles: ${skipped.join(", ")}.`);
+    }
+    if (imported.length > 0) {
+      vscode.window.showInformationMessage(`Imported ${imported.length} profile(s): ${imported.join(", ")}.`);
+    }
+    return imported;
+  }
+
+  /** Ask how to handle a bundle profile whose name is already in use. Returns the target name, or undefined to skip. */
+  private async resolveBundleProfileConflict(name: string, taken: Set<string>): Promise<string | undefined> {
+    const choice = await vscode.window.showQuickPick(
+      [
+        { label: "Replace", description: `Overwrite the existing "${name}" secrets, region and auth mode`, action: "replace" as const },
+        { label: "Import as...", description: "Keep both under a new profile name", action: "rename" as const },
+        { label: "Skip", description: "Leave the existing profile unchanged", action: "skip" as const },
+      ],
+      { title: `Profile "${name}" already exists`, ignoreFocusOut: true }
+    );
+    if (!choice || choice.action === "skip") {
+      return undefined;
+    }
+    if (choice.action === "replace") {
+      return name;
+    }
+
+    let suggestion = `${name}-imported`;
+    for (let i = 2; taken.has(suggestion); i++) {
+      suggestion = `${name}-imported-${i}`;
+    }
+    const renamed = await vscode.window.showInputBox({
+      title: `Import "${name}" as`,
+      value: suggestion,
+      ignoreFocusOut: true,
+      validateInput: (value) => {
+        const trimmed = value.trim();
+        if (!trimmed) {
+          return "Profile name is required.";
+        }
+        return taken.has(trimmed) ? `Profile "${trimmed}" already exists.` : undefined;
+      },
+    });
+    return renamed?.trim() || undefined;
+  }
+
+  private async importBundleProfile(entry: ProfileBundleEntry, name: string): Promise<void> {
+    const secrets = entry.secrets && typeof entry.secrets === "object" ? entry.secrets : {};
+    for (const field of SECRET_FIELDS) {
+      await this.context.secrets.store(secretKey(name, field), String(secrets[field] ?? "").trim());
+    }
+    const mode = normalizeAuthMode(entry.authMode);
+    if (mode) {
+      await this.updateAuthModeForProfile(name, mode);
+    }
+
+    const cfg = vscode.workspace.getConfiguration("ociAi");
+    const region = String(entry.region ?? "").trim();
+    if (name === this.getProfile()) {
+      await this.updateRegionForProfile(name, region);
+    } else {
+      await cfg.update("profileRegionMap", { ...getProfileRegionMap(), [name]: region }, vscode.ConfigurationTarget.Global);
+    }
+
+    const incoming = Array.isArray(entry.compartments) ? entry.compartments : [];
+    const profiles = getProfilesConfig();
+    const existing = profiles.find((p) => p.name === name);
+    const nextProfiles = existing
+      ? profiles.map((p) => p.name === name ? { ...p, compartments: mergeCompartments(p.compartments ?? [], incoming) } : p)
+      : [...profiles, { name, compartments: mergeCompartments([], incoming) }];
+    await cfg.update("profilesConfig", nextProfiles, vscode.ConfigurationTarget.Global);
+
+    // Secrets no longer match any local config file section.
+    await this.deleteConfigFileSource(name);
+  }
+
+  /**
+   * Compare the SecretStorage copy of a profile against the config-file section it was imported from.
+   * Returns undefined for profiles that were not imported from a config file.
+   */
+  public async getConfigFileSourceStatus(profile?: string): Promise<ConfigFileSourceStatus | undefined> {
+    const p = profile ?? this.getProfile();
+    const source = this.getConfigFileSources()[p];
+    if (!source) {
+      return undefined;
+    }
+
+    const status: ConfigFileSourceStatus = {
+      filePath: source.filePath,
+      sourceProfile: source.sourceProfile,
+      importedAt: source.importedAt,
+      sourceMissing: false,
+      driftedFields: [],
+    };
+
+    const current = await this.readConfigFileSource(source);
+    if (!current) {
+      return { ...status, sourceMissing: true };
+    }
+
+    const secrets = await this.getApiKeySecrets(p);
+    const region = await this.getRegionForProfile(p);
+    const comparisons: [string, string, string][] = [
+      ["tenancy", current.tenancyOcid, secrets.tenancyOcid],
+      ["user", current.userOcid, secrets.userOcid],
+      ["fingerprint", current.fingerprint, secrets.fingerprint],
+      ["key_file", current.privateKey, secrets.privateKey],
+      ["pass_phrase", current.privateKeyPassphrase, secrets.privateKeyPassphrase],
+      ["region", current.region, region],
+    ];
+    if (current.securityTokenFile) {
+      comparisons.push(["security_token_file", current.sessionToken, await this.getSessionToken(p)]);
+    }
+    status.driftedFields = comparisons
+      .filter(([, fromFile, stored]) => fromFile.trim() !== stored.trim())
+      .map(([field]) => field);
+    return status;
+  }
+
+  /**
+   * The config-file section a profile was imported from. getState and getSettings ask for the drift status
+   * on every broadcast, so the section is read again only when the config, key or token file changed.
+   * A key or token file that cannot be read for a moment keeps the last section that could be read.
+   */
+  private async readConfigFileSource(source: ConfigFileSource): Promise<OciConfigFileProfile | undefined> {
+    const cacheKey = `${source.filePath}\n${source.sourceProfile}`;
+    const cached = this.configFileSourceCache.get(cacheKey);
+    if (cached && cached.signature === await getFilesSignature(configFileSourcePaths(source.filePath, cached.profile))) {
+      return cached.profile;
+    }
+
+    let profile: OciConfigFileProfile | undefined;
+    try {
+      [profile] = await readOciConfigProfiles(source.filePath, source.sourceProfile);
+    } catch {
+      profile = undefined;
+    }
+    if (profile?.error) {
+      return cached?.profile ?? profile;
+    }
+    this.configFileSourceCache.set(cacheKey, {
+      signature: await getFilesSignature(configFileSourcePaths(source.filePath, profile)),
+      profile,
+    });
+    return profile;
+  }
+
+  private async importConfigFileProfile(source: OciConfigFileProfile, filePath: string): Promise<void> {
+    await this.updateApiKeySecrets({
+      tenancyOcid: source.tenancyOcid,
+      userOcid: source.userOcid,
+      fingerprint: source.fingerprint,
+      privateKey: source.privateKey,
+      privateKeyPassphrase: source.privateKeyPassphrase,
+    }, source.name);
+    await this.context.secrets.store(secretKey(source.name, "sessionToken"), source.sessionToken.trim());
+    await this.updateAuthModeForProfile(source.name, source.securityTokenFile ? "security-token" : "api-key");
+
+    const cfg = vscode.workspace.getConfiguration("ociAi");
+    if (source.name === this.getProfile()) {
+      await this.updateRegionForProfile(source.name, source.region);
+    } else {
+      // Keep the global region untouched when importing a profile that is not active.
+      await cfg.update(
+        "profileRegionMap",
+        { ...getProfileRegionMap(), [source.name]: source.region.trim() },
+        vscode.ConfigurationTarget.Global
+      );
+    }
+
+    const profiles = getProfilesConfig();
+    if (!profiles.some((p) => p.name === source.name)) {
+      await cfg.update(
+        "profilesConfig",
+        [...profiles, { name: source.name, compartments: [] }],
+        vscode.ConfigurationTarget.Global
+      );
+    }
+
+    await this.context.globalState.update(CONFIG_FILE_SOURCES_KEY, {
+      ...this.getConfigFileSources(),
+      [source.name]: {
+        filePath,
+        sourceProfile: source.name,
+        importedAt: new Date().toISOString(),
+        securityTokenFile: source.securityTokenFile || undefined,
+      },
+    });
+  }
+
+  private getConfigFileSources(): Record<string, ConfigFileSource> {
+    const raw = this.context.globalState.get<Record<string, ConfigFileSource>>(CONFIG_FILE_SOURCES_KEY, {});
+    return raw && typeof raw === "object" ? raw : {};
+  }
+
+  /** Stop comparing a profile with the config-file section it was imported from. */
+  public async deleteConfigFileSource(profile: string): Promise<void> {
+    const sources = this.getConfigFileSources();
+    if (!(profile in sources)) {
+      return;
+    }
+    const next = { ...sources };
+    delete next[profile];
+    await this.context.globalState.update(CONFIG_FILE_SOURCES_KEY, next);
+  }
+
   public async getApiKeySecrets(profile?: string): Promise<ApiKeySecrets> {
     const p = profile ?? this.getProfile();
     return {
@@ -167,6 +693,28 @@ export class AuthManager {
     };
   }
 
+  public async getSessionToken(profile?: string): Promise<string> {
+    const p = profile ?? this.getProfile();
+    return ((await this.context.secrets.get(secretKey(p, "sessionToken"))) ?? "").trim();
+  }
+
+  /**
+   * Store a session token. Profiles imported from a session config also get the token file
+   * rewritten, the same way `oci session refresh` does, so the CLI and the extension stay in step.
+   */
+  public async updateSessionToken(token: string, profile?: string): Promise<void> {
+    const p = profile ?? this.getProfile();
+    const next = token.trim();
+    if (next === await this.getSessionToken(p)) {
+      return;
+    }
+    await this.context.secrets.store(secretKey(p, "sessionToken"), next);
+    const tokenFile = this.getConfigFileSources()[p]?.securityTokenFile;
+    if (tokenFile && next) {
+      await fs.writeFile(tokenFile, next, "utf8");
+    }
+  }
+
   public async getTenancyOcid(profile?: string): Promise<string | undefined> {
     const p = profile ?? this.getProfile();
     const tenancyOcid = ((await this.context.secrets.get(secretKey(p, "tenancyOcid"))) ?? "").trim();
@@ -203,6 +751,41 @@ export class AuthManager {
     await cfg.update("region", trimmedRegion, vscode.ConfigurationTarget.Global);
   }
 
+  /** Inventory regions per feature; features without an entry list the profile's region(s). */
+  public getFeatureRegionMap(profile?: string): FeatureRegionMap {
+    const p = profile ?? this.getProfile();
+    const raw = getProfileFeatureRegionMap()[p];
+    return raw && typeof raw === "object" ? raw : {};
+  }
+
+  /** Empty regions removes the feature's entry, so it lists the profile's region(s) again. */
+  public async updateFeatureRegionsForProfile(profile: string, feature: RegionFeatureKey, regions: string[]): Promise<void> {
+    const trimmedProfile = profile.trim() || "DEFAULT";
+    const current = getProfileFeatureRegionMap();
+    const featureMap = { ...this.getFeatureRegionMap(trimmedProfile) };
+    if (regions.length > 0) {
+      featureMap[feature] = regions;
+    } else {
+      delete featureMap[feature];
+    }
+    const next = { ...current, [trimmedProfile]: featureMap };
+    if (Object.keys(featureMap).length === 0) {
+      delete next[trimmedProfile];
+    }
+    await vscode.workspace.getConfiguration("ociAi").update("profileFeatureRegionMap", next, vscode.ConfigurationTarget.Global);
+  }
+
+  public async deleteFeatureRegionsForProfile(profile: string): Promise<void> {
+    const trimmedProfile = profile.trim() || "DEFAULT";
+    const current = getProfileFeatureRegionMap();
+    if (!(trimmedProfile in current)) {
+      return;
+    }
+    const next = { ...current };
+    delete next[trimmedProfile];
+    await vscode.workspace.getConfiguration("ociAi").update("profileFeatureRegionMap", next, vscode.ConfigurationTarget.Global);
+  }
+
   public async deleteRegionForProfile(profile: string): Promise<void> {
     const trimmedProfile = profile.trim() || "DEFAULT";
     const cfg = vscode.workspace.getConfiguration("ociAi");
@@ -233,5 +816,8 @@ export class AuthManager {
     const trimmedProfile = profile.trim() || "DEFAULT";
     await this.deleteApiKeySecrets(trimmedProfile);
     await this.deleteRegionForProfile(trimmedProfile);
+    await this.deleteFeatureRegionsForProfile(trimmedProfile);
+    await this.deleteAuthModeForProfile(trimmedProfile);
+    await this.deleteConfigFileSource(trimmedProfile);
   }
 }
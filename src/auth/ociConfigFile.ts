@@ -0,0 +1,132 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+
+export const DEFAULT_OCI_CONFIG_FILE = path.join(os.homedir(), ".oci", "config");
+
+/** One profile section of an OCI CLI/SDK config file, with key_file already resolved to PEM content. */
+export type OciConfigFileProfile = {
+  name: string;
+  tenancyOcid: string;
+  userOcid: string;
+  fingerprint: string;
+  keyFile: string;
+  privateKey: string;
+  privateKeyPassphrase: string;
+  region: string;
+  /** Resolved security_token_file path; set for `oci session authenticate` profiles. */
+  securityTokenFile: string;
+  sessionToken: string;
+  /** Non-empty when the section cannot be imported as-is (e.g. unreadable key_file). */
+  error: string;
+};
+
+export function resolveOciConfigFilePath(configured?: string): string {
+  const trimmed = String(configured ?? "").trim();
+  return trimmed.length > 0 ? expandHome(trimmed) : DEFAULT_OCI_CONFIG_FILE;
+}
+
+/**
+ * Parse OCI config INI content. Keys from [DEFAULT] are inherited by every
+ * other section, matching the behavior of the OCI CLI and SDKs.
+ */
+export function parseOciConfigFile(content: string): Map<string, Record<string, string>> {
+  const sections = new Map<string, Record<string, string>>();
+  let current: Record<string, string> | undefined;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#") || line.startsWith(";")) {
+      continue;
+    }
+    const header = /^\[(.+)\]$/.exec(line);
+    if (header) {
+      const name = header[1].trim();
+      current = sections.get(name) ?? {};
+      sections.set(name, current);
+      continue;
+    }
+    const separator = line.indexOf("=");
+    if (separator <= 0 || !current) {
+      continue;
+    }
+    const key = line.slice(0, separator).trim().toLowerCase();
+    current[key] = line.slice(separator + 1).trim();
+  }
+
+  const defaults = sections.get("DEFAULT") ?? {};
+  const merged = new Map<string, Record<string, string>>();
+  for (const [name, values] of sections) {
+    merged.set(name, name === "DEFAULT" ? { ...values } : { ...defaults, ...values });
+  }
+  return merged;
+}
+
+/**
+ * Read every profile in the config file and load the referenced private keys. With onlyProfile,
+ * just that section is returned, so the key files of the other sections are not read.
+ */
+export async function readOciConfigProfiles(filePath: string, onlyProfile?: string): Promise<OciConfigFileProfile[]> {
+  const content = await fs.readFile(filePath, "utf8");
+  const sections = parseOciConfigFile(content);
+  const configDir = path.dirname(filePath);
+
+  const profiles: OciConfigFileProfile[] = [];
+  for (const [name, values] of sections) {
+    if (onlyProfile !== undefined && name !== onlyProfile) {
+      continue;
+    }
+    const keyFile = values["key_file"] ? resolveFilePath(values["key_file"], configDir) : "";
+    let privateKey = "";
+    let error = "";
+    if (!keyFile) {
+      error = "key_file is not set";
+    } else {
+      try {
+        privateKey = await fs.readFile(keyFile, "utf8");
+      } catch (readError) {
+        error = `Cannot read key_file ${keyFile}: ${readError instanceof Error ? readError.message : String(readError)}`;
+      }
+    }
+    const securityTokenFile = values["security_token_file"]
+      ? resolveFilePath(values["security_token_file"], configDir)
+      : "";
+    let sessionToken = "";
+    if (securityTokenFile && !error) {
+      try {
+        sessionToken = (await fs.readFile(securityTokenFile, "utf8")).trim();
+      } catch (readError) {
+        error = `Cannot read security_token_file ${securityTokenFile}: ${readError instanceof Error ? readError.message : String(readError)}`;
+      }
+    }
+    profiles.push({
+      name,
+      tenancyOcid: values["tenancy"] ?? "",
+      userOcid: values["user"] ?? "",
+      fingerprint: values["fingerprint"] ?? "",
+      keyFile,
+      privateKey,
+      privateKeyPassphrase: values["pass_phrase"] ?? "",
+      region: values["region"] ?? "",
+      securityTokenFile,
+      sessionToken,
+      error,
+    });
+  }
+  return profiles;
+}
+
+function resolveFilePath(raw: string, configDir: string): string {
+  const expanded = expandHome(raw);
+  return path.isAbsolute(expanded) ? expanded : path.resolve(configDir, expanded);
+}
+
+function expandHome(value: string): string {
+  if (value === "~") {
+    return os.homedir();
+  }
+  if (value.startsWith("~/") || value.startsWith("~\\")) {
+    return path.join(os.homedir(), value.slice(2));
+  }
+  return value;
+}
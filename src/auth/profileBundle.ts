@@ -0,0 +1,113 @@
+import * as crypto from "crypto";
+
+const BUNDLE_FORMAT = "oci-ai-profile-bundle";
+const BUNDLE_VERSION = 1;
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+/** scrypt needs 128 * N * r bytes; the cap leaves headroom for SCRYPT_PARAMS only. */
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+const KEY_LENGTH = 32;
+const AUTH_TAG_LENGTH = 16;
+
+export const PROFILE_BUNDLE_EXTENSION = "ociprofiles";
+
+/** Everything the extension keeps for one profile, gathered from settings and SecretStorage. */
+export type ProfileBundleEntry = {
+  name: string;
+  region: string;
+  authMode: string;
+  compartments: { id: string; name: string }[];
+  secrets: Record<string, string>;
+};
+
+export type ProfileBundle = {
+  exportedAt: string;
+  profiles: ProfileBundleEntry[];
+  savedCompartments: { id: string; name: string }[];
+};
+
+/** On-disk envelope. Only the KDF/cipher parameters are readable; the bundle itself is AES-256-GCM ciphertext. */
+type ProfileBundleEnvelope = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  kdf: { name: "scrypt"; salt: string; N: number; r: number; p: number };
+  cipher: "aes-256-gcm";
+  iv: string;
+  tag: string;
+  data: string;
+};
+
+/** Encrypt a bundle with a key derived from the passphrase (scrypt). Returns the file content. */
+export function encryptProfileBundle(bundle: ProfileBundle, passphrase: string): string {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const key = crypto.scryptSync(passphrase, salt, KEY_LENGTH, { ...SCRYPT_PARAMS, maxmem: SCRYPT_MAXMEM });
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(bundle), "utf8"), cipher.final()]);
+  const envelope: ProfileBundleEnvelope = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    kdf: { name: "scrypt", salt: salt.toString("base64"), ...SCRYPT_PARAMS },
+    cipher: "aes-256-gcm",
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+  return JSON.stringify(envelope, null, 2);
+}
+
+/** Decrypt bundle file content. Throws a user-facing error for foreign files or a wrong passphrase. */
+export function decryptProfileBundle(content: string, passphrase: string): ProfileBundle {
+  let envelope: ProfileBundleEnvelope;
+  try {
+    envelope = JSON.parse(content) as ProfileBundleEnvelope;
+  } catch {
+    throw new Error("The file is not an OCI AI profile bundle.");
+  }
+  if (envelope?.format !== BUNDLE_FORMAT || envelope.kdf?.name !== "scrypt" || envelope.cipher !== "aes-256-gcm") {
+    throw new Error("The file is not an OCI AI profile bundle.");
+  }
+  if (envelope.version > BUNDLE_VERSION) {
+    throw new Error(`Profile bundle version ${envelope.version} is newer than this extension supports.`);
+  }
+
+  // The parameters come from the file, so anything but the ones this extension writes could make
+  // scrypt allocate without bound.
+  const { N, r, p } = envelope.kdf;
+  if (N !== SCRYPT_PARAMS.N || r !== SCRYPT_PARAMS.r || p !== SCRYPT_PARAMS.p) {
+    throw new Error("The profile bundle uses unsupported key derivation parameters.");
+  }
+  // GCM otherwise accepts tags as short as 4 bytes, which makes a modified bundle far easier to forge.
+  const tag = Buffer.from(String(envelope.tag), "base64");
+  if (tag.length !== AUTH_TAG_LENGTH) {
+    throw new Error("Wrong passphrase, or the bundle has been modified.");
+  }
+  let plaintext: string;
+  try {
+    const key = crypto.scryptSync(passphrase, Buffer.from(String(envelope.kdf.salt), "base64"), KEY_LENGTH, {
+      ...SCRYPT_PARAMS,
+      maxmem: SCRYPT_MAXMEM,
+    });
+    const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(String(envelope.iv), "base64"), {
+      authTagLength: AUTH_TAG_LENGTH,
+    });
+    decipher.setAuthTag(tag);
+    plaintext = Buffer.concat([decipher.update(Buffer.from(String(envelope.data), "base64")), decipher.final()]).toString("utf8");
+  } catch {
+    throw new Error("Wrong passphrase, or the bundle has been modified.");
+  }
+
+  let parsed: Partial<ProfileBundle>;
+  try {
+    parsed = JSON.parse(plaintext) as Partial<ProfileBundle>;
+  } catch {
+    throw new Error("The file is not an OCI AI profile bundle.");
+  }
+  if (!parsed || typeof parsed !== "object") {
+    throw new Error("The file is not an OCI AI profile bundle.");
+  }
+  return {
+    exportedAt: String(parsed.exportedAt ?? ""),
+    profiles: Array.isArray(parsed.profiles) ? parsed.profiles : [],
+    savedCompartments: Array.isArray(parsed.savedCompartments) ? parsed.savedCompartments : [],
+  };
+}
@@ -0,0 +1,68 @@
+import * as common from "oci-common";
+
+/**
+ * Signs requests with an `oci session authenticate` token and its ephemeral private key.
+ * The key id is the token itself, prefixed with "ST$" as Identity expects.
+ */
+export class SessionTokenAuthenticationDetailsProvider implements common.AuthenticationDetailsProvider {
+  constructor(
+    private readonly sessionToken: string,
+    private readonly privateKey: string,
+    private readonly passphrase: string | null
+  ) { }
+
+  public async getKeyId(): Promise<string> {
+    return `ST$${this.sessionToken}`;
+  }
+
+  public getPrivateKey(): string {
+    return this.privateKey;
+  }
+
+  public getPassphrase(): string | null {
+    return this.passphrase;
+  }
+}
+
+/** Read the `exp` claim from a session token (JWT). Returns undefined when the token cannot be decoded. */
+export function getSessionTokenExpiry(sessionToken: string): Date | undefined {
+  const payload = sessionToken.trim().split(".")[1];
+  if (!payload) {
+    return undefined;
+  }
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as { exp?: unknown };
+    return typeof claims.exp === "number" ? new Date(claims.exp * 1000) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Exchange a still-valid session token for a new one via Identity's refresh endpoint
+ * (`authEndpoint`, e.g. https://auth.us-ashburn-1.oraclecloud.com).
+ * `client` must sign with the session token being refreshed.
+ */
+export async function refreshSessionToken(
+  client: common.HttpClient,
+  currentToken: string,
+  authEndpoint: string
+): Promise<string> {
+  const request = await common.composeRequest({
+    baseEndpoint: authEndpoint,
+    path: "/v1/authentication/refresh",
+    method: "POST",
+    defaultHeaders: { "content-type": "application/json" },
+    bodyContent: JSON.stringify({ currentToken }),
+  });
+  const response = await client.send(request);
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new Error(`Session token refresh failed (${response.status}): ${body || response.statusText}`);
+  }
+  const json = (await response.json()) as { token?: unknown };
+  if (typeof json.token !== "string" || !json.token.trim()) {
+    throw new Error("Session token refresh returned no token.");
+  }
+  return json.token.trim();
+}
@@ -1,9 +1,17 @@
 import * as path from "path";
 import * as vscode from "vscode";
 import { AuthManager } from "../auth/authManager";
+import { getSessionTokenExpiry } from "../auth/sessionToken";
 import { Controller } from "../controller/index";
 import { GenAiService } from "../oci/genAiService";
 import { OciService } from "../oci/ociService";
+import type { AdbTreeItem } from "../providers/adbProvider";
+import type { ComputeTreeItem } from "../providers/computeProvider";
+import type { DbSystemTreeItem } from "../providers/dbSystemProvider";
+import type { ResourceTreeItem, ResourceTreeKind } from "../providers/resourceTreeProvider";
+
+const SESSION_TOKEN_CHECK_INTERVAL_MS = 60 * 1000;
+const SESSION_TOKEN_REFRESH_LEAD_MS = 10 * 60 * 1000;
 
 export function registerCommands(
   context: vscode.ExtensionContext,
@@ -12,16 +20,21 @@ export function registerCommands(
     ociService: OciService;
     genAiService: GenAiService;
     controller: Controller;
-    refreshCompute: () => void;
-    refreshAdb: () => void;
+    refreshResources: (kind: ResourceTreeKind) => void;
     refreshProfileDescription: () => void;
   }
 ): void {
-  const { authManager, controller, refreshCompute, refreshAdb } = dependencies;
+  const { authManager, ociService, controller, refreshResources } = dependencies;
+  const refreshCompute = () => refreshResources("compute");
+  const refreshAdb = () => refreshResources("adb");
 
   context.subscriptions.push(
     vscode.commands.registerCommand("ociAi.refreshCompute", refreshCompute),
     vscode.commands.registerCommand("ociAi.refreshAdb", refreshAdb),
+    vscode.commands.registerCommand("ociAi.refreshDbSystems", () => refreshResources("dbSystem")),
+    vscode.commands.registerCommand("ociAi.refreshVcns", () => refreshResources("vcn")),
+    vscode.commands.registerCommand("ociAi.refreshObjectStorage", () => refreshResources("objectStorage")),
+    vscode.commands.registerCommand("ociAi.refreshBastions", () => refreshResources("bastion")),
     vscode.commands.registerCommand("ociAi.auth.configureProfile", async () => {
       await authManager.configureProfileInteractive();
       dependencies.refreshProfileDescription();
@@ -32,6 +45,124 @@ export function registerCommands(
     vscode.commands.registerCommand("ociAi.auth.configureApiKey", async () => {
       await authManager.configureApiKeyInteractive();
     }),
+    vscode.commands.registerCommand("ociAi.auth.generateApiKey", async () => {
+      const profile = authManager.getProfile();
+      const secrets = await authManager.getApiKeySecrets(profile);
+      const userOcid = await vscode.window.showInputBox({
+        title: "Generate API Key: User OCID",
+        prompt: `The new public key is uploaded to this user with the current credentials of profile "${profile}"`,
+        value: secrets.userOcid,
+        ignoreFocusOut: true
+      });
+      if (!userOcid?.trim()) {
+        return;
+      }
+      const configFileSource = await authManager.getConfigFileSourceStatus(profile);
+      const configFileNote = configFileSource
+        ? ` The profile stops following ${configFileSource.filePath} [${configFileSource.sourceProfile}], which keeps its current key.`
+        : "";
+      const confirm = await vscode.window.showWarningMessage(
+        `Generate a new RSA key pair, upload it to ${userOcid.trim()}, and switch profile "${profile}" to it?${configFileNote}`,
+        { modal: true },
+        "Generate Key"
+      );
+      if (confirm !== "Generate Key") {
+        return;
+      }
+      try {
+        const result = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: "Uploading and verifying new API key..." },
+          () => controller.generateApiKey(userOcid.trim())
+        );
+        vscode.window.showInformationMessage(`API key ${result.fingerprint} is active for profile "${profile}".`);
+      } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+      }
+    }),
+    vscode.commands.registerCommand("ociAi.auth.rotateApiKey", async () => {
+      const profile = authManager.getProfile();
+      const configFileSource = await authManager.getConfigFileSourceStatus(profile);
+      const configFileNote = configFileSource
+        ? ` ${configFileSource.filePath} [${configFileSource.sourceProfile}] still points to the current key, so the OCI CLI and SDKs reading it stop working until you update its key_file and fingerprint.`
+        : "";
+      const confirm = await vscode.window.showWarningMessage(
+        `Rotate the API key of profile "${profile}"? A new key is uploaded and verified first; the current key is then deleted from the OCI user. Other tools using the current key stop working.${configFileNote}`,
+        { modal: true },
+        "Rotate Key"
+      );
+      if (confirm !== "Rotate Key") {
+        return;
+      }
+      try {
+        const result = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: "Rotating API key..." },
+          () => controller.rotateApiKey()
+        );
+        vscode.window.showInformationMessage(
+          `API key rotated to ${result.fingerprint}. Deleted old key ${result.deletedFingerprint}.`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+      }
+    }),
+    vscode.commands.registerCommand("ociAi.auth.refreshSessionToken", async () => {
+      const profile = authManager.getProfile();
+      if (authManager.getAuthMode(profile) !== "security-token") {
+        vscode.window.showWarningMessage(`Profile "${profile}" does not use session token auth.`);
+        return;
+      }
+      try {
+        const expiresAt = await ociService.refreshSessionToken(profile);
+        vscode.window.showInformationMessage(
+          expiresAt
+            ? `Session token for "${profile}" refreshed. Valid until ${expiresAt.toLocaleString()}.`
+            : `Session token for "${profile}" refreshed.`
+        );
+        await controller.broadcastState();
+      } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+      }
+    }),
+    vscode.commands.registerCommand("ociAi.showApiTrace", () => {
+      controller.showApiTraceOutput();
+    }),
+    vscode.commands.registerCommand("ociAi.auth.importOciConfig", async () => {
+      const imported = await authManager.importProfilesFromConfigFileInteractive();
+      if (imported.length === 0) {
+        return;
+      }
+      dependencies.refreshProfileDescription();
+      await controller.broadcastState();
+      refreshCompute();
+      refreshAdb();
+    }),
+    vscode.commands.registerCommand("ociAi.auth.exportProfileBundle", async () => {
+      try {
+        await authManager.exportProfileBundleInteractive();
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to export profiles: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }),
+    vscode.commands.registerCommand("ociAi.auth.importProfileBundle", async () => {
+      let imported: string[];
+      try {
+        imported = await authManager.importProfileBundleInteractive();
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to import profiles: ${error instanceof Error ? error.message : String(error)}`
+        );
+        return;
+      }
+      if (imported.length === 0) {
+        return;
+      }
+      dependencies.refreshProfileDescription();
+      await controller.broadcastState();
+      refreshCompute();
+      refreshAdb();
+    }),
     // Open settings: reveal Settings view
     vscode.commands.registerCommand("ociAi.openSettings", async () => {
       await vscode.commands.executeCommand("ociAi.mainView.focus");
@@ -275,10 +406,119 @@ export function registerCommands(
       refreshCompute();
       refreshAdb();
     }),
-    // Start/Stop commands are handled directly in the webview; these are no-ops for compatibility
-    vscode.commands.registerCommand("ociAi.compute.start", () => { }),
-    vscode.commands.registerCommand("ociAi.compute.stop", () => { }),
-    vscode.commands.registerCommand("ociAi.adb.start", () => { }),
-    vscode.commands.registerCommand("ociAi.adb.stop", () => { }),
+    // Inline Start/Stop actions of the resource tree views
+    vscode.commands.registerCommand("ociAi.compute.start", (item?: ComputeTreeItem) =>
+      runTreeLifecycleAction(item, {
+        progressTitle: "Starting instance",
+        run: (instance) => ociService.startComputeInstance(instance.id, instance.region),
+      })),
+    vscode.commands.registerCommand("ociAi.compute.stop", (item?: ComputeTreeItem) =>
+      runTreeLifecycleAction(item, {
+        confirm: "The operating system is shut down first; workloads on the instance stop.",
+        confirmLabel: "Stop Instance",
+        progressTitle: "Stopping instance",
+        run: (instance) => ociService.stopComputeInstance(instance.id, instance.region),
+      })),
+    vscode.commands.registerCommand("ociAi.adb.start", (item?: AdbTreeItem) =>
+      runTreeLifecycleAction(item, {
+        progressTitle: "Starting Autonomous Database",
+        run: (database) => ociService.startAutonomousDatabase(database.id, database.region),
+      })),
+    vscode.commands.registerCommand("ociAi.adb.stop", (item?: AdbTreeItem) =>
+      runTreeLifecycleAction(item, {
+        confirm: "Open connections are closed and the database is unavailable until it is started again.",
+        confirmLabel: "Stop Database",
+        progressTitle: "Stopping Autonomous Database",
+        run: (database) => ociService.stopAutonomousDatabase(database.id, database.region),
+      })),
+    vscode.commands.registerCommand("ociAi.dbSystem.start", (item?: DbSystemTreeItem) =>
+      runTreeLifecycleAction(item, {
+        progressTitle: "Starting DB system nodes",
+        run: (dbSystem) => ociService.startDbSystem(dbSystem.id, dbSystem.region),
+      })),
+    vscode.commands.registerCommand("ociAi.dbSystem.stop", (item?: DbSystemTreeItem) =>
+      runTreeLifecycleAction(item, {
+        confirm: "Every node of the DB system is stopped; its databases are unavailable until the nodes are started again.",
+        confirmLabel: "Stop DB System",
+        progressTitle: "Stopping DB system nodes",
+        run: (dbSystem) => ociService.stopDbSystem(dbSystem.id, dbSystem.region),
+      })),
   );
+
+  watchSessionTokenExpiry(context, authManager);
+}
+
+/**
+ * Start or stop the resource of a tree row. Stops ask for confirmation first, like the webview
+ * guardrails; the tree re-reads once the action has invalidated the listing.
+ */
+async function runTreeLifecycleAction<T extends { id: string; name: string }>(
+  item: ResourceTreeItem<T> | undefined,
+  options: {
+    confirm?: string;
+    confirmLabel?: string;
+    progressTitle: string;
+    run: (resource: T) => Promise<void>;
+  }
+): Promise<void> {
+  if (!item) {
+    vscode.window.showWarningMessage("Run this action from a resource in the OCI tree views.");
+    return;
+  }
+  const resource = item.resource;
+  if (options.confirm && options.confirmLabel) {
+    const choice = await vscode.window.showWarningMessage(
+      `${options.confirmLabel} "${resource.name}"?`,
+      { modal: true, detail: options.confirm },
+      options.confirmLabel
+    );
+    if (choice !== options.confirmLabel) {
+      return;
+    }
+  }
+  try {
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `${options.progressTitle} ${resource.name}...` },
+      () => options.run(resource)
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/** Offer a refresh shortly before the active profile's session token lapses (once per token). */
+function watchSessionTokenExpiry(context: vscode.ExtensionContext, authManager: AuthManager): void {
+  let promptedToken = "";
+  const check = async () => {
+    try {
+      const profile = authManager.getProfile();
+      if (authManager.getAuthMode(profile) !== "security-token") {
+        return;
+      }
+      const token = await authManager.getSessionToken(profile);
+      const expiresAt = token ? getSessionTokenExpiry(token) : undefined;
+      if (!expiresAt || token === promptedToken) {
+        return;
+      }
+      const remainingMs = expiresAt.getTime() - Date.now();
+      if (remainingMs <= 0 || remainingMs > SESSION_TOKEN_REFRESH_LEAD_MS) {
+        return;
+      }
+      promptedToken = token;
+      const choice = await vscode.window.showWarningMessage(
+        `Session token for "${profile}" expires in ${Math.max(1, Math.round(remainingMs / 60000))} minute(s).`,
+        "Refresh Now"
+      );
+      if (choice === "Refresh Now") {
+        await vscode.commands.executeCommand("ociAi.auth.refreshSessionToken");
+      }
+    } catch (error) {
+      // Runs unattended every minute; the next check tries again.
+      console.error(`[Session Token] Expiry check failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const timer = setInterval(() => void check(), SESSION_TOKEN_CHECK_INTERVAL_MS);
+  context.subscriptions.push(new vscode.Disposable(() => clearInterval(timer)));
+  void check();
 }
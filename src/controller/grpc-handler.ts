@@ -1,7 +1,7 @@
 import * as vscode from "vscode";
 import { Controller, type PostMessageToWebview } from "./index";
 import type { GrpcRequest, ExtensionMessage } from "../shared/messages";
-import type { StreamTokenResponse } from "../shared/services";
+import type { RegionFeatureKey, StreamTokenResponse } from "../shared/services";
 
 /** Display a status bar message with timeout (half of default notification duration) */
 const STATUS_MESSAGE_TIMEOUT_MS = 2500;
@@ -143,11 +143,43 @@ const unaryHandlers: Record<string, Record<string, UnaryHandler>> = {
       );
       return {};
     },
+    updateFeatureRegionSelection: async (c, msg) => {
+      await c.updateFeatureRegionSelection(
+        String(msg.featureKey ?? "") as RegionFeatureKey,
+        Array.isArray(msg.regions) ? msg.regions.map((region: unknown) => String(region ?? "")) : []
+      );
+      return {};
+    },
     getProfileSecrets: async (c, msg) => c.getProfileSecrets(String(msg.profile ?? "DEFAULT")),
     switchProfile: async (c) => {
       await c.switchProfile();
       return {};
     },
+    importOciConfigProfiles: async (c) => {
+      await c.importOciConfigProfiles();
+      return {};
+    },
+    exportProfileBundle: async (c) => {
+      await c.exportProfileBundle();
+      return {};
+    },
+    importProfileBundle: async (c) => {
+      await c.importProfileBundle();
+      return {};
+    },
+    refreshSessionToken: async (c, msg) => c.refreshSessionToken(String(msg.profile ?? "DEFAULT")),
+    generateApiKey: async (c, msg) => {
+      const result = await c.generateApiKey(typeof msg.userOcid === "string" ? msg.userOcid : undefined);
+      showStatusMessage(`API key ${result.fingerprint} uploaded and stored.`);
+      return result;
+    },
+    rotateApiKey: async (c) => {
+      const result = await c.rotateApiKey();
+      showStatusMessage(`API key rotated to ${result.fingerprint}.`);
+      return result;
+    },
+    getCompartmentTree: async (c, msg) => c.getCompartmentTree(msg?.refresh === true),
+    listRegionSubscriptions: async (c, msg) => c.listRegionSubscriptions(msg?.refresh === true),
     switchCompartment: async (c, msg) => {
       await c.switchCompartment(msg.id);
       return {};
@@ -190,7 +222,10 @@ const unaryHandlers: Record<string, Record<string, UnaryHandler>> = {
     },
   },
   ResourceService: {
-    listCompute: async (c) => ({ instances: await c.listComputeInstances() }),
+    listCompute: async (c, msg) => {
+      const { items: instances, regionErrors } = await c.listComputeInstances(msg?.refresh === true);
+      return { instances, regionErrors };
+    },
     listBastionTargetInstances: async (c, msg) => c.listBastionTargetInstances(msg),
     startCompute: async (c, msg) => {
       await c.startComputeInstance(msg.instanceId, typeof msg.region === "string" ? msg.region : undefined);
@@ -202,8 +237,107 @@ const unaryHandlers: Record<string, Record<string, UnaryHandler>> = {
       showStatusMessage("Compute instance stop requested.");
       return {};
     },
+    computeInstanceAction: async (c, msg) => {
+      await c.runComputeInstanceAction(msg);
+      showStatusMessage(`Compute instance ${describeComputeInstanceAction(msg.action)} requested.`);
+      return {};
+    },
+    terminateComputeInstance: async (c, msg) => {
+      await c.terminateComputeInstance(msg);
+      showStatusMessage("Compute instance termination requested.");
+      return {};
+    },
+    resizeComputeInstance: async (c, msg) => {
+      await c.resizeComputeInstance(msg);
+      showStatusMessage("Compute instance resize requested.");
+      return {};
+    },
     connectComputeSsh: async (c, msg) => c.connectComputeSsh(msg),
-    listAdb: async (c) => ({ databases: await c.listAutonomousDatabases() }),
+    writeComputeSshConfig: async (c, msg) => {
+      const result = await c.writeComputeSshConfig(msg);
+      showStatusMessage(`Wrote ${result.hosts.length} host(s) to ${result.configFile}.`);
+      return result;
+    },
+    captureComputeConsoleHistory: async (c, msg) => c.captureComputeConsoleHistory(msg),
+    connectComputeSerialConsole: async (c, msg) => c.connectComputeSerialConsole(msg),
+    getComputeLaunchOptions: async (c, msg) => c.getComputeLaunchOptions(msg),
+    listComputeImages: async (c, msg) => c.listComputeImages(msg),
+    launchComputeInstance: async (c, msg) => {
+      const result = await c.launchComputeInstance(msg);
+      showStatusMessage("Compute instance launch requested.");
+      return result;
+    },
+    listComputeInstanceBackups: async (c, msg) => c.listComputeInstanceBackups(msg),
+    createComputeImage: async (c, msg) => {
+      const result = await c.createComputeImage(msg);
+      showStatusMessage("Custom image creation requested.");
+      return result;
+    },
+    createComputeBootVolumeBackup: async (c, msg) => {
+      const result = await c.createComputeBootVolumeBackup(msg);
+      showStatusMessage("Boot volume backup requested.");
+      return result;
+    },
+    deleteComputeImage: async (c, msg) => {
+      await c.deleteComputeImage(msg);
+      showStatusMessage("Custom image deletion requested.");
+      return {};
+    },
+    deleteComputeBootVolumeBackup: async (c, msg) => {
+      await c.deleteComputeBootVolumeBackup(msg);
+      showStatusMessage("Boot volume backup deletion requested.");
+      return {};
+    },
+    getResourceMetrics: async (c, msg) => c.getResourceMetrics(msg),
+    listRunCommandScripts: async (c) => c.listRunCommandScripts(),
+    runComputeCommand: async (c, msg) => {
+      const result = await c.runComputeCommand(msg);
+      showStatusMessage("Run Command sent.");
+      return result;
+    },
+    listAdb: async (c, msg) => {
+      const { items: databases, regionErrors } = await c.listAutonomousDatabases(msg?.refresh === true);
+      return { databases, regionErrors };
+    },
+    getAdbProvisioningOptions: async (c, msg) => c.getAdbProvisioningOptions(msg),
+    createAdb: async (c, msg) => {
+      const result = await c.createAutonomousDatabase(msg);
+      showStatusMessage("Autonomous Database creation requested.");
+      return result;
+    },
+    cloneAdb: async (c, msg) => {
+      const result = await c.cloneAutonomousDatabase(msg);
+      showStatusMessage("Autonomous Database clone requested.");
+      return result;
+    },
+    scaleAdb: async (c, msg) => {
+      const result = await c.scaleAutonomousDatabase(msg);
+      showStatusMessage("Autonomous Database scaling requested.");
+      return result;
+    },
+    listAdbBackups: async (c, msg) => c.listAdbBackups(msg),
+    createAdbBackup: async (c, msg) => {
+      const result = await c.createAdbBackup(msg);
+      showStatusMessage("Autonomous Database backup requested.");
+      return result;
+    },
+    restoreAdb: async (c, msg) => {
+      const result = await c.restoreAutonomousDatabase(msg);
+      showStatusMessage("Autonomous Database restore requested.");
+      return result;
+    },
+    getAdbNetworkAccess: async (c, msg) => c.getAdbNetworkAccess(msg),
+    updateAdbAccessControl: async (c, msg) => {
+      const result = await c.updateAdbAccessControl(msg);
+      showStatusMessage("Autonomous Database access control list update requested.");
+      return result;
+    },
+    updateAdbMtls: async (c, msg) => {
+      const result = await c.updateAdbMtls(msg);
+      showStatusMessage("Autonomous Database mutual TLS update requested.");
+      return result;
+    },
+    getPublicIp: async (c) => c.getPublicIp(),
     startAdb: async (c, msg) => {
       await c.startAutonomousDatabase(msg.autonomousDatabaseId, typeof msg.region === "string" ? msg.region : undefined);
       showStatusMessage("Autonomous Database start requested.");
@@ -219,6 +353,17 @@ const unaryHandlers: Record<string, Record<string, UnaryHandler>> = {
       showStatusMessage("ADB wallet downloaded.");
       return result;
     },
+    getAdbWalletStatus: async (c, msg) => c.getAdbWalletStatus(msg),
+    rotateAdbWallet: async (c, msg) => {
+      const result = await c.rotateAdbWallet(msg);
+      showStatusMessage("ADB wallet rotation requested.");
+      return result;
+    },
+    cleanupAdbWallets: async (c) => {
+      const result = await c.cleanupAdbWallets();
+      showStatusMessage(`Removed ${result.removedPaths.length} unused ADB wallet(s).`);
+      return result;
+    },
     connectAdb: async (c, msg) => {
       const result = await c.connectAdb(msg);
       showStatusMessage("ADB connected.");
@@ -244,7 +389,10 @@ const unaryHandlers: Record<string, Record<string, UnaryHandler>> = {
       showStatusMessage("ADB connection deleted.");
       return {};
     },
-    listDbSystems: async (c) => ({ dbSystems: await c.listDbSystems() }),
+    listDbSystems: async (c, msg) => {
+      const { items: dbSystems, regionErrors } = await c.listDbSystems(msg?.refresh === true);
+      return { dbSystems, regionErrors };
+    },
     startDbSystem: async (c, msg) => {
       await c.startDbSystem(msg.dbSystemId, typeof msg.region === "string" ? msg.region : undefined);
       showStatusMessage("DB System start requested.");
@@ -274,6 +422,27 @@ const unaryHandlers: Record<string, Record<string, UnaryHandler>> = {
       return {};
     },
     getDbSystemConnectionStrings: async (c, msg) => c.getDbSystemConnectionStrings(msg),
+    listDbSystemDatabases: async (c, msg) => ({ dbHomes: await c.listDbSystemDatabases(msg) }),
+    createPluggableDatabase: async (c, msg) => {
+      const result = await c.createPluggableDatabase(msg);
+      showStatusMessage("Pluggable database creation requested.");
+      return result;
+    },
+    clonePluggableDatabase: async (c, msg) => {
+      const result = await c.clonePluggableDatabase(msg);
+      showStatusMessage("Pluggable database clone requested.");
+      return result;
+    },
+    pluggableDatabaseAction: async (c, msg) => {
+      const result = await c.runPluggableDatabaseAction(msg);
+      showStatusMessage(`Pluggable database ${msg.action === "STOP" ? "stop" : "start"} requested.`);
+      return result;
+    },
+    deletePluggableDatabase: async (c, msg) => {
+      const result = await c.deletePluggableDatabase(msg);
+      showStatusMessage("Pluggable database deletion requested.");
+      return result;
+    },
     loadDbSystemConnection: async (c, msg) => {
       const result = await c.loadDbSystemConnection(String(msg.dbSystemId ?? ""));
       return result ?? {};
@@ -283,7 +452,10 @@ const unaryHandlers: Record<string, Record<string, UnaryHandler>> = {
       showStatusMessage("DB System connection deleted.");
       return {};
     },
-    listVcns: async (c) => ({ vcns: await c.listVcns() }),
+    listVcns: async (c, msg) => {
+      const { items: vcns, regionErrors } = await c.listVcns(msg?.refresh === true);
+      return { vcns, regionErrors };
+    },
     listSecurityLists: async (c, msg) => ({ securityLists: await c.listSecurityLists(msg.vcnId, msg.region) }),
     createSecurityList: async (c, msg) => {
       await c.createSecurityList(
@@ -312,7 +484,10 @@ const unaryHandlers: Record<string, Record<string, UnaryHandler>> = {
       showStatusMessage("Security List deleted.");
       return {};
     },
-    listObjectStorageBuckets: async (c) => ({ buckets: await c.listObjectStorageBuckets() }),
+    listObjectStorageBuckets: async (c, msg) => {
+      const { items: buckets, regionErrors } = await c.listObjectStorageBuckets(msg?.refresh === true);
+      return { buckets, regionErrors };
+    },
     listObjectStorageObjects: async (c, msg) => c.listObjectStorageObjects(msg),
     listSpeechBuckets: async (c) => ({ buckets: await c.listSpeechBuckets() }),
     listSpeechObjects: async (c, msg) => c.listSpeechObjects(msg),
@@ -373,6 +548,41 @@ const unaryHandlers: Record<string, Record<string, UnaryHandler>> = {
     },
     runBastionSshCommand: async (c, msg) => c.runBastionSshCommand(msg),
   },
+  ApiTraceService: {
+    listEntries: async (c) => c.getApiTraceState(),
+    clear: async (c) => {
+      c.clearApiTrace();
+      return {};
+    },
+    showOutput: async (c) => {
+      c.showApiTraceOutput();
+      return {};
+    },
+    copyForSupport: async (c, msg) => {
+      await c.copyApiTraceForSupport(String(msg.id ?? ""));
+      showStatusMessage("Copied request details for a support ticket.");
+      return {};
+    },
+  },
+  WorkRequestService: {
+    listOperations: async (c) => c.getWorkRequestsState(),
+    dismiss: async (c, msg) => {
+      c.dismissWorkRequest(String(msg.id ?? ""));
+      return {};
+    },
+  },
+  RunCommandService: {
+    listRuns: async (c) => c.getRunCommandState(),
+    cancel: async (c, msg) => {
+      await c.cancelRunCommand(String(msg.id ?? ""));
+      showStatusMessage("Run Command cancellation requested.");
+      return {};
+    },
+    dismiss: async (c, msg) => {
+      c.dismissRunCommand(String(msg.id ?? ""));
+      return {};
+    },
+  },
   McpService: {
     listServers: async (c) => ({ servers: c.getMcpServers() }),
     addServer: async (c, msg) => {
@@ -575,6 +785,21 @@ const streamingHandlers: Record<string, Record<string, StreamHandler>> = {
       );
     },
   },
+  ApiTraceService: {
+    subscribeToEntries: async (c, _msg, stream, requestId) => {
+      c.subscribeToApiTrace(requestId, stream);
+    },
+  },
+  WorkRequestService: {
+    subscribeToOperations: async (c, _msg, stream, requestId) => {
+      c.subscribeToWorkRequests(requestId, stream);
+    },
+  },
+  RunCommandService: {
+    subscribeToRuns: async (c, _msg, stream, requestId) => {
+      c.subscribeToRunCommands(requestId, stream);
+    },
+  },
   McpService: {
     subscribeToServers: async (c, _msg, stream, requestId) => {
       c.subscribeToMcpServers(requestId, stream);
@@ -625,3 +850,20 @@ function getStreamingHandler(service: string, method: string): StreamHandler {
   }
   return handler;
 }
+
+function describeComputeInstanceAction(action: unknown): string {
+  switch (action) {
+    case "START":
+      return "start";
+    case "STOP":
+      return "force stop";
+    case "SOFTSTOP":
+      return "stop";
+    case "RESET":
+      return "force reboot";
+    case "SOFTRESET":
+      return "reboot";
+    default:
+      return "action";
+  }
+}
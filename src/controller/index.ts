@@ -4,10 +4,14 @@ import * as os from "os";
 import * as path from "path";
 import * as vscode from "vscode";
 import { AuthManager, type ApiKeySecrets } from "../auth/authManager";
+import { getSessionTokenExpiry } from "../auth/sessionToken";
 import { GenAiService, type ChatMessage } from "../oci/genAiService";
 import { AdbSqlService } from "../oci/adbSqlService";
+import { ApiTraceLog, formatApiTraceForSupport } from "../oci/apiTrace";
+import { fetchExternalText } from "../oci/connectivity";
 import { OciService } from "../oci/ociService";
 import { OcaProxyManager } from "../oca-proxy/ocaProxyManager";
+import { resolveSshConfigFilePath, upsertManagedSshHosts, type ManagedSshHost } from "../ssh/sshConfigFile";
 import { McpHub, type McpAllowlistAction } from "../mcp/mcpHub";
 import { AgentService } from "../agent/agentService";
 import { AgentSkillService, type SkillTurnContext } from "../agent/skillService";
@@ -48,11 +52,74 @@ import type {
   BootstrapState,
 } from "../shared/mcp-types";
 import type {
+  ApiTraceState,
+  CaptureComputeConsoleHistoryRequest,
+  CaptureComputeConsoleHistoryResponse,
+  ComputeImageOption,
+  ComputeInstanceAction,
+  ComputeInstanceActionRequest,
+  ComputeLaunchOptions,
+  ConnectComputeSerialConsoleRequest,
+  ConnectComputeSerialConsoleResponse,
   ConnectComputeSshRequest,
   ConnectComputeSshResponse,
   ConnectAdbRequest,
   ConnectAdbResponse,
+  AdbNetworkAccess,
+  AdbOperationResponse,
+  AdbProvisioningOptions,
+  AdbWorkloadType,
+  CloneAutonomousDatabaseRequest,
+  CreateAdbBackupRequest,
+  CreateAutonomousDatabaseRequest,
+  GetAdbProvisioningOptionsRequest,
+  ListAdbBackupsRequest,
+  ListAdbBackupsResponse,
+  ProvisionAutonomousDatabaseResponse,
+  RestoreAutonomousDatabaseRequest,
+  ScaleAutonomousDatabaseRequest,
+  AdbNetworkAccessInfo,
+  GetAdbNetworkAccessRequest,
+  GetPublicIpResponse,
+  UpdateAdbAccessControlRequest,
+  UpdateAdbMtlsRequest,
+  AdbWalletStatus,
+  CleanupAdbWalletsResponse,
+  GetAdbWalletStatusRequest,
+  RotateAdbWalletRequest,
+  ClonePluggableDatabaseRequest,
+  CreatePluggableDatabaseRequest,
+  DbHomeResource,
+  DeletePluggableDatabaseRequest,
+  ListDbSystemDatabasesRequest,
+  PluggableDatabaseAction,
+  PluggableDatabaseActionRequest,
+  PluggableDatabaseOperationResponse,
   CreateObjectStorageParResponse,
+  GetComputeLaunchOptionsRequest,
+  LaunchComputeInstanceRequest,
+  LaunchComputeInstanceResponse,
+  ListComputeImagesRequest,
+  ResizeComputeInstanceRequest,
+  TerminateComputeInstanceRequest,
+  WriteComputeSshConfigRequest,
+  WriteComputeSshConfigResponse,
+  WorkRequestsState,
+  ListRunCommandScriptsResponse,
+  ListComputeInstanceBackupsRequest,
+  ListComputeInstanceBackupsResponse,
+  CreateComputeImageRequest,
+  CreateComputeBootVolumeBackupRequest,
+  CreateComputeBackupResponse,
+  DeleteComputeImageRequest,
+  DeleteComputeBootVolumeBackupRequest,
+  GetResourceMetricsRequest,
+  GetResourceMetricsResponse,
+  MetricsResourceKind,
+  MetricsWindow,
+  RunCommandState,
+  RunComputeCommandRequest,
+  RunComputeCommandResponse,
   DownloadObjectStorageObjectRequest,
   DownloadObjectStorageObjectResponse,
   ReadObjectStorageObjectTextRequest,
@@ -70,7 +137,14 @@ import type {
   AppState,
   ChatImageData,
   ChatMessageData,
+  CompartmentTreeResponse,
+  ConfigFileSourceStatus,
   DeleteSqlFavoriteRequest,
+  ListRegionSubscriptionsResponse,
+  OciAuthMode,
+  RefreshSessionTokenResponse,
+  RegionFeatureKey,
+  RegisterApiKeyResponse,
   SavedCompartment,
   SaveSettingsRequest,
   SendMessageRequest,
@@ -126,6 +200,27 @@ const MAX_WHISPER_PROMPT_LENGTH = 4000;
 const MAX_MCP_EXECUTION_ATTEMPTS = 2;
 const MAX_MCP_PARSE_REPAIR_ATTEMPTS = 2;
 const MCP_RETRY_BACKOFF_MS = 350;
+const SESSION_TOKEN_EXPIRY_WARNING_MS = 10 * 60 * 1000;
+const REGION_FEATURE_KEYS: RegionFeatureKey[] = ["compute", "adb", "dbSystem", "vcn", "objectStorage", "bastion"];
+const REMOTE_SSH_EXTENSION_ID = "ms-vscode-remote.remote-ssh";
+const COMPUTE_INSTANCE_ACTIONS = new Set<ComputeInstanceAction>(["START", "STOP", "SOFTSTOP", "RESET", "SOFTRESET"]);
+const RUN_COMMAND_SCRIPT_GLOB = "**/*.{sh,bash,ps1}";
+const RUN_COMMAND_SCRIPT_EXCLUDE_GLOB = "**/{node_modules,.git}/**";
+const MAX_RUN_COMMAND_SCRIPTS = 500;
+/** Scripts are sent inline; larger payloads belong in Object Storage */
+const MAX_RUN_COMMAND_SCRIPT_BYTES = 256 * 1024;
+const DEFAULT_RUN_COMMAND_TIMEOUT_SECONDS = 3600;
+const METRICS_RESOURCE_KINDS = new Set<MetricsResourceKind>(["compute", "adb", "dbSystem"]);
+const METRICS_WINDOWS = new Set<MetricsWindow>(["1h", "6h", "24h", "7d"]);
+/** Default of ociAi.publicIpLookupUrl; returns the caller's address as plain text */
+const DEFAULT_PUBLIC_IP_LOOKUP_URL = "https://checkip.amazonaws.com";
+const PUBLIC_IP_TIMEOUT_MS = 5000;
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/;
+/** Longest time OCI keeps the previous wallet valid after a rotation */
+const MAX_WALLET_GRACE_PERIOD_HOURS = 24;
+const PLUGGABLE_DATABASE_ACTIONS = new Set<PluggableDatabaseAction>(["START", "STOP"]);
+/** OCI accepts PDB names of up to 30 characters, starting with a letter */
+const PDB_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,29}$/;
 
 function getMissingApiKeyFields(secrets: ApiKeySecrets): string[] {
   const missing: string[] = [];
@@ -136,6 +231,13 @@ function getMissingApiKeyFields(secrets: ApiKeySecrets): string[] {
   return missing;
 }
 
+function getMissingSessionTokenFields(secrets: ApiKeySecrets, sessionToken: string): string[] {
+  const missing: string[] = [];
+  if (!sessionToken.trim()) missing.push("Session Token");
+  if (!secrets.privateKey.trim()) missing.push("Private Key");
+  return missing;
+}
+
 type ActiveChatRequest = {
   abortController: AbortController;
   cancelled: boolean;
@@ -192,6 +294,11 @@ export class Controller {
   private mcpServerSubscribers: Map<string, StreamingResponseHandler<{ servers: McpServerState[] }>> = new Map();
   private skillSubscribers: Map<string, StreamingResponseHandler<AgentSkillsState>> = new Map();
   private skillOverviewSubscribers: Map<string, StreamingResponseHandler<AgentSkillsOverview>> = new Map();
+  private compartmentTreeCache: Map<string, CompartmentTreeResponse> = new Map();
+  private regionSubscriptionCache: Map<string, ListRegionSubscriptionsResponse> = new Map();
+  private apiTraceSubscribers: Map<string, StreamingResponseHandler<ApiTraceState>> = new Map();
+  private workRequestSubscribers: Map<string, StreamingResponseHandler<WorkRequestsState>> = new Map();
+  private runCommandSubscribers: Map<string, StreamingResponseHandler<RunCommandState>> = new Map();
   readonly ocaProxyManager: OcaProxyManager;
   readonly mcpHub: McpHub;
   readonly agentService: AgentService;
@@ -207,6 +314,7 @@ export class Controller {
     private readonly workspaceState: vscode.Memento,
     ocaProxyManager: OcaProxyManager,
     private readonly extensionPath: string,
+    private readonly apiTrace: ApiTraceLog,
   ) {
     this.ocaProxyManager = ocaProxyManager;
     this.mcpHub = new McpHub();
@@ -223,6 +331,27 @@ export class Controller {
       }
     });
 
+    this.apiTrace.onDidChange(() => {
+      const state = { entries: this.apiTrace.getEntries() };
+      for (const [, handler] of this.apiTraceSubscribers) {
+        handler(state).catch(() => {});
+      }
+    });
+
+    this.ociService.workRequestTracker.onDidChange(() => {
+      const state = this.getWorkRequestsState();
+      for (const [, handler] of this.workRequestSubscribers) {
+        handler(state).catch(() => {});
+      }
+    });
+
+    this.ociService.runCommandTracker.onDidChange(() => {
+      const state = this.getRunCommandState();
+      for (const [, handler] of this.runCommandSubscribers) {
+        handler(state).catch(() => {});
+      }
+    });
+
     this.agentSkillService.onDidChange(() => {
       const state = this.agentSkillService.getState();
       for (const [, handler] of this.skillSubscribers) {
@@ -289,9 +418,28 @@ export class Controller {
     if (!hasAnyAssistantModel) {
       warnings.push("No Assistant model is available (configure Settings → LLM Model Name, or sign in to OCA Proxy and enable Show this model in Assistant).");
     }
-    const missingApiKeyFields = getMissingApiKeyFields(secrets);
-    if (missingApiKeyFields.length > 0 && configuredOciAssistantModels.length > 0) {
-      warnings.push(`API Key Auth incomplete for profile "${activeProfile}": ${missingApiKeyFields.join(", ")}.`);
+    const authMode = this.authManager.getAuthMode(activeProfile);
+    const sessionToken = authMode === "security-token" ? await this.authManager.getSessionToken(activeProfile) : "";
+    const missingAuthFields = authMode === "security-token"
+      ? getMissingSessionTokenFields(secrets, sessionToken)
+      : authMode === "api-key"
+        ? getMissingApiKeyFields(secrets)
+        : [];
+    if (missingAuthFields.length > 0 && configuredOciAssistantModels.length > 0) {
+      const authLabel = authMode === "security-token" ? "Session Token Auth" : "API Key Auth";
+      warnings.push(`${authLabel} incomplete for profile "${activeProfile}": ${missingAuthFields.join(", ")}.`);
+    }
+    const sessionTokenExpiresAt = sessionToken ? getSessionTokenExpiry(sessionToken) : undefined;
+    if (sessionTokenExpiresAt && sessionTokenExpiresAt.getTime() <= Date.now()) {
+      warnings.push(`Session token for profile "${activeProfile}" expired at ${sessionTokenExpiresAt.toLocaleString()}. Run "oci session authenticate" and import the profile again.`);
+    } else if (sessionTokenExpiresAt && sessionTokenExpiresAt.getTime() - Date.now() < SESSION_TOKEN_EXPIRY_WARNING_MS) {
+      warnings.push(`Session token for profile "${activeProfile}" expires at ${sessionTokenExpiresAt.toLocaleTimeString()}. Refresh it in Settings.`);
+    }
+    const configFileSource = await this.authManager.getConfigFileSourceStatus(activeProfile);
+    if (configFileSource?.sourceMissing) {
+      warnings.push(`Profile "${activeProfile}" was imported from ${configFileSource.filePath}, but that profile can no longer be read there.`);
+    } else if (configFileSource && configFileSource.driftedFields.length > 0) {
+      warnings.push(`Profile "${activeProfile}" has drifted from ${configFileSource.filePath} (${configFileSource.driftedFields.join(", ")}). Re-import it to sync.`);
     }
 
     return {
@@ -306,6 +454,7 @@ export class Controller {
       objectStorageCompartmentIds: Array.isArray(cfg.get("objectStorageCompartmentIds")) ? cfg.get<string[]>("objectStorageCompartmentIds") as string[] : [],
       bastionCompartmentIds: Array.isArray(cfg.get("bastionCompartmentIds")) ? cfg.get<string[]>("bastionCompartmentIds") as string[] : [],
       speechCompartmentIds: Array.isArray(cfg.get("speechCompartmentIds")) ? cfg.get<string[]>("speechCompartmentIds") as string[] : [],
+      featureRegionMap: this.authManager.getFeatureRegionMap(activeProfile),
       profilesConfig: Array.isArray(cfg.get("profilesConfig")) ? cfg.get<any[]>("profilesConfig") as any[] : [],
       tenancyOcid: secrets.tenancyOcid || "",
       agentMode: this.agentService.getSettings().mode,
@@ -335,6 +484,7 @@ export class Controller {
     const runtimeSettings = readRuntimeSettings(cfg);
     const activeProfile = String(cfg.get<string>("activeProfile", "DEFAULT") ?? "").trim() || "DEFAULT";
     const secrets = await this.authManager.getApiKeySecrets(activeProfile);
+    const sessionToken = await this.authManager.getSessionToken(activeProfile);
     const savedCompartments = cfg.get<SavedCompartment[]>("savedCompartments", []);
     const profilesConfig = cfg.get<any[]>("profilesConfig", []);
     return {
@@ -356,7 +506,11 @@ export class Controller {
       systemPrompt: cfg.get<string>("systemPrompt", ""),
       ...runtimeSettings,
       ...secrets,
-      authMode: "api-key",
+      authMode: this.authManager.getAuthMode(activeProfile),
+      activeAuthMode: this.authManager.getAuthMode(activeProfile),
+      sessionToken,
+      sessionTokenExpiresAt: getSessionTokenExpiry(sessionToken)?.toISOString(),
+      configFileSource: await this.authManager.getConfigFileSourceStatus(activeProfile),
       savedCompartments: Array.isArray(savedCompartments) ? savedCompartments : [],
       profilesConfig: Array.isArray(profilesConfig) ? profilesConfig : [],
       extensionVersion: vscode.extensions.getExtension("local.oci-ai-unofficial")?.packageJSON?.version ?? "0.0.0",
@@ -365,10 +519,152 @@ export class Controller {
   }
 
   /** Get API key secrets for a specific profile */
-  public async getProfileSecrets(profile: string): Promise<ApiKeySecrets & { authMode: "api-key"; region: string }> {
+  public async getProfileSecrets(profile: string): Promise<ApiKeySecrets & {
+    authMode: OciAuthMode;
+    region: string;
+    sessionToken: string;
+    sessionTokenExpiresAt?: string;
+    configFileSource?: ConfigFileSourceStatus;
+  }> {
     const secrets = await this.authManager.getApiKeySecrets(profile);
     const region = await this.authManager.getRegionForProfile(profile);
-    return { ...secrets, authMode: "api-key", region };
+    const sessionToken = await this.authManager.getSessionToken(profile);
+    const configFileSource = await this.authManager.getConfigFileSourceStatus(profile);
+    return {
+      ...secrets,
+      authMode: this.authManager.getAuthMode(profile),
+      region,
+      sessionToken,
+      sessionTokenExpiresAt: getSessionTokenExpiry(sessionToken)?.toISOString(),
+      configFileSource,
+    };
+  }
+
+  /** Refresh the session token of a security-token profile */
+  public async refreshSessionToken(profile: string): Promise<RefreshSessionTokenResponse> {
+    const expiresAt = await this.ociService.refreshSessionToken(profile);
+    await this.broadcastState();
+    return { expiresAt: expiresAt?.toISOString() };
+  }
+
+  /** Generate a key pair, upload it for the active profile's user, and switch the profile to it once verified */
+  public async generateApiKey(userOcid?: string): Promise<RegisterApiKeyResponse> {
+    const profile = this.authManager.getProfile();
+    const secrets = await this.authManager.getApiKeySecrets(profile);
+    const userId = String(userOcid ?? "").trim() || secrets.userOcid.trim();
+    if (!userId) {
+      throw new Error(`User OCID is required to upload an API key for profile "${profile}".`);
+    }
+    const fingerprint = await this.registerVerifiedApiKey(profile, userId);
+    await this.broadcastState();
+    return { fingerprint };
+  }
+
+  /** Replace the active profile's API key; the old key is deleted only after the new one authenticates */
+  public async rotateApiKey(): Promise<RegisterApiKeyResponse> {
+    const profile = this.authManager.getProfile();
+    if (this.authManager.getAuthMode(profile) !== "api-key") {
+      throw new Error(`Profile "${profile}" does not use API key auth, so there is no key to rotate.`);
+    }
+    const secrets = await this.authManager.getApiKeySecrets(profile);
+    const missing = getMissingApiKeyFields(secrets);
+    if (missing.length > 0) {
+      throw new Error(`API Key Auth incomplete for profile "${profile}": ${missing.join(", ")}.`);
+    }
+    const previousFingerprint = secrets.fingerprint.trim();
+    const fingerprint = await this.registerVerifiedApiKey(profile, secrets.userOcid.trim());
+
+    // The profile now signs with the new key, which also proves it can manage the user's keys.
+    const homeRegion = await this.ociService.getHomeRegion(secrets.tenancyOcid.trim());
+    await this.ociService.deleteApiKey(secrets.userOcid.trim(), previousFingerprint, homeRegion);
+    await this.broadcastState();
+    return { fingerprint, deletedFingerprint: previousFingerprint };
+  }
+
+  /** Compartment hierarchy of the active profile's tenancy, cached per profile until a refresh is requested */
+  public async getCompartmentTree(refresh = false): Promise<CompartmentTreeResponse> {
+    const profile = this.authManager.getProfile();
+    const tenancyOcid = (await this.ociService.getTenancyOcid()) ?? "";
+    if (!tenancyOcid) {
+      throw new Error(`Tenancy OCID is required to list compartments for profile "${profile}".`);
+    }
+    const cached = this.compartmentTreeCache.get(profile);
+    if (!refresh && cached && cached.tenancyOcid === tenancyOcid) {
+      return cached;
+    }
+    const tree: CompartmentTreeResponse = {
+      profile,
+      tenancyOcid,
+      fetchedAt: new Date().toISOString(),
+      compartments: await this.ociService.listCompartmentTree(tenancyOcid),
+    };
+    this.compartmentTreeCache.set(profile, tree);
+    return tree;
+  }
+
+  /** Region subscriptions of the active profile's tenancy, cached per profile until a refresh is requested */
+  public async listRegionSubscriptions(refresh = false): Promise<ListRegionSubscriptionsResponse> {
+    const profile = this.authManager.getProfile();
+    const cached = this.regionSubscriptionCache.get(profile);
+    if (!refresh && cached) {
+      return cached;
+    }
+    const tenancyOcid = await this.ociService.getTenancyOcid();
+    if (!tenancyOcid) {
+      throw new Error(`Tenancy OCID is required to list region subscriptions for profile "${profile}".`);
+    }
+    const response: ListRegionSubscriptionsResponse = {
+      profile,
+      regions: await this.ociService.listRegionSubscriptions(tenancyOcid),
+    };
+    this.regionSubscriptionCache.set(profile, response);
+    return response;
+  }
+
+  private async registerVerifiedApiKey(profile: string, userId: string): Promise<string> {
+    const tenancyOcid = (await this.authManager.getTenancyOcid(profile)) ?? "";
+    if (!tenancyOcid) {
+      throw new Error(`Tenancy OCID is required to upload an API key for profile "${profile}".`);
+    }
+    const homeRegion = await this.ociService.getHomeRegion(tenancyOcid);
+    const pair = await this.ociService.uploadNewApiKey(userId, homeRegion);
+    try {
+      await this.ociService.waitForApiKey(
+        { tenancyOcid, userId, fingerprint: pair.fingerprint, privateKey: pair.privateKey },
+        homeRegion,
+      );
+    } catch (error) {
+      // Keys count against the per-user limit, so do not leave an unusable one behind.
+      await this.ociService.deleteApiKey(userId, pair.fingerprint, homeRegion).catch(() => undefined);
+      throw error;
+    }
+
+    await this.authManager.updateApiKeySecrets({
+      tenancyOcid,
+      userOcid: userId,
+      fingerprint: pair.fingerprint,
+      privateKey: pair.privateKey,
+      privateKeyPassphrase: "",
+    }, profile);
+    await this.authManager.updateAuthModeForProfile(profile, "api-key");
+    // The config file still names the previous key; re-importing it would switch the profile back.
+    await this.authManager.deleteConfigFileSource(profile);
+    return pair.fingerprint;
+  }
+
+  /** Reuse the import command flow so profile list, title, and state stay in sync. */
+  public async importOciConfigProfiles(): Promise<void> {
+    await vscode.commands.executeCommand("ociAi.auth.importOciConfig");
+  }
+
+  /** Export profiles to an encrypted bundle through the command flow (QuickPick, passphrase, save dialog). */
+  public async exportProfileBundle(): Promise<void> {
+    await vscode.commands.executeCommand("ociAi.auth.exportProfileBundle");
+  }
+
+  /** Import an encrypted profile bundle through the command flow so profile list and state stay in sync. */
+  public async importProfileBundle(): Promise<void> {
+    await vscode.commands.executeCommand("ociAi.auth.importProfileBundle");
   }
 
   /** Save settings */
@@ -409,6 +705,12 @@ export class Controller {
       privateKey: String(payload.privateKey ?? ""),
       privateKeyPassphrase: String(payload.privateKeyPassphrase ?? ""),
     }, targetProfile);
+    if (payload.authMode) {
+      await this.authManager.updateAuthModeForProfile(targetProfile, payload.authMode);
+    }
+    if (typeof payload.sessionToken === "string") {
+      await this.authManager.updateSessionToken(payload.sessionToken, targetProfile);
+    }
     if (!payload.suppressNotification) {
       vscode.window.showInformationMessage("Settings saved.");
     }
@@ -481,6 +783,18 @@ export class Controller {
     await this.broadcastState();
   }
 
+  /** Persist the inventory regions for a feature; an empty list falls back to the profile region(s) */
+  public async updateFeatureRegionSelection(featureKey: RegionFeatureKey, regions: string[]): Promise<void> {
+    if (!REGION_FEATURE_KEYS.includes(featureKey)) {
+      throw new Error(`Unsupported feature key: ${featureKey}`);
+    }
+    const normalized = Array.isArray(regions)
+      ? [...new Set(regions.map((region) => String(region ?? "").trim()).filter((region) => region.length > 0))]
+      : [];
+    await this.authManager.updateFeatureRegionsForProfile(this.authManager.getProfile(), featureKey, normalized);
+    await this.broadcastState();
+  }
+
   /** Subscribe to state updates */
   public async subscribeToState(requestId: string, stream: StreamingResponseHandler<AppState>): Promise<void> {
     this.stateSubscribers.set(requestId, stream);
@@ -2579,13 +2893,16 @@ export class Controller {
       this.codeContextSubscribers.delete(requestId) ||
       this.mcpServerSubscribers.delete(requestId) ||
       this.skillSubscribers.delete(requestId) ||
-      this.skillOverviewSubscribers.delete(requestId);
+      this.skillOverviewSubscribers.delete(requestId) ||
+      this.apiTraceSubscribers.delete(requestId) ||
+      this.workRequestSubscribers.delete(requestId) ||
+      this.runCommandSubscribers.delete(requestId);
     return removed;
   }
 
   /** List compute instances */
-  public async listComputeInstances(): Promise<{ id: string; name: string; lifecycleState: string }[]> {
-    return this.ociService.listComputeInstances();
+  public async listComputeInstances(refresh = false): Promise<import("../types").RegionListing<import("../types").ComputeResource>> {
+    return this.ociService.listComputeInstances(refresh);
   }
 
   public async listBastionTargetInstances(
@@ -2619,6 +2936,171 @@ export class Controller {
     return this.ociService.stopComputeInstance(instanceId, region);
   }
 
+  /** Send a power action (start, stop, reset, graceful stop or reboot) to a compute instance */
+  public async runComputeInstanceAction(request: ComputeInstanceActionRequest): Promise<void> {
+    const instanceId = String(request.instanceId ?? "").trim();
+    if (!instanceId) {
+      throw new Error("instanceId is required.");
+    }
+    if (!COMPUTE_INSTANCE_ACTIONS.has(request.action)) {
+      throw new Error(`Unsupported instance action "${String(request.action)}".`);
+    }
+    return this.ociService.runComputeInstanceAction(instanceId, request.action, normalizeOptionalRegion(request.region));
+  }
+
+  /** Terminate a compute instance, optionally keeping its boot volume */
+  public async terminateComputeInstance(request: TerminateComputeInstanceRequest): Promise<void> {
+    const instanceId = String(request.instanceId ?? "").trim();
+    if (!instanceId) {
+      throw new Error("instanceId is required.");
+    }
+    return this.ociService.terminateComputeInstance(
+      instanceId,
+      request.preserveBootVolume === true,
+      normalizeOptionalRegion(request.region)
+    );
+  }
+
+  /** Change the OCPU count and memory of a flex compute instance */
+  public async resizeComputeInstance(request: ResizeComputeInstanceRequest): Promise<void> {
+    const instanceId = String(request.instanceId ?? "").trim();
+    if (!instanceId) {
+      throw new Error("instanceId is required.");
+    }
+    const ocpus = normalizePositiveNumber(request.ocpus, "ocpus");
+    if (ocpus === undefined) {
+      throw new Error("ocpus is required.");
+    }
+    return this.ociService.resizeComputeInstance(
+      instanceId,
+      ocpus,
+      normalizePositiveNumber(request.memoryInGBs, "memoryInGBs"),
+      normalizeOptionalRegion(request.region)
+    );
+  }
+
+  /** Custom images and boot volume backups shown for the selected instance */
+  public async listComputeInstanceBackups(request: ListComputeInstanceBackupsRequest): Promise<ListComputeInstanceBackupsResponse> {
+    const instanceId = String(request.instanceId ?? "").trim();
+    if (!instanceId) {
+      throw new Error("instanceId is required.");
+    }
+    return this.ociService.listComputeInstanceBackups(instanceId, normalizeOptionalRegion(request.region));
+  }
+
+  public async createComputeImage(request: CreateComputeImageRequest): Promise<CreateComputeBackupResponse> {
+    const instanceId = String(request.instanceId ?? "").trim();
+    const displayName = String(request.displayName ?? "").trim();
+    if (!instanceId || !displayName) {
+      throw new Error("instanceId and displayName are required.");
+    }
+    return this.ociService.createComputeImage({
+      instanceId,
+      instanceName: String(request.instanceName ?? "").trim() || undefined,
+      displayName,
+      region: normalizeOptionalRegion(request.region),
+    });
+  }
+
+  public async createComputeBootVolumeBackup(request: CreateComputeBootVolumeBackupRequest): Promise<CreateComputeBackupResponse> {
+    const instanceId = String(request.instanceId ?? "").trim();
+    const displayName = String(request.displayName ?? "").trim();
+    if (!instanceId || !displayName) {
+      throw new Error("instanceId and displayName are required.");
+    }
+    if (request.type !== "FULL" && request.type !== "INCREMENTAL") {
+      throw new Error(`Unsupported backup type: ${String(request.type)}`);
+    }
+    return this.ociService.createComputeBootVolumeBackup({
+      instanceId,
+      instanceName: String(request.instanceName ?? "").trim() || undefined,
+      displayName,
+      type: request.type,
+      region: normalizeOptionalRegion(request.region),
+    });
+  }
+
+  public async deleteComputeImage(request: DeleteComputeImageRequest): Promise<void> {
+    const imageId = String(request.imageId ?? "").trim();
+    if (!imageId) {
+      throw new Error("imageId is required.");
+    }
+    return this.ociService.deleteComputeImage(imageId, normalizeOptionalRegion(request.region));
+  }
+
+  public async deleteComputeBootVolumeBackup(request: DeleteComputeBootVolumeBackupRequest): Promise<void> {
+    const bootVolumeBackupId = String(request.bootVolumeBackupId ?? "").trim();
+    if (!bootVolumeBackupId) {
+      throw new Error("bootVolumeBackupId is required.");
+    }
+    return this.ociService.deleteComputeBootVolumeBackup(bootVolumeBackupId, normalizeOptionalRegion(request.region));
+  }
+
+  /** Availability domains, shapes and subnets for the launch instance form */
+  public async getComputeLaunchOptions(request: GetComputeLaunchOptionsRequest): Promise<ComputeLaunchOptions> {
+    const compartmentId = String(request.compartmentId ?? "").trim();
+    if (!compartmentId) {
+      throw new Error("compartmentId is required.");
+    }
+    const availabilityDomain = typeof request.availabilityDomain === "string" ? request.availabilityDomain.trim() : "";
+    return this.ociService.getComputeLaunchOptions(
+      compartmentId,
+      normalizeOptionalRegion(request.region),
+      availabilityDomain || undefined
+    );
+  }
+
+  /** Images compatible with a shape */
+  public async listComputeImages(request: ListComputeImagesRequest): Promise<{ images: ComputeImageOption[] }> {
+    const compartmentId = String(request.compartmentId ?? "").trim();
+    const shape = String(request.shape ?? "").trim();
+    if (!compartmentId) {
+      throw new Error("compartmentId is required.");
+    }
+    if (!shape) {
+      throw new Error("shape is required.");
+    }
+    return { images: await this.ociService.listComputeImages(compartmentId, shape, normalizeOptionalRegion(request.region)) };
+  }
+
+  /** Launch a compute instance; its work request is followed in the work request tracker */
+  public async launchComputeInstance(request: LaunchComputeInstanceRequest): Promise<LaunchComputeInstanceResponse> {
+    const required = (value: unknown, label: string): string => {
+      const normalized = String(value ?? "").trim();
+      if (!normalized) {
+        throw new Error(`${label} is required.`);
+      }
+      return normalized;
+    };
+    const sshPublicKey = required(request.sshPublicKey, "SSH public key");
+    if (!/^(ssh-(rsa|ed25519|dss)|ecdsa-sha2-nistp(256|384|521)|sk-(ssh-ed25519|ecdsa-sha2-nistp256)@openssh\.com) \S+/m.test(sshPublicKey)) {
+      throw new Error("SSH public key must be in OpenSSH format (e.g. ssh-ed25519 AAAA...).");
+    }
+    const ocpus = normalizePositiveNumber(request.ocpus, "ocpus");
+    const memoryInGBs = normalizePositiveNumber(request.memoryInGBs, "memoryInGBs");
+    const cloudInit = typeof request.cloudInit === "string" && request.cloudInit.trim() ? request.cloudInit : undefined;
+    const imageId = String(request.imageId ?? "").trim() || undefined;
+    const bootVolumeBackupId = String(request.bootVolumeBackupId ?? "").trim() || undefined;
+    if (!imageId === !bootVolumeBackupId) {
+      throw new Error("Select either an image or a boot volume backup to launch from.");
+    }
+    return this.ociService.launchComputeInstance({
+      compartmentId: required(request.compartmentId, "compartmentId"),
+      region: normalizeOptionalRegion(request.region),
+      availabilityDomain: required(request.availabilityDomain, "Availability domain"),
+      displayName: required(request.displayName, "Instance name"),
+      shape: required(request.shape, "Shape"),
+      ocpus,
+      memoryInGBs,
+      imageId,
+      bootVolumeBackupId,
+      subnetId: required(request.subnetId, "Subnet"),
+      assignPublicIp: request.assignPublicIp === true,
+      sshPublicKey,
+      cloudInit,
+    });
+  }
+
   /** Open an SSH connection to a compute instance in an integrated terminal task */
   public async connectComputeSsh(request: ConnectComputeSshRequest): Promise<ConnectComputeSshResponse> {
     const host = String(request.host ?? "").trim();
@@ -2669,9 +3151,196 @@ export class Controller {
     return { launched: true };
   }
 
+  /**
+   * Write Host entries for instances into the managed block of the SSH config file Remote-SSH
+   * reads. A private address goes through an active bastion session as ProxyCommand when one
+   * targets the instance. A single host can then be opened in Remote-SSH.
+   */
+  public async writeComputeSshConfig(request: WriteComputeSshConfigRequest): Promise<WriteComputeSshConfigResponse> {
+    const requestedHosts = Array.isArray(request.hosts) ? request.hosts : [];
+    if (requestedHosts.length === 0) {
+      throw new Error("Select at least one instance.");
+    }
+    if (request.openInRemoteSsh && requestedHosts.length > 1) {
+      throw new Error("Only one instance can be opened in Remote-SSH at a time.");
+    }
+
+    const warnings: string[] = [];
+    const bastionSessionNames = new Map<string, string>();
+    const managedHosts: ManagedSshHost[] = [];
+    for (const requested of requestedHosts) {
+      const instanceId = String(requested.instanceId ?? "").trim();
+      const instanceName = String(requested.instanceName ?? "").trim() || instanceId;
+      const host = String(requested.host ?? "").trim();
+      const username = String(requested.username ?? "").trim();
+      if (!instanceId) {
+        throw new Error("instanceId is required.");
+      }
+      if (!host) {
+        throw new Error(`No reachable IP found for instance "${instanceName}".`);
+      }
+      if (!username) {
+        throw new Error(`SSH username is required for instance "${instanceName}".`);
+      }
+      const rawPort = Number(requested.port);
+      const port = Number.isFinite(rawPort) && rawPort > 0 && rawPort <= 65535 ? Math.trunc(rawPort) : 22;
+      const identityFile = String(requested.privateKeyPath ?? "").trim() || undefined;
+
+      let proxyCommand: string | undefined;
+      if (host === String(requested.privateIp ?? "").trim()) {
+        const found = await this.ociService.findActiveBastionSessionForTarget({
+          instanceId,
+          privateIp: host,
+          region: normalizeOptionalRegion(requested.region),
+        });
+        // sshMetadata.command names the bastion endpoint as "-p <port> <session>@host.bastion.<region>..."
+        const endpoint = found?.session.sshMetadata?.command?.match(/-p\s+(\d+)\s+([^\s"']+@host\.bastion\.[^\s"']+)/);
+        if (found && endpoint) {
+          const identity = identityFile ? `-i ${identityFile.includes(" ") ? `"${identityFile}"` : identityFile} ` : "";
+          proxyCommand = `ssh ${identity}-W %h:%p -p ${endpoint[1]} ${endpoint[2]}`;
+          bastionSessionNames.set(instanceId, `${found.bastion.name} / ${found.session.name}`);
+        } else {
+          warnings.push(`${instanceName}: no active bastion session targets ${host}; the entry connects to it directly.`);
+        }
+      }
+
+      managedHosts.push({
+        resourceId: instanceId,
+        alias: `oci-${instanceName}`,
+        hostName: host,
+        user: username,
+        port,
+        identityFile,
+        proxyCommand,
+        disableHostKeyChecking: requested.disableHostKeyChecking === true,
+      });
+    }
+
+    const configFile = resolveSshConfigFilePath(vscode.workspace.getConfiguration("remote.SSH").get<string>("configFile"));
+    const aliases = await upsertManagedSshHosts(configFile, managedHosts);
+    const hosts = managedHosts.map((host) => ({
+      instanceId: host.resourceId,
+      alias: aliases.get(host.resourceId) ?? host.alias,
+      bastionSessionName: bastionSessionNames.get(host.resourceId),
+    }));
+
+    let openedInRemoteSsh = false;
+    if (request.openInRemoteSsh) {
+      if (!vscode.extensions.getExtension(REMOTE_SSH_EXTENSION_ID)) {
+        const install = "Install Remote - SSH";
+        void vscode.window
+          .showWarningMessage(`Host ${hosts[0].alias} was written to ${configFile}, but Remote - SSH is not installed.`, install)
+          .then((choice) => {
+            if (choice === install) {
+              void vscode.commands.executeCommand("workbench.extensions.installExtension", REMOTE_SSH_EXTENSION_ID);
+            }
+          });
+      } else {
+        await vscode.commands.executeCommand("opensshremotes.openEmptyWindow", { host: hosts[0].alias });
+        openedInRemoteSsh = true;
+      }
+    }
+    return { configFile, hosts, warnings, openedInRemoteSsh };
+  }
+
+  /** Capture an instance's serial console output and open it in an editor tab */
+  public async captureComputeConsoleHistory(
+    request: CaptureComputeConsoleHistoryRequest
+  ): Promise<CaptureComputeConsoleHistoryResponse> {
+    const instanceId = String(request.instanceId ?? "").trim();
+    if (!instanceId) {
+      throw new Error("instanceId is required.");
+    }
+    const output = await this.ociService.getComputeConsoleHistory(instanceId, normalizeOptionalRegion(request.region));
+    // Console output carries terminal escape sequences and CRLF line endings.
+    const content = output.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, "").replace(/\r\n?/g, "\n");
+    const header = `# Console history: ${request.instanceName?.trim() || instanceId}\n# Captured ${new Date().toISOString()}\n\n`;
+    const document = await vscode.workspace.openTextDocument({ content: header + content, language: "log" });
+    const editor = await vscode.window.showTextDocument(document, { preview: false });
+    // Boot failures are at the end of the output.
+    const end = document.lineAt(document.lineCount - 1).range.end;
+    editor.selection = new vscode.Selection(end, end);
+    editor.revealRange(new vscode.Range(end, end), vscode.TextEditorRevealType.Default);
+    return { length: content.length };
+  }
+
+  /** Open the instance's serial console over an instance console connection in an integrated terminal task */
+  public async connectComputeSerialConsole(
+    request: ConnectComputeSerialConsoleRequest
+  ): Promise<ConnectComputeSerialConsoleResponse> {
+    const instanceId = String(request.instanceId ?? "").trim();
+    if (!instanceId) {
+      throw new Error("instanceId is required.");
+    }
+    const requestedKeyPath = expandHomePath(String(request.privateKeyPath ?? "").trim());
+    const candidateKeyPaths = requestedKeyPath
+      ? [requestedKeyPath]
+      : [path.join(os.homedir(), ".ssh", "id_ed25519"), path.join(os.homedir(), ".ssh", "id_rsa")];
+    let privateKeyPath = "";
+    let publicKey = "";
+    for (const candidate of candidateKeyPaths) {
+      try {
+        publicKey = (await fs.promises.readFile(`${candidate}.pub`, "utf8")).trim();
+        privateKeyPath = candidate;
+        break;
+      } catch {
+        // Try the next default key.
+      }
+    }
+    if (!publicKey) {
+      throw new Error(
+        `No public key found at ${candidateKeyPaths.map((candidate) => `${candidate}.pub`).join(" or ")}. ` +
+        "The console connection is created for the .pub file next to the SSH private key."
+      );
+    }
+
+    const result = await this.ociService.ensureComputeConsoleConnection(
+      instanceId,
+      publicKey,
+      request.replaceExisting === true,
+      normalizeOptionalRegion(request.region)
+    );
+    if (result.status === "conflict") {
+      return { launched: false, conflictingConnectionId: result.connectionId, conflictingFingerprint: result.fingerprint };
+    }
+
+    // connectionString is "ssh -o ProxyCommand='ssh -W %h:%p -p 443 <connection>@instance-console.<region>...' <instance>"
+    const proxyMatch = result.connectionString.match(/-p\s+(\d+)\s+([^\s']+@[^\s']+)/);
+    if (!proxyMatch) {
+      throw new Error(`Unexpected console connection string: ${result.connectionString || "(empty)"}`);
+    }
+    const identity = privateKeyPath.includes(" ") ? `"${privateKeyPath}"` : privateKeyPath;
+    const args = [
+      "-i", privateKeyPath,
+      "-o", `ProxyCommand=ssh -i ${identity} -W %h:%p -p ${proxyMatch[1]} ${proxyMatch[2]}`,
+      instanceId,
+    ];
+
+    const taskScope =
+      vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0
+        ? vscode.TaskScope.Workspace
+        : vscode.TaskScope.Global;
+
+    const task = new vscode.Task(
+      { type: "ociAiSerialConsole", instanceId, _ts: Date.now() },
+      taskScope,
+      `Serial Console: ${request.instanceName?.trim() || instanceId}`,
+      "OCI AI",
+      new vscode.ShellExecution("ssh", args)
+    );
+    task.presentationOptions = {
+      reveal: vscode.TaskRevealKind.Always,
+      focus: true,
+      panel: vscode.TaskPanelKind.New,
+      clear: false,
+    };
+    await vscode.tasks.executeTask(task);
+    return { launched: true, reused: result.reused };
+  }
+
   /** List autonomous databases */
-  public async listAutonomousDatabases(): Promise<{ id: string; name: string; lifecycleState: string }[]> {
-    return this.ociService.listAutonomousDatabases();
+  public async listAutonomousDatabases(refresh = false): Promise<import("../types").RegionListing<import("../types").AdbResource>> {
+    return this.ociService.listAutonomousDatabases(refresh);
   }
 
   /** Start an autonomous database */
@@ -2684,11 +3353,234 @@ export class Controller {
     return this.ociService.stopAutonomousDatabase(autonomousDatabaseId, region);
   }
 
+  /** Database versions and private endpoint subnets for the create and clone forms */
+  public async getAdbProvisioningOptions(request: GetAdbProvisioningOptionsRequest): Promise<AdbProvisioningOptions> {
+    const compartmentId = String(request.compartmentId ?? "").trim();
+    if (!compartmentId) {
+      throw new Error("compartmentId is required.");
+    }
+    return this.ociService.getAutonomousDatabaseProvisioningOptions(
+      compartmentId,
+      normalizeAdbWorkload(request.workload),
+      normalizeOptionalRegion(request.region)
+    );
+  }
+
+  /** Create an autonomous database; provisioning is followed in the work request tracker */
+  public async createAutonomousDatabase(request: CreateAutonomousDatabaseRequest): Promise<ProvisionAutonomousDatabaseResponse> {
+    const compartmentId = String(request.compartmentId ?? "").trim();
+    const displayName = String(request.displayName ?? "").trim();
+    if (!compartmentId) {
+      throw new Error("compartmentId is required.");
+    }
+    if (!displayName) {
+      throw new Error("Display name is required.");
+    }
+    const dbVersion = String(request.dbVersion ?? "").trim();
+    return this.ociService.createAutonomousDatabase({
+      compartmentId,
+      region: normalizeOptionalRegion(request.region),
+      displayName,
+      dbName: normalizeAdbDbName(request.dbName),
+      workload: normalizeAdbWorkload(request.workload),
+      ...normalizeAdbCapacity(request.computeCount, request.dataStorageSizeInTBs),
+      isAutoScalingEnabled: request.isAutoScalingEnabled === true,
+      dbVersion: dbVersion || undefined,
+      adminPassword: normalizeAdbAdminPassword(request.adminPassword),
+      networkAccess: normalizeAdbNetworkAccess(request.networkAccess),
+    });
+  }
+
+  /** Clone an autonomous database; provisioning is followed in the work request tracker */
+  public async cloneAutonomousDatabase(request: CloneAutonomousDatabaseRequest): Promise<ProvisionAutonomousDatabaseResponse> {
+    const sourceId = String(request.sourceId ?? "").trim();
+    const compartmentId = String(request.compartmentId ?? "").trim();
+    const displayName = String(request.displayName ?? "").trim();
+    if (!sourceId) {
+      throw new Error("sourceId is required.");
+    }
+    if (!compartmentId) {
+      throw new Error("compartmentId is required.");
+    }
+    if (!displayName) {
+      throw new Error("Display name is required.");
+    }
+    if (request.cloneType !== "FULL" && request.cloneType !== "METADATA" && request.cloneType !== "REFRESHABLE") {
+      throw new Error("cloneType must be FULL, METADATA or REFRESHABLE.");
+    }
+    const refreshable = request.cloneType === "REFRESHABLE";
+    return this.ociService.cloneAutonomousDatabase({
+      sourceId,
+      region: normalizeOptionalRegion(request.region),
+      compartmentId,
+      displayName,
+      dbName: normalizeAdbDbName(request.dbName),
+      cloneType: request.cloneType,
+      ...normalizeAdbCapacity(request.computeCount, request.dataStorageSizeInTBs),
+      adminPassword: refreshable ? undefined : normalizeAdbAdminPassword(request.adminPassword),
+      refreshableMode: refreshable ? (request.refreshableMode === "AUTOMATIC" ? "AUTOMATIC" : "MANUAL") : undefined,
+      networkAccess: normalizeAdbNetworkAccess(request.networkAccess),
+    });
+  }
+
+  /** Change the ECPUs, storage or auto-scaling of an autonomous database */
+  public async scaleAutonomousDatabase(request: ScaleAutonomousDatabaseRequest): Promise<AdbOperationResponse> {
+    const autonomousDatabaseId = String(request.autonomousDatabaseId ?? "").trim();
+    if (!autonomousDatabaseId) {
+      throw new Error("autonomousDatabaseId is required.");
+    }
+    return this.ociService.scaleAutonomousDatabase({
+      autonomousDatabaseId,
+      databaseName: String(request.databaseName ?? "").trim() || undefined,
+      region: normalizeOptionalRegion(request.region),
+      ...normalizeAdbCapacity(request.computeCount, request.dataStorageSizeInTBs),
+      isAutoScalingEnabled: request.isAutoScalingEnabled === true,
+      isAutoScalingForStorageEnabled: request.isAutoScalingForStorageEnabled === true,
+    });
+  }
+
+  /** List the backups of an autonomous database */
+  public async listAdbBackups(request: ListAdbBackupsRequest): Promise<ListAdbBackupsResponse> {
+    const autonomousDatabaseId = String(request.autonomousDatabaseId ?? "").trim();
+    if (!autonomousDatabaseId) {
+      throw new Error("autonomousDatabaseId is required.");
+    }
+    return this.ociService.listAutonomousDatabaseBackups(autonomousDatabaseId, normalizeOptionalRegion(request.region));
+  }
+
+  /** Take a manual backup of an autonomous database */
+  public async createAdbBackup(request: CreateAdbBackupRequest): Promise<AdbOperationResponse> {
+    const autonomousDatabaseId = String(request.autonomousDatabaseId ?? "").trim();
+    const displayName = String(request.displayName ?? "").trim();
+    if (!autonomousDatabaseId || !displayName) {
+      throw new Error("autonomousDatabaseId and displayName are required.");
+    }
+    return this.ociService.createAutonomousDatabaseBackup({
+      autonomousDatabaseId,
+      databaseName: String(request.databaseName ?? "").trim() || undefined,
+      region: normalizeOptionalRegion(request.region),
+      displayName,
+    });
+  }
+
+  /** Restore an autonomous database to a point in time */
+  public async restoreAutonomousDatabase(request: RestoreAutonomousDatabaseRequest): Promise<AdbOperationResponse> {
+    const autonomousDatabaseId = String(request.autonomousDatabaseId ?? "").trim();
+    if (!autonomousDatabaseId) {
+      throw new Error("autonomousDatabaseId is required.");
+    }
+    return this.ociService.restoreAutonomousDatabase({
+      autonomousDatabaseId,
+      databaseName: String(request.databaseName ?? "").trim() || undefined,
+      region: normalizeOptionalRegion(request.region),
+      timestamp: normalizeRestoreTimestamp(request.timestamp),
+    });
+  }
+
+  /** Read the endpoint, access control list and mutual TLS setting of an autonomous database */
+  public async getAdbNetworkAccess(request: GetAdbNetworkAccessRequest): Promise<AdbNetworkAccessInfo> {
+    const autonomousDatabaseId = String(request.autonomousDatabaseId ?? "").trim();
+    if (!autonomousDatabaseId) {
+      throw new Error("autonomousDatabaseId is required.");
+    }
+    return this.ociService.getAutonomousDatabaseNetworkAccess(autonomousDatabaseId, normalizeOptionalRegion(request.region));
+  }
+
+  /** Replace the access control list of an autonomous database */
+  public async updateAdbAccessControl(request: UpdateAdbAccessControlRequest): Promise<AdbOperationResponse> {
+    const autonomousDatabaseId = String(request.autonomousDatabaseId ?? "").trim();
+    if (!autonomousDatabaseId) {
+      throw new Error("autonomousDatabaseId is required.");
+    }
+    return this.ociService.updateAutonomousDatabaseAccessControl({
+      autonomousDatabaseId,
+      databaseName: String(request.databaseName ?? "").trim() || undefined,
+      region: normalizeOptionalRegion(request.region),
+      whitelistedIps: normalizeAdbAccessControlList(request.whitelistedIps),
+    });
+  }
+
+  /** Require or stop requiring mutual TLS (wallet) connections to an autonomous database */
+  public async updateAdbMtls(request: UpdateAdbMtlsRequest): Promise<AdbOperationResponse> {
+    const autonomousDatabaseId = String(request.autonomousDatabaseId ?? "").trim();
+    if (!autonomousDatabaseId) {
+      throw new Error("autonomousDatabaseId is required.");
+    }
+    if (typeof request.isMtlsConnectionRequired !== "boolean") {
+      throw new Error("isMtlsConnectionRequired must be true or false.");
+    }
+    return this.ociService.updateAutonomousDatabaseMtls({
+      autonomousDatabaseId,
+      databaseName: String(request.databaseName ?? "").trim() || undefined,
+      region: normalizeOptionalRegion(request.region),
+      isMtlsConnectionRequired: request.isMtlsConnectionRequired,
+    });
+  }
+
+  /**
+   * Public address of this machine, for adding to an access control list. Asks the echo service in
+   * ociAi.publicIpLookupUrl through the configured proxy and CA bundle; an empty setting turns the lookup off.
+   */
+  public async getPublicIp(): Promise<GetPublicIpResponse> {
+    const lookupUrl = String(
+      vscode.workspace.getConfiguration("ociAi").get<string>("publicIpLookupUrl", DEFAULT_PUBLIC_IP_LOOKUP_URL) ?? ""
+    ).trim();
+    if (!lookupUrl) {
+      throw new Error("Public IP lookup is turned off (ociAi.publicIpLookupUrl). Enter the address manually.");
+    }
+    let body: string;
+    try {
+      const response = await fetchExternalText(lookupUrl, PUBLIC_IP_TIMEOUT_MS);
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      body = response.body.trim();
+    } catch (error) {
+      throw new Error(
+        `Public IP lookup with ${lookupUrl} failed: ${error instanceof Error ? error.message : String(error)}. Enter the address manually.`
+      );
+    }
+    if (!IPV4_PATTERN.test(body)) {
+      throw new Error("Public IP lookup returned an unexpected response. Enter the address manually.");
+    }
+    return { ipAddress: body };
+  }
+
   /** Download wallet for an autonomous database */
   public async downloadAdbWallet(request: DownloadAdbWalletRequest): Promise<DownloadAdbWalletResponse> {
     return this.adbSqlService.downloadWallet(request);
   }
 
+  /** When the local wallet was downloaded, when it expires and whether the instance wallet was rotated since */
+  public async getAdbWalletStatus(request: GetAdbWalletStatusRequest): Promise<AdbWalletStatus> {
+    return this.adbSqlService.getWalletStatus(
+      String(request.autonomousDatabaseId ?? ""),
+      normalizeOptionalRegion(request.region),
+    );
+  }
+
+  /** Rotate the instance wallet of an autonomous database */
+  public async rotateAdbWallet(request: RotateAdbWalletRequest): Promise<AdbOperationResponse> {
+    const autonomousDatabaseId = String(request.autonomousDatabaseId ?? "").trim();
+    if (!autonomousDatabaseId) {
+      throw new Error("autonomousDatabaseId is required.");
+    }
+    return this.ociService.rotateAutonomousDatabaseWallet({
+      autonomousDatabaseId,
+      databaseName: String(request.databaseName ?? "").trim() || undefined,
+      region: normalizeOptionalRegion(request.region),
+      gracePeriodHours: normalizeWalletGracePeriod(request.gracePeriodHours),
+    });
+  }
+
+  /** Remove downloaded wallets of deleted databases that no saved connection profile uses */
+  public async cleanupAdbWallets(): Promise<CleanupAdbWalletsResponse> {
+    const cfg = vscode.workspace.getConfiguration("ociAi");
+    const existing = cfg.get<AdbConnectionProfile[]>("adbConnectionProfiles", []);
+    const profiles = Array.isArray(existing) ? existing : [];
+    return this.adbSqlService.cleanupOrphanedWallets(profiles.map((profile) => String(profile.walletPath ?? "")));
+  }
+
   /** Connect to autonomous database */
   public async connectAdb(request: ConnectAdbRequest): Promise<ConnectAdbResponse> {
     return this.adbSqlService.connect(request);
@@ -2771,6 +3663,7 @@ export class Controller {
 
     const profile: AdbConnectionProfile = {
       autonomousDatabaseId: dbId,
+      connectionMode: request.connectionMode === "tls" ? "tls" : "wallet",
       walletPath: String(request.walletPath ?? "").trim(),
       username: String(request.username ?? "").trim(),
       serviceName: String(request.serviceName ?? "").trim(),
@@ -2806,6 +3699,7 @@ export class Controller {
 
     return {
       autonomousDatabaseId: profile.autonomousDatabaseId,
+      connectionMode: profile.connectionMode === "tls" ? "tls" : "wallet",
       walletPath: profile.walletPath,
       username: profile.username,
       serviceName: profile.serviceName,
@@ -2835,12 +3729,12 @@ export class Controller {
     await secretStore.delete(`ociAi.adb.${dbId}.password`);
   }
 
-  public async listVcns(): Promise<import("../types").VcnResource[]> {
-    return this.ociService.listVcns();
+  public async listVcns(refresh = false): Promise<import("../types").RegionListing<import("../types").VcnResource>> {
+    return this.ociService.listVcns(refresh);
   }
 
-  public async listDbSystems(): Promise<import("../types").DbSystemResource[]> {
-    return this.ociService.listDbSystems();
+  public async listDbSystems(refresh = false): Promise<import("../types").RegionListing<import("../types").DbSystemResource>> {
+    return this.ociService.listDbSystems(refresh);
   }
 
   public async startDbSystem(dbSystemId: string, region?: string): Promise<void> {
@@ -2869,6 +3763,77 @@ export class Controller {
     return { connectionStrings };
   }
 
+  /** DB homes, databases and pluggable databases of a DB system */
+  public async listDbSystemDatabases(request: ListDbSystemDatabasesRequest): Promise<DbHomeResource[]> {
+    const dbSystemId = String(request.dbSystemId ?? "").trim();
+    const compartmentId = String(request.compartmentId ?? "").trim();
+    if (!dbSystemId || !compartmentId) {
+      throw new Error("dbSystemId and compartmentId are required.");
+    }
+    return this.ociService.listDbSystemDatabases({
+      dbSystemId,
+      compartmentId,
+      region: normalizeOptionalRegion(request.region),
+      publicIp: String(request.publicIp ?? "").trim() || undefined,
+    });
+  }
+
+  /** Create an empty pluggable database in a container database */
+  public async createPluggableDatabase(request: CreatePluggableDatabaseRequest): Promise<PluggableDatabaseOperationResponse> {
+    const containerDatabaseId = String(request.containerDatabaseId ?? "").trim();
+    if (!containerDatabaseId) {
+      throw new Error("containerDatabaseId is required.");
+    }
+    return this.ociService.createPluggableDatabase({
+      containerDatabaseId,
+      region: normalizeOptionalRegion(request.region),
+      ...normalizePluggableDatabaseCredentials(request),
+    });
+  }
+
+  /** Clone a pluggable database within its container database */
+  public async clonePluggableDatabase(request: ClonePluggableDatabaseRequest): Promise<PluggableDatabaseOperationResponse> {
+    const sourcePluggableDatabaseId = String(request.sourcePluggableDatabaseId ?? "").trim();
+    if (!sourcePluggableDatabaseId) {
+      throw new Error("sourcePluggableDatabaseId is required.");
+    }
+    return this.ociService.clonePluggableDatabase({
+      sourcePluggableDatabaseId,
+      region: normalizeOptionalRegion(request.region),
+      ...normalizePluggableDatabaseCredentials(request),
+    });
+  }
+
+  /** Open (START) or close (STOP) a pluggable database */
+  public async runPluggableDatabaseAction(request: PluggableDatabaseActionRequest): Promise<PluggableDatabaseOperationResponse> {
+    const pluggableDatabaseId = String(request.pluggableDatabaseId ?? "").trim();
+    if (!pluggableDatabaseId) {
+      throw new Error("pluggableDatabaseId is required.");
+    }
+    if (!PLUGGABLE_DATABASE_ACTIONS.has(request.action)) {
+      throw new Error(`Unsupported pluggable database action "${String(request.action)}".`);
+    }
+    return this.ociService.runPluggableDatabaseAction({
+      pluggableDatabaseId,
+      pdbName: String(request.pdbName ?? "").trim() || undefined,
+      region: normalizeOptionalRegion(request.region),
+      action: request.action,
+    });
+  }
+
+  /** Delete a pluggable database and its data */
+  public async deletePluggableDatabase(request: DeletePluggableDatabaseRequest): Promise<PluggableDatabaseOperationResponse> {
+    const pluggableDatabaseId = String(request.pluggableDatabaseId ?? "").trim();
+    if (!pluggableDatabaseId) {
+      throw new Error("pluggableDatabaseId is required.");
+    }
+    return this.ociService.deletePluggableDatabase({
+      pluggableDatabaseId,
+      pdbName: String(request.pdbName ?? "").trim() || undefined,
+      region: normalizeOptionalRegion(request.region),
+    });
+  }
+
   public async executeDbSystemSql(request: import("../shared/services").ExecuteDbSystemSqlRequest): Promise<import("../shared/services").ExecuteAdbSqlResponse> {
     const response = await this.adbSqlService.executeDbSystemSql(request);
     await this.recordSqlHistory({
@@ -3135,8 +4100,8 @@ export class Controller {
     return this.ociService.deleteSecurityList(securityListId, region);
   }
 
-  public async listObjectStorageBuckets(): Promise<import("../types").ObjectStorageBucketResource[]> {
-    return this.ociService.listObjectStorageBuckets();
+  public async listObjectStorageBuckets(refresh = false): Promise<import("../types").RegionListing<import("../types").ObjectStorageBucketResource>> {
+    return this.ociService.listObjectStorageBuckets(refresh);
   }
 
   public async listSpeechBuckets(): Promise<import("../types").ObjectStorageBucketResource[]> {
@@ -3384,8 +4349,8 @@ export class Controller {
   }
 
   public async listBastions(): Promise<import("../shared/services").ListBastionsResponse> {
-    const bastions = await this.ociService.listBastions();
-    return { bastions };
+    const { items: bastions, regionErrors } = await this.ociService.listBastions();
+    return { bastions, regionErrors };
   }
 
   public async listBastionSessions(
@@ -3635,6 +4600,145 @@ export class Controller {
     handler({ servers: this.mcpHub.getServers() }).catch(() => {});
   }
 
+  // --- API Trace Methods ---
+
+  public getApiTraceState(): ApiTraceState {
+    return { entries: this.apiTrace.getEntries() };
+  }
+
+  public clearApiTrace(): void {
+    this.apiTrace.clear();
+  }
+
+  public showApiTraceOutput(): void {
+    this.apiTrace.showOutput();
+  }
+
+  /** Copy a traced call, with its opc-request-id, in the form support tickets ask for */
+  public async copyApiTraceForSupport(id: string): Promise<void> {
+    const entry = this.apiTrace.getEntry(id);
+    if (!entry) {
+      throw new Error("Trace entry is no longer available.");
+    }
+    await vscode.env.clipboard.writeText(formatApiTraceForSupport(entry));
+  }
+
+  public subscribeToApiTrace(requestId: string, handler: StreamingResponseHandler<ApiTraceState>): void {
+    this.apiTraceSubscribers.set(requestId, handler);
+    handler(this.getApiTraceState()).catch(() => {});
+  }
+
+  // --- Monitoring Methods ---
+
+  /** Metric series of a Compute instance, ADB or DB system for the detail pane charts */
+  public async getResourceMetrics(request: GetResourceMetricsRequest): Promise<GetResourceMetricsResponse> {
+    const resourceId = String(request.resourceId ?? "").trim();
+    const compartmentId = String(request.compartmentId ?? "").trim();
+    if (!resourceId || !compartmentId) {
+      throw new Error("resourceId and compartmentId are required.");
+    }
+    if (!METRICS_RESOURCE_KINDS.has(request.resourceKind)) {
+      throw new Error(`Unsupported resourceKind: ${String(request.resourceKind)}`);
+    }
+    if (!METRICS_WINDOWS.has(request.window)) {
+      throw new Error(`Unsupported window: ${String(request.window)}`);
+    }
+    return this.ociService.getResourceMetrics({
+      resourceKind: request.resourceKind,
+      resourceId,
+      compartmentId,
+      region: normalizeOptionalRegion(request.region),
+      window: request.window,
+    });
+  }
+
+  // --- Work Request Methods ---
+
+  public getWorkRequestsState(): WorkRequestsState {
+    return { operations: this.ociService.workRequestTracker.getOperations() };
+  }
+
+  public dismissWorkRequest(id: string): void {
+    this.ociService.workRequestTracker.dismiss(id);
+  }
+
+  public subscribeToWorkRequests(requestId: string, handler: StreamingResponseHandler<WorkRequestsState>): void {
+    this.workRequestSubscribers.set(requestId, handler);
+    handler(this.getWorkRequestsState()).catch(() => {});
+  }
+
+  // --- Run Command Methods ---
+
+  /** Shell and PowerShell scripts in the workspace folders that can be sent with Run Command */
+  public async listRunCommandScripts(): Promise<ListRunCommandScriptsResponse> {
+    const uris = await vscode.workspace.findFiles(RUN_COMMAND_SCRIPT_GLOB, RUN_COMMAND_SCRIPT_EXCLUDE_GLOB, MAX_RUN_COMMAND_SCRIPTS);
+    const scripts = uris
+      .map((uri) => ({ path: uri.fsPath, label: vscode.workspace.asRelativePath(uri, true) }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+    return { scripts };
+  }
+
+  /** Send a workspace script to the given instances through the Compute Instance Agent */
+  public async runComputeCommand(request: RunComputeCommandRequest): Promise<RunComputeCommandResponse> {
+    const scriptPath = String(request.scriptPath ?? "").trim();
+    if (!scriptPath) {
+      throw new Error("scriptPath is required.");
+    }
+    const targets = (Array.isArray(request.targets) ? request.targets : []).map((target) => ({
+      instanceId: String(target?.instanceId ?? "").trim(),
+      instanceName: String(target?.instanceName ?? "").trim() || undefined,
+      compartmentId: String(target?.compartmentId ?? "").trim(),
+      region: normalizeOptionalRegion(target?.region),
+    }));
+    if (targets.length === 0) {
+      throw new Error("Select at least one instance.");
+    }
+    const incomplete = targets.find((target) => !target.instanceId || !target.compartmentId);
+    if (incomplete) {
+      throw new Error(`instanceId and compartmentId are required for every instance (${incomplete.instanceName ?? "unnamed"}).`);
+    }
+    const timeoutSeconds = normalizePositiveNumber(request.timeoutSeconds, "timeoutSeconds") ?? DEFAULT_RUN_COMMAND_TIMEOUT_SECONDS;
+    if (!Number.isInteger(timeoutSeconds)) {
+      throw new Error("timeoutSeconds must be a whole number.");
+    }
+
+    const stat = await fs.promises.stat(scriptPath);
+    if (stat.size > MAX_RUN_COMMAND_SCRIPT_BYTES) {
+      throw new Error(`${path.basename(scriptPath)} is larger than ${MAX_RUN_COMMAND_SCRIPT_BYTES / 1024} KB.`);
+    }
+    // The agent runs the text as is; Windows line endings break bash scripts.
+    const script = (await fs.promises.readFile(scriptPath, "utf8")).replace(/\r\n/g, "\n");
+    if (!script.trim()) {
+      throw new Error(`${path.basename(scriptPath)} is empty.`);
+    }
+
+    const run = await this.ociService.runComputeCommand({
+      scriptName: path.basename(scriptPath),
+      scriptPath,
+      script,
+      targets,
+      timeoutSeconds,
+    });
+    return { runId: run.id };
+  }
+
+  public getRunCommandState(): RunCommandState {
+    return { runs: this.ociService.runCommandTracker.getRuns() };
+  }
+
+  public async cancelRunCommand(id: string): Promise<void> {
+    await this.ociService.cancelRunCommand(id);
+  }
+
+  public dismissRunCommand(id: string): void {
+    this.ociService.runCommandTracker.dismiss(id);
+  }
+
+  public subscribeToRunCommands(requestId: string, handler: StreamingResponseHandler<RunCommandState>): void {
+    this.runCommandSubscribers.set(requestId, handler);
+    handler(this.getRunCommandState()).catch(() => {});
+  }
+
   // --- Agent Methods ---
 
   public getAgentSettings(): AgentSettings {
@@ -3874,6 +4978,142 @@ function normalizePositiveNumber(value: unknown, fieldName: string): number | un
   return normalized;
 }
 
+function normalizeAdbWorkload(value: unknown): AdbWorkloadType {
+  const workload = String(value ?? "").trim().toUpperCase();
+  if (workload !== "OLTP" && workload !== "DW" && workload !== "AJD" && workload !== "APEX") {
+    throw new Error("Workload type must be OLTP, DW, AJD or APEX.");
+  }
+  return workload;
+}
+
+function normalizeAdbDbName(value: unknown): string {
+  const dbName = String(value ?? "").trim();
+  if (!/^[A-Za-z][A-Za-z0-9]{0,29}$/.test(dbName)) {
+    throw new Error("Database name must start with a letter and contain up to 30 letters and numbers.");
+  }
+  return dbName;
+}
+
+/** Checks the ADMIN password rules of Autonomous Database so a bad password fails before the request is sent. */
+function normalizeAdbAdminPassword(value: unknown): string {
+  const password = String(value ?? "");
+  if (password.length < 12 || password.length > 30) {
+    throw new Error("ADMIN password must be 12 to 30 characters long.");
+  }
+  if (!/[A-Z]/.test(password) || !/[a-z]/.test(password) || !/[0-9]/.test(password)) {
+    throw new Error("ADMIN password must contain an uppercase letter, a lowercase letter and a number.");
+  }
+  if (password.includes("\"") || /admin/i.test(password)) {
+    throw new Error("ADMIN password must not contain a double quote or the word \"admin\".");
+  }
+  return password;
+}
+
+function normalizeAdbCapacity(computeCount: unknown, dataStorageSizeInTBs: unknown): { computeCount: number; dataStorageSizeInTBs: number } {
+  const ecpus = Number(computeCount);
+  const storage = Number(dataStorageSizeInTBs);
+  if (!Number.isInteger(ecpus) || ecpus < 2) {
+    throw new Error("ECPU count must be a whole number of at least 2.");
+  }
+  if (!Number.isInteger(storage) || storage < 1) {
+    throw new Error("Storage must be a whole number of terabytes, at least 1.");
+  }
+  return { computeCount: ecpus, dataStorageSizeInTBs: storage };
+}
+
+function normalizeRestoreTimestamp(value: unknown): string {
+  const time = Date.parse(String(value ?? "").trim());
+  if (Number.isNaN(time)) {
+    throw new Error("Restore timestamp is not a valid date.");
+  }
+  if (time > Date.now()) {
+    throw new Error("Restore timestamp cannot be in the future.");
+  }
+  return new Date(time).toISOString();
+}
+
+/** Trims, drops blanks and duplicates, and rejects entries that are not an IPv4 address, CIDR block or VCN OCID. */
+function normalizeAdbAccessControlList(value: unknown): string[] {
+  const entries = Array.from(new Set(
+    (Array.isArray(value) ? value : [])
+      .map((item) => String(item ?? "").trim())
+      .filter((item) => item.length > 0),
+  ));
+  for (const entry of entries) {
+    // A VCN entry may narrow the VCN to addresses inside it: "ocid1.vcn...;10.0.0.5;10.0.1.0/24".
+    const [head, ...vcnAddresses] = entry.split(";").map((part) => part.trim());
+    const valid = head.startsWith("ocid1.vcn.")
+      ? vcnAddresses.every(isIpv4OrCidr)
+      : vcnAddresses.length === 0 && isIpv4OrCidr(head);
+    if (!valid) {
+      throw new Error(`"${entry}" is not an IPv4 address, CIDR block or VCN OCID.`);
+    }
+  }
+  return entries;
+}
+
+function normalizeWalletGracePeriod(value: unknown): number {
+  const hours = Number(value);
+  if (!Number.isInteger(hours) || hours < 0 || hours > MAX_WALLET_GRACE_PERIOD_HOURS) {
+    throw new Error(`Grace period must be a whole number of hours from 0 to ${MAX_WALLET_GRACE_PERIOD_HOURS}.`);
+  }
+  return hours;
+}
+
+/** Validates the name and passwords shared by creating and cloning a pluggable database. */
+function normalizePluggableDatabaseCredentials(
+  request: { pdbName: string; pdbAdminPassword: string; tdeWalletPassword: string },
+): { pdbName: string; pdbAdminPassword: string; tdeWalletPassword: string } {
+  const pdbName = String(request.pdbName ?? "").trim();
+  if (!PDB_NAME_PATTERN.test(pdbName)) {
+    throw new Error("PDB name must start with a letter and contain at most 30 letters, digits or underscores.");
+  }
+  const pdbAdminPassword = String(request.pdbAdminPassword ?? "");
+  const tdeWalletPassword = String(request.tdeWalletPassword ?? "");
+  if (!pdbAdminPassword) {
+    throw new Error("PDB admin password is required.");
+  }
+  if (!tdeWalletPassword) {
+    throw new Error("TDE wallet password is required.");
+  }
+  return { pdbName, pdbAdminPassword, tdeWalletPassword };
+}
+
+function isIpv4OrCidr(value: string): boolean {
+  const [address, prefix, ...rest] = value.split("/");
+  if (rest.length > 0 || !IPV4_PATTERN.test(address)) {
+    return false;
+  }
+  if (address.split(".").some((octet) => Number(octet) > 255)) {
+    return false;
+  }
+  return prefix === undefined || (/^\d{1,2}$/.test(prefix) && Number(prefix) <= 32);
+}
+
+function normalizeAdbNetworkAccess(value: unknown): AdbNetworkAccess {
+  const access = ensureObjectPayload(value, "networkAccess");
+  if (access.type === "PRIVATE") {
+    const subnetId = String(access.subnetId ?? "").trim();
+    if (!subnetId) {
+      throw new Error("Select a subnet for the private endpoint.");
+    }
+    return { type: "PRIVATE", subnetId };
+  }
+  if (access.type === "RESTRICTED") {
+    const allowedIps = (Array.isArray(access.allowedIps) ? access.allowedIps : [])
+      .map((item) => String(item ?? "").trim())
+      .filter((item) => item.length > 0);
+    if (allowedIps.length === 0) {
+      throw new Error("Add at least one IP address, CIDR block or VCN to the access control list.");
+    }
+    return { type: "RESTRICTED", allowedIps };
+  }
+  if (access.type === "PUBLIC") {
+    return { type: "PUBLIC" };
+  }
+  throw new Error("networkAccess.type must be PUBLIC, RESTRICTED or PRIVATE.");
+}
+
 function ensureObjectPayload(value: unknown, fieldName: string): Record<string, unknown> {
   if (!value || typeof value !== "object" || Array.isArray(value)) {
     throw new Error(`${fieldName} must be an object.`);
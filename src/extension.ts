@@ -2,16 +2,25 @@ import * as vscode from "vscode";
 import { AuthManager } from "./auth/authManager";
 import { registerCommands } from "./commands/registerCommands";
 import { Controller } from "./controller/index";
+import { ApiTraceLog } from "./oci/apiTrace";
 import { OciClientFactory } from "./oci/clientFactory";
 import { AdbSqlService } from "./oci/adbSqlService";
 import { GenAiService } from "./oci/genAiService";
 import { OciService } from "./oci/ociService";
 import { OcaProxyManager } from "./oca-proxy/ocaProxyManager";
+import { AdbProvider } from "./providers/adbProvider";
+import { BastionProvider } from "./providers/bastionProvider";
+import { ComputeProvider } from "./providers/computeProvider";
+import { DbSystemProvider } from "./providers/dbSystemProvider";
+import { ObjectStorageProvider } from "./providers/objectStorageProvider";
+import type { ResourceTreeKind } from "./providers/resourceTreeProvider";
+import { VcnProvider } from "./providers/vcnProvider";
 import { OciWebviewProvider } from "./webview/OciWebviewProvider";
 
 export function activate(context: vscode.ExtensionContext): void {
   const authManager = new AuthManager(context);
-  const factory = new OciClientFactory(authManager);
+  const apiTrace = new ApiTraceLog();
+  const factory = new OciClientFactory(authManager, apiTrace);
   const ociService = new OciService(factory);
   const genAiService = new GenAiService(factory);
   const adbSqlService = new AdbSqlService(factory, context.globalStorageUri.fsPath);
@@ -28,28 +37,83 @@ export function activate(context: vscode.ExtensionContext): void {
     context.workspaceState,
     ocaProxyManager,
     context.extensionPath,
+    apiTrace,
   );
 
   // Sidebar webview providers (React app)
   const mainWebviewProvider = new OciWebviewProvider(context, controller, "main");
 
+  // Native tree views read the same cached listings as the webview
+  const resourceTrees = {
+    compute: new ComputeProvider(ociService),
+    adb: new AdbProvider(ociService),
+    dbSystem: new DbSystemProvider(ociService),
+    vcn: new VcnProvider(ociService),
+    objectStorage: new ObjectStorageProvider(ociService),
+    bastion: new BastionProvider(ociService),
+  } satisfies Record<ResourceTreeKind, unknown>;
+  const refreshResourceTrees = () => {
+    for (const tree of Object.values(resourceTrees)) {
+      tree.refresh();
+    }
+  };
+
   // Broadcast proxy status changes to webview
   ocaProxyManager.onStatusChange(() => {
     void controller.broadcastState();
     void mainWebviewProvider.refresh();
   });
 
+  // Views re-read listings after a background revalidation found changes
+  ociService.resourceCache.onDidRevalidate(() => {
+    void mainWebviewProvider.refresh();
+    refreshResourceTrees();
+  });
+
+  // Actions taken in the webview invalidate the listings they change; the trees follow
+  ociService.resourceCache.onDidInvalidate(({ kind }) => {
+    if (kind === undefined) {
+      refreshResourceTrees();
+    } else if (kind === "computeNetwork") {
+      resourceTrees.compute.refresh();
+    } else {
+      resourceTrees[kind].refresh();
+    }
+  });
+
+  // A finished launch or provisioning changes the listings the views show
+  ociService.workRequestTracker.onDidSettle(({ feature }) => {
+    void mainWebviewProvider.refresh();
+    if (feature in resourceTrees) {
+      resourceTrees[feature as ResourceTreeKind].refresh();
+    }
+  });
+
   context.subscriptions.push(
     new vscode.Disposable(() => {
       controller.dispose();
       void adbSqlService.dispose();
       ocaProxyManager.dispose();
+      apiTrace.dispose();
+      ociService.resourceCache.dispose();
+      ociService.workRequestTracker.dispose();
+      ociService.runCommandTracker.dispose();
     }),
     vscode.window.registerWebviewViewProvider(
       OciWebviewProvider.MAIN_VIEW_ID,
       mainWebviewProvider,
       { webviewOptions: { retainContextWhenHidden: true } },
     ),
+    ...Object.values(resourceTrees).flatMap((tree) => [
+      tree,
+      vscode.window.createTreeView(tree.viewId, { treeDataProvider: tree, showCollapseAll: true }),
+    ]),
+    // Compartment, region and profile changes made in the webview change what the trees list
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("ociAi")) {
+        refreshResourceTrees();
+      }
+    }),
   );
 
   // Register commands
@@ -58,8 +122,16 @@ export function activate(context: vscode.ExtensionContext): void {
     ociService,
     genAiService,
     controller,
-    refreshCompute: () => mainWebviewProvider.refresh(),
-    refreshAdb: () => mainWebviewProvider.refresh(),
+    refreshResources: (kind) => {
+      if (kind === "compute") {
+        ociService.resourceCache.invalidate({ kind: "compute" });
+        ociService.resourceCache.invalidate({ kind: "computeNetwork" });
+      } else if (kind !== "bastion") {
+        ociService.resourceCache.invalidate({ kind });
+      }
+      resourceTrees[kind].refresh();
+      void mainWebviewProvider.refresh();
+    },
     refreshProfileDescription: () => mainWebviewProvider.refreshProfileDescription(),
   });
 
@@ -1,12 +1,14 @@
-import { createHash, randomUUID } from "crypto";
+import { randomUUID } from "crypto";
 import * as fs from "fs";
 import * as path from "path";
-import { Readable } from "stream";
-import { pipeline } from "stream/promises";
 import type * as database from "oci-database";
+import { AdbWalletManager, type AdbWalletOwner } from "./adbWalletManager";
 import { OciClientFactory } from "./clientFactory";
 import { getOracleDbDiagnostics, getOracleDbRuntimeStatus, loadOracleDb } from "./oracleDbRuntime";
 import type {
+  AdbConnectionMode,
+  AdbWalletStatus,
+  CleanupAdbWalletsResponse,
   ConnectAdbRequest,
   ConnectAdbResponse,
   DownloadAdbWalletRequest,
@@ -38,17 +40,17 @@ const CONNECT_TIMEOUT_SECONDS = 15;
 const SQL_CALL_TIMEOUT_MS = 30_000;
 
 export class AdbSqlService {
-  private readonly walletRoot: string;
-  private readonly walletConfigRoot: string;
+  private readonly wallets: AdbWalletManager;
   private readonly connections = new Map<string, ConnectionEntry>();
-  private readonly walletPasswords = new Map<string, string>();
 
   constructor(
     private readonly factory: OciClientFactory,
     storageRoot: string,
   ) {
-    this.walletRoot = path.join(storageRoot, "adb-wallets");
-    this.walletConfigRoot = path.join(storageRoot, "adb-wallet-configs");
+    this.wallets = new AdbWalletManager(
+      path.resolve(storageRoot, "adb-wallets"),
+      path.resolve(storageRoot, "adb-wallet-configs"),
+    );
   }
 
   public async downloadWallet(request: DownloadAdbWalletRequest): Promise<DownloadAdbWalletResponse> {
@@ -65,26 +67,60 @@ export class AdbSqlService {
     }
 
     const client = await this.factory.createDatabaseClientAsync(resolvedRegion || undefined);
-    const baseDir = path.join(this.walletRoot, sanitizePathSegment(autonomousDatabaseId));
-    const walletDir = normalizeWalletPath(path.join(baseDir, "wallet"));
-    const walletZipPath = path.join(baseDir, "wallet.zip");
-
-    await fs.promises.mkdir(baseDir, { recursive: true });
-    await fs.promises.rm(walletDir, { recursive: true, force: true });
-
-    const response = await client.generateAutonomousDatabaseWallet({
+    const { walletPath } = await this.wallets.download(
+      client,
       autonomousDatabaseId,
-      generateAutonomousDatabaseWalletDetails: {
-        password: walletPassword,
-      },
-    });
-    await writeToFile(response.value, walletZipPath);
-
-    await extractWalletZip(walletZipPath, walletDir);
-    this.walletPasswords.set(walletDir, walletPassword);
+      String(client.regionId || resolvedRegion),
+      walletPassword,
+      await this.getWalletOwner(),
+    );
 
     const serviceNames = await this.fetchServiceNames(client, autonomousDatabaseId);
-    return { walletPath: walletDir, serviceNames };
+    return { walletPath, serviceNames };
+  }
+
+  public async getWalletStatus(autonomousDatabaseId: string, region?: string): Promise<AdbWalletStatus> {
+    const id = autonomousDatabaseId.trim();
+    if (!id) {
+      throw new Error("autonomousDatabaseId is required.");
+    }
+    const record = await this.wallets.findRecord(id);
+    const client = await this.factory.createDatabaseClientAsync(
+      String(region ?? "").trim() || record?.region || inferRegionFromAutonomousDatabaseId(id) || undefined,
+    );
+    const instanceWallet = await this.wallets.getInstanceWallet(client, id);
+    return {
+      autonomousDatabaseId: id,
+      walletPath: record?.walletPath,
+      downloadedAt: record?.downloadedAt,
+      expiresAt: record?.expiresAt,
+      walletLifecycleState: instanceWallet.lifecycleState ? String(instanceWallet.lifecycleState) : undefined,
+      rotatedAt: instanceWallet.timeRotated ? new Date(instanceWallet.timeRotated).toISOString() : undefined,
+      isStale: record ? this.wallets.isStale(record, instanceWallet) : false,
+    };
+  }
+
+  /**
+   * Removes wallets the active profile downloaded for databases that were terminated, unless one of
+   * referencedPaths (the wallets of saved connection profiles) still points at them. A database that
+   * cannot be looked up keeps its wallet: OCI answers 404 both for deleted databases and for those the
+   * profile is not allowed to see.
+   */
+  public async cleanupOrphanedWallets(referencedPaths: string[]): Promise<CleanupAdbWalletsResponse> {
+    const referenced = new Set(referencedPaths.map((value) => value.trim()).filter(Boolean).map(normalizeWalletPath));
+    const owner = await this.getWalletOwner();
+    const removedPaths = await this.wallets.removeOrphaned(referenced, owner, async (autonomousDatabaseId, region) => {
+      try {
+        const client = await this.factory.createDatabaseClientAsync(
+          region || inferRegionFromAutonomousDatabaseId(autonomousDatabaseId) || undefined,
+        );
+        const { autonomousDatabase } = await client.getAutonomousDatabase({ autonomousDatabaseId });
+        return String(autonomousDatabase.lifecycleState) === "TERMINATED";
+      } catch {
+        return false;
+      }
+    });
+    return { removedPaths };
   }
 
   public async connect(request: ConnectAdbRequest): Promise<ConnectAdbResponse> {
@@ -94,7 +130,7 @@ export class AdbSqlService {
       throw new Error("autonomousDatabaseId is required.");
     }
 
-    const { connection, serviceName, walletPath } = await this.openAdbConnection(request);
+    const { connection, connectionMode, serviceName, walletPath } = await this.openAdbConnection(request);
 
     const connectionId = randomUUID();
     this.connections.set(connectionId, {
@@ -104,6 +140,7 @@ export class AdbSqlService {
     return {
       connectionId,
       autonomousDatabaseId,
+      connectionMode,
       serviceName,
       walletPath,
     };
@@ -298,9 +335,14 @@ export class AdbSqlService {
 
   private async openAdbConnection(request: ConnectAdbRequest): Promise<{
     connection: DbConnection;
+    connectionMode: AdbConnectionMode;
     serviceName: string;
     walletPath: string;
   }> {
+    if (request.connectionMode === "tls") {
+      return this.openAdbTlsConnection(request);
+    }
+
     const autonomousDatabaseId = request.autonomousDatabaseId.trim();
     const walletPathRaw = request.walletPath.trim();
     const username = request.username.trim();
@@ -331,8 +373,9 @@ export class AdbSqlService {
     const oracledb = loadOracleDb();
     const runtime = getOracleDbRuntimeStatus();
     const isThickMode = runtime?.mode === "thick";
+    const walletPassword = request.walletPassword?.trim() || this.wallets.getPassword(walletPath);
+    await this.refreshRotatedWallet(walletPath, walletPassword);
     const walletFiles = await this.readWalletNetworkFiles(walletPath);
-    const walletPassword = request.walletPassword?.trim() || this.walletPasswords.get(walletPath);
     if (!isThickMode && !walletPassword) {
       throw new Error("walletPassword is required for this wallet path.");
     }
@@ -357,6 +400,7 @@ export class AdbSqlService {
       applyConnectionTimeouts(connection);
       return {
         connection,
+        connectionMode: "wallet",
         serviceName,
         walletPath,
       };
@@ -365,6 +409,63 @@ export class AdbSqlService {
     }
   }
 
+  /** One-way TLS without a wallet, using the descriptor OCI publishes for the chosen profile */
+  private async openAdbTlsConnection(request: ConnectAdbRequest): Promise<{
+    connection: DbConnection;
+    connectionMode: AdbConnectionMode;
+    serviceName: string;
+    walletPath: string;
+  }> {
+    const autonomousDatabaseId = request.autonomousDatabaseId.trim();
+    const username = request.username.trim();
+    const serviceName = request.serviceName.trim();
+
+    if (!autonomousDatabaseId) {
+      throw new Error("autonomousDatabaseId is required.");
+    }
+    if (!username) {
+      throw new Error("username is required.");
+    }
+    if (!request.password) {
+      throw new Error("password is required.");
+    }
+    if (!serviceName) {
+      throw new Error("serviceName is required.");
+    }
+
+    const region = String(request.region ?? "").trim() || inferRegionFromAutonomousDatabaseId(autonomousDatabaseId);
+    const client = await this.factory.createDatabaseClientAsync(region || undefined);
+    const { autonomousDatabase } = await client.getAutonomousDatabase({ autonomousDatabaseId });
+    if (autonomousDatabase.isMtlsConnectionRequired) {
+      throw new Error(
+        `${autonomousDatabase.displayName || autonomousDatabaseId} requires mutual TLS, so it can only be reached with a wallet. ` +
+        "Add your IP address to its access control list and choose \"Allow TLS Without Wallet\" in the Network tab of the ADB view, " +
+        "or switch the connection mode back to Wallet."
+      );
+    }
+
+    const connectString = resolveTlsConnectString(serviceName, autonomousDatabase.connectionStrings);
+    const oracledb = loadOracleDb();
+    try {
+      const connection = (await oracledb.getConnection({
+        user: username,
+        password: request.password,
+        connectString,
+        connectTimeout: CONNECT_TIMEOUT_SECONDS,
+        transportConnectTimeout: TRANSPORT_CONNECT_TIMEOUT_SECONDS,
+      })) as DbConnection;
+      applyConnectionTimeouts(connection);
+      return {
+        connection,
+        connectionMode: "tls",
+        serviceName,
+        walletPath: "",
+      };
+    } catch (error) {
+      throw enrichConnectError(error, autonomousDatabaseId, serviceName);
+    }
+  }
+
   private async openDbSystemConnection(request: ConnectDbSystemRequest): Promise<{
     connection: DbConnection;
     serviceName: string;
@@ -410,6 +511,43 @@ export class AdbSqlService {
     await Promise.allSettled(entries.map(([, entry]) => entry.connection.close()));
   }
 
+  /**
+   * Downloads the wallet again when it is one the extension downloaded and the instance wallet has been
+   * rotated since, because the old certificates stop working once the rotation's grace period ends.
+   * Checking is best-effort: if OCI cannot be reached the connect goes ahead with the local copy.
+   */
+  private async refreshRotatedWallet(walletPath: string, walletPassword: string | undefined): Promise<void> {
+    const record = await this.wallets.findRecordByPath(walletPath);
+    if (!record) {
+      return;
+    }
+    let client: database.DatabaseClient;
+    let instanceWallet: database.models.AutonomousDatabaseWallet;
+    try {
+      client = await this.factory.createDatabaseClientAsync(record.region || undefined);
+      instanceWallet = await this.wallets.getInstanceWallet(client, record.autonomousDatabaseId);
+    } catch {
+      return;
+    }
+    if (!this.wallets.isStale(record, instanceWallet)) {
+      return;
+    }
+    if (!walletPassword) {
+      throw new Error(
+        "The wallet of this database was rotated after it was downloaded. " +
+        "Enter a wallet password so the new wallet can be downloaded, or download it again from the ADB view."
+      );
+    }
+    await this.wallets.download(client, record.autonomousDatabaseId, record.region, walletPassword, await this.getWalletOwner());
+  }
+
+  private async getWalletOwner(): Promise<AdbWalletOwner> {
+    return {
+      profile: this.factory.getProfile() || "DEFAULT",
+      tenancyOcid: await this.factory.getTenancyOcidAsync().catch(() => undefined),
+    };
+  }
+
   public async dispose(): Promise<void> {
     await this.disconnectAll();
   }
@@ -438,8 +576,7 @@ export class AdbSqlService {
   }
 
   private async prepareWalletConfigDir(walletPath: string, walletFiles: WalletNetworkFiles): Promise<string> {
-    const configHash = createHash("sha1").update(walletPath).digest("hex");
-    const configDir = path.join(this.walletConfigRoot, configHash);
+    const configDir = this.wallets.resolveConfigDir(walletPath);
     const resolvedSqlnet = rewriteWalletLocation(walletFiles.sqlnetContent, walletPath);
 
     await fs.promises.mkdir(configDir, { recursive: true });
@@ -457,25 +594,6 @@ type WalletNetworkFiles = {
   sqlnetContent: string;
 };
 
-async function writeToFile(source: unknown, destinationPath: string): Promise<void> {
-  if (typeof source === "string" || Buffer.isBuffer(source)) {
-    await fs.promises.writeFile(destinationPath, source);
-    return;
-  }
-  const nodeReadable =
-    source instanceof Readable ? source : Readable.fromWeb(source as any);
-  const writeStream = fs.createWriteStream(destinationPath);
-  await pipeline(nodeReadable, writeStream);
-}
-
-async function extractWalletZip(walletZipPath: string, targetDir: string): Promise<void> {
-  // eslint-disable-next-line @typescript-eslint/no-var-requires
-  const AdmZip = require("adm-zip");
-  await fs.promises.mkdir(targetDir, { recursive: true });
-  const zip = new AdmZip(walletZipPath);
-  zip.extractAllTo(targetDir, true);
-}
-
 function normalizeRows(rows: any[], columns: string[]): Array<Record<string, string | number | boolean | null>> {
   return rows.map((row) => {
     if (!row || typeof row !== "object" || Array.isArray(row)) {
@@ -518,10 +636,6 @@ function normalizeCellValue(value: unknown): string | number | boolean | null {
   }
 }
 
-function sanitizePathSegment(value: string): string {
-  return value.replace(/[^a-zA-Z0-9._-]/g, "_");
-}
-
 function normalizeWalletPath(value: string): string {
   return path.resolve(value);
 }
@@ -555,6 +669,42 @@ function resolveThickAdbConnectString(serviceName: string, tnsnamesContent: stri
   return injectDescriptorTimeouts(injectMyWalletDirectory(descriptor, walletPath));
 }
 
+function resolveTlsConnectString(
+  serviceName: string,
+  connectionStrings: database.models.AutonomousDatabaseConnectionStrings | undefined,
+): string {
+  if (looksLikeConnectDescriptor(serviceName)) {
+    return injectDescriptorTimeouts(serviceName.trim());
+  }
+
+  const candidates = (connectionStrings?.profiles ?? []).filter((profile) =>
+    isTlsConnectionProfile(profile)
+    && String(profile.displayName ?? "").trim().toLowerCase() === serviceName.toLowerCase());
+  // Prefer the long descriptor form so the connect timeouts can be added to it.
+  const profile = candidates.find((candidate) => String(candidate.syntaxFormat) === "LONG") ?? candidates[0];
+  if (!profile) {
+    const available = Array.from(new Set(
+      (connectionStrings?.profiles ?? [])
+        .filter(isTlsConnectionProfile)
+        .map((candidate) => String(candidate.displayName ?? "").trim())
+        .filter(Boolean),
+    ));
+    throw new Error(
+      `No TLS connection string named "${serviceName}" was found for this database.` +
+      (available.length > 0 ? ` Available: ${available.join(", ")}.` : "")
+    );
+  }
+
+  const value = profile.value.trim();
+  return looksLikeConnectDescriptor(value) ? injectDescriptorTimeouts(value) : value;
+}
+
+function isTlsConnectionProfile(profile: database.models.DatabaseConnectionStringProfile): boolean {
+  return String(profile.protocol) === "TCPS"
+    && String(profile.tlsAuthentication) === "SERVER"
+    && Boolean(profile.value?.trim());
+}
+
 function looksLikeConnectDescriptor(value: string): boolean {
   return value.trim().startsWith("(");
 }
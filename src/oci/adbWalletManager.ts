@@ -0,0 +1,267 @@
+import { createHash, X509Certificate } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type * as database from "oci-database";
+
+/** What the extension remembers about a wallet it downloaded, stored next to the wallet directory */
+export interface AdbWalletRecord {
+  autonomousDatabaseId: string;
+  region: string;
+  /** Profile and tenancy that downloaded the wallet; unset in records written before they were kept */
+  profile?: string;
+  tenancyOcid?: string;
+  walletPath: string;
+  /** ISO timestamps */
+  downloadedAt: string;
+  /** timeRotated of the instance wallet when this copy was downloaded; unset if it had never been rotated */
+  walletRotatedAt?: string;
+  /** Earliest expiry among the certificates in ewallet.pem */
+  expiresAt?: string;
+}
+
+/** Profile, and its tenancy when known, whose credentials download and look up wallets */
+export interface AdbWalletOwner {
+  profile: string;
+  tenancyOcid?: string;
+}
+
+const WALLET_DIR_NAME = "wallet";
+const WALLET_RECORD_FILE = "wallet.json";
+const PRIVATE_DIR_MODE = 0o700;
+const PRIVATE_FILE_MODE = 0o600;
+
+/**
+ * Wallets downloaded by the extension, one directory per Autonomous Database under the storage root,
+ * each holding the extracted wallet and a record of when it was downloaded. The record lets a rotation
+ * of the instance wallet be detected without opening a connection. Directories and files are readable
+ * by the current user only, and the downloaded archive is removed once extracted.
+ */
+export class AdbWalletManager {
+  private readonly passwords = new Map<string, string>();
+
+  constructor(
+    private readonly walletRoot: string,
+    private readonly walletConfigRoot: string,
+  ) {}
+
+  /** Generates a new wallet and replaces the local copy, keeping the password in memory for later connects */
+  public async download(
+    client: database.DatabaseClient,
+    autonomousDatabaseId: string,
+    region: string,
+    walletPassword: string,
+    owner: AdbWalletOwner,
+  ): Promise<AdbWalletRecord> {
+    const baseDir = this.resolveBaseDir(autonomousDatabaseId);
+    const walletDir = path.join(baseDir, WALLET_DIR_NAME);
+    const walletZipPath = path.join(baseDir, "wallet.zip");
+
+    await fs.promises.mkdir(baseDir, { recursive: true, mode: PRIVATE_DIR_MODE });
+    await Promise.all([
+      fs.promises.chmod(this.walletRoot, PRIVATE_DIR_MODE),
+      fs.promises.chmod(baseDir, PRIVATE_DIR_MODE),
+    ]);
+
+    // Read before generating, so a rotation that lands mid-download leaves this copy marked stale.
+    const instanceWallet = await this.getInstanceWallet(client, autonomousDatabaseId).catch(() => undefined);
+    const response = await client.generateAutonomousDatabaseWallet({
+      autonomousDatabaseId,
+      generateAutonomousDatabaseWalletDetails: {
+        password: walletPassword,
+      },
+    });
+
+    await fs.promises.rm(walletDir, { recursive: true, force: true });
+    try {
+      await writeToFile(response.value, walletZipPath);
+      await extractWalletZip(walletZipPath, walletDir);
+    } finally {
+      await fs.promises.rm(walletZipPath, { force: true });
+    }
+    await restrictToOwner(walletDir);
+
+    const record: AdbWalletRecord = {
+      autonomousDatabaseId,
+      region,
+      profile: owner.profile,
+      tenancyOcid: owner.tenancyOcid,
+      walletPath: walletDir,
+      downloadedAt: new Date().toISOString(),
+      walletRotatedAt: toIsoString(instanceWallet?.timeRotated),
+      expiresAt: await readWalletExpiry(walletDir),
+    };
+    await fs.promises.writeFile(path.join(baseDir, WALLET_RECORD_FILE), JSON.stringify(record, null, 2), {
+      encoding: "utf8",
+      mode: PRIVATE_FILE_MODE,
+    });
+    this.passwords.set(walletDir, walletPassword);
+    return record;
+  }
+
+  public getPassword(walletPath: string): string | undefined {
+    return this.passwords.get(walletPath);
+  }
+
+  public async findRecord(autonomousDatabaseId: string): Promise<AdbWalletRecord | undefined> {
+    return readRecordFile(path.join(this.resolveBaseDir(autonomousDatabaseId), WALLET_RECORD_FILE));
+  }
+
+  /** Record of the wallet at walletPath, or undefined for a wallet the user extracted themselves */
+  public async findRecordByPath(walletPath: string): Promise<AdbWalletRecord | undefined> {
+    const baseDir = path.dirname(walletPath);
+    if (path.basename(walletPath) !== WALLET_DIR_NAME || path.dirname(baseDir) !== this.walletRoot) {
+      return undefined;
+    }
+    const record = await readRecordFile(path.join(baseDir, WALLET_RECORD_FILE));
+    return record?.walletPath === walletPath ? record : undefined;
+  }
+
+  public async getInstanceWallet(
+    client: database.DatabaseClient,
+    autonomousDatabaseId: string,
+  ): Promise<database.models.AutonomousDatabaseWallet> {
+    const response = await client.getAutonomousDatabaseWallet({ autonomousDatabaseId });
+    return response.autonomousDatabaseWallet;
+  }
+
+  /** True once the instance wallet has finished a rotation that happened after the local copy was downloaded */
+  public isStale(record: AdbWalletRecord, instanceWallet: database.models.AutonomousDatabaseWallet): boolean {
+    const rotatedAt = toIsoString(instanceWallet.timeRotated);
+    if (!rotatedAt || String(instanceWallet.lifecycleState) !== "ACTIVE") {
+      return false;
+    }
+    return Date.parse(rotatedAt) > Date.parse(record.walletRotatedAt ?? record.downloadedAt);
+  }
+
+  public resolveConfigDir(walletPath: string): string {
+    return path.join(this.walletConfigRoot, createHash("sha1").update(walletPath).digest("hex"));
+  }
+
+  /**
+   * Removes the wallets owner downloaded for databases that no longer exist and are not used by any of
+   * referencedPaths, then the connection config directories that no remaining wallet or referenced path
+   * maps to. Wallets of other profiles or tenancies, and those without a record of who downloaded them,
+   * are kept, since owner's credentials cannot tell whether their database still exists.
+   * Returns the removed wallet directories.
+   */
+  public async removeOrphaned(
+    referencedPaths: Set<string>,
+    owner: AdbWalletOwner,
+    isDatabaseGone: (autonomousDatabaseId: string, region: string) => Promise<boolean>,
+  ): Promise<string[]> {
+    const entries = await fs.promises.readdir(this.walletRoot, { withFileTypes: true }).catch(() => []);
+    const removedPaths: string[] = [];
+    const keptPaths = new Set(referencedPaths);
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) {
+        continue;
+      }
+      const baseDir = path.join(this.walletRoot, entry.name);
+      const walletPath = path.join(baseDir, WALLET_DIR_NAME);
+      if (referencedPaths.has(walletPath)) {
+        continue;
+      }
+      const record = await readRecordFile(path.join(baseDir, WALLET_RECORD_FILE));
+      const gone = record && isOwnedBy(record, owner) && await isDatabaseGone(record.autonomousDatabaseId, record.region);
+      if (!gone) {
+        keptPaths.add(walletPath);
+        continue;
+      }
+      await fs.promises.rm(baseDir, { recursive: true, force: true });
+      this.passwords.delete(walletPath);
+      removedPaths.push(walletPath);
+    }
+
+    const keptConfigDirs = new Set(Array.from(keptPaths, (walletPath) => path.basename(this.resolveConfigDir(walletPath))));
+    const configEntries = await fs.promises.readdir(this.walletConfigRoot, { withFileTypes: true }).catch(() => []);
+    for (const entry of configEntries) {
+      if (entry.isDirectory() && !keptConfigDirs.has(entry.name)) {
+        await fs.promises.rm(path.join(this.walletConfigRoot, entry.name), { recursive: true, force: true });
+      }
+    }
+    return removedPaths;
+  }
+
+  private resolveBaseDir(autonomousDatabaseId: string): string {
+    return path.join(this.walletRoot, sanitizePathSegment(autonomousDatabaseId));
+  }
+}
+
+function isOwnedBy(record: AdbWalletRecord, owner: AdbWalletOwner): boolean {
+  if (!record.profile || record.profile !== owner.profile) {
+    return false;
+  }
+  return !record.tenancyOcid || !owner.tenancyOcid || record.tenancyOcid === owner.tenancyOcid;
+}
+
+async function readRecordFile(recordPath: string): Promise<AdbWalletRecord | undefined> {
+  try {
+    const record = JSON.parse(await fs.promises.readFile(recordPath, "utf8")) as AdbWalletRecord;
+    return record?.autonomousDatabaseId && record.walletPath ? record : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Earliest certificate expiry in ewallet.pem, which holds the client certificate and its CA chain */
+async function readWalletExpiry(walletDir: string): Promise<string | undefined> {
+  const pem = await fs.promises.readFile(path.join(walletDir, "ewallet.pem"), "utf8").catch(() => "");
+  const expiries: number[] = [];
+  for (const match of pem.matchAll(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g)) {
+    try {
+      const validTo = Date.parse(new X509Certificate(match[0]).validTo);
+      if (Number.isFinite(validTo)) {
+        expiries.push(validTo);
+      }
+    } catch {
+      // Skip blocks that are not valid certificates.
+    }
+  }
+  return expiries.length > 0 ? new Date(Math.min(...expiries)).toISOString() : undefined;
+}
+
+async function restrictToOwner(dir: string): Promise<void> {
+  await fs.promises.chmod(dir, PRIVATE_DIR_MODE);
+  for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      await restrictToOwner(entryPath);
+    } else {
+      await fs.promises.chmod(entryPath, PRIVATE_FILE_MODE);
+    }
+  }
+}
+
+async function writeToFile(source: unknown, destinationPath: string): Promise<void> {
+  if (typeof source === "string" || Buffer.isBuffer(source)) {
+    await fs.promises.writeFile(destinationPath, source, { mode: PRIVATE_FILE_MODE });
+    return;
+  }
+  const nodeReadable =
+    source instanceof Readable ? source : Readable.fromWeb(source as any);
+  const writeStream = fs.createWriteStream(destinationPath, { mode: PRIVATE_FILE_MODE });
+  await pipeline(nodeReadable, writeStream);
+}
+
+async function extractWalletZip(walletZipPath: string, targetDir: string): Promise<void> {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const AdmZip = require("adm-zip");
+  await fs.promises.mkdir(targetDir, { recursive: true, mode: PRIVATE_DIR_MODE });
+  const zip = new AdmZip(walletZipPath);
+  zip.extractAllTo(targetDir, true);
+}
+
+function sanitizePathSegment(value: string): string {
+  return value.replace(/[^a-zA-Z0-9._-]/g, "_");
+}
+
+function toIsoString(value: Date | string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
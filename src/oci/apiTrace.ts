@@ -0,0 +1,89 @@
+import * as vscode from "vscode";
+import type { ApiTraceEntry } from "../shared/services";
+
+const MAX_API_TRACE_ENTRIES = 500;
+export const API_TRACE_CHANNEL_NAME = "OCI AI: API Trace";
+
+/**
+ * Keeps the most recent OCI API calls in memory and mirrors each one to the
+ * "OCI AI: API Trace" output channel, so opc-request-id is at hand when a call fails.
+ */
+export class ApiTraceLog implements vscode.Disposable {
+  private readonly channel = vscode.window.createOutputChannel(API_TRACE_CHANNEL_NAME);
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.onDidChangeEmitter.event;
+  private entries: ApiTraceEntry[] = [];
+  private nextId = 1;
+
+  public record(trace: Omit<ApiTraceEntry, "id">): void {
+    const entry: ApiTraceEntry = { id: String(this.nextId++), ...trace };
+    this.entries.push(entry);
+    if (this.entries.length > MAX_API_TRACE_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_API_TRACE_ENTRIES);
+    }
+    this.channel.appendLine(formatTraceLine(entry));
+    this.onDidChangeEmitter.fire();
+  }
+
+  /** Newest first */
+  public getEntries(): ApiTraceEntry[] {
+    return [...this.entries].reverse();
+  }
+
+  public getEntry(id: string): ApiTraceEntry | undefined {
+    return this.entries.find((entry) => entry.id === id);
+  }
+
+  public clear(): void {
+    this.entries = [];
+    this.channel.clear();
+    this.onDidChangeEmitter.fire();
+  }
+
+  public showOutput(): void {
+    this.channel.show(true);
+  }
+
+  public dispose(): void {
+    this.channel.dispose();
+    this.onDidChangeEmitter.dispose();
+  }
+}
+
+/** Plain-text summary of a call in the shape OCI support asks for. */
+export function formatApiTraceForSupport(entry: ApiTraceEntry): string {
+  const lines = [
+    `OCI API request ${entry.ok ? "details" : "failure"}`,
+    `Time (UTC): ${entry.timestamp}`,
+    `Service: ${entry.service}`,
+    `Operation: ${entry.operation}`,
+    `Region: ${entry.region || "unknown"}`,
+    `Endpoint: ${entry.method} ${entry.endpoint}`,
+    `HTTP status: ${entry.status ?? "no response"}`,
+    `opc-request-id: ${entry.opcRequestId || "not returned"}`,
+  ];
+  if (entry.errorCode || entry.errorMessage) {
+    lines.push(`Error: ${[entry.errorCode, entry.errorMessage].filter(Boolean).join(": ")}`);
+  }
+  lines.push(`Attempts: ${entry.attempts}`, `Latency: ${entry.latencyMs} ms`);
+  return lines.join("\n");
+}
+
+function formatTraceLine(entry: ApiTraceEntry): string {
+  const parts = [
+    `[${entry.timestamp}]`,
+    entry.ok ? "OK " : "ERR",
+    String(entry.status ?? "---"),
+    `${entry.service} ${entry.operation}`,
+    entry.region || "-",
+    `${entry.latencyMs}ms`,
+    `opc-request-id=${entry.opcRequestId || "-"}`,
+  ];
+  if (entry.attempts > 1) {
+    parts.push(`attempts=${entry.attempts}`);
+  }
+  if (!entry.ok && (entry.errorCode || entry.errorMessage)) {
+    parts.push(`| ${[entry.errorCode, entry.errorMessage].filter(Boolean).join(": ")}`);
+  }
+  return parts.join(" ");
+}
@@ -0,0 +1,140 @@
+import * as vscode from "vscode";
+
+const POLL_INTERVAL_MS = 5_000;
+/** Consecutive failed polls before a tracked item is given up on */
+const MAX_POLL_FAILURES = 5;
+
+export interface BackgroundPollerOptions<T extends { id: string }, C> {
+  /** Settled items kept listed; older ones are dropped when a new item is added */
+  maxSettled: number;
+  isActive: (entry: T) => boolean;
+  /** One round for an active item; returns its next state */
+  poll: (entry: T, context: C) => Promise<T>;
+}
+
+/** Outcome of attempt(): fresh progress, or the error that used up the failure limit */
+export type PollAttempt<P> = { progress: P } | { error: unknown };
+
+interface Tracked<T, C> {
+  entry: T;
+  context: C;
+  /** Consecutive failed polls per key */
+  failures: Map<string, number>;
+}
+
+/**
+ * Polls items started from the extension (work requests, Run Command executions) in the
+ * background while any of them is active, and keeps them listed until they are removed.
+ * `C` is what each item needs to be polled, e.g. the function that reads its progress.
+ */
+export class BackgroundPoller<T extends { id: string }, C> implements vscode.Disposable {
+  private readonly items = new Map<string, Tracked<T, C>>();
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.onDidChangeEmitter.event;
+  private readonly onDidSettleEmitter = new vscode.EventEmitter<T>();
+  /** Fires once per item when a poll leaves it inactive */
+  readonly onDidSettle = this.onDidSettleEmitter.event;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private polling = false;
+
+  constructor(private readonly options: BackgroundPollerOptions<T, C>) { }
+
+  public add(entry: T, context: C): void {
+    this.items.set(entry.id, { entry, context, failures: new Map() });
+    this.pruneSettled();
+    this.onDidChangeEmitter.fire();
+    this.schedule();
+  }
+
+  public get(id: string): T | undefined {
+    return this.items.get(id)?.entry;
+  }
+
+  /** Newest first */
+  public list(): T[] {
+    return [...this.items.values()].map((item) => item.entry).reverse();
+  }
+
+  public remove(id: string): void {
+    if (this.items.delete(id)) {
+      this.onDidChangeEmitter.fire();
+    }
+  }
+
+  /**
+   * Read progress for one item, or one part of it under `key`. Returns undefined after a failure
+   * while the consecutive failures stay under the limit, so the caller keeps the previous state
+   * and the next round tries again.
+   */
+  public async attempt<P>(id: string, key: string, read: () => Promise<P>): Promise<PollAttempt<P> | undefined> {
+    const failures = this.items.get(id)?.failures;
+    try {
+      const progress = await read();
+      failures?.delete(key);
+      return { progress };
+    } catch (error) {
+      const count = (failures?.get(key) ?? 0) + 1;
+      failures?.set(key, count);
+      return count < MAX_POLL_FAILURES ? undefined : { error };
+    }
+  }
+
+  public dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.items.clear();
+    this.onDidChangeEmitter.dispose();
+    this.onDidSettleEmitter.dispose();
+  }
+
+  private schedule(): void {
+    if (this.timer || this.polling || !this.hasActiveItems()) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.pollActive();
+    }, POLL_INTERVAL_MS);
+  }
+
+  private async pollActive(): Promise<void> {
+    this.polling = true;
+    try {
+      const active = [...this.items.values()].filter((item) => this.options.isActive(item.entry));
+      const changed = await Promise.all(active.map((item) => this.pollItem(item)));
+      if (changed.some(Boolean)) {
+        this.onDidChangeEmitter.fire();
+      }
+    } finally {
+      this.polling = false;
+    }
+    this.schedule();
+  }
+
+  private async pollItem(item: Tracked<T, C>): Promise<boolean> {
+    const before = JSON.stringify(item.entry);
+    const next = await this.options.poll(item.entry, item.context);
+    // A removed item may finish its last poll; do not put it back.
+    if (this.items.get(next.id) !== item) {
+      return false;
+    }
+    item.entry = next;
+    if (!this.options.isActive(next)) {
+      this.onDidSettleEmitter.fire(next);
+    }
+    return JSON.stringify(next) !== before;
+  }
+
+  private hasActiveItems(): boolean {
+    return [...this.items.values()].some((item) => this.options.isActive(item.entry));
+  }
+
+  private pruneSettled(): void {
+    const settled = [...this.items.values()].filter((item) => !this.options.isActive(item.entry));
+    for (const item of settled.slice(0, Math.max(0, settled.length - this.options.maxSettled))) {
+      this.items.delete(item.entry.id);
+    }
+  }
+}
@@ -3,15 +3,51 @@ import * as compute from "oci-core";
 import * as database from "oci-database";
 import * as bastion from "oci-bastion";
 import * as aispeech from "oci-aispeech";
+import * as identity from "oci-identity";
+import * as workrequests from "oci-workrequests";
+import * as computeinstanceagent from "oci-computeinstanceagent";
+import * as monitoring from "oci-monitoring";
 import { AuthManager } from "../auth/authManager";
+import {
+  SessionTokenAuthenticationDetailsProvider,
+  getSessionTokenExpiry,
+  refreshSessionToken,
+} from "../auth/sessionToken";
+import type { RegionFeatureKey } from "../shared/services";
+import type { ApiTraceLog } from "./apiTrace";
+import { getHttpOptions, getServiceEndpoint, resolveServiceEndpoint, type OciEndpointService } from "./connectivity";
+import { RequestPipeline, readRequestPipelineOptions } from "./requestPipeline";
+
+type PrincipalProvider = {
+  mode: "instance-principal" | "resource-principal";
+  metadataBaseUrl: string;
+  provider: common.AuthenticationDetailsProvider;
+  tenancyOcid: string;
+};
 
 export class OciClientFactory {
-  constructor(private readonly authManager: AuthManager) {}
+  /** Principal providers refresh their own federation tokens, so one instance is reused per mode. */
+  private principalProvider: Promise<PrincipalProvider> | undefined;
+  /** Shared across clients so throttling and circuit state reflect all traffic to an endpoint. */
+  private readonly pipeline: RequestPipeline;
+
+  constructor(private readonly authManager: AuthManager, apiTrace?: ApiTraceLog) {
+    this.pipeline = new RequestPipeline(readRequestPipelineOptions, (trace) => apiTrace?.record(trace));
+  }
+
+  public getProfile(): string {
+    return this.authManager.getProfile();
+  }
 
   public getRegion(): string | undefined {
     return this.authManager.getRegion();
   }
 
+  /** Inventory regions per feature for the active profile */
+  public getFeatureRegionMap(): Partial<Record<RegionFeatureKey, string[]>> {
+    return this.authManager.getFeatureRegionMap();
+  }
+
   public getCompartmentId(): string {
     const compartmentId = this.authManager.getCompartmentId();
     if (!compartmentId) {
@@ -20,13 +56,28 @@ export class OciClientFactory {
     return compartmentId;
   }
 
+  /** Tenancy of the active profile: the stored Tenancy OCID, or the principal's tenancy for principal modes. */
+  public async getTenancyOcidAsync(): Promise<string | undefined> {
+    const tenancyOcid = await this.authManager.getTenancyOcid();
+    if (tenancyOcid) {
+      return tenancyOcid;
+    }
+
+    const authMode = this.authManager.getAuthMode();
+    if (authMode === "instance-principal" || authMode === "resource-principal") {
+      const principal = await this.getPrincipalProviderAsync(authMode);
+      return principal.tenancyOcid || undefined;
+    }
+    return undefined;
+  }
+
   public async getChatFallbackCompartmentId(): Promise<string> {
     const compartmentId = this.authManager.getCompartmentId();
     if (compartmentId) {
       return compartmentId;
     }
 
-    const tenancyOcid = await this.authManager.getTenancyOcid();
+    const tenancyOcid = await this.getTenancyOcidAsync();
     if (tenancyOcid) {
       return tenancyOcid;
     }
@@ -34,8 +85,16 @@ export class OciClientFactory {
     throw new Error("Missing chat compartment. Select a Chat compartment or configure Tenancy OCID.");
   }
 
-  /** Returns the active auth provider using SecretStorage API key material only. */
+  /** Returns the active auth provider using SecretStorage material for the profile's auth mode. */
   public async createAuthenticationProviderAsync(): Promise<common.AuthenticationDetailsProvider> {
+    const authMode = this.authManager.getAuthMode();
+    if (authMode === "security-token") {
+      return this.createSessionTokenProviderAsync();
+    }
+    if (authMode === "instance-principal" || authMode === "resource-principal") {
+      return (await this.getPrincipalProviderAsync(authMode)).provider;
+    }
+
     const secrets = await this.authManager.getApiKeySecrets();
     const missing: string[] = [];
     if (!secrets.tenancyOcid) missing.push("tenancyOcid");
@@ -58,54 +117,266 @@ export class OciClientFactory {
     );
   }
 
-  public async createComputeClientAsync(regionOverride?: string): Promise<compute.ComputeClient> {
-    const authenticationDetailsProvider = await this.createAuthenticationProviderAsync();
-    const client = new compute.ComputeClient({ authenticationDetailsProvider });
-    const region = (regionOverride ?? this.authManager.getRegion() ?? "").trim();
-    if (region) {
-      client.regionId = region;
+  /** Exchange the profile's session token for a fresh one and store it. Returns the new expiry. */
+  public async refreshSessionTokenAsync(profile?: string): Promise<Date | undefined> {
+    const p = profile ?? this.authManager.getProfile();
+    const region = (await this.authManager.getRegionForProfile(p)).split(",")[0]?.trim();
+    if (!region) {
+      throw new Error(`Region is required to refresh the session token for profile "${p}".`);
     }
-    return client;
+    const currentToken = await this.authManager.getSessionToken(p);
+    const provider = await this.createSessionTokenProviderAsync(p);
+    const nextToken = await refreshSessionToken(
+      await this.createHttpClientAsync(provider),
+      currentToken,
+      getServiceEndpoint("auth", region)
+    );
+    await this.authManager.updateSessionToken(nextToken, p);
+    return getSessionTokenExpiry(nextToken);
   }
 
-  public async createVirtualNetworkClientAsync(regionOverride?: string): Promise<compute.VirtualNetworkClient> {
-    const authenticationDetailsProvider = await this.createAuthenticationProviderAsync();
-    const client = new compute.VirtualNetworkClient({ authenticationDetailsProvider });
-    const region = (regionOverride ?? this.authManager.getRegion() ?? "").trim();
-    if (region) {
-      client.regionId = region;
+  private async getPrincipalProviderAsync(
+    mode: "instance-principal" | "resource-principal"
+  ): Promise<PrincipalProvider> {
+    const metadataBaseUrl = this.authManager.getInstanceMetadataBaseUrl() ?? "";
+    const cached = this.principalProvider;
+    if (cached) {
+      const resolved = await cached.catch(() => undefined);
+      if (resolved && resolved.mode === mode && resolved.metadataBaseUrl === metadataBaseUrl) {
+        return resolved;
+      }
+    }
+
+    const next = mode === "instance-principal"
+      ? buildInstancePrincipalProvider(metadataBaseUrl)
+      : buildResourcePrincipalProvider();
+    this.principalProvider = next;
+    try {
+      return await next;
+    } catch (error) {
+      // Do not keep a failed build around; the next request should retry discovery.
+      if (this.principalProvider === next) {
+        this.principalProvider = undefined;
+      }
+      throw error;
     }
-    return client;
   }
 
-  public async createDatabaseClientAsync(regionOverride?: string): Promise<database.DatabaseClient> {
-    const authenticationDetailsProvider = await this.createAuthenticationProviderAsync();
-    const client = new database.DatabaseClient({ authenticationDetailsProvider });
-    const region = (regionOverride ?? this.authManager.getRegion() ?? "").trim();
+  private async createSessionTokenProviderAsync(profile?: string): Promise<SessionTokenAuthenticationDetailsProvider> {
+    const p = profile ?? (this.authManager.getProfile() || "DEFAULT");
+    const secrets = await this.authManager.getApiKeySecrets(p);
+    const sessionToken = await this.authManager.getSessionToken(p);
+    const missing: string[] = [];
+    if (!sessionToken) missing.push("sessionToken");
+    if (!secrets.privateKey) missing.push("privateKey");
+    if (missing.length > 0) {
+      throw new Error(
+        `Required SecretStorage session token fields are missing for profile "${p}": ${missing.join(", ")}`
+      );
+    }
+
+    const expiresAt = getSessionTokenExpiry(sessionToken);
+    // Identity rejects refresh for expired tokens too, so there is nothing to gain by signing with one.
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new Error(
+        `Session token for profile "${p}" expired at ${expiresAt.toISOString()}. Run "oci session authenticate" and import the profile again.`
+      );
+    }
+
+    return new SessionTokenAuthenticationDetailsProvider(
+      sessionToken,
+      secrets.privateKey,
+      secrets.privateKeyPassphrase || null
+    );
+  }
+
+  /** HTTP client for hand-built requests (e.g. Object Storage REST calls), signed and sent through the shared pipeline. */
+  public async createHttpClientAsync(
+    authenticationDetailsProvider?: common.AuthenticationDetailsProvider
+  ): Promise<common.HttpClient> {
+    const provider = authenticationDetailsProvider ?? await this.createAuthenticationProviderAsync();
+    return this.pipeline.wrap(
+      new common.FetchHttpClient(new common.DefaultRequestSigner(provider), undefined, getHttpOptions())
+    );
+  }
+
+  /** Constructor arguments for SDK clients built outside the factory (e.g. the lazily imported GenAI client). */
+  public async createClientArgsAsync(): Promise<[common.AuthParams, common.ClientConfiguration]> {
+    return this.createClientArgs(await this.createAuthenticationProviderAsync());
+  }
+
+  /**
+   * Constructor arguments for an SDK client that sends through the shared pipeline. The SDK's own
+   * retrier and circuit breaker are turned off so failures are not retried twice.
+   */
+  private createClientArgs(
+    authenticationDetailsProvider: common.AuthenticationDetailsProvider
+  ): [common.AuthParams, common.ClientConfiguration] {
+    const httpClient = this.pipeline.wrap(
+      new common.FetchHttpClient(new common.DefaultRequestSigner(authenticationDetailsProvider), undefined, getHttpOptions())
+    );
+    return [
+      { httpClient },
+      {
+        retryConfiguration: common.NoRetryConfigurationDetails,
+        circuitBreaker: { circuit: null, noCircuit: true },
+      },
+    ];
+  }
+
+  /** Endpoint for hand-built Object Storage requests, honoring endpoint, realm and per-service overrides. */
+  public getObjectStorageEndpoint(region: string): string {
+    return getServiceEndpoint("objectstorage", region);
+  }
+
+  /**
+   * Point an SDK client built outside the factory at the configured endpoint for its service,
+   * if a setting changes it. Call after setting its region.
+   */
+  public applyServiceEndpoint(client: { endpoint: string }, service: OciEndpointService, region: string): void {
+    const endpoint = resolveServiceEndpoint(service, region);
+    if (endpoint) {
+      client.endpoint = endpoint;
+    }
+  }
+
+  private configureClient<T extends { regionId: string; endpoint: string }>(
+    client: T,
+    service: OciEndpointService,
+    regionOverride: string | undefined,
+    authenticationDetailsProvider: common.AuthenticationDetailsProvider
+  ): T {
+    const region = this.resolveClientRegion(regionOverride, authenticationDetailsProvider);
     if (region) {
       client.regionId = region;
     }
+    // Assigning regionId rebuilds the endpoint, so the override has to come last.
+    this.applyServiceEndpoint(client, service, region);
     return client;
   }
 
-  public async createBastionClientAsync(regionOverride?: string): Promise<bastion.BastionClient> {
-    const authenticationDetailsProvider = await this.createAuthenticationProviderAsync();
-    const client = new bastion.BastionClient({ authenticationDetailsProvider });
+  /** Clients built from an httpClient do not read the provider's region, so fall back to it here. */
+  private resolveClientRegion(
+    regionOverride: string | undefined,
+    authenticationDetailsProvider: common.AuthenticationDetailsProvider
+  ): string {
     const region = (regionOverride ?? this.authManager.getRegion() ?? "").trim();
-    if (region) {
-      client.regionId = region;
+    if (region || !common.isRegionProvider(authenticationDetailsProvider)) {
+      return region;
     }
-    return client;
+    return authenticationDetailsProvider.getRegion()?.regionId ?? "";
+  }
+
+  public async createComputeClientAsync(regionOverride?: string): Promise<compute.ComputeClient> {
+    const provider = await this.createAuthenticationProviderAsync();
+    return this.configureClient(new compute.ComputeClient(...this.createClientArgs(provider)), "iaas", regionOverride, provider);
+  }
+
+  public async createVirtualNetworkClientAsync(regionOverride?: string): Promise<compute.VirtualNetworkClient> {
+    const provider = await this.createAuthenticationProviderAsync();
+    return this.configureClient(new compute.VirtualNetworkClient(...this.createClientArgs(provider)), "iaas", regionOverride, provider);
+  }
+
+  /** Block volumes, boot volumes and their backups. */
+  public async createBlockstorageClientAsync(regionOverride?: string): Promise<compute.BlockstorageClient> {
+    const provider = await this.createAuthenticationProviderAsync();
+    return this.configureClient(new compute.BlockstorageClient(...this.createClientArgs(provider)), "iaas", regionOverride, provider);
+  }
+
+  public async createDatabaseClientAsync(regionOverride?: string): Promise<database.DatabaseClient> {
+    const provider = await this.createAuthenticationProviderAsync();
+    return this.configureClient(new database.DatabaseClient(...this.createClientArgs(provider)), "database", regionOverride, provider);
+  }
+
+  public async createBastionClientAsync(regionOverride?: string): Promise<bastion.BastionClient> {
+    const provider = await this.createAuthenticationProviderAsync();
+    return this.configureClient(new bastion.BastionClient(...this.createClientArgs(provider)), "bastion", regionOverride, provider);
+  }
+
+  /**
+   * Identity client. Pass an explicit provider to call Identity with credentials that are not
+   * stored yet (e.g. to verify a freshly uploaded API key).
+   */
+  public async createIdentityClientAsync(
+    regionOverride?: string,
+    authenticationDetailsProvider?: common.AuthenticationDetailsProvider
+  ): Promise<identity.IdentityClient> {
+    const provider = authenticationDetailsProvider ?? await this.createAuthenticationProviderAsync();
+    return this.configureClient(new identity.IdentityClient(...this.createClientArgs(provider)), "identity", regionOverride, provider);
+  }
+
+  /** Work requests of Compute and Networking operations (e.g. an instance launch). */
+  public async createWorkRequestClientAsync(regionOverride?: string): Promise<workrequests.WorkRequestClient> {
+    const provider = await this.createAuthenticationProviderAsync();
+    return this.configureClient(new workrequests.WorkRequestClient(...this.createClientArgs(provider)), "iaas", regionOverride, provider);
+  }
+
+  /** Run Command through the Oracle Cloud Agent on Compute instances. */
+  public async createComputeInstanceAgentClientAsync(regionOverride?: string): Promise<computeinstanceagent.ComputeInstanceAgentClient> {
+    const provider = await this.createAuthenticationProviderAsync();
+    return this.configureClient(
+      new computeinstanceagent.ComputeInstanceAgentClient(...this.createClientArgs(provider)),
+      "iaas",
+      regionOverride,
+      provider
+    );
+  }
+
+  /** Monitoring metric queries for the charts in the detail panes. */
+  public async createMonitoringClientAsync(regionOverride?: string): Promise<monitoring.MonitoringClient> {
+    const provider = await this.createAuthenticationProviderAsync();
+    return this.configureClient(new monitoring.MonitoringClient(...this.createClientArgs(provider)), "telemetry", regionOverride, provider);
   }
 
   public async createSpeechClientAsync(regionOverride?: string): Promise<aispeech.AIServiceSpeechClient> {
-    const authenticationDetailsProvider = await this.createAuthenticationProviderAsync();
-    const client = new aispeech.AIServiceSpeechClient({ authenticationDetailsProvider });
-    const region = (regionOverride ?? this.authManager.getRegion() ?? "").trim();
-    if (region) {
-      client.regionId = region;
+    const provider = await this.createAuthenticationProviderAsync();
+    return this.configureClient(new aispeech.AIServiceSpeechClient(...this.createClientArgs(provider)), "speech", regionOverride, provider);
+  }
+
+}
+
+/**
+ * Instance principal builder whose X.509 federation honors the auth endpoint settings
+ * (ociAi.serviceEndpoints, ociAi.endpointOverride, ociAi.realmDomain), like every other client.
+ */
+class InstancePrincipalBuilder extends common.InstancePrincipalsAuthenticationDetailsProviderBuilder {
+  protected async autoDetectEndpointUsingMetadataUrl(): Promise<string> {
+    const detected = await super.autoDetectEndpointUsingMetadataUrl();
+    const configured = resolveServiceEndpoint("auth", this.getRegion()?.regionId ?? "");
+    if (!configured) {
+      return detected;
     }
-    return client;
+    this._federationEndpoint = configured;
+    return configured;
   }
+}
 
+async function buildInstancePrincipalProvider(metadataBaseUrl: string): Promise<PrincipalProvider> {
+  const builder = new InstancePrincipalBuilder();
+  if (metadataBaseUrl) {
+    builder.metadataBaseUrl = metadataBaseUrl;
+  }
+  try {
+    const provider = await builder.build();
+    return { mode: "instance-principal", metadataBaseUrl, provider, tenancyOcid: builder.tenancyId };
+  } catch (error) {
+    throw new Error(
+      `Instance principal authentication failed. It only works on an OCI compute instance with a matching dynamic group policy. ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
 }
+
+async function buildResourcePrincipalProvider(): Promise<PrincipalProvider> {
+  try {
+    const provider = common.ResourcePrincipalAuthenticationDetailsProvider.builder();
+    const tenancyOcid = await provider.getStringClaim(
+      common.ResourcePrincipalAuthenticationDetailsProvider.ClaimKeys.TENANT_ID_CLAIM_KEY
+    );
+    return { mode: "resource-principal", metadataBaseUrl: "", provider, tenancyOcid: tenancyOcid ?? "" };
+  } catch (error) {
+    throw new Error(
+      `Resource principal authentication failed. OCI_RESOURCE_PRINCIPAL_* environment variables must be set by the OCI runtime. ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
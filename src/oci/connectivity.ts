@@ -0,0 +1,273 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import type { Duplex } from "stream";
+import * as tls from "tls";
+import * as common from "oci-common";
+import * as vscode from "vscode";
+
+/** Endpoint families that can be pointed elsewhere through ociAi.serviceEndpoints. */
+export type OciEndpointService =
+  | "iaas"
+  | "database"
+  | "bastion"
+  | "identity"
+  | "objectstorage"
+  | "speech"
+  | "generativeai"
+  | "telemetry"
+  | "auth";
+
+export const OCI_ENDPOINT_SERVICES: OciEndpointService[] = [
+  "iaas",
+  "database",
+  "bastion",
+  "identity",
+  "objectstorage",
+  "speech",
+  "generativeai",
+  "telemetry",
+  "auth",
+];
+
+/** Same shapes as the SDK clients' serviceEndpointTemplate, minus the dual-stack variants. */
+const SERVICE_ENDPOINT_TEMPLATES: Record<OciEndpointService, string> = {
+  iaas: "https://iaas.{region}.{secondLevelDomain}",
+  database: "https://database.{region}.{secondLevelDomain}",
+  bastion: "https://bastion.{region}.oci.{secondLevelDomain}",
+  identity: "https://identity.{region}.oci.{secondLevelDomain}",
+  objectstorage: "https://objectstorage.{region}.{secondLevelDomain}",
+  speech: "https://speech.aiservice.{region}.oci.{secondLevelDomain}",
+  generativeai: "https://inference.generativeai.{region}.oci.{secondLevelDomain}",
+  telemetry: "https://telemetry.{region}.{secondLevelDomain}",
+  auth: "https://auth.{region}.{secondLevelDomain}",
+};
+
+const OC1_SECOND_LEVEL_DOMAIN = "oraclecloud.com";
+
+export interface ConnectivitySettings {
+  /** Replaces every service endpoint (e.g. the local mock server) */
+  endpointOverride?: string;
+  /** Per-service base URLs; `{region}` is replaced with the client's region */
+  serviceEndpoints: Partial<Record<OciEndpointService, string>>;
+  /** Second-level domain for every region, e.g. oraclegovcloud.com for OC2; unset uses the SDK's realm mapping */
+  realmDomain?: string;
+  httpsProxy?: string;
+  caBundlePaths: string[];
+}
+
+export function readConnectivitySettings(): ConnectivitySettings {
+  const cfg = vscode.workspace.getConfiguration("ociAi");
+  const rawServiceEndpoints = cfg.get<Record<string, unknown>>("serviceEndpoints", {}) ?? {};
+  const serviceEndpoints: Partial<Record<OciEndpointService, string>> = {};
+  for (const service of OCI_ENDPOINT_SERVICES) {
+    const value = normalizeBaseUrl(rawServiceEndpoints[service]);
+    if (value) {
+      serviceEndpoints[service] = value;
+    }
+  }
+  const httpsProxy = String(cfg.get<string>("httpsProxy", "") ?? "").trim()
+    || process.env.HTTPS_PROXY?.trim()
+    || process.env.https_proxy?.trim()
+    || undefined;
+  return {
+    endpointOverride: normalizeBaseUrl(cfg.get<string>("endpointOverride", "")),
+    serviceEndpoints,
+    realmDomain: String(cfg.get<string>("realmDomain", "") ?? "").trim().replace(/^\.+|\.+$/g, "") || undefined,
+    httpsProxy,
+    caBundlePaths: (cfg.get<string[]>("caBundlePaths", []) ?? [])
+      .map((value) => String(value ?? "").trim())
+      .filter((value) => value.length > 0),
+  };
+}
+
+/**
+ * Endpoint for a service in a region when a setting changes it, or undefined to keep the SDK's
+ * own regional endpoint. A ociAi.serviceEndpoints entry wins over ociAi.endpointOverride, which
+ * wins over ociAi.realmDomain.
+ */
+export function resolveServiceEndpoint(
+  service: OciEndpointService,
+  region: string,
+  settings: ConnectivitySettings = readConnectivitySettings()
+): string | undefined {
+  const custom = settings.serviceEndpoints[service] ?? settings.endpointOverride;
+  if (custom) {
+    return custom.replace(/\{region\}/g, region);
+  }
+  if (settings.realmDomain && region) {
+    return fillEndpointTemplate(service, region, settings.realmDomain);
+  }
+  return undefined;
+}
+
+/** Endpoint for hand-built requests (Object Storage REST calls, session token refresh). */
+export function getServiceEndpoint(
+  service: OciEndpointService,
+  region: string,
+  settings: ConnectivitySettings = readConnectivitySettings()
+): string {
+  return resolveServiceEndpoint(service, region, settings)
+    ?? fillEndpointTemplate(service, region, getSecondLevelDomain(region));
+}
+
+let cachedTransport: { key: string; agent: https.Agent } | undefined;
+
+/**
+ * FetchHttpClient options that send HTTPS through the configured proxy and trust the extra CA
+ * certificates. Undefined when neither is set, which keeps Node's native fetch. Plain-HTTP
+ * endpoints (a local mock server) always connect directly.
+ */
+export function getHttpOptions(
+  settings: ConnectivitySettings = readConnectivitySettings()
+): { agent: (url: URL) => http.Agent | undefined } | undefined {
+  if (!settings.httpsProxy && settings.caBundlePaths.length === 0) {
+    return undefined;
+  }
+  const key = JSON.stringify([settings.httpsProxy ?? "", settings.caBundlePaths.map(describeCaFile)]);
+  if (cachedTransport?.key !== key) {
+    cachedTransport?.agent.destroy();
+    cachedTransport = { key, agent: createHttpsAgent(settings) };
+  }
+  const agent = cachedTransport.agent;
+  return { agent: (url) => (url.protocol === "https:" ? agent : undefined) };
+}
+
+/**
+ * GET a short plain-text resource outside OCI, such as a public IP echo service, through the same
+ * proxy and CA bundle as the OCI API calls. Responses over maxBytes are cut off with an error.
+ */
+export function fetchExternalText(
+  url: string,
+  timeoutMs: number,
+  maxBytes = 4096,
+  settings: ConnectivitySettings = readConnectivitySettings()
+): Promise<{ status: number; body: string }> {
+  const target = new URL(url);
+  if (target.protocol !== "https:" && target.protocol !== "http:") {
+    return Promise.reject(new Error(`Unsupported URL "${url}". Use an http or https URL.`));
+  }
+  const agent = getHttpOptions(settings)?.agent(target);
+  return new Promise((resolve, reject) => {
+    const request = (target.protocol === "https:" ? https : http).request(target, { method: "GET", agent }, (response) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+          request.destroy(new Error(`The response from ${target.host} is larger than ${maxBytes} bytes.`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on("end", () => resolve({ status: response.statusCode ?? 0, body: Buffer.concat(chunks).toString("utf8") }));
+      response.on("error", reject);
+    });
+    const timer = setTimeout(() => request.destroy(new Error(`${target.host} did not answer within ${timeoutMs} ms.`)), timeoutMs);
+    request.on("close", () => clearTimeout(timer));
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+function createHttpsAgent(settings: ConnectivitySettings): https.Agent {
+  const options: https.AgentOptions = { keepAlive: true };
+  if (settings.caBundlePaths.length > 0) {
+    // Passing ca replaces Node's bundled roots, so keep them alongside the extra certificates.
+    options.ca = [...tls.rootCertificates, ...settings.caBundlePaths.map(readCaBundle)];
+  }
+  if (!settings.httpsProxy) {
+    return new https.Agent(options);
+  }
+  let proxy: URL;
+  try {
+    proxy = new URL(settings.httpsProxy);
+  } catch {
+    throw new Error(`Invalid ociAi.httpsProxy "${settings.httpsProxy}". Use a URL such as http://proxy.example.com:8080.`);
+  }
+  return new ProxyTunnelAgent(proxy, options);
+}
+
+/** Opens HTTPS connections through an HTTP(S) proxy with CONNECT, then starts TLS to the OCI endpoint. */
+class ProxyTunnelAgent extends https.Agent {
+  constructor(private readonly proxy: URL, private readonly tunnelOptions: https.AgentOptions) {
+    super(tunnelOptions);
+  }
+
+  override createConnection(
+    options: http.ClientRequestArgs,
+    callback?: (err: Error | null, stream: Duplex) => void
+  ): Duplex | null | undefined {
+    const host = options.hostname || options.host || "";
+    const port = Number(options.port) || 443;
+    const fail = (error: Error) => callback?.(error, undefined as unknown as Duplex);
+    const headers: http.OutgoingHttpHeaders = { host: `${host}:${port}` };
+    if (this.proxy.username) {
+      const credentials = `${decodeURIComponent(this.proxy.username)}:${decodeURIComponent(this.proxy.password)}`;
+      headers["proxy-authorization"] = `Basic ${Buffer.from(credentials).toString("base64")}`;
+    }
+    const secureProxy = this.proxy.protocol === "https:";
+    const request = (secureProxy ? https : http).request({
+      host: this.proxy.hostname,
+      port: Number(this.proxy.port) || (secureProxy ? 443 : 80),
+      method: "CONNECT",
+      path: `${host}:${port}`,
+      headers,
+      ca: this.tunnelOptions.ca,
+    });
+    request.once("connect", (response, socket) => {
+      if (response.statusCode !== 200) {
+        socket.destroy();
+        fail(new Error(
+          `Proxy ${this.proxy.host} refused the tunnel to ${host}:${port} (HTTP ${response.statusCode}${
+            response.statusCode === 407 ? ", check the proxy credentials in ociAi.httpsProxy" : ""
+          }).`
+        ));
+        return;
+      }
+      const tlsOptions = options as tls.ConnectionOptions;
+      callback?.(null, tls.connect({ ...tlsOptions, socket, servername: tlsOptions.servername || host }));
+    });
+    request.once("error", (error) => fail(new Error(`Cannot reach proxy ${this.proxy.host}: ${error.message}`)));
+    request.end();
+    return undefined;
+  }
+}
+
+function readCaBundle(filePath: string): string {
+  try {
+    return fs.readFileSync(filePath, "utf8");
+  } catch (error) {
+    throw new Error(
+      `Cannot read CA bundle "${filePath}" from ociAi.caBundlePaths: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/** Part of the transport cache key, so an edited bundle is picked up without a reload. */
+function describeCaFile(filePath: string): string {
+  try {
+    return `${filePath}@${fs.statSync(filePath).mtimeMs}`;
+  } catch {
+    return filePath;
+  }
+}
+
+function getSecondLevelDomain(region: string): string {
+  try {
+    return common.Region.fromRegionId(region)?.realm.secondLevelDomain || OC1_SECOND_LEVEL_DOMAIN;
+  } catch {
+    return OC1_SECOND_LEVEL_DOMAIN;
+  }
+}
+
+function fillEndpointTemplate(service: OciEndpointService, region: string, secondLevelDomain: string): string {
+  return SERVICE_ENDPOINT_TEMPLATES[service]
+    .replace("{region}", region)
+    .replace("{secondLevelDomain}", secondLevelDomain);
+}
+
+function normalizeBaseUrl(value: unknown): string | undefined {
+  const trimmed = String(value ?? "").trim().replace(/\/+$/, "");
+  return trimmed.length > 0 ? trimmed : undefined;
+}
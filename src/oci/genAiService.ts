@@ -60,14 +60,15 @@ export class GenAiService {
     }
 
     const module = await import("oci-generativeaiinference");
-    const client = new (module as any).GenerativeAiInferenceClient({
-      authenticationDetailsProvider: await this.factory.createAuthenticationProviderAsync()
-    });
+    const client = new (module as any).GenerativeAiInferenceClient(
+      ...await this.factory.createClientArgsAsync()
+    );
 
     const region = cfg.get<string>("genAiRegion", "").trim() || cfg.get<string>("region", "").trim();
     if (region) {
       client.regionId = region;
     }
+    this.factory.applyServiceEndpoint(client, "generativeai", region);
 
     const configuredSystemPrompt = cfg.get<string>("systemPrompt", "").trim();
     const systemPrompt = [configuredSystemPrompt, runtimeSystemPrompt?.trim()]
@@ -1,10 +1,21 @@
+import * as crypto from "crypto";
 import * as vscode from "vscode";
 import * as common from "oci-common";
 import * as aispeech from "oci-aispeech";
+import * as computeinstanceagent from "oci-computeinstanceagent";
+import * as core from "oci-core";
+import * as database from "oci-database";
+import * as identity from "oci-identity";
 import { Readable } from "stream";
 import { OciClientFactory } from "./clientFactory";
+import { ResourceCache, type ResourceCacheKind } from "./resourceCache";
+import { METRICS_WINDOWS, RESOURCE_METRICS, buildMetricQuery, describeMetricStream } from "./resourceMetrics";
+import { RunCommandTracker, type RunCommandExecutionProgress } from "./runCommandTracker";
+import { WorkRequestTracker, type WorkRequestProgress } from "./workRequestTracker";
+import { generateApiKeyPair, type GeneratedApiKeyPair } from "../auth/apiKeyPair";
 import {
   AdbResource,
+  CompartmentResource,
   ComputeResource,
   VcnResource,
   SecurityListResource,
@@ -14,11 +25,82 @@ import {
   ObjectStorageObjectResource,
   BastionResource,
   BastionSessionResource,
+  RegionListing,
+  RegionListingError,
   SpeechTranscriptionJobResource,
   SpeechTranscriptionTaskResource,
 } from "../types";
+import type {
+  AdbBackup,
+  AdbNetworkAccess,
+  AdbNetworkAccessInfo,
+  AdbOperationResponse,
+  AdbProvisioningOptions,
+  AdbWorkloadType,
+  CloneAutonomousDatabaseRequest,
+  ClonePluggableDatabaseRequest,
+  ComputeBootVolumeBackup,
+  ComputeCustomImage,
+  ComputeImageOption,
+  ComputeInstanceAction,
+  ComputeLaunchOptions,
+  ComputeShapeOption,
+  ComputeSubnetOption,
+  BootVolumeBackupType,
+  CreateAdbBackupRequest,
+  CreateAutonomousDatabaseRequest,
+  CreateComputeBackupResponse,
+  CreatePluggableDatabaseRequest,
+  DbHomeResource,
+  DeletePluggableDatabaseRequest,
+  GetResourceMetricsRequest,
+  GetResourceMetricsResponse,
+  LaunchComputeInstanceRequest,
+  LaunchComputeInstanceResponse,
+  ListAdbBackupsResponse,
+  ListComputeInstanceBackupsResponse,
+  ListDbSystemDatabasesRequest,
+  PluggableDatabaseActionRequest,
+  PluggableDatabaseOperationResponse,
+  PluggableDatabaseResource,
+  RegionFeatureKey,
+  MetricSeries,
+  ProvisionAutonomousDatabaseResponse,
+  RegionSubscription,
+  RestoreAutonomousDatabaseRequest,
+  RotateAdbWalletRequest,
+  RunCommandExecution,
+  RunCommandRun,
+  RunComputeCommandTarget,
+  ScaleAutonomousDatabaseRequest,
+  UpdateAdbAccessControlRequest,
+  UpdateAdbMtlsRequest,
+} from "../shared/services";
+
+/** Outcome of ensureComputeConsoleConnection */
+export type ComputeConsoleConnectionResult =
+  | { status: "ready"; connectionId: string; connectionString: string; reused: boolean }
+  | { status: "conflict"; connectionId: string; fingerprint?: string };
 
 export const OCI_SPEECH_REGION = "us-chicago-1";
+const API_KEY_VERIFY_TIMEOUT_MS = 120_000;
+const API_KEY_VERIFY_INTERVAL_MS = 5_000;
+/** Path segment for ancestors of a compartment the user cannot list */
+const HIDDEN_COMPARTMENT_SEGMENT = "…";
+const CONSOLE_WAIT_TIMEOUT_MS = 120_000;
+const CONSOLE_POLL_INTERVAL_MS = 2_000;
+/** OCI keeps the last 1 MB of serial console output per capture */
+const CONSOLE_HISTORY_MAX_BYTES = 1024 * 1024;
+const CONSOLE_CONNECTION_OPEN_STATES = new Set<string>([
+  core.models.InstanceConsoleConnection.LifecycleState.Active,
+  core.models.InstanceConsoleConnection.LifecycleState.Creating,
+]);
+const RUN_COMMAND_FINISHED_STATES = new Set<string>([
+  computeinstanceagent.models.InstanceAgentCommandExecution.LifecycleState.Succeeded,
+  computeinstanceagent.models.InstanceAgentCommandExecution.LifecycleState.Failed,
+  computeinstanceagent.models.InstanceAgentCommandExecution.LifecycleState.TimedOut,
+  computeinstanceagent.models.InstanceAgentCommandExecution.LifecycleState.Canceled,
+]);
 const OCI_SPEECH_MAX_INPUT_OBJECTS = 100;
 const OCI_SPEECH_MAX_WHISPER_PROMPT_LENGTH = 4000;
 const OCI_SPEECH_AUTO_DISPLAY_NAME_SEED_LENGTH = 96;
@@ -54,15 +136,30 @@ function normalizeSpeechLifecycleState(lifecycleState: string | undefined): stri
 }
 
 export class OciService {
-  constructor(private readonly factory: OciClientFactory) { }
+  /** Shared by the views and tree providers; lifecycle actions invalidate the entries they change. */
+  readonly resourceCache: ResourceCache;
+  /** Creates started from the extension, followed until their resource settles. */
+  readonly workRequestTracker = new WorkRequestTracker();
+  /** Run Command executions started from the extension, followed until each instance reports back. */
+  readonly runCommandTracker = new RunCommandTracker();
+
+  constructor(private readonly factory: OciClientFactory) {
+    this.resourceCache = new ResourceCache(() => this.factory.getProfile());
+  }
 
-  public async listComputeInstances(): Promise<ComputeResource[]> {
+  /** Refresh the session token of a security-token profile. Returns the new expiry when known. */
+  public async refreshSessionToken(profile?: string): Promise<Date | undefined> {
+    return this.factory.refreshSessionTokenAsync(profile);
+  }
+
+  /** Compute instances of the selected compartments and regions. Pass refresh to bypass the resource cache. */
+  public async listComputeInstances(refresh = false): Promise<RegionListing<ComputeResource>> {
     const cfg = vscode.workspace.getConfiguration("ociAi");
     const compartmentIds = normalizeCompartmentIds(cfg.get<string[]>("computeCompartmentIds") || []);
     if (compartmentIds.length === 0) {
-      return [];
+      return { items: [], regionErrors: [] };
     }
-    return this.collectComputeInstances(compartmentIds, this.getActiveProfileRegions());
+    return this.collectComputeInstances(compartmentIds, this.getFeatureRegions("compute"), { cache: { refresh } });
   }
 
   public async listComputeInstancesForBastionTargets(options: {
@@ -76,14 +173,14 @@ export class OciService {
       return [];
     }
     const requestedRegion = String(options.region ?? "").trim();
-    const regions = requestedRegion ? [requestedRegion] : this.getActiveProfileRegions();
+    const regions = requestedRegion ? [requestedRegion] : this.getFeatureRegions("bastion");
     const targetVcnId = String(options.vcnId ?? "").trim();
     const allowedLifecycleStates = new Set(
       (options.lifecycleStates || [])
         .map((value) => String(value ?? "").trim().toUpperCase())
         .filter((value) => value.length > 0)
     );
-    const instances = await this.collectComputeInstances(compartmentIds, regions, { lifecycleStates: allowedLifecycleStates });
+    const { items: instances } = await this.collectComputeInstances(compartmentIds, regions, { lifecycleStates: allowedLifecycleStates });
     const filtered = instances.filter((instance) => {
       if (targetVcnId && instance.vcnId !== targetVcnId) {
         return false;
@@ -101,104 +198,1362 @@ export class OciService {
   }
 
   public async startComputeInstance(instanceId: string, region?: string): Promise<void> {
+    await this.runComputeInstanceAction(instanceId, "START", region);
+  }
+
+  public async stopComputeInstance(instanceId: string, region?: string): Promise<void> {
+    await this.runComputeInstanceAction(instanceId, "SOFTSTOP", region);
+  }
+
+  public async runComputeInstanceAction(instanceId: string, action: ComputeInstanceAction, region?: string): Promise<void> {
     const client = await this.factory.createComputeClientAsync(region);
     await client.instanceAction({
       instanceId,
-      action: "START"
+      action
     });
+    this.invalidateResources("compute", region);
+    this.resourceCache.invalidate({ kind: "computeNetwork", scope: instanceId });
   }
 
-  public async stopComputeInstance(instanceId: string, region?: string): Promise<void> {
+  public async terminateComputeInstance(instanceId: string, preserveBootVolume: boolean, region?: string): Promise<void> {
     const client = await this.factory.createComputeClientAsync(region);
-    await client.instanceAction({
+    await client.terminateInstance({
       instanceId,
-      action: "SOFTSTOP"
+      preserveBootVolume
     });
+    this.invalidateResources("compute", region);
+    this.resourceCache.invalidate({ kind: "computeNetwork", scope: instanceId });
   }
 
-  public async listAutonomousDatabases(): Promise<AdbResource[]> {
-    const cfg = vscode.workspace.getConfiguration("ociAi");
-    const compartmentIds = normalizeCompartmentIds(cfg.get<string[]>("adbCompartmentIds") || []);
-    if (compartmentIds.length === 0) {
-      return [];
+  /** Change a flex instance's OCPU count and memory. OCI reboots a running instance to apply it. */
+  public async resizeComputeInstance(instanceId: string, ocpus: number, memoryInGBs?: number, region?: string): Promise<void> {
+    const client = await this.factory.createComputeClientAsync(region);
+    await client.updateInstance({
+      instanceId,
+      updateInstanceDetails: {
+        shapeConfig: {
+          ocpus,
+          ...(memoryInGBs !== undefined ? { memoryInGBs } : {})
+        }
+      }
+    });
+    this.invalidateResources("compute", region);
+  }
+
+  /** Capture the instance's serial console output (the last 1 MB OCI keeps) and return it as text. */
+  public async getComputeConsoleHistory(instanceId: string, region?: string): Promise<string> {
+    const client = await this.factory.createComputeClientAsync(region);
+    const captured = await client.captureConsoleHistory({ captureConsoleHistoryDetails: { instanceId } });
+    const historyId = captured.consoleHistory.id;
+    try {
+      const deadline = Date.now() + CONSOLE_WAIT_TIMEOUT_MS;
+      let lifecycleState = captured.consoleHistory.lifecycleState;
+      while (lifecycleState !== core.models.ConsoleHistory.LifecycleState.Succeeded) {
+        if (lifecycleState === core.models.ConsoleHistory.LifecycleState.Failed) {
+          throw new Error("OCI could not capture the console history of this instance.");
+        }
+        if (Date.now() >= deadline) {
+          throw new Error(`Console history capture did not finish within ${CONSOLE_WAIT_TIMEOUT_MS / 1000}s.`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, CONSOLE_POLL_INTERVAL_MS));
+        lifecycleState = (await client.getConsoleHistory({ instanceConsoleHistoryId: historyId })).consoleHistory.lifecycleState;
+      }
+      const content = await client.getConsoleHistoryContent({
+        instanceConsoleHistoryId: historyId,
+        length: CONSOLE_HISTORY_MAX_BYTES,
+      });
+      return content.value ?? "";
+    } finally {
+      // Every capture is kept as a resource of the instance; only the text is needed.
+      await client.deleteConsoleHistory({ instanceConsoleHistoryId: historyId }).catch(() => undefined);
     }
-    const regions = this.getActiveProfileRegions();
+  }
+
+  /**
+   * An ACTIVE console connection for the serial console that accepts the given public key. A
+   * connection made earlier with the same key is reused. OCI allows one connection per instance,
+   * so one made with another key is reported as a conflict unless replaceExisting deletes it.
+   */
+  public async ensureComputeConsoleConnection(
+    instanceId: string,
+    publicKey: string,
+    replaceExisting: boolean,
+    region?: string
+  ): Promise<ComputeConsoleConnectionResult> {
+    const client = await this.factory.createComputeClientAsync(region);
+    const { instance } = await client.getInstance({ instanceId });
+    const fingerprint = fingerprintOpenSshPublicKey(publicKey);
+    const existing: core.models.InstanceConsoleConnection[] = [];
+    let page: string | undefined;
+    do {
+      const result = await client.listInstanceConsoleConnections({ compartmentId: instance.compartmentId, instanceId, page });
+      existing.push(
+        ...(result.items || []).filter((connection) => CONSOLE_CONNECTION_OPEN_STATES.has(connection.lifecycleState ?? ""))
+      );
+      page = result.opcNextPage;
+    } while (page);
 
-    const databases: AdbResource[] = [];
+    const matching = existing.find((connection) => connection.fingerprint?.toLowerCase() === fingerprint);
+    if (matching?.id) {
+      const connection = await this.waitForConsoleConnection(client, matching.id, core.models.InstanceConsoleConnection.LifecycleState.Active);
+      return { status: "ready", connectionId: matching.id, connectionString: connection.connectionString ?? "", reused: true };
+    }
+    const conflicting = existing[0];
+    if (conflicting?.id) {
+      if (!replaceExisting) {
+        return { status: "conflict", connectionId: conflicting.id, fingerprint: conflicting.fingerprint };
+      }
+      await client.deleteInstanceConsoleConnection({ instanceConsoleConnectionId: conflicting.id });
+      await this.waitForConsoleConnection(client, conflicting.id, core.models.InstanceConsoleConnection.LifecycleState.Deleted);
+    }
 
-    for (const region of regions) {
-      const client = await this.factory.createDatabaseClientAsync(region);
-      for (const compartmentId of compartmentIds) {
+    const created = await client.createInstanceConsoleConnection({
+      createInstanceConsoleConnectionDetails: { instanceId, publicKey: publicKey.trim() },
+    });
+    const connectionId = created.instanceConsoleConnection.id ?? "";
+    const connection = await this.waitForConsoleConnection(client, connectionId, core.models.InstanceConsoleConnection.LifecycleState.Active);
+    return { status: "ready", connectionId, connectionString: connection.connectionString ?? "", reused: false };
+  }
+
+  private async waitForConsoleConnection(
+    client: core.ComputeClient,
+    instanceConsoleConnectionId: string,
+    target: core.models.InstanceConsoleConnection.LifecycleState
+  ): Promise<core.models.InstanceConsoleConnection> {
+    const deadline = Date.now() + CONSOLE_WAIT_TIMEOUT_MS;
+    for (;;) {
+      const { instanceConsoleConnection } = await client.getInstanceConsoleConnection({ instanceConsoleConnectionId });
+      if (instanceConsoleConnection.lifecycleState === target) {
+        return instanceConsoleConnection;
+      }
+      if (instanceConsoleConnection.lifecycleState === core.models.InstanceConsoleConnection.LifecycleState.Failed) {
+        throw new Error(`Console connection ${instanceConsoleConnectionId} failed.`);
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Console connection ${instanceConsoleConnectionId} did not become ${target} within ${CONSOLE_WAIT_TIMEOUT_MS / 1000}s.`
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, CONSOLE_POLL_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * Send a script to each target as its own instance agent command and follow the executions in
+   * runCommandTracker. A target whose command cannot be created is listed as failed right away.
+   */
+  public async runComputeCommand(input: {
+    scriptName: string;
+    scriptPath: string;
+    script: string;
+    targets: RunComputeCommandTarget[];
+    timeoutSeconds: number;
+  }): Promise<RunCommandRun> {
+    const executions = await Promise.all(
+      input.targets.map(async (target): Promise<RunCommandExecution> => {
+        const execution: RunCommandExecution = {
+          instanceId: target.instanceId,
+          instanceName: target.instanceName || target.instanceId,
+          region: target.region ?? "",
+          status: "IN_PROGRESS",
+        };
+        try {
+          const client = await this.factory.createComputeInstanceAgentClientAsync(target.region);
+          const { instanceAgentCommand } = await client.createInstanceAgentCommand({
+            createInstanceAgentCommandDetails: {
+              compartmentId: target.compartmentId,
+              displayName: input.scriptName,
+              executionTimeOutInSeconds: input.timeoutSeconds,
+              target: { instanceId: target.instanceId },
+              content: {
+                source: { sourceType: "TEXT", text: input.script } as computeinstanceagent.models.InstanceAgentCommandSourceViaTextDetails,
+                output: { outputType: "TEXT" } as computeinstanceagent.models.InstanceAgentCommandOutputViaTextDetails,
+              },
+            },
+          });
+          return {
+            ...execution,
+            region: String(client.regionId || execution.region),
+            commandId: instanceAgentCommand.id,
+            lifecycleState: computeinstanceagent.models.InstanceAgentCommandExecution.LifecycleState.Accepted,
+          };
+        } catch (error) {
+          return {
+            ...execution,
+            status: "FAILED",
+            errorMessage: error instanceof Error ? error.message : String(error),
+            finishedAt: new Date().toISOString(),
+          };
+        }
+      })
+    );
+    return this.runCommandTracker.start(
+      {
+        scriptName: input.scriptName,
+        scriptPath: input.scriptPath,
+        timeoutSeconds: input.timeoutSeconds,
+        executions,
+      },
+      (execution) => this.getRunCommandExecutionProgress(execution)
+    );
+  }
+
+  /** Ask the agents to cancel the executions of a run that have not finished yet. */
+  public async cancelRunCommand(id: string): Promise<void> {
+    const run = this.runCommandTracker.getRun(id);
+    if (!run) {
+      throw new Error("Run is no longer listed.");
+    }
+    const pending = run.executions.filter((execution) => execution.status === "IN_PROGRESS" && execution.commandId);
+    await Promise.all(
+      pending.map(async (execution) => {
+        const client = await this.factory.createComputeInstanceAgentClientAsync(execution.region);
+        await client.cancelInstanceAgentCommand({ instanceAgentCommandId: execution.commandId ?? "" });
+      })
+    );
+  }
+
+  private async getRunCommandExecutionProgress(execution: RunCommandExecution): Promise<RunCommandExecutionProgress> {
+    const client = await this.factory.createComputeInstanceAgentClientAsync(execution.region);
+    const { instanceAgentCommandExecution: result } = await client.getInstanceAgentCommandExecution({
+      instanceAgentCommandId: execution.commandId ?? "",
+      instanceId: execution.instanceId,
+    });
+    const lifecycleState = result.lifecycleState as string;
+    const deliveryState = result.deliveryState as string;
+    if (!RUN_COMMAND_FINISHED_STATES.has(lifecycleState)) {
+      return { status: "IN_PROGRESS", lifecycleState, deliveryState };
+    }
+    // Output is requested as TEXT, so the content carries the captured stdout and stderr.
+    const content = result.content as computeinstanceagent.models.InstanceAgentCommandExecutionOutputViaTextDetails | undefined;
+    const succeeded = lifecycleState === computeinstanceagent.models.InstanceAgentCommandExecution.LifecycleState.Succeeded;
+    return {
+      status: succeeded && content?.exitCode === 0 ? "SUCCEEDED" : "FAILED",
+      lifecycleState,
+      deliveryState,
+      exitCode: content?.exitCode,
+      output: content?.text ?? "",
+      errorMessage: succeeded ? undefined : content?.message || `Command ${lifecycleState.toLowerCase().replace(/_/g, " ")}.`,
+    };
+  }
+
+  /**
+   * Choices for the launch form: availability domains, the shapes offered in the given domain and
+   * the subnets of the compartment plus the configured VCN compartments.
+   */
+  public async getComputeLaunchOptions(
+    compartmentId: string,
+    region?: string,
+    availabilityDomain?: string
+  ): Promise<ComputeLaunchOptions> {
+    const identityClient = await this.factory.createIdentityClientAsync(region);
+    const computeClient = await this.factory.createComputeClientAsync(region);
+
+    const [availabilityDomains, shapes, subnets] = await Promise.all([
+      identityClient.listAvailabilityDomains({ compartmentId })
+        .then((response) => (response.items || []).map((item) => item.name || "").filter((name) => name.length > 0)),
+      (async () => {
+        const byShape = new Map<string, ComputeShapeOption>();
         let page: string | undefined;
         do {
-          const result = await client.listAutonomousDatabases({ compartmentId, page });
-          databases.push(
-            ...(result.items || []).map((adb) => ({
-              id: adb.id || "",
-              name: adb.dbName || adb.displayName || adb.id || "Unnamed ADB",
-              lifecycleState: (adb.lifecycleState as string) || "UNKNOWN",
-              compartmentId,
-              region,
-            }))
+          const result = await computeClient.listShapes({ compartmentId, availabilityDomain, page });
+          for (const item of result.items || []) {
+            // listShapes repeats a shape once per compatible image
+            if (!item.shape || byShape.has(item.shape)) {
+              continue;
+            }
+            byShape.set(item.shape, {
+              shape: item.shape,
+              processorDescription: item.processorDescription,
+              ocpus: item.ocpus,
+              memoryInGBs: item.memoryInGBs,
+              isFlexible: Boolean(item.isFlexible),
+              ocpuMin: item.ocpuOptions?.min,
+              ocpuMax: item.ocpuOptions?.max,
+              memoryMinInGBs: item.memoryOptions?.minInGBs,
+              memoryMaxInGBs: item.memoryOptions?.maxInGBs,
+              defaultMemoryPerOcpuInGBs: item.memoryOptions?.defaultPerOcpuInGBs,
+            });
+          }
+          page = result.opcNextPage;
+        } while (page);
+        return [...byShape.values()].sort((left, right) => left.shape.localeCompare(right.shape));
+      })(),
+      this.listSubnetOptions(compartmentId, region),
+    ]);
+    return { availabilityDomains, shapes, subnets };
+  }
+
+  /** Available subnets of the compartment plus the configured VCN compartments. */
+  private async listSubnetOptions(compartmentId: string, region?: string): Promise<ComputeSubnetOption[]> {
+    const virtualNetworkClient = await this.factory.createVirtualNetworkClientAsync(region);
+    const subnetCompartmentIds = normalizeCompartmentIds([
+      compartmentId,
+      ...(vscode.workspace.getConfiguration("ociAi").get<string[]>("vcnCompartmentIds") || []),
+    ]);
+    const subnets: ComputeSubnetOption[] = [];
+    for (const subnetCompartmentId of subnetCompartmentIds) {
+      let page: string | undefined;
+      do {
+        const result = await virtualNetworkClient.listSubnets({
+          compartmentId: subnetCompartmentId,
+          lifecycleState: core.models.Subnet.LifecycleState.Available,
+          page,
+        });
+        subnets.push(
+          ...(result.items || []).map((subnet) => ({
+            id: subnet.id || "",
+            name: subnet.displayName || subnet.id || "Unnamed Subnet",
+            vcnId: subnet.vcnId || "",
+            cidrBlock: subnet.cidrBlock || "",
+            prohibitPublicIp: Boolean(subnet.prohibitPublicIpOnVnic),
+            availabilityDomain: subnet.availabilityDomain || undefined,
+          }))
+        );
+        page = result.opcNextPage;
+      } while (page);
+    }
+    return subnets.sort(compareNamedOciResources);
+  }
+
+  /** Available images that run on the shape, newest first. */
+  public async listComputeImages(compartmentId: string, shape: string, region?: string): Promise<ComputeImageOption[]> {
+    const client = await this.factory.createComputeClientAsync(region);
+    const images: ComputeImageOption[] = [];
+    let page: string | undefined;
+    do {
+      const result = await client.listImages({
+        compartmentId,
+        shape,
+        lifecycleState: core.models.Image.LifecycleState.Available,
+        sortBy: core.requests.ListImagesRequest.SortBy.Timecreated,
+        sortOrder: core.requests.ListImagesRequest.SortOrder.Desc,
+        page,
+      });
+      images.push(
+        ...(result.items || []).map((image) => ({
+          id: image.id || "",
+          name: image.displayName || image.id || "Unnamed Image",
+          operatingSystem: image.operatingSystem || "",
+          operatingSystemVersion: image.operatingSystemVersion || "",
+          timeCreated: toIsoString(image.timeCreated),
+        }))
+      );
+      page = result.opcNextPage;
+    } while (page);
+    return images;
+  }
+
+  /**
+   * Launch an instance and follow its work request in workRequestTracker until the instance is
+   * RUNNING or the launch fails. A launch from a boot volume backup first restores the backup into
+   * a new boot volume; the instance is launched by the tracker once that volume is AVAILABLE.
+   */
+  public async launchComputeInstance(request: LaunchComputeInstanceRequest): Promise<LaunchComputeInstanceResponse> {
+    const client = await this.factory.createComputeClientAsync(request.region);
+    const region = String(client.regionId || request.region || "").trim();
+    if (request.bootVolumeBackupId) {
+      return this.restoreComputeInstance(request, request.bootVolumeBackupId, region);
+    }
+    const { instance, workRequestId } = await this.submitComputeLaunch(
+      client,
+      request,
+      { sourceType: "image", imageId: request.imageId } as core.models.InstanceSourceViaImageDetails
+    );
+    const instanceId = instance.id;
+    this.invalidateResources("compute", region);
+
+    const operation = this.workRequestTracker.track(
+      {
+        kind: "launchInstance",
+        feature: "compute",
+        resourceId: instanceId,
+        resourceName: instance.displayName || request.displayName,
+        compartmentId: request.compartmentId,
+        region,
+        workRequestId,
+        resourceLifecycleState: (instance.lifecycleState as string) || "PROVISIONING",
+      },
+      () => this.getComputeLaunchProgress(instanceId, workRequestId, region)
+    );
+    return { instanceId, operationId: operation.id };
+  }
+
+  private async restoreComputeInstance(
+    request: LaunchComputeInstanceRequest,
+    bootVolumeBackupId: string,
+    region: string
+  ): Promise<LaunchComputeInstanceResponse> {
+    const blockstorageClient = await this.factory.createBlockstorageClientAsync(region);
+    const { bootVolume } = await blockstorageClient.createBootVolume({
+      createBootVolumeDetails: {
+        availabilityDomain: request.availabilityDomain,
+        compartmentId: request.compartmentId,
+        displayName: `${request.displayName} (Boot Volume)`,
+        sourceDetails: { type: "bootVolumeBackup", id: bootVolumeBackupId } as core.models.BootVolumeSourceFromBootVolumeBackupDetails,
+      },
+    });
+    const bootVolumeId = bootVolume.id;
+
+    // The tracker follows the boot volume until it can be booted from, then the launch.
+    let launched: { instanceId: string; workRequestId?: string } | undefined;
+    const poll = async (): Promise<WorkRequestProgress> => {
+      if (launched) {
+        return this.getComputeLaunchProgress(launched.instanceId, launched.workRequestId, region);
+      }
+      const client = await this.factory.createBlockstorageClientAsync(region);
+      const volume = (await client.getBootVolume({ bootVolumeId })).bootVolume;
+      const volumeState = (volume.lifecycleState as string) || "UNKNOWN";
+      if (volumeState === core.models.BootVolume.LifecycleState.Faulty || volumeState === core.models.BootVolume.LifecycleState.Terminated) {
+        return { status: "FAILED", resourceLifecycleState: volumeState, errorMessage: `Restored boot volume is ${volumeState.toLowerCase()}.` };
+      }
+      if (volumeState !== core.models.BootVolume.LifecycleState.Available) {
+        return { status: "IN_PROGRESS", resourceLifecycleState: volumeState };
+      }
+      try {
+        const computeClient = await this.factory.createComputeClientAsync(region);
+        const { instance, workRequestId } = await this.submitComputeLaunch(
+          computeClient,
+          request,
+          { sourceType: "bootVolume", bootVolumeId } as core.models.InstanceSourceViaBootVolumeDetails
+        );
+        launched = { instanceId: instance.id, workRequestId };
+      } catch (error) {
+        // Retrying a rejected launch would only fail again; keep the volume for another attempt.
+        return {
+          status: "FAILED",
+          resourceLifecycleState: volumeState,
+          errorMessage: `Launch failed: ${error instanceof Error ? error.message : String(error)} The restored boot volume ${bootVolumeId} was kept.`,
+        };
+      }
+      this.invalidateResources("compute", region);
+      return {
+        status: "IN_PROGRESS",
+        resourceId: launched.instanceId,
+        workRequestId: launched.workRequestId,
+        resourceLifecycleState: "PROVISIONING",
+      };
+    };
+
+    const operation = this.workRequestTracker.track(
+      {
+        kind: "launchInstance",
+        feature: "compute",
+        resourceId: bootVolumeId,
+        resourceName: request.displayName,
+        compartmentId: request.compartmentId,
+        region,
+        resourceLifecycleState: (bootVolume.lifecycleState as string) || "PROVISIONING",
+      },
+      poll
+    );
+    return { operationId: operation.id };
+  }
+
+  private async submitComputeLaunch(
+    client: core.ComputeClient,
+    request: LaunchComputeInstanceRequest,
+    sourceDetails: core.models.InstanceSourceDetails
+  ): Promise<{ instance: core.models.Instance; workRequestId?: string }> {
+    const metadata: Record<string, string> = { ssh_authorized_keys: request.sshPublicKey };
+    if (request.cloudInit) {
+      metadata.user_data = Buffer.from(request.cloudInit, "utf8").toString("base64");
+    }
+    const response = await client.launchInstance({
+      launchInstanceDetails: {
+        compartmentId: request.compartmentId,
+        availabilityDomain: request.availabilityDomain,
+        displayName: request.displayName,
+        shape: request.shape,
+        shapeConfig: request.ocpus !== undefined || request.memoryInGBs !== undefined
+          ? { ocpus: request.ocpus, memoryInGBs: request.memoryInGBs }
+          : undefined,
+        sourceDetails,
+        createVnicDetails: { subnetId: request.subnetId, assignPublicIp: request.assignPublicIp },
+        metadata,
+      },
+    });
+    return { instance: response.instance, workRequestId: response.opcWorkRequestId || undefined };
+  }
+
+  private async getComputeLaunchProgress(
+    instanceId: string,
+    workRequestId: string | undefined,
+    region: string
+  ): Promise<WorkRequestProgress> {
+    const computeClient = await this.factory.createComputeClientAsync(region);
+    const { instance } = await computeClient.getInstance({ instanceId });
+    const resourceLifecycleState = (instance.lifecycleState as string) || "UNKNOWN";
+    const progress: WorkRequestProgress = { status: "IN_PROGRESS", resourceLifecycleState };
+
+    await this.applyWorkRequestStatus(progress, workRequestId, region);
+    if (progress.status !== "FAILED") {
+      if (resourceLifecycleState === "RUNNING") {
+        progress.status = "SUCCEEDED";
+        progress.percentComplete = 100;
+      } else if (resourceLifecycleState === "TERMINATING" || resourceLifecycleState === "TERMINATED") {
+        progress.status = "FAILED";
+        progress.errorMessage = `Instance is ${resourceLifecycleState.toLowerCase()}.`;
+      }
+    }
+    if (progress.status !== "IN_PROGRESS") {
+      this.invalidateResources("compute", region);
+    }
+    return progress;
+  }
+
+  /** Copy the status of a core services work request into progress, failing it with the work request's errors. */
+  private async applyWorkRequestStatus(
+    progress: WorkRequestProgress,
+    workRequestId: string | undefined,
+    region: string
+  ): Promise<void> {
+    if (!workRequestId) {
+      return;
+    }
+    const workRequestClient = await this.factory.createWorkRequestClientAsync(region);
+    const { workRequest } = await workRequestClient.getWorkRequest({ workRequestId });
+    progress.workRequestStatus = workRequest.status as string;
+    progress.percentComplete = workRequest.percentComplete;
+    if (WORK_REQUEST_FAILED_STATES.has(progress.workRequestStatus)) {
+      const errors = await workRequestClient.listWorkRequestErrors({ workRequestId });
+      progress.status = "FAILED";
+      progress.errorMessage = (errors.items || []).map((item) => item.message).filter(Boolean).join(" ")
+        || `Work request ${progress.workRequestStatus.toLowerCase()}.`;
+    }
+  }
+
+  /**
+   * Custom images of the instance's compartment and the backups of its boot volume, newest first.
+   * OCI does not record which instance an image was made from, so all custom images are listed.
+   */
+  public async listComputeInstanceBackups(instanceId: string, region?: string): Promise<ListComputeInstanceBackupsResponse> {
+    const computeClient = await this.factory.createComputeClientAsync(region);
+    const resolvedRegion = String(computeClient.regionId || region || "").trim();
+    const { instance } = await computeClient.getInstance({ instanceId });
+    const bootVolume = await this.findComputeBootVolume(instance, region);
+    const blockstorageClient = await this.factory.createBlockstorageClientAsync(region);
+
+    const [images, bootVolumeBackups] = await Promise.all([
+      (async () => {
+        const customImages: ComputeCustomImage[] = [];
+        let page: string | undefined;
+        do {
+          const result = await computeClient.listImages({
+            compartmentId: instance.compartmentId,
+            sortBy: core.requests.ListImagesRequest.SortBy.Timecreated,
+            sortOrder: core.requests.ListImagesRequest.SortOrder.Desc,
+            page,
+          });
+          customImages.push(
+            ...(result.items || [])
+              // Platform images are listed too; they belong to no compartment.
+              .filter((image) => image.compartmentId === instance.compartmentId)
+              .filter((image) => image.lifecycleState !== core.models.Image.LifecycleState.Deleted)
+              .map((image) => ({
+                id: image.id || "",
+                name: image.displayName || image.id || "Unnamed Image",
+                lifecycleState: (image.lifecycleState as string) || "UNKNOWN",
+                operatingSystem: image.operatingSystem || "",
+                operatingSystemVersion: image.operatingSystemVersion || "",
+                sizeInMBs: image.sizeInMBs,
+                timeCreated: toIsoString(image.timeCreated),
+                compartmentId: instance.compartmentId,
+                region: resolvedRegion,
+              }))
           );
           page = result.opcNextPage;
         } while (page);
+        return customImages;
+      })(),
+      (async () => {
+        const backups: ComputeBootVolumeBackup[] = [];
+        if (!bootVolume?.id) {
+          return backups;
+        }
+        let page: string | undefined;
+        do {
+          const result = await blockstorageClient.listBootVolumeBackups({
+            compartmentId: bootVolume.compartmentId,
+            bootVolumeId: bootVolume.id,
+            sortBy: core.requests.ListBootVolumeBackupsRequest.SortBy.Timecreated,
+            sortOrder: core.requests.ListBootVolumeBackupsRequest.SortOrder.Desc,
+            page,
+          });
+          backups.push(
+            ...(result.items || [])
+              .filter((backup) => backup.lifecycleState !== core.models.BootVolumeBackup.LifecycleState.Terminated)
+              .map((backup) => ({
+                id: backup.id || "",
+                name: backup.displayName || backup.id || "Unnamed Backup",
+                lifecycleState: (backup.lifecycleState as string) || "UNKNOWN",
+                type: (backup.type as string) || "",
+                sourceType: (backup.sourceType as string) || undefined,
+                sizeInGBs: backup.sizeInGBs,
+                timeCreated: toIsoString(backup.timeCreated),
+                expirationTime: toIsoString(backup.expirationTime),
+                compartmentId: backup.compartmentId,
+                region: resolvedRegion,
+              }))
+          );
+          page = result.opcNextPage;
+        } while (page);
+        return backups;
+      })(),
+    ]);
+    return { bootVolumeId: bootVolume?.id, images, bootVolumeBackups };
+  }
+
+  /**
+   * Create a custom image of the instance in its compartment and follow it until AVAILABLE. OCI
+   * shuts the instance down while the image is taken and starts it again afterwards.
+   */
+  public async createComputeImage(input: {
+    instanceId: string;
+    instanceName?: string;
+    displayName: string;
+    region?: string;
+  }): Promise<CreateComputeBackupResponse> {
+    const client = await this.factory.createComputeClientAsync(input.region);
+    const region = String(client.regionId || input.region || "").trim();
+    const { instance } = await client.getInstance({ instanceId: input.instanceId });
+    const response = await client.createImage({
+      createImageDetails: {
+        compartmentId: instance.compartmentId,
+        instanceId: input.instanceId,
+        displayName: input.displayName,
+      },
+    });
+    const imageId = response.image.id;
+    const workRequestId = response.opcWorkRequestId || undefined;
+    this.invalidateResources("compute", region);
+
+    const operation = this.workRequestTracker.track(
+      {
+        kind: "createImage",
+        feature: "compute",
+        resourceId: imageId,
+        resourceName: response.image.displayName || input.displayName,
+        parentResourceId: input.instanceId,
+        compartmentId: instance.compartmentId,
+        region,
+        workRequestId,
+        resourceLifecycleState: (response.image.lifecycleState as string) || "PROVISIONING",
+      },
+      () => this.getComputeImageProgress(imageId, workRequestId, region)
+    );
+    return { resourceId: imageId, operationId: operation.id };
+  }
+
+  private async getComputeImageProgress(
+    imageId: string,
+    workRequestId: string | undefined,
+    region: string
+  ): Promise<WorkRequestProgress> {
+    const client = await this.factory.createComputeClientAsync(region);
+    const { image } = await client.getImage({ imageId });
+    const resourceLifecycleState = (image.lifecycleState as string) || "UNKNOWN";
+    const progress: WorkRequestProgress = { status: "IN_PROGRESS", resourceLifecycleState };
+
+    await this.applyWorkRequestStatus(progress, workRequestId, region);
+    if (progress.status !== "FAILED") {
+      if (resourceLifecycleState === core.models.Image.LifecycleState.Available) {
+        progress.status = "SUCCEEDED";
+        progress.percentComplete = 100;
+      } else if (resourceLifecycleState === core.models.Image.LifecycleState.Deleted) {
+        progress.status = "FAILED";
+        progress.errorMessage = "Image was deleted.";
       }
     }
+    if (progress.status !== "IN_PROGRESS") {
+      // The instance is back from CREATING_IMAGE.
+      this.invalidateResources("compute", region);
+    }
+    return progress;
+  }
 
-    return databases;
+  /** Back up the instance's boot volume and follow the backup until AVAILABLE. The instance keeps running. */
+  public async createComputeBootVolumeBackup(input: {
+    instanceId: string;
+    instanceName?: string;
+    displayName: string;
+    type: BootVolumeBackupType;
+    region?: string;
+  }): Promise<CreateComputeBackupResponse> {
+    const computeClient = await this.factory.createComputeClientAsync(input.region);
+    const region = String(computeClient.regionId || input.region || "").trim();
+    const { instance } = await computeClient.getInstance({ instanceId: input.instanceId });
+    const bootVolume = await this.findComputeBootVolume(instance, region);
+    if (!bootVolume?.id) {
+      throw new Error(`${input.instanceName || input.instanceId} has no attached boot volume.`);
+    }
+    const client = await this.factory.createBlockstorageClientAsync(region);
+    const { bootVolumeBackup } = await client.createBootVolumeBackup({
+      createBootVolumeBackupDetails: {
+        bootVolumeId: bootVolume.id,
+        displayName: input.displayName,
+        type: input.type === "INCREMENTAL"
+          ? core.models.CreateBootVolumeBackupDetails.Type.Incremental
+          : core.models.CreateBootVolumeBackupDetails.Type.Full,
+      },
+    });
+    const bootVolumeBackupId = bootVolumeBackup.id;
+
+    const operation = this.workRequestTracker.track(
+      {
+        kind: "createBootVolumeBackup",
+        feature: "compute",
+        resourceId: bootVolumeBackupId,
+        resourceName: bootVolumeBackup.displayName || input.displayName,
+        parentResourceId: input.instanceId,
+        compartmentId: bootVolumeBackup.compartmentId,
+        region,
+        resourceLifecycleState: (bootVolumeBackup.lifecycleState as string) || "CREATING",
+      },
+      () => this.getBootVolumeBackupProgress(bootVolumeBackupId, region)
+    );
+    return { resourceId: bootVolumeBackupId, operationId: operation.id };
   }
 
-  public async startAutonomousDatabase(autonomousDatabaseId: string, region?: string): Promise<void> {
-    const client = await this.factory.createDatabaseClientAsync(region);
-    await client.startAutonomousDatabase({ autonomousDatabaseId });
+  private async getBootVolumeBackupProgress(bootVolumeBackupId: string, region: string): Promise<WorkRequestProgress> {
+    const client = await this.factory.createBlockstorageClientAsync(region);
+    const { bootVolumeBackup } = await client.getBootVolumeBackup({ bootVolumeBackupId });
+    const resourceLifecycleState = (bootVolumeBackup.lifecycleState as string) || "UNKNOWN";
+    if (resourceLifecycleState === core.models.BootVolumeBackup.LifecycleState.Available) {
+      return { status: "SUCCEEDED", resourceLifecycleState, percentComplete: 100 };
+    }
+    if (
+      resourceLifecycleState === core.models.BootVolumeBackup.LifecycleState.Faulty
+      || resourceLifecycleState === core.models.BootVolumeBackup.LifecycleState.Terminated
+    ) {
+      return { status: "FAILED", resourceLifecycleState, errorMessage: `Backup is ${resourceLifecycleState.toLowerCase()}.` };
+    }
+    return { status: "IN_PROGRESS", resourceLifecycleState };
   }
 
-  public async stopAutonomousDatabase(autonomousDatabaseId: string, region?: string): Promise<void> {
-    const client = await this.factory.createDatabaseClientAsync(region);
-    await client.stopAutonomousDatabase({ autonomousDatabaseId });
+  public async deleteComputeImage(imageId: string, region?: string): Promise<void> {
+    const client = await this.factory.createComputeClientAsync(region);
+    await client.deleteImage({ imageId });
+  }
+
+  public async deleteComputeBootVolumeBackup(bootVolumeBackupId: string, region?: string): Promise<void> {
+    const client = await this.factory.createBlockstorageClientAsync(region);
+    await client.deleteBootVolumeBackup({ bootVolumeBackupId });
   }
 
-  public async listDbSystems(): Promise<DbSystemResource[]> {
+  /** The boot volume attached to the instance, if any. */
+  private async findComputeBootVolume(
+    instance: core.models.Instance,
+    region?: string
+  ): Promise<core.models.BootVolume | undefined> {
+    const computeClient = await this.factory.createComputeClientAsync(region);
+    const { items } = await computeClient.listBootVolumeAttachments({
+      availabilityDomain: instance.availabilityDomain,
+      compartmentId: instance.compartmentId,
+      instanceId: instance.id,
+    });
+    const attachment = (items || []).find(
+      (item) => item.lifecycleState === core.models.BootVolumeAttachment.LifecycleState.Attached
+    );
+    if (!attachment?.bootVolumeId) {
+      return undefined;
+    }
+    const blockstorageClient = await this.factory.createBlockstorageClientAsync(region);
+    return (await blockstorageClient.getBootVolume({ bootVolumeId: attachment.bootVolumeId })).bootVolume;
+  }
+
+  /**
+   * CPU, memory, network and storage metrics of a Compute instance, ADB or DB system over the
+   * requested window, one Monitoring query per metric. Metrics without data are listed as missing
+   * rather than failing the whole request.
+   */
+  public async getResourceMetrics(request: GetResourceMetricsRequest): Promise<GetResourceMetricsResponse> {
+    const { namespace, metrics } = RESOURCE_METRICS[request.resourceKind];
+    const { durationMs, interval } = METRICS_WINDOWS[request.window];
+    const endTime = new Date();
+    const startTime = new Date(endTime.getTime() - durationMs);
+    const client = await this.factory.createMonitoringClientAsync(request.region);
+
+    const results = await Promise.all(
+      metrics.map(async (definition) => {
+        const response = await client.summarizeMetricsData({
+          compartmentId: request.compartmentId,
+          summarizeMetricsDataDetails: {
+            namespace,
+            query: buildMetricQuery(definition, request.resourceId, interval),
+            startTime,
+            endTime,
+            resolution: interval,
+          },
+        });
+        const streams = (response.items || []).filter((item) => (item.aggregatedDatapoints || []).length > 0);
+        return { definition, streams };
+      })
+    );
+
+    const series: MetricSeries[] = [];
+    const missing: string[] = [];
+    for (const { definition, streams } of results) {
+      if (streams.length === 0) {
+        missing.push(definition.label);
+        continue;
+      }
+      for (const stream of streams) {
+        series.push({
+          metric: definition.metric,
+          label: describeMetricStream(definition, stream.dimensions || {}, streams.length),
+          unit: definition.unit,
+          datapoints: stream.aggregatedDatapoints.map((point) => ({
+            timestamp: new Date(point.timestamp).toISOString(),
+            value: point.value,
+          })),
+        });
+      }
+    }
+    return { namespace, window: request.window, interval, series, missing };
+  }
+
+  public async listAutonomousDatabases(refresh = false): Promise<RegionListing<AdbResource>> {
     const cfg = vscode.workspace.getConfiguration("ociAi");
-    const compartmentIds = normalizeCompartmentIds(cfg.get<string[]>("dbSystemCompartmentIds") || []);
+    const compartmentIds = normalizeCompartmentIds(cfg.get<string[]>("adbCompartmentIds") || []);
     if (compartmentIds.length === 0) {
-      return [];
+      return { items: [], regionErrors: [] };
     }
-    const regions = this.getActiveProfileRegions();
+    const regions = this.getFeatureRegions("adb");
 
-    const dbSystems: DbSystemResource[] = [];
+    return this.listAcrossRegions(regions, async (region) => {
+      const databases: AdbResource[] = [];
+      const client = await this.factory.createDatabaseClientAsync(region);
+      for (const compartmentId of compartmentIds) {
+        const loadCompartment = async () => {
+          const compartmentDatabases: AdbResource[] = [];
+          let page: string | undefined;
+          do {
+            const result = await client.listAutonomousDatabases({ compartmentId, page });
+            compartmentDatabases.push(
+              ...(result.items || []).map((adb) => ({
+                id: adb.id || "",
+                name: adb.dbName || adb.displayName || adb.id || "Unnamed ADB",
+                lifecycleState: (adb.lifecycleState as string) || "UNKNOWN",
+                compartmentId,
+                region,
+                dbWorkload: adb.dbWorkload as string | undefined,
+                computeCount: adb.computeCount,
+                dataStorageSizeInTBs: adb.dataStorageSizeInTBs,
+                isAutoScalingEnabled: adb.isAutoScalingEnabled,
+                isAutoScalingForStorageEnabled: adb.isAutoScalingForStorageEnabled,
+                backupRetentionPeriodInDays: adb.backupRetentionPeriodInDays,
+              }))
+            );
+            page = result.opcNextPage;
+          } while (page);
+          return compartmentDatabases;
+        };
+        databases.push(...await this.resourceCache.get(
+          { kind: "adb", region, scope: compartmentId },
+          loadCompartment,
+          { refresh, cacheable: isSettledListing }
+        ));
+      }
+      return databases;
+    });
+  }
 
-    for (const region of regions) {
-      const dbClient = await this.factory.createDatabaseClientAsync(region);
-      const vcnClient = await this.factory.createVirtualNetworkClientAsync(region);
+  public async startAutonomousDatabase(autonomousDatabaseId: string, region?: string): Promise<void> {
+    const client = await this.factory.createDatabaseClientAsync(region);
+    await client.startAutonomousDatabase({ autonomousDatabaseId });
+    this.invalidateResources("adb", region);
+  }
 
-      for (const compartmentId of compartmentIds) {
+  public async stopAutonomousDatabase(autonomousDatabaseId: string, region?: string): Promise<void> {
+    const client = await this.factory.createDatabaseClientAsync(region);
+    await client.stopAutonomousDatabase({ autonomousDatabaseId });
+    this.invalidateResources("adb", region);
+  }
+
+  /** Choices for the create and clone forms: database versions of the workload and subnets for a private endpoint. */
+  public async getAutonomousDatabaseProvisioningOptions(
+    compartmentId: string,
+    workload: AdbWorkloadType,
+    region?: string
+  ): Promise<AdbProvisioningOptions> {
+    const client = await this.factory.createDatabaseClientAsync(region);
+    const [versions, subnets] = await Promise.all([
+      (async () => {
+        const items: database.models.AutonomousDbVersionSummary[] = [];
         let page: string | undefined;
         do {
-          const result = await dbClient.listDbSystems({ compartmentId, page });
-          const regionSystems = (result.items || []).map((sys) => ({
-            id: sys.id || "",
-            name: sys.displayName || sys.id || "Unnamed DB System",
-            lifecycleState: (sys.lifecycleState as string) || "UNKNOWN",
+          const result = await client.listAutonomousDbVersions({
             compartmentId,
-            region,
-          }));
+            dbWorkload: workload,
+            page,
+          });
+          items.push(...(result.items || []));
+          page = result.opcNextPage;
+        } while (page);
+        return items
+          .filter((item) => item.version && !item.isDedicated)
+          .map((item) => ({ version: item.version, details: item.details, isFreeTierEnabled: Boolean(item.isFreeTierEnabled) }));
+      })(),
+      this.listSubnetOptions(compartmentId, region),
+    ]);
+    return { versions, subnets };
+  }
+
+  /** Create an Autonomous Database and follow it in workRequestTracker until it is AVAILABLE. */
+  public async createAutonomousDatabase(request: CreateAutonomousDatabaseRequest): Promise<ProvisionAutonomousDatabaseResponse> {
+    const details: database.models.CreateAutonomousDatabaseDetails = {
+      source: "NONE",
+      compartmentId: request.compartmentId,
+      displayName: request.displayName,
+      dbName: request.dbName,
+      dbWorkload: request.workload as database.models.CreateAutonomousDatabaseBase.DbWorkload,
+      computeModel: database.models.CreateAutonomousDatabaseBase.ComputeModel.Ecpu,
+      computeCount: request.computeCount,
+      dataStorageSizeInTBs: request.dataStorageSizeInTBs,
+      isAutoScalingEnabled: request.isAutoScalingEnabled,
+      dbVersion: request.dbVersion,
+      adminPassword: request.adminPassword,
+      ...toAdbNetworkAccessDetails(request.networkAccess),
+    };
+    return this.provisionAutonomousDatabase(details, "createAutonomousDatabase", request.compartmentId, request.region);
+  }
+
+  /** Clone an Autonomous Database into a new one in the region of the source. */
+  public async cloneAutonomousDatabase(request: CloneAutonomousDatabaseRequest): Promise<ProvisionAutonomousDatabaseResponse> {
+    const base = {
+      compartmentId: request.compartmentId,
+      sourceId: request.sourceId,
+      displayName: request.displayName,
+      dbName: request.dbName,
+      computeModel: database.models.CreateAutonomousDatabaseBase.ComputeModel.Ecpu,
+      computeCount: request.computeCount,
+      dataStorageSizeInTBs: request.dataStorageSizeInTBs,
+      ...toAdbNetworkAccessDetails(request.networkAccess),
+    };
+    const details: database.models.CreateAutonomousDatabaseBase = request.cloneType === "REFRESHABLE"
+      ? {
+        ...base,
+        source: "CLONE_TO_REFRESHABLE",
+        refreshableMode: request.refreshableMode === "AUTOMATIC"
+          ? database.models.CreateRefreshableAutonomousDatabaseCloneDetails.RefreshableMode.Automatic
+          : database.models.CreateRefreshableAutonomousDatabaseCloneDetails.RefreshableMode.Manual,
+      } as database.models.CreateRefreshableAutonomousDatabaseCloneDetails
+      : {
+        ...base,
+        source: "DATABASE",
+        cloneType: request.cloneType === "METADATA"
+          ? database.models.CreateAutonomousDatabaseCloneDetails.CloneType.Metadata
+          : database.models.CreateAutonomousDatabaseCloneDetails.CloneType.Full,
+        adminPassword: request.adminPassword,
+      } as database.models.CreateAutonomousDatabaseCloneDetails;
+    return this.provisionAutonomousDatabase(
+      details,
+      "cloneAutonomousDatabase",
+      request.compartmentId,
+      request.region,
+      request.sourceId
+    );
+  }
 
-          dbSystems.push(...regionSystems);
+  private async provisionAutonomousDatabase(
+    details: database.models.CreateAutonomousDatabaseBase,
+    kind: "createAutonomousDatabase" | "cloneAutonomousDatabase",
+    compartmentId: string,
+    requestRegion?: string,
+    sourceId?: string
+  ): Promise<ProvisionAutonomousDatabaseResponse> {
+    const client = await this.factory.createDatabaseClientAsync(requestRegion);
+    const region = String(client.regionId || requestRegion || "").trim();
+    const response = await client.createAutonomousDatabase({ createAutonomousDatabaseDetails: details });
+    const autonomousDatabase = response.autonomousDatabase;
+    const autonomousDatabaseId = autonomousDatabase.id;
+    const workRequestId = firstWorkRequestId(response.opcWorkRequestId);
+    this.invalidateResources("adb", region);
+
+    const operation = this.workRequestTracker.track(
+      {
+        kind,
+        feature: "adb",
+        resourceId: autonomousDatabaseId,
+        resourceName: autonomousDatabase.displayName || details.displayName || autonomousDatabaseId,
+        parentResourceId: sourceId,
+        compartmentId,
+        region,
+        workRequestId,
+        resourceLifecycleState: (autonomousDatabase.lifecycleState as string) || "PROVISIONING",
+      },
+      () => this.getAutonomousDatabaseProgress(autonomousDatabaseId, workRequestId, region)
+    );
+    return { autonomousDatabaseId, operationId: operation.id };
+  }
+
+  /** Change ECPUs, storage and auto-scaling in place; the database stays open while it scales. */
+  public async scaleAutonomousDatabase(request: ScaleAutonomousDatabaseRequest): Promise<AdbOperationResponse> {
+    const client = await this.factory.createDatabaseClientAsync(request.region);
+    const region = String(client.regionId || request.region || "").trim();
+    const response = await client.updateAutonomousDatabase({
+      autonomousDatabaseId: request.autonomousDatabaseId,
+      updateAutonomousDatabaseDetails: {
+        computeCount: request.computeCount,
+        dataStorageSizeInTBs: request.dataStorageSizeInTBs,
+        isAutoScalingEnabled: request.isAutoScalingEnabled,
+        isAutoScalingForStorageEnabled: request.isAutoScalingForStorageEnabled,
+      },
+    });
+    return this.trackAutonomousDatabaseOperation(
+      "scaleAutonomousDatabase",
+      response.autonomousDatabase,
+      response.opcWorkRequestId,
+      region,
+      request.databaseName
+    );
+  }
 
-          await Promise.all(
-            regionSystems.map((sys) =>
-              this.populateDbSystemNetworkAddresses(sys, compartmentId, dbClient, vcnClient)
-            )
+  /** Backups of the database, newest first, with the retention period that bounds a point-in-time restore. */
+  public async listAutonomousDatabaseBackups(autonomousDatabaseId: string, region?: string): Promise<ListAdbBackupsResponse> {
+    const client = await this.factory.createDatabaseClientAsync(region);
+    const [{ autonomousDatabase }, backups] = await Promise.all([
+      client.getAutonomousDatabase({ autonomousDatabaseId }),
+      (async () => {
+        const items: AdbBackup[] = [];
+        let page: string | undefined;
+        do {
+          const result = await client.listAutonomousDatabaseBackups({
+            autonomousDatabaseId,
+            sortBy: database.requests.ListAutonomousDatabaseBackupsRequest.SortBy.Timecreated,
+            sortOrder: database.requests.ListAutonomousDatabaseBackupsRequest.SortOrder.Desc,
+            page,
+          });
+          items.push(
+            ...(result.items || [])
+              .filter((backup) => backup.lifecycleState !== database.models.AutonomousDatabaseBackupSummary.LifecycleState.Deleted)
+              .map((backup) => ({
+                id: backup.id || "",
+                name: backup.displayName || backup.id || "Unnamed Backup",
+                lifecycleState: (backup.lifecycleState as string) || "UNKNOWN",
+                type: (backup.type as string) || "",
+                isAutomatic: Boolean(backup.isAutomatic),
+                isRestorable: Boolean(backup.isRestorable),
+                databaseSizeInTBs: backup.databaseSizeInTBs,
+                retentionPeriodInDays: backup.retentionPeriodInDays,
+                timeStarted: toIsoString(backup.timeStarted),
+                timeEnded: toIsoString(backup.timeEnded),
+              }))
           );
-
           page = result.opcNextPage;
         } while (page);
+        return items;
+      })(),
+    ]);
+    return { backups, backupRetentionPeriodInDays: autonomousDatabase.backupRetentionPeriodInDays };
+  }
+
+  /** Take a manual backup and follow it until ACTIVE. The database stays available meanwhile. */
+  public async createAutonomousDatabaseBackup(request: CreateAdbBackupRequest): Promise<AdbOperationResponse> {
+    const client = await this.factory.createDatabaseClientAsync(request.region);
+    const region = String(client.regionId || request.region || "").trim();
+    const { autonomousDatabaseBackup } = await client.createAutonomousDatabaseBackup({
+      createAutonomousDatabaseBackupDetails: {
+        autonomousDatabaseId: request.autonomousDatabaseId,
+        displayName: request.displayName,
+      },
+    });
+    const autonomousDatabaseBackupId = autonomousDatabaseBackup.id;
+    this.invalidateResources("adb", region);
+
+    const operation = this.workRequestTracker.track(
+      {
+        kind: "createAutonomousDatabaseBackup",
+        feature: "adb",
+        resourceId: autonomousDatabaseBackupId,
+        resourceName: autonomousDatabaseBackup.displayName || request.displayName,
+        parentResourceId: request.autonomousDatabaseId,
+        compartmentId: autonomousDatabaseBackup.compartmentId,
+        region,
+        resourceLifecycleState: (autonomousDatabaseBackup.lifecycleState as string) || "CREATING",
+      },
+      () => this.getAutonomousDatabaseBackupProgress(autonomousDatabaseBackupId, region)
+    );
+    return { operationId: operation.id };
+  }
+
+  /** Restore the database to its state at request.timestamp, replacing the current data. */
+  public async restoreAutonomousDatabase(request: RestoreAutonomousDatabaseRequest): Promise<AdbOperationResponse> {
+    const client = await this.factory.createDatabaseClientAsync(request.region);
+    const region = String(client.regionId || request.region || "").trim();
+    const response = await client.restoreAutonomousDatabase({
+      autonomousDatabaseId: request.autonomousDatabaseId,
+      restoreAutonomousDatabaseDetails: { timestamp: new Date(request.timestamp) },
+    });
+    return this.trackAutonomousDatabaseOperation(
+      "restoreAutonomousDatabase",
+      response.autonomousDatabase,
+      response.opcWorkRequestId,
+      region,
+      request.databaseName
+    );
+  }
+
+  /** Endpoint, access control list and mutual TLS setting, with the profiles usable without a wallet. */
+  public async getAutonomousDatabaseNetworkAccess(autonomousDatabaseId: string, region?: string): Promise<AdbNetworkAccessInfo> {
+    const client = await this.factory.createDatabaseClientAsync(region);
+    const { autonomousDatabase } = await client.getAutonomousDatabase({ autonomousDatabaseId });
+    const tlsServiceNames = new Set<string>();
+    for (const profile of autonomousDatabase.connectionStrings?.profiles ?? []) {
+      const displayName = String(profile.displayName ?? "").trim();
+      if (displayName && String(profile.protocol) === "TCPS" && String(profile.tlsAuthentication) === "SERVER") {
+        tlsServiceNames.add(displayName);
+      }
+    }
+    return {
+      isMtlsConnectionRequired: Boolean(autonomousDatabase.isMtlsConnectionRequired),
+      whitelistedIps: autonomousDatabase.whitelistedIps ?? [],
+      privateEndpoint: autonomousDatabase.privateEndpoint || undefined,
+      tlsServiceNames: Array.from(tlsServiceNames).sort((a, b) => a.localeCompare(b)),
+    };
+  }
+
+  /**
+   * Replace the access control list of the public endpoint. OCI ignores an empty list on update, so
+   * removing every entry sends [""], which clears the list and lets any address connect.
+   */
+  public async updateAutonomousDatabaseAccessControl(request: UpdateAdbAccessControlRequest): Promise<AdbOperationResponse> {
+    const client = await this.factory.createDatabaseClientAsync(request.region);
+    const region = String(client.regionId || request.region || "").trim();
+    const response = await client.updateAutonomousDatabase({
+      autonomousDatabaseId: request.autonomousDatabaseId,
+      updateAutonomousDatabaseDetails: {
+        whitelistedIps: request.whitelistedIps.length > 0 ? request.whitelistedIps : [""],
+      },
+    });
+    return this.trackAutonomousDatabaseOperation(
+      "updateAutonomousDatabaseNetworkAccess",
+      response.autonomousDatabase,
+      response.opcWorkRequestId,
+      region,
+      request.databaseName
+    );
+  }
+
+  /** Turning mutual TLS off lets clients connect with one-way TLS and no wallet. */
+  public async updateAutonomousDatabaseMtls(request: UpdateAdbMtlsRequest): Promise<AdbOperationResponse> {
+    const client = await this.factory.createDatabaseClientAsync(request.region);
+    const region = String(client.regionId || request.region || "").trim();
+    const response = await client.updateAutonomousDatabase({
+      autonomousDatabaseId: request.autonomousDatabaseId,
+      updateAutonomousDatabaseDetails: { isMtlsConnectionRequired: request.isMtlsConnectionRequired },
+    });
+    return this.trackAutonomousDatabaseOperation(
+      "updateAutonomousDatabaseNetworkAccess",
+      response.autonomousDatabase,
+      response.opcWorkRequestId,
+      region,
+      request.databaseName
+    );
+  }
+
+  /**
+   * Rotates the wallet shared by every client of the database. Wallets downloaded before keep working
+   * for the grace period, after which they are rejected.
+   */
+  public async rotateAutonomousDatabaseWallet(request: RotateAdbWalletRequest): Promise<AdbOperationResponse> {
+    const client = await this.factory.createDatabaseClientAsync(request.region);
+    const region = String(client.regionId || request.region || "").trim();
+    const autonomousDatabaseId = request.autonomousDatabaseId;
+    const [{ autonomousDatabase }, { autonomousDatabaseWallet }] = await Promise.all([
+      client.getAutonomousDatabase({ autonomousDatabaseId }),
+      client.getAutonomousDatabaseWallet({ autonomousDatabaseId }),
+    ]);
+    const previousRotatedAt = autonomousDatabaseWallet.timeRotated
+      ? new Date(autonomousDatabaseWallet.timeRotated).getTime()
+      : 0;
+    const response = await client.updateAutonomousDatabaseWallet({
+      autonomousDatabaseId,
+      updateAutonomousDatabaseWalletDetails: { shouldRotate: true, gracePeriod: request.gracePeriodHours },
+    });
+    const workRequestId = firstWorkRequestId(response.opcWorkRequestId);
+
+    const operation = this.workRequestTracker.track(
+      {
+        kind: "rotateAutonomousDatabaseWallet",
+        feature: "adb",
+        resourceId: autonomousDatabaseId,
+        resourceName: request.databaseName || autonomousDatabase.dbName || autonomousDatabase.displayName || autonomousDatabaseId,
+        compartmentId: autonomousDatabase.compartmentId,
+        region,
+        workRequestId,
+        resourceLifecycleState: database.models.AutonomousDatabaseWallet.LifecycleState.Updating,
+      },
+      () => this.getAutonomousDatabaseWalletProgress(autonomousDatabaseId, previousRotatedAt, workRequestId, region)
+    );
+    return { operationId: operation.id };
+  }
+
+  private trackAutonomousDatabaseOperation(
+    kind: "scaleAutonomousDatabase" | "restoreAutonomousDatabase" | "updateAutonomousDatabaseNetworkAccess",
+    autonomousDatabase: database.models.AutonomousDatabase,
+    opcWorkRequestId: string | undefined,
+    region: string,
+    databaseName?: string
+  ): AdbOperationResponse {
+    const autonomousDatabaseId = autonomousDatabase.id;
+    const workRequestId = firstWorkRequestId(opcWorkRequestId);
+    this.invalidateResources("adb", region);
+
+    const operation = this.workRequestTracker.track(
+      {
+        kind,
+        feature: "adb",
+        resourceId: autonomousDatabaseId,
+        resourceName: databaseName || autonomousDatabase.dbName || autonomousDatabase.displayName || autonomousDatabaseId,
+        compartmentId: autonomousDatabase.compartmentId,
+        region,
+        workRequestId,
+        resourceLifecycleState: (autonomousDatabase.lifecycleState as string) || "UPDATING",
+      },
+      () => this.getAutonomousDatabaseProgress(autonomousDatabaseId, workRequestId, region)
+    );
+    return { operationId: operation.id };
+  }
+
+  /**
+   * The database is done once it is AVAILABLE again. With a work request it must also have
+   * succeeded, since an update may be accepted before the database leaves AVAILABLE.
+   */
+  private async getAutonomousDatabaseProgress(
+    autonomousDatabaseId: string,
+    workRequestId: string | undefined,
+    region: string
+  ): Promise<WorkRequestProgress> {
+    const client = await this.factory.createDatabaseClientAsync(region);
+    const { autonomousDatabase } = await client.getAutonomousDatabase({ autonomousDatabaseId });
+    const resourceLifecycleState = (autonomousDatabase.lifecycleState as string) || "UNKNOWN";
+    const progress: WorkRequestProgress = { status: "IN_PROGRESS", resourceLifecycleState };
+
+    await this.applyWorkRequestStatus(progress, workRequestId, region);
+    if (progress.status !== "FAILED") {
+      if (
+        resourceLifecycleState === database.models.AutonomousDatabase.LifecycleState.Available
+        && (!workRequestId || progress.workRequestStatus === "SUCCEEDED")
+      ) {
+        progress.status = "SUCCEEDED";
+        progress.percentComplete = 100;
+      } else if (ADB_FAILED_STATES.has(resourceLifecycleState)) {
+        progress.status = "FAILED";
+        progress.errorMessage = autonomousDatabase.lifecycleDetails
+          || `Autonomous Database is ${resourceLifecycleState.toLowerCase()}.`;
+      }
+    }
+    if (progress.status !== "IN_PROGRESS") {
+      this.invalidateResources("adb", region);
+    }
+    return progress;
+  }
+
+  /**
+   * The rotation is done once the wallet is ACTIVE again with a later rotation time, or its work request
+   * succeeded. The wallet can read ACTIVE before the rotation starts, so that alone is not enough.
+   */
+  private async getAutonomousDatabaseWalletProgress(
+    autonomousDatabaseId: string,
+    previousRotatedAt: number,
+    workRequestId: string | undefined,
+    region: string
+  ): Promise<WorkRequestProgress> {
+    const client = await this.factory.createDatabaseClientAsync(region);
+    const { autonomousDatabaseWallet } = await client.getAutonomousDatabaseWallet({ autonomousDatabaseId });
+    const resourceLifecycleState = (autonomousDatabaseWallet.lifecycleState as string) || "UNKNOWN";
+    const progress: WorkRequestProgress = { status: "IN_PROGRESS", resourceLifecycleState };
+
+    await this.applyWorkRequestStatus(progress, workRequestId, region);
+    if (
+      progress.status !== "FAILED"
+      && resourceLifecycleState === database.models.AutonomousDatabaseWallet.LifecycleState.Active
+    ) {
+      const rotatedAt = autonomousDatabaseWallet.timeRotated ? new Date(autonomousDatabaseWallet.timeRotated).getTime() : 0;
+      if (rotatedAt > previousRotatedAt || progress.workRequestStatus === "SUCCEEDED") {
+        progress.status = "SUCCEEDED";
+        progress.percentComplete = 100;
       }
     }
+    return progress;
+  }
 
-    return dbSystems;
+  private async getAutonomousDatabaseBackupProgress(
+    autonomousDatabaseBackupId: string,
+    region: string
+  ): Promise<WorkRequestProgress> {
+    const client = await this.factory.createDatabaseClientAsync(region);
+    const { autonomousDatabaseBackup } = await client.getAutonomousDatabaseBackup({ autonomousDatabaseBackupId });
+    const resourceLifecycleState = (autonomousDatabaseBackup.lifecycleState as string) || "UNKNOWN";
+    let progress: WorkRequestProgress = { status: "IN_PROGRESS", resourceLifecycleState };
+    if (resourceLifecycleState === database.models.AutonomousDatabaseBackup.LifecycleState.Active) {
+      progress = { status: "SUCCEEDED", resourceLifecycleState, percentComplete: 100 };
+    } else if (
+      resourceLifecycleState === database.models.AutonomousDatabaseBackup.LifecycleState.Failed
+      || resourceLifecycleState === database.models.AutonomousDatabaseBackup.LifecycleState.Deleted
+    ) {
+      progress = {
+        status: "FAILED",
+        resourceLifecycleState,
+        errorMessage: autonomousDatabaseBackup.lifecycleDetails || `Backup is ${resourceLifecycleState.toLowerCase()}.`,
+      };
+    }
+    if (progress.status !== "IN_PROGRESS") {
+      // The database is back from BACKUP_IN_PROGRESS.
+      this.invalidateResources("adb", region);
+    }
+    return progress;
+  }
+
+  public async listDbSystems(refresh = false): Promise<RegionListing<DbSystemResource>> {
+    const cfg = vscode.workspace.getConfiguration("ociAi");
+    const compartmentIds = normalizeCompartmentIds(cfg.get<string[]>("dbSystemCompartmentIds") || []);
+    if (compartmentIds.length === 0) {
+      return { items: [], regionErrors: [] };
+    }
+    const regions = this.getFeatureRegions("dbSystem");
+
+    return this.listAcrossRegions(regions, async (region) => {
+      const dbSystems: DbSystemResource[] = [];
+      const dbClient = await this.factory.createDatabaseClientAsync(region);
+      const vcnClient = await this.factory.createVirtualNetworkClientAsync(region);
+
+      for (const compartmentId of compartmentIds) {
+        const loadCompartment = async () => {
+          const compartmentSystems: DbSystemResource[] = [];
+          let page: string | undefined;
+          do {
+            const result = await dbClient.listDbSystems({ compartmentId, page });
+            const regionSystems = (result.items || []).map((sys) => ({
+              id: sys.id || "",
+              name: sys.displayName || sys.id || "Unnamed DB System",
+              lifecycleState: (sys.lifecycleState as string) || "UNKNOWN",
+              compartmentId,
+              region,
+            }));
+
+            compartmentSystems.push(...regionSystems);
+
+            await Promise.all(
+              regionSystems.map((sys) =>
+                this.populateDbSystemNetworkAddresses(sys, compartmentId, dbClient, vcnClient)
+              )
+            );
+
+            page = result.opcNextPage;
+          } while (page);
+          return compartmentSystems;
+        };
+        dbSystems.push(...await this.resourceCache.get(
+          { kind: "dbSystem", region, scope: compartmentId },
+          loadCompartment,
+          { refresh, cacheable: isSettledListing }
+        ));
+      }
+      return dbSystems;
+    });
   }
 
   public async startDbSystem(dbSystemId: string, region?: string): Promise<void> {
@@ -213,6 +1568,7 @@ export class OciService {
         await client.dbNodeAction({ dbNodeId: node.id, action: "START" });
       }
     }
+    this.invalidateResources("dbSystem", region);
   }
 
   public async stopDbSystem(dbSystemId: string, region?: string): Promise<void> {
@@ -227,6 +1583,7 @@ export class OciService {
         await client.dbNodeAction({ dbNodeId: node.id, action: "STOP" });
       }
     }
+    this.invalidateResources("dbSystem", region);
   }
 
   public async getDbSystemConnectionStrings(
@@ -336,40 +1693,267 @@ export class OciService {
       .sort((a, b) => a.name.localeCompare(b.name));
   }
 
-  public async listVcns(): Promise<VcnResource[]> {
+  /** DB homes of a DB system with their databases and the pluggable databases of each container database. */
+  public async listDbSystemDatabases(request: ListDbSystemDatabasesRequest): Promise<DbHomeResource[]> {
+    const client = await this.factory.createDatabaseClientAsync(request.region);
+    const { compartmentId, dbSystemId } = request;
+    const publicIp = String(request.publicIp ?? "").trim();
+
+    const homes: database.models.DbHomeSummary[] = [];
+    let page: string | undefined;
+    do {
+      const response = await client.listDbHomes({ compartmentId, dbSystemId, page });
+      homes.push(...(response.items || []));
+      page = response.opcNextPage;
+    } while (page);
+
+    return Promise.all(homes.map(async (home) => {
+      const databases: database.models.DatabaseSummary[] = [];
+      let dbPage: string | undefined;
+      do {
+        const response = await client.listDatabases({ compartmentId, dbHomeId: home.id, page: dbPage });
+        databases.push(...(response.items || []));
+        dbPage = response.opcNextPage;
+      } while (dbPage);
+
+      return {
+        id: home.id,
+        name: home.displayName || home.id,
+        dbVersion: home.dbVersion || undefined,
+        lifecycleState: (home.lifecycleState as string) || "UNKNOWN",
+        databases: await Promise.all(databases.map(async (db) => {
+          // Databases from before 19c report no isCdb; only an explicit false marks a non-container database.
+          const isCdb = db.isCdb !== false;
+          const pluggableDatabases: PluggableDatabaseResource[] = [];
+          let pdbPage: string | undefined;
+          while (isCdb) {
+            const response = await client.listPluggableDatabases({ compartmentId, databaseId: db.id, page: pdbPage });
+            pluggableDatabases.push(...(response.items || [])
+              .filter((pdb) => pdb.lifecycleState !== database.models.PluggableDatabaseSummary.LifecycleState.Terminated)
+              .map((pdb) => mapPluggableDatabaseResource(pdb, publicIp)));
+            pdbPage = response.opcNextPage;
+            if (!pdbPage) {
+              break;
+            }
+          }
+          return {
+            id: db.id,
+            name: db.dbName || db.id,
+            dbUniqueName: db.dbUniqueName || undefined,
+            lifecycleState: (db.lifecycleState as string) || "UNKNOWN",
+            isCdb,
+            pluggableDatabases: pluggableDatabases.sort(compareNamedOciResources),
+          };
+        })),
+      };
+    }));
+  }
+
+  public async createPluggableDatabase(request: CreatePluggableDatabaseRequest): Promise<PluggableDatabaseOperationResponse> {
+    const client = await this.factory.createDatabaseClientAsync(request.region);
+    const region = String(client.regionId || request.region || "").trim();
+    const response = await client.createPluggableDatabase({
+      createPluggableDatabaseDetails: {
+        containerDatabaseId: request.containerDatabaseId,
+        pdbName: request.pdbName,
+        pdbAdminPassword: request.pdbAdminPassword,
+        tdeWalletPassword: request.tdeWalletPassword,
+      },
+    });
+    return this.trackPluggableDatabaseOperation("createPluggableDatabase", response.pluggableDatabase, response.opcWorkRequestId, region);
+  }
+
+  /** Clone a pluggable database into its own container database. The source stays open meanwhile. */
+  public async clonePluggableDatabase(request: ClonePluggableDatabaseRequest): Promise<PluggableDatabaseOperationResponse> {
+    const client = await this.factory.createDatabaseClientAsync(request.region);
+    const region = String(client.regionId || request.region || "").trim();
+    const { pluggableDatabase: source } = await client.getPluggableDatabase({
+      pluggableDatabaseId: request.sourcePluggableDatabaseId,
+    });
+    const creationTypeDetails: database.models.CreatePluggableDatabaseFromLocalCloneDetails = {
+      creationType: database.models.CreatePluggableDatabaseFromLocalCloneDetails.creationType,
+      sourcePluggableDatabaseId: source.id,
+    };
+    const response = await client.createPluggableDatabase({
+      createPluggableDatabaseDetails: {
+        containerDatabaseId: source.containerDatabaseId,
+        pdbName: request.pdbName,
+        pdbAdminPassword: request.pdbAdminPassword,
+        tdeWalletPassword: request.tdeWalletPassword,
+        pdbCreationTypeDetails: creationTypeDetails,
+      },
+    });
+    return this.trackPluggableDatabaseOperation(
+      "clonePluggableDatabase",
+      response.pluggableDatabase,
+      response.opcWorkRequestId,
+      region,
+      source.id
+    );
+  }
+
+  /** START opens the pluggable database read-write on every node, STOP closes it. */
+  public async runPluggableDatabaseAction(request: PluggableDatabaseActionRequest): Promise<PluggableDatabaseOperationResponse> {
+    const client = await this.factory.createDatabaseClientAsync(request.region);
+    const region = String(client.regionId || request.region || "").trim();
+    const pluggableDatabaseId = request.pluggableDatabaseId;
+    const response = request.action === "START"
+      ? await client.startPluggableDatabase({ pluggableDatabaseId })
+      : await client.stopPluggableDatabase({ pluggableDatabaseId });
+    return this.trackPluggableDatabaseOperation(
+      request.action === "START" ? "startPluggableDatabase" : "stopPluggableDatabase",
+      response.pluggableDatabase,
+      response.opcWorkRequestId,
+      region,
+      undefined,
+      request.pdbName
+    );
+  }
+
+  public async deletePluggableDatabase(request: DeletePluggableDatabaseRequest): Promise<PluggableDatabaseOperationResponse> {
+    const client = await this.factory.createDatabaseClientAsync(request.region);
+    const region = String(client.regionId || request.region || "").trim();
+    const pluggableDatabaseId = request.pluggableDatabaseId;
+    // The delete response carries no resource, so read the name and compartment first.
+    const { pluggableDatabase } = await client.getPluggableDatabase({ pluggableDatabaseId });
+    const response = await client.deletePluggableDatabase({ pluggableDatabaseId });
+    return this.trackPluggableDatabaseOperation(
+      "deletePluggableDatabase",
+      { ...pluggableDatabase, lifecycleState: database.models.PluggableDatabase.LifecycleState.Terminating },
+      response.opcWorkRequestId,
+      region,
+      undefined,
+      request.pdbName
+    );
+  }
+
+  private trackPluggableDatabaseOperation(
+    kind: "createPluggableDatabase" | "clonePluggableDatabase" | "startPluggableDatabase" | "stopPluggableDatabase" | "deletePluggableDatabase",
+    pluggableDatabase: database.models.PluggableDatabase,
+    opcWorkRequestId: string | undefined,
+    region: string,
+    parentResourceId?: string,
+    pdbName?: string
+  ): PluggableDatabaseOperationResponse {
+    const pluggableDatabaseId = pluggableDatabase.id;
+    const workRequestId = firstWorkRequestId(opcWorkRequestId);
+    const target: PluggableDatabaseTarget = kind === "deletePluggableDatabase"
+      ? "deleted"
+      : kind === "stopPluggableDatabase" ? "closed" : "open";
+
+    const operation = this.workRequestTracker.track(
+      {
+        kind,
+        feature: "dbSystem",
+        resourceId: pluggableDatabaseId,
+        resourceName: pdbName || pluggableDatabase.pdbName || pluggableDatabaseId,
+        // The container database, so views can find the operations of the PDBs they list.
+        parentResourceId: parentResourceId || pluggableDatabase.containerDatabaseId,
+        compartmentId: pluggableDatabase.compartmentId,
+        region,
+        workRequestId,
+        resourceLifecycleState: (pluggableDatabase.lifecycleState as string) || "UPDATING",
+      },
+      () => this.getPluggableDatabaseProgress(pluggableDatabaseId, target, workRequestId, region)
+    );
+    return { operationId: operation.id };
+  }
+
+  /**
+   * A pluggable database is done once it is AVAILABLE in the open mode the operation asked for,
+   * or gone for a delete. With a work request it must also have succeeded, since start and stop
+   * are accepted before the open mode changes.
+   */
+  private async getPluggableDatabaseProgress(
+    pluggableDatabaseId: string,
+    target: PluggableDatabaseTarget,
+    workRequestId: string | undefined,
+    region: string
+  ): Promise<WorkRequestProgress> {
+    const client = await this.factory.createDatabaseClientAsync(region);
+    let pluggableDatabase: database.models.PluggableDatabase | undefined;
+    try {
+      ({ pluggableDatabase } = await client.getPluggableDatabase({ pluggableDatabaseId }));
+    } catch (error) {
+      if (target !== "deleted" || (error as { statusCode?: number })?.statusCode !== 404) {
+        throw error;
+      }
+    }
+    const LifecycleState = database.models.PluggableDatabase.LifecycleState;
+    const resourceLifecycleState = (pluggableDatabase?.lifecycleState as string) || LifecycleState.Terminated;
+    const progress: WorkRequestProgress = { status: "IN_PROGRESS", resourceLifecycleState };
+
+    await this.applyWorkRequestStatus(progress, workRequestId, region);
+    if (progress.status === "FAILED") {
+      return progress;
+    }
+    if (target === "deleted") {
+      if (resourceLifecycleState === LifecycleState.Terminated) {
+        progress.status = "SUCCEEDED";
+        progress.percentComplete = 100;
+      }
+      return progress;
+    }
+
+    const expectedOpenMode = target === "open"
+      ? database.models.PluggableDatabase.OpenMode.ReadWrite
+      : database.models.PluggableDatabase.OpenMode.Mounted;
+    if (
+      resourceLifecycleState === LifecycleState.Available
+      && pluggableDatabase?.openMode === expectedOpenMode
+      && (!workRequestId || progress.workRequestStatus === "SUCCEEDED")
+    ) {
+      progress.status = "SUCCEEDED";
+      progress.percentComplete = 100;
+    } else if (PDB_FAILED_STATES.has(resourceLifecycleState)) {
+      progress.status = "FAILED";
+      progress.errorMessage = pluggableDatabase?.lifecycleDetails
+        || `Pluggable database is ${resourceLifecycleState.toLowerCase()}.`;
+    }
+    return progress;
+  }
+
+  public async listVcns(refresh = false): Promise<RegionListing<VcnResource>> {
     const cfg = vscode.workspace.getConfiguration("ociAi");
     const compartmentIds = normalizeCompartmentIds(cfg.get<string[]>("vcnCompartmentIds") || []);
     if (compartmentIds.length === 0) {
-      return [];
+      return { items: [], regionErrors: [] };
     }
-    const regions = this.getActiveProfileRegions();
-
-    const vcns: VcnResource[] = [];
+    const regions = this.getFeatureRegions("vcn");
 
-    for (const region of regions) {
+    return this.listAcrossRegions(regions, async (region) => {
+      const vcns: VcnResource[] = [];
       const client = await this.factory.createVirtualNetworkClientAsync(region);
       for (const compartmentId of compartmentIds) {
-        let page: string | undefined;
-        do {
-          const result = await client.listVcns({ compartmentId, page });
-          vcns.push(
-            ...(result.items || []).map((vcn) => ({
-              id: vcn.id || "",
-              name: vcn.displayName || vcn.id || "Unnamed VCN",
-              lifecycleState: (vcn.lifecycleState as string) || "UNKNOWN",
-              // Use the resource's actual compartment whenever available.
-              // Some list calls can still return resources outside the request compartment scope.
-              compartmentId: vcn.compartmentId || compartmentId,
-              region,
-              cidrBlocks: vcn.cidrBlocks || [],
-            }))
-          );
-          page = result.opcNextPage;
-        } while (page);
+        const loadCompartment = async () => {
+          const compartmentVcns: VcnResource[] = [];
+          let page: string | undefined;
+          do {
+            const result = await client.listVcns({ compartmentId, page });
+            compartmentVcns.push(
+              ...(result.items || []).map((vcn) => ({
+                id: vcn.id || "",
+                name: vcn.displayName || vcn.id || "Unnamed VCN",
+                lifecycleState: (vcn.lifecycleState as string) || "UNKNOWN",
+                // Use the resource's actual compartment whenever available.
+                // Some list calls can still return resources outside the request compartment scope.
+                compartmentId: vcn.compartmentId || compartmentId,
+                region,
+                cidrBlocks: vcn.cidrBlocks || [],
+              }))
+            );
+            page = result.opcNextPage;
+          } while (page);
+          return compartmentVcns;
+        };
+        vcns.push(...await this.resourceCache.get(
+          { kind: "vcn", region, scope: compartmentId },
+          loadCompartment,
+          { refresh, cacheable: isSettledListing }
+        ));
       }
-    }
-
-    return vcns;
+      return vcns;
+    });
   }
 
   public async listSecurityLists(vcnId: string, region?: string): Promise<SecurityListResource[]> {
@@ -440,14 +2024,15 @@ export class OciService {
     await client.deleteSecurityList({ securityListId });
   }
 
-  public async listObjectStorageBuckets(): Promise<ObjectStorageBucketResource[]> {
+  public async listObjectStorageBuckets(refresh = false): Promise<RegionListing<ObjectStorageBucketResource>> {
     const cfg = vscode.workspace.getConfiguration("ociAi");
     const compartmentIds = normalizeCompartmentIds(cfg.get<string[]>("objectStorageCompartmentIds") || []);
     if (compartmentIds.length === 0) {
-      return [];
+      return { items: [], regionErrors: [] };
     }
-    return this.listObjectStorageBucketsForCompartments(compartmentIds, this.getActiveProfileRegions(), {
+    return this.listObjectStorageBucketsForCompartments(compartmentIds, this.getFeatureRegions("objectStorage"), {
       exactStats: true,
+      cache: { refresh },
     });
   }
 
@@ -457,10 +2042,11 @@ export class OciService {
     if (compartmentIds.length === 0) {
       return [];
     }
-    return this.listObjectStorageBucketsForCompartments(compartmentIds, [OCI_SPEECH_REGION], {
+    const { items } = await this.listObjectStorageBucketsForCompartments(compartmentIds, [OCI_SPEECH_REGION], {
       exactStats: false,
       includeBucketDetails: false,
     });
+    return items;
   }
 
   public async listObjectStorageObjects(
@@ -545,6 +2131,8 @@ export class OciService {
       },
       bodyContent: Readable.from(Buffer.from(content)),
     });
+    // Bucket listings carry exact object counts and sizes.
+    this.invalidateResources("objectStorage", region);
   }
 
   public async downloadObjectStorageObject(
@@ -631,6 +2219,7 @@ export class OciService {
         "{objectName}": objectName,
       },
     });
+    this.invalidateResources("objectStorage", region);
   }
 
   public async createObjectStoragePreauthenticatedRequest(
@@ -666,7 +2255,7 @@ export class OciService {
     return {
       accessType: readOptionalString(payload.accessType) || "ObjectRead",
       accessUri,
-      fullUrl: accessUri ? `https://objectstorage.${resolvedRegion}.oraclecloud.com${accessUri}` : "",
+      fullUrl: accessUri ? `${this.factory.getObjectStorageEndpoint(resolvedRegion)}${accessUri}` : "",
       objectName,
       timeExpires: readOptionalString(payload.timeExpires) || timeExpires,
     };
@@ -870,90 +2459,129 @@ export class OciService {
     options?: {
       exactStats?: boolean;
       includeBucketDetails?: boolean;
+      /** Serve each region and compartment from the resource cache */
+      cache?: { refresh: boolean };
     },
-  ): Promise<ObjectStorageBucketResource[]> {
+  ): Promise<RegionListing<ObjectStorageBucketResource>> {
     const exactStats = options?.exactStats !== false;
     const includeBucketDetails = options?.includeBucketDetails !== false;
-    const buckets: ObjectStorageBucketResource[] = [];
-    for (const region of regions) {
+    const listing = await this.listAcrossRegions(regions, async (region) => {
+      const buckets: ObjectStorageBucketResource[] = [];
       const resolvedRegion = await this.resolveRegionId(region);
       const namespaceName = await this.getObjectStorageNamespace(resolvedRegion);
       for (const compartmentId of compartmentIds) {
-        let page: string | undefined;
-        do {
-          const response = await this.sendObjectStorageRequest({
-            method: "GET",
-            region: resolvedRegion,
-            path: "/n/{namespaceName}/b/",
-            pathParams: { "{namespaceName}": namespaceName },
-            queryParams: {
-              compartmentId,
-              limit: 1000,
-              page,
-            },
-          });
-          const items = await response.json() as Array<Record<string, unknown>>;
-          const detailedBuckets = await Promise.all(
-            items.map(async (bucket): Promise<ObjectStorageBucketResource | null> => {
-              const name = String(bucket.name ?? "").trim();
-              if (!name) {
-                return null;
-              }
-              const approximateCountFromList = readOptionalNumber(bucket.approximateCount);
-              const approximateSizeFromList = readOptionalNumber(bucket.approximateSize);
-              const needsApproximateFields = !exactStats && (
-                approximateCountFromList === undefined
-                || approximateSizeFromList === undefined
-              );
-              const details = includeBucketDetails || needsApproximateFields
-                ? await this.getObjectStorageBucketDetails(namespaceName, name, resolvedRegion)
-                : undefined;
-              const stats = exactStats
-                ? await this.getObjectStorageBucketExactStats(namespaceName, name, resolvedRegion)
-                : {
-                  approximateCount: approximateCountFromList ?? readOptionalNumber(details?.approximateCount) ?? 0,
-                  approximateSize: approximateSizeFromList ?? readOptionalNumber(details?.approximateSize) ?? 0,
-                };
-              return {
-                name,
+        const loadCompartment = async () => {
+          const compartmentBuckets: ObjectStorageBucketResource[] = [];
+          let page: string | undefined;
+          do {
+            const response = await this.sendObjectStorageRequest({
+              method: "GET",
+              region: resolvedRegion,
+              path: "/n/{namespaceName}/b/",
+              pathParams: { "{namespaceName}": namespaceName },
+              queryParams: {
                 compartmentId,
-                namespaceName,
-                region: resolvedRegion,
-                storageTier: readOptionalString(details?.storageTier ?? bucket.storageTier),
-                publicAccessType: readOptionalString(details?.publicAccessType ?? bucket.publicAccessType),
-                approximateCount: stats.approximateCount,
-                approximateSize: stats.approximateSize,
-                createdAt: readOptionalString(details?.timeCreated ?? bucket.timeCreated),
-              } satisfies ObjectStorageBucketResource;
-            }),
-          );
-          buckets.push(...detailedBuckets.filter((bucket): bucket is ObjectStorageBucketResource => bucket !== null));
-          page = response.headers.get("opc-next-page") || undefined;
-        } while (page);
+                limit: 1000,
+                page,
+              },
+            });
+            const items = await response.json() as Array<Record<string, unknown>>;
+            const detailedBuckets = await Promise.all(
+              items.map(async (bucket): Promise<ObjectStorageBucketResource | null> => {
+                const name = String(bucket.name ?? "").trim();
+                if (!name) {
+                  return null;
+                }
+                const approximateCountFromList = readOptionalNumber(bucket.approximateCount);
+                const approximateSizeFromList = readOptionalNumber(bucket.approximateSize);
+                const needsApproximateFields = !exactStats && (
+                  approximateCountFromList === undefined
+                  || approximateSizeFromList === undefined
+                );
+                const details = includeBucketDetails || needsApproximateFields
+                  ? await this.getObjectStorageBucketDetails(namespaceName, name, resolvedRegion)
+                  : undefined;
+                const stats = exactStats
+                  ? await this.getObjectStorageBucketExactStats(namespaceName, name, resolvedRegion)
+                  : {
+                    approximateCount: approximateCountFromList ?? readOptionalNumber(details?.approximateCount) ?? 0,
+                    approximateSize: approximateSizeFromList ?? readOptionalNumber(details?.approximateSize) ?? 0,
+                  };
+                return {
+                  name,
+                  compartmentId,
+                  namespaceName,
+                  region: resolvedRegion,
+                  storageTier: readOptionalString(details?.storageTier ?? bucket.storageTier),
+                  publicAccessType: readOptionalString(details?.publicAccessType ?? bucket.publicAccessType),
+                  approximateCount: stats.approximateCount,
+                  approximateSize: stats.approximateSize,
+                  createdAt: readOptionalString(details?.timeCreated ?? bucket.timeCreated),
+                } satisfies ObjectStorageBucketResource;
+              }),
+            );
+            compartmentBuckets.push(...detailedBuckets.filter((bucket): bucket is ObjectStorageBucketResource => bucket !== null));
+            page = response.headers.get("opc-next-page") || undefined;
+          } while (page);
+          return compartmentBuckets;
+        };
+        buckets.push(...options?.cache
+          ? await this.resourceCache.get(
+            { kind: "objectStorage", region: resolvedRegion, scope: compartmentId },
+            loadCompartment,
+            { refresh: options.cache.refresh }
+          )
+          : await loadCompartment());
       }
-    }
+      return buckets;
+    });
 
-    return buckets.sort((a, b) =>
+    listing.items.sort((a, b) =>
       a.compartmentId.localeCompare(b.compartmentId)
       || a.region.localeCompare(b.region)
       || a.name.localeCompare(b.name),
     );
+    return listing;
   }
 
   private async populateInstanceNetworkAddresses(
     instance: ComputeResource,
     compartmentId: string | undefined,
     computeClient: Awaited<ReturnType<OciClientFactory["createComputeClientAsync"]>>,
-    virtualNetworkClient: Awaited<ReturnType<OciClientFactory["createVirtualNetworkClientAsync"]>>
+    virtualNetworkClient: Awaited<ReturnType<OciClientFactory["createVirtualNetworkClientAsync"]>>,
+    refresh = false
   ): Promise<void> {
     if (!instance.id || !compartmentId) {
       return;
     }
 
+    // VNIC and subnet lookups are two calls per instance; they only change when the instance does.
+    const addresses = await this.resourceCache.get(
+      { kind: "computeNetwork", region: instance.region ?? "", scope: instance.id },
+      () => this.lookupInstanceNetworkAddresses(instance.id, compartmentId, computeClient, virtualNetworkClient),
+      { refresh, cacheable: (value) => value !== undefined }
+    );
+    if (!addresses) {
+      return;
+    }
+    instance.publicIp = addresses.publicIp;
+    instance.privateIp = addresses.privateIp;
+    instance.subnetId = addresses.subnetId;
+    if (addresses.vcnId !== undefined) {
+      instance.vcnId = addresses.vcnId;
+    }
+  }
+
+  private async lookupInstanceNetworkAddresses(
+    instanceId: string,
+    compartmentId: string,
+    computeClient: Awaited<ReturnType<OciClientFactory["createComputeClientAsync"]>>,
+    virtualNetworkClient: Awaited<ReturnType<OciClientFactory["createVirtualNetworkClientAsync"]>>
+  ): Promise<{ publicIp: string; privateIp: string; subnetId: string; vcnId?: string } | undefined> {
     try {
-      const candidates = await this.listAllVnicAttachments(computeClient, compartmentId, instance.id);
+      const candidates = await this.listAllVnicAttachments(computeClient, compartmentId, instanceId);
       if (candidates.length === 0) {
-        return;
+        return undefined;
       }
 
       let vnic: Awaited<ReturnType<typeof virtualNetworkClient.getVnic>>["vnic"] | undefined;
@@ -971,22 +2599,26 @@ export class OciService {
         }
       }
       if (!vnic) {
-        return;
+        return undefined;
       }
 
-      instance.publicIp = vnic.publicIp || "";
-      instance.privateIp = vnic.privateIp || "";
-      instance.subnetId = vnic.subnetId || "";
+      const addresses: { publicIp: string; privateIp: string; subnetId: string; vcnId?: string } = {
+        publicIp: vnic.publicIp || "",
+        privateIp: vnic.privateIp || "",
+        subnetId: vnic.subnetId || "",
+      };
       if (vnic.subnetId) {
         try {
           const subnet = (await virtualNetworkClient.getSubnet({ subnetId: vnic.subnetId })).subnet;
-          instance.vcnId = subnet.vcnId || "";
+          addresses.vcnId = subnet.vcnId || "";
         } catch {
           // Keep compute inventory usable even if subnet lookup fails.
         }
       }
+      return addresses;
     } catch {
       // Best-effort enrichment: if address lookup fails, keep listing instances without IPs.
+      return undefined;
     }
   }
 
@@ -1145,11 +2777,9 @@ export class OciService {
       throw new Error("OCI region is required for Object Storage requests.");
     }
 
-    const authenticationDetailsProvider = await this.factory.createAuthenticationProviderAsync();
-    const signer = new common.DefaultRequestSigner(authenticationDetailsProvider);
-    const httpClient = new common.FetchHttpClient(signer);
+    const httpClient = await this.factory.createHttpClientAsync();
     const request = await common.composeRequest({
-      baseEndpoint: `https://objectstorage.${resolvedRegion}.oraclecloud.com`,
+      baseEndpoint: this.factory.getObjectStorageEndpoint(resolvedRegion),
       path: params.path,
       method: params.method,
       defaultHeaders: params.headerParams?.accept ? {} : { accept: "application/json" },
@@ -1235,15 +2865,15 @@ export class OciService {
     return String(client.regionId || regionOverride || "").trim();
   }
 
-  public async listBastions(): Promise<BastionResource[]> {
+  public async listBastions(): Promise<RegionListing<BastionResource>> {
     const cfg = vscode.workspace.getConfiguration("ociAi");
     const compartmentIds = [...new Set(normalizeCompartmentIds(cfg.get<string[]>("bastionCompartmentIds") || []))];
     if (compartmentIds.length === 0) {
-      return [];
+      return { items: [], regionErrors: [] };
     }
-    const regions = [...new Set(this.getActiveProfileRegions())];
+    const regions = this.getFeatureRegions("bastion");
 
-    const regionTasks = regions.map(async (region) => {
+    const listing = await this.listAcrossRegions(regions, async (region) => {
       const client = await this.factory.createBastionClientAsync(region);
       const compartmentTasks = compartmentIds.map(async (compartmentId) => {
         const regionCompartmentBastions: BastionResource[] = [];
@@ -1278,8 +2908,8 @@ export class OciService {
       return (await Promise.all(compartmentTasks)).flat();
     });
 
-    const bastions = (await Promise.all(regionTasks)).flat();
-    return bastions.sort(compareNamedOciResources);
+    listing.items.sort(compareNamedOciResources);
+    return listing;
   }
 
   public async listBastionSessions(bastionId: string, region?: string): Promise<BastionSessionResource[]> {
@@ -1340,53 +2970,279 @@ export class OciService {
     await client.deleteSession({ sessionId });
   }
 
+  /**
+   * An ACTIVE session on one of the configured bastions that reaches the instance, either as its
+   * managed SSH target or by port forwarding to its private IP. Undefined when there is none.
+   */
+  public async findActiveBastionSessionForTarget(target: {
+    instanceId: string;
+    privateIp?: string;
+    region?: string;
+  }): Promise<{ bastion: BastionResource; session: BastionSessionResource } | undefined> {
+    const bastions = (await this.listBastions()).items.filter(
+      (bastion) => bastion.lifecycleState === "ACTIVE" && (!target.region || bastion.region === target.region)
+    );
+    for (const bastion of bastions) {
+      const sessions = await this.listBastionSessions(bastion.id, bastion.region);
+      const session = sessions.find((candidate) => {
+        const details = candidate.targetResourceDetails ?? {};
+        return candidate.lifecycleState === "ACTIVE" && (
+          details.targetResourceId === target.instanceId ||
+          (Boolean(target.privateIp) && details.targetResourcePrivateIpAddress === target.privateIp)
+        );
+      });
+      if (session) {
+        return { bastion, session };
+      }
+    }
+    return undefined;
+  }
+
+  /** Drop cached listings of one kind after an action changed them; no region means the default one, so drop them all. */
+  /**
+   * Lists every region side by side. A region that fails (not subscribed, no policy there, an outage)
+   * is reported in regionErrors and the others are still returned; only a failure in every region throws.
+   */
+  private async listAcrossRegions<T>(
+    regions: string[],
+    listRegion: (region: string) => Promise<T[]>
+  ): Promise<RegionListing<T>> {
+    const results = await Promise.allSettled(regions.map((region) => listRegion(region)));
+    const items: T[] = [];
+    const regionErrors: RegionListingError[] = [];
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        items.push(...result.value);
+      } else {
+        const reason = result.reason;
+        regionErrors.push({ region: regions[index], message: reason instanceof Error ? reason.message : String(reason) });
+      }
+    });
+    if (regions.length > 0 && regionErrors.length === regions.length) {
+      if (regions.length === 1) {
+        throw (results[0] as PromiseRejectedResult).reason;
+      }
+      throw new Error(regionErrors.map((error) => `${error.region}: ${error.message}`).join("\n"));
+    }
+    return { items, regionErrors };
+  }
+
+  private invalidateResources(kind: ResourceCacheKind, region?: string): void {
+    this.resourceCache.invalidate(region ? { kind, region } : { kind });
+  }
+
   private async collectComputeInstances(
     compartmentIds: string[],
     regions: string[],
-    options?: { lifecycleStates?: Set<string> }
-  ): Promise<ComputeResource[]> {
-    const instances: ComputeResource[] = [];
+    options?: {
+      lifecycleStates?: Set<string>;
+      /** Serve each region and compartment from the resource cache */
+      cache?: { refresh: boolean };
+    }
+  ): Promise<RegionListing<ComputeResource>> {
     const lifecycleStates = options?.lifecycleStates ?? new Set<string>();
+    const refresh = options?.cache?.refresh ?? false;
     const requestedLifecycleState = lifecycleStates.size === 1 ? [...lifecycleStates][0] : undefined;
 
-    for (const region of regions) {
+    return this.listAcrossRegions(regions, async (region) => {
+      const instances: ComputeResource[] = [];
       const computeClient = await this.factory.createComputeClientAsync(region);
       const virtualNetworkClient = await this.factory.createVirtualNetworkClientAsync(region);
       for (const compartmentId of compartmentIds) {
-        let page: string | undefined;
-        do {
-          const result = await computeClient.listInstances({ compartmentId, page, lifecycleState: requestedLifecycleState });
-          const regionInstances = (result.items || [])
-            .map((instance) => ({
-              id: instance.id || "",
-              name: instance.displayName || instance.id || "Unnamed Instance",
-              lifecycleState: (instance.lifecycleState as string) || "UNKNOWN",
-              compartmentId,
-              region,
-            }))
-            .filter((instance) => {
-              if (lifecycleStates.size === 0) {
-                return true;
-              }
-              return lifecycleStates.has(String(instance.lifecycleState ?? "").trim().toUpperCase());
-            });
-          instances.push(...regionInstances);
-          await Promise.all(
-            regionInstances.map((instance) =>
-              this.populateInstanceNetworkAddresses(instance, compartmentId, computeClient, virtualNetworkClient)
-            )
-          );
-          page = result.opcNextPage;
-        } while (page);
+        const loadCompartment = async () => {
+          const compartmentInstances: ComputeResource[] = [];
+          let page: string | undefined;
+          do {
+            const result = await computeClient.listInstances({ compartmentId, page, lifecycleState: requestedLifecycleState });
+            const regionInstances = (result.items || [])
+              .map((instance) => ({
+                id: instance.id || "",
+                name: instance.displayName || instance.id || "Unnamed Instance",
+                lifecycleState: (instance.lifecycleState as string) || "UNKNOWN",
+                compartmentId,
+                region,
+                shape: instance.shape,
+                ocpus: instance.shapeConfig?.ocpus,
+                memoryInGBs: instance.shapeConfig?.memoryInGBs,
+              }))
+              .filter((instance) => {
+                if (lifecycleStates.size === 0) {
+                  return true;
+                }
+                return lifecycleStates.has(String(instance.lifecycleState ?? "").trim().toUpperCase());
+              });
+            compartmentInstances.push(...regionInstances);
+            await Promise.all(
+              regionInstances.map((instance) =>
+                this.populateInstanceNetworkAddresses(instance, compartmentId, computeClient, virtualNetworkClient, refresh)
+              )
+            );
+            page = result.opcNextPage;
+          } while (page);
+          return compartmentInstances;
+        };
+        instances.push(...options?.cache
+          ? await this.resourceCache.get(
+            { kind: "compute", region, scope: compartmentId },
+            loadCompartment,
+            { refresh, cacheable: isSettledListing }
+          )
+          : await loadCompartment());
       }
-    }
+      return instances;
+    });
+  }
 
-    return instances;
+  /** Tenancy of the active profile, including the principal's tenancy in principal auth modes. */
+  public async getTenancyOcid(): Promise<string | undefined> {
+    return this.factory.getTenancyOcidAsync();
+  }
+
+  /**
+   * All active compartments under the tenancy, in one subtree listing. Paths are built from the
+   * parent links so callers can show and search the hierarchy by name. A parent the user cannot
+   * list shows as "…", since neither its name nor its own ancestors are known.
+   */
+  public async listCompartmentTree(tenancyOcid: string): Promise<CompartmentResource[]> {
+    const client = await this.factory.createIdentityClientAsync(this.getActiveProfileRegions()[0]);
+    const items: { id: string; name: string; description?: string; parentId: string; lifecycleState: string }[] = [];
+    let page: string | undefined;
+    do {
+      const result = await client.listCompartments({
+        compartmentId: tenancyOcid,
+        compartmentIdInSubtree: true,
+        accessLevel: identity.requests.ListCompartmentsRequest.AccessLevel.Accessible,
+        lifecycleState: identity.models.Compartment.LifecycleState.Active,
+        page,
+      });
+      items.push(
+        ...(result.items || []).map((compartment) => ({
+          id: compartment.id,
+          name: compartment.name || compartment.id,
+          description: compartment.description || undefined,
+          parentId: compartment.compartmentId || tenancyOcid,
+          lifecycleState: (compartment.lifecycleState as string) || "UNKNOWN",
+        }))
+      );
+      page = result.opcNextPage;
+    } while (page);
+
+    const byId = new Map(items.map((item) => [item.id, item]));
+    const paths = new Map<string, string>();
+    const resolvePath = (id: string, seen: Set<string>): string => {
+      const cached = paths.get(id);
+      if (cached !== undefined) {
+        return cached;
+      }
+      if (id === tenancyOcid) {
+        return "";
+      }
+      const item = byId.get(id);
+      if (!item) {
+        return HIDDEN_COMPARTMENT_SEGMENT;
+      }
+      if (seen.has(id)) {
+        return "";
+      }
+      seen.add(id);
+      const parentPath = resolvePath(item.parentId, seen);
+      const path = parentPath ? `${parentPath} / ${item.name}` : item.name;
+      paths.set(id, path);
+      return path;
+    };
+
+    return items
+      .map((item) => ({ ...item, path: resolvePath(item.id, new Set()) }))
+      .sort((left, right) => left.path.localeCompare(right.path, undefined, { numeric: true, sensitivity: "base" }));
   }
 
   private getActiveProfileRegions(): string[] {
     return splitRegions(this.factory.getRegion() ?? "");
   }
+
+  /** Regions selected for a feature's inventory, falling back to the profile's region(s). */
+  private getFeatureRegions(feature: RegionFeatureKey): string[] {
+    const raw = this.factory.getFeatureRegionMap();
+    const selected = Array.isArray(raw?.[feature])
+      ? raw[feature].map((region) => String(region ?? "").trim()).filter((region) => region.length > 0)
+      : [];
+    return selected.length > 0 ? [...new Set(selected)] : [...new Set(this.getActiveProfileRegions())];
+  }
+
+  /** Regions the tenancy is subscribed to, home region first. */
+  public async listRegionSubscriptions(tenancyOcid: string): Promise<RegionSubscription[]> {
+    const client = await this.factory.createIdentityClientAsync(this.getActiveProfileRegions()[0]);
+    const response = await client.listRegionSubscriptions({ tenancyId: tenancyOcid });
+    return response.items
+      .map((item) => ({
+        regionName: item.regionName,
+        regionKey: item.regionKey,
+        isHomeRegion: Boolean(item.isHomeRegion),
+        status: (item.status as string) || "UNKNOWN",
+      }))
+      .sort((left, right) => Number(right.isHomeRegion) - Number(left.isHomeRegion) || left.regionName.localeCompare(right.regionName));
+  }
+
+  /** Home region of the tenancy. Identity writes such as API key uploads must be sent there. */
+  public async getHomeRegion(tenancyOcid: string): Promise<string> {
+    const home = (await this.listRegionSubscriptions(tenancyOcid)).find((item) => item.isHomeRegion);
+    if (!home?.regionName) {
+      throw new Error("Could not determine the tenancy home region.");
+    }
+    return home.regionName;
+  }
+
+  /** Generate a key pair locally and upload its public half to the user with the active credentials. */
+  public async uploadNewApiKey(userId: string, homeRegion: string): Promise<GeneratedApiKeyPair> {
+    const pair = generateApiKeyPair();
+    const client = await this.factory.createIdentityClientAsync(homeRegion);
+    const response = await client.uploadApiKey({
+      userId,
+      createApiKeyDetails: { key: pair.publicKey },
+    });
+    const uploadedFingerprint = String(response.apiKey.fingerprint ?? "").trim();
+    if (uploadedFingerprint && uploadedFingerprint !== pair.fingerprint) {
+      throw new Error(`Uploaded key fingerprint ${uploadedFingerprint} does not match the generated key ${pair.fingerprint}.`);
+    }
+    return pair;
+  }
+
+  /**
+   * Poll Identity with the new key until it authenticates. New keys can take a short while
+   * to propagate, so a single failed call is not treated as a bad key.
+   */
+  public async waitForApiKey(
+    credentials: { tenancyOcid: string; userId: string; fingerprint: string; privateKey: string },
+    region: string,
+  ): Promise<void> {
+    const provider = new common.SimpleAuthenticationDetailsProvider(
+      credentials.tenancyOcid,
+      credentials.userId,
+      credentials.fingerprint,
+      credentials.privateKey,
+      null,
+    );
+    const client = await this.factory.createIdentityClientAsync(region, provider);
+    const deadline = Date.now() + API_KEY_VERIFY_TIMEOUT_MS;
+    let lastError: unknown;
+    while (Date.now() < deadline) {
+      try {
+        await client.getUser({ userId: credentials.userId });
+        return;
+      } catch (error) {
+        lastError = error;
+        await new Promise((resolve) => setTimeout(resolve, API_KEY_VERIFY_INTERVAL_MS));
+      }
+    }
+    throw new Error(
+      `New API key ${credentials.fingerprint} was not accepted within ${API_KEY_VERIFY_TIMEOUT_MS / 1000}s: ${lastError instanceof Error ? lastError.message : String(lastError)}`
+    );
+  }
+
+  public async deleteApiKey(userId: string, fingerprint: string, homeRegion: string): Promise<void> {
+    const client = await this.factory.createIdentityClientAsync(homeRegion);
+    await client.deleteApiKey({ userId, fingerprint });
+  }
 }
 
 const NODE_TRANSITIONAL_STATES = new Set([
@@ -1394,6 +3250,41 @@ const NODE_TRANSITIONAL_STATES = new Set([
   "UPDATING", "MIGRATING",
 ]);
 
+const WORK_REQUEST_FAILED_STATES = new Set(["FAILED", "CANCELING", "CANCELED"]);
+
+/** Lifecycle states an Autonomous Database operation does not recover from on its own */
+const ADB_FAILED_STATES = new Set<string>([
+  database.models.AutonomousDatabase.LifecycleState.Terminating,
+  database.models.AutonomousDatabase.LifecycleState.Terminated,
+  database.models.AutonomousDatabase.LifecycleState.Unavailable,
+  database.models.AutonomousDatabase.LifecycleState.RestoreFailed,
+]);
+
+/** Lifecycle states a pluggable database operation does not recover from on its own */
+const PDB_FAILED_STATES = new Set<string>([
+  database.models.PluggableDatabase.LifecycleState.Failed,
+  database.models.PluggableDatabase.LifecycleState.Terminating,
+  database.models.PluggableDatabase.LifecycleState.Terminated,
+  database.models.PluggableDatabase.LifecycleState.Disabled,
+]);
+
+/** What a pluggable database operation waits for: open read-write, closed to MOUNTED, or deleted */
+type PluggableDatabaseTarget = "open" | "closed" | "deleted";
+
+/** Listings containing transitional resources are never cached, so polling views see the transition finish. */
+const CACHE_TRANSITIONAL_STATES = new Set([
+  ...NODE_TRANSITIONAL_STATES,
+  "RESTARTING", "SCALING", "MOVING", "CREATING_IMAGE",
+]);
+
+function isSettledListing(items: { lifecycleState?: string; nodeLifecycleState?: string }[]): boolean {
+  return items.every((item) =>
+    [item.lifecycleState, item.nodeLifecycleState].every((state) =>
+      !state || (!CACHE_TRANSITIONAL_STATES.has(state) && !state.endsWith("_IN_PROGRESS"))
+    )
+  );
+}
+
 function deriveNodeLifecycleState(nodes: { lifecycleState?: string }[]): string | undefined {
   if (nodes.length === 0) return undefined;
 
@@ -1565,6 +3456,13 @@ function mapBastionSessionResource(sessionLike: any, bastionId: string): Bastion
   };
 }
 
+/** Colon-separated MD5 of an OpenSSH public key's blob, the form OCI reports for console connections. */
+function fingerprintOpenSshPublicKey(publicKey: string): string {
+  const blob = publicKey.trim().split(/\s+/)[1] ?? "";
+  const digest = crypto.createHash("md5").update(Buffer.from(blob, "base64")).digest("hex");
+  return digest.match(/.{2}/g)?.join(":") ?? digest;
+}
+
 function splitRegions(raw: string): string[] {
   const regions = raw
     .split(",")
@@ -1579,6 +3477,19 @@ function normalizeCompartmentIds(compartmentIds: string[]): string[] {
     .filter((item) => item.length > 0);
 }
 
+/** Access control list or private endpoint fields of an Autonomous Database create request */
+function toAdbNetworkAccessDetails(
+  access: AdbNetworkAccess
+): Pick<database.models.CreateAutonomousDatabaseBase, "isAccessControlEnabled" | "whitelistedIps" | "subnetId"> {
+  if (access.type === "PRIVATE") {
+    return { subnetId: access.subnetId };
+  }
+  if (access.type === "RESTRICTED") {
+    return { isAccessControlEnabled: true, whitelistedIps: access.allowedIps };
+  }
+  return {};
+}
+
 function sanitizeConnectionLabel(value: string): string {
   return value.trim().replace(/[^a-zA-Z0-9_.-]+/g, "_");
 }
@@ -1634,6 +3545,31 @@ function extractServiceName(connectString: string): string {
   return suffix.trim();
 }
 
+/** Database operations may return several work request ids, comma separated; the first one tracks the operation. */
+function firstWorkRequestId(header: string | undefined): string | undefined {
+  return header?.split(",").map((id) => id.trim()).find((id) => id.length > 0);
+}
+
+function mapPluggableDatabaseResource(
+  pdb: database.models.PluggableDatabaseSummary,
+  publicIp: string
+): PluggableDatabaseResource {
+  const defaultConnectString = String(pdb.connectionStrings?.pdbDefault ?? "").trim();
+  const serviceName = extractServiceName(defaultConnectString);
+  return {
+    id: pdb.id,
+    name: pdb.pdbName || pdb.id,
+    containerDatabaseId: pdb.containerDatabaseId,
+    lifecycleState: (pdb.lifecycleState as string) || "UNKNOWN",
+    openMode: (pdb.openMode as string) || undefined,
+    lifecycleDetails: pdb.lifecycleDetails || undefined,
+    serviceName: serviceName || undefined,
+    connectionString: publicIp && serviceName
+      ? `${publicIp}:1521/${serviceName}`
+      : defaultConnectString || undefined,
+  };
+}
+
 function isSpeechSupportedObjectName(objectName: string): boolean {
   const normalized = String(objectName ?? "").trim().toLowerCase();
   if (!normalized) {
@@ -0,0 +1,326 @@
+import * as common from "oci-common";
+import * as vscode from "vscode";
+import type { ApiTraceEntry } from "../shared/services";
+
+/** One logical call (all attempts) as reported to the trace sink. */
+export type RequestTrace = Omit<ApiTraceEntry, "id">;
+
+export interface RequestPipelineOptions {
+  maxRetries: number;
+  maxConcurrencyPerService: number;
+}
+
+const DEFAULT_MAX_RETRIES = 4;
+const DEFAULT_MAX_CONCURRENCY_PER_SERVICE = 6;
+const BASE_DELAY_MS = 500;
+const MAX_BACKOFF_DELAY_MS = 20_000;
+/** Upper bound for a server-provided retry-after, so one throttled call cannot stall the UI for minutes. */
+const MAX_RETRY_AFTER_MS = 60_000;
+/** Consecutive failed requests (after retries) before the endpoint's circuit opens. */
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_OPEN_MS = 30_000;
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE", "OPTIONS"]);
+
+type CircuitState = "closed" | "open" | "half-open";
+
+interface EndpointState {
+  active: number;
+  waiters: Array<() => void>;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  openUntil: number;
+  probeInFlight: boolean;
+}
+
+/** Raised without sending anything while an endpoint's circuit is open. */
+export class CircuitOpenError extends Error {
+  /** Read by the SDK retrier; the pipeline already decided not to send. */
+  public readonly shouldBeRetried = false;
+  public readonly code = "CircuitOpen";
+
+  constructor(label: string, public readonly retryAt: Date) {
+    super(
+      `OCI ${label} is failing repeatedly; requests are paused until ${retryAt.toLocaleTimeString()}. Try again after that.`
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+export function readRequestPipelineOptions(): RequestPipelineOptions {
+  const cfg = vscode.workspace.getConfiguration("ociAi");
+  return {
+    maxRetries: clampInteger(cfg.get<number>("requestMaxRetries", DEFAULT_MAX_RETRIES), 0, 10, DEFAULT_MAX_RETRIES),
+    maxConcurrencyPerService: clampInteger(
+      cfg.get<number>("requestMaxConcurrencyPerService", DEFAULT_MAX_CONCURRENCY_PER_SERVICE),
+      1,
+      32,
+      DEFAULT_MAX_CONCURRENCY_PER_SERVICE
+    ),
+  };
+}
+
+/**
+ * Shared send path for every OCI HTTP client: per-endpoint concurrency limit, retry with
+ * exponential backoff and full jitter (honoring retry-after), and a circuit breaker that
+ * fails fast once an endpoint keeps failing. State is keyed by endpoint host, which is one
+ * service in one region.
+ */
+export class RequestPipeline {
+  private readonly endpoints = new Map<string, EndpointState>();
+
+  constructor(
+    private readonly getOptions: () => RequestPipelineOptions = readRequestPipelineOptions,
+    private readonly onTrace?: (trace: RequestTrace) => void
+  ) {}
+
+  /** Wrap an SDK HttpClient so every send goes through the pipeline. */
+  public wrap(inner: common.HttpClient): common.HttpClient {
+    return {
+      send: (req, forceExcludeBody, targetService, operationName, ...rest) =>
+        this.send(
+          req,
+          (attemptReq) => inner.send(attemptReq, forceExcludeBody, targetService, operationName, ...rest),
+          targetService,
+          operationName
+        ),
+    };
+  }
+
+  private async send(
+    req: common.HttpRequest,
+    sendOnce: (req: common.HttpRequest) => Promise<Response>,
+    targetService?: string,
+    operationName?: string
+  ): Promise<Response> {
+    const host = getHost(req.uri);
+    const label = targetService || host;
+    const state = this.getState(host);
+    const options = this.getOptions();
+    const canRetry = isReplayableBody(req.body);
+    const retryOnServerError = canRetry &&
+      (IDEMPOTENT_METHODS.has(req.method.toUpperCase()) || req.headers.has("opc-retry-token"));
+    const startedAt = new Date();
+    const finish = (attempts: number, outcome: { response?: Response; error?: unknown }) =>
+      this.trace(req, startedAt, attempts, targetService, operationName, outcome);
+
+    try {
+      this.enterCircuit(state, label);
+    } catch (error) {
+      void finish(0, { error });
+      throw error;
+    }
+    let attempt = 0;
+    while (true) {
+      await this.acquire(state, options.maxConcurrencyPerService);
+      let response: Response | undefined;
+      let networkError: unknown;
+      try {
+        if (attempt > 0) {
+          // The signer only stamps x-date when it is missing; a stale date would fail signature checks.
+          req.headers.delete("x-date");
+          req.headers.set("opc-client-retries", "true");
+        }
+        response = await sendOnce(req);
+      } catch (error) {
+        networkError = error;
+      } finally {
+        this.release(state);
+      }
+
+      const status = response?.status;
+      const retryable = response
+        ? RETRYABLE_STATUS.has(status!) && (status === 429 ? canRetry : retryOnServerError)
+        : retryOnServerError;
+
+      if (!retryable || attempt >= options.maxRetries) {
+        const failed = response ? status === 429 || status! >= 500 : true;
+        this.recordOutcome(state, !failed);
+        if (response) {
+          await finish(attempt + 1, { response });
+          return response;
+        }
+        void finish(attempt + 1, { error: networkError });
+        throw networkError;
+      }
+
+      const delayMs = response
+        ? parseRetryAfter(response.headers.get("retry-after")) ?? backoffDelay(attempt)
+        : backoffDelay(attempt);
+      if (response) {
+        // Drain the discarded body so the connection can be reused.
+        await response.arrayBuffer().catch(() => undefined);
+      }
+      attempt += 1;
+      await sleep(delayMs);
+    }
+  }
+
+  private async trace(
+    req: common.HttpRequest,
+    startedAt: Date,
+    attempts: number,
+    targetService: string | undefined,
+    operationName: string | undefined,
+    outcome: { response?: Response; error?: unknown }
+  ): Promise<void> {
+    if (!this.onTrace) {
+      return;
+    }
+    const url = parseUrl(req.uri);
+    const { response, error } = outcome;
+    const ok = Boolean(response?.ok);
+    let errorCode: string | undefined;
+    let errorMessage: string | undefined;
+    if (response && !ok) {
+      // Read a copy; the SDK still needs the original body to build its own error.
+      ({ errorCode, errorMessage } = await readErrorBody(response.clone()));
+    } else if (error !== undefined) {
+      errorCode = (error as { code?: string } | undefined)?.code;
+      errorMessage = error instanceof Error ? error.message : String(error);
+    }
+    this.onTrace({
+      timestamp: startedAt.toISOString(),
+      service: targetService || url?.hostname.split(".")[0] || "unknown",
+      operation: operationName || `${req.method} ${url?.pathname ?? req.uri}`,
+      method: req.method,
+      region: url ? getRegionFromHost(url.hostname) : "",
+      endpoint: url ? `${url.origin}${url.pathname}` : req.uri,
+      status: response?.status,
+      ok,
+      latencyMs: Date.now() - startedAt.getTime(),
+      attempts,
+      opcRequestId: response?.headers.get("opc-request-id") || req.headers.get("opc-request-id") || undefined,
+      errorCode,
+      errorMessage,
+    });
+  }
+
+  private getState(host: string): EndpointState {
+    let state = this.endpoints.get(host);
+    if (!state) {
+      state = {
+        active: 0,
+        waiters: [],
+        circuit: "closed",
+        consecutiveFailures: 0,
+        openUntil: 0,
+        probeInFlight: false,
+      };
+      this.endpoints.set(host, state);
+    }
+    return state;
+  }
+
+  private enterCircuit(state: EndpointState, label: string): void {
+    if (state.circuit === "open") {
+      if (Date.now() < state.openUntil) {
+        throw new CircuitOpenError(label, new Date(state.openUntil));
+      }
+      state.circuit = "half-open";
+    }
+    if (state.circuit === "half-open") {
+      // Let a single probe through; everyone else waits for its verdict.
+      if (state.probeInFlight) {
+        throw new CircuitOpenError(label, new Date(Date.now() + BASE_DELAY_MS));
+      }
+      state.probeInFlight = true;
+    }
+  }
+
+  private recordOutcome(state: EndpointState, succeeded: boolean): void {
+    const wasProbe = state.circuit === "half-open";
+    state.probeInFlight = false;
+    if (succeeded) {
+      state.circuit = "closed";
+      state.consecutiveFailures = 0;
+      return;
+    }
+    state.consecutiveFailures += 1;
+    if (wasProbe || state.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+      state.circuit = "open";
+      state.openUntil = Date.now() + CIRCUIT_OPEN_MS;
+    }
+  }
+
+  private async acquire(state: EndpointState, limit: number): Promise<void> {
+    while (state.active >= limit) {
+      await new Promise<void>((resolve) => state.waiters.push(resolve));
+    }
+    state.active += 1;
+  }
+
+  private release(state: EndpointState): void {
+    state.active -= 1;
+    state.waiters.shift()?.();
+  }
+}
+
+function parseUrl(uri: string): URL | undefined {
+  try {
+    return new URL(uri);
+  } catch {
+    return undefined;
+  }
+}
+
+function getHost(uri: string): string {
+  return parseUrl(uri)?.host ?? uri;
+}
+
+/** OCI endpoints carry the region id as one host label, e.g. iaas.us-ashburn-1.oraclecloud.com. */
+function getRegionFromHost(hostname: string): string {
+  return hostname.split(".").find((label) => /^[a-z]+(-[a-z]+)+-\d+$/.test(label)) ?? "";
+}
+
+async function readErrorBody(response: Response): Promise<{ errorCode?: string; errorMessage?: string }> {
+  const text = await response.text().catch(() => "");
+  try {
+    const body = JSON.parse(text) as { code?: unknown; message?: unknown };
+    return {
+      errorCode: typeof body.code === "string" ? body.code : undefined,
+      errorMessage: typeof body.message === "string" ? body.message : undefined,
+    };
+  } catch {
+    return { errorMessage: text.trim().slice(0, 500) || response.statusText || undefined };
+  }
+}
+
+/** Streams and blobs are consumed by the first attempt, so only in-memory bodies can be sent again. */
+function isReplayableBody(body: unknown): boolean {
+  return body === undefined || body === null || typeof body === "string" || body instanceof Uint8Array;
+}
+
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(MAX_BACKOFF_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/** retry-after is either delta-seconds or an HTTP date. */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  const seconds = Number(trimmed);
+  const delayMs = Number.isFinite(seconds) && trimmed !== ""
+    ? seconds * 1000
+    : Date.parse(trimmed) - Date.now();
+  if (!Number.isFinite(delayMs)) {
+    return undefined;
+  }
+  return Math.min(MAX_RETRY_AFTER_MS, Math.max(0, delayMs));
+}
+
+function clampInteger(value: unknown, min: number, max: number, fallback: number): number {
+  const n = Number(value);
+  if (!Number.isFinite(n)) {
+    return fallback;
+  }
+  return Math.min(max, Math.max(min, Math.floor(n)));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
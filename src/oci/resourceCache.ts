@@ -0,0 +1,163 @@
+import * as vscode from "vscode";
+
+export type ResourceCacheKind = "compute" | "computeNetwork" | "adb" | "dbSystem" | "vcn" | "objectStorage";
+
+export interface ResourceCacheKey {
+  kind: ResourceCacheKind;
+  region: string;
+  /** Compartment for listings, resource OCID for per-resource lookups */
+  scope: string;
+}
+
+export interface ResourceCacheGetOptions<T> {
+  /** Skip any cached value and store the fresh result */
+  refresh?: boolean;
+  /** Return false to hand the value back without caching it (e.g. while resources are transitioning) */
+  cacheable?: (value: T) => boolean;
+}
+
+const DEFAULT_TTL_SECONDS = 60;
+/** Entries older than TTL × this are too old to show while revalidating and are reloaded in the foreground. */
+const MAX_STALE_TTL_MULTIPLIER = 10;
+const REVALIDATE_NOTICE_DELAY_MS = 300;
+
+interface Entry {
+  value: unknown;
+  fetchedAt: number;
+  inflight?: Promise<unknown>;
+}
+
+/**
+ * Per-profile, per-region cache for resource listings with stale-while-revalidate: fresh entries
+ * are returned as is, expired ones are returned immediately while a background reload runs, and
+ * onDidRevalidate fires once a background reload changed something so open views can re-read.
+ * onDidInvalidate fires on every invalidate() with its filter, so listings outside the caller
+ * (e.g. the resource tree views after a webview action) know to reload.
+ */
+export class ResourceCache implements vscode.Disposable {
+  private readonly entries = new Map<string, Entry>();
+  private readonly onDidRevalidateEmitter = new vscode.EventEmitter<void>();
+  readonly onDidRevalidate = this.onDidRevalidateEmitter.event;
+  private readonly onDidInvalidateEmitter = new vscode.EventEmitter<Partial<ResourceCacheKey>>();
+  readonly onDidInvalidate = this.onDidInvalidateEmitter.event;
+  private noticeTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private readonly getProfile: () => string) {}
+
+  public async get<T>(
+    key: ResourceCacheKey,
+    loader: () => Promise<T>,
+    options: ResourceCacheGetOptions<T> = {}
+  ): Promise<T> {
+    const ttlMs = readResourceCacheTtlSeconds() * 1000;
+    const id = this.toId(key);
+    if (ttlMs <= 0) {
+      this.entries.delete(id);
+      return loader();
+    }
+
+    const entry = this.entries.get(id);
+    if (!options.refresh && entry && entry.fetchedAt > 0) {
+      const age = Date.now() - entry.fetchedAt;
+      if (age < ttlMs) {
+        return entry.value as T;
+      }
+      if (age < ttlMs * MAX_STALE_TTL_MULTIPLIER) {
+        if (!entry.inflight) {
+          void this.load(id, loader, options).then(
+            (value) => {
+              if (JSON.stringify(value) !== JSON.stringify(entry.value)) {
+                this.scheduleRevalidateNotice();
+              }
+            },
+            () => undefined
+          );
+        }
+        return entry.value as T;
+      }
+    }
+    if (!options.refresh && entry?.inflight) {
+      return entry.inflight as Promise<T>;
+    }
+    return this.load(id, loader, options);
+  }
+
+  /** Drop entries of the active profile that match every given field. */
+  public invalidate(filter: Partial<ResourceCacheKey>): void {
+    const prefix = `${this.getProfile()}|`;
+    for (const id of [...this.entries.keys()]) {
+      if (!id.startsWith(prefix)) {
+        continue;
+      }
+      const [, kind, region, scope] = id.split("|");
+      if (
+        (filter.kind === undefined || filter.kind === kind) &&
+        (filter.region === undefined || filter.region === region) &&
+        (filter.scope === undefined || filter.scope === scope)
+      ) {
+        this.entries.delete(id);
+      }
+    }
+    this.onDidInvalidateEmitter.fire(filter);
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  public dispose(): void {
+    if (this.noticeTimer) {
+      clearTimeout(this.noticeTimer);
+    }
+    this.onDidRevalidateEmitter.dispose();
+    this.onDidInvalidateEmitter.dispose();
+  }
+
+  private async load<T>(id: string, loader: () => Promise<T>, options: ResourceCacheGetOptions<T>): Promise<T> {
+    const previous = this.entries.get(id);
+    const inflight = loader();
+    this.entries.set(id, { value: previous?.value, fetchedAt: previous?.fetchedAt ?? 0, inflight });
+    try {
+      const value = await inflight;
+      // An invalidate() during the load removed the entry; do not resurrect it with pre-action data.
+      if (this.entries.get(id)?.inflight === inflight) {
+        if (options.cacheable && !options.cacheable(value)) {
+          this.entries.delete(id);
+        } else {
+          this.entries.set(id, { value, fetchedAt: Date.now() });
+        }
+      }
+      return value;
+    } catch (error) {
+      const current = this.entries.get(id);
+      if (current?.inflight === inflight) {
+        if (current.fetchedAt > 0) {
+          this.entries.set(id, { value: current.value, fetchedAt: current.fetchedAt });
+        } else {
+          this.entries.delete(id);
+        }
+      }
+      throw error;
+    }
+  }
+
+  private scheduleRevalidateNotice(): void {
+    // Several regions and compartments usually revalidate together; tell views once.
+    if (this.noticeTimer) {
+      return;
+    }
+    this.noticeTimer = setTimeout(() => {
+      this.noticeTimer = undefined;
+      this.onDidRevalidateEmitter.fire();
+    }, REVALIDATE_NOTICE_DELAY_MS);
+  }
+
+  private toId(key: ResourceCacheKey): string {
+    return [this.getProfile(), key.kind, key.region, key.scope].join("|");
+  }
+}
+
+export function readResourceCacheTtlSeconds(): number {
+  const raw = Number(vscode.workspace.getConfiguration("ociAi").get<number>("resourceCacheTtlSeconds", DEFAULT_TTL_SECONDS));
+  return Number.isFinite(raw) ? Math.max(0, Math.floor(raw)) : DEFAULT_TTL_SECONDS;
+}
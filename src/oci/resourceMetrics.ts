@@ -0,0 +1,69 @@
+import type { MetricUnit, MetricsResourceKind, MetricsWindow } from "../shared/services";
+
+export interface ResourceMetricDefinition {
+  metric: string;
+  label: string;
+  unit: MetricUnit;
+  /** MQL statistic: utilization is averaged, byte counters are turned into a per-second rate */
+  statistic: "mean" | "rate";
+}
+
+/** Metrics charted per resource kind, and the Monitoring namespace they are published in. */
+export const RESOURCE_METRICS: Record<MetricsResourceKind, { namespace: string; metrics: ResourceMetricDefinition[] }> = {
+  compute: {
+    namespace: "oci_computeagent",
+    metrics: [
+      { metric: "CpuUtilization", label: "CPU", unit: "percent", statistic: "mean" },
+      { metric: "MemoryUtilization", label: "Memory", unit: "percent", statistic: "mean" },
+      { metric: "NetworksBytesIn", label: "Network in", unit: "bytesPerSecond", statistic: "rate" },
+      { metric: "NetworksBytesOut", label: "Network out", unit: "bytesPerSecond", statistic: "rate" },
+      { metric: "DiskBytesRead", label: "Disk read", unit: "bytesPerSecond", statistic: "rate" },
+      { metric: "DiskBytesWritten", label: "Disk write", unit: "bytesPerSecond", statistic: "rate" },
+    ],
+  },
+  adb: {
+    namespace: "oci_autonomous_database",
+    metrics: [
+      { metric: "CpuUtilization", label: "CPU", unit: "percent", statistic: "mean" },
+      { metric: "StorageUtilization", label: "Storage", unit: "percent", statistic: "mean" },
+      { metric: "Sessions", label: "Sessions", unit: "count", statistic: "mean" },
+    ],
+  },
+  dbSystem: {
+    namespace: "oci_database_cluster",
+    metrics: [
+      { metric: "CpuUtilization", label: "CPU", unit: "percent", statistic: "mean" },
+      { metric: "MemoryUtilization", label: "Memory", unit: "percent", statistic: "mean" },
+      { metric: "FilesystemUtilization", label: "Filesystem", unit: "percent", statistic: "mean" },
+      { metric: "ASMDiskgroupUtilization", label: "ASM disk group", unit: "percent", statistic: "mean" },
+    ],
+  },
+};
+
+/** Query span and aggregation interval per window; intervals keep each series under a few hundred points */
+export const METRICS_WINDOWS: Record<MetricsWindow, { durationMs: number; interval: string }> = {
+  "1h": { durationMs: 60 * 60 * 1000, interval: "1m" },
+  "6h": { durationMs: 6 * 60 * 60 * 1000, interval: "5m" },
+  "24h": { durationMs: 24 * 60 * 60 * 1000, interval: "5m" },
+  "7d": { durationMs: 7 * 24 * 60 * 60 * 1000, interval: "1h" },
+};
+
+/** Dimensions that tell apart several streams of one metric, most specific first */
+const DISTINGUISHING_DIMENSIONS = ["hostName", "diskgroupName", "filesystemName", "mountPoint", "deviceName", "vnicId"];
+
+export function buildMetricQuery(definition: ResourceMetricDefinition, resourceId: string, interval: string): string {
+  return `${definition.metric}[${interval}]{resourceId = "${resourceId}"}.${definition.statistic}()`;
+}
+
+/** Label for one stream of a metric; only qualified when the metric returned more than one stream. */
+export function describeMetricStream(
+  definition: ResourceMetricDefinition,
+  dimensions: Record<string, string>,
+  streamCount: number
+): string {
+  if (streamCount <= 1) {
+    return definition.label;
+  }
+  const key = DISTINGUISHING_DIMENSIONS.find((name) => dimensions[name]);
+  return key ? `${definition.label} (${dimensions[key]})` : definition.label;
+}
@@ -0,0 +1,98 @@
+import * as vscode from "vscode";
+import type { RunCommandExecution, RunCommandRun, RunCommandStatus } from "../shared/services";
+import { BackgroundPoller } from "./backgroundPoller";
+
+const MAX_SETTLED_RUNS = 20;
+
+/** Result of one poll of an execution. */
+export interface RunCommandExecutionProgress {
+  status: RunCommandStatus;
+  lifecycleState?: string;
+  deliveryState?: string;
+  exitCode?: number;
+  output?: string;
+  errorMessage?: string;
+}
+
+export type StartRunCommandInput = Omit<RunCommandRun, "id" | "startedAt" | "finishedAt">;
+
+type ReadExecution = (execution: RunCommandExecution) => Promise<RunCommandExecutionProgress>;
+
+/**
+ * Follows Run Command executions started from the extension. Each instance of a run is polled in
+ * the background until its command finishes, so results keep arriving while the view is closed.
+ * Runs stay listed until dismissed.
+ */
+export class RunCommandTracker implements vscode.Disposable {
+  private readonly poller = new BackgroundPoller<RunCommandRun, ReadExecution>({
+    maxSettled: MAX_SETTLED_RUNS,
+    isActive: (entry) => !entry.finishedAt,
+    poll: (entry, poll) => this.pollRun(entry, poll),
+  });
+  readonly onDidChange = this.poller.onDidChange;
+  private nextId = 1;
+
+  /** Executions that are already settled (e.g. the command could not be created) are not polled. */
+  public start(input: StartRunCommandInput, poll: ReadExecution): RunCommandRun {
+    const entry: RunCommandRun = {
+      ...input,
+      id: String(this.nextId++),
+      startedAt: new Date().toISOString(),
+    };
+    if (!entry.executions.some((execution) => execution.status === "IN_PROGRESS")) {
+      entry.finishedAt = entry.startedAt;
+    }
+    this.poller.add(entry, poll);
+    return entry;
+  }
+
+  /** Newest first */
+  public getRuns(): RunCommandRun[] {
+    return this.poller.list();
+  }
+
+  public getRun(id: string): RunCommandRun | undefined {
+    return this.poller.get(id);
+  }
+
+  /** Stop listing a run. Executions still in progress keep running on the instances. */
+  public dismiss(id: string): void {
+    this.poller.remove(id);
+  }
+
+  public dispose(): void {
+    this.poller.dispose();
+  }
+
+  private async pollRun(entry: RunCommandRun, poll: ReadExecution): Promise<RunCommandRun> {
+    const executions = await Promise.all(
+      entry.executions.map((execution) =>
+        execution.status === "IN_PROGRESS" ? this.pollExecution(entry.id, execution, poll) : execution
+      )
+    );
+    const next: RunCommandRun = { ...entry, executions };
+    if (!executions.some((execution) => execution.status === "IN_PROGRESS")) {
+      next.finishedAt = new Date().toISOString();
+    }
+    return next;
+  }
+
+  private async pollExecution(runId: string, execution: RunCommandExecution, poll: ReadExecution): Promise<RunCommandExecution> {
+    // Failures count per instance, so one unreachable agent does not end the whole run.
+    const attempt = await this.poller.attempt(runId, execution.instanceId, () => poll(execution));
+    if (!attempt) {
+      return execution;
+    }
+    const next: RunCommandExecution = "progress" in attempt
+      ? { ...execution, ...attempt.progress }
+      : {
+        ...execution,
+        status: "FAILED",
+        errorMessage: `Stopped following the command: ${attempt.error instanceof Error ? attempt.error.message : String(attempt.error)}`,
+      };
+    if (next.status !== "IN_PROGRESS") {
+      next.finishedAt = new Date().toISOString();
+    }
+    return next;
+  }
+}
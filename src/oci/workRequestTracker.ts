@@ -0,0 +1,81 @@
+import * as vscode from "vscode";
+import type { TrackedWorkRequest, TrackedWorkRequestStatus } from "../shared/services";
+import { BackgroundPoller } from "./backgroundPoller";
+
+const MAX_SETTLED_OPERATIONS = 50;
+
+/** Result of one poll: the work request's progress plus the state of the resource it changes. */
+export interface WorkRequestProgress {
+  status: TrackedWorkRequestStatus;
+  workRequestStatus?: string;
+  percentComplete?: number;
+  resourceLifecycleState?: string;
+  errorMessage?: string;
+  /** Set when the operation moves on to another resource, e.g. a restore that launches once its boot volume is ready */
+  resourceId?: string;
+  workRequestId?: string;
+}
+
+export type TrackWorkRequestInput = Omit<TrackedWorkRequest, "id" | "status" | "startedAt" | "finishedAt">;
+
+type ReadProgress = () => Promise<WorkRequestProgress>;
+
+/**
+ * Follows the work requests of creates started from the extension so views can list them as
+ * pending inventory items. Operations are polled in the background until they succeed or fail,
+ * and stay listed until dismissed.
+ */
+export class WorkRequestTracker implements vscode.Disposable {
+  private readonly poller = new BackgroundPoller<TrackedWorkRequest, ReadProgress>({
+    maxSettled: MAX_SETTLED_OPERATIONS,
+    isActive: (entry) => entry.status === "IN_PROGRESS",
+    poll: (entry, poll) => this.pollOperation(entry, poll),
+  });
+  readonly onDidChange = this.poller.onDidChange;
+  /** Fires once per operation when it leaves IN_PROGRESS */
+  readonly onDidSettle = this.poller.onDidSettle;
+  private nextId = 1;
+
+  public track(input: TrackWorkRequestInput, poll: ReadProgress): TrackedWorkRequest {
+    const entry: TrackedWorkRequest = {
+      ...input,
+      id: String(this.nextId++),
+      status: "IN_PROGRESS",
+      startedAt: new Date().toISOString(),
+    };
+    this.poller.add(entry, poll);
+    return entry;
+  }
+
+  /** Newest first */
+  public getOperations(): TrackedWorkRequest[] {
+    return this.poller.list();
+  }
+
+  /** Stop listing an operation. One still in progress keeps running in OCI; it is only no longer followed. */
+  public dismiss(id: string): void {
+    this.poller.remove(id);
+  }
+
+  public dispose(): void {
+    this.poller.dispose();
+  }
+
+  private async pollOperation(entry: TrackedWorkRequest, poll: ReadProgress): Promise<TrackedWorkRequest> {
+    const attempt = await this.poller.attempt(entry.id, entry.id, poll);
+    if (!attempt) {
+      return entry;
+    }
+    const next: TrackedWorkRequest = "progress" in attempt
+      ? { ...entry, ...attempt.progress }
+      : {
+        ...entry,
+        status: "FAILED",
+        errorMessage: `Stopped following the work request: ${attempt.error instanceof Error ? attempt.error.message : String(attempt.error)}`,
+      };
+    if (next.status !== "IN_PROGRESS") {
+      next.finishedAt = new Date().toISOString();
+    }
+    return next;
+  }
+}
@@ -1,51 +1,29 @@
-import * as vscode from "vscode";
 import { OciService } from "../oci/ociService";
 import { AdbResource } from "../types";
+import { ResourceTreeItem, ResourceTreeProvider } from "./resourceTreeProvider";
 
-export class AdbTreeItem extends vscode.TreeItem {
-  constructor(public readonly resource: AdbResource) {
-    super(resource.name, vscode.TreeItemCollapsibleState.None);
-    this.contextValue = "adbInstance";
-    this.description = resource.lifecycleState;
-    this.tooltip = `${resource.name}\n${resource.id}`;
-  }
-}
-
-export class AdbProvider implements vscode.TreeDataProvider<AdbTreeItem> {
-  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<AdbTreeItem | undefined>();
-  public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
-
-  constructor(private readonly ociService: OciService) { }
+export type AdbTreeItem = ResourceTreeItem<AdbResource>;
 
-  public refresh(): void {
-    this.onDidChangeTreeDataEmitter.fire(undefined);
-  }
-
-  public getTreeItem(element: AdbTreeItem): vscode.TreeItem {
-    return element;
-  }
+export class AdbProvider extends ResourceTreeProvider<AdbResource> {
+  public static readonly VIEW_ID = "ociAi.adbView";
 
-  public async getChildren(): Promise<AdbTreeItem[]> {
-    try {
-      const resources = await this.ociService.listAutonomousDatabases();
-      if (resources.length === 0) {
-        const empty = new AdbTreeItem({ id: "", name: "No ADB instances found", lifecycleState: "" });
-        empty.contextValue = "message";
-        return [empty];
-      }
-      return resources.map((resource) => new AdbTreeItem(resource));
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      const item = new AdbTreeItem({ id: "", name: `Error: ${message}`, lifecycleState: "" });
-      item.contextValue = "message";
-      if (message.includes("Missing setting: ociAi.compartmentId")) {
-        item.description = "Click to open Settings";
-        item.command = {
-          command: "ociAi.openSettings",
-          title: "Open Settings"
-        };
-      }
-      return [item];
-    }
+  constructor(ociService: OciService) {
+    super({
+      viewId: AdbProvider.VIEW_ID,
+      kind: "adb",
+      label: "Autonomous Databases",
+      featureLabel: "Autonomous Database",
+      contextValue: "adbInstance",
+      icon: "database",
+      load: () => ociService.listAutonomousDatabases(),
+      toEntry: (database) => ({
+        id: database.id,
+        name: database.name,
+        compartmentId: database.compartmentId ?? "",
+        region: database.region ?? "",
+        lifecycleState: database.lifecycleState,
+        action: database.lifecycleState === "AVAILABLE" ? "stop" : database.lifecycleState === "STOPPED" ? "start" : undefined,
+      }),
+    });
   }
 }
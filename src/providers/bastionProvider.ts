@@ -0,0 +1,27 @@
+import { OciService } from "../oci/ociService";
+import { BastionResource } from "../types";
+import { ResourceTreeProvider } from "./resourceTreeProvider";
+
+export class BastionProvider extends ResourceTreeProvider<BastionResource> {
+  public static readonly VIEW_ID = "ociAi.bastionView";
+
+  constructor(ociService: OciService) {
+    super({
+      viewId: BastionProvider.VIEW_ID,
+      kind: "bastion",
+      label: "bastions",
+      featureLabel: "Bastion",
+      contextValue: "bastion",
+      icon: "shield",
+      load: () => ociService.listBastions(),
+      toEntry: (bastion) => ({
+        id: bastion.id,
+        name: bastion.name,
+        compartmentId: bastion.compartmentId,
+        region: bastion.region,
+        lifecycleState: bastion.lifecycleState,
+        details: bastion.clientCidrBlockAllowList?.length ? [`Allowed CIDRs: ${bastion.clientCidrBlockAllowList.join(", ")}`] : [],
+      }),
+    });
+  }
+}
@@ -1,51 +1,34 @@
-import * as vscode from "vscode";
 import { OciService } from "../oci/ociService";
 import { ComputeResource } from "../types";
+import { ResourceTreeItem, ResourceTreeProvider } from "./resourceTreeProvider";
 
-export class ComputeTreeItem extends vscode.TreeItem {
-  constructor(public readonly resource: ComputeResource) {
-    super(resource.name, vscode.TreeItemCollapsibleState.None);
-    this.contextValue = "computeInstance";
-    this.description = resource.lifecycleState;
-    this.tooltip = `${resource.name}\n${resource.id}`;
-  }
-}
-
-export class ComputeProvider implements vscode.TreeDataProvider<ComputeTreeItem> {
-  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<ComputeTreeItem | undefined>();
-  public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
-
-  constructor(private readonly ociService: OciService) { }
+export type ComputeTreeItem = ResourceTreeItem<ComputeResource>;
 
-  public refresh(): void {
-    this.onDidChangeTreeDataEmitter.fire(undefined);
-  }
-
-  public getTreeItem(element: ComputeTreeItem): vscode.TreeItem {
-    return element;
-  }
+export class ComputeProvider extends ResourceTreeProvider<ComputeResource> {
+  public static readonly VIEW_ID = "ociAi.computeView";
 
-  public async getChildren(): Promise<ComputeTreeItem[]> {
-    try {
-      const resources = await this.ociService.listComputeInstances();
-      if (resources.length === 0) {
-        const empty = new ComputeTreeItem({ id: "", name: "No Compute instances found", lifecycleState: "" });
-        empty.contextValue = "message";
-        return [empty];
-      }
-      return resources.map((resource) => new ComputeTreeItem(resource));
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      const item = new ComputeTreeItem({ id: "", name: `Error: ${message}`, lifecycleState: "" });
-      item.contextValue = "message";
-      if (message.includes("Missing setting: ociAi.compartmentId")) {
-        item.description = "Click to open Settings";
-        item.command = {
-          command: "ociAi.openSettings",
-          title: "Open Settings"
-        };
-      }
-      return [item];
-    }
+  constructor(ociService: OciService) {
+    super({
+      viewId: ComputeProvider.VIEW_ID,
+      kind: "compute",
+      label: "Compute instances",
+      featureLabel: "Compute",
+      contextValue: "computeInstance",
+      icon: "vm",
+      load: () => ociService.listComputeInstances(),
+      toEntry: (instance) => ({
+        id: instance.id,
+        name: instance.name,
+        compartmentId: instance.compartmentId ?? "",
+        region: instance.region ?? "",
+        lifecycleState: instance.lifecycleState,
+        details: [
+          instance.shape ? `Shape: ${instance.shape}` : "",
+          instance.publicIp ? `Public IP: ${instance.publicIp}` : "",
+          instance.privateIp ? `Private IP: ${instance.privateIp}` : "",
+        ].filter(Boolean),
+        action: instance.lifecycleState === "RUNNING" ? "stop" : instance.lifecycleState === "STOPPED" ? "start" : undefined,
+      }),
+    });
   }
 }
@@ -0,0 +1,37 @@
+import { OciService } from "../oci/ociService";
+import { DbSystemResource } from "../types";
+import { ResourceTreeItem, ResourceTreeProvider } from "./resourceTreeProvider";
+
+export type DbSystemTreeItem = ResourceTreeItem<DbSystemResource>;
+
+export class DbSystemProvider extends ResourceTreeProvider<DbSystemResource> {
+  public static readonly VIEW_ID = "ociAi.dbSystemView";
+
+  constructor(ociService: OciService) {
+    super({
+      viewId: DbSystemProvider.VIEW_ID,
+      kind: "dbSystem",
+      label: "DB systems",
+      featureLabel: "DB Systems",
+      contextValue: "dbSystem",
+      icon: "server-environment",
+      load: () => ociService.listDbSystems(),
+      toEntry: (dbSystem) => {
+        // Start and stop act on the nodes, so their state decides which action applies.
+        const state = dbSystem.nodeLifecycleState ?? dbSystem.lifecycleState;
+        return {
+          id: dbSystem.id,
+          name: dbSystem.name,
+          compartmentId: dbSystem.compartmentId ?? "",
+          region: dbSystem.region ?? "",
+          lifecycleState: state,
+          details: [
+            dbSystem.nodeLifecycleState ? `DB system: ${dbSystem.lifecycleState}` : "",
+            dbSystem.privateIp ? `Private IP: ${dbSystem.privateIp}` : "",
+          ].filter(Boolean),
+          action: state === "AVAILABLE" ? "stop" : state === "STOPPED" ? "start" : undefined,
+        };
+      },
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import { OciService } from "../oci/ociService";
+import { ObjectStorageBucketResource } from "../types";
+import { ResourceTreeProvider } from "./resourceTreeProvider";
+
+export class ObjectStorageProvider extends ResourceTreeProvider<ObjectStorageBucketResource> {
+  public static readonly VIEW_ID = "ociAi.objectStorageView";
+
+  constructor(ociService: OciService) {
+    super({
+      viewId: ObjectStorageProvider.VIEW_ID,
+      kind: "objectStorage",
+      label: "buckets",
+      featureLabel: "Object Storage",
+      contextValue: "objectStorageBucket",
+      icon: "archive",
+      load: () => ociService.listObjectStorageBuckets(),
+      toEntry: (bucket) => ({
+        // Buckets have no OCID in the listing; the namespace and name identify them.
+        id: `${bucket.namespaceName}/${bucket.name}`,
+        name: bucket.name,
+        compartmentId: bucket.compartmentId,
+        region: bucket.region,
+        description: bucket.storageTier,
+        details: [
+          bucket.publicAccessType && bucket.publicAccessType !== "NoPublicAccess" ? `Public access: ${bucket.publicAccessType}` : "",
+          bucket.approximateCount !== undefined ? `Objects: ${bucket.approximateCount}` : "",
+        ].filter(Boolean),
+      }),
+    });
+  }
+}
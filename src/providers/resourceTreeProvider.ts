@@ -0,0 +1,240 @@
+import * as vscode from "vscode";
+import type { RegionListing } from "../types";
+
+/** Resource kinds shown as native tree views; the names match the webview features. */
+export type ResourceTreeKind = "compute" | "adb" | "dbSystem" | "vcn" | "objectStorage" | "bastion";
+
+/** The tree re-reads its listing this often while any resource is in a transitional state. */
+const POLL_INTERVAL_MS = 5000;
+const TRANSITIONAL_STATES = new Set([
+  "PROVISIONING",
+  "STARTING",
+  "STOPPING",
+  "TERMINATING",
+  "CREATING_IMAGE",
+  "UPDATING",
+  "SCALE_IN_PROGRESS",
+  "RESTORE_IN_PROGRESS",
+  "BACKUP_IN_PROGRESS",
+  "MAINTENANCE_IN_PROGRESS",
+  "CREATING",
+  "DELETING",
+]);
+
+/** What a tree row shows for one resource, independent of its listing type. */
+export interface ResourceTreeEntry {
+  id: string;
+  name: string;
+  compartmentId: string;
+  region: string;
+  lifecycleState?: string;
+  /** Shown after the name; defaults to the lifecycle state */
+  description?: string;
+  /** Extra tooltip lines after the name and OCID */
+  details?: string[];
+  /** Enables the inline Start or Stop action of the row */
+  action?: "start" | "stop";
+}
+
+export interface ResourceTreeConfig<T> {
+  viewId: string;
+  kind: ResourceTreeKind;
+  /** Plural noun for messages, e.g. "Compute instances" */
+  label: string;
+  /** Webview feature name in messages, e.g. "Compute" */
+  featureLabel: string;
+  /** Context value of resource rows; rows with an action get ".startable" or ".stoppable" appended */
+  contextValue: string;
+  icon: string;
+  /** Resources of every region that answered; each failed region becomes a warning row */
+  load: () => Promise<RegionListing<T>>;
+  toEntry: (resource: T) => ResourceTreeEntry;
+}
+
+export class ResourceGroupTreeItem extends vscode.TreeItem {
+  constructor(
+    label: string,
+    public readonly children: vscode.TreeItem[],
+    icon: string,
+    tooltip: string
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.Expanded);
+    this.contextValue = "resourceGroup";
+    this.description = String(children.length);
+    this.iconPath = new vscode.ThemeIcon(icon);
+    this.tooltip = tooltip;
+  }
+}
+
+export class ResourceTreeItem<T> extends vscode.TreeItem {
+  constructor(
+    public readonly resource: T,
+    public readonly entry: ResourceTreeEntry,
+    contextValue: string,
+    icon: string
+  ) {
+    super(entry.name, vscode.TreeItemCollapsibleState.None);
+    this.id = `${entry.region}|${entry.id}`;
+    this.contextValue = entry.action === "start"
+      ? `${contextValue}.startable`
+      : entry.action === "stop"
+        ? `${contextValue}.stoppable`
+        : contextValue;
+    this.description = entry.description ?? entry.lifecycleState;
+    this.tooltip = [entry.name, entry.id, ...(entry.details ?? [])].join("\n");
+    this.iconPath = new vscode.ThemeIcon(
+      icon,
+      entry.lifecycleState && TRANSITIONAL_STATES.has(entry.lifecycleState)
+        ? new vscode.ThemeColor("list.warningForeground")
+        : undefined
+    );
+  }
+}
+
+/**
+ * Explorer-style listing of one resource kind, grouped by compartment and then region. It reads
+ * through the same cached listings as the webview, so expanding it does not call OCI again
+ * while those are fresh.
+ */
+export class ResourceTreeProvider<T> implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.Disposable {
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<vscode.TreeItem | undefined>();
+  public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+  private pollTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private readonly config: ResourceTreeConfig<T>) { }
+
+  public get viewId(): string {
+    return this.config.viewId;
+  }
+
+  public get kind(): ResourceTreeKind {
+    return this.config.kind;
+  }
+
+  public refresh(): void {
+    this.onDidChangeTreeDataEmitter.fire(undefined);
+  }
+
+  public getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  public async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+    if (element) {
+      return element instanceof ResourceGroupTreeItem ? element.children : [];
+    }
+    this.clearPoll();
+    try {
+      const { items: resources, regionErrors } = await this.config.load();
+      const regionErrorItems = regionErrors.map((regionError) => createMessageItem(
+        `Error in ${regionError.region}: ${regionError.message}`,
+        undefined,
+        undefined,
+        `${this.config.label} in ${regionError.region} could not be listed.\n${regionError.message}`,
+        "warning"
+      ));
+      if (resources.length === 0) {
+        return [...regionErrorItems, createMessageItem(
+          `No ${this.config.label} found`,
+          `Select compartments and regions in the ${this.config.featureLabel} view`,
+          { command: "ociAi.openSettings", title: "Open OCI Tools" }
+        )];
+      }
+      const items = resources.map((resource) => {
+        const entry = this.config.toEntry(resource);
+        return new ResourceTreeItem(resource, entry, this.config.contextValue, this.config.icon);
+      });
+      if (items.some((item) => item.entry.lifecycleState && TRANSITIONAL_STATES.has(item.entry.lifecycleState))) {
+        this.pollTimer = setTimeout(() => this.refresh(), POLL_INTERVAL_MS);
+      }
+      return [...regionErrorItems, ...groupByCompartmentAndRegion(items)];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return [createMessageItem(`Error: ${message}`, undefined, undefined, message)];
+    }
+  }
+
+  public dispose(): void {
+    this.clearPoll();
+    this.onDidChangeTreeDataEmitter.dispose();
+  }
+
+  private clearPoll(): void {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+}
+
+function groupByCompartmentAndRegion<T>(items: ResourceTreeItem<T>[]): ResourceGroupTreeItem[] {
+  const compartmentNames = readCompartmentNames();
+  const byCompartment = new Map<string, Map<string, ResourceTreeItem<T>[]>>();
+  for (const item of items) {
+    const regions = byCompartment.get(item.entry.compartmentId) ?? new Map<string, ResourceTreeItem<T>[]>();
+    const regionItems = regions.get(item.entry.region) ?? [];
+    regionItems.push(item);
+    regions.set(item.entry.region, regionItems);
+    byCompartment.set(item.entry.compartmentId, regions);
+  }
+
+  return [...byCompartment.entries()]
+    .map(([compartmentId, regions]) => {
+      const regionGroups = [...regions.entries()]
+        .sort(([left], [right]) => left.localeCompare(right))
+        .map(([region, regionItems]) => new ResourceGroupTreeItem(
+          region || "default",
+          regionItems.sort((left, right) => String(left.label).localeCompare(String(right.label))),
+          "globe",
+          region || "Profile region"
+        ));
+      const label = describeCompartment(compartmentId, compartmentNames);
+      const group = new ResourceGroupTreeItem(label, regionGroups, "folder", `${label}\n${compartmentId}`);
+      group.description = String(regionGroups.reduce((count, regionGroup) => count + regionGroup.children.length, 0));
+      return group;
+    })
+    .sort((left, right) => String(left.label).localeCompare(String(right.label)));
+}
+
+/** Compartment names the user saved for the active profile, falling back to the global saved list. */
+function readCompartmentNames(): Map<string, string> {
+  const cfg = vscode.workspace.getConfiguration("ociAi");
+  const activeProfile = String(cfg.get<string>("activeProfile", "DEFAULT") ?? "").trim() || "DEFAULT";
+  const profilesConfig = cfg.get<{ name: string; compartments?: { id: string; name: string }[] }[]>("profilesConfig", []);
+  const savedCompartments = cfg.get<{ id: string; name: string }[]>("savedCompartments", []);
+  const names = new Map<string, string>();
+  const profileCompartments = Array.isArray(profilesConfig)
+    ? profilesConfig.find((profile) => profile.name === activeProfile)?.compartments ?? []
+    : [];
+  for (const compartment of [...(Array.isArray(savedCompartments) ? savedCompartments : []), ...profileCompartments]) {
+    if (compartment?.id?.trim() && compartment.name?.trim()) {
+      names.set(compartment.id.trim(), compartment.name.trim());
+    }
+  }
+  return names;
+}
+
+function describeCompartment(compartmentId: string, names: Map<string, string>): string {
+  if (names.has(compartmentId)) {
+    return names.get(compartmentId) as string;
+  }
+  return compartmentId.startsWith("ocid1.tenancy.") ? "Root (Tenancy)" : compartmentId;
+}
+
+function createMessageItem(
+  label: string,
+  description?: string,
+  command?: vscode.Command,
+  tooltip?: string,
+  icon?: string
+): vscode.TreeItem {
+  const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+  item.contextValue = "message";
+  item.description = description;
+  item.tooltip = tooltip ?? label;
+  item.command = command;
+  if (icon) {
+    item.iconPath = new vscode.ThemeIcon(icon, new vscode.ThemeColor("list.warningForeground"));
+  }
+  return item;
+}
@@ -0,0 +1,28 @@
+import { OciService } from "../oci/ociService";
+import { VcnResource } from "../types";
+import { ResourceTreeProvider } from "./resourceTreeProvider";
+
+export class VcnProvider extends ResourceTreeProvider<VcnResource> {
+  public static readonly VIEW_ID = "ociAi.vcnView";
+
+  constructor(ociService: OciService) {
+    super({
+      viewId: VcnProvider.VIEW_ID,
+      kind: "vcn",
+      label: "VCNs",
+      featureLabel: "VCN",
+      contextValue: "vcn",
+      icon: "type-hierarchy",
+      load: () => ociService.listVcns(),
+      toEntry: (vcn) => ({
+        id: vcn.id,
+        name: vcn.name,
+        compartmentId: vcn.compartmentId,
+        region: vcn.region,
+        lifecycleState: vcn.lifecycleState,
+        description: vcn.cidrBlocks.join(", ") || vcn.lifecycleState,
+        details: [`State: ${vcn.lifecycleState}`],
+      }),
+    });
+  }
+}
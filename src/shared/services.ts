@@ -65,6 +65,8 @@ export interface AppState {
   objectStorageCompartmentIds: string[];
   bastionCompartmentIds: string[];
   speechCompartmentIds: string[];
+  /** Per-feature inventory regions; features without an entry use the profile region(s) */
+  featureRegionMap: Partial<Record<RegionFeatureKey, string[]>>;
   profilesConfig: ProfileConfig[];
   tenancyOcid: string;
   genAiRegion: string;
@@ -133,6 +135,9 @@ export interface SubagentTranscriptResponse {
   updatedAt?: string;
 }
 
+/** How OCI requests for a profile are signed */
+export type OciAuthMode = "api-key" | "security-token" | "instance-principal" | "resource-principal";
+
 /** Settings payload for saving */
 export interface SaveSettingsRequest {
   activeProfile: string;
@@ -157,6 +162,10 @@ export interface SaveSettingsRequest {
   fingerprint: string;
   privateKey: string;
   privateKeyPassphrase: string;
+  /** Auth mode for the edited profile; omitted by callers that only touch other settings */
+  authMode?: OciAuthMode;
+  /** Session token from `oci session authenticate` (security-token mode only) */
+  sessionToken?: string;
   systemPrompt: string;
 
 
@@ -176,16 +185,91 @@ export interface DeleteProfileRequest {
   profile: string;
 }
 
+export interface RefreshSessionTokenRequest {
+  profile: string;
+}
+
+export interface RegisterApiKeyRequest {
+  /** User that receives the new key; defaults to the active profile's User OCID */
+  userOcid?: string;
+}
+
+export interface RegisterApiKeyResponse {
+  fingerprint: string;
+  /** Old key removed from the user after a rotation */
+  deletedFingerprint?: string;
+}
+
+export interface RefreshSessionTokenResponse {
+  /** ISO timestamp of the refreshed token's expiry, when it can be decoded */
+  expiresAt?: string;
+}
+
+/** Features whose inventory can fan out across several regions */
+export type RegionFeatureKey = "compute" | "adb" | "dbSystem" | "vcn" | "objectStorage" | "bastion";
+
+export interface RegionSubscription {
+  regionName: string;
+  regionKey: string;
+  isHomeRegion: boolean;
+  status: string;
+}
+
+export interface ListRegionSubscriptionsRequest {
+  /** Bypass the per-profile cache */
+  refresh?: boolean;
+}
+
+export interface ListRegionSubscriptionsResponse {
+  profile: string;
+  regions: RegionSubscription[];
+}
+
+export interface UpdateFeatureRegionSelectionRequest {
+  featureKey: RegionFeatureKey;
+  regions: string[];
+}
+
+export interface GetCompartmentTreeRequest {
+  /** Bypass the per-profile cache and list compartments again */
+  refresh?: boolean;
+}
+
+export interface CompartmentTreeResponse {
+  profile: string;
+  tenancyOcid: string;
+  /** ISO timestamp of the Identity listing this tree was built from */
+  fetchedAt: string;
+  compartments: import("../types").CompartmentResource[];
+}
+
 /** A saved compartment entry */
 export interface SavedCompartment {
   name: string;
   id: string;
 }
 
+/** Config-file origin of a profile imported from ~/.oci/config */
+export interface ConfigFileSourceStatus {
+  filePath: string;
+  sourceProfile: string;
+  importedAt: string;
+  /** True when the file or its profile section can no longer be read */
+  sourceMissing: boolean;
+  /** Config-file keys whose values differ from the SecretStorage copy */
+  driftedFields: string[];
+}
+
 /** Settings state including secrets for display */
 export interface SettingsState extends SaveSettingsRequest {
-  /** Indicates which authentication method is currently active */
-  authMode: "api-key";
+  /** Auth mode of the profile whose fields are returned (the active profile for getSettings) */
+  authMode: OciAuthMode;
+  /** Auth mode OCI requests are signed with right now (always the active profile's) */
+  activeAuthMode: OciAuthMode;
+  /** ISO timestamp from the session token's exp claim (security-token mode only) */
+  sessionTokenExpiresAt?: string;
+  /** Present when the active profile was imported from an OCI config file */
+  configFileSource?: ConfigFileSourceStatus;
   /** Named compartments saved for quick switching (legacy) */
   savedCompartments: SavedCompartment[];
   /** Named profiles and their compartments */
@@ -219,19 +303,33 @@ export interface DownloadAdbWalletResponse {
   serviceNames: string[];
 }
 
+/**
+ * "wallet" connects with mutual TLS through a downloaded wallet; "tls" connects with one-way TLS using a
+ * descriptor from the database's connection strings, which requires mutual TLS to be turned off on the database
+ */
+export type AdbConnectionMode = "wallet" | "tls";
+
 export interface ConnectAdbRequest {
   autonomousDatabaseId: string;
+  /** Defaults to "wallet" */
+  connectionMode?: AdbConnectionMode;
+  /** Region of the database, used to read its connection strings in "tls" mode */
+  region?: string;
+  /** Not used in "tls" mode */
   walletPath: string;
   walletPassword?: string;
   username: string;
   password: string;
+  /** TNS alias or TLS profile name such as mydb_low, or a full connect descriptor */
   serviceName: string;
 }
 
 export interface ConnectAdbResponse {
   connectionId: string;
   autonomousDatabaseId: string;
+  connectionMode: AdbConnectionMode;
   serviceName: string;
+  /** Empty in "tls" mode */
   walletPath: string;
 }
 
@@ -249,6 +347,31 @@ export interface ConnectComputeSshResponse {
   launched: boolean;
 }
 
+/** One instance to write as a Host entry; host is the address chosen by the view's host preference */
+export interface ComputeSshConfigHost extends ConnectComputeSshRequest {
+  region?: string;
+  privateIp?: string;
+}
+
+export interface WriteComputeSshConfigRequest {
+  hosts: ComputeSshConfigHost[];
+  /** Open the (single) written host in a new Remote-SSH window */
+  openInRemoteSsh?: boolean;
+}
+
+export interface WriteComputeSshConfigResponse {
+  configFile: string;
+  hosts: {
+    instanceId: string;
+    alias: string;
+    /** Bastion session used as ProxyCommand for a private address */
+    bastionSessionName?: string;
+  }[];
+  /** Private addresses written without a ProxyCommand because no active bastion session targets them */
+  warnings: string[];
+  openedInRemoteSsh: boolean;
+}
+
 export interface AdbSqlRow {
   [column: string]: string | number | boolean | null;
 }
@@ -324,6 +447,8 @@ export interface SqlAssistantResponse {
 
 export interface ListDbSystemsResponse {
   dbSystems: import("../types").DbSystemResource[];
+  /** Selected regions that could not be listed; the other regions are still returned */
+  regionErrors?: import("../types").RegionListingError[];
 }
 
 export interface ConnectDbSystemRequest {
@@ -412,6 +537,8 @@ export interface OracleDbDiagnosticsResponse {
 
 export interface ListVcnResponse {
   vcns: import("../types").VcnResource[];
+  /** Selected regions that could not be listed; the other regions are still returned */
+  regionErrors?: import("../types").RegionListingError[];
 }
 
 export interface ListSecurityListRequest {
@@ -429,6 +556,8 @@ export type ObjectStorageObjectResource = import("../types").ObjectStorageObject
 
 export interface ListObjectStorageBucketsResponse {
   buckets: ObjectStorageBucketResource[];
+  /** Selected regions that could not be listed; the other regions are still returned */
+  regionErrors?: import("../types").RegionListingError[];
 }
 
 export interface ListObjectStorageObjectsRequest {
@@ -529,6 +658,8 @@ export interface DeleteSecurityListRequest {
 /** Non-sensitive ADB connection profile stored in VSCode config */
 export interface AdbConnectionProfile {
   autonomousDatabaseId: string;
+  /** Unset in profiles saved before TLS connections were supported, which all use a wallet */
+  connectionMode?: AdbConnectionMode;
   walletPath: string;
   username: string;
   serviceName: string;
@@ -551,6 +682,8 @@ export type BastionSessionResource = import("../types").BastionSessionResource;
 
 export interface ListBastionsResponse {
   bastions: BastionResource[];
+  /** Selected regions that could not be listed; the other regions are still returned */
+  regionErrors?: import("../types").RegionListingError[];
 }
 
 export interface ListBastionSessionsRequest {
@@ -656,6 +789,727 @@ export interface ListSpeechTranscriptionTasksResponse {
   tasks: SpeechTranscriptionTaskResource[];
 }
 
+// --- Compute Launch Types ---
+
+export interface ComputeShapeOption {
+  shape: string;
+  processorDescription?: string;
+  /** Fixed shapes only; flex shapes take their size from the launch request */
+  ocpus?: number;
+  memoryInGBs?: number;
+  isFlexible: boolean;
+  ocpuMin?: number;
+  ocpuMax?: number;
+  memoryMinInGBs?: number;
+  memoryMaxInGBs?: number;
+  defaultMemoryPerOcpuInGBs?: number;
+}
+
+export interface ComputeImageOption {
+  id: string;
+  name: string;
+  operatingSystem: string;
+  operatingSystemVersion: string;
+  timeCreated?: string;
+}
+
+export interface ComputeSubnetOption {
+  id: string;
+  name: string;
+  vcnId: string;
+  cidrBlock: string;
+  prohibitPublicIp: boolean;
+  /** Set for AD-specific subnets; regional subnets work in every availability domain */
+  availabilityDomain?: string;
+}
+
+export interface GetComputeLaunchOptionsRequest {
+  compartmentId: string;
+  region?: string;
+  /** Limits shapes to the ones offered in this availability domain */
+  availabilityDomain?: string;
+}
+
+export interface ComputeLaunchOptions {
+  availabilityDomains: string[];
+  shapes: ComputeShapeOption[];
+  subnets: ComputeSubnetOption[];
+}
+
+export interface ListComputeImagesRequest {
+  compartmentId: string;
+  region?: string;
+  shape: string;
+}
+
+export interface ListComputeImagesResponse {
+  images: ComputeImageOption[];
+}
+
+export interface LaunchComputeInstanceRequest {
+  compartmentId: string;
+  region?: string;
+  availabilityDomain: string;
+  displayName: string;
+  shape: string;
+  /** Required for flex shapes, ignored otherwise */
+  ocpus?: number;
+  memoryInGBs?: number;
+  /** Exactly one of imageId and bootVolumeBackupId is set */
+  imageId?: string;
+  /** Restore the backup into a new boot volume in the availability domain and boot from it */
+  bootVolumeBackupId?: string;
+  subnetId: string;
+  assignPublicIp: boolean;
+  sshPublicKey: string;
+  /** Plain-text cloud-init user data; encoded before it is sent */
+  cloudInit?: string;
+}
+
+export interface LaunchComputeInstanceResponse {
+  /** Unset for a restore from a boot volume backup: the instance is launched once the restored boot volume is AVAILABLE */
+  instanceId?: string;
+  /** Id of the entry in WorkRequestService that follows the launch */
+  operationId: string;
+}
+
+// --- Compute Lifecycle Types ---
+
+/** Instance power actions: SOFTSTOP and SOFTRESET shut the OS down first, STOP and RESET do not */
+export type ComputeInstanceAction = "START" | "STOP" | "SOFTSTOP" | "RESET" | "SOFTRESET";
+
+export interface ComputeInstanceActionRequest {
+  instanceId: string;
+  region?: string;
+  action: ComputeInstanceAction;
+}
+
+export interface TerminateComputeInstanceRequest {
+  instanceId: string;
+  region?: string;
+  /** Keep the boot volume so it can be attached or used to launch another instance */
+  preserveBootVolume: boolean;
+}
+
+export interface ResizeComputeInstanceRequest {
+  instanceId: string;
+  region?: string;
+  ocpus: number;
+  /** Unset sends only the OCPU count and leaves memory to OCI */
+  memoryInGBs?: number;
+}
+
+// --- Compute Backup Types ---
+
+/** A custom image in the compartment of an instance */
+export interface ComputeCustomImage {
+  id: string;
+  name: string;
+  lifecycleState: string;
+  operatingSystem: string;
+  operatingSystemVersion: string;
+  sizeInMBs?: number;
+  /** ISO timestamp */
+  timeCreated?: string;
+  compartmentId: string;
+  region: string;
+}
+
+export type BootVolumeBackupType = "FULL" | "INCREMENTAL";
+
+/** A backup of an instance's boot volume */
+export interface ComputeBootVolumeBackup {
+  id: string;
+  name: string;
+  lifecycleState: string;
+  type: string;
+  /** MANUAL or SCHEDULED (from a backup policy) */
+  sourceType?: string;
+  sizeInGBs?: number;
+  /** ISO timestamps */
+  timeCreated?: string;
+  expirationTime?: string;
+  compartmentId: string;
+  region: string;
+}
+
+export interface ListComputeInstanceBackupsRequest {
+  instanceId: string;
+  region?: string;
+}
+
+export interface ListComputeInstanceBackupsResponse {
+  /** Unset when no boot volume is attached, e.g. while the instance is provisioning */
+  bootVolumeId?: string;
+  /** Custom images of the instance's compartment, newest first; OCI does not record which instance an image came from */
+  images: ComputeCustomImage[];
+  /** Backups of the attached boot volume, newest first */
+  bootVolumeBackups: ComputeBootVolumeBackup[];
+}
+
+export interface CreateComputeImageRequest {
+  instanceId: string;
+  instanceName?: string;
+  region?: string;
+  displayName: string;
+}
+
+export interface CreateComputeBootVolumeBackupRequest {
+  instanceId: string;
+  instanceName?: string;
+  region?: string;
+  displayName: string;
+  type: BootVolumeBackupType;
+}
+
+export interface CreateComputeBackupResponse {
+  /** OCID of the image or boot volume backup being created */
+  resourceId: string;
+  /** Id of the entry in WorkRequestService that follows the creation */
+  operationId: string;
+}
+
+export interface DeleteComputeImageRequest {
+  imageId: string;
+  region?: string;
+}
+
+export interface DeleteComputeBootVolumeBackupRequest {
+  bootVolumeBackupId: string;
+  region?: string;
+}
+
+// --- Compute Console Types ---
+
+export interface CaptureComputeConsoleHistoryRequest {
+  instanceId: string;
+  instanceName?: string;
+  region?: string;
+}
+
+export interface CaptureComputeConsoleHistoryResponse {
+  /** Characters of console output opened in the editor */
+  length: number;
+}
+
+export interface ConnectComputeSerialConsoleRequest {
+  instanceId: string;
+  instanceName?: string;
+  region?: string;
+  /** Its .pub sibling is the key the console connection is created for; unset tries ~/.ssh/id_ed25519 and ~/.ssh/id_rsa */
+  privateKeyPath?: string;
+  /** Delete a console connection made with another key instead of reporting it */
+  replaceExisting?: boolean;
+}
+
+export interface ConnectComputeSerialConsoleResponse {
+  launched: boolean;
+  /** An existing connection made with the same key was used */
+  reused?: boolean;
+  /** Set when nothing was launched because the instance already has a connection made with another key */
+  conflictingConnectionId?: string;
+  conflictingFingerprint?: string;
+}
+
+// --- ADB Provisioning Types ---
+
+export type AdbWorkloadType = "OLTP" | "DW" | "AJD" | "APEX";
+
+/**
+ * How clients reach a new Autonomous Database: PUBLIC allows any address, RESTRICTED limits the
+ * public endpoint to allowedIps and PRIVATE places a private endpoint in subnetId
+ */
+export interface AdbNetworkAccess {
+  type: "PUBLIC" | "RESTRICTED" | "PRIVATE";
+  /** IP addresses, CIDR blocks or VCN OCIDs; RESTRICTED only */
+  allowedIps?: string[];
+  /** PRIVATE only */
+  subnetId?: string;
+}
+
+export interface AdbVersionOption {
+  version: string;
+  details?: string;
+  isFreeTierEnabled: boolean;
+}
+
+export interface GetAdbProvisioningOptionsRequest {
+  compartmentId: string;
+  region?: string;
+  workload: AdbWorkloadType;
+}
+
+export interface AdbProvisioningOptions {
+  versions: AdbVersionOption[];
+  /** Subnets for a private endpoint */
+  subnets: ComputeSubnetOption[];
+}
+
+export interface CreateAutonomousDatabaseRequest {
+  compartmentId: string;
+  region?: string;
+  displayName: string;
+  /** Letters and numbers only, starting with a letter, at most 30 characters */
+  dbName: string;
+  workload: AdbWorkloadType;
+  computeCount: number;
+  dataStorageSizeInTBs: number;
+  isAutoScalingEnabled: boolean;
+  /** Unset uses the default version of the workload */
+  dbVersion?: string;
+  adminPassword: string;
+  networkAccess: AdbNetworkAccess;
+}
+
+/** FULL copies data, METADATA copies the schema only and REFRESHABLE keeps a read-only copy that follows the source */
+export type AdbCloneType = "FULL" | "METADATA" | "REFRESHABLE";
+
+export interface CloneAutonomousDatabaseRequest {
+  sourceId: string;
+  /** Region of the source; the clone is created there */
+  region?: string;
+  compartmentId: string;
+  displayName: string;
+  dbName: string;
+  cloneType: AdbCloneType;
+  computeCount: number;
+  dataStorageSizeInTBs: number;
+  /** Not used for a refreshable clone, which keeps the ADMIN password of the source */
+  adminPassword?: string;
+  /** REFRESHABLE only; MANUAL refreshes on request, AUTOMATIC every hour */
+  refreshableMode?: "AUTOMATIC" | "MANUAL";
+  networkAccess: AdbNetworkAccess;
+}
+
+export interface ProvisionAutonomousDatabaseResponse {
+  autonomousDatabaseId: string;
+  /** Id of the entry in WorkRequestService that follows the provisioning */
+  operationId: string;
+}
+
+// --- ADB Scaling and Backup Types ---
+
+export interface ScaleAutonomousDatabaseRequest {
+  autonomousDatabaseId: string;
+  /** Display name for the operation entry */
+  databaseName?: string;
+  region?: string;
+  computeCount: number;
+  dataStorageSizeInTBs: number;
+  /** Lets OCI use up to three times computeCount under load */
+  isAutoScalingEnabled: boolean;
+  isAutoScalingForStorageEnabled: boolean;
+}
+
+/** A manual or automatic backup of an Autonomous Database */
+export interface AdbBackup {
+  id: string;
+  name: string;
+  lifecycleState: string;
+  /** INCREMENTAL, FULL or LONGTERM */
+  type: string;
+  isAutomatic: boolean;
+  isRestorable: boolean;
+  databaseSizeInTBs?: number;
+  retentionPeriodInDays?: number;
+  /** ISO timestamps */
+  timeStarted?: string;
+  timeEnded?: string;
+}
+
+export interface ListAdbBackupsRequest {
+  autonomousDatabaseId: string;
+  region?: string;
+}
+
+export interface ListAdbBackupsResponse {
+  /** Newest first */
+  backups: AdbBackup[];
+  /** How far back a point-in-time restore can go */
+  backupRetentionPeriodInDays?: number;
+}
+
+export interface CreateAdbBackupRequest {
+  autonomousDatabaseId: string;
+  databaseName?: string;
+  region?: string;
+  displayName: string;
+}
+
+export interface RestoreAutonomousDatabaseRequest {
+  autonomousDatabaseId: string;
+  databaseName?: string;
+  region?: string;
+  /** ISO timestamp within the backup retention period */
+  timestamp: string;
+}
+
+export interface AdbOperationResponse {
+  /** Id of the entry in WorkRequestService that follows the operation */
+  operationId: string;
+}
+
+// --- ADB Network Access Types ---
+
+export interface GetAdbNetworkAccessRequest {
+  autonomousDatabaseId: string;
+  region?: string;
+}
+
+export interface AdbNetworkAccessInfo {
+  isMtlsConnectionRequired: boolean;
+  /** IP addresses, CIDR blocks or VCN OCIDs allowed on the public endpoint; empty allows any address */
+  whitelistedIps: string[];
+  /** Set when the database has a private endpoint instead of a public one */
+  privateEndpoint?: string;
+  /** Connection string profiles usable without a wallet */
+  tlsServiceNames: string[];
+}
+
+export interface UpdateAdbAccessControlRequest {
+  autonomousDatabaseId: string;
+  databaseName?: string;
+  region?: string;
+  /** Empty removes the access control list, so any address can connect */
+  whitelistedIps: string[];
+}
+
+/** Sent separately from the access control list because OCI does not update both in one request */
+export interface UpdateAdbMtlsRequest {
+  autonomousDatabaseId: string;
+  databaseName?: string;
+  region?: string;
+  isMtlsConnectionRequired: boolean;
+}
+
+export interface GetPublicIpResponse {
+  /** Address this machine reaches the internet from, as seen by the service in ociAi.publicIpLookupUrl */
+  ipAddress: string;
+}
+
+// --- ADB Wallet Types ---
+
+export interface GetAdbWalletStatusRequest {
+  autonomousDatabaseId: string;
+  region?: string;
+}
+
+export interface AdbWalletStatus {
+  autonomousDatabaseId: string;
+  /** Wallet directory downloaded by the extension, if any */
+  walletPath?: string;
+  /** ISO timestamps */
+  downloadedAt?: string;
+  /** Earliest expiry among the certificates of the downloaded wallet */
+  expiresAt?: string;
+  /** ACTIVE or UPDATING, as reported by OCI */
+  walletLifecycleState?: string;
+  rotatedAt?: string;
+  /** True when the instance wallet was rotated after the local copy was downloaded */
+  isStale: boolean;
+}
+
+export interface RotateAdbWalletRequest {
+  autonomousDatabaseId: string;
+  databaseName?: string;
+  region?: string;
+  /** Hours the previous wallet keeps working after the rotation, 0 to 24 */
+  gracePeriodHours: number;
+}
+
+export interface CleanupAdbWalletsResponse {
+  /** Wallet directories removed because their database is gone and no saved profile uses them */
+  removedPaths: string[];
+}
+
+// --- DB System Database Types ---
+
+export interface ListDbSystemDatabasesRequest {
+  dbSystemId: string;
+  compartmentId: string;
+  region?: string;
+  /** Used in the connect strings of pluggable databases instead of the private host name */
+  publicIp?: string;
+}
+
+export interface PluggableDatabaseResource {
+  id: string;
+  name: string;
+  containerDatabaseId: string;
+  lifecycleState: string;
+  /** READ_WRITE while started, MOUNTED while stopped */
+  openMode?: string;
+  lifecycleDetails?: string;
+  /** Service name of the default connect string, e.g. pdb1.subnet.vcn.oraclevcn.com */
+  serviceName?: string;
+  /** Default connect string, through the public IP when one was given; usable as ConnectDbSystemRequest.serviceName */
+  connectionString?: string;
+}
+
+export interface ContainerDatabaseResource {
+  id: string;
+  name: string;
+  dbUniqueName?: string;
+  lifecycleState: string;
+  /** False for a non-container database, which cannot hold pluggable databases */
+  isCdb: boolean;
+  pluggableDatabases: PluggableDatabaseResource[];
+}
+
+export interface DbHomeResource {
+  id: string;
+  name: string;
+  dbVersion?: string;
+  lifecycleState: string;
+  databases: ContainerDatabaseResource[];
+}
+
+export interface ListDbSystemDatabasesResponse {
+  dbHomes: DbHomeResource[];
+}
+
+export interface CreatePluggableDatabaseRequest {
+  containerDatabaseId: string;
+  pdbName: string;
+  /** Password of the PDBADMIN user of the new pluggable database */
+  pdbAdminPassword: string;
+  /** TDE wallet password of the container database */
+  tdeWalletPassword: string;
+  region?: string;
+}
+
+/** Clones a pluggable database into the same container database */
+export interface ClonePluggableDatabaseRequest {
+  sourcePluggableDatabaseId: string;
+  pdbName: string;
+  pdbAdminPassword: string;
+  tdeWalletPassword: string;
+  region?: string;
+}
+
+/** START opens the pluggable database read-write, STOP closes it to MOUNTED */
+export type PluggableDatabaseAction = "START" | "STOP";
+
+export interface PluggableDatabaseActionRequest {
+  pluggableDatabaseId: string;
+  /** Display name for the operation entry */
+  pdbName?: string;
+  region?: string;
+  action: PluggableDatabaseAction;
+}
+
+export interface DeletePluggableDatabaseRequest {
+  pluggableDatabaseId: string;
+  pdbName?: string;
+  region?: string;
+}
+
+export interface PluggableDatabaseOperationResponse {
+  /** Id of the entry in WorkRequestService that follows the operation */
+  operationId: string;
+}
+
+// --- Monitoring Types ---
+
+export type MetricsResourceKind = "compute" | "adb" | "dbSystem";
+
+/** How far back to query; each window has a fixed aggregation interval */
+export type MetricsWindow = "1h" | "6h" | "24h" | "7d";
+
+export type MetricUnit = "percent" | "bytesPerSecond" | "count";
+
+export interface GetResourceMetricsRequest {
+  resourceKind: MetricsResourceKind;
+  resourceId: string;
+  /** Compartment of the resource; Monitoring queries are scoped to it */
+  compartmentId: string;
+  region?: string;
+  window: MetricsWindow;
+}
+
+export interface MetricDatapoint {
+  /** ISO timestamp */
+  timestamp: string;
+  value: number;
+}
+
+export interface MetricSeries {
+  /** Metric name in the namespace, e.g. CpuUtilization */
+  metric: string;
+  /** Display name; includes the distinguishing dimension when a metric returns several streams (e.g. one per DB node) */
+  label: string;
+  unit: MetricUnit;
+  datapoints: MetricDatapoint[];
+}
+
+export interface GetResourceMetricsResponse {
+  namespace: string;
+  window: MetricsWindow;
+  /** Aggregation interval, e.g. 1m */
+  interval: string;
+  series: MetricSeries[];
+  /** Metrics that returned no data, e.g. memory when the agent's plugin is disabled */
+  missing: string[];
+}
+
+// --- Work Request Types ---
+
+export type TrackedWorkRequestStatus = "IN_PROGRESS" | "SUCCEEDED" | "FAILED";
+
+/** A create or update started from the extension, followed until its resource settles */
+export interface TrackedWorkRequest {
+  id: string;
+  kind:
+    | "launchInstance"
+    | "createImage"
+    | "createBootVolumeBackup"
+    | "createAutonomousDatabase"
+    | "cloneAutonomousDatabase"
+    | "scaleAutonomousDatabase"
+    | "createAutonomousDatabaseBackup"
+    | "restoreAutonomousDatabase"
+    | "updateAutonomousDatabaseNetworkAccess"
+    | "rotateAutonomousDatabaseWallet"
+    | "createPluggableDatabase"
+    | "clonePluggableDatabase"
+    | "startPluggableDatabase"
+    | "stopPluggableDatabase"
+    | "deletePluggableDatabase";
+  feature: RegionFeatureKey;
+  resourceId: string;
+  resourceName: string;
+  /** Resource the operation was started from, e.g. the instance of an image or backup or the source of a clone */
+  parentResourceId?: string;
+  compartmentId?: string;
+  region: string;
+  workRequestId?: string;
+  status: TrackedWorkRequestStatus;
+  /** Status reported by the OCI work request, e.g. ACCEPTED or IN_PROGRESS */
+  workRequestStatus?: string;
+  percentComplete?: number;
+  resourceLifecycleState?: string;
+  errorMessage?: string;
+  /** ISO timestamps */
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export interface WorkRequestsState {
+  operations: TrackedWorkRequest[];
+}
+
+export interface DismissWorkRequestRequest {
+  id: string;
+}
+
+// --- Run Command Types ---
+
+export type RunCommandStatus = "IN_PROGRESS" | "SUCCEEDED" | "FAILED";
+
+/** One instance's share of a run, sent as its own instance agent command */
+export interface RunCommandExecution {
+  instanceId: string;
+  instanceName: string;
+  region: string;
+  /** Absent when the command could not be created for this instance */
+  commandId?: string;
+  /** SUCCEEDED only when the script exited with 0 */
+  status: RunCommandStatus;
+  /** Lifecycle state of the command execution, e.g. ACCEPTED or IN_PROGRESS */
+  lifecycleState?: string;
+  /** Whether the agent picked the command up, e.g. VISIBLE or ACKED */
+  deliveryState?: string;
+  exitCode?: number;
+  /** stdout and stderr as captured by the agent, available once the execution finishes */
+  output?: string;
+  errorMessage?: string;
+  /** ISO timestamp */
+  finishedAt?: string;
+}
+
+/** A workspace script sent to one or more instances through the Compute Instance Agent */
+export interface RunCommandRun {
+  id: string;
+  scriptName: string;
+  scriptPath: string;
+  timeoutSeconds: number;
+  /** ISO timestamps */
+  startedAt: string;
+  finishedAt?: string;
+  executions: RunCommandExecution[];
+}
+
+export interface RunCommandState {
+  runs: RunCommandRun[];
+}
+
+export interface RunCommandScript {
+  path: string;
+  /** Path relative to its workspace folder */
+  label: string;
+}
+
+export interface ListRunCommandScriptsResponse {
+  scripts: RunCommandScript[];
+}
+
+export interface RunComputeCommandTarget {
+  instanceId: string;
+  instanceName?: string;
+  compartmentId: string;
+  region?: string;
+}
+
+export interface RunComputeCommandRequest {
+  scriptPath: string;
+  targets: RunComputeCommandTarget[];
+  /** Defaults to 3600 */
+  timeoutSeconds?: number;
+}
+
+export interface RunComputeCommandResponse {
+  runId: string;
+}
+
+export interface CancelRunCommandRequest {
+  id: string;
+}
+
+export interface DismissRunCommandRequest {
+  id: string;
+}
+
+// --- API Trace Types ---
+
+/** One OCI API call as sent through the client factory's request pipeline */
+export interface ApiTraceEntry {
+  id: string;
+  /** ISO timestamp of when the call started */
+  timestamp: string;
+  service: string;
+  operation: string;
+  method: string;
+  region: string;
+  /** Request URL without the query string */
+  endpoint: string;
+  /** HTTP status of the final attempt; absent when no response arrived */
+  status?: number;
+  ok: boolean;
+  latencyMs: number;
+  attempts: number;
+  opcRequestId?: string;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+export interface ApiTraceState {
+  entries: ApiTraceEntry[];
+}
+
+export interface CopyApiTraceEntryRequest {
+  id: string;
+}
+
 /**
  * Service handler type definitions.
  *
@@ -663,6 +1517,15 @@ export interface ListSpeechTranscriptionTasksResponse {
  *   - getState() → AppState
  *   - getSettings() → SettingsState
  *   - saveSettings(SaveSettingsRequest) → {}
+ *   - importOciConfigProfiles() → {}
+ *   - exportProfileBundle() → {}
+ *   - importProfileBundle() → {}
+ *   - refreshSessionToken(RefreshSessionTokenRequest) → RefreshSessionTokenResponse
+ *   - generateApiKey(RegisterApiKeyRequest) → RegisterApiKeyResponse
+ *   - rotateApiKey() → RegisterApiKeyResponse
+ *   - getCompartmentTree(GetCompartmentTreeRequest) → CompartmentTreeResponse
+ *   - listRegionSubscriptions(ListRegionSubscriptionsRequest) → ListRegionSubscriptionsResponse
+ *   - updateFeatureRegionSelection(UpdateFeatureRegionSelectionRequest) → {}
  *   - subscribeToState() → stream AppState
  *
  * ChatService:
@@ -688,6 +1551,24 @@ export interface ListSpeechTranscriptionTasksResponse {
  *   - generateOcaApiKey() → OcaGenerateApiKeyResponse
  *   - startOcaProxy() → {}
  *   - stopOcaProxy() → {}
+ *
+ * ApiTraceService:
+ *   - listEntries() → ApiTraceState
+ *   - clear() → {}
+ *   - showOutput() → {}
+ *   - copyForSupport(CopyApiTraceEntryRequest) → {}
+ *   - subscribeToEntries() → stream ApiTraceState
+ *
+ * WorkRequestService:
+ *   - listOperations() → WorkRequestsState
+ *   - dismiss(DismissWorkRequestRequest) → {}
+ *   - subscribeToOperations() → stream WorkRequestsState
+ *
+ * RunCommandService:
+ *   - listRuns() → RunCommandState
+ *   - cancel(CancelRunCommandRequest) → {}
+ *   - dismiss(DismissRunCommandRequest) → {}
+ *   - subscribeToRuns() → stream RunCommandState
  */
 
 // --- OCA Proxy Types ---
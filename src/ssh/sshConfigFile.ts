@@ -0,0 +1,152 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+
+export const DEFAULT_SSH_CONFIG_FILE = path.join(os.homedir(), ".ssh", "config");
+
+const BLOCK_START = "# >>> OCI AI managed hosts (regenerated by the extension; edits here are overwritten) >>>";
+const BLOCK_END = "# <<< OCI AI managed hosts <<<";
+const RESOURCE_MARKER = /^# (ocid1\.\S+)$/;
+
+/** One Host entry written for an OCI resource. */
+export type ManagedSshHost = {
+  /** OCID the entry belongs to; an entry for the same OCID is replaced */
+  resourceId: string;
+  /** Preferred alias; a suffix is added when another host already uses it */
+  alias: string;
+  hostName: string;
+  user: string;
+  port?: number;
+  identityFile?: string;
+  proxyCommand?: string;
+  disableHostKeyChecking?: boolean;
+};
+
+/** Remote-SSH's remote.SSH.configFile when set, otherwise ~/.ssh/config. */
+export function resolveSshConfigFilePath(configured?: string): string {
+  const trimmed = String(configured ?? "").trim();
+  return trimmed.length > 0 ? expandHome(trimmed) : DEFAULT_SSH_CONFIG_FILE;
+}
+
+/**
+ * Write hosts into the managed block of an SSH config file, replacing entries for the same
+ * resources and keeping everything outside the block as it is. A new block goes at the top so
+ * its options win over broader `Host *` sections. Returns the alias used for each resource.
+ */
+export async function upsertManagedSshHosts(filePath: string, hosts: ManagedSshHost[]): Promise<Map<string, string>> {
+  let content = "";
+  try {
+    content = await fs.readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+  }
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = content.length > 0 ? content.split(/\r?\n/) : [];
+  const start = lines.indexOf(BLOCK_START);
+  const end = start >= 0 ? lines.indexOf(BLOCK_END, start + 1) : -1;
+  if (start >= 0 && end < 0) {
+    throw new Error(`${filePath} has the start of the OCI AI managed block but not its end line. Fix or remove it, then retry.`);
+  }
+  const before = start >= 0 ? lines.slice(0, start) : [];
+  const after = start >= 0 ? lines.slice(end + 1) : lines;
+
+  const entries = parseManagedEntries(start >= 0 ? lines.slice(start + 1, end) : []);
+  const updatedIds = new Set(hosts.map((host) => host.resourceId));
+  const takenAliases = new Set([
+    ...readHostPatterns([...before, ...after]),
+    ...[...entries].filter(([resourceId]) => !updatedIds.has(resourceId)).flatMap(([, entryLines]) => readHostPatterns(entryLines)),
+  ]);
+
+  const aliases = new Map<string, string>();
+  for (const host of hosts) {
+    const alias = pickAlias(sanitizeAlias(host.alias), host.resourceId, takenAliases);
+    takenAliases.add(alias);
+    aliases.set(host.resourceId, alias);
+    entries.set(host.resourceId, renderHost(host, alias));
+  }
+
+  const block = [BLOCK_START, ...[...entries.values()].flatMap((entryLines) => [...entryLines, ""]), BLOCK_END];
+  const next = start >= 0
+    ? [...before, ...block, ...after]
+    : [...block, ...(after.length > 0 ? ["", ...after] : [])];
+  const text = next.join(eol);
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  await fs.writeFile(filePath, text.endsWith(eol) ? text : text + eol, { encoding: "utf8", mode: 0o600 });
+  return aliases;
+}
+
+function parseManagedEntries(blockLines: string[]): Map<string, string[]> {
+  const entries = new Map<string, string[]>();
+  let current: string[] | undefined;
+  for (const line of blockLines) {
+    const marker = RESOURCE_MARKER.exec(line.trim());
+    if (marker) {
+      current = [line];
+      entries.set(marker[1], current);
+    } else if (current && line.trim().length > 0) {
+      current.push(line);
+    }
+  }
+  return entries;
+}
+
+function readHostPatterns(lines: string[]): string[] {
+  return lines.flatMap((line) => {
+    const match = /^\s*Host\s+(.+)$/i.exec(line);
+    return match ? match[1].trim().split(/\s+/) : [];
+  });
+}
+
+function renderHost(host: ManagedSshHost, alias: string): string[] {
+  const lines = [`# ${host.resourceId}`, `Host ${alias}`, `  HostName ${host.hostName}`, `  User ${host.user}`];
+  if (host.port && host.port !== 22) {
+    lines.push(`  Port ${host.port}`);
+  }
+  if (host.identityFile) {
+    lines.push(`  IdentityFile ${quoteValue(host.identityFile)}`, "  IdentitiesOnly yes");
+  }
+  if (host.proxyCommand) {
+    lines.push(`  ProxyCommand ${host.proxyCommand}`);
+  }
+  if (host.disableHostKeyChecking) {
+    lines.push("  StrictHostKeyChecking no", "  UserKnownHostsFile /dev/null");
+  }
+  return lines;
+}
+
+function pickAlias(base: string, resourceId: string, taken: Set<string>): string {
+  if (!taken.has(base)) {
+    return base;
+  }
+  const withId = `${base}-${resourceId.slice(-6).toLowerCase()}`;
+  if (!taken.has(withId)) {
+    return withId;
+  }
+  let index = 2;
+  while (taken.has(`${withId}-${index}`)) {
+    index += 1;
+  }
+  return `${withId}-${index}`;
+}
+
+function sanitizeAlias(value: string): string {
+  const alias = value.trim().replace(/[^A-Za-z0-9_.-]+/g, "-").replace(/^-+|-+$/g, "");
+  return alias || "oci-host";
+}
+
+function quoteValue(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+function expandHome(value: string): string {
+  if (value === "~") {
+    return os.homedir();
+  }
+  if (value.startsWith("~/") || value.startsWith("~\\")) {
+    return path.join(os.homedir(), value.slice(2));
+  }
+  return value;
+}
@@ -0,0 +1,104 @@
+import * as assert from "assert/strict";
+import { afterEach, beforeEach, mock, test } from "node:test";
+import { RunCommandTracker } from "../oci/runCommandTracker";
+import { WorkRequestTracker, type TrackWorkRequestInput, type WorkRequestProgress } from "../oci/workRequestTracker";
+import type { RunCommandExecution } from "../shared/services";
+
+const LAUNCH: TrackWorkRequestInput = {
+  kind: "launchInstance",
+  feature: "compute",
+  resourceId: "ocid1.instance.oc1..new",
+  resourceName: "web",
+  region: "us-ashburn-1",
+};
+
+function execution(instanceId: string): RunCommandExecution {
+  return { instanceId, instanceName: instanceId, region: "us-ashburn-1", commandId: `cmd-${instanceId}`, status: "IN_PROGRESS" };
+}
+
+beforeEach(() => {
+  mock.timers.enable({ apis: ["setTimeout"] });
+});
+
+afterEach(() => {
+  mock.timers.reset();
+});
+
+/** Run the next poll round and let its promises settle */
+async function nextRound(): Promise<void> {
+  mock.timers.tick(5_000);
+  for (let i = 0; i < 10; i += 1) {
+    await Promise.resolve();
+  }
+}
+
+test("polls a work request until it settles and reports it once", async () => {
+  const tracker = new WorkRequestTracker();
+  const settled: string[] = [];
+  tracker.onDidSettle((entry) => settled.push(entry.status));
+  const progress: WorkRequestProgress[] = [
+    { status: "IN_PROGRESS", percentComplete: 50 },
+    { status: "SUCCEEDED", percentComplete: 100 },
+  ];
+  const entry = tracker.track(LAUNCH, async () => progress.shift() ?? { status: "SUCCEEDED" });
+
+  await nextRound();
+  assert.equal(tracker.getOperations()[0].percentComplete, 50);
+  await nextRound();
+  await nextRound();
+
+  const [operation] = tracker.getOperations();
+  assert.equal(operation.id, entry.id);
+  assert.equal(operation.status, "SUCCEEDED");
+  assert.ok(operation.finishedAt);
+  assert.deepEqual(settled, ["SUCCEEDED"]);
+  tracker.dispose();
+});
+
+test("gives up on a work request after repeated poll failures", async () => {
+  const tracker = new WorkRequestTracker();
+  tracker.track(LAUNCH, async () => {
+    throw new Error("boom");
+  });
+
+  for (let round = 0; round < 4; round += 1) {
+    await nextRound();
+    assert.equal(tracker.getOperations()[0].status, "IN_PROGRESS");
+  }
+  await nextRound();
+
+  const [operation] = tracker.getOperations();
+  assert.equal(operation.status, "FAILED");
+  assert.match(operation.errorMessage ?? "", /Stopped following the work request: boom/);
+  tracker.dispose();
+});
+
+test("counts Run Command failures per instance and keeps a dismissed run dismissed", async () => {
+  const tracker = new RunCommandTracker();
+  const run = tracker.start(
+    { scriptName: "check.sh", scriptPath: "/work/check.sh", timeoutSeconds: 60, executions: [execution("a"), execution("b")] },
+    async ({ instanceId }) => {
+      if (instanceId === "a") {
+        throw new Error("agent unreachable");
+      }
+      return { status: "SUCCEEDED", exitCode: 0 };
+    }
+  );
+
+  await nextRound();
+  const afterOne = tracker.getRun(run.id);
+  assert.deepEqual(afterOne?.executions.map((execution) => execution.status), ["IN_PROGRESS", "SUCCEEDED"]);
+  assert.equal(afterOne?.finishedAt, undefined);
+
+  for (let round = 0; round < 4; round += 1) {
+    await nextRound();
+  }
+  const finished = tracker.getRun(run.id);
+  assert.deepEqual(finished?.executions.map((execution) => execution.status), ["FAILED", "SUCCEEDED"]);
+  assert.ok(finished?.finishedAt);
+
+  tracker.dismiss(run.id);
+  await nextRound();
+  assert.equal(tracker.getRun(run.id), undefined);
+  tracker.dispose();
+});
@@ -0,0 +1,80 @@
+import * as assert from "assert/strict";
+import * as http from "http";
+import { afterEach, beforeEach, test } from "node:test";
+import { MOCK_COMPARTMENT_ID, MOCK_TENANCY_ID } from "./mockOciServer";
+import { MOCK_REGION, createTestEnvironment, type TestEnvironment } from "./harness";
+import { setSettings } from "./vscode";
+
+let env: TestEnvironment;
+
+beforeEach(async () => {
+  env = await createTestEnvironment();
+});
+
+afterEach(async () => {
+  await env.dispose();
+});
+
+test("lists compute instances and bastions with their region errors", async () => {
+  const controller = env.controller();
+
+  const compute = await controller.listComputeInstances();
+  assert.equal(compute.items.length, 2);
+  assert.deepEqual(compute.regionErrors, []);
+
+  await controller.updateFeatureRegionSelection("bastion", [MOCK_REGION, "us-phoenix-1"]);
+  env.server.failNext("GET", "/20210331/bastions", 404, 1);
+  const bastions = await controller.listBastions();
+  assert.equal(bastions.bastions.length, 1);
+  assert.equal(bastions.regionErrors?.length, 1);
+});
+
+test("builds the compartment tree of the tenancy with name paths", async () => {
+  const tree = await env.controller().getCompartmentTree();
+
+  assert.equal(tree.tenancyOcid, MOCK_TENANCY_ID);
+  assert.deepEqual(
+    tree.compartments.map((compartment) => [compartment.id, compartment.path]),
+    [
+      [MOCK_COMPARTMENT_ID, "mock"],
+      ["ocid1.compartment.oc1..mockchild", "mock / mock-child"],
+    ]
+  );
+});
+
+test("lists the region subscriptions with the home region first", async () => {
+  const response = await env.controller().listRegionSubscriptions();
+
+  assert.equal(response.profile, "DEFAULT");
+  assert.deepEqual(response.regions.map((region) => region.regionName), [MOCK_REGION, "us-phoenix-1"]);
+  assert.equal(response.regions[0].isHomeRegion, true);
+});
+
+test("keeps feature region selections per profile", async () => {
+  const controller = env.controller();
+  await controller.updateFeatureRegionSelection("compute", ["us-phoenix-1", "us-phoenix-1", " "]);
+  assert.deepEqual((await controller.getState()).featureRegionMap, { compute: ["us-phoenix-1"] });
+
+  setSettings({ "ociAi.activeProfile": "OTHER" });
+  assert.deepEqual((await controller.getState()).featureRegionMap, {});
+
+  setSettings({ "ociAi.activeProfile": "DEFAULT" });
+  await controller.updateFeatureRegionSelection("compute", []);
+  assert.deepEqual((await controller.getState()).featureRegionMap, {});
+});
+
+test("reads the public IP from the configured lookup service", async () => {
+  const lookup = http.createServer((_req, res) => res.end("198.51.100.7\n"));
+  await new Promise<void>((resolve) => lookup.listen(0, "127.0.0.1", resolve));
+  try {
+    const address = lookup.address();
+    const port = typeof address === "object" && address ? address.port : 0;
+    setSettings({ "ociAi.publicIpLookupUrl": `http://127.0.0.1:${port}/` });
+    assert.deepEqual(await env.controller().getPublicIp(), { ipAddress: "198.51.100.7" });
+
+    setSettings({ "ociAi.publicIpLookupUrl": "" });
+    await assert.rejects(env.controller().getPublicIp(), /turned off/);
+  } finally {
+    await new Promise((resolve) => lookup.close(resolve));
+  }
+});
@@ -0,0 +1,121 @@
+import * as crypto from "crypto";
+import * as vscode from "vscode";
+import { AuthManager } from "../auth/authManager";
+import { Controller } from "../controller";
+import { OcaProxyManager } from "../oca-proxy/ocaProxyManager";
+import { AdbSqlService } from "../oci/adbSqlService";
+import { ApiTraceLog } from "../oci/apiTrace";
+import { OciClientFactory } from "../oci/clientFactory";
+import { GenAiService } from "../oci/genAiService";
+import { OciService } from "../oci/ociService";
+import { MOCK_COMPARTMENT_ID, MOCK_TENANCY_ID, startMockOciServer, type MockOciServer } from "./mockOciServer";
+import { createExtensionContext, resetSettings, setSettings } from "./vscode";
+
+export const MOCK_REGION = "us-ashburn-1";
+
+/** Every listing feature, pointed at the mock compartment */
+const FEATURE_COMPARTMENT_SETTINGS = [
+  "computeCompartmentIds",
+  "adbCompartmentIds",
+  "dbSystemCompartmentIds",
+  "vcnCompartmentIds",
+  "objectStorageCompartmentIds",
+  "bastionCompartmentIds",
+];
+
+export interface TestEnvironment {
+  server: MockOciServer;
+  context: ReturnType<typeof createExtensionContext>;
+  authManager: AuthManager;
+  factory: OciClientFactory;
+  ociService: OciService;
+  /** Built on first use, since most service tests do not need it */
+  controller(): Controller;
+  dispose(): Promise<void>;
+}
+
+/**
+ * The services wired as activate() wires them, against a fresh mock OCI server. The DEFAULT profile
+ * signs with a generated API key and every listing feature selects the mock compartment; pass
+ * settings to change or add to that.
+ */
+export async function createTestEnvironment(settings: Record<string, unknown> = {}): Promise<TestEnvironment> {
+  resetSettings();
+  const server = await startMockOciServer({ transitionMs: 20 });
+  setSettings({
+    "ociAi.endpointOverride": server.url,
+    "ociAi.activeProfile": "DEFAULT",
+    "ociAi.profileRegionMap": { DEFAULT: MOCK_REGION },
+    "ociAi.region": MOCK_REGION,
+    "ociAi.requestMaxRetries": 0,
+    ...Object.fromEntries(FEATURE_COMPARTMENT_SETTINGS.map((key) => [`ociAi.${key}`, [MOCK_COMPARTMENT_ID]])),
+    ...settings,
+  });
+
+  const context = createExtensionContext();
+  const extensionContext = context as unknown as vscode.ExtensionContext;
+  const authManager = new AuthManager(extensionContext);
+  const { privateKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+  await authManager.updateApiKeySecrets({
+    tenancyOcid: MOCK_TENANCY_ID,
+    userOcid: "ocid1.user.oc1..mockuser",
+    fingerprint: "00:11:22:33:44:55:66:77:88:99:aa:bb:cc:dd:ee:ff",
+    privateKey: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    privateKeyPassphrase: "",
+  }, "DEFAULT");
+
+  const apiTrace = new ApiTraceLog();
+  const factory = new OciClientFactory(authManager, apiTrace);
+  const ociService = new OciService(factory);
+  const adbSqlService = new AdbSqlService(factory, context.globalStoragePath);
+  const ocaProxyManager = new OcaProxyManager(extensionContext);
+  let controller: Controller | undefined;
+
+  return {
+    server,
+    context,
+    authManager,
+    factory,
+    ociService,
+    controller() {
+      controller ??= new Controller(
+        authManager,
+        ociService,
+        new GenAiService(factory),
+        adbSqlService,
+        extensionContext.workspaceState,
+        ocaProxyManager,
+        context.extensionPath,
+        apiTrace
+      );
+      return controller;
+    },
+    async dispose() {
+      controller?.dispose();
+      await adbSqlService.dispose();
+      ocaProxyManager.dispose();
+      apiTrace.dispose();
+      ociService.resourceCache.dispose();
+      ociService.workRequestTracker.dispose();
+      ociService.runCommandTracker.dispose();
+      context.dispose();
+      await server.close();
+      resetSettings();
+    },
+  };
+}
+
+/** Poll until check returns a value other than undefined, e.g. for a resource to settle. */
+export async function waitFor<T>(check: () => Promise<T | undefined>, timeoutMs = 2000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = await check();
+    if (value !== undefined) {
+      return value;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Condition not met within ${timeoutMs}ms.`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
@@ -0,0 +1,32 @@
+/** Typed entry to scripts/mock-oci-server.js for the tests. */
+
+export interface MockOciServer {
+  url: string;
+  port: number;
+  /** The live mock state; tests may read or change it between calls */
+  state: Record<string, any>;
+  /** The latest requests served, with the keyId of their signature when they had one */
+  requests: { method: string; path: string; keyId?: string }[];
+  failNext(method: string | undefined, pathPrefix: string, status: number, times?: number, retryAfter?: number | string): void;
+  close(): Promise<void>;
+}
+
+interface MockOciServerModule {
+  MOCK_COMPARTMENT_ID: string;
+  MOCK_INSTANCE_ID: string;
+  MOCK_NAMESPACE: string;
+  MOCK_TENANCY_ID: string;
+  createMockSecurityToken(claims?: Record<string, unknown>): string;
+  startMockOciServer(options?: { port?: number; host?: string; transitionMs?: number }): Promise<MockOciServer>;
+}
+
+const mockModule = require("../../scripts/mock-oci-server.js") as MockOciServerModule;
+
+export const {
+  MOCK_COMPARTMENT_ID,
+  MOCK_INSTANCE_ID,
+  MOCK_NAMESPACE,
+  MOCK_TENANCY_ID,
+  createMockSecurityToken,
+  startMockOciServer,
+} = mockModule;
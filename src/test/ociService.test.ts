@@ -0,0 +1,78 @@
+import * as assert from "assert/strict";
+import { afterEach, beforeEach, test } from "node:test";
+import { MOCK_COMPARTMENT_ID } from "./mockOciServer";
+import { MOCK_REGION, createTestEnvironment, waitFor, type TestEnvironment } from "./harness";
+import { setSettings } from "./vscode";
+
+let env: TestEnvironment;
+
+beforeEach(async () => {
+  env = await createTestEnvironment();
+});
+
+afterEach(async () => {
+  await env.dispose();
+});
+
+test("lists every feature from the selected compartment", async () => {
+  const compute = await env.ociService.listComputeInstances();
+  assert.deepEqual(compute.items.map((instance) => instance.name).sort(), ["mock-batch-1", "mock-web-1"]);
+  assert.deepEqual(compute.regionErrors, []);
+  assert.ok(compute.items.every((instance) => instance.region === MOCK_REGION && instance.compartmentId === MOCK_COMPARTMENT_ID));
+
+  assert.deepEqual((await env.ociService.listAutonomousDatabases()).items.map((adb) => adb.name), ["MOCKADB"]);
+  assert.deepEqual((await env.ociService.listDbSystems()).items.map((dbSystem) => dbSystem.name), ["mock-dbsystem"]);
+  assert.deepEqual((await env.ociService.listVcns()).items.map((vcn) => vcn.name), ["mock-vcn"]);
+  assert.deepEqual((await env.ociService.listBastions()).items.map((bastion) => bastion.name), ["mock-bastion"]);
+  const buckets = await env.ociService.listObjectStorageBuckets();
+  assert.ok(buckets.items.some((bucket) => bucket.name === "mock-bucket"));
+});
+
+test("returns nothing without calling OCI when no compartment is selected", async () => {
+  setSettings({ "ociAi.vcnCompartmentIds": [] });
+  env.server.failNext("GET", "/20160918/vcns", 500, 10);
+
+  assert.deepEqual(await env.ociService.listVcns(), { items: [], regionErrors: [] });
+});
+
+test("keeps the regions that answer when one region fails", async () => {
+  await env.authManager.updateFeatureRegionsForProfile("DEFAULT", "vcn", [MOCK_REGION, "us-phoenix-1"]);
+  env.server.failNext("GET", "/20160918/vcns", 404, 1);
+
+  const listing = await env.ociService.listVcns(true);
+
+  assert.equal(listing.items.length, 1);
+  assert.equal(listing.regionErrors.length, 1);
+  assert.notEqual(listing.regionErrors[0].region, listing.items[0].region);
+  assert.match(listing.regionErrors[0].message, /Injected fault/);
+});
+
+test("throws when every selected region fails", async () => {
+  await env.authManager.updateFeatureRegionsForProfile("DEFAULT", "bastion", [MOCK_REGION, "us-phoenix-1"]);
+  env.server.failNext("GET", "/20210331/bastions", 404, 2);
+
+  await assert.rejects(env.ociService.listBastions(), /us-ashburn-1: .*Injected fault[\s\S]*us-phoenix-1: .*Injected fault/);
+});
+
+test("starts a stopped instance and the refreshed listing shows it running", async () => {
+  await env.ociService.listComputeInstances();
+  await env.ociService.startComputeInstance("ocid1.instance.oc1..mockstopped", MOCK_REGION);
+
+  const started = await waitFor(async () => {
+    const { items } = await env.ociService.listComputeInstances(true);
+    const instance = items.find((candidate) => candidate.id === "ocid1.instance.oc1..mockstopped");
+    return instance?.lifecycleState === "RUNNING" ? instance : undefined;
+  });
+  assert.equal(started.name, "mock-batch-1");
+});
+
+test("removes the access control list of an autonomous database with an empty list", async () => {
+  const adbId = "ocid1.autonomousdatabase.oc1..mockadb";
+  const adb = env.server.state.autonomousDatabases.find((candidate: { id: string }) => candidate.id === adbId);
+  adb.whitelistedIps = ["203.0.113.10"];
+
+  await env.ociService.updateAutonomousDatabaseAccessControl({ autonomousDatabaseId: adbId, region: MOCK_REGION, whitelistedIps: [] });
+
+  await waitFor(async () => (adb.lifecycleState === "AVAILABLE" ? true : undefined));
+  assert.deepEqual(adb.whitelistedIps, []);
+});
@@ -0,0 +1,97 @@
+import * as assert from "assert/strict";
+import * as crypto from "crypto";
+import { afterEach, beforeEach, test } from "node:test";
+import { MOCK_COMPARTMENT_ID, MOCK_INSTANCE_ID, MOCK_TENANCY_ID, createMockSecurityToken } from "./mockOciServer";
+import { MOCK_REGION, createTestEnvironment, type TestEnvironment } from "./harness";
+import { setSettings } from "./vscode";
+
+/** Signs in without stored API keys, so the tenancy can only come from the principal. */
+const PRINCIPAL_PROFILE = "PRINCIPAL";
+
+const RESOURCE_PRINCIPAL_ENV = [
+  "OCI_RESOURCE_PRINCIPAL_VERSION",
+  "OCI_RESOURCE_PRINCIPAL_RPST",
+  "OCI_RESOURCE_PRINCIPAL_PRIVATE_PEM",
+  "OCI_RESOURCE_PRINCIPAL_PRIVATE_PEM_PASSPHRASE",
+  "OCI_RESOURCE_PRINCIPAL_REGION",
+];
+
+let env: TestEnvironment;
+let savedEnv: Record<string, string | undefined>;
+
+beforeEach(async () => {
+  savedEnv = Object.fromEntries(RESOURCE_PRINCIPAL_ENV.map((name) => [name, process.env[name]]));
+  RESOURCE_PRINCIPAL_ENV.forEach((name) => delete process.env[name]);
+  env = await createTestEnvironment({
+    "ociAi.activeProfile": PRINCIPAL_PROFILE,
+    "ociAi.profileRegionMap": { [PRINCIPAL_PROFILE]: MOCK_REGION },
+  });
+});
+
+afterEach(async () => {
+  await env.dispose();
+  for (const [name, value] of Object.entries(savedEnv)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+});
+
+/** keyIds that signed the compute listing requests */
+function computeListingKeyIds(): (string | undefined)[] {
+  return env.server.requests
+    .filter((request) => request.method === "GET" && request.path === "/20160918/instances")
+    .map((request) => request.keyId);
+}
+
+test("signs in with an instance principal from the metadata stand-in", async () => {
+  await env.authManager.updateAuthModeForProfile(PRINCIPAL_PROFILE, "instance-principal");
+  setSettings({ "ociAi.instanceMetadataBaseUrl": `${env.server.url}/opc/v2` });
+  assert.equal(await env.factory.getTenancyOcidAsync(), MOCK_TENANCY_ID);
+
+  const compute = await env.ociService.listComputeInstances();
+
+  assert.equal(compute.items.length, 2);
+  assert.ok(compute.items.some((instance) => instance.id === MOCK_INSTANCE_ID));
+  const keyIds = computeListingKeyIds();
+  assert.ok(keyIds.length > 0);
+  assert.ok(keyIds.every((keyId) => keyId?.startsWith("ST$")), `unexpected keyIds ${keyIds.join(", ")}`);
+  assert.ok(env.server.requests.some((request) => request.method === "POST" && request.path === "/v1/x509"));
+});
+
+test("reports an instance principal failure when the metadata service does not answer", async () => {
+  await env.authManager.updateAuthModeForProfile(PRINCIPAL_PROFILE, "instance-principal");
+  setSettings({ "ociAi.instanceMetadataBaseUrl": `${env.server.url}/opc/missing` });
+
+  await assert.rejects(env.ociService.listComputeInstances(), /Instance principal authentication failed/);
+});
+
+test("signs in with a resource principal from the runtime environment", async () => {
+  const { privateKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+  process.env.OCI_RESOURCE_PRINCIPAL_VERSION = "2.2";
+  process.env.OCI_RESOURCE_PRINCIPAL_RPST = createMockSecurityToken({
+    sub: "ocid1.fnfunc.oc1..mockfunction",
+    res_type: "fnfunc",
+    res_tenant: MOCK_TENANCY_ID,
+    res_compartment: MOCK_COMPARTMENT_ID,
+  });
+  process.env.OCI_RESOURCE_PRINCIPAL_PRIVATE_PEM = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+  process.env.OCI_RESOURCE_PRINCIPAL_REGION = MOCK_REGION;
+  await env.authManager.updateAuthModeForProfile(PRINCIPAL_PROFILE, "resource-principal");
+
+  assert.equal(await env.factory.getTenancyOcidAsync(), MOCK_TENANCY_ID);
+  const compute = await env.ociService.listComputeInstances();
+
+  assert.equal(compute.items.length, 2);
+  const keyIds = computeListingKeyIds();
+  assert.ok(keyIds.length > 0);
+  assert.ok(keyIds.every((keyId) => keyId === `ST$${process.env.OCI_RESOURCE_PRINCIPAL_RPST}`));
+});
+
+test("reports a resource principal failure outside an OCI runtime", async () => {
+  await env.authManager.updateAuthModeForProfile(PRINCIPAL_PROFILE, "resource-principal");
+
+  await assert.rejects(env.ociService.listComputeInstances(), /Resource principal authentication failed/);
+});
@@ -0,0 +1,30 @@
+import * as assert from "assert/strict";
+import * as crypto from "crypto";
+import { test } from "node:test";
+import { decryptProfileBundle, encryptProfileBundle, type ProfileBundle } from "../auth/profileBundle";
+
+const BUNDLE: ProfileBundle = {
+  exportedAt: "2026-01-01T00:00:00.000Z",
+  profiles: [{ name: "DEFAULT", region: "us-ashburn-1", authMode: "api-key", compartments: [], secrets: { fingerprint: "aa:bb" } }],
+  savedCompartments: [],
+};
+
+test("decrypts a bundle with the passphrase it was encrypted with", () => {
+  const content = encryptProfileBundle(BUNDLE, "correct horse");
+
+  assert.deepEqual(decryptProfileBundle(content, "correct horse"), BUNDLE);
+  assert.throws(() => decryptProfileBundle(content, "wrong"), /Wrong passphrase/);
+});
+
+test("rejects a bundle whose authentication tag is shorter than 16 bytes", () => {
+  const envelope = JSON.parse(encryptProfileBundle(BUNDLE, "correct horse"));
+  // Re-encrypt with a 4-byte tag, which GCM would verify if the decipher accepted any tag length.
+  const salt = Buffer.from(envelope.kdf.salt, "base64");
+  const iv = Buffer.from(envelope.iv, "base64");
+  const key = crypto.scryptSync("correct horse", salt, 32, { N: envelope.kdf.N, r: envelope.kdf.r, p: envelope.kdf.p, maxmem: 64 * 1024 * 1024 });
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv, { authTagLength: 4 });
+  envelope.data = Buffer.concat([cipher.update(JSON.stringify(BUNDLE), "utf8"), cipher.final()]).toString("base64");
+  envelope.tag = cipher.getAuthTag().toString("base64");
+
+  assert.throws(() => decryptProfileBundle(JSON.stringify(envelope), "correct horse"), /the bundle has been modified/);
+});
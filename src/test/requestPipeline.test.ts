@@ -0,0 +1,105 @@
+import * as assert from "assert/strict";
+import { afterEach, beforeEach, mock, test } from "node:test";
+import type * as common from "oci-common";
+import { RequestPipeline } from "../oci/requestPipeline";
+import { createTestEnvironment, type TestEnvironment } from "./harness";
+import { setSettings } from "./vscode";
+
+const VCNS_PATH = "/20160918/vcns";
+
+let env: TestEnvironment;
+
+beforeEach(async () => {
+  env = await createTestEnvironment();
+});
+
+afterEach(async () => {
+  mock.timers.reset();
+  await env.dispose();
+});
+
+function vcnRequestCount(): number {
+  return env.server.requests.filter((request) => request.method === "GET" && request.path === VCNS_PATH).length;
+}
+
+test("retries a throttled request after the server's retry-after", async () => {
+  setSettings({ "ociAi.requestMaxRetries": 2 });
+  env.server.failNext("GET", VCNS_PATH, 429, 1, 1);
+
+  const startedAt = Date.now();
+  const listing = await env.ociService.listVcns(true);
+
+  assert.equal(listing.items.length, 1);
+  assert.equal(vcnRequestCount(), 2);
+  // Jittered backoff alone would wait at most 500ms before the first retry.
+  assert.ok(Date.now() - startedAt >= 950, `retried after ${Date.now() - startedAt}ms`);
+});
+
+test("gives up once the retry limit is used", async () => {
+  setSettings({ "ociAi.requestMaxRetries": 2 });
+  env.server.failNext("GET", VCNS_PATH, 503, 5);
+
+  await assert.rejects(env.ociService.listVcns(true), /Injected fault/);
+
+  assert.equal(vcnRequestCount(), 3);
+});
+
+test("opens the circuit after repeated server errors and fails fast", async () => {
+  env.server.failNext("GET", VCNS_PATH, 500, 5);
+  for (let call = 0; call < 5; call += 1) {
+    await assert.rejects(env.ociService.listVcns(true), /Injected fault/);
+  }
+
+  await assert.rejects(env.ociService.listVcns(true), { code: "CircuitOpen" });
+  assert.equal(vcnRequestCount(), 5);
+});
+
+test("closes the circuit when the half-open probe succeeds", async () => {
+  mock.timers.enable({ apis: ["Date"], now: Date.now() });
+  env.server.failNext("GET", VCNS_PATH, 500, 5);
+  for (let call = 0; call < 5; call += 1) {
+    await assert.rejects(env.ociService.listVcns(true), /Injected fault/);
+  }
+  await assert.rejects(env.ociService.listVcns(true), { code: "CircuitOpen" });
+
+  mock.timers.tick(30_000);
+  assert.equal((await env.ociService.listVcns(true)).items.length, 1);
+  assert.equal((await env.ociService.listVcns(true)).items.length, 1);
+  assert.equal(vcnRequestCount(), 7);
+});
+
+test("reopens the circuit at once when the half-open probe fails", async () => {
+  mock.timers.enable({ apis: ["Date"], now: Date.now() });
+  env.server.failNext("GET", VCNS_PATH, 500, 6);
+  for (let call = 0; call < 5; call += 1) {
+    await assert.rejects(env.ociService.listVcns(true), /Injected fault/);
+  }
+
+  mock.timers.tick(30_000);
+  await assert.rejects(env.ociService.listVcns(true), /Injected fault/);
+  await assert.rejects(env.ociService.listVcns(true), { code: "CircuitOpen" });
+  assert.equal(vcnRequestCount(), 6);
+});
+
+test("limits concurrent requests per endpoint", async () => {
+  let active = 0;
+  let peak = 0;
+  const inner: common.HttpClient = {
+    send: async () => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      active -= 1;
+      return new Response("{}", { status: 200 });
+    },
+  };
+  const client = new RequestPipeline(() => ({ maxRetries: 0, maxConcurrencyPerService: 2 })).wrap(inner);
+  const request = (host: string): common.HttpRequest => ({ uri: `https://${host}/20160918/vcns`, method: "GET", headers: new Headers() });
+
+  await Promise.all([
+    ...Array.from({ length: 5 }, () => client.send(request("iaas.us-ashburn-1.oraclecloud.com"))),
+    ...Array.from({ length: 5 }, () => client.send(request("iaas.us-phoenix-1.oraclecloud.com"))),
+  ]);
+
+  assert.equal(peak, 4);
+});
@@ -0,0 +1,115 @@
+import * as assert from "assert/strict";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, test } from "node:test";
+import { upsertManagedSshHosts, type ManagedSshHost } from "../ssh/sshConfigFile";
+
+const BLOCK_START = "# >>> OCI AI managed hosts (regenerated by the extension; edits here are overwritten) >>>";
+const BLOCK_END = "# <<< OCI AI managed hosts <<<";
+
+const WEB: ManagedSshHost = {
+  resourceId: "ocid1.instance.oc1..aaaaweb001",
+  alias: "mock web 1",
+  hostName: "203.0.113.10",
+  user: "opc",
+};
+
+let dir: string;
+let configPath: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "oci-ai-ssh-"));
+  configPath = path.join(dir, ".ssh", "config");
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function writeConfig(text: string): Promise<void> {
+  await fs.mkdir(path.dirname(configPath), { recursive: true });
+  await fs.writeFile(configPath, text);
+}
+
+test("creates the managed block at the top of the file, before existing hosts", async () => {
+  await writeConfig("Host *\n  ServerAliveInterval 60\n");
+
+  const aliases = await upsertManagedSshHosts(configPath, [{ ...WEB, port: 2222, identityFile: "/keys/my key" }]);
+
+  assert.equal(aliases.get(WEB.resourceId), "mock-web-1");
+  assert.equal(await fs.readFile(configPath, "utf8"), [
+    BLOCK_START,
+    `# ${WEB.resourceId}`,
+    "Host mock-web-1",
+    "  HostName 203.0.113.10",
+    "  User opc",
+    "  Port 2222",
+    '  IdentityFile "/keys/my key"',
+    "  IdentitiesOnly yes",
+    "",
+    BLOCK_END,
+    "",
+    "Host *",
+    "  ServerAliveInterval 60",
+    "",
+  ].join("\n"));
+});
+
+test("creates a missing config file", async () => {
+  await upsertManagedSshHosts(configPath, [WEB]);
+
+  const text = await fs.readFile(configPath, "utf8");
+  assert.ok(text.startsWith(`${BLOCK_START}\n# ${WEB.resourceId}\nHost mock-web-1\n`));
+  assert.ok(text.endsWith(`${BLOCK_END}\n`));
+});
+
+test("replaces the entry for the same OCID and keeps content outside the block", async () => {
+  const outsideBefore = "# my notes\nInclude ~/.ssh/work\n";
+  const outsideAfter = "\nHost github.com\n  User git\n";
+  await writeConfig(outsideBefore);
+  await upsertManagedSshHosts(configPath, [WEB]);
+  await fs.appendFile(configPath, outsideAfter);
+
+  const aliases = await upsertManagedSshHosts(configPath, [{ ...WEB, hostName: "198.51.100.20", user: "ubuntu" }]);
+
+  const text = await fs.readFile(configPath, "utf8");
+  assert.equal(aliases.get(WEB.resourceId), "mock-web-1");
+  assert.equal(text.split(`# ${WEB.resourceId}`).length, 2);
+  assert.match(text, /Host mock-web-1\n {2}HostName 198\.51\.100\.20\n {2}User ubuntu\n/);
+  assert.doesNotMatch(text, /203\.0\.113\.10/);
+  assert.ok(text.endsWith(`${BLOCK_END}\n\n${outsideBefore}${outsideAfter}`), text);
+});
+
+test("picks another alias when the name is already taken", async () => {
+  await writeConfig("Host mock-web-1 legacy\n  HostName 192.0.2.1\n");
+
+  const other: ManagedSshHost = { ...WEB, resourceId: "ocid1.instance.oc1..bbbbweb002" };
+  const aliases = await upsertManagedSshHosts(configPath, [WEB, other]);
+
+  assert.equal(aliases.get(WEB.resourceId), "mock-web-1-web001");
+  assert.equal(aliases.get(other.resourceId), "mock-web-1-web002");
+
+  // Updating one entry keeps the alias it already had free for itself.
+  const again = await upsertManagedSshHosts(configPath, [WEB]);
+  assert.equal(again.get(WEB.resourceId), "mock-web-1-web001");
+});
+
+test("keeps CRLF line endings", async () => {
+  await writeConfig("Host *\r\n  ServerAliveInterval 60\r\n");
+
+  await upsertManagedSshHosts(configPath, [WEB]);
+
+  const text = await fs.readFile(configPath, "utf8");
+  assert.ok(text.includes(`${BLOCK_START}\r\n# ${WEB.resourceId}\r\n`));
+  assert.ok(text.endsWith("Host *\r\n  ServerAliveInterval 60\r\n"));
+  assert.doesNotMatch(text, /[^\r]\n/);
+});
+
+test("refuses to write when the managed block has no end marker", async () => {
+  const original = `Host *\n  User opc\n${BLOCK_START}\n# ${WEB.resourceId}\nHost mock-web-1\n`;
+  await writeConfig(original);
+
+  await assert.rejects(upsertManagedSshHosts(configPath, [WEB]), /not its end line/);
+  assert.equal(await fs.readFile(configPath, "utf8"), original);
+});
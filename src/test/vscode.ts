@@ -0,0 +1,308 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+/**
+ * In-memory stand-in for the parts of the VS Code API the extension services use, so the tests run
+ * under plain Node. The test build resolves the "vscode" module to this file. Settings start from
+ * the defaults contributed in package.json, like an empty user settings file; tests change them
+ * with resetSettings and setSettings.
+ */
+
+type Listener<T> = (event: T) => unknown;
+
+export class Disposable {
+  constructor(private readonly callOnDispose: () => unknown) { }
+
+  public static from(...disposables: { dispose(): unknown }[]): Disposable {
+    return new Disposable(() => disposables.forEach((disposable) => disposable.dispose()));
+  }
+
+  public dispose(): void {
+    this.callOnDispose();
+  }
+}
+
+export class EventEmitter<T> {
+  private listeners: Listener<T>[] = [];
+
+  public readonly event = (listener: Listener<T>): Disposable => {
+    this.listeners.push(listener);
+    return new Disposable(() => {
+      this.listeners = this.listeners.filter((candidate) => candidate !== listener);
+    });
+  };
+
+  public fire(data: T): void {
+    for (const listener of [...this.listeners]) {
+      listener(data);
+    }
+  }
+
+  public dispose(): void {
+    this.listeners = [];
+  }
+}
+
+export enum ConfigurationTarget {
+  Global = 1,
+  Workspace = 2,
+  WorkspaceFolder = 3,
+}
+
+export enum TreeItemCollapsibleState {
+  None = 0,
+  Collapsed = 1,
+  Expanded = 2,
+}
+
+export enum StatusBarAlignment {
+  Left = 1,
+  Right = 2,
+}
+
+export class ThemeIcon {
+  constructor(public readonly id: string, public readonly color?: ThemeColor) { }
+}
+
+export class ThemeColor {
+  constructor(public readonly id: string) { }
+}
+
+export class TreeItem {
+  public id?: string;
+  public description?: string;
+  public tooltip?: string;
+  public contextValue?: string;
+  public iconPath?: ThemeIcon;
+  public command?: { command: string; title: string; arguments?: unknown[] };
+
+  constructor(public label: string, public collapsibleState = TreeItemCollapsibleState.None) { }
+}
+
+export class Uri {
+  private constructor(
+    public readonly scheme: string,
+    public readonly fsPath: string,
+    public readonly path: string
+  ) { }
+
+  public static file(fsPath: string): Uri {
+    return new Uri("file", fsPath, fsPath.split(path.sep).join("/"));
+  }
+
+  public static parse(value: string): Uri {
+    const url = new URL(value);
+    return new Uri(url.protocol.replace(/:$/, ""), decodeURIComponent(url.pathname), url.pathname);
+  }
+
+  public static joinPath(base: Uri, ...segments: string[]): Uri {
+    return Uri.file(path.join(base.fsPath, ...segments));
+  }
+
+  public toString(): string {
+    return this.scheme === "file" ? `file://${this.path}` : `${this.scheme}:${this.path}`;
+  }
+}
+
+const contributedDefaults = readContributedDefaults();
+const settings = new Map<string, unknown>();
+const onDidChangeConfigurationEmitter = new EventEmitter<{ affectsConfiguration(section: string): boolean }>();
+const onDidChangeWorkspaceFoldersEmitter = new EventEmitter<{ added: unknown[]; removed: unknown[] }>();
+
+function readContributedDefaults(): Map<string, unknown> {
+  const manifest = JSON.parse(fs.readFileSync(path.join(__dirname, "..", "..", "package.json"), "utf8")) as {
+    contributes?: { configuration?: { properties?: Record<string, { default?: unknown }> } };
+  };
+  const properties = manifest.contributes?.configuration?.properties ?? {};
+  return new Map(Object.entries(properties).map(([key, schema]) => [key, schema.default]));
+}
+
+function readSetting(key: string): unknown {
+  const value = settings.has(key) ? settings.get(key) : contributedDefaults.get(key);
+  return value === undefined ? undefined : structuredClone(value);
+}
+
+function writeSetting(key: string, value: unknown): void {
+  if (value === undefined) {
+    settings.delete(key);
+  } else {
+    settings.set(key, structuredClone(value));
+  }
+  onDidChangeConfigurationEmitter.fire({
+    affectsConfiguration: (section) => key === section || key.startsWith(`${section}.`),
+  });
+}
+
+/** Drop every setting written by a previous test, back to the package.json defaults. */
+export function resetSettings(): void {
+  settings.clear();
+}
+
+/** Write user settings by full key, e.g. { "ociAi.endpointOverride": url }. */
+export function setSettings(values: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(values)) {
+    writeSetting(key, value);
+  }
+}
+
+export const workspace = {
+  workspaceFolders: undefined,
+  onDidChangeConfiguration: onDidChangeConfigurationEmitter.event,
+  onDidChangeWorkspaceFolders: onDidChangeWorkspaceFoldersEmitter.event,
+  getConfiguration(section?: string) {
+    const fullKey = (key: string) => (section ? `${section}.${key}` : key);
+    return {
+      get<T>(key: string, defaultValue?: T): T | undefined {
+        const value = readSetting(fullKey(key)) as T | undefined;
+        return value === undefined ? defaultValue : value;
+      },
+      has(key: string): boolean {
+        return readSetting(fullKey(key)) !== undefined;
+      },
+      inspect<T>(key: string) {
+        return {
+          key: fullKey(key),
+          defaultValue: contributedDefaults.get(fullKey(key)) as T | undefined,
+          globalValue: settings.get(fullKey(key)) as T | undefined,
+        };
+      },
+      async update(key: string, value: unknown): Promise<void> {
+        writeSetting(fullKey(key), value);
+      },
+    };
+  },
+};
+
+export const window = {
+  async showInformationMessage(): Promise<undefined> {
+    return undefined;
+  },
+  async showWarningMessage(): Promise<undefined> {
+    return undefined;
+  },
+  async showErrorMessage(): Promise<undefined> {
+    return undefined;
+  },
+  async showInputBox(): Promise<undefined> {
+    return undefined;
+  },
+  async showQuickPick(): Promise<undefined> {
+    return undefined;
+  },
+  async showOpenDialog(): Promise<undefined> {
+    return undefined;
+  },
+  async showSaveDialog(): Promise<undefined> {
+    return undefined;
+  },
+  setStatusBarMessage(): Disposable {
+    return new Disposable(() => undefined);
+  },
+  createOutputChannel(name: string) {
+    const lines: string[] = [];
+    return {
+      name,
+      lines,
+      append: (value: string) => lines.push(value),
+      appendLine: (value: string) => lines.push(value),
+      clear: () => lines.splice(0, lines.length),
+      show: () => undefined,
+      dispose: () => undefined,
+    };
+  },
+};
+
+export const commands = {
+  async executeCommand(): Promise<undefined> {
+    return undefined;
+  },
+  registerCommand(): Disposable {
+    return new Disposable(() => undefined);
+  },
+};
+
+export const extensions = {
+  getExtension(): undefined {
+    return undefined;
+  },
+};
+
+export const env = {
+  clipboard: {
+    async writeText(): Promise<void> { },
+    async readText(): Promise<string> {
+      return "";
+    },
+  },
+  async openExternal(): Promise<boolean> {
+    return true;
+  },
+};
+
+class MemoryMemento {
+  private readonly values = new Map<string, unknown>();
+
+  public keys(): readonly string[] {
+    return [...this.values.keys()];
+  }
+
+  public get<T>(key: string, defaultValue?: T): T | undefined {
+    return this.values.has(key) ? structuredClone(this.values.get(key)) as T : defaultValue;
+  }
+
+  public async update(key: string, value: unknown): Promise<void> {
+    if (value === undefined) {
+      this.values.delete(key);
+    } else {
+      this.values.set(key, structuredClone(value));
+    }
+  }
+
+  public setKeysForSync(): void { }
+}
+
+class MemorySecretStorage {
+  private readonly values = new Map<string, string>();
+  private readonly onDidChangeEmitter = new EventEmitter<{ key: string }>();
+  public readonly onDidChange = this.onDidChangeEmitter.event;
+
+  public async get(key: string): Promise<string | undefined> {
+    return this.values.get(key);
+  }
+
+  public async store(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+    this.onDidChangeEmitter.fire({ key });
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.values.delete(key);
+    this.onDidChangeEmitter.fire({ key });
+  }
+}
+
+/**
+ * Extension context backed by memory and a temporary storage directory. Call dispose to run the
+ * registered disposables and remove the directory.
+ */
+export function createExtensionContext() {
+  const storagePath = fs.mkdtempSync(path.join(os.tmpdir(), "oci-ai-test-"));
+  const subscriptions: { dispose(): unknown }[] = [];
+  return {
+    subscriptions,
+    extensionPath: path.join(__dirname, "..", ".."),
+    extensionUri: Uri.file(path.join(__dirname, "..", "..")),
+    globalStorageUri: Uri.file(storagePath),
+    globalStoragePath: storagePath,
+    globalState: new MemoryMemento(),
+    workspaceState: new MemoryMemento(),
+    secrets: new MemorySecretStorage(),
+    dispose(): void {
+      for (const subscription of subscriptions.splice(0, subscriptions.length)) {
+        subscription.dispose();
+      }
+      fs.rmSync(storagePath, { recursive: true, force: true });
+    },
+  };
+}
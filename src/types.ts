@@ -10,6 +10,9 @@ export interface ComputeResource {
   privateIp?: string;
   subnetId?: string;
   vcnId?: string;
+  shape?: string;
+  ocpus?: number;
+  memoryInGBs?: number;
 }
 
 export interface DbSystemResource {
@@ -26,12 +29,30 @@ export interface DbSystemResource {
   vcnId?: string;
 }
 
+/** One compartment of the tenancy hierarchy; root (the tenancy itself) is not included. */
+export interface CompartmentResource {
+  id: string;
+  name: string;
+  description?: string;
+  /** Tenancy OCID for top-level compartments */
+  parentId: string;
+  /** Names from the first-level compartment down to this one, e.g. "Prod / App" */
+  path: string;
+  lifecycleState: string;
+}
+
 export interface AdbResource {
   id: string;
   name: string;
   lifecycleState: ResourceState | string;
   compartmentId?: string;
   region?: string;
+  dbWorkload?: string;
+  computeCount?: number;
+  dataStorageSizeInTBs?: number;
+  isAutoScalingEnabled?: boolean;
+  isAutoScalingForStorageEnabled?: boolean;
+  backupRetentionPeriodInDays?: number;
 }
 
 export interface VcnResource {
@@ -175,3 +196,15 @@ export interface SpeechTranscriptionTaskResource {
   outputBucketName?: string;
   outputObjectNames?: string[];
 }
+
+/** A selected region whose listing failed while the other regions were listed. */
+export interface RegionListingError {
+  region: string;
+  message: string;
+}
+
+/** Resources from every region that answered, and the regions that did not. */
+export interface RegionListing<T> {
+  items: T[];
+  regionErrors: RegionListingError[];
+}
@@ -1,5 +1,5 @@
 import { useEffect, useMemo, useState, type ReactNode } from "react"
-import { AudioLines, Bot, Database, History, Layers, MessageSquareText, Network, Plug, Server, Settings2, Shield, Sparkles, SquareTerminal } from "lucide-react"
+import { Activity, AudioLines, Bot, Database, History, Layers, MessageSquareText, Network, Plug, Server, Settings2, Shield, Sparkles, SquareTerminal } from "lucide-react"
 import AdbView from "./components/adb/AdbView"
 import ChatView from "./components/chat/ChatView"
 import ComputeView from "./components/compute/ComputeView"
@@ -12,6 +12,7 @@ import CreateBastionSessionView from "./components/bastion/CreateBastionSessionV
 import McpServersView from "./components/mcp/McpServersView"
 import SettingsView, { SETTINGS_TABS, type SettingsTab } from "./components/settings/SettingsView"
 import SqlWorkbenchView from "./components/sql/SqlWorkbenchView"
+import ApiTraceView from "./components/trace/ApiTraceView"
 import SubagentInspector from "./components/subagents/SubagentInspector"
 import SubagentsView from "./components/subagents/SubagentsView"
 import Card from "./components/ui/Card"
@@ -168,6 +169,13 @@ const VIEW_DEFINITIONS: Record<WorkbenchView, ViewDefinition> = {
     primary: "administration",
     icon: <Settings2 size={15} />,
   },
+  apiTrace: {
+    id: "apiTrace",
+    label: "API Trace",
+    description: "Review recent OCI API calls and copy opc-request-id details for support tickets.",
+    primary: "administration",
+    icon: <Activity size={15} />,
+  },
 }
 
 const PRIMARY_ITEMS: WorkbenchPrimaryItem[] = [
@@ -210,6 +218,10 @@ const PRIMARY_GROUPS: Record<Exclude<PrimarySection, "home">, WorkbenchSecondary
       title: "Settings",
       items: SETTINGS_TABS.map(toSettingsSecondaryItem),
     },
+    {
+      title: "Diagnostics",
+      items: [toSecondaryItem("apiTrace")],
+    },
   ],
 }
 
@@ -507,6 +519,8 @@ function renderActiveView({
       return <HistoryView messages={messages} onBack={onReturnToChat} onClear={onClearHistory} />
     case "mcpServers":
       return <McpServersView />
+    case "apiTrace":
+      return <ApiTraceView />
     case "subagents":
       return <SubagentsView selectedRunId={selectedSubagentId} onSelectRun={onSelectSubagent} />
     case "vcn":
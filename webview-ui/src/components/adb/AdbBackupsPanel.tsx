@@ -0,0 +1,279 @@
+import { AlertCircle, ArchiveRestore, DatabaseBackup, History } from "lucide-react"
+import { useCallback, useEffect, useState } from "react"
+import { ResourceServiceClient } from "../../services/grpc-client"
+import type { AdbBackup, AdbResource, ListAdbBackupsResponse, TrackedWorkRequest } from "../../services/types"
+import InlineNotice from "../ui/InlineNotice"
+import { LifecycleBadge } from "../ui/StatusBadge"
+import { WorkbenchLoadingState } from "../workbench/DatabaseWorkbenchChrome"
+import { WorkbenchCompactActionCluster, WorkbenchGuardrailActionButton } from "../workbench/WorkbenchActionButtons"
+import { WorkbenchCompactFieldRow, WorkbenchCompactInput } from "../workbench/WorkbenchCompactControls"
+import {
+  buildWorkbenchResourceGuardrailDetails,
+  createBackupResourceGuardrail,
+  createRestoreResourceGuardrail,
+  type WorkbenchGuardrailState,
+} from "../workbench/guardrail"
+import { WorkbenchRefreshButton } from "../workbench/WorkbenchToolbar"
+
+const POLL_INTERVAL_MS = 5000
+const SETTLED_STATES = new Set(["ACTIVE", "FAILED", "DELETED"])
+const RESTORABLE_DATABASE_STATES = new Set(["AVAILABLE", "STOPPED"])
+
+interface AdbBackupsPanelProps {
+  database: AdbResource
+  /** ADB operations followed by the extension host; the list reloads when one for this database settles */
+  operations: TrackedWorkRequest[]
+  onRequestGuardrail: (value: WorkbenchGuardrailState) => void
+}
+
+/** Backups of the selected database, manual backups and point-in-time restore */
+export default function AdbBackupsPanel({ database, operations, onRequestGuardrail }: AdbBackupsPanelProps) {
+  const [data, setData] = useState<ListAdbBackupsResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [backupName, setBackupName] = useState(() => buildBackupName(database.name))
+  const [restoreTime, setRestoreTime] = useState(() => toLocalInputValue(new Date(Date.now() - 60 * 60 * 1000)))
+  const [busy, setBusy] = useState<"backup" | "restore" | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      setData(await ResourceServiceClient.listAdbBackups({ autonomousDatabaseId: database.id, region: database.region }))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setLoading(false)
+    }
+  }, [database.id, database.region])
+
+  useEffect(() => {
+    setBackupName(buildBackupName(database.name))
+  }, [database.name])
+
+  const settledOperationKey = operations
+    .filter((operation) =>
+      (operation.parentResourceId === database.id || operation.resourceId === database.id)
+      && operation.status !== "IN_PROGRESS")
+    .map((operation) => operation.id)
+    .join(",")
+
+  useEffect(() => {
+    void load()
+  }, [load, settledOperationKey])
+
+  const transitional = Boolean(data?.backups.some((backup) => !SETTLED_STATES.has(backup.lifecycleState)))
+  useEffect(() => {
+    if (!transitional) {
+      return
+    }
+    const timer = window.setTimeout(() => void load(), POLL_INTERVAL_MS)
+    return () => window.clearTimeout(timer)
+  }, [data, load, transitional])
+
+  const retentionDays = data?.backupRetentionPeriodInDays ?? database.backupRetentionPeriodInDays
+  const restoreDate = new Date(restoreTime)
+  const restoreTimeError = describeRestoreTimeError(restoreDate, retentionDays)
+  const isAvailable = database.lifecycleState === "AVAILABLE"
+  const canRestore = RESTORABLE_DATABASE_STATES.has(database.lifecycleState)
+  const nameValid = backupName.trim().length > 0
+
+  const createBackup = async () => {
+    setBusy("backup")
+    try {
+      await ResourceServiceClient.createAdbBackup({
+        autonomousDatabaseId: database.id,
+        databaseName: database.name,
+        region: database.region,
+        displayName: backupName.trim(),
+      })
+      setBackupName(buildBackupName(database.name))
+      await load()
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const restore = async (timestamp: Date) => {
+    setBusy("restore")
+    try {
+      await ResourceServiceClient.restoreAdb({
+        autonomousDatabaseId: database.id,
+        databaseName: database.name,
+        region: database.region,
+        timestamp: timestamp.toISOString(),
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const buildRestoreGuardrail = (timestamp: Date, source: string) => createRestoreResourceGuardrail({
+    resourceKind: "autonomous-database",
+    details: buildWorkbenchResourceGuardrailDetails({
+      resourceLabel: "Database",
+      resourceName: database.name,
+      region: database.region || "default",
+      extras: [
+        { label: "Restore to", value: timestamp.toLocaleString() },
+        { label: "Source", value: source },
+      ],
+    }),
+    onConfirm: () => restore(timestamp),
+  })
+
+  return (
+    <div className="flex flex-col gap-2">
+      <WorkbenchCompactFieldRow label="Backup" labelClassName="w-16 font-semibold text-[var(--vscode-foreground)]">
+        <WorkbenchCompactInput
+          type="text"
+          value={backupName}
+          onChange={(event) => setBackupName(event.target.value)}
+          className="h-[22px] px-1.5 text-[11px]"
+          title="Display name of the manual backup"
+        />
+        <WorkbenchGuardrailActionButton
+          disabled={!nameValid || busy !== null || !isAvailable}
+          guardrail={createBackupResourceGuardrail({
+            resourceKind: "autonomous-database",
+            details: buildWorkbenchResourceGuardrailDetails({
+              resourceLabel: "Database",
+              resourceName: database.name,
+              region: database.region || "default",
+              extras: [{ label: "Backup name", value: backupName.trim() }],
+            }),
+            onConfirm: createBackup,
+          })}
+          onRequestGuardrail={onRequestGuardrail}
+          busy={busy === "backup"}
+          idleIcon={<DatabaseBackup size={12} />}
+          label="Back Up Now"
+          title={isAvailable ? "Take a manual backup while the database stays available" : "Database must be AVAILABLE"}
+        />
+      </WorkbenchCompactFieldRow>
+      <WorkbenchCompactFieldRow label="Restore" labelClassName="w-16 font-semibold text-[var(--vscode-foreground)]">
+        <WorkbenchCompactInput
+          type="datetime-local"
+          value={restoreTime}
+          max={toLocalInputValue(new Date())}
+          onChange={(event) => setRestoreTime(event.target.value)}
+          className="h-[22px] px-1.5 text-[11px]"
+          title="Point in time to restore to, in local time"
+        />
+        <WorkbenchGuardrailActionButton
+          tone="danger"
+          disabled={Boolean(restoreTimeError) || busy !== null || !canRestore}
+          guardrail={buildRestoreGuardrail(restoreDate, "Point in time")}
+          onRequestGuardrail={onRequestGuardrail}
+          busy={busy === "restore"}
+          idleIcon={<History size={12} />}
+          label="Restore to Time"
+          title={canRestore ? "Restore the database to this point in time" : "Database must be AVAILABLE or STOPPED"}
+        />
+      </WorkbenchCompactFieldRow>
+      <div className="flex items-center gap-2 text-[11px] text-description">
+        <span>
+          {retentionDays !== undefined
+            ? `Point-in-time restore reaches back ${retentionDays} day${retentionDays !== 1 ? "s" : ""}.`
+            : "Point-in-time restore reaches back to the backup retention period."}
+        </span>
+        <div className="ml-auto">
+          <WorkbenchRefreshButton onClick={() => void load()} disabled={loading} spinning={loading} title="Reload backups" />
+        </div>
+      </div>
+
+      {restoreTimeError && (
+        <InlineNotice tone="warning" icon={<AlertCircle size={13} />}>
+          {restoreTimeError}
+        </InlineNotice>
+      )}
+      {error && (
+        <InlineNotice tone="danger" icon={<AlertCircle size={13} />}>
+          {error}
+        </InlineNotice>
+      )}
+
+      {!data && loading ? (
+        <WorkbenchLoadingState label="Loading backups..." className="min-h-[80px] py-3" />
+      ) : data ? (
+        <div className="flex flex-col gap-1">
+          <div className="text-[10px] font-semibold uppercase tracking-[0.14em] text-[var(--vscode-descriptionForeground)]">
+            Backups ({data.backups.length})
+          </div>
+          {data.backups.length === 0 ? (
+            <div className="text-[11px] text-description">No backups of this database yet.</div>
+          ) : data.backups.map((backup) => {
+            const restorable = backup.lifecycleState === "ACTIVE" && backup.isRestorable && Boolean(backup.timeEnded) && canRestore
+            return (
+              <div
+                key={backup.id}
+                className="rounded-[2px] border border-[var(--vscode-panel-border)] bg-[var(--workbench-panel-surface-subtle)] px-2 py-1.5"
+              >
+                <div className="flex min-w-0 items-center gap-2">
+                  <span className="truncate text-[12px] text-[var(--vscode-foreground)]">{backup.name}</span>
+                  <LifecycleBadge state={backup.lifecycleState} size="compact" />
+                  <WorkbenchCompactActionCluster className="ml-auto shrink-0">
+                    <WorkbenchGuardrailActionButton
+                      variant="ghost"
+                      tone="danger"
+                      disabled={!restorable || busy !== null}
+                      guardrail={buildRestoreGuardrail(new Date(backup.timeEnded ?? 0), `Backup ${backup.name}`)}
+                      onRequestGuardrail={onRequestGuardrail}
+                      idleIcon={<ArchiveRestore size={12} />}
+                      label="Restore"
+                      title={restorable ? "Restore the database to the end of this backup" : "Only ACTIVE, restorable backups can be restored"}
+                    />
+                  </WorkbenchCompactActionCluster>
+                </div>
+                <div className="mt-0.5 flex flex-wrap gap-x-3 text-[11px] text-description">
+                  {[
+                    formatBackupType(backup),
+                    backup.databaseSizeInTBs !== undefined ? `${backup.databaseSizeInTBs} TB` : "",
+                    formatTimestamp(backup.timeEnded ?? backup.timeStarted),
+                    backup.retentionPeriodInDays !== undefined ? `Kept ${backup.retentionPeriodInDays} days` : "",
+                  ].filter(Boolean).map((item) => <span key={item}>{item}</span>)}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
+function describeRestoreTimeError(date: Date, retentionDays?: number): string | null {
+  if (Number.isNaN(date.getTime())) {
+    return "Choose a point in time to restore to."
+  }
+  if (date.getTime() > Date.now()) {
+    return "The restore point cannot be in the future."
+  }
+  if (retentionDays !== undefined && date.getTime() < Date.now() - retentionDays * 24 * 60 * 60 * 1000) {
+    return `The restore point is older than the ${retentionDays}-day backup retention period.`
+  }
+  return null
+}
+
+function formatBackupType(backup: AdbBackup): string {
+  const type = backup.type ? backup.type.charAt(0) + backup.type.slice(1).toLowerCase() : "Backup"
+  return backup.isAutomatic ? `${type} (automatic)` : `${type} (manual)`
+}
+
+function formatTimestamp(value?: string): string {
+  return value ? new Date(value).toLocaleString() : ""
+}
+
+/** Value for a datetime-local input, which has no time zone */
+function toLocalInputValue(date: Date): string {
+  const year = String(date.getFullYear())
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  const hours = String(date.getHours()).padStart(2, "0")
+  const minutes = String(date.getMinutes()).padStart(2, "0")
+  return `${year}-${month}-${day}T${hours}:${minutes}`
+}
+
+function buildBackupName(databaseName: string, date = new Date()) {
+  return `${databaseName}-${toLocalInputValue(date).replace(/[-:]/g, "").replace("T", "-")}`
+}
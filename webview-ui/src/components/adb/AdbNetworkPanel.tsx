@@ -0,0 +1,325 @@
+import { AlertCircle, Globe, Lock, Plus, Save, Unlock, X } from "lucide-react"
+import { useCallback, useEffect, useState } from "react"
+import { ResourceServiceClient } from "../../services/grpc-client"
+import type { AdbNetworkAccessInfo, AdbResource, TrackedWorkRequest } from "../../services/types"
+import InlineNotice from "../ui/InlineNotice"
+import { SummaryMetaCard, WorkbenchLoadingState } from "../workbench/DatabaseWorkbenchChrome"
+import {
+  WorkbenchActionButton,
+  WorkbenchGuardrailActionButton,
+  WorkbenchIconActionButton,
+} from "../workbench/WorkbenchActionButtons"
+import { WorkbenchCompactFieldRow, WorkbenchCompactInput } from "../workbench/WorkbenchCompactControls"
+import {
+  buildWorkbenchResourceGuardrailDetails,
+  createSaveGuardrail,
+  type WorkbenchGuardrailState,
+} from "../workbench/guardrail"
+import { WorkbenchRefreshButton } from "../workbench/WorkbenchToolbar"
+
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/
+
+interface AdbNetworkPanelProps {
+  database: AdbResource
+  /** ADB operations followed by the extension host; the settings reload when a network change for this database settles */
+  operations: TrackedWorkRequest[]
+  onRequestGuardrail: (value: WorkbenchGuardrailState) => void
+}
+
+/** Access control list and mutual TLS setting of the selected database */
+export default function AdbNetworkPanel({ database, operations, onRequestGuardrail }: AdbNetworkPanelProps) {
+  const [info, setInfo] = useState<AdbNetworkAccessInfo | null>(null)
+  const [entries, setEntries] = useState<string[]>([])
+  const [newEntry, setNewEntry] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState<"acl" | "mtls" | "ip" | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await ResourceServiceClient.getAdbNetworkAccess({ autonomousDatabaseId: database.id, region: database.region })
+      setInfo(response)
+      setEntries(response.whitelistedIps)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setLoading(false)
+    }
+  }, [database.id, database.region])
+
+  const networkOperations = operations.filter((operation) =>
+    operation.kind === "updateAutonomousDatabaseNetworkAccess" && operation.resourceId === database.id)
+  const updating = networkOperations.some((operation) => operation.status === "IN_PROGRESS")
+  const settledOperationKey = networkOperations
+    .filter((operation) => operation.status !== "IN_PROGRESS")
+    .map((operation) => operation.id)
+    .join(",")
+
+  useEffect(() => {
+    void load()
+  }, [load, settledOperationKey])
+
+  const addEntries = (values: string[]) => {
+    setEntries((current) => Array.from(new Set([...current, ...values])))
+  }
+
+  const addTypedEntry = () => {
+    const value = newEntry.trim()
+    if (!value) {
+      return
+    }
+    if (!isValidAclEntry(value)) {
+      setError(`"${value}" is not an IPv4 address, CIDR block or VCN OCID.`)
+      return
+    }
+    setError(null)
+    addEntries([value])
+    setNewEntry("")
+  }
+
+  const addMyIp = async () => {
+    setBusy("ip")
+    try {
+      const { ipAddress } = await ResourceServiceClient.getPublicIp()
+      addEntries([ipAddress])
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const saveAccessControl = async () => {
+    setBusy("acl")
+    try {
+      await ResourceServiceClient.updateAdbAccessControl({
+        autonomousDatabaseId: database.id,
+        databaseName: database.name,
+        region: database.region,
+        whitelistedIps: entries,
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const updateMtls = async (isMtlsConnectionRequired: boolean) => {
+    setBusy("mtls")
+    try {
+      await ResourceServiceClient.updateAdbMtls({
+        autonomousDatabaseId: database.id,
+        databaseName: database.name,
+        region: database.region,
+        isMtlsConnectionRequired,
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  if (!info) {
+    return loading ? (
+      <WorkbenchLoadingState label="Loading network access..." className="min-h-[80px] py-3" />
+    ) : (
+      <InlineNotice tone="danger" icon={<AlertCircle size={13} />}>
+        {error ?? "Network access could not be loaded."}
+      </InlineNotice>
+    )
+  }
+
+  const isAvailable = database.lifecycleState === "AVAILABLE"
+  const isPrivate = Boolean(info.privateEndpoint)
+  const changed = entries.length !== info.whitelistedIps.length || entries.some((entry, index) => entry !== info.whitelistedIps[index])
+  const canChange = isAvailable && !updating && busy === null
+  // OCI only lets mutual TLS be turned off once the endpoint is restricted.
+  const canAllowTls = isPrivate || info.whitelistedIps.length > 0
+  // ...and keeps it restricted while TLS connections are allowed.
+  const removesRequiredList = !info.isMtlsConnectionRequired && entries.length === 0
+  const guardrailDetails = (extras: Array<{ label: string; value: string }>) => buildWorkbenchResourceGuardrailDetails({
+    resourceLabel: "Database",
+    resourceName: database.name,
+    region: database.region || "default",
+    extras,
+  })
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="grid gap-2 sm:grid-cols-3">
+        <SummaryMetaCard label="Endpoint" value={isPrivate ? `Private (${info.privateEndpoint})` : "Public"} />
+        <SummaryMetaCard label="Mutual TLS" value={info.isMtlsConnectionRequired ? "Required (wallet only)" : "Not required"} />
+        <SummaryMetaCard
+          label="Access control"
+          value={isPrivate ? "Network security groups" : info.whitelistedIps.length > 0 ? `${info.whitelistedIps.length} entr${info.whitelistedIps.length === 1 ? "y" : "ies"}` : "Any address"}
+        />
+      </div>
+
+      {updating && (
+        <InlineNotice tone="info">
+          A network change is in progress. The settings reload once the database is AVAILABLE again.
+        </InlineNotice>
+      )}
+      {error && (
+        <InlineNotice tone="danger" icon={<AlertCircle size={13} />}>
+          {error}
+        </InlineNotice>
+      )}
+
+      {isPrivate ? (
+        <InlineNotice tone="info">
+          This database is reached through a private endpoint. Access is controlled by the network security groups of its subnet, not by an access control list.
+        </InlineNotice>
+      ) : (
+        <div className="flex flex-col gap-1">
+          <div className="flex items-center gap-2">
+            <div className="text-[10px] font-semibold uppercase tracking-[0.14em] text-[var(--vscode-descriptionForeground)]">
+              Access Control List ({entries.length})
+            </div>
+            <div className="ml-auto">
+              <WorkbenchRefreshButton onClick={() => void load()} disabled={loading} spinning={loading} title="Reload network access" />
+            </div>
+          </div>
+          {entries.length === 0 ? (
+            <div className="text-[11px] text-description">No entries. Any address can reach the public endpoint.</div>
+          ) : entries.map((entry) => (
+            <div
+              key={entry}
+              className="flex min-w-0 items-center gap-2 rounded-[2px] border border-[var(--vscode-panel-border)] bg-[var(--workbench-panel-surface-subtle)] px-2 py-1"
+            >
+              <span className="truncate font-mono text-[11px] text-[var(--vscode-foreground)]">{entry}</span>
+              <WorkbenchIconActionButton
+                variant="ghost"
+                className="ml-auto h-5 w-5 shrink-0 p-0"
+                icon={<X size={12} />}
+                disabled={!canChange}
+                onClick={() => setEntries((current) => current.filter((item) => item !== entry))}
+                title="Remove entry"
+              />
+            </div>
+          ))}
+          <WorkbenchCompactFieldRow label="Add" labelClassName="w-10">
+            <WorkbenchCompactInput
+              type="text"
+              value={newEntry}
+              disabled={!canChange}
+              placeholder="203.0.113.5, 203.0.113.0/24 or a VCN OCID"
+              onChange={(event) => setNewEntry(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") {
+                  event.preventDefault()
+                  addTypedEntry()
+                }
+              }}
+              className="h-[22px] px-1.5 text-[11px]"
+            />
+            <WorkbenchActionButton type="button" disabled={!canChange || !newEntry.trim()} onClick={addTypedEntry}>
+              <Plus size={12} />
+              Add
+            </WorkbenchActionButton>
+            <WorkbenchActionButton
+              type="button"
+              disabled={!canChange}
+              onClick={() => void addMyIp()}
+              title="Ask the service in the ociAi.publicIpLookupUrl setting (checkip.amazonaws.com by default) for the public address of this machine. That service sees the address. Behind a VPN or proxy, the database may see a different one."
+            >
+              <Globe size={12} />
+              {busy === "ip" ? "Looking Up..." : "Add My IP"}
+            </WorkbenchActionButton>
+          </WorkbenchCompactFieldRow>
+          {changed && removesRequiredList && (
+            <InlineNotice tone="warning" icon={<AlertCircle size={13} />}>
+              Require mutual TLS before removing every entry. OCI keeps the list while TLS connections without a wallet are allowed.
+            </InlineNotice>
+          )}
+          <div>
+            <WorkbenchGuardrailActionButton
+              disabled={!canChange || !changed || removesRequiredList}
+              guardrail={createSaveGuardrail({
+                title: "Update Access Control List",
+                description: entries.length > 0
+                  ? "Only the listed addresses and VCNs can reach the public endpoint afterwards. Clients connecting from anywhere else are refused."
+                  : "Removing every entry lets any address reach the public endpoint.",
+                confirmLabel: "Update List",
+                details: guardrailDetails([
+                  { label: "Entries", value: entries.length > 0 ? entries.join(", ") : "None (any address)" },
+                ]),
+                onConfirm: saveAccessControl,
+              })}
+              onRequestGuardrail={onRequestGuardrail}
+              busy={busy === "acl"}
+              idleIcon={<Save size={12} />}
+              label="Save Access Control List"
+              title={isAvailable ? "Apply the list to the database" : "Database must be AVAILABLE"}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-1 border-t border-[var(--vscode-panel-border)] pt-2">
+        <div className="text-[11px] text-description">
+          {info.isMtlsConnectionRequired
+            ? "Clients need a wallet to connect. Turning mutual TLS off lets clients allowed by the network settings connect with one-way TLS, as the SQL Workbench TLS mode does."
+            : `Clients can connect without a wallet${info.tlsServiceNames.length > 0 ? ` using ${info.tlsServiceNames.join(", ")}` : ""}. Wallet connections keep working.`}
+        </div>
+        {info.isMtlsConnectionRequired && !canAllowTls && (
+          <InlineNotice tone="warning" icon={<AlertCircle size={13} />}>
+            Save an access control list first. OCI only allows TLS connections without a wallet on a restricted or private endpoint.
+          </InlineNotice>
+        )}
+        <div>
+          {info.isMtlsConnectionRequired ? (
+            <WorkbenchGuardrailActionButton
+              disabled={!canChange || !canAllowTls || changed}
+              guardrail={createSaveGuardrail({
+                title: "Allow TLS Connections",
+                description: "Clients allowed by the network settings can connect with one-way TLS and no wallet. Wallet connections keep working.",
+                confirmLabel: "Allow TLS",
+                details: guardrailDetails([{ label: "Mutual TLS", value: "Required → Not required" }]),
+                onConfirm: () => updateMtls(false),
+              })}
+              onRequestGuardrail={onRequestGuardrail}
+              busy={busy === "mtls"}
+              idleIcon={<Unlock size={12} />}
+              label="Allow TLS Without Wallet"
+              title={changed ? "Save the access control list first" : "Stop requiring mutual TLS"}
+            />
+          ) : (
+            <WorkbenchGuardrailActionButton
+              disabled={!canChange}
+              guardrail={createSaveGuardrail({
+                title: "Require Mutual TLS",
+                description: "Connections without a wallet are refused afterwards, including SQL Workbench sessions in TLS mode.",
+                confirmLabel: "Require Mutual TLS",
+                details: guardrailDetails([{ label: "Mutual TLS", value: "Not required → Required" }]),
+                onConfirm: () => updateMtls(true),
+              })}
+              onRequestGuardrail={onRequestGuardrail}
+              busy={busy === "mtls"}
+              idleIcon={<Lock size={12} />}
+              label="Require Mutual TLS"
+              title="Accept wallet connections only"
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/** Mirrors the extension-side check: an IPv4 address, a CIDR block, or a VCN OCID optionally followed by ";address" parts */
+function isValidAclEntry(value: string): boolean {
+  const [head, ...vcnAddresses] = value.split(";").map((part) => part.trim())
+  return head.startsWith("ocid1.vcn.")
+    ? vcnAddresses.every(isIpv4OrCidr)
+    : vcnAddresses.length === 0 && isIpv4OrCidr(head)
+}
+
+function isIpv4OrCidr(value: string): boolean {
+  const [address, prefix, ...rest] = value.split("/")
+  if (rest.length > 0 || !IPV4_PATTERN.test(address) || address.split(".").some((octet) => Number(octet) > 255)) {
+    return false
+  }
+  return prefix === undefined || (/^\d{1,2}$/.test(prefix) && Number(prefix) <= 32)
+}
@@ -0,0 +1,167 @@
+import { AlertCircle, Scaling } from "lucide-react"
+import { useEffect, useState } from "react"
+import { ResourceServiceClient } from "../../services/grpc-client"
+import type { AdbResource, TrackedWorkRequest } from "../../services/types"
+import InlineNotice from "../ui/InlineNotice"
+import { SummaryMetaCard } from "../workbench/DatabaseWorkbenchChrome"
+import { WorkbenchGuardrailActionButton } from "../workbench/WorkbenchActionButtons"
+import { WorkbenchCompactFieldRow, WorkbenchCompactInput } from "../workbench/WorkbenchCompactControls"
+import {
+  buildWorkbenchResourceGuardrailDetails,
+  createResizeResourceGuardrail,
+  type WorkbenchGuardrailState,
+} from "../workbench/guardrail"
+
+const MAX_COMPUTE_COUNT = 512
+const MAX_STORAGE_TBS = 384
+
+interface AdbScalePanelProps {
+  database: AdbResource
+  /** ADB operations followed by the extension host, to tell whether a scale is already running */
+  operations: TrackedWorkRequest[]
+  onRequestGuardrail: (value: WorkbenchGuardrailState) => void
+}
+
+/** ECPUs, storage and auto scaling of the selected database, changed online */
+export default function AdbScalePanel({ database, operations, onRequestGuardrail }: AdbScalePanelProps) {
+  const [computeCount, setComputeCount] = useState("")
+  const [dataStorageSizeInTBs, setDataStorageSizeInTBs] = useState("")
+  const [isAutoScalingEnabled, setIsAutoScalingEnabled] = useState(false)
+  const [isAutoScalingForStorageEnabled, setIsAutoScalingForStorageEnabled] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+
+  // Reset the form to the current size whenever the database or its listed size changes.
+  useEffect(() => {
+    setComputeCount(String(database.computeCount ?? 2))
+    setDataStorageSizeInTBs(String(database.dataStorageSizeInTBs ?? 1))
+    setIsAutoScalingEnabled(Boolean(database.isAutoScalingEnabled))
+    setIsAutoScalingForStorageEnabled(Boolean(database.isAutoScalingForStorageEnabled))
+  }, [database.id, database.computeCount, database.dataStorageSizeInTBs, database.isAutoScalingEnabled, database.isAutoScalingForStorageEnabled])
+
+  const ecpus = Number(computeCount)
+  const storage = Number(dataStorageSizeInTBs)
+  const ecpusValid = Number.isInteger(ecpus) && ecpus >= 2 && ecpus <= MAX_COMPUTE_COUNT
+  const storageValid = Number.isInteger(storage) && storage >= 1 && storage <= MAX_STORAGE_TBS
+  const changed = ecpus !== (database.computeCount ?? 2)
+    || storage !== (database.dataStorageSizeInTBs ?? 1)
+    || isAutoScalingEnabled !== Boolean(database.isAutoScalingEnabled)
+    || isAutoScalingForStorageEnabled !== Boolean(database.isAutoScalingForStorageEnabled)
+  const isAvailable = database.lifecycleState === "AVAILABLE"
+  const scaling = operations.some((operation) =>
+    operation.kind === "scaleAutonomousDatabase"
+    && operation.resourceId === database.id
+    && operation.status === "IN_PROGRESS")
+
+  const scale = async () => {
+    setSubmitting(true)
+    try {
+      await ResourceServiceClient.scaleAdb({
+        autonomousDatabaseId: database.id,
+        databaseName: database.name,
+        region: database.region,
+        computeCount: ecpus,
+        dataStorageSizeInTBs: storage,
+        isAutoScalingEnabled,
+        isAutoScalingForStorageEnabled,
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="grid gap-2 sm:grid-cols-4">
+        <SummaryMetaCard label="ECPUs" value={database.computeCount !== undefined ? String(database.computeCount) : "Unknown"} />
+        <SummaryMetaCard label="Storage" value={database.dataStorageSizeInTBs !== undefined ? `${database.dataStorageSizeInTBs} TB` : "Unknown"} />
+        <SummaryMetaCard label="Compute auto scaling" value={database.isAutoScalingEnabled ? "On" : "Off"} />
+        <SummaryMetaCard label="Storage auto scaling" value={database.isAutoScalingForStorageEnabled ? "On" : "Off"} />
+      </div>
+
+      {scaling && (
+        <InlineNotice tone="info">
+          A scale operation is in progress. The new size is shown once the database is AVAILABLE again.
+        </InlineNotice>
+      )}
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        <WorkbenchCompactFieldRow label="ECPUs" labelClassName="w-20">
+          <WorkbenchCompactInput
+            type="number"
+            min={2}
+            max={MAX_COMPUTE_COUNT}
+            value={computeCount}
+            disabled={submitting}
+            onChange={(event) => setComputeCount(event.target.value)}
+            title={`Whole number from 2 to ${MAX_COMPUTE_COUNT}`}
+          />
+        </WorkbenchCompactFieldRow>
+        <WorkbenchCompactFieldRow label="Storage (TB)" labelClassName="w-20">
+          <WorkbenchCompactInput
+            type="number"
+            min={1}
+            max={MAX_STORAGE_TBS}
+            value={dataStorageSizeInTBs}
+            disabled={submitting}
+            onChange={(event) => setDataStorageSizeInTBs(event.target.value)}
+            title={`Whole number from 1 to ${MAX_STORAGE_TBS}`}
+          />
+        </WorkbenchCompactFieldRow>
+      </div>
+      <label className="flex items-center gap-2 text-[12px] text-foreground">
+        <input
+          type="checkbox"
+          checked={isAutoScalingEnabled}
+          disabled={submitting}
+          className="accent-[var(--vscode-focusBorder)]"
+          onChange={(event) => setIsAutoScalingEnabled(event.target.checked)}
+        />
+        Compute auto scaling (up to three times the ECPU count)
+      </label>
+      <label className="flex items-center gap-2 text-[12px] text-foreground">
+        <input
+          type="checkbox"
+          checked={isAutoScalingForStorageEnabled}
+          disabled={submitting}
+          className="accent-[var(--vscode-focusBorder)]"
+          onChange={(event) => setIsAutoScalingForStorageEnabled(event.target.checked)}
+        />
+        Storage auto scaling (up to three times the storage size)
+      </label>
+
+      {(!ecpusValid || !storageValid) && (
+        <InlineNotice tone="danger" icon={<AlertCircle size={13} />}>
+          {!ecpusValid
+            ? `ECPUs must be a whole number from 2 to ${MAX_COMPUTE_COUNT}.`
+            : `Storage must be a whole number of terabytes from 1 to ${MAX_STORAGE_TBS}.`}
+        </InlineNotice>
+      )}
+
+      <div>
+        <WorkbenchGuardrailActionButton
+          disabled={!isAvailable || !changed || !ecpusValid || !storageValid || submitting || scaling}
+          guardrail={createResizeResourceGuardrail({
+            resourceKind: "autonomous-database",
+            details: buildWorkbenchResourceGuardrailDetails({
+              resourceLabel: "Database",
+              resourceName: database.name,
+              region: database.region || "default",
+              extras: [
+                { label: "ECPUs", value: `${database.computeCount ?? "?"} → ${ecpus}` },
+                { label: "Storage", value: `${database.dataStorageSizeInTBs ?? "?"} TB → ${storage} TB` },
+                { label: "Compute auto scaling", value: isAutoScalingEnabled ? "On" : "Off" },
+                { label: "Storage auto scaling", value: isAutoScalingForStorageEnabled ? "On" : "Off" },
+              ],
+            }),
+            onConfirm: scale,
+          })}
+          onRequestGuardrail={onRequestGuardrail}
+          busy={submitting}
+          idleIcon={<Scaling size={12} />}
+          label="Apply Scaling"
+          title={isAvailable ? "Change the size without downtime" : "Database must be AVAILABLE"}
+        />
+      </div>
+    </div>
+  )
+}
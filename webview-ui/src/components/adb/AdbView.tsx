@@ -2,11 +2,13 @@ import { clsx } from "clsx"
 import {
   AlertCircle,
   CheckCircle2,
+  Copy,
   Database,
   Download,
   Loader2,
   PlayCircle,
   Plug,
+  Plus,
   Save,
   Search,
   SquareTerminal,
@@ -18,17 +20,23 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { useExtensionState } from "../../context/ExtensionStateContext"
 import { toneFromLifecycleState, useWorkbenchInsight } from "../../context/WorkbenchInsightContext"
 import { useScrollFlashTarget } from "../../hooks/useScrollFlashTarget"
-import { ResourceServiceClient } from "../../services/grpc-client"
+import { ResourceServiceClient, WorkRequestServiceClient } from "../../services/grpc-client"
 import type {
+  AdbConnectionMode,
   AdbResource,
   ConnectAdbResponse,
   ExecuteAdbSqlResponse,
   LoadAdbConnectionResponse,
   OracleDbDiagnosticsResponse,
+  RegionListingError,
+  TrackedWorkRequest,
 } from "../../services/types"
 import GuardrailDialog from "../common/GuardrailDialog"
 import OracleDiagnosticsPanel from "../common/OracleDiagnosticsPanel"
+import RegionErrorsNotice from "../common/RegionErrorsNotice"
+import ResourceMetricsPanel from "../common/ResourceMetricsPanel"
 import CompartmentSelector from "../ui/CompartmentSelector"
+import RegionSelector, { useFeatureRegionsReload } from "../ui/RegionSelector"
 import Input from "../ui/Input"
 import InlineNotice from "../ui/InlineNotice"
 import StatusBadge, { LifecycleBadge } from "../ui/StatusBadge"
@@ -43,6 +51,12 @@ import {
 } from "../workbench/DatabaseWorkbenchChrome"
 import FeaturePageLayout, { FeatureSearchInput } from "../workbench/FeaturePageLayout"
 import WorkbenchActionInventoryCard from "../workbench/WorkbenchActionInventoryCard"
+import WorkbenchOperationCard from "../workbench/WorkbenchOperationCard"
+import AdbBackupsPanel from "./AdbBackupsPanel"
+import AdbNetworkPanel from "./AdbNetworkPanel"
+import AdbScalePanel from "./AdbScalePanel"
+import AdbWalletPanel from "./AdbWalletPanel"
+import ProvisionAdbDialog from "./ProvisionAdbDialog"
 import {
   WorkbenchInventoryFilterEmpty,
   WorkbenchInventoryGroupHeading,
@@ -52,6 +66,7 @@ import {
 import {
   WorkbenchActionButton,
   WorkbenchBackButton,
+  WorkbenchCompactActionCluster,
   WorkbenchDestructiveButton,
   WorkbenchDismissButton,
   WorkbenchGuardrailActionButton,
@@ -65,6 +80,7 @@ import type { WorkbenchGuardrailState } from "../workbench/guardrail"
 import { buildWorkbenchResourceGuardrailDetails, createStartResourceGuardrail, createStopResourceGuardrail } from "../workbench/guardrail"
 import { backToLabel, openViewLabel, openWorkspaceLabel, showInListLabel } from "../workbench/navigationLabels"
 import WorkbenchQueryResult from "../workbench/WorkbenchQueryResult"
+import { WorkbenchSegmentedControl } from "../workbench/WorkbenchCompactControls"
 import { WorkbenchRefreshButton, WorkbenchToolbarGroup, WorkbenchToolbarSpacer } from "../workbench/WorkbenchToolbar"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/Tabs"
 
@@ -82,6 +98,10 @@ const TRANSITIONAL_STATES = new Set([
   "RESTORE_IN_PROGRESS", "SCALE_IN_PROGRESS", "MAINTENANCE_IN_PROGRESS",
 ])
 const POLL_INTERVAL_MS = 5000
+const CONNECTION_MODE_OPTIONS: Array<{ value: AdbConnectionMode; label: string }> = [
+  { value: "wallet", label: "Wallet (mutual TLS)" },
+  { value: "tls", label: "TLS (no wallet)" },
+]
 
 export default function AdbView() {
   const { activeProfile, profilesConfig, tenancyOcid, adbCompartmentIds, navigateToView } = useExtensionState()
@@ -90,9 +110,12 @@ export default function AdbView() {
   const [selectedAdbId, setSelectedAdbId] = useState("")
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [regionErrors, setRegionErrors] = useState<RegionListingError[]>([])
   const [actionState, setActionState] = useState<ActionState>(null)
   const [query, setQuery] = useState("")
 
+  const [connectionMode, setConnectionMode] = useState<AdbConnectionMode>("wallet")
+  const [mtlsRequired, setMtlsRequired] = useState(false)
   const [walletPassword, setWalletPassword] = useState("")
   const [walletPath, setWalletPath] = useState("")
   const [serviceNames, setServiceNames] = useState<string[]>([])
@@ -112,6 +135,9 @@ export default function AdbView() {
   const [guardrail, setGuardrail] = useState<WorkbenchGuardrailState>(null)
   const [recentAction, setRecentAction] = useState<RecentActionState>(null)
   const [highlightedDatabaseId, setHighlightedDatabaseId] = useState<string | null>(null)
+  const [operations, setOperations] = useState<TrackedWorkRequest[]>([])
+  const [provisionDialogOpen, setProvisionDialogOpen] = useState(false)
+  const [cloneSource, setCloneSource] = useState<AdbResource | null>(null)
   const [showDatabaseWorkspace, setShowDatabaseWorkspace] = useState(false)
   const actionTimerRef = useRef<number | null>(null)
   const highlightTimerRef = useRef<number | null>(null)
@@ -167,7 +193,7 @@ export default function AdbView() {
         { label: "Region", value: selectedDatabase.region || "default" },
         { label: "Lifecycle", value: selectedDatabase.lifecycleState },
         { label: "Service", value: serviceName || "Not set" },
-        { label: "Wallet", value: walletPath || "Not downloaded" },
+        { label: "Wallet", value: connectionMode === "tls" ? "Not needed (TLS)" : walletPath || "Not downloaded" },
       ],
       notes: [
         connectionTarget
@@ -224,7 +250,7 @@ export default function AdbView() {
     })
 
     return () => setResource(null)
-  }, [connectionId, connectionTarget, hasSavedProfile, navigateToView, query, selectedDatabase, serviceName, setPendingSelection, setResource, showDatabaseWorkspace, walletPath])
+  }, [connectionId, connectionMode, connectionTarget, hasSavedProfile, navigateToView, query, selectedDatabase, serviceName, setPendingSelection, setResource, showDatabaseWorkspace, walletPath])
 
   useEffect(() => {
     if (pendingSelection?.view !== "adb") {
@@ -241,19 +267,21 @@ export default function AdbView() {
     }
   }, [selectedDatabase])
 
-  const load = useCallback(async () => {
+  const load = useCallback(async (refresh = false) => {
     setLoading(true)
     setError(null)
     if (selectedCompartmentIds.length === 0) {
       setDatabases([])
+      setRegionErrors([])
       setSelectedAdbId("")
       setLoading(false)
       return
     }
     try {
-      const res = await ResourceServiceClient.listAdb()
+      const res = await ResourceServiceClient.listAdb(refresh)
       const items = res.databases ?? []
       setDatabases(items)
+      setRegionErrors(res.regionErrors ?? [])
       if (!selectedAdbId && items.length > 0) {
         setSelectedAdbId(items[0].id)
       }
@@ -267,9 +295,7 @@ export default function AdbView() {
     }
   }, [selectedAdbId, selectedCompartmentIds])
 
-  useEffect(() => {
-    load()
-  }, [load])
+  useFeatureRegionsReload("adb", load)
 
   useEffect(() => {
     if (actionTimerRef.current !== null) {
@@ -327,10 +353,24 @@ export default function AdbView() {
     return () => window.removeEventListener("message", onMessage)
   }, [load])
 
+  // Creates, clones, scaling, backups, restores, network changes and wallet rotations are followed by the extension host, so they survive switching views.
+  useEffect(() => {
+    const unsubscribe = WorkRequestServiceClient.subscribeToOperations({
+      onResponse: (data) => {
+        if (data?.operations) {
+          setOperations(data.operations.filter((operation) => operation.feature === "adb"))
+        }
+      },
+      onError: () => {},
+      onComplete: () => {},
+    })
+    return unsubscribe
+  }, [])
+
   const isPolling = databases.some(db => TRANSITIONAL_STATES.has(db.lifecycleState))
   useEffect(() => {
     if (!isPolling) return
-    const timer = setInterval(load, POLL_INTERVAL_MS)
+    const timer = setInterval(() => void load(), POLL_INTERVAL_MS)
     return () => clearInterval(timer)
   }, [isPolling, load])
 
@@ -440,6 +480,8 @@ export default function AdbView() {
     try {
       const response = await ResourceServiceClient.connectAdb({
         autonomousDatabaseId: selectedDatabase.id,
+        connectionMode,
+        region: selectedDatabase.region,
         walletPath,
         walletPassword,
         username,
@@ -464,7 +506,7 @@ export default function AdbView() {
     } finally {
       setAdbBusyAction(null)
     }
-  }, [password, selectedDatabase, serviceName, username, walletPassword, walletPath])
+  }, [connectionMode, password, selectedDatabase, serviceName, username, walletPassword, walletPath])
 
   const disconnectConnection = useCallback(async (id: string) => {
     if (!id) return
@@ -500,6 +542,7 @@ export default function AdbView() {
     try {
       const saved = await ResourceServiceClient.loadAdbConnection(dbId) as LoadAdbConnectionResponse | Record<string, never>
       if (saved && "autonomousDatabaseId" in saved && saved.autonomousDatabaseId) {
+        setConnectionMode(saved.connectionMode === "tls" ? "tls" : "wallet")
         setWalletPath(saved.walletPath || "")
         setWalletPassword(saved.walletPassword || "")
         setUsername(saved.username || "")
@@ -527,6 +570,7 @@ export default function AdbView() {
       setSqlResult(null)
       setServiceNames([])
       setServiceName("")
+      setConnectionMode("wallet")
       setWalletPath("")
       setWalletPassword("")
       setUsername("")
@@ -550,6 +594,34 @@ export default function AdbView() {
     }
   }, [connectionId, disconnectConnection])
 
+  // TLS mode connects with a profile from the database's connection strings instead of a wallet alias.
+  const selectedDatabaseRegion = selectedDatabase?.region
+  useEffect(() => {
+    if (connectionMode !== "tls" || !selectedAdbId) {
+      setMtlsRequired(false)
+      return
+    }
+    let cancelled = false
+    ResourceServiceClient.getAdbNetworkAccess({ autonomousDatabaseId: selectedAdbId, region: selectedDatabaseRegion })
+      .then((info) => {
+        if (cancelled) return
+        setMtlsRequired(info.isMtlsConnectionRequired)
+        setServiceNames(info.tlsServiceNames)
+        setServiceName((current) => current && info.tlsServiceNames.includes(current) ? current : info.tlsServiceNames[0] ?? current)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [connectionMode, selectedAdbId, selectedDatabaseRegion])
+
+  const handleConnectionModeChange = useCallback((mode: AdbConnectionMode) => {
+    setConnectionMode(mode)
+    setServiceNames([])
+  }, [])
+
   const handleExecuteSql = useCallback(async () => {
     if (!connectionId) {
       setError("Please connect first.")
@@ -577,6 +649,7 @@ export default function AdbView() {
     try {
       await ResourceServiceClient.saveAdbConnection({
         autonomousDatabaseId: selectedDatabase.id,
+        connectionMode,
         walletPath,
         walletPassword,
         username,
@@ -598,7 +671,7 @@ export default function AdbView() {
     } finally {
       setAdbBusyAction(null)
     }
-  }, [password, selectedDatabase, serviceName, username, walletPassword, walletPath])
+  }, [connectionMode, password, selectedDatabase, serviceName, username, walletPassword, walletPath])
 
   const handleDeleteConnection = useCallback(async () => {
     if (!selectedDatabase?.id) return
@@ -657,6 +730,23 @@ export default function AdbView() {
     }
   }, [diagnosticsFocus, errorFocus])
 
+  const openProvisionDialog = useCallback((source: AdbResource | null) => {
+    setCloneSource(source)
+    setProvisionDialogOpen(true)
+  }, [])
+
+  const handleProvisioned = useCallback((summary: { autonomousDatabaseId: string; displayName: string }) => {
+    setProvisionDialogOpen(false)
+    setRecentAction({
+      resourceId: summary.autonomousDatabaseId,
+      resourceName: summary.displayName,
+      message: cloneSource ? "Clone requested for" : "Creation requested for",
+      timestamp: Date.now(),
+    })
+    setCloneSource(null)
+    void load()
+  }, [cloneSource, load])
+
   const revealDatabase = useCallback((databaseId: string) => {
     setQuery("")
     setSelectedAdbId(databaseId)
@@ -672,16 +762,28 @@ export default function AdbView() {
       icon={<Database size={16} />}
       status={isPolling ? <StatusBadge label="Auto-refreshing" tone="warning" size="compact" className="animate-pulse" /> : undefined}
       actions={(
-        <WorkbenchRefreshButton
-          onClick={load}
-          disabled={loading}
-          spinning={loading}
-          title={isPolling ? "Auto-refreshing every 5s" : "Refresh"}
-        />
+        <WorkbenchCompactActionCluster>
+          <WorkbenchActionButton
+            variant="secondary"
+            onClick={() => openProvisionDialog(null)}
+            disabled={selectedCompartmentIds.length === 0}
+            title={selectedCompartmentIds.length === 0 ? "Select a compartment first" : "Create a new Autonomous Database"}
+          >
+            <Plus size={12} className="mr-1" />
+            Create Database
+          </WorkbenchActionButton>
+          <WorkbenchRefreshButton
+            onClick={() => void load(true)}
+            disabled={loading}
+            spinning={loading}
+            title={isPolling ? "Auto-refreshing every 5s" : "Refresh"}
+          />
+        </WorkbenchCompactActionCluster>
       )}
       controls={(
         <div className="flex flex-col gap-1.5">
           <CompartmentSelector featureKey="adb" multiple />
+          <RegionSelector featureKey="adb" />
           {databases.length > 0 && (
             <FeatureSearchInput
               value={query}
@@ -693,6 +795,7 @@ export default function AdbView() {
       )}
     >
       <div className="flex h-full min-h-0 flex-col px-2 py-2">
+        <RegionErrorsNotice errors={regionErrors} className="mb-2" />
         {error && (
           <div
             ref={errorFocus.targetRef}
@@ -725,6 +828,29 @@ export default function AdbView() {
           </InlineNotice>
         )}
 
+        {operations.length > 0 && (
+          <section className="mb-2 rounded-lg border border-[var(--vscode-panel-border)] bg-[var(--workbench-panel-shell)] p-2">
+            <WorkbenchInventorySummary
+              label="Operations"
+              count={`${operations.length} operation${operations.length !== 1 ? "s" : ""}`}
+              description="Creates, clones, scaling, restores and network changes are followed until the database is available again, backups until they are active, and wallet rotations until the new wallet is issued. Dismiss finished ones once you have seen them."
+            />
+            <div className="mt-2 flex flex-col gap-2">
+              {operations.map((operation) => (
+                <WorkbenchOperationCard
+                  key={operation.id}
+                  operation={operation}
+                  revealLabel="Database"
+                  onReveal={() => revealDatabase(operation.kind === "createAutonomousDatabaseBackup" && operation.parentResourceId
+                    ? operation.parentResourceId
+                    : operation.resourceId)}
+                  onDismiss={() => void WorkRequestServiceClient.dismiss(operation.id)}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+
         {loading && databases.length === 0 ? (
           <WorkbenchLoadingState
             label="Loading databases..."
@@ -775,6 +901,10 @@ export default function AdbView() {
                         <TabsTrigger value="overview">Overview</TabsTrigger>
                         <TabsTrigger value="connection">Connection</TabsTrigger>
                         <TabsTrigger value="query">Query</TabsTrigger>
+                        <TabsTrigger value="metrics">Metrics</TabsTrigger>
+                        <TabsTrigger value="scale">Scale</TabsTrigger>
+                        <TabsTrigger value="backups">Backups</TabsTrigger>
+                        <TabsTrigger value="network">Network</TabsTrigger>
                       </TabsList>
                       <TabsContent value="overview" className="flex-1 overflow-auto pt-1.5">
                         <div
@@ -811,7 +941,7 @@ export default function AdbView() {
                                 <div className="grid gap-2 sm:grid-cols-4">
                                   <SummaryMetaCard label="Target" value={selectedDatabase?.name ?? "Not selected"} />
                                   <SummaryMetaCard label="Service" value={connectionTarget?.serviceName ?? (serviceName || "Not set")} />
-                                  <SummaryMetaCard label="Wallet" value={walletPath || "Not downloaded"} />
+                                  <SummaryMetaCard label="Wallet" value={connectionMode === "tls" ? "Not needed (TLS)" : walletPath || "Not downloaded"} />
                                   <SummaryMetaCard label="Profile" value={hasSavedProfile ? "Saved" : "Unsaved"} />
                                 </div>
 
@@ -825,8 +955,8 @@ export default function AdbView() {
                                       adbBusyAction !== null ||
                                       Boolean(connectionId) ||
                                       !selectedAdbId ||
-                                      !walletPath.trim() ||
-                                      !walletPassword.trim() ||
+                                      (connectionMode === "wallet" && (!walletPath.trim() || !walletPassword.trim())) ||
+                                      (connectionMode === "tls" && mtlsRequired) ||
                                       !username.trim() ||
                                       !password ||
                                       !serviceName.trim()
@@ -862,34 +992,48 @@ export default function AdbView() {
                                 <div className="text-[11px] font-semibold uppercase tracking-[0.14em] text-[var(--vscode-descriptionForeground)]">Connection Form</div>
                               </div>
                               <div className="flex flex-col gap-2 px-2.5 py-2">
-                                <div className="grid gap-2 sm:grid-cols-2">
-                                  <Input
-                                    type="password"
-                                    label="Wallet Password"
-                                    value={walletPassword}
-                                    onChange={e => setWalletPassword(e.target.value)}
-                                    placeholder="At least 8 chars"
-                                  />
-                                  <div className="flex items-end">
-                                    <WorkbenchSubmitButton
-                                      type="button"
-                                      variant="secondary"
-                                      className="w-full gap-1.5"
-                                      onClick={handleDownloadWallet}
-                                      disabled={adbBusyAction !== null || !selectedAdbId || walletPassword.trim().length < 8}
-                                    >
-                                      {adbBusyAction === "wallet" ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />}
-                                      Download Wallet
-                                    </WorkbenchSubmitButton>
-                                  </div>
-                                </div>
-
-                                <Input
-                                  label="Wallet Path"
-                                  value={walletPath}
-                                  onChange={e => setWalletPath(e.target.value)}
-                                  placeholder="Wallet directory path"
+                                <WorkbenchSegmentedControl
+                                  value={connectionMode}
+                                  items={CONNECTION_MODE_OPTIONS}
+                                  onChange={handleConnectionModeChange}
                                 />
+                                {connectionMode === "tls" && mtlsRequired && (
+                                  <InlineNotice tone="warning" icon={<AlertCircle size={13} />}>
+                                    This database requires mutual TLS. Add your IP address and allow TLS in the Network tab, or connect with a wallet.
+                                  </InlineNotice>
+                                )}
+                                {connectionMode === "wallet" && (
+                                  <>
+                                    <div className="grid gap-2 sm:grid-cols-2">
+                                      <Input
+                                        type="password"
+                                        label="Wallet Password"
+                                        value={walletPassword}
+                                        onChange={e => setWalletPassword(e.target.value)}
+                                        placeholder="At least 8 chars"
+                                      />
+                                      <div className="flex items-end">
+                                        <WorkbenchSubmitButton
+                                          type="button"
+                                          variant="secondary"
+                                          className="w-full gap-1.5"
+                                          onClick={handleDownloadWallet}
+                                          disabled={adbBusyAction !== null || !selectedAdbId || walletPassword.trim().length < 8}
+                                        >
+                                          {adbBusyAction === "wallet" ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />}
+                                          Download Wallet
+                                        </WorkbenchSubmitButton>
+                                      </div>
+                                    </div>
+
+                                    <Input
+                                      label="Wallet Path"
+                                      value={walletPath}
+                                      onChange={e => setWalletPath(e.target.value)}
+                                      placeholder="Wallet directory path"
+                                    />
+                                  </>
+                                )}
 
                                 <div className="grid gap-2 sm:grid-cols-3">
                                   <Input
@@ -930,7 +1074,7 @@ export default function AdbView() {
                                         disabled={
                                           adbBusyAction !== null ||
                                           !selectedAdbId ||
-                                          !walletPath.trim() ||
+                                          (connectionMode === "wallet" && !walletPath.trim()) ||
                                           !username.trim() ||
                                           !serviceName.trim()
                                         }
@@ -953,6 +1097,22 @@ export default function AdbView() {
                                 </WorkbenchToolbarGroup>
                               </div>
                             </WorkbenchSurface>
+
+                            {connectionMode === "wallet" && selectedDatabase && (
+                              <WorkbenchSurface className="p-0">
+                                <div className="border-b border-[var(--vscode-panel-border)] px-2.5 py-2">
+                                  <div className="text-[11px] font-semibold uppercase tracking-[0.14em] text-[var(--vscode-descriptionForeground)]">Wallet</div>
+                                </div>
+                                <div className="px-2.5 py-2">
+                                  <AdbWalletPanel
+                                    database={selectedDatabase}
+                                    walletPath={walletPath}
+                                    operations={operations}
+                                    onRequestGuardrail={setGuardrail}
+                                  />
+                                </div>
+                              </WorkbenchSurface>
+                            )}
                           </div>
                         </WorkbenchSection>
                       </TabsContent>
@@ -990,6 +1150,43 @@ export default function AdbView() {
                           )}
                         </WorkbenchSection>
                       </TabsContent>
+                      <TabsContent value="metrics" className="flex-1 overflow-auto pt-1.5">
+                        <WorkbenchSection title="Metrics" subtitle="CPU, storage and sessions from the oci_autonomous_database namespace. Sustained CPU near the threshold suggests more ECPUs or auto scaling.">
+                          <ResourceMetricsPanel
+                            resourceKind="adb"
+                            resourceId={selectedDatabase.id}
+                            compartmentId={selectedDatabase.compartmentId}
+                            region={selectedDatabase.region}
+                          />
+                        </WorkbenchSection>
+                      </TabsContent>
+                      <TabsContent value="scale" className="flex-1 overflow-auto pt-1.5">
+                        <WorkbenchSection title="Scale" subtitle="Change ECPUs, storage and auto scaling while the database stays open. Billing follows the new size.">
+                          <AdbScalePanel
+                            database={selectedDatabase}
+                            operations={operations}
+                            onRequestGuardrail={setGuardrail}
+                          />
+                        </WorkbenchSection>
+                      </TabsContent>
+                      <TabsContent value="backups" className="flex-1 overflow-auto pt-1.5">
+                        <WorkbenchSection title="Backups" subtitle="Take a manual backup before risky changes, or restore the database to an earlier point in time.">
+                          <AdbBackupsPanel
+                            database={selectedDatabase}
+                            operations={operations}
+                            onRequestGuardrail={setGuardrail}
+                          />
+                        </WorkbenchSection>
+                      </TabsContent>
+                      <TabsContent value="network" className="flex-1 overflow-auto pt-1.5">
+                        <WorkbenchSection title="Network" subtitle="Limit which addresses can reach the public endpoint, and allow TLS connections without a wallet.">
+                          <AdbNetworkPanel
+                            database={selectedDatabase}
+                            operations={operations}
+                            onRequestGuardrail={setGuardrail}
+                          />
+                        </WorkbenchSection>
+                      </TabsContent>
                     </Tabs>
                   </div>
                 </div>
@@ -1037,6 +1234,7 @@ export default function AdbView() {
                                     onStart={handleStart}
                                     onStop={handleStop}
                                     onRequestGuardrail={setGuardrail}
+                                    onClone={openProvisionDialog}
                                     onSelect={setSelectedAdbId}
                                     onOpenWorkspace={(id) => {
                                       setSelectedAdbId(id)
@@ -1074,6 +1272,16 @@ export default function AdbView() {
         }}
         onConfirm={handleGuardedAction}
       />
+
+      <ProvisionAdbDialog
+        open={provisionDialogOpen}
+        cloneSource={cloneSource}
+        onClose={() => {
+          setProvisionDialogOpen(false)
+          setCloneSource(null)
+        }}
+        onProvisioned={handleProvisioned}
+      />
     </FeaturePageLayout>
   )
 }
@@ -1087,6 +1295,7 @@ function DatabaseCard({
   onStart,
   onStop,
   onRequestGuardrail,
+  onClone,
   onSelect,
   onOpenWorkspace,
 }: {
@@ -1098,6 +1307,7 @@ function DatabaseCard({
   onStart: (id: string, region?: string) => void
   onStop: (id: string, region?: string) => void
   onRequestGuardrail: (value: WorkbenchGuardrailState) => void
+  onClone: (database: AdbResource) => void
   onSelect: (id: string) => void
   onOpenWorkspace: (id: string) => void
 }) {
@@ -1110,6 +1320,7 @@ function DatabaseCard({
       cardRef={onRegisterRef}
       title={database.name}
       subtitle={database.id}
+      region={database.region}
       selected={selected}
       highlighted={highlighted}
       onSelect={() => onSelect(database.id)}
@@ -1156,6 +1367,14 @@ function DatabaseCard({
             idleIcon={<StopCircle size={12} />}
             label="Stop"
           />
+          <WorkbenchSecondaryActionButton
+            disabled={!isAvailable}
+            onClick={() => onClone(database)}
+            title={isAvailable ? "Clone this database" : "Only an available database can be cloned"}
+          >
+            <Copy size={12} />
+            Clone
+          </WorkbenchSecondaryActionButton>
         </>
       )}
     />
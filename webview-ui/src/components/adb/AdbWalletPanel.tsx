@@ -0,0 +1,187 @@
+import { AlertCircle, KeyRound, Trash2 } from "lucide-react"
+import { useCallback, useEffect, useState } from "react"
+import { ResourceServiceClient } from "../../services/grpc-client"
+import type { AdbResource, AdbWalletStatus, TrackedWorkRequest } from "../../services/types"
+import InlineNotice from "../ui/InlineNotice"
+import { SummaryMetaCard } from "../workbench/DatabaseWorkbenchChrome"
+import { WorkbenchGuardrailActionButton } from "../workbench/WorkbenchActionButtons"
+import { WorkbenchCompactFieldRow, WorkbenchCompactInput } from "../workbench/WorkbenchCompactControls"
+import {
+  buildWorkbenchResourceGuardrailDetails,
+  createDeleteGuardrail,
+  createRotateGuardrail,
+  type WorkbenchGuardrailState,
+} from "../workbench/guardrail"
+import { WorkbenchRefreshButton } from "../workbench/WorkbenchToolbar"
+import { describeWalletStatus, formatDate } from "./walletStatus"
+
+const MAX_GRACE_PERIOD_HOURS = 24
+const DEFAULT_GRACE_PERIOD_HOURS = 1
+
+interface AdbWalletPanelProps {
+  database: AdbResource
+  /** Wallet path in the connection form; the status reloads when a download changes it */
+  walletPath: string
+  /** ADB operations followed by the extension host; the status reloads when a wallet rotation for this database settles */
+  operations: TrackedWorkRequest[]
+  onRequestGuardrail: (value: WorkbenchGuardrailState) => void
+}
+
+/** Downloaded wallet of the selected database, its expiry, rotation of the instance wallet and cleanup of unused wallets */
+export default function AdbWalletPanel({ database, walletPath, operations, onRequestGuardrail }: AdbWalletPanelProps) {
+  const [status, setStatus] = useState<AdbWalletStatus | null>(null)
+  const [gracePeriod, setGracePeriod] = useState(String(DEFAULT_GRACE_PERIOD_HOURS))
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [busy, setBusy] = useState<"rotate" | "cleanup" | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      setStatus(await ResourceServiceClient.getAdbWalletStatus({ autonomousDatabaseId: database.id, region: database.region }))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setLoading(false)
+    }
+  }, [database.id, database.region])
+
+  const walletOperations = operations.filter((operation) =>
+    operation.kind === "rotateAutonomousDatabaseWallet" && operation.resourceId === database.id)
+  const rotating = walletOperations.some((operation) => operation.status === "IN_PROGRESS")
+  const settledOperationKey = walletOperations
+    .filter((operation) => operation.status !== "IN_PROGRESS")
+    .map((operation) => operation.id)
+    .join(",")
+
+  useEffect(() => {
+    setNotice(null)
+  }, [database.id])
+
+  useEffect(() => {
+    void load()
+  }, [load, settledOperationKey, walletPath])
+
+  const hours = Number(gracePeriod)
+  const gracePeriodValid = Number.isInteger(hours) && hours >= 0 && hours <= MAX_GRACE_PERIOD_HOURS
+  const isAvailable = database.lifecycleState === "AVAILABLE"
+  const walletNotice = describeWalletStatus(status)
+
+  const rotate = async () => {
+    setBusy("rotate")
+    try {
+      await ResourceServiceClient.rotateAdbWallet({
+        autonomousDatabaseId: database.id,
+        databaseName: database.name,
+        region: database.region,
+        gracePeriodHours: hours,
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const cleanup = async () => {
+    setBusy("cleanup")
+    try {
+      const { removedPaths } = await ResourceServiceClient.cleanupAdbWallets()
+      setNotice(removedPaths.length > 0
+        ? `Removed ${removedPaths.length} wallet${removedPaths.length !== 1 ? "s" : ""} of terminated databases.`
+        : "No unused wallets found.")
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="grid gap-2 sm:grid-cols-3">
+        <SummaryMetaCard label="Downloaded" value={status?.downloadedAt ? formatDate(status.downloadedAt) : "Not by this extension"} />
+        <SummaryMetaCard label="Certificates expire" value={status?.expiresAt ? formatDate(status.expiresAt) : "Unknown"} />
+        <SummaryMetaCard
+          label="Instance wallet"
+          value={status?.walletLifecycleState
+            ? `${status.walletLifecycleState}${status.rotatedAt ? `, rotated ${formatDate(status.rotatedAt)}` : ""}`
+            : "Unknown"}
+        />
+      </div>
+
+      {rotating && (
+        <InlineNotice tone="info">
+          The wallet is being rotated. Download it again once the rotation finishes, or connect and it is downloaded for you.
+        </InlineNotice>
+      )}
+      {walletNotice && (
+        <InlineNotice tone={walletNotice.tone} icon={<AlertCircle size={13} />}>
+          {walletNotice.message}
+        </InlineNotice>
+      )}
+      {error && (
+        <InlineNotice tone="danger" icon={<AlertCircle size={13} />}>
+          {error}
+        </InlineNotice>
+      )}
+      {notice && <InlineNotice tone="success">{notice}</InlineNotice>}
+
+      <WorkbenchCompactFieldRow label="Grace (h)" labelClassName="w-16">
+        <WorkbenchCompactInput
+          type="number"
+          min={0}
+          max={MAX_GRACE_PERIOD_HOURS}
+          value={gracePeriod}
+          disabled={busy !== null || rotating}
+          onChange={(event) => setGracePeriod(event.target.value)}
+          className="h-[22px] px-1.5 text-[11px]"
+          title={`Hours the current wallet keeps working after the rotation, 0 to ${MAX_GRACE_PERIOD_HOURS}`}
+        />
+        <WorkbenchGuardrailActionButton
+          tone="danger"
+          disabled={!gracePeriodValid || !isAvailable || busy !== null || rotating}
+          guardrail={createRotateGuardrail({
+            title: "Rotate Wallet",
+            description: hours > 0
+              ? `Every wallet downloaded for this database, by any client, stops working ${hours} hour${hours !== 1 ? "s" : ""} after the rotation. Clients need to download the new wallet before then.`
+              : "Every wallet downloaded for this database, by any client, stops working as soon as the rotation finishes. Clients need to download the new wallet.",
+            confirmLabel: "Rotate Wallet",
+            details: buildWorkbenchResourceGuardrailDetails({
+              resourceLabel: "Database",
+              resourceName: database.name,
+              region: database.region || "default",
+              extras: [{ label: "Grace period", value: `${hours} hour${hours !== 1 ? "s" : ""}` }],
+            }),
+            onConfirm: rotate,
+          })}
+          onRequestGuardrail={onRequestGuardrail}
+          busy={busy === "rotate"}
+          idleIcon={<KeyRound size={12} />}
+          label="Rotate Wallet"
+          title={isAvailable ? "Issue new wallet certificates for this database" : "Database must be AVAILABLE"}
+        />
+        <WorkbenchGuardrailActionButton
+          variant="ghost"
+          disabled={busy !== null}
+          guardrail={createDeleteGuardrail({
+            title: "Clean Up Wallets",
+            description: "Deletes wallets the active profile downloaded for databases that were terminated, unless a saved connection profile still uses them.",
+            confirmLabel: "Clean Up",
+            details: [{ label: "Scope", value: "Wallets downloaded with the active profile" }],
+            onConfirm: cleanup,
+          })}
+          onRequestGuardrail={onRequestGuardrail}
+          busy={busy === "cleanup"}
+          idleIcon={<Trash2 size={12} />}
+          label="Clean Up Wallets"
+          title="Delete wallets of terminated databases downloaded with the active profile"
+        />
+        <div className="ml-auto">
+          <WorkbenchRefreshButton onClick={() => void load()} disabled={loading} spinning={loading} title="Reload wallet status" />
+        </div>
+      </WorkbenchCompactFieldRow>
+    </div>
+  )
+}
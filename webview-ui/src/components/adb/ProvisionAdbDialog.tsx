@@ -0,0 +1,750 @@
+import { clsx } from "clsx"
+import { AlertCircle, Copy, Database, Loader2, X } from "lucide-react"
+import { useEffect, useMemo, useState } from "react"
+import { useExtensionState } from "../../context/ExtensionStateContext"
+import { useScrollFlashTarget } from "../../hooks/useScrollFlashTarget"
+import { ResourceServiceClient } from "../../services/grpc-client"
+import type {
+  AdbCloneType,
+  AdbNetworkAccess,
+  AdbProvisioningOptions,
+  AdbResource,
+  AdbWorkloadType,
+} from "../../services/types"
+import GuardrailDialog from "../common/GuardrailDialog"
+import { DialogSection, FieldNote } from "../compute/LaunchInstanceDialog"
+import Button from "../ui/Button"
+import InlineNotice from "../ui/InlineNotice"
+import Input from "../ui/Input"
+import ResourceDropdown from "../ui/ResourceDropdown"
+import Select from "../ui/Select"
+import Textarea from "../ui/Textarea"
+import { WorkbenchDismissButton } from "../workbench/WorkbenchActionButtons"
+import { WorkbenchSegmentedControl } from "../workbench/WorkbenchCompactControls"
+import { buildWorkbenchGuardrailDetails, buildWorkbenchResourceGuardrailDetails } from "../workbench/guardrail"
+import { WorkbenchRefreshButton } from "../workbench/WorkbenchToolbar"
+
+const WORKLOAD_ITEMS: Array<{ value: AdbWorkloadType; label: string }> = [
+  { value: "OLTP", label: "Transaction Processing" },
+  { value: "DW", label: "Data Warehouse" },
+  { value: "AJD", label: "JSON" },
+  { value: "APEX", label: "APEX" },
+]
+const CLONE_TYPE_ITEMS: Array<{ value: AdbCloneType; label: string }> = [
+  { value: "FULL", label: "Full" },
+  { value: "METADATA", label: "Metadata" },
+  { value: "REFRESHABLE", label: "Refreshable" },
+]
+const CLONE_TYPE_NOTES: Record<AdbCloneType, string> = {
+  FULL: "Copies the data and metadata of the source.",
+  METADATA: "Copies schemas, tables and other metadata without the data.",
+  REFRESHABLE: "A read-only copy that is refreshed from the source. It keeps the ADMIN password of the source.",
+}
+const NETWORK_ACCESS_ITEMS: Array<{ value: AdbNetworkAccess["type"]; label: string }> = [
+  { value: "PUBLIC", label: "Public" },
+  { value: "RESTRICTED", label: "Allowed IPs" },
+  { value: "PRIVATE", label: "Private endpoint" },
+]
+
+type ProvisionValidationField =
+  | "displayName"
+  | "dbName"
+  | "compartmentId"
+  | "computeCount"
+  | "dataStorageSizeInTBs"
+  | "adminPassword"
+  | "confirmPassword"
+  | "allowedIps"
+  | "subnetId"
+
+interface ProvisionAdbDialogProps {
+  open: boolean
+  /** Clone this database instead of creating an empty one; the region is fixed to the source's */
+  cloneSource?: AdbResource | null
+  onClose: () => void
+  onProvisioned: (summary: { autonomousDatabaseId: string; operationId: string; displayName: string }) => void
+}
+
+export default function ProvisionAdbDialog({ open, cloneSource = null, onClose, onProvisioned }: ProvisionAdbDialogProps) {
+  const { activeProfile, profilesConfig, tenancyOcid, adbCompartmentIds, featureRegionMap } = useExtensionState()
+  const [displayName, setDisplayName] = useState("")
+  const [dbName, setDbName] = useState("")
+  const [compartmentId, setCompartmentId] = useState("")
+  const [region, setRegion] = useState("")
+  const [workload, setWorkload] = useState<AdbWorkloadType>("OLTP")
+  const [dbVersion, setDbVersion] = useState("")
+  const [cloneType, setCloneType] = useState<AdbCloneType>("FULL")
+  const [refreshableMode, setRefreshableMode] = useState<"AUTOMATIC" | "MANUAL">("MANUAL")
+  const [computeCount, setComputeCount] = useState("2")
+  const [dataStorageSizeInTBs, setDataStorageSizeInTBs] = useState("1")
+  const [isAutoScalingEnabled, setIsAutoScalingEnabled] = useState(false)
+  const [adminPassword, setAdminPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [networkAccessType, setNetworkAccessType] = useState<AdbNetworkAccess["type"]>("PUBLIC")
+  const [allowedIps, setAllowedIps] = useState("")
+  const [subnetId, setSubnetId] = useState("")
+  const [options, setOptions] = useState<AdbProvisioningOptions>({ versions: [], subnets: [] })
+  const [optionsLoading, setOptionsLoading] = useState(false)
+  const [optionsError, setOptionsError] = useState<string | null>(null)
+  const [optionsReloadKey, setOptionsReloadKey] = useState(0)
+  const [confirming, setConfirming] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [submitAttempted, setSubmitAttempted] = useState(false)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [errorAttentionKey, setErrorAttentionKey] = useState(0)
+  const {
+    targetRef: errorNoticeRef,
+    isFlashing: isErrorFlashing,
+    requestFocus: requestErrorFocus,
+    cancelFocus: cancelErrorFocus,
+    consumePendingFocus: consumePendingErrorFocus,
+  } = useScrollFlashTarget()
+
+  const compartmentOptions = useMemo(() => {
+    const activeProfileConfig = profilesConfig.find((profile) => profile.name === activeProfile)
+    const labelsById = new Map<string, string>()
+    if (tenancyOcid?.trim()) {
+      labelsById.set(tenancyOcid.trim(), "Root (Tenancy)")
+    }
+    for (const compartment of activeProfileConfig?.compartments ?? []) {
+      if (compartment.id?.trim()) {
+        labelsById.set(compartment.id.trim(), compartment.name?.trim() || compartment.id.trim())
+      }
+    }
+    const ids = [...new Set(adbCompartmentIds.map((id) => id.trim()).filter((id) => id.length > 0))]
+    return ids.map((id) => ({ value: id, label: labelsById.get(id) ?? id }))
+  }, [activeProfile, adbCompartmentIds, profilesConfig, tenancyOcid])
+  const regionOptions = useMemo(
+    () => (featureRegionMap.adb ?? []).map((value) => ({ value, label: value })),
+    [featureRegionMap.adb],
+  )
+  const refreshable = cloneSource !== null && cloneType === "REFRESHABLE"
+  const networkAccess = buildNetworkAccess(networkAccessType, allowedIps, subnetId)
+  const selectedSubnet = options.subnets.find((subnet) => subnet.id === subnetId) ?? null
+
+  const validationInput = {
+    displayName,
+    dbName,
+    compartmentId,
+    computeCount,
+    dataStorageSizeInTBs,
+    adminPassword,
+    confirmPassword,
+    requiresPassword: !refreshable,
+    networkAccess,
+  }
+  const validationIssue = submitAttempted ? getProvisionValidationIssue(validationInput) : null
+  const activeErrorMessage = validationIssue?.message ?? submitError
+  const activeErrorTitle = validationIssue ? "Database details need attention" : cloneSource ? "Unable to clone" : "Unable to create"
+  const invalidField = validationIssue?.field ?? null
+
+  const clearSubmitError = () => {
+    if (submitError) {
+      setSubmitError(null)
+    }
+  }
+
+  const focusErrorNotice = () => {
+    requestErrorFocus()
+    setErrorAttentionKey((current) => current + 1)
+  }
+
+  const dismissError = () => {
+    setSubmitAttempted(false)
+    setSubmitError(null)
+    cancelErrorFocus()
+  }
+
+  useEffect(() => {
+    if (!open) {
+      return
+    }
+    const suffix = buildTimestampSuffix()
+    setDisplayName(cloneSource ? `${cloneSource.name}-clone` : `adb-${suffix}`)
+    setDbName(cloneSource ? `${toDbName(cloneSource.name).slice(0, 24)}CL${suffix.slice(-4)}` : `ADB${suffix.replace("-", "")}`)
+    setCompartmentId(
+      cloneSource?.compartmentId && compartmentOptions.some((option) => option.value === cloneSource.compartmentId)
+        ? cloneSource.compartmentId
+        : compartmentOptions[0]?.value ?? "",
+    )
+    setRegion(cloneSource?.region ?? regionOptions[0]?.value ?? "")
+    setWorkload("OLTP")
+    setDbVersion("")
+    setCloneType("FULL")
+    setRefreshableMode("MANUAL")
+    setComputeCount("2")
+    setDataStorageSizeInTBs("1")
+    setIsAutoScalingEnabled(false)
+    setAdminPassword("")
+    setConfirmPassword("")
+    setNetworkAccessType("PUBLIC")
+    setAllowedIps("")
+    setSubnetId("")
+    setOptions({ versions: [], subnets: [] })
+    setOptionsError(null)
+    setConfirming(false)
+    setSubmitting(false)
+    setSubmitAttempted(false)
+    setSubmitError(null)
+    setErrorAttentionKey(0)
+    cancelErrorFocus()
+  }, [open, cloneSource, cancelErrorFocus])
+
+  useEffect(() => {
+    consumePendingErrorFocus(Boolean(activeErrorMessage) && errorAttentionKey > 0)
+  }, [activeErrorMessage, consumePendingErrorFocus, errorAttentionKey])
+
+  useEffect(() => {
+    if (!open || !compartmentId) {
+      return
+    }
+    let cancelled = false
+    setOptionsLoading(true)
+    setOptionsError(null)
+    void ResourceServiceClient.getAdbProvisioningOptions({
+      compartmentId,
+      region: region || undefined,
+      workload,
+    })
+      .then((response) => {
+        if (cancelled) {
+          return
+        }
+        setOptions(response)
+        setDbVersion((current) => (response.versions.some((item) => item.version === current) ? current : ""))
+        setSubnetId((current) => (response.subnets.some((subnet) => subnet.id === current) ? current : response.subnets[0]?.id ?? ""))
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setOptionsError(err instanceof Error ? err.message : String(err))
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setOptionsLoading(false)
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [compartmentId, open, optionsReloadKey, region, workload])
+
+  if (!open) {
+    return null
+  }
+
+  const handleReview = () => {
+    if (submitting) {
+      return
+    }
+    setSubmitAttempted(true)
+    clearSubmitError()
+    if (getProvisionValidationIssue(validationInput)) {
+      focusErrorNotice()
+      return
+    }
+    setConfirming(true)
+  }
+
+  const handleSubmit = async () => {
+    setSubmitting(true)
+    try {
+      const resolvedDisplayName = displayName.trim()
+      const shared = {
+        compartmentId,
+        region: region || undefined,
+        displayName: resolvedDisplayName,
+        dbName: dbName.trim(),
+        computeCount: Number(computeCount),
+        dataStorageSizeInTBs: Number(dataStorageSizeInTBs),
+        networkAccess,
+      }
+      const response = cloneSource
+        ? await ResourceServiceClient.cloneAdb({
+          ...shared,
+          sourceId: cloneSource.id,
+          cloneType,
+          adminPassword: refreshable ? undefined : adminPassword,
+          refreshableMode: refreshable ? refreshableMode : undefined,
+        })
+        : await ResourceServiceClient.createAdb({
+          ...shared,
+          workload,
+          isAutoScalingEnabled,
+          dbVersion: dbVersion || undefined,
+          adminPassword,
+        })
+      setConfirming(false)
+      onProvisioned({ ...response, displayName: resolvedDisplayName })
+    } catch (err) {
+      setConfirming(false)
+      focusErrorNotice()
+      setSubmitError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const actionLabel = cloneSource ? "Clone Database" : "Create Database"
+  const guardrailDetails = buildWorkbenchGuardrailDetails(buildWorkbenchResourceGuardrailDetails({
+    resourceLabel: "Database",
+    resourceName: `${displayName.trim()} (${dbName.trim()})`,
+    region: region || "default",
+    extras: [
+      ...(cloneSource
+        ? [
+          { label: "Source", value: cloneSource.name },
+          { label: "Clone type", value: CLONE_TYPE_ITEMS.find((item) => item.value === cloneType)?.label ?? cloneType },
+        ]
+        : [{ label: "Workload", value: WORKLOAD_ITEMS.find((item) => item.value === workload)?.label ?? workload }]),
+      { label: "Compartment", value: compartmentOptions.find((option) => option.value === compartmentId)?.label ?? compartmentId },
+      { label: "Capacity", value: `${computeCount} ECPU · ${dataStorageSizeInTBs} TB` },
+      { label: "Network access", value: describeNetworkAccess(networkAccess, selectedSubnet?.name) },
+    ],
+  }))
+
+  return (
+    <>
+      <div className="fixed inset-0 z-[120] flex items-center justify-center bg-black/50 px-3 py-4 font-sans text-[var(--vscode-foreground)]">
+        <div className="flex max-h-[90vh] w-full max-w-[980px] flex-col overflow-hidden rounded-[4px] border border-[var(--vscode-panel-border)] bg-[var(--workbench-panel-shell)] shadow-2xl">
+          <div className="flex items-start justify-between gap-3 border-b border-[var(--vscode-panel-border)] px-3 py-2.5">
+            <div className="min-w-0">
+              <div className="text-[10px] font-semibold uppercase tracking-[0.16em] text-[var(--vscode-descriptionForeground)]">
+                Autonomous Database
+              </div>
+              <div className="mt-1 flex items-center gap-2 text-[var(--vscode-foreground)]">
+                {cloneSource ? <Copy size={14} /> : <Database size={14} />}
+                <h3 className="truncate text-[13px] font-semibold">{actionLabel}</h3>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={submitting}
+              className="rounded-[2px] p-1 text-[var(--vscode-icon-foreground)] transition-colors hover:bg-[var(--vscode-toolbar-hoverBackground)] hover:text-[var(--vscode-foreground)] disabled:opacity-50"
+            >
+              <X size={16} />
+            </button>
+          </div>
+
+          <div className="min-h-0 overflow-y-auto px-3 py-3">
+            <div className="flex flex-col gap-2.5">
+              {activeErrorMessage && (
+                <div
+                  ref={errorNoticeRef}
+                  role="alert"
+                  className={clsx(
+                    "rounded-md transition-all duration-500",
+                    isErrorFlashing && "bg-[color-mix(in_srgb,var(--vscode-errorForeground)_10%,transparent)] ring-1 ring-[color-mix(in_srgb,var(--vscode-errorForeground)_40%,transparent)]",
+                  )}
+                >
+                  <InlineNotice
+                    tone="danger"
+                    size="md"
+                    icon={<AlertCircle size={14} />}
+                    title={activeErrorTitle}
+                    actions={<WorkbenchDismissButton onClick={dismissError} title="Dismiss" />}
+                  >
+                    {activeErrorMessage}
+                  </InlineNotice>
+                </div>
+              )}
+
+              {optionsError && (
+                <InlineNotice tone="warning" size="sm" icon={<AlertCircle size={14} />}>
+                  {optionsError}
+                </InlineNotice>
+              )}
+
+              {cloneSource && (
+                <DialogSection title="Clone source" subtitle={`The clone is created in ${cloneSource.region || "the source region"} with the workload type and version of the source.`}>
+                  <InlineNotice tone="neutral" size="sm">
+                    Cloning <span className="text-[var(--vscode-foreground)]">{cloneSource.name}</span> ({cloneSource.lifecycleState}).
+                  </InlineNotice>
+                  <WorkbenchSegmentedControl
+                    value={cloneType}
+                    items={CLONE_TYPE_ITEMS}
+                    onChange={(value) => {
+                      clearSubmitError()
+                      setCloneType(value)
+                    }}
+                  />
+                  <div className="text-[10px] text-[var(--vscode-descriptionForeground)]">{CLONE_TYPE_NOTES[cloneType]}</div>
+                  {cloneType === "REFRESHABLE" && (
+                    <Select
+                      id="adbRefreshableMode"
+                      label="Refresh"
+                      value={refreshableMode}
+                      disabled={submitting}
+                      onChange={(event) => setRefreshableMode(event.target.value === "AUTOMATIC" ? "AUTOMATIC" : "MANUAL")}
+                      options={[
+                        { value: "MANUAL", label: "Manual (refresh on request)" },
+                        { value: "AUTOMATIC", label: "Automatic (every hour)" },
+                      ]}
+                    />
+                  )}
+                </DialogSection>
+              )}
+
+              <DialogSection title="Placement" subtitle="Name the database and choose where it is created.">
+                <div className="grid gap-2 md:grid-cols-2">
+                  <FieldNote note={invalidField === "displayName" ? "Enter a display name." : "Shown in the console and in this view."} invalid={invalidField === "displayName"}>
+                    <Input
+                      id="adbDisplayName"
+                      label="Display name"
+                      value={displayName}
+                      disabled={submitting}
+                      onChange={(event) => {
+                        clearSubmitError()
+                        setDisplayName(event.target.value)
+                      }}
+                    />
+                  </FieldNote>
+                  <FieldNote note="Letters and numbers, starting with a letter, up to 30 characters." invalid={invalidField === "dbName"}>
+                    <Input
+                      id="adbDbName"
+                      label="Database name"
+                      value={dbName}
+                      disabled={submitting}
+                      onChange={(event) => {
+                        clearSubmitError()
+                        setDbName(event.target.value)
+                      }}
+                    />
+                  </FieldNote>
+                  <FieldNote
+                    note={compartmentOptions.length === 0 ? "Select an Autonomous Database compartment in this view first." : "From the compartments selected for Autonomous Database."}
+                    invalid={invalidField === "compartmentId"}
+                  >
+                    <ResourceDropdown
+                      id="adbCompartmentId"
+                      label="Compartment"
+                      value={compartmentId}
+                      disabled={submitting || compartmentOptions.length === 0}
+                      invalid={invalidField === "compartmentId"}
+                      placeholder="Select compartment"
+                      options={compartmentOptions}
+                      onChange={(value) => {
+                        clearSubmitError()
+                        setCompartmentId(value)
+                      }}
+                    />
+                  </FieldNote>
+                  {regionOptions.length > 1 && !cloneSource && (
+                    <Select
+                      id="adbRegion"
+                      label="Region"
+                      value={region}
+                      disabled={submitting}
+                      onChange={(event) => {
+                        clearSubmitError()
+                        setRegion(event.target.value)
+                      }}
+                      options={regionOptions}
+                    />
+                  )}
+                </div>
+              </DialogSection>
+
+              <DialogSection title={cloneSource ? "Capacity" : "Workload and capacity"} subtitle="ECPUs are billed per hour; storage is billed per terabyte.">
+                {!cloneSource && (
+                  <>
+                    <WorkbenchSegmentedControl
+                      value={workload}
+                      items={WORKLOAD_ITEMS}
+                      onChange={(value) => {
+                        clearSubmitError()
+                        setWorkload(value)
+                      }}
+                    />
+                    <FieldNote note={optionsLoading ? "Loading versions..." : "The default follows the current Oracle recommendation."}>
+                      <Select
+                        id="adbDbVersion"
+                        label="Database version"
+                        value={dbVersion}
+                        disabled={submitting || optionsLoading}
+                        onChange={(event) => setDbVersion(event.target.value)}
+                        options={[
+                          { value: "", label: "Default" },
+                          ...options.versions.map((item) => ({ value: item.version, label: item.version, description: item.details })),
+                        ]}
+                      />
+                    </FieldNote>
+                  </>
+                )}
+                <div className="grid gap-2 md:grid-cols-2">
+                  <FieldNote note={invalidField === "computeCount" ? "Enter a whole number of at least 2." : "ECPUs, at least 2"} invalid={invalidField === "computeCount"}>
+                    <Input
+                      id="adbComputeCount"
+                      label="ECPU count"
+                      type="number"
+                      min={2}
+                      value={computeCount}
+                      disabled={submitting}
+                      onChange={(event) => {
+                        clearSubmitError()
+                        setComputeCount(event.target.value)
+                      }}
+                    />
+                  </FieldNote>
+                  <FieldNote note={invalidField === "dataStorageSizeInTBs" ? "Enter a whole number of at least 1." : "TB"} invalid={invalidField === "dataStorageSizeInTBs"}>
+                    <Input
+                      id="adbStorage"
+                      label="Storage (TB)"
+                      type="number"
+                      min={1}
+                      value={dataStorageSizeInTBs}
+                      disabled={submitting}
+                      onChange={(event) => {
+                        clearSubmitError()
+                        setDataStorageSizeInTBs(event.target.value)
+                      }}
+                    />
+                  </FieldNote>
+                </div>
+                {!cloneSource && (
+                  <label className="flex items-center gap-2 text-[12px] text-foreground">
+                    <input
+                      type="checkbox"
+                      checked={isAutoScalingEnabled}
+                      disabled={submitting}
+                      className="accent-[var(--vscode-focusBorder)]"
+                      onChange={(event) => setIsAutoScalingEnabled(event.target.checked)}
+                    />
+                    Compute auto scaling (up to three times the ECPU count)
+                  </label>
+                )}
+              </DialogSection>
+
+              {!refreshable && (
+                <DialogSection title="ADMIN credentials" subtitle="12 to 30 characters with an uppercase letter, a lowercase letter and a number. No double quotes or the word admin.">
+                  <div className="grid gap-2 md:grid-cols-2">
+                    <FieldNote note="Required" invalid={invalidField === "adminPassword"}>
+                      <Input
+                        id="adbAdminPassword"
+                        label="ADMIN password"
+                        type="password"
+                        autoComplete="new-password"
+                        value={adminPassword}
+                        disabled={submitting}
+                        onChange={(event) => {
+                          clearSubmitError()
+                          setAdminPassword(event.target.value)
+                        }}
+                      />
+                    </FieldNote>
+                    <FieldNote note={invalidField === "confirmPassword" ? "Passwords do not match." : "Repeat the password"} invalid={invalidField === "confirmPassword"}>
+                      <Input
+                        id="adbConfirmPassword"
+                        label="Confirm password"
+                        type="password"
+                        autoComplete="new-password"
+                        value={confirmPassword}
+                        disabled={submitting}
+                        onChange={(event) => {
+                          clearSubmitError()
+                          setConfirmPassword(event.target.value)
+                        }}
+                      />
+                    </FieldNote>
+                  </div>
+                </DialogSection>
+              )}
+
+              <DialogSection title="Network access" subtitle="Public access can be limited to an access control list. A private endpoint is reachable only from its VCN.">
+                <WorkbenchSegmentedControl
+                  value={networkAccessType}
+                  items={NETWORK_ACCESS_ITEMS}
+                  onChange={(value) => {
+                    clearSubmitError()
+                    setNetworkAccessType(value)
+                  }}
+                />
+                {networkAccessType === "RESTRICTED" && (
+                  <FieldNote
+                    note={invalidField === "allowedIps" ? "Add at least one entry." : "One per line or comma separated: IP addresses, CIDR blocks or VCN OCIDs."}
+                    invalid={invalidField === "allowedIps"}
+                  >
+                    <Textarea
+                      id="adbAllowedIps"
+                      placeholder={"203.0.113.10\n198.51.100.0/24"}
+                      value={allowedIps}
+                      className="min-h-[64px] font-mono text-[11px]"
+                      disabled={submitting}
+                      onChange={(event) => {
+                        clearSubmitError()
+                        setAllowedIps(event.target.value)
+                      }}
+                    />
+                  </FieldNote>
+                )}
+                {networkAccessType === "PRIVATE" && (
+                  <FieldNote
+                    note={invalidField === "subnetId"
+                      ? "Select a subnet."
+                      : options.subnets.length === 0 && !optionsLoading
+                        ? "No subnets were found in this compartment or the compartments selected for VCN."
+                        : selectedSubnet?.cidrBlock || "Subnets come from the database compartment and the compartments selected for VCN."}
+                    invalid={invalidField === "subnetId"}
+                  >
+                    <ResourceDropdown
+                      id="adbSubnet"
+                      label="Subnet"
+                      value={subnetId}
+                      disabled={submitting || options.subnets.length === 0}
+                      invalid={invalidField === "subnetId"}
+                      loading={optionsLoading}
+                      placeholder={optionsLoading ? "Loading subnets..." : "Select a subnet"}
+                      options={options.subnets.map((subnet) => ({
+                        value: subnet.id,
+                        label: subnet.name,
+                        description: subnet.cidrBlock,
+                        meta: subnet.prohibitPublicIp ? "Private" : "Public",
+                      }))}
+                      onChange={(value) => {
+                        clearSubmitError()
+                        setSubnetId(value)
+                      }}
+                    />
+                  </FieldNote>
+                )}
+                <div className="flex justify-end border-t border-dashed border-[var(--vscode-panel-border)] pt-2">
+                  <WorkbenchRefreshButton
+                    onClick={() => setOptionsReloadKey((current) => current + 1)}
+                    disabled={submitting || !compartmentId}
+                    spinning={optionsLoading}
+                    title="Reload database versions and subnets"
+                  />
+                </div>
+              </DialogSection>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end gap-2 border-t border-[var(--vscode-panel-border)] bg-[color-mix(in_srgb,var(--vscode-editor-background)_95%,white_5%)] px-3 py-2.5">
+            <Button variant="secondary" size="sm" onClick={onClose} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleReview} disabled={submitting}>
+              {submitting ? (
+                <span className="flex items-center gap-1.5"><Loader2 size={12} className="animate-spin" /> {cloneSource ? "Cloning..." : "Creating..."}</span>
+              ) : actionLabel}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <GuardrailDialog
+        open={confirming}
+        title={cloneSource ? "Clone Autonomous Database" : "Create Autonomous Database"}
+        description={cloneSource
+          ? "Cloning provisions a new database that is billed separately from its source until it is terminated."
+          : "Creating this database provisions billable ECPUs and storage until it is terminated."}
+        confirmLabel={actionLabel}
+        details={guardrailDetails}
+        tone="warning"
+        busy={submitting}
+        onCancel={() => {
+          if (!submitting) {
+            setConfirming(false)
+          }
+        }}
+        onConfirm={handleSubmit}
+      />
+    </>
+  )
+}
+
+function buildNetworkAccess(type: AdbNetworkAccess["type"], allowedIps: string, subnetId: string): AdbNetworkAccess {
+  if (type === "RESTRICTED") {
+    return { type, allowedIps: allowedIps.split(/[\s,]+/).filter((item) => item.length > 0) }
+  }
+  if (type === "PRIVATE") {
+    return { type, subnetId }
+  }
+  return { type }
+}
+
+function describeNetworkAccess(access: AdbNetworkAccess, subnetName?: string): string {
+  if (access.type === "RESTRICTED") {
+    return `${access.allowedIps?.length ?? 0} allowed entr${access.allowedIps?.length === 1 ? "y" : "ies"}`
+  }
+  if (access.type === "PRIVATE") {
+    return `Private endpoint in ${subnetName ?? access.subnetId}`
+  }
+  return "Public, any address"
+}
+
+function getProvisionValidationIssue({
+  displayName,
+  dbName,
+  compartmentId,
+  computeCount,
+  dataStorageSizeInTBs,
+  adminPassword,
+  confirmPassword,
+  requiresPassword,
+  networkAccess,
+}: {
+  displayName: string
+  dbName: string
+  compartmentId: string
+  computeCount: string
+  dataStorageSizeInTBs: string
+  adminPassword: string
+  confirmPassword: string
+  requiresPassword: boolean
+  networkAccess: AdbNetworkAccess
+}): { field: ProvisionValidationField; message: string } | null {
+  if (!displayName.trim()) {
+    return { field: "displayName", message: "Display name is required." }
+  }
+  if (!/^[A-Za-z][A-Za-z0-9]{0,29}$/.test(dbName.trim())) {
+    return { field: "dbName", message: "Database name must start with a letter and contain up to 30 letters and numbers." }
+  }
+  if (!compartmentId) {
+    return { field: "compartmentId", message: "Select the compartment to create the database in." }
+  }
+  if (!isWholeNumberAtLeast(computeCount, 2)) {
+    return { field: "computeCount", message: "ECPU count must be a whole number of at least 2." }
+  }
+  if (!isWholeNumberAtLeast(dataStorageSizeInTBs, 1)) {
+    return { field: "dataStorageSizeInTBs", message: "Storage must be a whole number of terabytes, at least 1." }
+  }
+  if (requiresPassword) {
+    if (adminPassword.length < 12 || adminPassword.length > 30
+      || !/[A-Z]/.test(adminPassword) || !/[a-z]/.test(adminPassword) || !/[0-9]/.test(adminPassword)
+      || adminPassword.includes("\"") || /admin/i.test(adminPassword)) {
+      return { field: "adminPassword", message: "ADMIN password does not meet the Autonomous Database password rules." }
+    }
+    if (adminPassword !== confirmPassword) {
+      return { field: "confirmPassword", message: "The ADMIN passwords do not match." }
+    }
+  }
+  if (networkAccess.type === "RESTRICTED" && (networkAccess.allowedIps ?? []).length === 0) {
+    return { field: "allowedIps", message: "Add at least one IP address, CIDR block or VCN to the access control list." }
+  }
+  if (networkAccess.type === "PRIVATE" && !networkAccess.subnetId) {
+    return { field: "subnetId", message: "Select a subnet for the private endpoint." }
+  }
+  return null
+}
+
+function isWholeNumberAtLeast(value: string, min: number) {
+  const parsed = Number(value.trim())
+  return value.trim().length > 0 && Number.isInteger(parsed) && parsed >= min
+}
+
+/** Keeps letters and digits, starts with a letter and stays within the 30 characters OCI allows */
+function toDbName(value: string) {
+  const cleaned = value.replace(/[^A-Za-z0-9]/g, "").replace(/^[0-9]+/, "")
+  return (cleaned || "ADB").slice(0, 30).toUpperCase()
+}
+
+function buildTimestampSuffix(date = new Date()) {
+  const year = String(date.getFullYear())
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  const hours = String(date.getHours()).padStart(2, "0")
+  const minutes = String(date.getMinutes()).padStart(2, "0")
+  return `${year}${month}${day}-${hours}${minutes}`
+}
@@ -0,0 +1,45 @@
+import type { AdbWalletStatus } from "../../services/types"
+
+const EXPIRY_WARNING_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface WalletStatusNotice {
+  tone: "warning" | "danger"
+  message: string
+}
+
+/** Warning to show for a downloaded wallet that was rotated, has expired or expires soon */
+export function describeWalletStatus(status: AdbWalletStatus | null, now = Date.now()): WalletStatusNotice | null {
+  if (!status?.walletPath) {
+    return null
+  }
+  if (status.isStale) {
+    return {
+      tone: "warning",
+      message: `The wallet was rotated${status.rotatedAt ? ` on ${formatDate(status.rotatedAt)}` : ""} after this copy was downloaded. `
+        + "It is downloaded again on the next connect, using the wallet password.",
+    }
+  }
+  if (!status.expiresAt) {
+    return null
+  }
+  const expiresAt = Date.parse(status.expiresAt)
+  if (expiresAt <= now) {
+    return {
+      tone: "danger",
+      message: `The wallet certificates expired on ${formatDate(status.expiresAt)}. Rotate the wallet or download it again.`,
+    }
+  }
+  const daysLeft = Math.ceil((expiresAt - now) / DAY_MS)
+  if (daysLeft <= EXPIRY_WARNING_DAYS) {
+    return {
+      tone: "warning",
+      message: `The wallet certificates expire in ${daysLeft} day${daysLeft !== 1 ? "s" : ""} (${formatDate(status.expiresAt)}). Rotate the wallet or download it again before then.`,
+    }
+  }
+  return null
+}
+
+export function formatDate(value?: string): string {
+  return value ? new Date(value).toLocaleString() : ""
+}
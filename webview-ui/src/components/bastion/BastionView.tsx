@@ -3,10 +3,12 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { useExtensionState } from "../../context/ExtensionStateContext"
 import { toneFromLifecycleState, useWorkbenchInsight } from "../../context/WorkbenchInsightContext"
 import { ResourceServiceClient } from "../../services/grpc-client"
-import type { BastionResource, BastionSessionResource } from "../../services/types"
+import type { BastionResource, BastionSessionResource, RegionListingError } from "../../services/types"
 import GuardrailDialog from "../common/GuardrailDialog"
+import RegionErrorsNotice from "../common/RegionErrorsNotice"
 import BastionSshCommandDialog from "./BastionSshCommandDialog"
 import CompartmentSelector from "../ui/CompartmentSelector"
+import RegionSelector, { useFeatureRegionsReload } from "../ui/RegionSelector"
 import InlineNotice from "../ui/InlineNotice"
 import StatusBadge, { LifecycleBadge } from "../ui/StatusBadge"
 import { WorkbenchEmptyState, WorkbenchLoadingState } from "../workbench/DatabaseWorkbenchChrome"
@@ -71,6 +73,7 @@ export default function BastionView() {
   const [loadingSessionCounts, setLoadingSessionCounts] = useState<Record<string, number>>({})
   const [deletingSessionId, setDeletingSessionId] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [regionErrors, setRegionErrors] = useState<RegionListingError[]>([])
   const [query, setQuery] = useState("")
   const [selectedBastionId, setSelectedBastionId] = useState("")
   const [highlightedBastionId, setHighlightedBastionId] = useState<string | null>(null)
@@ -241,6 +244,7 @@ export default function BastionView() {
     setError(null)
     if (selectedCompartmentIds.length === 0) {
       setBastions([])
+      setRegionErrors([])
       setSessionsByBastion({})
       setLoadingSessionCounts({})
       sessionLoadRequestIdRef.current = new Map()
@@ -258,6 +262,7 @@ export default function BastionView() {
       }
       const nextBastions = response.bastions ?? []
       setBastions(nextBastions)
+      setRegionErrors(response.regionErrors ?? [])
       const validBastionIds = new Set(nextBastions.map((bastion) => bastion.id))
       sessionLoadRequestIdRef.current = new Map(
         [...sessionLoadRequestIdRef.current.entries()].filter(([bastionId]) => validBastionIds.has(bastionId)),
@@ -327,9 +332,7 @@ export default function BastionView() {
     }
   }, [])
 
-  useEffect(() => {
-    void loadBastions()
-  }, [loadBastions])
+  useFeatureRegionsReload("bastion", loadBastions)
 
   useEffect(() => {
     if (!selectedBastion) {
@@ -587,6 +590,7 @@ export default function BastionView() {
       controls={(
         <div className="flex flex-col gap-1.5">
           <CompartmentSelector featureKey="bastion" multiple />
+          <RegionSelector featureKey="bastion" />
           {bastions.length > 0 && (
             <FeatureSearchInput
               value={query}
@@ -598,6 +602,7 @@ export default function BastionView() {
       )}
     >
       <div className="flex h-full min-h-0 flex-col px-2 py-2">
+        <RegionErrorsNotice errors={regionErrors} className="mb-2" />
         {error && (
           <InlineNotice
             tone="danger"
@@ -786,6 +791,7 @@ function BastionCard({
       cardRef={onRegisterRef}
       title={bastion.name}
       subtitle={bastion.id}
+      region={bastion.region}
       selected={selected}
       highlighted={highlighted}
       onSelect={onSelect}
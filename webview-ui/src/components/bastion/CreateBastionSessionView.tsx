@@ -5,6 +5,7 @@ import { toneFromLifecycleState, useWorkbenchInsight } from "../../context/Workb
 import { ResourceServiceClient } from "../../services/grpc-client"
 import type { BastionResource } from "../../services/types"
 import CompartmentSelector from "../ui/CompartmentSelector"
+import RegionSelector, { useFeatureRegionsReload } from "../ui/RegionSelector"
 import InlineNotice from "../ui/InlineNotice"
 import StatusBadge, { LifecycleBadge } from "../ui/StatusBadge"
 import { WorkbenchEmptyState, WorkbenchLoadingState } from "../workbench/DatabaseWorkbenchChrome"
@@ -65,9 +66,7 @@ export default function CreateBastionSessionView() {
     }
   }, [selectedCompartmentIds])
 
-  useEffect(() => {
-    void loadBastions()
-  }, [loadBastions])
+  useFeatureRegionsReload("bastion", loadBastions)
 
   useEffect(() => {
     if (pendingSelection?.view !== "bastionSession") {
@@ -172,7 +171,12 @@ export default function CreateBastionSessionView() {
           <WorkbenchRefreshButton onClick={loadBastions} disabled={loading} spinning={loading} />
         </WorkbenchCompactActionCluster>
       )}
-      controls={<CompartmentSelector featureKey="bastion" multiple />}
+      controls={(
+        <div className="flex flex-col gap-1.5">
+          <CompartmentSelector featureKey="bastion" multiple />
+          <RegionSelector featureKey="bastion" />
+        </div>
+      )}
       contentClassName="p-2"
     >
       <section className="h-full min-h-0 overflow-hidden rounded-lg border border-[var(--vscode-panel-border)] bg-[var(--workbench-panel-surface)]">
@@ -0,0 +1,32 @@
+import { AlertTriangle } from "lucide-react"
+import type { RegionListingError } from "../../services/types"
+import InlineNotice from "../ui/InlineNotice"
+
+interface RegionErrorsNoticeProps {
+  errors: RegionListingError[]
+  className?: string
+}
+
+/** Lists the selected regions a listing skipped; the resources of the other regions are still shown. */
+export default function RegionErrorsNotice({ errors, className }: RegionErrorsNoticeProps) {
+  if (errors.length === 0) {
+    return null
+  }
+  return (
+    <InlineNotice
+      tone="warning"
+      size="md"
+      icon={<AlertTriangle size={13} />}
+      title={errors.length === 1 ? "1 region could not be listed" : `${errors.length} regions could not be listed`}
+      className={className}
+    >
+      <ul className="flex flex-col gap-0.5">
+        {errors.map((regionError) => (
+          <li key={regionError.region} className="break-words">
+            <span className="font-medium">{regionError.region}</span>: {regionError.message}
+          </li>
+        ))}
+      </ul>
+    </InlineNotice>
+  )
+}
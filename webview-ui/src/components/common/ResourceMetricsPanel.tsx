@@ -0,0 +1,229 @@
+import { AlertCircle, TrendingDown, TrendingUp } from "lucide-react"
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { ResourceServiceClient } from "../../services/grpc-client"
+import type { GetResourceMetricsResponse, MetricSeries, MetricsResourceKind, MetricsWindow } from "../../services/types"
+import InlineNotice from "../ui/InlineNotice"
+import { WorkbenchEmptyState, WorkbenchLoadingState, WorkbenchSurface } from "../workbench/DatabaseWorkbenchChrome"
+import { WorkbenchCompactInput, WorkbenchSegmentedControl } from "../workbench/WorkbenchCompactControls"
+import { WorkbenchRefreshButton } from "../workbench/WorkbenchToolbar"
+
+const WINDOW_OPTIONS: { value: MetricsWindow; label: string }[] = [
+  { value: "1h", label: "1h" },
+  { value: "6h", label: "6h" },
+  { value: "24h", label: "24h" },
+  { value: "7d", label: "7d" },
+]
+const DEFAULT_THRESHOLD_PERCENT = 80
+/** Peak utilization below this over the whole window suggests a smaller shape */
+const UNDERUSED_PEAK_PERCENT = 20
+const CHART_WIDTH = 320
+const CHART_HEIGHT = 96
+
+interface ResourceMetricsPanelProps {
+  resourceKind: MetricsResourceKind
+  resourceId: string
+  compartmentId?: string
+  region?: string
+}
+
+/** Monitoring charts for one resource, with a utilization threshold to spot right-sizing candidates */
+export default function ResourceMetricsPanel({ resourceKind, resourceId, compartmentId, region }: ResourceMetricsPanelProps) {
+  const [metricsWindow, setMetricsWindow] = useState<MetricsWindow>("1h")
+  const [threshold, setThreshold] = useState(String(DEFAULT_THRESHOLD_PERCENT))
+  const [data, setData] = useState<GetResourceMetricsResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    if (!compartmentId) {
+      setError("The compartment of this resource is unknown. Refresh the list and retry.")
+      return
+    }
+    setLoading(true)
+    setError(null)
+    try {
+      setData(await ResourceServiceClient.getResourceMetrics({ resourceKind, resourceId, compartmentId, region, window: metricsWindow }))
+    } catch (err) {
+      setData(null)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setLoading(false)
+    }
+  }, [compartmentId, region, resourceId, resourceKind, metricsWindow])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const parsedThreshold = Number(threshold)
+  const thresholdPercent = Number.isFinite(parsedThreshold) && parsedThreshold > 0 && parsedThreshold <= 100
+    ? parsedThreshold
+    : DEFAULT_THRESHOLD_PERCENT
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <WorkbenchSegmentedControl value={metricsWindow} items={WINDOW_OPTIONS} onChange={setMetricsWindow} className="w-[200px] gap-1" />
+        <label className="flex items-center gap-1.5 text-[11px] text-description">
+          Threshold %
+          <WorkbenchCompactInput
+            type="number"
+            min={1}
+            max={100}
+            value={threshold}
+            onChange={(event) => setThreshold(event.target.value)}
+            className="w-14"
+          />
+        </label>
+        <div className="ml-auto flex items-center gap-2 text-[10px] text-description">
+          {data && <span>{data.namespace} · {data.interval} interval</span>}
+          <WorkbenchRefreshButton onClick={() => void load()} disabled={loading} spinning={loading} title="Query Monitoring again" />
+        </div>
+      </div>
+
+      {error && (
+        <InlineNotice tone="danger" icon={<AlertCircle size={13} />}>
+          {error}
+        </InlineNotice>
+      )}
+      {data && data.missing.length > 0 && (
+        <InlineNotice tone="neutral">
+          No data for {data.missing.join(", ")} in this window. Check that the resource publishes these metrics (for Compute, the Oracle Cloud Agent monitoring plugin).
+        </InlineNotice>
+      )}
+
+      {loading && !data ? (
+        <WorkbenchLoadingState label="Querying Monitoring..." className="min-h-[120px] py-4" />
+      ) : data && data.series.length > 0 ? (
+        <div className="grid gap-2 sm:grid-cols-2">
+          {data.series.map((series) => (
+            <MetricChart key={series.label} series={series} thresholdPercent={thresholdPercent} />
+          ))}
+        </div>
+      ) : data ? (
+        <WorkbenchEmptyState title="No metrics" description="Monitoring returned no datapoints for this resource in the selected window." />
+      ) : null}
+    </div>
+  )
+}
+
+function MetricChart({ series, thresholdPercent }: { series: MetricSeries; thresholdPercent: number }) {
+  const stats = useMemo(() => summarize(series), [series])
+  const isPercent = series.unit === "percent"
+  const yMax = isPercent ? 100 : Math.max(stats.peak * 1.1, 1)
+  const points = series.datapoints.map((point, index) => ({
+    x: series.datapoints.length > 1 ? (index / (series.datapoints.length - 1)) * CHART_WIDTH : CHART_WIDTH / 2,
+    y: CHART_HEIGHT - (Math.min(point.value, yMax) / yMax) * CHART_HEIGHT,
+    over: isPercent && point.value >= thresholdPercent,
+  }))
+  const line = points.map((point) => `${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(" ")
+  const thresholdY = CHART_HEIGHT - (thresholdPercent / 100) * CHART_HEIGHT
+  const overShare = isPercent ? series.datapoints.filter((point) => point.value >= thresholdPercent).length / Math.max(series.datapoints.length, 1) : 0
+  const hint = isPercent ? rightSizingHint(stats, thresholdPercent, overShare) : null
+
+  return (
+    <WorkbenchSurface className="flex flex-col gap-1.5 p-2">
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="truncate text-[12px] font-semibold text-[var(--vscode-foreground)]">{series.label}</span>
+        <span className="shrink-0 text-[11px] text-[var(--vscode-foreground)]">{formatValue(stats.latest, series)}</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="h-24 w-full overflow-visible"
+        role="img"
+        aria-label={`${series.label} over time`}
+      >
+        {isPercent && (
+          <>
+            <rect x={0} y={0} width={CHART_WIDTH} height={thresholdY} className="fill-[color-mix(in_srgb,var(--vscode-errorForeground)_8%,transparent)]" />
+            <line
+              x1={0}
+              x2={CHART_WIDTH}
+              y1={thresholdY}
+              y2={thresholdY}
+              strokeDasharray="4 3"
+              vectorEffect="non-scaling-stroke"
+              className="stroke-[var(--vscode-errorForeground)]"
+            />
+          </>
+        )}
+        <polyline
+          points={`0,${CHART_HEIGHT} ${line} ${CHART_WIDTH},${CHART_HEIGHT}`}
+          className="fill-[color-mix(in_srgb,var(--vscode-charts-blue,var(--vscode-button-background))_18%,transparent)] stroke-none"
+        />
+        <polyline
+          points={line}
+          fill="none"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+          className="stroke-[var(--vscode-charts-blue,var(--vscode-button-background))]"
+        />
+        {points.filter((point) => point.over).map((point) => (
+          <rect
+            key={point.x}
+            x={point.x - 1}
+            y={point.y}
+            width={2}
+            height={CHART_HEIGHT - point.y}
+            className="fill-[color-mix(in_srgb,var(--vscode-errorForeground)_55%,transparent)]"
+          />
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-[10px] text-description">
+        <span>Mean {formatValue(stats.mean, series)}</span>
+        <span>Peak {formatValue(stats.peak, series)}</span>
+        {isPercent && <span>Over {thresholdPercent}%: {Math.round(overShare * 100)}% of the window</span>}
+      </div>
+      {hint && (
+        <div className={hint.tone === "up" ? "flex items-center gap-1 text-[11px] text-warning" : "flex items-center gap-1 text-[11px] text-description"}>
+          {hint.tone === "up" ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+          {hint.text}
+        </div>
+      )}
+    </WorkbenchSurface>
+  )
+}
+
+function summarize(series: MetricSeries): { latest: number; mean: number; peak: number } {
+  const values = series.datapoints.map((point) => point.value)
+  if (values.length === 0) {
+    return { latest: 0, mean: 0, peak: 0 }
+  }
+  return {
+    latest: values[values.length - 1],
+    mean: values.reduce((sum, value) => sum + value, 0) / values.length,
+    peak: Math.max(...values),
+  }
+}
+
+function rightSizingHint(
+  stats: { mean: number; peak: number },
+  thresholdPercent: number,
+  overShare: number,
+): { tone: "up" | "down"; text: string } | null {
+  if (stats.mean >= thresholdPercent || overShare >= 0.25) {
+    return { tone: "up", text: "Often above the threshold: consider a larger shape or more OCPUs." }
+  }
+  if (stats.peak < UNDERUSED_PEAK_PERCENT) {
+    return { tone: "down", text: `Never above ${UNDERUSED_PEAK_PERCENT}%: a smaller shape may be enough.` }
+  }
+  return null
+}
+
+function formatValue(value: number, series: MetricSeries): string {
+  if (series.unit === "percent") {
+    return `${value.toFixed(1)}%`
+  }
+  if (series.unit === "bytesPerSecond") {
+    const units = ["B/s", "KB/s", "MB/s", "GB/s"]
+    let scaled = value
+    let index = 0
+    while (scaled >= 1024 && index < units.length - 1) {
+      scaled /= 1024
+      index += 1
+    }
+    return `${scaled.toFixed(scaled >= 100 || index === 0 ? 0 : 1)} ${units[index]}`
+  }
+  return value >= 100 ? value.toFixed(0) : value.toFixed(1)
+}
@@ -1,16 +1,45 @@
-import { AlertCircle, CheckCircle2, Loader2, MonitorPlay, MonitorStop, Server, SquareTerminal } from "lucide-react"
+import {
+  Activity,
+  AlertCircle,
+  Cable,
+  CheckCircle2,
+  FileCog,
+  HardDrive,
+  Loader2,
+  MonitorPlay,
+  MonitorStop,
+  MonitorUp,
+  Plus,
+  Power,
+  PowerOff,
+  RotateCcw,
+  Scaling,
+  ScrollText,
+  Server,
+  SquareTerminal,
+  TerminalSquare,
+  Trash2,
+} from "lucide-react"
 import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { useExtensionState } from "../../context/ExtensionStateContext"
 import { toneFromLifecycleState, useWorkbenchInsight } from "../../context/WorkbenchInsightContext"
-import { ResourceServiceClient } from "../../services/grpc-client"
-import type { ComputeResource } from "../../services/types"
+import { ResourceServiceClient, RunCommandServiceClient, WorkRequestServiceClient } from "../../services/grpc-client"
+import type { ComputeInstanceAction, ComputeResource, ComputeSshConfigHost, RegionListingError, RunCommandRun, TrackedWorkRequest } from "../../services/types"
 import { DEFAULT_SSH_USERNAME, SSH_CONFIG_STORAGE_KEY, loadSshConfig, saveSshConfig, type HostPreference, type SshConfig } from "../../sshConfig"
 import GuardrailDialog from "../common/GuardrailDialog"
+import RegionErrorsNotice from "../common/RegionErrorsNotice"
+import ResourceMetricsPanel from "../common/ResourceMetricsPanel"
 import CompartmentSelector from "../ui/CompartmentSelector"
+import RegionSelector, { useFeatureRegionsReload } from "../ui/RegionSelector"
 import InlineNotice from "../ui/InlineNotice"
 import StatusBadge, { LifecycleBadge } from "../ui/StatusBadge"
 import { WorkbenchEmptyState, WorkbenchLoadingState } from "../workbench/DatabaseWorkbenchChrome"
 import WorkbenchActionInventoryCard from "../workbench/WorkbenchActionInventoryCard"
+import WorkbenchOperationCard from "../workbench/WorkbenchOperationCard"
+import InstanceBackupsPanel from "./InstanceBackupsPanel"
+import LaunchInstanceDialog, { type LaunchRestoreSource } from "./LaunchInstanceDialog"
+import RunCommandDialog from "./RunCommandDialog"
+import RunCommandResults from "./RunCommandResults"
 import {
   WorkbenchInventoryFilterEmpty,
   WorkbenchInventoryGroupHeading,
@@ -23,17 +52,30 @@ import {
   WorkbenchDismissButton,
   WorkbenchGuardrailActionButton,
   WorkbenchRevealButton,
+  WorkbenchSecondaryActionButton,
   WorkbenchSelectButton,
   WorkbenchSubmitButton,
 } from "../workbench/WorkbenchActionButtons"
 import { WorkbenchCompactFieldRow, WorkbenchCompactInput } from "../workbench/WorkbenchCompactControls"
 import FeaturePageLayout, { FeatureSearchInput } from "../workbench/FeaturePageLayout"
-import type { WorkbenchGuardrailState } from "../workbench/guardrail"
-import { buildWorkbenchResourceGuardrailDetails, createStartResourceGuardrail, createStopResourceGuardrail } from "../workbench/guardrail"
+import type { WorkbenchGuardrailDetail, WorkbenchGuardrailState } from "../workbench/guardrail"
+import {
+  buildWorkbenchResourceGuardrailDetails,
+  createOverwriteResourceGuardrail,
+  createRebootResourceGuardrail,
+  createResizeResourceGuardrail,
+  createStartResourceGuardrail,
+  createStopResourceGuardrail,
+  createTerminateResourceGuardrail,
+} from "../workbench/guardrail"
 import { openViewLabel, showInListLabel } from "../workbench/navigationLabels"
 import { WorkbenchRefreshButton } from "../workbench/WorkbenchToolbar"
 
-type ActionState = { id: string; action: "starting" | "stopping" } | null
+type InstanceActionKind = "starting" | "stopping" | "forceStopping" | "rebooting" | "forceRebooting" | "resizing" | "terminating"
+type ActionState = { id: string; action: InstanceActionKind } | null
+type ConsoleActionState = { id: string; kind: "history" | "serial" } | null
+/** Writing the SSH config for the checked instances, or for one instance opened in Remote-SSH */
+type SshConfigActionState = { kind: "write" } | { kind: "remote"; id: string } | null
 type RecentActionState = {
   resourceId: string
   resourceName: string
@@ -41,7 +83,7 @@ type RecentActionState = {
   timestamp: number
 } | null
 
-const TRANSITIONAL_STATES = new Set(["STARTING", "STOPPING", "PROVISIONING", "TERMINATING"])
+const TRANSITIONAL_STATES = new Set(["STARTING", "STOPPING", "PROVISIONING", "TERMINATING", "CREATING_IMAGE"])
 const POLL_INTERVAL_MS = 5000
 const SSH_USER_OVERRIDES_STORAGE_KEY = "ociAi.compute.sshUserOverrides"
 const SSH_USER_OVERRIDES_MIGRATION_V2_KEY = "ociAi.compute.sshUserOverridesMigration.v2"
@@ -54,8 +96,13 @@ export default function ComputeView() {
   const [instances, setInstances] = useState<ComputeResource[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [regionErrors, setRegionErrors] = useState<RegionListingError[]>([])
   const [actionState, setActionState] = useState<ActionState>(null)
   const [connectingId, setConnectingId] = useState<string | null>(null)
+  const [consoleAction, setConsoleAction] = useState<ConsoleActionState>(null)
+  const [sshConfigIds, setSshConfigIds] = useState<Set<string>>(() => new Set())
+  const [sshConfigAction, setSshConfigAction] = useState<SshConfigActionState>(null)
+  const [sshConfigNotice, setSshConfigNotice] = useState<string | null>(null)
   const [query, setQuery] = useState("")
   const [sshConfig, setSshConfig] = useState<SshConfig>(loadSshConfig)
   const [sshUserOverrides, setSshUserOverrides] = useState<Record<string, string>>(loadSshUserOverrides)
@@ -64,6 +111,12 @@ export default function ComputeView() {
   const [recentAction, setRecentAction] = useState<RecentActionState>(null)
   const [highlightedInstanceId, setHighlightedInstanceId] = useState<string | null>(null)
   const [selectedInstanceId, setSelectedInstanceId] = useState("")
+  const [launchDialogOpen, setLaunchDialogOpen] = useState(false)
+  const [restoreSource, setRestoreSource] = useState<LaunchRestoreSource | null>(null)
+  const [operations, setOperations] = useState<TrackedWorkRequest[]>([])
+  const [runCommandDialogOpen, setRunCommandDialogOpen] = useState(false)
+  const [runCommandTargetIds, setRunCommandTargetIds] = useState<string[]>([])
+  const [runCommandRuns, setRunCommandRuns] = useState<RunCommandRun[]>([])
   const actionTimerRef = useRef<number | null>(null)
   const highlightTimerRef = useRef<number | null>(null)
   const instanceItemRefs = useRef(new Map<string, HTMLElement>())
@@ -78,6 +131,7 @@ export default function ComputeView() {
     () => instances.find((instance) => instance.id === selectedInstanceId) ?? null,
     [instances, selectedInstanceId],
   )
+  const runningInstances = useMemo(() => instances.filter((instance) => instance.lifecycleState === "RUNNING"), [instances])
   const compartmentNameById = useMemo(() => {
     const map = new Map<string, string>()
     const rootId = tenancyOcid?.trim()
@@ -164,18 +218,20 @@ export default function ComputeView() {
     return () => setResource(null)
   }, [navigateToView, query, revealSelectedInstance, selectedInstance, setPendingSelection, setResource, sshConfig.hostPreference, sshConfig.username, sshUserOverrides])
 
-  const load = useCallback(async () => {
+  const load = useCallback(async (refresh = false) => {
     setLoading(true)
     setError(null)
     if (selectedCompartmentIds.length === 0) {
       setInstances([])
+      setRegionErrors([])
       setLoading(false)
       return
     }
     try {
-      const res = await ResourceServiceClient.listCompute()
+      const res = await ResourceServiceClient.listCompute(refresh)
       const nextInstances = res.instances ?? []
       setInstances(nextInstances)
+      setRegionErrors(res.regionErrors ?? [])
       if (!selectedInstanceId && nextInstances.length > 0) {
         setSelectedInstanceId(nextInstances[0].id)
       }
@@ -189,9 +245,7 @@ export default function ComputeView() {
     }
   }, [selectedCompartmentIds, selectedInstanceId])
 
-  useEffect(() => {
-    load()
-  }, [load])
+  useFeatureRegionsReload("compute", load)
 
   useEffect(() => {
     if (actionTimerRef.current !== null) {
@@ -250,11 +304,39 @@ export default function ComputeView() {
     return () => window.removeEventListener("message", onMessage)
   }, [load])
 
+  // Launches, images and backups are followed by the extension host, so they survive switching views.
+  useEffect(() => {
+    const unsubscribe = WorkRequestServiceClient.subscribeToOperations({
+      onResponse: (data) => {
+        if (data?.operations) {
+          setOperations(data.operations.filter((operation) => operation.feature === "compute"))
+        }
+      },
+      onError: () => {},
+      onComplete: () => {},
+    })
+    return unsubscribe
+  }, [])
+
+  // Run Command results are also followed by the extension host and arrive per instance.
+  useEffect(() => {
+    const unsubscribe = RunCommandServiceClient.subscribeToRuns({
+      onResponse: (data) => {
+        if (data?.runs) {
+          setRunCommandRuns(data.runs)
+        }
+      },
+      onError: () => {},
+      onComplete: () => {},
+    })
+    return unsubscribe
+  }, [])
+
   // Auto-poll every 5s while any instance is in a transitional state
   const isPolling = instances.some(i => TRANSITIONAL_STATES.has(i.lifecycleState))
   useEffect(() => {
     if (!isPolling) return
-    const timer = setInterval(load, POLL_INTERVAL_MS)
+    const timer = setInterval(() => void load(), POLL_INTERVAL_MS)
     return () => clearInterval(timer)
   }, [isPolling, load])
 
@@ -271,18 +353,18 @@ export default function ComputeView() {
     return () => window.cancelAnimationFrame(frameId)
   }, [filtered, highlightedInstanceId])
 
-  const handleStart = useCallback(
-    async (id: string, region?: string) => {
-      setActionState({ id, action: "starting" })
+  const runInstanceAction = useCallback(
+    async (id: string, action: InstanceActionKind, request: () => Promise<void>, message: string) => {
+      setActionState({ id, action })
       try {
-        await ResourceServiceClient.startCompute(id, region)
+        await request()
         await load()
         const instance = instances.find((item) => item.id === id)
         setHighlightedInstanceId(id)
         setRecentAction({
           resourceId: id,
           resourceName: instance?.name ?? id,
-          message: "Start requested for",
+          message,
           timestamp: Date.now(),
         })
       } catch (err) {
@@ -291,30 +373,56 @@ export default function ComputeView() {
         setActionState(null)
       }
     },
-    [load],
+    [instances, load],
+  )
+
+  const handleStart = useCallback(
+    (id: string, region?: string) =>
+      runInstanceAction(id, "starting", () => ResourceServiceClient.startCompute(id, region), "Start requested for"),
+    [runInstanceAction],
   )
 
   const handleStop = useCallback(
-    async (id: string, region?: string) => {
-      setActionState({ id, action: "stopping" })
-      try {
-        await ResourceServiceClient.stopCompute(id, region)
-        await load()
-        const instance = instances.find((item) => item.id === id)
-        setHighlightedInstanceId(id)
-        setRecentAction({
-          resourceId: id,
-          resourceName: instance?.name ?? id,
-          message: "Stop requested for",
-          timestamp: Date.now(),
-        })
-      } catch (err) {
-        setError(err instanceof Error ? err.message : String(err))
-      } finally {
-        setActionState(null)
+    (id: string, region?: string) =>
+      runInstanceAction(id, "stopping", () => ResourceServiceClient.stopCompute(id, region), "Stop requested for"),
+    [runInstanceAction],
+  )
+
+  const handlePowerAction = useCallback(
+    (id: string, region: string | undefined, action: Exclude<ComputeInstanceAction, "START" | "SOFTSTOP">) => {
+      const request = () => ResourceServiceClient.computeInstanceAction({ instanceId: id, region, action })
+      switch (action) {
+        case "STOP":
+          return runInstanceAction(id, "forceStopping", request, "Force stop requested for")
+        case "RESET":
+          return runInstanceAction(id, "forceRebooting", request, "Force reboot requested for")
+        case "SOFTRESET":
+          return runInstanceAction(id, "rebooting", request, "Reboot requested for")
       }
     },
-    [load],
+    [runInstanceAction],
+  )
+
+  const handleResize = useCallback(
+    (id: string, region: string | undefined, ocpus: number, memoryInGBs?: number) =>
+      runInstanceAction(
+        id,
+        "resizing",
+        () => ResourceServiceClient.resizeComputeInstance({ instanceId: id, region, ocpus, memoryInGBs }),
+        "Resize requested for",
+      ),
+    [runInstanceAction],
+  )
+
+  const handleTerminate = useCallback(
+    (id: string, region: string | undefined, preserveBootVolume: boolean) =>
+      runInstanceAction(
+        id,
+        "terminating",
+        () => ResourceServiceClient.terminateComputeInstance({ instanceId: id, region, preserveBootVolume }),
+        "Termination requested for",
+      ),
+    [runInstanceAction],
   )
 
   const handleConnect = useCallback(
@@ -360,6 +468,129 @@ export default function ComputeView() {
     [sshConfig, sshUserOverrides, sshKeyOverrides],
   )
 
+  const handleWriteSshConfig = useCallback(
+    async (targets: ComputeResource[], openInRemoteSsh: boolean) => {
+      const hosts: ComputeSshConfigHost[] = []
+      for (const instance of targets) {
+        const host = resolveSshHost(instance, sshConfig.hostPreference)
+        if (!host) {
+          setError(`No ${sshConfig.hostPreference} IP found for instance "${instance.name}".`)
+          return
+        }
+        hosts.push({
+          instanceId: instance.id,
+          instanceName: instance.name,
+          region: instance.region,
+          host,
+          privateIp: instance.privateIp,
+          username: resolveInstanceUsername(instance.id, sshUserOverrides, sshConfig.username),
+          port: sshConfig.port,
+          privateKeyPath: sshKeyOverrides[instance.id]?.trim() || sshConfig.privateKeyPath.trim() || undefined,
+          disableHostKeyChecking: sshConfig.disableHostKeyChecking,
+        })
+      }
+      if (hosts.length === 0) {
+        return
+      }
+
+      setSshConfigAction(openInRemoteSsh ? { kind: "remote", id: hosts[0].instanceId } : { kind: "write" })
+      try {
+        const result = await ResourceServiceClient.writeComputeSshConfig({ hosts, openInRemoteSsh })
+        const aliases = result.hosts.map((entry) => entry.bastionSessionName ? `${entry.alias} via ${entry.bastionSessionName}` : entry.alias)
+        setSshConfigNotice(result.warnings.length > 0 ? result.warnings.join("\n") : null)
+        setHighlightedInstanceId(hosts[0].instanceId)
+        setRecentAction({
+          resourceId: hosts[0].instanceId,
+          resourceName: hosts.length === 1 ? hosts[0].instanceName ?? hosts[0].instanceId : `${hosts.length} instances`,
+          message: `${result.openedInRemoteSsh ? "Opened Remote-SSH" : "Wrote"} ${aliases.join(", ")} (${result.configFile}) for`,
+          timestamp: Date.now(),
+        })
+        if (!openInRemoteSsh) {
+          setSshConfigIds(new Set())
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err))
+      } finally {
+        setSshConfigAction(null)
+      }
+    },
+    [sshConfig, sshKeyOverrides, sshUserOverrides],
+  )
+
+  const toggleSshConfigInstance = useCallback((instanceId: string, included: boolean) => {
+    setSshConfigIds((prev) => {
+      const next = new Set(prev)
+      if (included) {
+        next.add(instanceId)
+      } else {
+        next.delete(instanceId)
+      }
+      return next
+    })
+  }, [])
+
+  const handleCaptureConsoleHistory = useCallback(async (instance: ComputeResource) => {
+    setConsoleAction({ id: instance.id, kind: "history" })
+    try {
+      await ResourceServiceClient.captureComputeConsoleHistory({
+        instanceId: instance.id,
+        instanceName: instance.name,
+        region: instance.region,
+      })
+      setHighlightedInstanceId(instance.id)
+      setRecentAction({
+        resourceId: instance.id,
+        resourceName: instance.name,
+        message: "Opened console history for",
+        timestamp: Date.now(),
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setConsoleAction(null)
+    }
+  }, [])
+
+  const handleConnectSerialConsole = useCallback(
+    async (instance: ComputeResource, replaceExisting = false) => {
+      const privateKeyPath = sshKeyOverrides[instance.id]?.trim() || sshConfig.privateKeyPath.trim() || undefined
+      setConsoleAction({ id: instance.id, kind: "serial" })
+      try {
+        const result = await ResourceServiceClient.connectComputeSerialConsole({
+          instanceId: instance.id,
+          instanceName: instance.name,
+          region: instance.region,
+          privateKeyPath,
+          replaceExisting,
+        })
+        if (result.conflictingConnectionId) {
+          setGuardrail(createOverwriteResourceGuardrail({
+            resourceKind: "console-connection",
+            details: buildInstanceGuardrailDetails(instance, [
+              { label: "Existing connection", value: result.conflictingConnectionId },
+              { label: "Existing key fingerprint", value: result.conflictingFingerprint || "Unknown" },
+              { label: "New key", value: `${privateKeyPath || "~/.ssh/id_ed25519 or ~/.ssh/id_rsa"}.pub` },
+            ]),
+            onConfirm: () => handleConnectSerialConsole(instance, true),
+          }))
+          return
+        }
+        setHighlightedInstanceId(instance.id)
+        setRecentAction({
+          resourceId: instance.id,
+          resourceName: instance.name,
+          message: result.reused ? "Opened serial console (existing connection) for" : "Opened serial console for",
+          timestamp: Date.now(),
+        })
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err))
+      } finally {
+        setConsoleAction(null)
+      }
+    },
+    [sshConfig.privateKeyPath, sshKeyOverrides],
+  )
+
   const handleGuardedAction = useCallback(async () => {
     if (!guardrail) return
     try {
@@ -422,6 +653,43 @@ export default function ComputeView() {
     setHighlightedInstanceId(instanceId)
   }, [])
 
+  const openLaunchDialog = useCallback((source: LaunchRestoreSource | null) => {
+    setRestoreSource(source)
+    setLaunchDialogOpen(true)
+  }, [])
+
+  const handleLaunched = useCallback((summary: { instanceId?: string; displayName: string }) => {
+    setLaunchDialogOpen(false)
+    setRestoreSource(null)
+    // A backup restore only gets its instance once the boot volume is restored; the Operations list follows it.
+    if (summary.instanceId) {
+      setRecentAction({
+        resourceId: summary.instanceId,
+        resourceName: summary.displayName,
+        message: "Launch requested for",
+        timestamp: Date.now(),
+      })
+    }
+    void load()
+  }, [load])
+
+  const openRunCommand = useCallback((targetIds: string[]) => {
+    setRunCommandTargetIds(targetIds)
+    setRunCommandDialogOpen(true)
+  }, [])
+
+  const handleRunCommandStarted = useCallback((summary: { scriptName: string; instanceIds: string[] }) => {
+    setRunCommandDialogOpen(false)
+    setRecentAction({
+      resourceId: summary.instanceIds[0],
+      resourceName: summary.instanceIds.length === 1
+        ? instances.find((instance) => instance.id === summary.instanceIds[0])?.name ?? summary.instanceIds[0]
+        : `${summary.instanceIds.length} instances`,
+      message: `Sent ${summary.scriptName} to`,
+      timestamp: Date.now(),
+    })
+  }, [instances])
+
   return (
     <FeaturePageLayout
       title="Compute Instances"
@@ -429,16 +697,37 @@ export default function ComputeView() {
       icon={<Server size={16} />}
       status={isPolling ? <StatusBadge label="Auto-refreshing" tone="warning" size="compact" className="animate-pulse" /> : undefined}
       actions={(
-        <WorkbenchRefreshButton
-          onClick={load}
-          disabled={loading}
-          spinning={loading}
-          title={isPolling ? "Auto-refreshing every 5s" : "Refresh"}
-        />
+        <WorkbenchCompactActionCluster>
+          <WorkbenchActionButton
+            variant="secondary"
+            onClick={() => openLaunchDialog(null)}
+            disabled={selectedCompartmentIds.length === 0}
+            title={selectedCompartmentIds.length === 0 ? "Select a compartment first" : "Launch a new compute instance"}
+          >
+            <Plus size={12} className="mr-1" />
+            Launch Instance
+          </WorkbenchActionButton>
+          <WorkbenchActionButton
+            variant="secondary"
+            onClick={() => openRunCommand(selectedInstance?.lifecycleState === "RUNNING" ? [selectedInstance.id] : [])}
+            disabled={runningInstances.length === 0}
+            title={runningInstances.length === 0 ? "No running instances" : "Run a workspace script on instances through the Compute Instance Agent"}
+          >
+            <TerminalSquare size={12} className="mr-1" />
+            Run Command
+          </WorkbenchActionButton>
+          <WorkbenchRefreshButton
+            onClick={() => void load(true)}
+            disabled={loading}
+            spinning={loading}
+            title={isPolling ? "Auto-refreshing every 5s" : "Refresh"}
+          />
+        </WorkbenchCompactActionCluster>
       )}
       controls={(
         <div className="flex flex-col gap-1.5">
           <CompartmentSelector featureKey="compute" multiple />
+          <RegionSelector featureKey="compute" />
           {instances.length > 0 && (
             <FeatureSearchInput
               value={query}
@@ -450,6 +739,7 @@ export default function ComputeView() {
       )}
     >
       <div className="flex h-full min-h-0 flex-col px-2 py-2">
+        <RegionErrorsNotice errors={regionErrors} className="mb-2" />
         {error && (
           <InlineNotice tone="danger" size="md" icon={<AlertCircle size={13} />} className="mb-2">
             {error}
@@ -474,6 +764,29 @@ export default function ComputeView() {
           </InlineNotice>
         )}
 
+        {operations.length > 0 && (
+          <section className="mb-2 rounded-lg border border-[var(--vscode-panel-border)] bg-[var(--workbench-panel-shell)] p-2">
+            <WorkbenchInventorySummary
+              label="Operations"
+              count={`${operations.length} operation${operations.length !== 1 ? "s" : ""}`}
+              description="Launches, restores, images and backups are followed until they finish. Dismiss finished ones once you have seen them."
+            />
+            <div className="mt-2 flex flex-col gap-2">
+              {operations.map((operation) => (
+                <WorkbenchOperationCard
+                  key={operation.id}
+                  operation={operation}
+                  revealLabel="Instance"
+                  onReveal={() => revealInstance(operation.parentResourceId ?? operation.resourceId)}
+                  onDismiss={() => void WorkRequestServiceClient.dismiss(operation.id)}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+
+        <RunCommandResults runs={runCommandRuns} onRevealInstance={revealInstance} onError={setError} />
+
         {loading && instances.length === 0 ? (
           <WorkbenchLoadingState
             label="Loading instances..."
@@ -495,6 +808,36 @@ export default function ComputeView() {
                   description="Select a compute instance, then run lifecycle or SSH actions explicitly from its action row."
                 />
 
+                {sshConfigNotice && (
+                  <InlineNotice
+                    tone="warning"
+                    icon={<AlertCircle size={13} />}
+                    className="mt-2 whitespace-pre-line"
+                    actions={<WorkbenchDismissButton onClick={() => setSshConfigNotice(null)} title="Dismiss" />}
+                  >
+                    {sshConfigNotice}
+                  </InlineNotice>
+                )}
+
+                {sshConfigIds.size > 0 && (
+                  <div className="mt-2 flex flex-wrap items-center justify-between gap-2 rounded-[2px] border border-[var(--vscode-panel-border)] bg-[var(--workbench-panel-surface)] px-2 py-1.5">
+                    <span className="text-[11px] text-description">
+                      {sshConfigIds.size} instance{sshConfigIds.size !== 1 ? "s" : ""} selected for the SSH config
+                    </span>
+                    <WorkbenchCompactActionCluster>
+                      <WorkbenchSubmitButton
+                        disabled={sshConfigAction !== null}
+                        onClick={() => void handleWriteSshConfig(instances.filter((item) => sshConfigIds.has(item.id)), false)}
+                        title="Write or update these hosts in the managed block of your SSH config"
+                      >
+                        {sshConfigAction?.kind === "write" ? <Loader2 size={12} className="animate-spin" /> : <FileCog size={12} />}
+                        Write SSH Config
+                      </WorkbenchSubmitButton>
+                      <WorkbenchDismissButton onClick={() => setSshConfigIds(new Set())} title="Clear selection" />
+                    </WorkbenchCompactActionCluster>
+                  </div>
+                )}
+
                 {filtered.length === 0 ? (
                   <div className="mt-2">
                     <WorkbenchInventoryFilterEmpty message="No instances match your filter." />
@@ -518,6 +861,9 @@ export default function ComputeView() {
                                   instance={instance}
                                   actionState={actionState}
                                   connectingId={connectingId}
+                                  consoleAction={consoleAction}
+                                  sshConfigAction={sshConfigAction}
+                                  includedInSshConfig={sshConfigIds.has(instance.id)}
                                   selected={instance.id === selectedInstanceId}
                                   highlighted={highlightedInstanceId === instance.id}
                                   onRegisterRef={(node) => {
@@ -533,8 +879,18 @@ export default function ComputeView() {
                                   sshKeyOverride={sshKeyOverrides[instance.id] || ""}
                                   onStart={handleStart}
                                   onStop={handleStop}
+                                  onPowerAction={handlePowerAction}
+                                  onResize={handleResize}
+                                  onTerminate={handleTerminate}
                                   onRequestGuardrail={setGuardrail}
                                   onConnect={handleConnect}
+                                  onCaptureConsoleHistory={handleCaptureConsoleHistory}
+                                  onRunCommand={(target) => openRunCommand([target.id])}
+                                  operations={operations}
+                                  onRestore={openLaunchDialog}
+                                  onConnectSerialConsole={handleConnectSerialConsole}
+                                  onToggleSshConfig={toggleSshConfigInstance}
+                                  onOpenRemoteSsh={(target) => void handleWriteSshConfig([target], true)}
                                   onChangeSshUserOverride={(instanceId, username) =>
                                     setSshUserOverrides((prev) => ({ ...prev, [instanceId]: username }))
                                   }
@@ -571,6 +927,24 @@ export default function ComputeView() {
         }}
         onConfirm={handleGuardedAction}
       />
+
+      <LaunchInstanceDialog
+        open={launchDialogOpen}
+        restoreSource={restoreSource}
+        onClose={() => {
+          setLaunchDialogOpen(false)
+          setRestoreSource(null)
+        }}
+        onLaunched={handleLaunched}
+      />
+
+      <RunCommandDialog
+        open={runCommandDialogOpen}
+        instances={runningInstances}
+        initialTargetIds={runCommandTargetIds}
+        onClose={() => setRunCommandDialogOpen(false)}
+        onStarted={handleRunCommandStarted}
+      />
     </FeaturePageLayout>
   )
 }
@@ -579,6 +953,9 @@ function InstanceCard({
   instance,
   actionState,
   connectingId,
+  consoleAction,
+  sshConfigAction,
+  includedInSshConfig,
   selected,
   highlighted,
   onRegisterRef,
@@ -588,8 +965,18 @@ function InstanceCard({
   sshKeyOverride,
   onStart,
   onStop,
+  onPowerAction,
+  onResize,
+  onTerminate,
   onRequestGuardrail,
   onConnect,
+  onCaptureConsoleHistory,
+  onRunCommand,
+  operations,
+  onRestore,
+  onConnectSerialConsole,
+  onToggleSshConfig,
+  onOpenRemoteSsh,
   onChangeSshUserOverride,
   onChangeSshKeyOverride,
   showConnection,
@@ -598,6 +985,9 @@ function InstanceCard({
   instance: ComputeResource
   actionState: ActionState
   connectingId: string | null
+  consoleAction: ConsoleActionState
+  sshConfigAction: SshConfigActionState
+  includedInSshConfig: boolean
   selected: boolean
   highlighted: boolean
   onRegisterRef: (node: HTMLDivElement | null) => void
@@ -607,8 +997,18 @@ function InstanceCard({
   sshKeyOverride: string
   onStart: (id: string, region?: string) => void
   onStop: (id: string, region?: string) => void
+  onPowerAction: PowerActionHandler
+  onResize: ResizeHandler
+  onTerminate: TerminateHandler
   onRequestGuardrail: (value: WorkbenchGuardrailState) => void
   onConnect: (instance: ComputeResource) => void
+  onCaptureConsoleHistory: (instance: ComputeResource) => void
+  onRunCommand: (instance: ComputeResource) => void
+  operations: TrackedWorkRequest[]
+  onRestore: (source: LaunchRestoreSource) => void
+  onConnectSerialConsole: (instance: ComputeResource) => void
+  onToggleSshConfig: (instanceId: string, included: boolean) => void
+  onOpenRemoteSsh: (instance: ComputeResource) => void
   onChangeSshUserOverride: (instanceId: string, username: string) => void
   onChangeSshKeyOverride: (instanceId: string, keyPath: string) => void
   showConnection?: boolean
@@ -618,6 +1018,7 @@ function InstanceCard({
   const isConnecting = connectingId === instance.id
   const isRunning = instance.lifecycleState === "RUNNING"
   const isStopped = instance.lifecycleState === "STOPPED"
+  const isTerminated = ["TERMINATING", "TERMINATED"].includes(instance.lifecycleState)
   const host = resolveSshHost(instance, sshConfig.hostPreference)
   const defaultUsername = sshConfig.username.trim() || DEFAULT_SSH_USERNAME
   const effectiveUsername = resolveInstanceUsername(instance.id, { [instance.id]: sshUserOverride }, defaultUsername)
@@ -638,6 +1039,7 @@ function InstanceCard({
       cardRef={onRegisterRef}
       title={instance.name}
       subtitle={instance.id}
+      region={instance.region}
       selected={selected}
       highlighted={highlighted}
       onSelect={onSelect}
@@ -648,6 +1050,9 @@ function InstanceCard({
             <span className="text-[11px] text-description">Public IP: {instance.publicIp || "-"}</span>
             <span className="text-[11px] text-description">Private IP: {instance.privateIp || "-"}</span>
           </div>
+          {instance.shape && (
+            <div className="text-[11px] text-description">Shape: {formatInstanceShape(instance)}</div>
+          )}
           {_showConnection && (
             <>
               <WorkbenchCompactFieldRow className="mt-2" label="SSH User" labelClassName="w-14 font-semibold text-[var(--vscode-foreground)]">
@@ -670,8 +1075,69 @@ function InstanceCard({
                   title="Per-instance private key path override (e.g. ~/.ssh/id_rsa)"
                 />
               </WorkbenchCompactFieldRow>
+              <label className="mt-1 flex w-fit items-center gap-2 text-[11px] text-description">
+                <input
+                  type="checkbox"
+                  checked={includedInSshConfig}
+                  disabled={!host}
+                  className="accent-[var(--vscode-focusBorder)]"
+                  onChange={(event) => onToggleSshConfig(instance.id, event.target.checked)}
+                />
+                Include in SSH config
+              </label>
             </>
           )}
+          {_showConnection && selected && (
+            <div className="mt-2 flex flex-wrap items-center gap-1.5 border-t border-dashed border-[var(--vscode-panel-border)] pt-2">
+              <WorkbenchSecondaryActionButton
+                disabled={consoleAction !== null || isTerminated}
+                onClick={() => onCaptureConsoleHistory(instance)}
+                title="Capture the serial console output and open it in an editor"
+              >
+                {consoleAction?.id === instance.id && consoleAction.kind === "history"
+                  ? <Loader2 size={12} className="animate-spin" />
+                  : <ScrollText size={12} />}
+                Console History
+              </WorkbenchSecondaryActionButton>
+              <WorkbenchSecondaryActionButton
+                disabled={consoleAction !== null || isTerminated}
+                onClick={() => onConnectSerialConsole(instance)}
+                title="Open the serial console over an instance console connection. Works without network access to the instance."
+              >
+                {consoleAction?.id === instance.id && consoleAction.kind === "serial"
+                  ? <Loader2 size={12} className="animate-spin" />
+                  : <Cable size={12} />}
+                Serial Console
+              </WorkbenchSecondaryActionButton>
+              <WorkbenchSecondaryActionButton
+                disabled={!isRunning}
+                onClick={() => onRunCommand(instance)}
+                title={isRunning ? "Run a workspace script through the Compute Instance Agent, without SSH" : "Instance must be RUNNING"}
+              >
+                <TerminalSquare size={12} />
+                Run Command
+              </WorkbenchSecondaryActionButton>
+            </div>
+          )}
+          {_showLifecycle && selected && (
+            <InstanceLifecycleActions
+              key={`${instance.id}-${instance.ocpus ?? ""}-${instance.memoryInGBs ?? ""}`}
+              instance={instance}
+              actionState={actionState}
+              onPowerAction={onPowerAction}
+              onResize={onResize}
+              onTerminate={onTerminate}
+              onRequestGuardrail={onRequestGuardrail}
+            />
+          )}
+          {selected && !isTerminated && (
+            <InstanceDetails
+              instance={instance}
+              operations={operations}
+              onRestore={onRestore}
+              onRequestGuardrail={onRequestGuardrail}
+            />
+          )}
         </>
       )}
       actions={(
@@ -723,6 +1189,24 @@ function InstanceCard({
               label="Stop"
             />
           )}
+          {_showLifecycle && (
+            <WorkbenchGuardrailActionButton
+              disabled={isActing || !isRunning}
+              guardrail={createRebootResourceGuardrail({
+                resourceKind: "compute-instance",
+                details: buildInstanceGuardrailDetails(instance, [
+                  { label: "Mode", value: "Graceful (ACPI shutdown, then start)" },
+                ]),
+                onConfirm: async () => {
+                  await onPowerAction(instance.id, instance.region, "SOFTRESET")
+                },
+              })}
+              onRequestGuardrail={onRequestGuardrail}
+              busy={isActing && actionState?.action === "rebooting"}
+              idleIcon={<RotateCcw size={12} />}
+              label="Reboot"
+            />
+          )}
           {_showConnection && (
             <WorkbenchSubmitButton
               disabled={!canConnect}
@@ -734,12 +1218,262 @@ function InstanceCard({
               Connect SSH
             </WorkbenchSubmitButton>
           )}
+          {_showConnection && (
+            <WorkbenchSecondaryActionButton
+              disabled={!canConnect || sshConfigAction !== null}
+              onClick={() => onOpenRemoteSsh(instance)}
+              title={connectReason || "Write this host to your SSH config and open it in a Remote-SSH window"}
+            >
+              {sshConfigAction?.kind === "remote" && sshConfigAction.id === instance.id
+                ? <Loader2 size={12} className="animate-spin" />
+                : <MonitorUp size={12} />}
+              Remote-SSH
+            </WorkbenchSecondaryActionButton>
+          )}
         </WorkbenchCompactActionCluster>
       )}
     />
   )
 }
 
+type PowerActionHandler = (
+  id: string,
+  region: string | undefined,
+  action: Exclude<ComputeInstanceAction, "START" | "SOFTSTOP">,
+) => void | Promise<void>
+type ResizeHandler = (id: string, region: string | undefined, ocpus: number, memoryInGBs?: number) => void | Promise<void>
+type TerminateHandler = (id: string, region: string | undefined, preserveBootVolume: boolean) => void | Promise<void>
+
+/** Less frequent lifecycle actions, shown on the selected instance only */
+function InstanceLifecycleActions({
+  instance,
+  actionState,
+  onPowerAction,
+  onResize,
+  onTerminate,
+  onRequestGuardrail,
+}: {
+  instance: ComputeResource
+  actionState: ActionState
+  onPowerAction: PowerActionHandler
+  onResize: ResizeHandler
+  onTerminate: TerminateHandler
+  onRequestGuardrail: (value: WorkbenchGuardrailState) => void
+}) {
+  const [ocpusInput, setOcpusInput] = useState(instance.ocpus !== undefined ? String(instance.ocpus) : "")
+  const [memoryInput, setMemoryInput] = useState(instance.memoryInGBs !== undefined ? String(instance.memoryInGBs) : "")
+  const [preserveBootVolume, setPreserveBootVolume] = useState(true)
+
+  const isActing = actionState?.id === instance.id
+  const isRunning = instance.lifecycleState === "RUNNING"
+  const canResize = isRunning || instance.lifecycleState === "STOPPED"
+  const canTerminate = !["TERMINATING", "TERMINATED"].includes(instance.lifecycleState)
+  const isFlexible = Boolean(instance.shape?.endsWith(".Flex"))
+  const ocpus = parsePositiveNumber(ocpusInput)
+  const memoryInGBs = memoryInput.trim() ? parsePositiveNumber(memoryInput) : undefined
+  const resizeInvalid = ocpus === undefined || (memoryInput.trim() !== "" && memoryInGBs === undefined)
+  const resizeUnchanged = ocpus === instance.ocpus && (memoryInGBs === undefined || memoryInGBs === instance.memoryInGBs)
+  const resizeReason = !canResize
+    ? "Instance must be RUNNING or STOPPED"
+    : resizeInvalid
+      ? "Enter a positive OCPU count and memory size"
+      : resizeUnchanged
+        ? "Change the OCPU count or memory first"
+        : ""
+
+  return (
+    <div className="mt-2 flex flex-col gap-1.5 border-t border-dashed border-[var(--vscode-panel-border)] pt-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <WorkbenchGuardrailActionButton
+          disabled={isActing || !isRunning}
+          guardrail={createStopResourceGuardrail({
+            resourceKind: "compute-instance",
+            effect: "powers it off immediately without shutting down the operating system. Unsaved data can be lost.",
+            details: buildInstanceGuardrailDetails(instance, [{ label: "Mode", value: "Force (no OS shutdown)" }]),
+            onConfirm: async () => {
+              await onPowerAction(instance.id, instance.region, "STOP")
+            },
+          })}
+          onRequestGuardrail={onRequestGuardrail}
+          busy={isActing && actionState?.action === "forceStopping"}
+          idleIcon={<PowerOff size={12} />}
+          label="Force Stop"
+          title="Power off without an OS shutdown (STOP)"
+        />
+        <WorkbenchGuardrailActionButton
+          disabled={isActing || !isRunning}
+          guardrail={createRebootResourceGuardrail({
+            resourceKind: "compute-instance",
+            effect: "power cycles it immediately without shutting down the operating system. Unsaved data can be lost.",
+            details: buildInstanceGuardrailDetails(instance, [{ label: "Mode", value: "Force (no OS shutdown)" }]),
+            onConfirm: async () => {
+              await onPowerAction(instance.id, instance.region, "RESET")
+            },
+          })}
+          onRequestGuardrail={onRequestGuardrail}
+          busy={isActing && actionState?.action === "forceRebooting"}
+          idleIcon={<Power size={12} />}
+          label="Force Reboot"
+          title="Power cycle without an OS shutdown (RESET)"
+        />
+      </div>
+      {isFlexible && (
+        <WorkbenchCompactFieldRow label="Resize" labelClassName="w-14 font-semibold text-[var(--vscode-foreground)]">
+          <WorkbenchCompactInput
+            type="number"
+            min={1}
+            step={1}
+            value={ocpusInput}
+            onChange={(e) => setOcpusInput(e.target.value)}
+            placeholder="OCPUs"
+            className="h-[22px] px-1.5 text-[11px]"
+            title="OCPU count"
+          />
+          <WorkbenchCompactInput
+            type="number"
+            min={1}
+            step={1}
+            value={memoryInput}
+            onChange={(e) => setMemoryInput(e.target.value)}
+            placeholder="Memory (GB)"
+            className="h-[22px] px-1.5 text-[11px]"
+            title="Memory in GB. Leave empty to change only the OCPU count."
+          />
+          <WorkbenchGuardrailActionButton
+            disabled={isActing || Boolean(resizeReason)}
+            title={resizeReason}
+            guardrail={createResizeResourceGuardrail({
+              resourceKind: "compute-instance",
+              details: buildInstanceGuardrailDetails(instance, [
+                { label: "Shape", value: instance.shape ?? "-" },
+                { label: "OCPUs", value: `${instance.ocpus ?? "-"} → ${ocpus ?? "-"}` },
+                {
+                  label: "Memory",
+                  value: `${instance.memoryInGBs ?? "-"} GB → ${memoryInGBs !== undefined ? `${memoryInGBs} GB` : "left to OCI"}`,
+                },
+                ...(isRunning ? [{ label: "Reboot", value: "Required (instance is RUNNING)" }] : []),
+              ]),
+              onConfirm: async () => {
+                if (ocpus !== undefined) {
+                  await onResize(instance.id, instance.region, ocpus, memoryInGBs)
+                }
+              },
+            })}
+            onRequestGuardrail={onRequestGuardrail}
+            busy={isActing && actionState?.action === "resizing"}
+            idleIcon={<Scaling size={12} />}
+            label="Resize"
+          />
+        </WorkbenchCompactFieldRow>
+      )}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-[11px] text-description">
+          <input
+            type="checkbox"
+            checked={preserveBootVolume}
+            disabled={isActing || !canTerminate}
+            className="accent-[var(--vscode-focusBorder)]"
+            onChange={(event) => setPreserveBootVolume(event.target.checked)}
+          />
+          Preserve boot volume on terminate
+        </label>
+        <WorkbenchGuardrailActionButton
+          tone="danger"
+          disabled={isActing || !canTerminate}
+          guardrail={createTerminateResourceGuardrail({
+            resourceKind: "compute-instance",
+            details: buildInstanceGuardrailDetails(instance, [
+              { label: "Boot volume", value: preserveBootVolume ? "Preserved" : "Deleted with the instance" },
+            ]),
+            onConfirm: async () => {
+              await onTerminate(instance.id, instance.region, preserveBootVolume)
+            },
+          })}
+          onRequestGuardrail={onRequestGuardrail}
+          busy={isActing && actionState?.action === "terminating"}
+          idleIcon={<Trash2 size={12} />}
+          label="Terminate"
+        />
+      </div>
+    </div>
+  )
+}
+
+/** Monitoring charts and snapshots of the selected instance, each loaded only once opened */
+function InstanceDetails({
+  instance,
+  operations,
+  onRestore,
+  onRequestGuardrail,
+}: {
+  instance: ComputeResource
+  operations: TrackedWorkRequest[]
+  onRestore: (source: LaunchRestoreSource) => void
+  onRequestGuardrail: (value: WorkbenchGuardrailState) => void
+}) {
+  const [openPanel, setOpenPanel] = useState<"metrics" | "backups" | null>(null)
+  const togglePanel = (panel: "metrics" | "backups") => setOpenPanel((prev) => (prev === panel ? null : panel))
+
+  return (
+    <div className="mt-2 flex flex-col gap-1.5 border-t border-dashed border-[var(--vscode-panel-border)] pt-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <WorkbenchSecondaryActionButton
+          onClick={() => togglePanel("metrics")}
+          title="CPU, memory, network and disk metrics from the Oracle Cloud Agent"
+        >
+          <Activity size={12} />
+          {openPanel === "metrics" ? "Hide Metrics" : "Metrics"}
+        </WorkbenchSecondaryActionButton>
+        <WorkbenchSecondaryActionButton
+          onClick={() => togglePanel("backups")}
+          title="Custom images and boot volume backups, and restoring them to a new instance"
+        >
+          <HardDrive size={12} />
+          {openPanel === "backups" ? "Hide Images & Backups" : "Images & Backups"}
+        </WorkbenchSecondaryActionButton>
+      </div>
+      {openPanel === "metrics" && (
+        <ResourceMetricsPanel
+          resourceKind="compute"
+          resourceId={instance.id}
+          compartmentId={instance.compartmentId}
+          region={instance.region}
+        />
+      )}
+      {openPanel === "backups" && (
+        <InstanceBackupsPanel
+          instance={instance}
+          operations={operations}
+          onRestore={onRestore}
+          onRequestGuardrail={onRequestGuardrail}
+        />
+      )}
+    </div>
+  )
+}
+
+function buildInstanceGuardrailDetails(instance: ComputeResource, extras: WorkbenchGuardrailDetail[]): WorkbenchGuardrailDetail[] {
+  return buildWorkbenchResourceGuardrailDetails({
+    resourceLabel: "Instance",
+    resourceName: instance.name,
+    region: instance.region || "default",
+    extras,
+  })
+}
+
+function formatInstanceShape(instance: ComputeResource): string {
+  const sizing = [
+    instance.ocpus !== undefined ? `${instance.ocpus} OCPU` : "",
+    instance.memoryInGBs !== undefined ? `${instance.memoryInGBs} GB` : "",
+  ].filter(Boolean)
+  return [instance.shape, ...sizing].join(" · ")
+}
+
+function parsePositiveNumber(value: string): number | undefined {
+  const parsed = Number(value)
+  return value.trim() && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
+
 function formatRecentActionAge(timestamp: number): string {
   const ageMs = Math.max(0, Date.now() - timestamp)
   if (ageMs < 5000) {
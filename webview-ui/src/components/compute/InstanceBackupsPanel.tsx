@@ -0,0 +1,319 @@
+import { AlertCircle, ArchiveRestore, HardDriveDownload, ImagePlus, Trash2 } from "lucide-react"
+import { useCallback, useEffect, useState, type ReactNode } from "react"
+import { ResourceServiceClient } from "../../services/grpc-client"
+import type {
+  BootVolumeBackupType,
+  ComputeBootVolumeBackup,
+  ComputeCustomImage,
+  ComputeResource,
+  ListComputeInstanceBackupsResponse,
+  TrackedWorkRequest,
+} from "../../services/types"
+import InlineNotice from "../ui/InlineNotice"
+import { LifecycleBadge } from "../ui/StatusBadge"
+import { WorkbenchLoadingState } from "../workbench/DatabaseWorkbenchChrome"
+import { WorkbenchCompactActionCluster, WorkbenchGuardrailActionButton, WorkbenchSecondaryActionButton } from "../workbench/WorkbenchActionButtons"
+import { WorkbenchCompactFieldRow, WorkbenchCompactInput, WorkbenchSegmentedControl } from "../workbench/WorkbenchCompactControls"
+import {
+  buildWorkbenchResourceGuardrailDetails,
+  createDeleteResourceGuardrail,
+  createRebootGuardrail,
+  type WorkbenchGuardrailConfig,
+  type WorkbenchGuardrailState,
+} from "../workbench/guardrail"
+import { WorkbenchRefreshButton } from "../workbench/WorkbenchToolbar"
+import type { LaunchRestoreSource } from "./LaunchInstanceDialog"
+
+const POLL_INTERVAL_MS = 5000
+const SETTLED_STATES = new Set(["AVAILABLE", "DISABLED", "FAULTY"])
+const BACKUP_TYPE_OPTIONS: { value: BootVolumeBackupType; label: string }[] = [
+  { value: "INCREMENTAL", label: "Incremental" },
+  { value: "FULL", label: "Full" },
+]
+
+interface InstanceBackupsPanelProps {
+  instance: ComputeResource
+  /** Compute operations followed by the extension host; the list reloads when one for this instance settles */
+  operations: TrackedWorkRequest[]
+  onRestore: (source: LaunchRestoreSource) => void
+  onRequestGuardrail: (value: WorkbenchGuardrailState) => void
+}
+
+/** Custom images and boot volume backups of the selected instance, to snapshot it before risky changes */
+export default function InstanceBackupsPanel({ instance, operations, onRestore, onRequestGuardrail }: InstanceBackupsPanelProps) {
+  const [data, setData] = useState<ListComputeInstanceBackupsResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [snapshotName, setSnapshotName] = useState(() => buildSnapshotName(instance.name))
+  const [backupType, setBackupType] = useState<BootVolumeBackupType>("INCREMENTAL")
+  const [creating, setCreating] = useState<"image" | "backup" | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      setData(await ResourceServiceClient.listComputeInstanceBackups({ instanceId: instance.id, region: instance.region }))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setLoading(false)
+    }
+  }, [instance.id, instance.region])
+
+  const settledOperationKey = operations
+    .filter((operation) => operation.parentResourceId === instance.id && operation.status !== "IN_PROGRESS")
+    .map((operation) => operation.id)
+    .join(",")
+
+  useEffect(() => {
+    void load()
+  }, [load, settledOperationKey])
+
+  const transitional = Boolean(data && [...data.images, ...data.bootVolumeBackups].some((item) => !SETTLED_STATES.has(item.lifecycleState)))
+  useEffect(() => {
+    if (!transitional) {
+      return
+    }
+    const timer = window.setTimeout(() => void load(), POLL_INTERVAL_MS)
+    return () => window.clearTimeout(timer)
+  }, [data, load, transitional])
+
+  const nameValid = snapshotName.trim().length > 0
+  const isRunningOrStopped = instance.lifecycleState === "RUNNING" || instance.lifecycleState === "STOPPED"
+
+  const handleCreateBackup = async () => {
+    setCreating("backup")
+    setError(null)
+    try {
+      await ResourceServiceClient.createComputeBootVolumeBackup({
+        instanceId: instance.id,
+        instanceName: instance.name,
+        region: instance.region,
+        displayName: snapshotName.trim(),
+        type: backupType,
+      })
+      setSnapshotName(buildSnapshotName(instance.name))
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setCreating(null)
+    }
+  }
+
+  const createImage = async () => {
+    setCreating("image")
+    try {
+      await ResourceServiceClient.createComputeImage({
+        instanceId: instance.id,
+        instanceName: instance.name,
+        region: instance.region,
+        displayName: snapshotName.trim(),
+      })
+      setSnapshotName(buildSnapshotName(instance.name))
+      await load()
+    } finally {
+      setCreating(null)
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <WorkbenchCompactFieldRow label="Name" labelClassName="w-14 font-semibold text-[var(--vscode-foreground)]">
+        <WorkbenchCompactInput
+          type="text"
+          value={snapshotName}
+          onChange={(event) => setSnapshotName(event.target.value)}
+          className="h-[22px] px-1.5 text-[11px]"
+          title="Display name of the new image or backup"
+        />
+      </WorkbenchCompactFieldRow>
+      <div className="flex flex-wrap items-center gap-1.5">
+        <WorkbenchGuardrailActionButton
+          disabled={!nameValid || creating !== null || !isRunningOrStopped}
+          guardrail={createRebootGuardrail({
+            title: "Create Custom Image",
+            description: "OCI shuts this instance down while the image is taken and starts it again afterwards. Workloads are interrupted for several minutes.",
+            confirmLabel: "Create Image",
+            details: buildWorkbenchResourceGuardrailDetails({
+              resourceLabel: "Instance",
+              resourceName: instance.name,
+              region: instance.region || "default",
+              extras: [{ label: "Image name", value: snapshotName.trim() }],
+            }),
+            onConfirm: createImage,
+          })}
+          onRequestGuardrail={onRequestGuardrail}
+          busy={creating === "image"}
+          idleIcon={<ImagePlus size={12} />}
+          label="Create Image"
+          title={isRunningOrStopped ? "Capture the boot volume as a custom image (the instance is restarted)" : "Instance must be RUNNING or STOPPED"}
+        />
+        <WorkbenchSegmentedControl value={backupType} items={BACKUP_TYPE_OPTIONS} onChange={setBackupType} className="w-[170px] gap-1" />
+        <WorkbenchSecondaryActionButton
+          disabled={!nameValid || creating !== null || !data?.bootVolumeId}
+          onClick={() => void handleCreateBackup()}
+          title={data?.bootVolumeId ? "Back up the boot volume while the instance keeps running" : "No boot volume is attached"}
+        >
+          <HardDriveDownload size={12} />
+          Back Up Boot Volume
+        </WorkbenchSecondaryActionButton>
+        <div className="ml-auto">
+          <WorkbenchRefreshButton onClick={() => void load()} disabled={loading} spinning={loading} title="Reload images and backups" />
+        </div>
+      </div>
+
+      {error && (
+        <InlineNotice tone="danger" icon={<AlertCircle size={13} />}>
+          {error}
+        </InlineNotice>
+      )}
+
+      {!data && loading ? (
+        <WorkbenchLoadingState label="Loading images and backups..." className="min-h-[80px] py-3" />
+      ) : data ? (
+        <>
+          <BackupList title="Boot volume backups" emptyLabel="No backups of this boot volume yet.">
+            {data.bootVolumeBackups.map((backup) => (
+              <BackupRow
+                key={backup.id}
+                name={backup.name}
+                lifecycleState={backup.lifecycleState}
+                meta={[
+                  formatBackupType(backup),
+                  backup.sizeInGBs !== undefined ? `${backup.sizeInGBs} GB` : "",
+                  formatTimestamp(backup.timeCreated),
+                  backup.expirationTime ? `Expires ${formatTimestamp(backup.expirationTime)}` : "",
+                ]}
+                onRestore={() => onRestore({ kind: "bootVolumeBackup", id: backup.id, name: backup.name, compartmentId: backup.compartmentId, region: backup.region })}
+                deleteGuardrail={createDeleteResourceGuardrail({
+                  resourceKind: "boot-volume-backup",
+                  details: buildWorkbenchResourceGuardrailDetails({
+                    resourceLabel: "Backup",
+                    resourceName: backup.name,
+                    region: backup.region || "default",
+                    extras: [{ label: "Instance", value: instance.name }],
+                  }),
+                  onConfirm: async () => {
+                    await ResourceServiceClient.deleteComputeBootVolumeBackup({ bootVolumeBackupId: backup.id, region: backup.region })
+                    await load()
+                  },
+                })}
+                onRequestGuardrail={onRequestGuardrail}
+              />
+            ))}
+          </BackupList>
+          <BackupList title="Custom images in this compartment" emptyLabel="No custom images in the instance's compartment.">
+            {data.images.map((image) => (
+              <BackupRow
+                key={image.id}
+                name={image.name}
+                lifecycleState={image.lifecycleState}
+                meta={[
+                  formatImageSystem(image),
+                  image.sizeInMBs !== undefined ? `${Math.round(image.sizeInMBs / 1024)} GB` : "",
+                  formatTimestamp(image.timeCreated),
+                ]}
+                onRestore={() => onRestore({ kind: "image", id: image.id, name: image.name, compartmentId: image.compartmentId, region: image.region })}
+                deleteGuardrail={createDeleteResourceGuardrail({
+                  resourceKind: "custom-image",
+                  details: buildWorkbenchResourceGuardrailDetails({
+                    resourceLabel: "Image",
+                    resourceName: image.name,
+                    region: image.region || "default",
+                  }),
+                  onConfirm: async () => {
+                    await ResourceServiceClient.deleteComputeImage({ imageId: image.id, region: image.region })
+                    await load()
+                  },
+                })}
+                onRequestGuardrail={onRequestGuardrail}
+              />
+            ))}
+          </BackupList>
+        </>
+      ) : null}
+    </div>
+  )
+}
+
+function BackupList({ title, emptyLabel, children }: { title: string; emptyLabel: string; children: ReactNode[] }) {
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="text-[10px] font-semibold uppercase tracking-[0.14em] text-[var(--vscode-descriptionForeground)]">
+        {title} ({children.length})
+      </div>
+      {children.length === 0 ? <div className="text-[11px] text-description">{emptyLabel}</div> : children}
+    </div>
+  )
+}
+
+function BackupRow({
+  name,
+  lifecycleState,
+  meta,
+  onRestore,
+  deleteGuardrail,
+  onRequestGuardrail,
+}: {
+  name: string
+  lifecycleState: string
+  meta: string[]
+  onRestore: () => void
+  deleteGuardrail: WorkbenchGuardrailConfig
+  onRequestGuardrail: (value: WorkbenchGuardrailState) => void
+}) {
+  const available = lifecycleState === "AVAILABLE"
+  return (
+    <div className="rounded-[2px] border border-[var(--vscode-panel-border)] bg-[var(--workbench-panel-surface-subtle)] px-2 py-1.5">
+      <div className="flex min-w-0 items-center gap-2">
+        <span className="truncate text-[12px] text-[var(--vscode-foreground)]">{name}</span>
+        <LifecycleBadge state={lifecycleState} size="compact" />
+        <WorkbenchCompactActionCluster className="ml-auto shrink-0">
+          <WorkbenchSecondaryActionButton
+            disabled={!available}
+            onClick={onRestore}
+            title={available ? "Launch a new instance from this snapshot" : "Only AVAILABLE snapshots can be restored"}
+          >
+            <ArchiveRestore size={12} />
+            Restore
+          </WorkbenchSecondaryActionButton>
+          <WorkbenchGuardrailActionButton
+            variant="ghost"
+            tone="danger"
+            disabled={!available}
+            guardrail={deleteGuardrail}
+            onRequestGuardrail={onRequestGuardrail}
+            idleIcon={<Trash2 size={12} />}
+            label="Delete"
+          />
+        </WorkbenchCompactActionCluster>
+      </div>
+      <div className="mt-0.5 flex flex-wrap gap-x-3 text-[11px] text-description">
+        {meta.filter(Boolean).map((item) => <span key={item}>{item}</span>)}
+      </div>
+    </div>
+  )
+}
+
+function formatBackupType(backup: ComputeBootVolumeBackup): string {
+  const type = backup.type ? backup.type.charAt(0) + backup.type.slice(1).toLowerCase() : "Backup"
+  return backup.sourceType === "SCHEDULED" ? `${type} (scheduled)` : type
+}
+
+function formatImageSystem(image: ComputeCustomImage): string {
+  return [image.operatingSystem, image.operatingSystemVersion].filter(Boolean).join(" ")
+}
+
+function formatTimestamp(value?: string): string {
+  return value ? new Date(value).toLocaleString() : ""
+}
+
+function buildSnapshotName(instanceName: string, date = new Date()) {
+  const year = String(date.getFullYear())
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  const hours = String(date.getHours()).padStart(2, "0")
+  const minutes = String(date.getMinutes()).padStart(2, "0")
+  return `${instanceName}-${year}${month}${day}-${hours}${minutes}`
+}
@@ -0,0 +1,822 @@
+import { clsx } from "clsx"
+import { AlertCircle, Loader2, Server, Upload, X } from "lucide-react"
+import { useEffect, useMemo, useState, type ReactNode } from "react"
+import { useExtensionState } from "../../context/ExtensionStateContext"
+import { useScrollFlashTarget } from "../../hooks/useScrollFlashTarget"
+import { ResourceServiceClient } from "../../services/grpc-client"
+import type { ComputeImageOption, ComputeLaunchOptions, ComputeShapeOption } from "../../services/types"
+import Button from "../ui/Button"
+import InlineNotice from "../ui/InlineNotice"
+import Input from "../ui/Input"
+import ResourceDropdown from "../ui/ResourceDropdown"
+import Select from "../ui/Select"
+import Textarea from "../ui/Textarea"
+import { WorkbenchDismissButton } from "../workbench/WorkbenchActionButtons"
+import { WorkbenchRefreshButton } from "../workbench/WorkbenchToolbar"
+
+const DEFAULT_MEMORY_PER_OCPU_GB = 16
+const CLOUD_INIT_PLACEHOLDER = "#cloud-config\npackage_update: true\npackages:\n  - git"
+
+type LaunchValidationField =
+  | "displayName"
+  | "compartmentId"
+  | "availabilityDomain"
+  | "shape"
+  | "ocpus"
+  | "memoryInGBs"
+  | "imageId"
+  | "subnetId"
+  | "sshPublicKey"
+
+/** Custom image or boot volume backup that a new instance is restored from */
+export interface LaunchRestoreSource {
+  kind: "image" | "bootVolumeBackup"
+  id: string
+  name: string
+  compartmentId: string
+  region: string
+}
+
+interface LaunchInstanceDialogProps {
+  open: boolean
+  /** Launch from this image or backup instead of a picked platform image; the region is fixed to the source's */
+  restoreSource?: LaunchRestoreSource | null
+  onClose: () => void
+  onLaunched: (summary: {
+    /** Unset for a backup restore, where the instance is launched once its boot volume is restored */
+    instanceId?: string
+    operationId: string
+    displayName: string
+  }) => void
+}
+
+export default function LaunchInstanceDialog({ open, restoreSource = null, onClose, onLaunched }: LaunchInstanceDialogProps) {
+  const { activeProfile, profilesConfig, tenancyOcid, computeCompartmentIds, featureRegionMap } = useExtensionState()
+  const [displayName, setDisplayName] = useState("")
+  const [compartmentId, setCompartmentId] = useState("")
+  const [region, setRegion] = useState("")
+  const [availabilityDomain, setAvailabilityDomain] = useState("")
+  const [shape, setShape] = useState("")
+  const [ocpus, setOcpus] = useState("")
+  const [memoryInGBs, setMemoryInGBs] = useState("")
+  const [imageId, setImageId] = useState("")
+  const [subnetId, setSubnetId] = useState("")
+  const [assignPublicIp, setAssignPublicIp] = useState(true)
+  const [sshPublicKey, setSshPublicKey] = useState("")
+  const [sshPublicKeyFileName, setSshPublicKeyFileName] = useState("")
+  const [cloudInit, setCloudInit] = useState("")
+  const [launchOptions, setLaunchOptions] = useState<ComputeLaunchOptions>({ availabilityDomains: [], shapes: [], subnets: [] })
+  const [optionsLoading, setOptionsLoading] = useState(false)
+  const [optionsError, setOptionsError] = useState<string | null>(null)
+  const [optionsReloadKey, setOptionsReloadKey] = useState(0)
+  const [images, setImages] = useState<ComputeImageOption[]>([])
+  const [imagesLoading, setImagesLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [submitAttempted, setSubmitAttempted] = useState(false)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [errorAttentionKey, setErrorAttentionKey] = useState(0)
+  const {
+    targetRef: errorNoticeRef,
+    isFlashing: isErrorFlashing,
+    requestFocus: requestErrorFocus,
+    cancelFocus: cancelErrorFocus,
+    consumePendingFocus: consumePendingErrorFocus,
+  } = useScrollFlashTarget()
+
+  const compartmentOptions = useMemo(() => {
+    const activeProfileConfig = profilesConfig.find((profile) => profile.name === activeProfile)
+    const labelsById = new Map<string, string>()
+    if (tenancyOcid?.trim()) {
+      labelsById.set(tenancyOcid.trim(), "Root (Tenancy)")
+    }
+    for (const compartment of activeProfileConfig?.compartments ?? []) {
+      if (compartment.id?.trim()) {
+        labelsById.set(compartment.id.trim(), compartment.name?.trim() || compartment.id.trim())
+      }
+    }
+    const ids = [...new Set(computeCompartmentIds.map((id) => id.trim()).filter((id) => id.length > 0))]
+    return ids.map((id) => ({ value: id, label: labelsById.get(id) ?? id }))
+  }, [activeProfile, computeCompartmentIds, profilesConfig, tenancyOcid])
+  const regionOptions = useMemo(
+    () => (featureRegionMap.compute ?? []).map((value) => ({ value, label: value })),
+    [featureRegionMap.compute],
+  )
+  const selectedShape = useMemo(
+    () => launchOptions.shapes.find((option) => option.shape === shape) ?? null,
+    [launchOptions.shapes, shape],
+  )
+  const availableSubnets = useMemo(
+    () => launchOptions.subnets.filter((subnet) => !subnet.availabilityDomain || subnet.availabilityDomain === availabilityDomain),
+    [availabilityDomain, launchOptions.subnets],
+  )
+  const selectedSubnet = useMemo(
+    () => availableSubnets.find((subnet) => subnet.id === subnetId) ?? null,
+    [availableSubnets, subnetId],
+  )
+  const publicIpAllowed = !selectedSubnet?.prohibitPublicIp
+  const sourceId = restoreSource ? restoreSource.id : imageId
+
+  const validationIssue = submitAttempted
+    ? getLaunchValidationIssue({ displayName, compartmentId, availabilityDomain, shape: selectedShape, ocpus, memoryInGBs, imageId: sourceId, subnetId, sshPublicKey })
+    : null
+  const activeErrorMessage = validationIssue?.message ?? submitError
+  const activeErrorTitle = validationIssue ? "Instance details need attention" : restoreSource ? "Unable to restore" : "Unable to launch"
+  const invalidField = validationIssue?.field ?? null
+
+  const clearSubmitError = () => {
+    if (submitError) {
+      setSubmitError(null)
+    }
+  }
+
+  const focusErrorNotice = () => {
+    requestErrorFocus()
+    setErrorAttentionKey((current) => current + 1)
+  }
+
+  const applyShape = (option: ComputeShapeOption | undefined) => {
+    setShape(option?.shape ?? "")
+    if (!option?.isFlexible) {
+      setOcpus("")
+      setMemoryInGBs("")
+      return
+    }
+    const nextOcpus = Math.max(option.ocpuMin ?? 1, 1)
+    const perOcpu = option.defaultMemoryPerOcpuInGBs ?? DEFAULT_MEMORY_PER_OCPU_GB
+    const nextMemory = clamp(nextOcpus * perOcpu, option.memoryMinInGBs, option.memoryMaxInGBs)
+    setOcpus(String(nextOcpus))
+    setMemoryInGBs(String(nextMemory))
+  }
+
+  const dismissError = () => {
+    setSubmitAttempted(false)
+    setSubmitError(null)
+    cancelErrorFocus()
+  }
+
+  useEffect(() => {
+    if (!open) {
+      return
+    }
+    setDisplayName(buildDefaultInstanceName())
+    setCompartmentId(
+      restoreSource && compartmentOptions.some((option) => option.value === restoreSource.compartmentId)
+        ? restoreSource.compartmentId
+        : compartmentOptions[0]?.value ?? "",
+    )
+    setRegion(restoreSource?.region ?? regionOptions[0]?.value ?? "")
+    setAvailabilityDomain("")
+    setShape("")
+    setOcpus("")
+    setMemoryInGBs("")
+    setImageId("")
+    setSubnetId("")
+    setAssignPublicIp(true)
+    setSshPublicKey("")
+    setSshPublicKeyFileName("")
+    setCloudInit("")
+    setLaunchOptions({ availabilityDomains: [], shapes: [], subnets: [] })
+    setOptionsError(null)
+    setImages([])
+    setSubmitting(false)
+    setSubmitAttempted(false)
+    setSubmitError(null)
+    setErrorAttentionKey(0)
+    cancelErrorFocus()
+  }, [open, restoreSource, cancelErrorFocus])
+
+  useEffect(() => {
+    consumePendingErrorFocus(Boolean(activeErrorMessage) && errorAttentionKey > 0)
+  }, [activeErrorMessage, consumePendingErrorFocus, errorAttentionKey])
+
+  useEffect(() => {
+    if (!open || !compartmentId) {
+      return
+    }
+    let cancelled = false
+    setOptionsLoading(true)
+    setOptionsError(null)
+    void ResourceServiceClient.getComputeLaunchOptions({
+      compartmentId,
+      region: region || undefined,
+      availabilityDomain: availabilityDomain || undefined,
+    })
+      .then((response) => {
+        if (cancelled) {
+          return
+        }
+        setLaunchOptions(response)
+        if (!availabilityDomain && response.availabilityDomains.length > 0) {
+          // Shapes differ per availability domain; the next load narrows them to the first one.
+          setAvailabilityDomain(response.availabilityDomains[0])
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setOptionsError(err instanceof Error ? err.message : String(err))
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setOptionsLoading(false)
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [availabilityDomain, compartmentId, open, optionsReloadKey, region])
+
+  useEffect(() => {
+    if (launchOptions.shapes.length === 0) {
+      return
+    }
+    if (!launchOptions.shapes.some((option) => option.shape === shape)) {
+      applyShape(launchOptions.shapes.find((option) => option.isFlexible) ?? launchOptions.shapes[0])
+    }
+  }, [launchOptions.shapes, shape])
+
+  useEffect(() => {
+    if (subnetId && availableSubnets.some((subnet) => subnet.id === subnetId)) {
+      return
+    }
+    const nextSubnet = availableSubnets[0]
+    setSubnetId(nextSubnet?.id ?? "")
+    setAssignPublicIp(!nextSubnet?.prohibitPublicIp)
+  }, [availableSubnets, subnetId])
+
+  useEffect(() => {
+    if (!open || !compartmentId || !shape || restoreSource) {
+      setImages([])
+      return
+    }
+    let cancelled = false
+    setImagesLoading(true)
+    void ResourceServiceClient.listComputeImages({ compartmentId, region: region || undefined, shape })
+      .then((response) => {
+        if (cancelled) {
+          return
+        }
+        const nextImages = response.images ?? []
+        setImages(nextImages)
+        setImageId((current) => (nextImages.some((image) => image.id === current) ? current : nextImages[0]?.id ?? ""))
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setImages([])
+          setOptionsError(err instanceof Error ? err.message : String(err))
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setImagesLoading(false)
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [compartmentId, open, region, restoreSource, shape])
+
+  if (!open) {
+    return null
+  }
+
+  const readPublicKeyFile = (file: File) => {
+    const reader = new FileReader()
+    reader.onload = (loadEvent) => {
+      const content = loadEvent.target?.result as string
+      if (content) {
+        clearSubmitError()
+        setSshPublicKeyFileName(file.name)
+        setSshPublicKey(content.trim())
+      }
+    }
+    reader.onerror = () => {
+      focusErrorNotice()
+      setSubmitError("Failed to read the selected public key file.")
+    }
+    reader.onabort = reader.onerror
+    reader.readAsText(file)
+  }
+
+  const handleFileUpload = () => {
+    if (submitting) {
+      return
+    }
+    const input = document.createElement("input")
+    input.type = "file"
+    input.accept = ".pub"
+    input.onchange = (event) => {
+      const file = (event.target as HTMLInputElement).files?.[0]
+      if (file) {
+        readPublicKeyFile(file)
+      }
+    }
+    input.click()
+  }
+
+  const handleFileDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    const file = event.dataTransfer.files?.[0]
+    if (file && !submitting) {
+      readPublicKeyFile(file)
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (submitting) {
+      return
+    }
+    setSubmitAttempted(true)
+    clearSubmitError()
+    const nextValidationIssue = getLaunchValidationIssue({
+      displayName,
+      compartmentId,
+      availabilityDomain,
+      shape: selectedShape,
+      ocpus,
+      memoryInGBs,
+      imageId: sourceId,
+      subnetId,
+      sshPublicKey,
+    })
+    if (nextValidationIssue) {
+      focusErrorNotice()
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const resolvedDisplayName = displayName.trim()
+      const response = await ResourceServiceClient.launchComputeInstance({
+        compartmentId,
+        region: region || undefined,
+        availabilityDomain,
+        displayName: resolvedDisplayName,
+        shape,
+        ocpus: selectedShape?.isFlexible ? Number(ocpus) : undefined,
+        memoryInGBs: selectedShape?.isFlexible ? Number(memoryInGBs) : undefined,
+        imageId: restoreSource?.kind === "bootVolumeBackup" ? undefined : sourceId,
+        bootVolumeBackupId: restoreSource?.kind === "bootVolumeBackup" ? restoreSource.id : undefined,
+        subnetId,
+        assignPublicIp: publicIpAllowed && assignPublicIp,
+        sshPublicKey: sshPublicKey.trim(),
+        cloudInit: cloudInit.trim() ? cloudInit : undefined,
+      })
+      onLaunched({ instanceId: response.instanceId, operationId: response.operationId, displayName: resolvedDisplayName })
+    } catch (err) {
+      focusErrorNotice()
+      setSubmitError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const shapeNote = selectedShape
+    ? selectedShape.isFlexible
+      ? `Flexible: ${formatRange(selectedShape.ocpuMin, selectedShape.ocpuMax)} OCPUs, ${formatRange(selectedShape.memoryMinInGBs, selectedShape.memoryMaxInGBs)} GB memory.`
+      : `${selectedShape.ocpus ?? "-"} OCPUs, ${selectedShape.memoryInGBs ?? "-"} GB memory.`
+    : optionsLoading
+      ? "Loading shapes..."
+      : "No shapes are offered in this availability domain."
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center bg-black/50 px-3 py-4 font-sans text-[var(--vscode-foreground)]">
+      <div className="flex max-h-[90vh] w-full max-w-[980px] flex-col overflow-hidden rounded-[4px] border border-[var(--vscode-panel-border)] bg-[var(--workbench-panel-shell)] shadow-2xl">
+        <div className="flex items-start justify-between gap-3 border-b border-[var(--vscode-panel-border)] px-3 py-2.5">
+          <div className="min-w-0">
+            <div className="text-[10px] font-semibold uppercase tracking-[0.16em] text-[var(--vscode-descriptionForeground)]">
+              Compute Instance
+            </div>
+            <div className="mt-1 flex items-center gap-2 text-[var(--vscode-foreground)]">
+              <Server size={14} />
+              <h3 className="truncate text-[13px] font-semibold">{restoreSource ? "Restore Instance" : "Launch Instance"}</h3>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={submitting}
+            className="rounded-[2px] p-1 text-[var(--vscode-icon-foreground)] transition-colors hover:bg-[var(--vscode-toolbar-hoverBackground)] hover:text-[var(--vscode-foreground)] disabled:opacity-50"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="min-h-0 overflow-y-auto px-3 py-3">
+          <div className="flex flex-col gap-2.5">
+            {activeErrorMessage && (
+              <div
+                ref={errorNoticeRef}
+                role="alert"
+                className={clsx(
+                  "rounded-md transition-all duration-500",
+                  isErrorFlashing && "bg-[color-mix(in_srgb,var(--vscode-errorForeground)_10%,transparent)] ring-1 ring-[color-mix(in_srgb,var(--vscode-errorForeground)_40%,transparent)]",
+                )}
+              >
+                <InlineNotice
+                  tone="danger"
+                  size="md"
+                  icon={<AlertCircle size={14} />}
+                  title={activeErrorTitle}
+                  actions={<WorkbenchDismissButton onClick={dismissError} title="Dismiss" />}
+                >
+                  {activeErrorMessage}
+                </InlineNotice>
+              </div>
+            )}
+
+            {optionsError && (
+              <InlineNotice tone="warning" size="sm" icon={<AlertCircle size={14} />}>
+                {optionsError}
+              </InlineNotice>
+            )}
+
+            <DialogSection title="Placement" subtitle="Name the instance and choose where it runs.">
+              <div className="grid gap-2 md:grid-cols-2">
+                <FieldNote note={invalidField === "displayName" ? "Enter a name for the instance." : "Required"} invalid={invalidField === "displayName"}>
+                  <Input
+                    id="launchDisplayName"
+                    label="Instance name"
+                    value={displayName}
+                    disabled={submitting}
+                    onChange={(event) => {
+                      clearSubmitError()
+                      setDisplayName(event.target.value)
+                    }}
+                  />
+                </FieldNote>
+                <FieldNote
+                  note={compartmentOptions.length === 0 ? "Select a compute compartment in the Compute view first." : "From the compartments selected for Compute."}
+                  invalid={invalidField === "compartmentId"}
+                >
+                  <ResourceDropdown
+                    id="launchCompartmentId"
+                    label="Compartment"
+                    value={compartmentId}
+                    disabled={submitting || compartmentOptions.length === 0}
+                    invalid={invalidField === "compartmentId"}
+                    placeholder="Select compartment"
+                    options={compartmentOptions}
+                    onChange={(value) => {
+                      clearSubmitError()
+                      setCompartmentId(value)
+                      setAvailabilityDomain("")
+                    }}
+                  />
+                </FieldNote>
+                {regionOptions.length > 1 && !restoreSource && (
+                  <Select
+                    id="launchRegion"
+                    label="Region"
+                    value={region}
+                    disabled={submitting}
+                    onChange={(event) => {
+                      clearSubmitError()
+                      setRegion(event.target.value)
+                      setAvailabilityDomain("")
+                    }}
+                    options={regionOptions}
+                  />
+                )}
+                <FieldNote
+                  note={invalidField === "availabilityDomain" ? "Select an availability domain." : "Shapes and AD-specific subnets follow this choice."}
+                  invalid={invalidField === "availabilityDomain"}
+                >
+                  <Select
+                    id="launchAvailabilityDomain"
+                    label="Availability domain"
+                    value={availabilityDomain}
+                    disabled={submitting || launchOptions.availabilityDomains.length === 0}
+                    placeholder={optionsLoading ? "Loading..." : "Select availability domain"}
+                    onChange={(event) => {
+                      clearSubmitError()
+                      setAvailabilityDomain(event.target.value)
+                    }}
+                    options={launchOptions.availabilityDomains.map((value) => ({ value, label: value }))}
+                  />
+                </FieldNote>
+              </div>
+            </DialogSection>
+
+            <DialogSection title="Image and shape" subtitle="Flexible shapes take their OCPU count and memory from the fields below.">
+              {restoreSource && (
+                <InlineNotice tone="neutral" size="sm" className="mb-2">
+                  {restoreSource.kind === "bootVolumeBackup"
+                    ? `Restores boot volume backup "${restoreSource.name}" to a new boot volume in the selected availability domain, then launches the instance from it in ${restoreSource.region}.`
+                    : `Launches from custom image "${restoreSource.name}" in ${restoreSource.region}.`}
+                </InlineNotice>
+              )}
+              <div className="grid gap-2 md:grid-cols-2">
+                <FieldNote note={shapeNote} invalid={invalidField === "shape"}>
+                  <ResourceDropdown
+                    id="launchShape"
+                    label="Shape"
+                    value={shape}
+                    disabled={submitting || launchOptions.shapes.length === 0}
+                    invalid={invalidField === "shape"}
+                    loading={optionsLoading}
+                    placeholder={optionsLoading ? "Loading shapes..." : "Select a shape"}
+                    options={launchOptions.shapes.map((option) => ({
+                      value: option.shape,
+                      label: option.shape,
+                      description: option.processorDescription,
+                      meta: option.isFlexible ? "Flex" : undefined,
+                    }))}
+                    onChange={(value) => {
+                      clearSubmitError()
+                      applyShape(launchOptions.shapes.find((option) => option.shape === value))
+                    }}
+                  />
+                </FieldNote>
+                {!restoreSource && (
+                  <FieldNote
+                    note={invalidField === "imageId" ? "Select an image." : imagesLoading ? "Loading images..." : `${images.length} image${images.length !== 1 ? "s" : ""} for this shape, newest first.`}
+                    invalid={invalidField === "imageId"}
+                  >
+                    <ResourceDropdown
+                      id="launchImage"
+                      label="Image"
+                      value={imageId}
+                      disabled={submitting || images.length === 0}
+                      invalid={invalidField === "imageId"}
+                      loading={imagesLoading}
+                      placeholder={imagesLoading ? "Loading images..." : "Select an image"}
+                      searchPlaceholder="Filter images..."
+                      options={images.map((image) => ({
+                        value: image.id,
+                        label: image.name,
+                        description: [image.operatingSystem, image.operatingSystemVersion].filter(Boolean).join(" "),
+                      }))}
+                      onChange={(value) => {
+                        clearSubmitError()
+                        setImageId(value)
+                      }}
+                    />
+                  </FieldNote>
+                )}
+                {selectedShape?.isFlexible && (
+                  <>
+                    <FieldNote
+                      note={invalidField === "ocpus" ? `Enter between ${formatRange(selectedShape.ocpuMin, selectedShape.ocpuMax)} OCPUs.` : "OCPUs"}
+                      invalid={invalidField === "ocpus"}
+                    >
+                      <Input
+                        id="launchOcpus"
+                        label="OCPU count"
+                        type="number"
+                        value={ocpus}
+                        disabled={submitting}
+                        onChange={(event) => {
+                          clearSubmitError()
+                          setOcpus(event.target.value)
+                        }}
+                      />
+                    </FieldNote>
+                    <FieldNote
+                      note={invalidField === "memoryInGBs" ? `Enter between ${formatRange(selectedShape.memoryMinInGBs, selectedShape.memoryMaxInGBs)} GB.` : "GB"}
+                      invalid={invalidField === "memoryInGBs"}
+                    >
+                      <Input
+                        id="launchMemory"
+                        label="Memory (GB)"
+                        type="number"
+                        value={memoryInGBs}
+                        disabled={submitting}
+                        onChange={(event) => {
+                          clearSubmitError()
+                          setMemoryInGBs(event.target.value)
+                        }}
+                      />
+                    </FieldNote>
+                  </>
+                )}
+              </div>
+            </DialogSection>
+
+            <DialogSection title="Networking" subtitle="Subnets come from the instance compartment and the compartments selected for VCN.">
+              <div className="grid gap-2 md:grid-cols-[minmax(0,1fr)_minmax(0,220px)]">
+                <FieldNote
+                  note={invalidField === "subnetId"
+                    ? "Select a subnet."
+                    : availableSubnets.length === 0 && !optionsLoading
+                      ? "No subnets are available in this availability domain."
+                      : selectedSubnet?.cidrBlock || "Required"}
+                  invalid={invalidField === "subnetId"}
+                >
+                  <ResourceDropdown
+                    id="launchSubnet"
+                    label="Subnet"
+                    value={subnetId}
+                    disabled={submitting || availableSubnets.length === 0}
+                    invalid={invalidField === "subnetId"}
+                    loading={optionsLoading}
+                    placeholder={optionsLoading ? "Loading subnets..." : "Select a subnet"}
+                    options={availableSubnets.map((subnet) => ({
+                      value: subnet.id,
+                      label: subnet.name,
+                      description: subnet.cidrBlock,
+                      meta: subnet.prohibitPublicIp ? "Private" : "Public",
+                    }))}
+                    onChange={(value) => {
+                      clearSubmitError()
+                      setSubnetId(value)
+                      setAssignPublicIp(!availableSubnets.find((subnet) => subnet.id === value)?.prohibitPublicIp)
+                    }}
+                  />
+                </FieldNote>
+                <label className="mt-5 flex items-center gap-2 text-[12px] text-foreground">
+                  <input
+                    type="checkbox"
+                    checked={publicIpAllowed && assignPublicIp}
+                    disabled={submitting || !publicIpAllowed}
+                    className="accent-[var(--vscode-focusBorder)]"
+                    onChange={(event) => setAssignPublicIp(event.target.checked)}
+                  />
+                  {publicIpAllowed ? "Assign a public IPv4 address" : "Private subnet: no public IP"}
+                </label>
+              </div>
+              <div className="flex justify-end border-t border-dashed border-[var(--vscode-panel-border)] pt-2">
+                <WorkbenchRefreshButton
+                  onClick={() => setOptionsReloadKey((current) => current + 1)}
+                  disabled={submitting || !compartmentId}
+                  spinning={optionsLoading}
+                  title="Reload availability domains, shapes and subnets"
+                />
+              </div>
+            </DialogSection>
+
+            <DialogSection title="SSH key" subtitle="The public key is added to the default user's authorized_keys. Keep the matching private key to connect.">
+              <div
+                onDrop={handleFileDrop}
+                onDragOver={(event) => event.preventDefault()}
+                onClick={handleFileUpload}
+                className={clsx(
+                  "flex cursor-pointer items-center gap-2 rounded-[4px] border border-dashed border-[var(--vscode-panel-border)] bg-[var(--workbench-panel-surface-subtle)] px-3 py-2 text-[12px] transition-colors hover:border-[var(--vscode-focusBorder)] hover:bg-[var(--vscode-list-hoverBackground)]",
+                  invalidField === "sshPublicKey" && "border-[var(--vscode-errorForeground)]",
+                )}
+              >
+                <Upload size={14} className="text-[var(--vscode-descriptionForeground)]" />
+                <span className="truncate">{sshPublicKeyFileName || "Drop a .pub file or select one, or paste the key below"}</span>
+              </div>
+              <FieldNote
+                note={invalidField === "sshPublicKey" ? "Add an OpenSSH public key, e.g. ssh-ed25519 AAAA..." : "Required"}
+                invalid={invalidField === "sshPublicKey"}
+              >
+                <Textarea
+                  id="launchSshPublicKey"
+                  placeholder="ssh-ed25519 AAAAC3NzaC1lZDI1NTE5..."
+                  value={sshPublicKey}
+                  className="min-h-[64px] font-mono text-[11px]"
+                  disabled={submitting}
+                  onChange={(event) => {
+                    clearSubmitError()
+                    setSshPublicKeyFileName("")
+                    setSshPublicKey(event.target.value)
+                  }}
+                />
+              </FieldNote>
+            </DialogSection>
+
+            <DialogSection title="Cloud-init" subtitle="Optional. Runs on first boot; sent as the instance's user_data.">
+              <Textarea
+                id="launchCloudInit"
+                placeholder={CLOUD_INIT_PLACEHOLDER}
+                value={cloudInit}
+                className="font-mono text-[11px]"
+                disabled={submitting}
+                onChange={(event) => setCloudInit(event.target.value)}
+              />
+            </DialogSection>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 border-t border-[var(--vscode-panel-border)] bg-[color-mix(in_srgb,var(--vscode-editor-background)_95%,white_5%)] px-3 py-2.5">
+          <Button variant="secondary" size="sm" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSubmit} disabled={submitting}>
+            {submitting ? (
+              <span className="flex items-center gap-1.5"><Loader2 size={12} className="animate-spin" /> {restoreSource ? "Restoring..." : "Launching..."}</span>
+            ) : restoreSource ? "Restore Instance" : "Launch Instance"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function DialogSection({
+  title,
+  subtitle,
+  children,
+}: {
+  title: string
+  subtitle?: string
+  children: ReactNode
+}) {
+  return (
+    <section className="rounded-[2px] border border-[var(--vscode-panel-border)] bg-[var(--workbench-panel-surface)]">
+      <div className="border-b border-[var(--vscode-panel-border)] px-3 py-2">
+        <div className="text-[12px] font-semibold text-[var(--vscode-foreground)]">{title}</div>
+        {subtitle ? (
+          <div className="mt-0.5 text-[11px] leading-5 text-[var(--vscode-descriptionForeground)]">
+            {subtitle}
+          </div>
+        ) : null}
+      </div>
+      <div className="flex flex-col gap-2 p-3">{children}</div>
+    </section>
+  )
+}
+
+export function FieldNote({ note, invalid, children }: { note: string; invalid?: boolean; children: ReactNode }) {
+  return (
+    <div className="flex flex-col gap-1">
+      {children}
+      <div className={clsx("text-[10px]", invalid ? "text-[var(--vscode-errorForeground)]" : "text-[var(--vscode-descriptionForeground)]")}>
+        {note}
+      </div>
+    </div>
+  )
+}
+
+function getLaunchValidationIssue({
+  displayName,
+  compartmentId,
+  availabilityDomain,
+  shape,
+  ocpus,
+  memoryInGBs,
+  imageId,
+  subnetId,
+  sshPublicKey,
+}: {
+  displayName: string
+  compartmentId: string
+  availabilityDomain: string
+  shape: ComputeShapeOption | null
+  ocpus: string
+  memoryInGBs: string
+  imageId: string
+  subnetId: string
+  sshPublicKey: string
+}): { field: LaunchValidationField; message: string } | null {
+  if (!displayName.trim()) {
+    return { field: "displayName", message: "Instance name is required." }
+  }
+  if (!compartmentId) {
+    return { field: "compartmentId", message: "Select the compartment to launch the instance in." }
+  }
+  if (!availabilityDomain) {
+    return { field: "availabilityDomain", message: "Select an availability domain." }
+  }
+  if (!shape) {
+    return { field: "shape", message: "Select a shape." }
+  }
+  if (shape.isFlexible) {
+    if (!isNumberInRange(ocpus, shape.ocpuMin, shape.ocpuMax)) {
+      return { field: "ocpus", message: `OCPU count must be between ${formatRange(shape.ocpuMin, shape.ocpuMax)} for ${shape.shape}.` }
+    }
+    if (!isNumberInRange(memoryInGBs, shape.memoryMinInGBs, shape.memoryMaxInGBs)) {
+      return { field: "memoryInGBs", message: `Memory must be between ${formatRange(shape.memoryMinInGBs, shape.memoryMaxInGBs)} GB for ${shape.shape}.` }
+    }
+  }
+  if (!imageId) {
+    return { field: "imageId", message: "Select an image for the instance." }
+  }
+  if (!subnetId) {
+    return { field: "subnetId", message: "Select a subnet for the primary VNIC." }
+  }
+  if (!/^(ssh-|ecdsa-|sk-)\S+ \S+/.test(sshPublicKey.trim())) {
+    return { field: "sshPublicKey", message: "Add an SSH public key in OpenSSH format so you can log in to the instance." }
+  }
+  return null
+}
+
+function isNumberInRange(value: string, min?: number, max?: number) {
+  const parsed = Number(value.trim())
+  if (!value.trim() || !Number.isFinite(parsed) || parsed <= 0) {
+    return false
+  }
+  return (min === undefined || parsed >= min) && (max === undefined || parsed <= max)
+}
+
+function clamp(value: number, min?: number, max?: number) {
+  return Math.min(Math.max(value, min ?? value), max ?? value)
+}
+
+function formatRange(min?: number, max?: number) {
+  if (min === undefined && max === undefined) {
+    return "-"
+  }
+  return `${min ?? "?"}-${max ?? "?"}`
+}
+
+function buildDefaultInstanceName(date = new Date()) {
+  const year = String(date.getFullYear())
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  const hours = String(date.getHours()).padStart(2, "0")
+  const minutes = String(date.getMinutes()).padStart(2, "0")
+  return `instance-${year}${month}${day}-${hours}${minutes}`
+}
@@ -0,0 +1,239 @@
+import { AlertCircle, Loader2, TerminalSquare, X } from "lucide-react"
+import { useCallback, useEffect, useState } from "react"
+import { ResourceServiceClient } from "../../services/grpc-client"
+import type { ComputeResource, RunCommandScript } from "../../services/types"
+import Button from "../ui/Button"
+import InlineNotice from "../ui/InlineNotice"
+import Input from "../ui/Input"
+import Select from "../ui/Select"
+import { WorkbenchDismissButton } from "../workbench/WorkbenchActionButtons"
+import { WorkbenchRegionTag } from "../workbench/WorkbenchInventoryScaffold"
+import { WorkbenchRefreshButton } from "../workbench/WorkbenchToolbar"
+import { DialogSection, FieldNote } from "./LaunchInstanceDialog"
+
+const DEFAULT_TIMEOUT_SECONDS = "3600"
+
+interface RunCommandDialogProps {
+  open: boolean
+  /** Instances that can receive commands (RUNNING) */
+  instances: ComputeResource[]
+  /** Targets checked when the dialog opens */
+  initialTargetIds: string[]
+  onClose: () => void
+  onStarted: (summary: { runId: string; scriptName: string; instanceIds: string[] }) => void
+}
+
+export default function RunCommandDialog({ open, instances, initialTargetIds, onClose, onStarted }: RunCommandDialogProps) {
+  const [scripts, setScripts] = useState<RunCommandScript[]>([])
+  const [scriptsLoading, setScriptsLoading] = useState(false)
+  const [scriptPath, setScriptPath] = useState("")
+  const [timeoutSeconds, setTimeoutSeconds] = useState(DEFAULT_TIMEOUT_SECONDS)
+  const [targetIds, setTargetIds] = useState<Set<string>>(() => new Set())
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadScripts = useCallback(async () => {
+    setScriptsLoading(true)
+    try {
+      const response = await ResourceServiceClient.listRunCommandScripts()
+      setScripts(response.scripts)
+      setScriptPath((current) => response.scripts.some((script) => script.path === current) ? current : response.scripts[0]?.path ?? "")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setScriptsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!open) {
+      return
+    }
+    setError(null)
+    setTargetIds(new Set(initialTargetIds))
+    void loadScripts()
+  }, [open, initialTargetIds, loadScripts])
+
+  if (!open) {
+    return null
+  }
+
+  const parsedTimeout = Number(timeoutSeconds.trim())
+  const timeoutValid = Number.isInteger(parsedTimeout) && parsedTimeout > 0
+  const selectedScript = scripts.find((script) => script.path === scriptPath)
+  const targets = instances.filter((instance) => targetIds.has(instance.id))
+
+  const toggleTarget = (instanceId: string, checked: boolean) => {
+    setTargetIds((prev) => {
+      const next = new Set(prev)
+      if (checked) {
+        next.add(instanceId)
+      } else {
+        next.delete(instanceId)
+      }
+      return next
+    })
+  }
+
+  const handleSubmit = async () => {
+    if (submitting) {
+      return
+    }
+    if (!selectedScript) {
+      setError("Select a script from the workspace.")
+      return
+    }
+    if (targets.length === 0) {
+      setError("Select at least one running instance.")
+      return
+    }
+    if (!timeoutValid) {
+      setError("Timeout must be a whole number of seconds.")
+      return
+    }
+    const missingCompartment = targets.find((instance) => !instance.compartmentId)
+    if (missingCompartment) {
+      setError(`The compartment of "${missingCompartment.name}" is unknown. Refresh the instance list and retry.`)
+      return
+    }
+
+    setSubmitting(true)
+    setError(null)
+    try {
+      const response = await ResourceServiceClient.runComputeCommand({
+        scriptPath: selectedScript.path,
+        timeoutSeconds: parsedTimeout,
+        targets: targets.map((instance) => ({
+          instanceId: instance.id,
+          instanceName: instance.name,
+          compartmentId: instance.compartmentId ?? "",
+          region: instance.region,
+        })),
+      })
+      onStarted({ runId: response.runId, scriptName: selectedScript.label, instanceIds: targets.map((instance) => instance.id) })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center bg-black/50 px-3 py-4 font-sans text-[var(--vscode-foreground)]">
+      <div className="flex max-h-[90vh] w-full max-w-[720px] flex-col overflow-hidden rounded-[4px] border border-[var(--vscode-panel-border)] bg-[var(--workbench-panel-shell)] shadow-2xl">
+        <div className="flex items-start justify-between gap-3 border-b border-[var(--vscode-panel-border)] px-3 py-2.5">
+          <div className="min-w-0">
+            <div className="text-[10px] font-semibold uppercase tracking-[0.16em] text-[var(--vscode-descriptionForeground)]">
+              Compute Instance Agent
+            </div>
+            <div className="mt-1 flex items-center gap-2 text-[var(--vscode-foreground)]">
+              <TerminalSquare size={14} />
+              <h3 className="truncate text-[13px] font-semibold">Run Command</h3>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={submitting}
+            className="rounded-[2px] p-1 text-[var(--vscode-icon-foreground)] transition-colors hover:bg-[var(--vscode-toolbar-hoverBackground)] hover:text-[var(--vscode-foreground)] disabled:opacity-50"
+            title="Close"
+          >
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="min-h-0 overflow-y-auto px-3 py-3">
+          <div className="flex flex-col gap-2.5">
+            {error && (
+              <InlineNotice
+                tone="danger"
+                size="md"
+                icon={<AlertCircle size={14} />}
+                title="Unable to run the command"
+                actions={<WorkbenchDismissButton onClick={() => setError(null)} title="Dismiss" />}
+              >
+                {error}
+              </InlineNotice>
+            )}
+
+            <DialogSection
+              title="Script"
+              subtitle="Shell (.sh, .bash) or PowerShell (.ps1) scripts from the workspace. The agent runs it as the ocarun user; use sudo where the instance allows it."
+            >
+              <div className="flex items-end gap-2">
+                <div className="min-w-0 flex-1">
+                  <FieldNote note={scripts.length === 0 && !scriptsLoading ? "No scripts found in the workspace folders." : "Sent as text; keep it under 256 KB."}>
+                    <Select
+                      id="runCommandScript"
+                      label="Script"
+                      value={scriptPath}
+                      disabled={submitting || scripts.length === 0}
+                      placeholder={scriptsLoading ? "Loading scripts..." : "Select script"}
+                      options={scripts.map((script) => ({ value: script.path, label: script.label }))}
+                      onChange={(event) => setScriptPath(event.target.value)}
+                    />
+                  </FieldNote>
+                </div>
+                <div className="pb-[18px]">
+                  <WorkbenchRefreshButton
+                    onClick={() => void loadScripts()}
+                    disabled={submitting}
+                    spinning={scriptsLoading}
+                    title="Search the workspace for scripts again"
+                  />
+                </div>
+              </div>
+              <FieldNote note="The command is canceled on the instance when it runs longer than this." invalid={!timeoutValid}>
+                <Input
+                  id="runCommandTimeout"
+                  label="Timeout (seconds)"
+                  type="number"
+                  min={1}
+                  value={timeoutSeconds}
+                  disabled={submitting}
+                  onChange={(event) => setTimeoutSeconds(event.target.value)}
+                />
+              </FieldNote>
+            </DialogSection>
+
+            <DialogSection
+              title={`Instances (${targets.length}/${instances.length})`}
+              subtitle="Running instances with the Compute Instance Run Command plugin enabled. Each instance gets its own command."
+            >
+              {instances.length === 0 ? (
+                <div className="text-[11px] text-description">No running instances in the current list.</div>
+              ) : (
+                <div className="flex max-h-[240px] flex-col gap-1 overflow-y-auto">
+                  {instances.map((instance) => (
+                    <label key={instance.id} className="flex min-w-0 items-center gap-2 text-[12px] text-foreground">
+                      <input
+                        type="checkbox"
+                        checked={targetIds.has(instance.id)}
+                        disabled={submitting}
+                        className="accent-[var(--vscode-focusBorder)]"
+                        onChange={(event) => toggleTarget(instance.id, event.target.checked)}
+                      />
+                      <span className="truncate">{instance.name}</span>
+                      {instance.region && <WorkbenchRegionTag region={instance.region} />}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </DialogSection>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 border-t border-[var(--vscode-panel-border)] bg-[color-mix(in_srgb,var(--vscode-editor-background)_95%,white_5%)] px-3 py-2.5">
+          <Button variant="secondary" size="sm" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSubmit} disabled={submitting || !selectedScript || targets.length === 0}>
+            {submitting ? (
+              <span className="flex items-center gap-1.5"><Loader2 size={12} className="animate-spin" /> Sending...</span>
+            ) : `Run on ${targets.length} instance${targets.length !== 1 ? "s" : ""}`}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+import { Loader2 } from "lucide-react"
+import type { WorkbenchInsightTone } from "../../context/WorkbenchInsightContext"
+import { RunCommandServiceClient } from "../../services/grpc-client"
+import type { RunCommandExecution, RunCommandRun } from "../../services/types"
+import StatusBadge from "../ui/StatusBadge"
+import {
+  WorkbenchCompactActionCluster,
+  WorkbenchDismissButton,
+  WorkbenchRevealButton,
+  WorkbenchSecondaryActionButton,
+} from "../workbench/WorkbenchActionButtons"
+import WorkbenchActionInventoryCard from "../workbench/WorkbenchActionInventoryCard"
+import { WorkbenchInventorySummary, WorkbenchRegionTag } from "../workbench/WorkbenchInventoryScaffold"
+import { showInListLabel } from "../workbench/navigationLabels"
+
+interface RunCommandResultsProps {
+  runs: RunCommandRun[]
+  onRevealInstance: (instanceId: string) => void
+  onError: (message: string) => void
+}
+
+/** Run Command runs followed by the extension host, with each instance's exit status and output */
+export default function RunCommandResults({ runs, onRevealInstance, onError }: RunCommandResultsProps) {
+  if (runs.length === 0) {
+    return null
+  }
+
+  const handleCancel = async (runId: string) => {
+    try {
+      await RunCommandServiceClient.cancel(runId)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <section className="mb-2 rounded-lg border border-[var(--vscode-panel-border)] bg-[var(--workbench-panel-shell)] p-2">
+      <WorkbenchInventorySummary
+        label="Run Command"
+        count={`${runs.length} run${runs.length !== 1 ? "s" : ""}`}
+        description="Output arrives per instance once its command finishes. Dismiss runs once you have read the results."
+      />
+      <div className="mt-2 flex flex-col gap-2">
+        {runs.map((run) => {
+          const finished = run.executions.filter((execution) => execution.status !== "IN_PROGRESS").length
+          const failed = run.executions.filter((execution) => execution.status === "FAILED").length
+          const inProgress = !run.finishedAt
+          return (
+            <WorkbenchActionInventoryCard
+              key={run.id}
+              title={run.scriptName}
+              subtitle={run.scriptPath}
+              trailing={inProgress
+                ? <StatusBadge label={`${finished}/${run.executions.length} done`} tone="neutral" size="compact" />
+                : <StatusBadge label={failed > 0 ? `${failed} failed` : "Succeeded"} tone={failed > 0 ? "danger" : "success"} size="compact" />}
+              meta={(
+                <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-0.5 text-[11px] text-description">
+                  <span>Started {new Date(run.startedAt).toLocaleTimeString()}</span>
+                  <span>Timeout {run.timeoutSeconds}s</span>
+                </div>
+              )}
+              actions={(
+                <WorkbenchCompactActionCluster>
+                  {inProgress && <Loader2 size={12} className="animate-spin text-description" />}
+                  {inProgress && (
+                    <WorkbenchSecondaryActionButton onClick={() => void handleCancel(run.id)} title="Cancel the commands that have not finished">
+                      Cancel
+                    </WorkbenchSecondaryActionButton>
+                  )}
+                  {!inProgress && <WorkbenchDismissButton onClick={() => void RunCommandServiceClient.dismiss(run.id)} title="Dismiss" />}
+                </WorkbenchCompactActionCluster>
+              )}
+            >
+              <div className="flex flex-col gap-1">
+                {run.executions.map((execution) => (
+                  <ExecutionResult
+                    key={execution.instanceId}
+                    execution={execution}
+                    onReveal={() => onRevealInstance(execution.instanceId)}
+                  />
+                ))}
+              </div>
+            </WorkbenchActionInventoryCard>
+          )
+        })}
+      </div>
+    </section>
+  )
+}
+
+function ExecutionResult({ execution, onReveal }: { execution: RunCommandExecution; onReveal: () => void }) {
+  const inProgress = execution.status === "IN_PROGRESS"
+  return (
+    <div className="rounded-[2px] border border-[var(--vscode-panel-border)] bg-[var(--workbench-panel-surface-subtle)] px-2 py-1.5">
+      <div className="flex min-w-0 items-center gap-2">
+        <span className="truncate text-[12px] text-[var(--vscode-foreground)]">{execution.instanceName}</span>
+        {execution.region && <WorkbenchRegionTag region={execution.region} />}
+        <span className="ml-auto flex shrink-0 items-center gap-1.5">
+          {inProgress && <Loader2 size={11} className="animate-spin text-description" />}
+          <StatusBadge label={describeExecution(execution)} tone={executionTone(execution)} size="compact" />
+          <WorkbenchRevealButton onClick={onReveal} title={showInListLabel("Instance")} label={showInListLabel("Instance")} />
+        </span>
+      </div>
+      {execution.errorMessage && (
+        <div className="mt-1 break-words text-[11px] text-error">{execution.errorMessage}</div>
+      )}
+      {execution.output !== undefined && (
+        <details className="mt-1" open={execution.status === "FAILED"}>
+          <summary className="cursor-pointer text-[11px] text-description">
+            Output{execution.output ? ` (${execution.output.split("\n").length} lines)` : " (empty)"}
+          </summary>
+          {execution.output && (
+            <pre className="mt-1 max-h-[240px] overflow-auto whitespace-pre-wrap break-words rounded-[2px] bg-[var(--vscode-textCodeBlock-background)] p-2 font-mono text-[11px] text-[var(--vscode-foreground)]">
+              {execution.output}
+            </pre>
+          )}
+        </details>
+      )}
+    </div>
+  )
+}
+
+function describeExecution(execution: RunCommandExecution): string {
+  if (execution.status === "IN_PROGRESS") {
+    // Commands stay ACCEPTED until the agent on the instance picks them up.
+    return execution.lifecycleState === "ACCEPTED" && execution.deliveryState !== "ACKED"
+      ? "Waiting for agent"
+      : "Running"
+  }
+  if (execution.exitCode !== undefined) {
+    return `Exit ${execution.exitCode}`
+  }
+  return execution.lifecycleState ? execution.lifecycleState.replace(/_/g, " ").toLowerCase() : "Failed"
+}
+
+function executionTone(execution: RunCommandExecution): WorkbenchInsightTone {
+  if (execution.status === "SUCCEEDED") {
+    return "success"
+  }
+  return execution.status === "FAILED" ? "danger" : "neutral"
+}
@@ -0,0 +1,462 @@
+import { clsx } from "clsx"
+import { AlertCircle, Copy, DatabaseZap, Loader2, PlayCircle, Plus, SquareTerminal, StopCircle, Trash2, X } from "lucide-react"
+import { useCallback, useEffect, useRef, useState } from "react"
+import { ResourceServiceClient, WorkRequestServiceClient } from "../../services/grpc-client"
+import type {
+    ContainerDatabaseResource,
+    DbHomeResource,
+    DbSystemResource,
+    PluggableDatabaseResource,
+    TrackedWorkRequest,
+} from "../../services/types"
+import InlineNotice from "../ui/InlineNotice"
+import { LifecycleBadge } from "../ui/StatusBadge"
+import { WorkbenchLoadingState } from "../workbench/DatabaseWorkbenchChrome"
+import {
+    WorkbenchActionButton,
+    WorkbenchCompactActionCluster,
+    WorkbenchGuardrailActionButton,
+    WorkbenchSubmitButton,
+} from "../workbench/WorkbenchActionButtons"
+import { WorkbenchCompactFieldRow, WorkbenchCompactInput } from "../workbench/WorkbenchCompactControls"
+import {
+    buildWorkbenchResourceGuardrailDetails,
+    createDeleteResourceGuardrail,
+    createStartResourceGuardrail,
+    createStopResourceGuardrail,
+    type WorkbenchGuardrailState,
+} from "../workbench/guardrail"
+import WorkbenchOperationCard from "../workbench/WorkbenchOperationCard"
+import { WorkbenchRefreshButton } from "../workbench/WorkbenchToolbar"
+
+const POLL_INTERVAL_MS = 5000
+const PDB_OPERATION_KINDS = new Set<TrackedWorkRequest["kind"]>([
+    "createPluggableDatabase",
+    "clonePluggableDatabase",
+    "startPluggableDatabase",
+    "stopPluggableDatabase",
+    "deletePluggableDatabase",
+])
+const PDB_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,29}$/
+
+type PdbFormTarget =
+    | { mode: "create"; database: ContainerDatabaseResource }
+    | { mode: "clone"; source: PluggableDatabaseResource }
+    | null
+
+interface DbSystemDatabasesPanelProps {
+    dbSystem: DbSystemResource
+    /** DB System operations followed by the extension host; the inventory reloads when a PDB operation settles */
+    operations: TrackedWorkRequest[]
+    onRequestGuardrail: (value: WorkbenchGuardrailState) => void
+    /** Opens SQL Workbench on this DB System with the connect string of the PDB */
+    onOpenInSqlWorkbench: (pdb: PluggableDatabaseResource) => void
+}
+
+/** DB homes, databases and pluggable databases of the selected DB System, with PDB create, clone, start, stop and delete */
+export default function DbSystemDatabasesPanel({ dbSystem, operations, onRequestGuardrail, onOpenInSqlWorkbench }: DbSystemDatabasesPanelProps) {
+    const [dbHomes, setDbHomes] = useState<DbHomeResource[] | null>(null)
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [busyId, setBusyId] = useState<string | null>(null)
+    const [formTarget, setFormTarget] = useState<PdbFormTarget>(null)
+    const [pdbName, setPdbName] = useState("")
+    const [pdbAdminPassword, setPdbAdminPassword] = useState("")
+    const [tdeWalletPassword, setTdeWalletPassword] = useState("")
+    const [highlightedPdbId, setHighlightedPdbId] = useState<string | null>(null)
+    const pdbRowRefs = useRef(new Map<string, HTMLDivElement>())
+
+    const load = useCallback(async () => {
+        if (!dbSystem.compartmentId) {
+            return
+        }
+        setLoading(true)
+        try {
+            const response = await ResourceServiceClient.listDbSystemDatabases({
+                dbSystemId: dbSystem.id,
+                compartmentId: dbSystem.compartmentId,
+                region: dbSystem.region,
+                publicIp: dbSystem.publicIp,
+            })
+            setDbHomes(response.dbHomes ?? [])
+            setError(null)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err))
+        } finally {
+            setLoading(false)
+        }
+    }, [dbSystem.compartmentId, dbSystem.id, dbSystem.publicIp, dbSystem.region])
+
+    // Operations name the container database, or the source PDB of a clone, as their parent.
+    const knownIds = new Set(dbHomes?.flatMap((home) => home.databases.flatMap((database) =>
+        [database.id, ...database.pluggableDatabases.map((pdb) => pdb.id)])))
+    const pdbOperations = operations.filter((operation) =>
+        PDB_OPERATION_KINDS.has(operation.kind)
+        && (knownIds.has(operation.resourceId) || knownIds.has(operation.parentResourceId ?? "")))
+    const pendingIds = new Set(pdbOperations
+        .filter((operation) => operation.status === "IN_PROGRESS")
+        .flatMap((operation) => [operation.resourceId, operation.parentResourceId ?? ""]))
+    const settledOperationKey = pdbOperations
+        .filter((operation) => operation.status !== "IN_PROGRESS")
+        .map((operation) => operation.id)
+        .join(",")
+
+    useEffect(() => {
+        setFormTarget(null)
+        setDbHomes(null)
+    }, [dbSystem.id])
+
+    useEffect(() => {
+        void load()
+    }, [load, settledOperationKey])
+
+    useEffect(() => {
+        if (!highlightedPdbId) {
+            return
+        }
+        pdbRowRefs.current.get(highlightedPdbId)?.scrollIntoView({ block: "nearest", behavior: "smooth" })
+        const timer = window.setTimeout(() => setHighlightedPdbId(null), 2200)
+        return () => window.clearTimeout(timer)
+    }, [highlightedPdbId])
+
+    const transitional = Boolean(dbHomes?.some((home) => home.databases.some((database) =>
+        database.pluggableDatabases.some((pdb) => pdb.lifecycleState !== "AVAILABLE" && pdb.lifecycleState !== "FAILED"))))
+    useEffect(() => {
+        if (!transitional) {
+            return
+        }
+        const timer = window.setTimeout(() => void load(), POLL_INTERVAL_MS)
+        return () => window.clearTimeout(timer)
+    }, [dbHomes, load, transitional])
+
+    const openForm = (target: PdbFormTarget) => {
+        setFormTarget(target)
+        setPdbName(target?.mode === "clone" ? `${target.source.name}_CLONE`.slice(0, 30) : "")
+        setPdbAdminPassword("")
+        setTdeWalletPassword("")
+    }
+
+    const runOperation = async (id: string, operation: () => Promise<unknown>) => {
+        setBusyId(id)
+        try {
+            await operation()
+            setError(null)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err))
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    const submitForm = async () => {
+        if (!formTarget) {
+            return
+        }
+        const credentials = { pdbName: pdbName.trim(), pdbAdminPassword, tdeWalletPassword, region: dbSystem.region }
+        const id = formTarget.mode === "create" ? formTarget.database.id : formTarget.source.id
+        await runOperation(id, async () => {
+            if (formTarget.mode === "create") {
+                await ResourceServiceClient.createPluggableDatabase({ containerDatabaseId: formTarget.database.id, ...credentials })
+            } else {
+                await ResourceServiceClient.clonePluggableDatabase({ sourcePluggableDatabaseId: formTarget.source.id, ...credentials })
+            }
+            setFormTarget(null)
+            await load()
+        })
+    }
+
+    const pdbGuardrailDetails = (pdb: PluggableDatabaseResource) => buildWorkbenchResourceGuardrailDetails({
+        resourceLabel: "PDB",
+        resourceName: pdb.name,
+        region: dbSystem.region || "default",
+        extras: [{ label: "DB System", value: dbSystem.name }],
+    })
+
+    const runAction = (pdb: PluggableDatabaseResource, action: "START" | "STOP") => runOperation(pdb.id, () =>
+        ResourceServiceClient.pluggableDatabaseAction({ pluggableDatabaseId: pdb.id, pdbName: pdb.name, region: dbSystem.region, action }))
+
+    const deletePdb = (pdb: PluggableDatabaseResource) => runOperation(pdb.id, () =>
+        ResourceServiceClient.deletePluggableDatabase({ pluggableDatabaseId: pdb.id, pdbName: pdb.name, region: dbSystem.region }))
+
+    const nameValid = PDB_NAME_PATTERN.test(pdbName.trim())
+    const formValid = nameValid && pdbAdminPassword.length > 0 && tdeWalletPassword.length > 0
+    const databaseCount = dbHomes?.reduce((count, home) => count + home.databases.length, 0) ?? 0
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center gap-2 text-[11px] text-description">
+                <span>
+                    {dbHomes
+                        ? `${dbHomes.length} DB home${dbHomes.length !== 1 ? "s" : ""}, ${databaseCount} database${databaseCount !== 1 ? "s" : ""}.`
+                        : "DB homes, databases and pluggable databases of this DB System."}
+                </span>
+                <div className="ml-auto">
+                    <WorkbenchRefreshButton onClick={() => void load()} disabled={loading} spinning={loading} title="Reload databases" />
+                </div>
+            </div>
+
+            {!dbSystem.compartmentId && (
+                <InlineNotice tone="warning" icon={<AlertCircle size={13} />}>
+                    The compartment of this DB System is unknown, so its databases cannot be listed.
+                </InlineNotice>
+            )}
+            {error && (
+                <InlineNotice tone="danger" icon={<AlertCircle size={13} />}>
+                    {error}
+                </InlineNotice>
+            )}
+
+            {pdbOperations.length > 0 && (
+                <div className="flex flex-col gap-2">
+                    {pdbOperations.map((operation) => (
+                        <WorkbenchOperationCard
+                            key={operation.id}
+                            operation={operation}
+                            revealLabel="PDB"
+                            onReveal={() => setHighlightedPdbId(operation.resourceId)}
+                            onDismiss={() => void WorkRequestServiceClient.dismiss(operation.id)}
+                        />
+                    ))}
+                </div>
+            )}
+
+            {formTarget && (
+                <div className="flex flex-col gap-1.5 rounded-[2px] border border-[var(--vscode-focusBorder)] bg-[var(--workbench-panel-surface-subtle)] px-2 py-1.5">
+                    <div className="flex items-center gap-2">
+                        <span className="text-[11px] font-semibold text-[var(--vscode-foreground)]">
+                            {formTarget.mode === "create"
+                                ? `New PDB in ${formTarget.database.name}`
+                                : `Clone ${formTarget.source.name}`}
+                        </span>
+                        <WorkbenchActionButton variant="ghost" tone="secondaryAction" className="ml-auto" onClick={() => setFormTarget(null)} title="Cancel">
+                            <X size={12} />
+                        </WorkbenchActionButton>
+                    </div>
+                    <WorkbenchCompactFieldRow label="PDB name" labelClassName="w-24">
+                        <WorkbenchCompactInput
+                            type="text"
+                            value={pdbName}
+                            onChange={(event) => setPdbName(event.target.value)}
+                            className="h-[22px] px-1.5 text-[11px]"
+                            title="Starts with a letter; up to 30 letters, digits or underscores"
+                        />
+                    </WorkbenchCompactFieldRow>
+                    <WorkbenchCompactFieldRow label="PDB admin" labelClassName="w-24">
+                        <WorkbenchCompactInput
+                            type="password"
+                            value={pdbAdminPassword}
+                            onChange={(event) => setPdbAdminPassword(event.target.value)}
+                            className="h-[22px] px-1.5 text-[11px]"
+                            title="Password of the PDBADMIN user of the new PDB"
+                        />
+                    </WorkbenchCompactFieldRow>
+                    <WorkbenchCompactFieldRow label="TDE wallet" labelClassName="w-24">
+                        <WorkbenchCompactInput
+                            type="password"
+                            value={tdeWalletPassword}
+                            onChange={(event) => setTdeWalletPassword(event.target.value)}
+                            className="h-[22px] px-1.5 text-[11px]"
+                            title="TDE wallet password of the container database"
+                        />
+                    </WorkbenchCompactFieldRow>
+                    {pdbName.trim() && !nameValid && (
+                        <div className="text-[11px] text-error">PDB names start with a letter and hold up to 30 letters, digits or underscores.</div>
+                    )}
+                    <WorkbenchSubmitButton
+                        type="button"
+                        variant="secondary"
+                        className="w-fit"
+                        onClick={() => void submitForm()}
+                        disabled={!formValid || busyId !== null}
+                    >
+                        {busyId !== null ? <Loader2 size={12} className="animate-spin" /> : formTarget.mode === "create" ? <Plus size={12} /> : <Copy size={12} />}
+                        {formTarget.mode === "create" ? "Create PDB" : "Clone PDB"}
+                    </WorkbenchSubmitButton>
+                </div>
+            )}
+
+            {!dbHomes && loading ? (
+                <WorkbenchLoadingState label="Loading databases..." className="min-h-[80px] py-3" />
+            ) : dbHomes && dbHomes.length === 0 ? (
+                <div className="text-[11px] text-description">This DB System has no DB homes.</div>
+            ) : dbHomes?.map((home) => (
+                <div key={home.id} className="flex flex-col gap-1">
+                    <div className="flex min-w-0 items-center gap-2">
+                        <span className="truncate text-[10px] font-semibold uppercase tracking-[0.14em] text-[var(--vscode-descriptionForeground)]">
+                            {home.name}{home.dbVersion ? ` · ${home.dbVersion}` : ""}
+                        </span>
+                        <LifecycleBadge state={home.lifecycleState} size="compact" />
+                    </div>
+                    {home.databases.length === 0 ? (
+                        <div className="text-[11px] text-description">No databases in this DB home.</div>
+                    ) : home.databases.map((database) => {
+                        const canCreate = database.isCdb && database.lifecycleState === "AVAILABLE" && busyId === null
+                        return (
+                            <div
+                                key={database.id}
+                                className="rounded-[2px] border border-[var(--vscode-panel-border)] bg-[var(--workbench-panel-surface-subtle)] px-2 py-1.5"
+                            >
+                                <div className="flex min-w-0 items-center gap-2">
+                                    <DatabaseZap size={12} className="shrink-0 text-description" />
+                                    <span className="truncate text-[12px] text-[var(--vscode-foreground)]">{database.name}</span>
+                                    <LifecycleBadge state={database.lifecycleState} size="compact" />
+                                    <WorkbenchCompactActionCluster className="ml-auto shrink-0">
+                                        <WorkbenchActionButton
+                                            variant="ghost"
+                                            disabled={!canCreate}
+                                            onClick={() => openForm({ mode: "create", database })}
+                                            title={database.isCdb ? "Create an empty PDB in this container database" : "Not a container database"}
+                                        >
+                                            <Plus size={12} />
+                                            New PDB
+                                        </WorkbenchActionButton>
+                                    </WorkbenchCompactActionCluster>
+                                </div>
+                                {database.dbUniqueName && (
+                                    <div className="mt-0.5 text-[11px] text-description">{database.dbUniqueName}</div>
+                                )}
+                                {database.isCdb && (
+                                    <div className="mt-1 flex flex-col gap-1 border-l border-[var(--vscode-panel-border)] pl-2">
+                                        {database.pluggableDatabases.length === 0 ? (
+                                            <div className="text-[11px] text-description">No pluggable databases.</div>
+                                        ) : database.pluggableDatabases.map((pdb) => (
+                                            <PluggableDatabaseRow
+                                                key={pdb.id}
+                                                pdb={pdb}
+                                                busy={busyId === pdb.id}
+                                                highlighted={highlightedPdbId === pdb.id}
+                                                onRegisterRef={(node) => {
+                                                    if (node) {
+                                                        pdbRowRefs.current.set(pdb.id, node)
+                                                    } else {
+                                                        pdbRowRefs.current.delete(pdb.id)
+                                                    }
+                                                }}
+                                                locked={busyId !== null || pendingIds.has(pdb.id)}
+                                                guardrailDetails={pdbGuardrailDetails(pdb)}
+                                                onRequestGuardrail={onRequestGuardrail}
+                                                onStart={() => runAction(pdb, "START")}
+                                                onStop={() => runAction(pdb, "STOP")}
+                                                onDelete={() => deletePdb(pdb)}
+                                                onClone={() => openForm({ mode: "clone", source: pdb })}
+                                                onOpenInSqlWorkbench={() => onOpenInSqlWorkbench(pdb)}
+                                            />
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )
+                    })}
+                </div>
+            ))}
+        </div>
+    )
+}
+
+function PluggableDatabaseRow({
+    pdb,
+    busy,
+    highlighted,
+    onRegisterRef,
+    locked,
+    guardrailDetails,
+    onRequestGuardrail,
+    onStart,
+    onStop,
+    onDelete,
+    onClone,
+    onOpenInSqlWorkbench,
+}: {
+    pdb: PluggableDatabaseResource
+    busy: boolean
+    highlighted: boolean
+    onRegisterRef: (node: HTMLDivElement | null) => void
+    /** Another request is being sent, or an operation on this PDB is still followed */
+    locked: boolean
+    guardrailDetails: ReturnType<typeof buildWorkbenchResourceGuardrailDetails>
+    onRequestGuardrail: (value: WorkbenchGuardrailState) => void
+    onStart: () => Promise<void>
+    onStop: () => Promise<void>
+    onDelete: () => Promise<void>
+    onClone: () => void
+    onOpenInSqlWorkbench: () => void
+}) {
+    const isAvailable = pdb.lifecycleState === "AVAILABLE"
+    const isOpen = isAvailable && pdb.openMode === "READ_WRITE"
+    const isClosed = isAvailable && pdb.openMode === "MOUNTED"
+    return (
+        <div
+            ref={onRegisterRef}
+            className={clsx(
+                "flex flex-col rounded-[2px] transition-all duration-500",
+                highlighted && "bg-[color-mix(in_srgb,var(--vscode-focusBorder)_12%,transparent)] ring-1 ring-[color-mix(in_srgb,var(--vscode-focusBorder)_55%,transparent)]",
+            )}
+        >
+            <div className="flex min-w-0 items-center gap-2">
+                <span className="truncate text-[12px] text-[var(--vscode-foreground)]">{pdb.name}</span>
+                <LifecycleBadge state={isAvailable && pdb.openMode ? pdb.openMode : pdb.lifecycleState} size="compact" />
+                <WorkbenchCompactActionCluster className="ml-auto shrink-0">
+                    <WorkbenchActionButton
+                        variant="ghost"
+                        tone="navigation"
+                        disabled={!isOpen || !pdb.connectionString}
+                        onClick={onOpenInSqlWorkbench}
+                        title={isOpen ? `Connect in SQL Workbench with ${pdb.connectionString ?? "its connect string"}` : "PDB must be open read-write"}
+                    >
+                        <SquareTerminal size={12} />
+                        SQL Workbench
+                    </WorkbenchActionButton>
+                    {isClosed ? (
+                        <WorkbenchGuardrailActionButton
+                            variant="ghost"
+                            disabled={locked}
+                            guardrail={createStartResourceGuardrail({ resourceKind: "pluggable-database", details: guardrailDetails, onConfirm: onStart })}
+                            onRequestGuardrail={onRequestGuardrail}
+                            busy={busy}
+                            idleIcon={<PlayCircle size={12} />}
+                            label="Start"
+                            title="Open the PDB read-write"
+                        />
+                    ) : (
+                        <WorkbenchGuardrailActionButton
+                            variant="ghost"
+                            tone="danger"
+                            disabled={locked || !isOpen}
+                            guardrail={createStopResourceGuardrail({ resourceKind: "pluggable-database", details: guardrailDetails, onConfirm: onStop })}
+                            onRequestGuardrail={onRequestGuardrail}
+                            busy={busy}
+                            idleIcon={<StopCircle size={12} />}
+                            label="Stop"
+                            title={isOpen ? "Close the PDB on every node" : "PDB must be open read-write"}
+                        />
+                    )}
+                    <WorkbenchActionButton
+                        variant="ghost"
+                        disabled={locked || !isOpen}
+                        onClick={onClone}
+                        title={isOpen ? "Clone this PDB into the same container database" : "PDB must be open read-write"}
+                    >
+                        <Copy size={12} />
+                        Clone
+                    </WorkbenchActionButton>
+                    <WorkbenchGuardrailActionButton
+                        variant="ghost"
+                        tone="danger"
+                        disabled={locked || !isAvailable}
+                        guardrail={createDeleteResourceGuardrail({ resourceKind: "pluggable-database", details: guardrailDetails, onConfirm: onDelete })}
+                        onRequestGuardrail={onRequestGuardrail}
+                        idleIcon={<Trash2 size={12} />}
+                        label="Delete"
+                        title={isAvailable ? "Delete this PDB and its data" : "PDB must be AVAILABLE"}
+                    />
+                </WorkbenchCompactActionCluster>
+            </div>
+            {(pdb.serviceName || pdb.lifecycleDetails) && (
+                <div className="mt-0.5 flex flex-wrap gap-x-3 text-[11px] text-description">
+                    {pdb.serviceName && <span className="break-all">{pdb.serviceName}</span>}
+                    {pdb.lifecycleDetails && <span>{pdb.lifecycleDetails}</span>}
+                </div>
+            )}
+        </div>
+    )
+}
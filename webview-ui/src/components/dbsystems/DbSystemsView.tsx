@@ -19,18 +19,24 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { useExtensionState } from "../../context/ExtensionStateContext"
 import { toneFromLifecycleState, useWorkbenchInsight } from "../../context/WorkbenchInsightContext"
 import { useScrollFlashTarget } from "../../hooks/useScrollFlashTarget"
-import { ResourceServiceClient } from "../../services/grpc-client"
+import { ResourceServiceClient, WorkRequestServiceClient } from "../../services/grpc-client"
 import type {
     DbSystemResource,
     ConnectDbSystemResponse,
     ExecuteAdbSqlResponse,
     LoadDbSystemConnectionResponse,
     OracleDbDiagnosticsResponse,
+    PluggableDatabaseResource,
+    RegionListingError,
+    TrackedWorkRequest,
 } from "../../services/types"
 import { DEFAULT_SSH_USERNAME, loadSshConfig, saveSshConfig, type SshConfig } from "../../sshConfig"
 import GuardrailDialog from "../common/GuardrailDialog"
 import OracleDiagnosticsPanel from "../common/OracleDiagnosticsPanel"
+import RegionErrorsNotice from "../common/RegionErrorsNotice"
+import ResourceMetricsPanel from "../common/ResourceMetricsPanel"
 import CompartmentSelector from "../ui/CompartmentSelector"
+import RegionSelector, { useFeatureRegionsReload } from "../ui/RegionSelector"
 import Input from "../ui/Input"
 import InlineNotice from "../ui/InlineNotice"
 import StatusBadge, { LifecycleBadge } from "../ui/StatusBadge"
@@ -75,6 +81,7 @@ import { backToLabel, openViewLabel, openWorkspaceLabel, showInListLabel } from
 import WorkbenchQueryResult from "../workbench/WorkbenchQueryResult"
 import { WorkbenchRefreshButton, WorkbenchToolbarGroup, WorkbenchToolbarSpacer } from "../workbench/WorkbenchToolbar"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/Tabs"
+import DbSystemDatabasesPanel from "./DbSystemDatabasesPanel"
 
 type ActionState = { id: string; action: "starting" | "stopping" } | null
 type RecentActionState = {
@@ -98,6 +105,7 @@ export default function DbSystemsView() {
     const [selectedDbId, setSelectedDbId] = useState("")
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
+    const [regionErrors, setRegionErrors] = useState<RegionListingError[]>([])
     const [actionState, setActionState] = useState<ActionState>(null)
     const [connectingId, setConnectingId] = useState<string | null>(null)
     const [query, setQuery] = useState("")
@@ -125,6 +133,7 @@ export default function DbSystemsView() {
     const [sshKeyOverrides, setSshKeyOverrides] = useState<Record<string, string>>({})
     const [sshSelectedIp, setSshSelectedIp] = useState<Record<string, string>>({})
     const [guardrail, setGuardrail] = useState<WorkbenchGuardrailState>(null)
+    const [operations, setOperations] = useState<TrackedWorkRequest[]>([])
     const [recentAction, setRecentAction] = useState<RecentActionState>(null)
     const [highlightedDbSystemId, setHighlightedDbSystemId] = useState<string | null>(null)
     const [showDbSystemWorkspace, setShowDbSystemWorkspace] = useState(false)
@@ -243,6 +252,33 @@ export default function DbSystemsView() {
         return () => setResource(null)
     }, [connectionId, connectionStrings.length, connectionTarget, navigateToView, query, selectedDatabase, serviceName, setPendingSelection, setResource, showDbSystemWorkspace])
 
+    // PDB creates, clones, starts, stops and deletes are followed by the extension host, so they survive switching views.
+    useEffect(() => {
+        const unsubscribe = WorkRequestServiceClient.subscribeToOperations({
+            onResponse: (data) => {
+                if (data?.operations) {
+                    setOperations(data.operations.filter((operation) => operation.feature === "dbSystem"))
+                }
+            },
+            onError: () => {},
+            onComplete: () => {},
+        })
+        return unsubscribe
+    }, [])
+
+    const openPluggableDatabaseInSqlWorkbench = useCallback((pdb: PluggableDatabaseResource) => {
+        if (!selectedDatabase) {
+            return
+        }
+        setPendingSelection({
+            view: "sqlWorkbench",
+            targetId: selectedDatabase.id,
+            targetType: "dbSystem",
+            serviceName: pdb.connectionString,
+        })
+        navigateToView("sqlWorkbench")
+    }, [navigateToView, selectedDatabase, setPendingSelection])
+
     useEffect(() => {
         if (pendingSelection?.view !== "dbSystems") {
             return
@@ -258,13 +294,14 @@ export default function DbSystemsView() {
         }
     }, [selectedDatabase])
 
-    const load = useCallback(async () => {
+    const load = useCallback(async (refresh = false) => {
         setLoading(true)
         setError(null)
         try {
-            const res = await ResourceServiceClient.listDbSystems()
+            const res = await ResourceServiceClient.listDbSystems(refresh)
             const items = res.dbSystems ?? []
             setDbSystems(items)
+            setRegionErrors(res.regionErrors ?? [])
             if (!selectedDbId && items.length > 0) {
                 setSelectedDbId(items[0].id)
             }
@@ -278,9 +315,7 @@ export default function DbSystemsView() {
         }
     }, [selectedDbId, selectedCompartmentIds])
 
-    useEffect(() => {
-        load()
-    }, [load])
+    useFeatureRegionsReload("dbSystem", load)
 
     useEffect(() => {
         if (actionTimerRef.current !== null) {
@@ -344,7 +379,7 @@ export default function DbSystemsView() {
     )
     useEffect(() => {
         if (!isPolling) return
-        const timer = setInterval(load, POLL_INTERVAL_MS)
+        const timer = setInterval(() => void load(), POLL_INTERVAL_MS)
         return () => clearInterval(timer)
     }, [isPolling, load])
 
@@ -710,7 +745,7 @@ export default function DbSystemsView() {
             status={isPolling ? <StatusBadge label="Auto-refreshing" tone="warning" size="compact" className="animate-pulse" /> : undefined}
             actions={(
                 <WorkbenchRefreshButton
-                    onClick={load}
+                    onClick={() => void load(true)}
                     disabled={loading}
                     spinning={loading}
                     title={isPolling ? "Auto-refreshing every 5s" : "Refresh"}
@@ -719,6 +754,7 @@ export default function DbSystemsView() {
             controls={(
                 <div className="flex flex-col gap-1.5">
                     <CompartmentSelector featureKey="dbSystem" multiple />
+                    <RegionSelector featureKey="dbSystem" />
                     {dbSystems.length > 0 && (
                         <FeatureSearchInput
                             value={query}
@@ -730,6 +766,7 @@ export default function DbSystemsView() {
             )}
         >
             <div className="flex h-full min-h-0 flex-col px-2 py-2">
+                <RegionErrorsNotice errors={regionErrors} className="mb-2" />
                 {error && (
                     <div
                         ref={errorFocus.targetRef}
@@ -810,7 +847,9 @@ export default function DbSystemsView() {
                                             <TabsList>
                                                 <TabsTrigger value="overview">Overview</TabsTrigger>
                                                 <TabsTrigger value="connection">Connection</TabsTrigger>
+                                                <TabsTrigger value="databases">Databases</TabsTrigger>
                                                 <TabsTrigger value="query">Query</TabsTrigger>
+                                                <TabsTrigger value="metrics">Metrics</TabsTrigger>
                                             </TabsList>
                                             <TabsContent value="overview" className="flex-1 overflow-auto pt-1.5">
                                                 <div
@@ -983,6 +1022,16 @@ export default function DbSystemsView() {
                                                     </div>
                                                 </WorkbenchSection>
                                             </TabsContent>
+                                            <TabsContent value="databases" className="flex-1 overflow-auto pt-1.5">
+                                                <WorkbenchSection title="Databases" subtitle="DB homes, container databases and pluggable databases of this DB System.">
+                                                    <DbSystemDatabasesPanel
+                                                        dbSystem={selectedDatabase}
+                                                        operations={operations}
+                                                        onRequestGuardrail={setGuardrail}
+                                                        onOpenInSqlWorkbench={openPluggableDatabaseInSqlWorkbench}
+                                                    />
+                                                </WorkbenchSection>
+                                            </TabsContent>
                                             <TabsContent value="query" className="flex-1 overflow-auto pt-1.5">
                                                 <WorkbenchSection
                                                     title="SQL Runner"
@@ -1017,6 +1066,16 @@ export default function DbSystemsView() {
                                                     )}
                                                 </WorkbenchSection>
                                             </TabsContent>
+                                            <TabsContent value="metrics" className="flex-1 overflow-auto pt-1.5">
+                                                <WorkbenchSection title="Metrics" subtitle="CPU, memory, filesystem and ASM disk group usage from the oci_database_cluster namespace.">
+                                                    <ResourceMetricsPanel
+                                                        resourceKind="dbSystem"
+                                                        resourceId={selectedDatabase.id}
+                                                        compartmentId={selectedDatabase.compartmentId}
+                                                        region={selectedDatabase.region}
+                                                    />
+                                                </WorkbenchSection>
+                                            </TabsContent>
                                         </Tabs>
                                     </div>
                                 </div>
@@ -1169,6 +1228,7 @@ function DatabaseCard({
             cardRef={onRegisterRef}
             title={dbSystem.name}
             subtitle={dbSystem.id}
+            region={dbSystem.region}
             selected={selected}
             highlighted={highlighted}
             onSelect={() => onSelect(dbSystem.id)}
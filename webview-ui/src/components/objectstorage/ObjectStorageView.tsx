@@ -20,9 +20,12 @@ import type {
   CreateObjectStorageParResponse,
   ObjectStorageBucketResource,
   ObjectStorageObjectResource,
+  RegionListingError,
 } from "../../services/types"
 import GuardrailDialog from "../common/GuardrailDialog"
+import RegionErrorsNotice from "../common/RegionErrorsNotice"
 import CompartmentSelector from "../ui/CompartmentSelector"
+import RegionSelector, { useFeatureRegionsReload } from "../ui/RegionSelector"
 import InlineNotice from "../ui/InlineNotice"
 import StatusBadge from "../ui/StatusBadge"
 import {
@@ -90,6 +93,7 @@ export default function ObjectStorageView() {
   const [recentlyUploadedObjectName, setRecentlyUploadedObjectName] = useState<string | null>(null)
   const [recentAction, setRecentAction] = useState<RecentActionState>(null)
   const [error, setError] = useState<string | null>(null)
+  const [regionErrors, setRegionErrors] = useState<RegionListingError[]>([])
   const [query, setQuery] = useState("")
   const [busy, setBusy] = useState(false)
   const [guardrail, setGuardrail] = useState<WorkbenchGuardrailState>(null)
@@ -299,13 +303,14 @@ export default function ObjectStorageView() {
     [objectStorageCompartmentIds],
   )
 
-  const loadBuckets = useCallback(async ({ silent = false }: { silent?: boolean } = {}) => {
+  const loadBuckets = useCallback(async ({ silent = false, refresh = false }: { silent?: boolean; refresh?: boolean } = {}) => {
     if (!silent) {
       setLoadingBuckets(true)
     }
     setError(null)
     if (selectedCompartmentIds.length === 0) {
       setBuckets([])
+      setRegionErrors([])
       setSelectedBucket(null)
       setBucketStatOverrides({})
       if (!silent) {
@@ -314,12 +319,13 @@ export default function ObjectStorageView() {
       return
     }
     try {
-      const response = await ResourceServiceClient.listObjectStorageBuckets()
+      const response = await ResourceServiceClient.listObjectStorageBuckets(refresh)
       const freshItems = (response.buckets ?? []).filter((bucket) =>
         selectedCompartmentIds.includes((bucket.compartmentId || "").trim()),
       )
       const items = freshItems.map((bucket) => applyBucketStatOverride(bucket, bucketStatOverridesRef.current))
       setBuckets(items)
+      setRegionErrors(response.regionErrors ?? [])
       setSelectedBucket((current) => {
         if (!current) {
           return items[0] ?? null
@@ -368,9 +374,7 @@ export default function ObjectStorageView() {
     }
   }, [prefix, selectedBucket])
 
-  useEffect(() => {
-    void loadBuckets()
-  }, [loadBuckets])
+  useFeatureRegionsReload("objectStorage", loadBuckets)
 
   useEffect(() => {
     setPrefix("")
@@ -661,7 +665,7 @@ export default function ObjectStorageView() {
       icon={<PackageOpen size={16} />}
       actions={(
         <WorkbenchRefreshButton
-          onClick={() => void loadBuckets()}
+          onClick={() => void loadBuckets({ refresh: true })}
           disabled={loadingBuckets || loadingObjects}
           spinning={loadingBuckets || loadingObjects}
           title="Refresh"
@@ -670,6 +674,7 @@ export default function ObjectStorageView() {
       controls={(
         <div className="flex flex-col gap-1.5">
           <CompartmentSelector featureKey="objectStorage" multiple />
+          <RegionSelector featureKey="objectStorage" />
           {showBucketWorkspace && selectedBucket && (
             <>
               <FeatureSearchInput
@@ -683,6 +688,7 @@ export default function ObjectStorageView() {
       )}
     >
       <div className="flex h-full min-h-0 flex-col px-2 py-2">
+        <RegionErrorsNotice errors={regionErrors} className="mb-2" />
         {error && <InlineError message={error} />}
         {loadingBuckets ? (
           <WorkbenchLoadingState label="Loading buckets..." />
@@ -1019,6 +1025,7 @@ function BucketList({
                     key={`${bucket.region}-${bucket.namespaceName}-${bucket.name}`}
                     title={bucket.name}
                     subtitle={bucket.namespaceName}
+                    region={bucket.region}
                     details={[
                       bucket.storageTier || "Standard",
                       formatCount(bucket.approximateCount),
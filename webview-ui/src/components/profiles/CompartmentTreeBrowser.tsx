@@ -0,0 +1,174 @@
+import { clsx } from "clsx"
+import { Check, ChevronDown, ChevronRight, FolderTree, LoaderCircle, Plus, RefreshCw, Search } from "lucide-react"
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react"
+import { StateServiceClient } from "../../services/grpc-client"
+import type { CompartmentResource, CompartmentTreeResponse } from "../../services/types"
+import Card from "../ui/Card"
+import InlineNotice from "../ui/InlineNotice"
+import { WorkbenchActionButton } from "../workbench/WorkbenchActionButtons"
+
+interface CompartmentTreeBrowserProps {
+    profileName: string
+    activeProfile: string
+    mappedIds: Set<string>
+    onToggle: (compartment: { id: string; name: string }, mapped: boolean) => void
+}
+
+export default function CompartmentTreeBrowser({ profileName, activeProfile, mappedIds, onToggle }: CompartmentTreeBrowserProps) {
+    const [tree, setTree] = useState<CompartmentTreeResponse | null>(null)
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState("")
+    const [query, setQuery] = useState("")
+    const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+    const isActiveProfile = profileName === activeProfile
+
+    const loadTree = useCallback(async (refresh: boolean) => {
+        setLoading(true)
+        setError("")
+        try {
+            const result = await StateServiceClient.getCompartmentTree({ refresh })
+            setTree(result)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err))
+        } finally {
+            setLoading(false)
+        }
+    }, [])
+
+    useEffect(() => {
+        setTree(null)
+        setError("")
+        if (isActiveProfile) {
+            void loadTree(false)
+        }
+    }, [isActiveProfile, loadTree, profileName])
+
+    const childrenByParent = useMemo(() => {
+        const map = new Map<string, CompartmentResource[]>()
+        for (const compartment of tree?.compartments ?? []) {
+            const siblings = map.get(compartment.parentId) ?? []
+            siblings.push(compartment)
+            map.set(compartment.parentId, siblings)
+        }
+        return map
+    }, [tree])
+
+    // While searching, keep every match plus its ancestors so results still read as a tree.
+    const visibleIds = useMemo(() => {
+        const normalized = query.trim().toLowerCase()
+        if (!normalized || !tree) return null
+        const byId = new Map(tree.compartments.map(c => [c.id, c]))
+        const visible = new Set<string>()
+        for (const compartment of tree.compartments) {
+            const haystack = `${compartment.path} ${compartment.id} ${compartment.description ?? ""}`.toLowerCase()
+            if (!haystack.includes(normalized)) continue
+            let current: CompartmentResource | undefined = compartment
+            while (current && !visible.has(current.id)) {
+                visible.add(current.id)
+                current = byId.get(current.parentId)
+            }
+        }
+        return visible
+    }, [query, tree])
+
+    const toggleExpanded = (id: string) => {
+        setExpanded(prev => {
+            const next = new Set(prev)
+            if (next.has(id)) next.delete(id)
+            else next.add(id)
+            return next
+        })
+    }
+
+    const renderNodes = (parentId: string, depth: number): ReactNode[] => {
+        const nodes = (childrenByParent.get(parentId) ?? []).filter(c => !visibleIds || visibleIds.has(c.id))
+        return nodes.flatMap(compartment => {
+            const hasChildren = (childrenByParent.get(compartment.id)?.length ?? 0) > 0
+            const isExpanded = visibleIds !== null || expanded.has(compartment.id)
+            const isMapped = mappedIds.has(compartment.id)
+            const row = (
+                <div
+                    key={compartment.id}
+                    className="flex items-center justify-between gap-2 rounded px-1 py-0.5 hover:bg-list-background-hover"
+                    style={{ paddingLeft: `${depth * 14 + 4}px` }}
+                >
+                    <button
+                        type="button"
+                        onClick={() => hasChildren && toggleExpanded(compartment.id)}
+                        className={clsx("flex min-w-0 items-center gap-1 text-left", !hasChildren && "cursor-default")}
+                        title={compartment.id}
+                    >
+                        {hasChildren
+                            ? (isExpanded ? <ChevronDown size={12} className="shrink-0" /> : <ChevronRight size={12} className="shrink-0" />)
+                            : <span className="inline-block w-3 shrink-0" />}
+                        <span className="truncate text-xs">{compartment.name}</span>
+                        {compartment.description && (
+                            <span className="truncate text-[10px] text-description">{compartment.description}</span>
+                        )}
+                    </button>
+                    <WorkbenchActionButton
+                        variant={isMapped ? "secondary" : "ghost"}
+                        onClick={() => onToggle({ id: compartment.id, name: compartment.path }, isMapped)}
+                        className="shrink-0 px-2"
+                        title={isMapped ? `Remove "${compartment.path}" from ${profileName}` : `Add "${compartment.path}" to ${profileName}`}
+                    >
+                        {isMapped ? <Check size={12} /> : <Plus size={12} />}
+                        {isMapped ? "Mapped" : "Add"}
+                    </WorkbenchActionButton>
+                </div>
+            )
+            return hasChildren && isExpanded ? [row, ...renderNodes(compartment.id, depth + 1)] : [row]
+        })
+    }
+
+    const nodes = tree ? renderNodes(tree.tenancyOcid, 0) : []
+
+    return (
+        <Card title="Browse Tenancy Compartments">
+            <div className="flex flex-col gap-2">
+                {!isActiveProfile ? (
+                    <p className="text-[11px] text-description">
+                        Live browsing lists compartments with the active profile's credentials. Switch the active profile to "{profileName}" to browse its tenancy.
+                    </p>
+                ) : (
+                    <>
+                        <div className="flex items-center gap-2">
+                            <div className="relative flex-1">
+                                <Search size={12} className="pointer-events-none absolute left-2 top-1/2 -translate-y-1/2 text-description" />
+                                <input
+                                    placeholder="Search by name, path or OCID"
+                                    value={query}
+                                    onChange={e => setQuery(e.target.value)}
+                                    className="w-full rounded-md border border-input-border bg-input-background py-1.5 pl-7 pr-2 text-xs outline-none focus:border-border"
+                                />
+                            </div>
+                            <WorkbenchActionButton variant="secondary" onClick={() => void loadTree(true)} disabled={loading} title="List compartments again">
+                                {loading ? <LoaderCircle size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+                            </WorkbenchActionButton>
+                        </div>
+                        {error && <InlineNotice tone="danger" title="Failed to list compartments">{error}</InlineNotice>}
+                        {tree && (
+                            <p className="inline-flex items-center gap-1 text-[10px] text-description">
+                                <FolderTree size={10} />
+                                {tree.compartments.length} compartments · listed {new Date(tree.fetchedAt).toLocaleString()}
+                            </p>
+                        )}
+                        <div className="flex max-h-72 flex-col overflow-y-auto">
+                            {loading && !tree ? (
+                                <span className="inline-flex items-center gap-1 px-1 py-2 text-xs text-description">
+                                    <LoaderCircle size={12} className="animate-spin" />
+                                    Listing compartments...
+                                </span>
+                            ) : tree && nodes.length === 0 ? (
+                                <span className="px-1 py-2 text-xs text-description">
+                                    {visibleIds ? "No compartments match the search." : "No accessible compartments in this tenancy."}
+                                </span>
+                            ) : nodes}
+                        </div>
+                    </>
+                )}
+            </div>
+        </Card>
+    )
+}
@@ -6,6 +6,7 @@ import type { SettingsState, SavedCompartment } from "../../services/types"
 import { runtimeSettingDefaults } from "../../generated/runtimeSettings"
 import GuardrailDialog from "../common/GuardrailDialog"
 import Card from "../ui/Card"
+import CompartmentTreeBrowser from "./CompartmentTreeBrowser"
 import {
     WorkbenchActionButton,
     WorkbenchCompactActionCluster,
@@ -46,6 +47,7 @@ const EMPTY_SETTINGS: SettingsState = {
     mcpFetchAutoPaginationMaxHops: runtimeSettingDefaults.mcpFetchAutoPaginationMaxHops,
     mcpFetchAutoPaginationMaxTotalChars: runtimeSettingDefaults.mcpFetchAutoPaginationMaxTotalChars,
     authMode: "api-key",
+    activeAuthMode: "api-key",
     savedCompartments: [],
     vcnCompartmentIds: [],
     profilesConfig: [],
@@ -237,6 +239,16 @@ function ProfileConfigEditor({
         setNewCompName("")
     }
 
+    const toggleBrowsedCompartment = (profileName: string, compartment: SavedCompartment, mapped: boolean) => {
+        if (mapped) {
+            removeCompartment(profileName, compartment.id)
+            return
+        }
+        updateField("profilesConfig", profiles.map(p => p.name === profileName && !p.compartments.some(c => c.id === compartment.id)
+            ? { ...p, compartments: [...p.compartments, compartment] }
+            : p))
+    }
+
     const removeCompartment = (profileName: string, compId: string) => {
         const updated = profiles.map(p => {
             if (p.name === profileName) {
@@ -365,6 +377,15 @@ function ProfileConfigEditor({
                 )
             })()}
 
+            {effectiveSelectedProfile && (
+                <CompartmentTreeBrowser
+                    profileName={effectiveSelectedProfile}
+                    activeProfile={settings.activeProfile.trim() || "DEFAULT"}
+                    mappedIds={new Set(profiles.find(p => p.name === effectiveSelectedProfile)?.compartments.map(c => c.id) ?? [])}
+                    onToggle={(compartment, mapped) => toggleBrowsedCompartment(effectiveSelectedProfile, compartment, mapped)}
+                />
+            )}
+
             {!effectiveSelectedProfile && profiles.length === 0 && (
                 <div className="text-xs text-description px-2 py-2">No profiles available. Add a profile in the Profiles tab.</div>
             )}
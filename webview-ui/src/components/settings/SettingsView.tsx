@@ -1,8 +1,8 @@
 import { clsx } from "clsx"
-import { Bot, ChevronDown, Info, Loader2, LoaderCircle, Plug, Plus, Save, Server, Settings2, Terminal, Trash2, Users, Wand2 } from "lucide-react"
+import { Bot, ChevronDown, Download, FileInput, Info, KeyRound, Loader2, LoaderCircle, Plug, Plus, RefreshCw, Save, Server, Settings2, Terminal, Trash2, Upload, Users, Wand2 } from "lucide-react"
 import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from "react"
 import { AgentServiceClient, StateServiceClient } from "../../services/grpc-client"
-import type { AgentSettings, SettingsState } from "../../services/types"
+import type { AgentSettings, OciAuthMode, SettingsState } from "../../services/types"
 import { runtimeSettingDefaults, runtimeSettingSpecs, runtimeSettingsUiSchema, type RuntimeSettingKey } from "../../generated/runtimeSettings"
 import GuardrailDialog from "../common/GuardrailDialog"
 import ProfilesCompartmentsView from "../profiles/ProfilesCompartmentsView"
@@ -10,6 +10,7 @@ import { DEFAULT_SSH_USERNAME, clampPort, loadSshConfig, saveSshConfig, type Hos
 import Card from "../ui/Card"
 import Input from "../ui/Input"
 import InlineNotice from "../ui/InlineNotice"
+import Select from "../ui/Select"
 import StatusBadge from "../ui/StatusBadge"
 import Toggle from "../ui/Toggle"
 import {
@@ -21,7 +22,9 @@ import {
 import { WorkbenchLoadingState } from "../workbench/DatabaseWorkbenchChrome"
 import {
   buildWorkbenchResourceGuardrailDetails,
+  createCreateLinkResourceGuardrail,
   createDeleteResourceGuardrail,
+  createRotateResourceGuardrail,
   type WorkbenchGuardrailState,
 } from "../workbench/guardrail"
 import McpServersTab from "./McpServersTab"
@@ -72,6 +75,7 @@ type ApiConfigSchemaValues = Pick<
   "region" | "tenancyOcid" | "userOcid" | "fingerprint" | "privateKey" | "privateKeyPassphrase"
 > & {
   uploadKeyFile: string
+  sessionToken: string
 }
 type ApiConfigFieldKey =
   | "region"
@@ -81,6 +85,7 @@ type ApiConfigFieldKey =
   | "uploadKeyFile"
   | "privateKey"
   | "privateKeyPassphrase"
+  | "sessionToken"
 type ApiConfigUpdateFieldFn = SettingsSchemaFieldUpdater<ApiConfigSchemaValues, ApiConfigFieldKey>
 
 const GENAI_TEXT_FIELD_SPECS = {
@@ -175,6 +180,14 @@ const API_CONFIG_FIELD_SPECS = {
     uiInputType: "password",
     uiLabel: "Private Key Passphrase",
   },
+  sessionToken: {
+    kind: "textarea",
+    defaultValue: "",
+    uiLabel: "Session Token",
+    uiPlaceholder: "eyJraWQiOi...",
+    uiHelpText: "Contents of the security_token_file written by \"oci session authenticate\". Pair it with the session's ephemeral private key below.",
+    textareaRows: 4,
+  },
 } satisfies Record<ApiConfigFieldKey, SettingsSchemaFieldSpec>
 
 const API_CONFIG_FIELDS = [
@@ -187,6 +200,38 @@ const API_CONFIG_FIELDS = [
   "privateKeyPassphrase",
 ] satisfies ReadonlyArray<ApiConfigFieldKey>
 
+const SESSION_TOKEN_CONFIG_FIELDS = [
+  "region",
+  "tenancyOcid",
+  "sessionToken",
+  "uploadKeyFile",
+  "privateKey",
+  "privateKeyPassphrase",
+] satisfies ReadonlyArray<ApiConfigFieldKey>
+
+const PRINCIPAL_CONFIG_FIELDS = [
+  "region",
+  "tenancyOcid",
+] satisfies ReadonlyArray<ApiConfigFieldKey>
+
+const AUTH_MODE_OPTIONS: Array<{ value: OciAuthMode; label: string; description: string }> = [
+  { value: "api-key", label: "API Key", description: "long-lived user API key" },
+  { value: "security-token", label: "Session Token", description: "oci session authenticate" },
+  { value: "instance-principal", label: "Instance Principal", description: "VS Code runs on an OCI instance" },
+  { value: "resource-principal", label: "Resource Principal", description: "OCI_RESOURCE_PRINCIPAL_* environment" },
+]
+
+const AUTH_MODE_LABELS: Record<OciAuthMode, string> = {
+  "api-key": "API Key Auth",
+  "security-token": "Session Token Auth",
+  "instance-principal": "Instance Principal Auth",
+  "resource-principal": "Resource Principal Auth",
+}
+
+function isPrincipalAuthMode(mode: OciAuthMode): boolean {
+  return mode === "instance-principal" || mode === "resource-principal"
+}
+
 export const SETTINGS_TABS: Array<{ id: SettingsTab; label: string; description: string; icon: React.ReactNode }> = [
   { id: "api-config", label: "Profiles", description: "Manage OCI profiles and API key credentials.", icon: <Settings2 size={16} /> },
   { id: "profiles", label: "Compartments", description: "Map feature scopes and saved OCI compartments.", icon: <Users size={16} /> },
@@ -219,6 +264,7 @@ const EMPTY_SETTINGS: SettingsState = {
   fingerprint: "",
   privateKey: "",
   privateKeyPassphrase: "",
+  sessionToken: "",
   systemPrompt: "",
 
 
@@ -230,14 +276,23 @@ const EMPTY_SETTINGS: SettingsState = {
   mcpFetchAutoPaginationMaxTotalChars: runtimeSettingDefaults.mcpFetchAutoPaginationMaxTotalChars,
 
   authMode: "api-key",
+  activeAuthMode: "api-key",
   savedCompartments: [],
   profilesConfig: [],
   extensionVersion: "",
   extensionDescription: "",
 }
 
-function getMissingApiKeyFields(s: Pick<SettingsState, "tenancyOcid" | "userOcid" | "fingerprint" | "privateKey">): string[] {
+function getMissingApiKeyFields(s: Pick<SettingsState, "tenancyOcid" | "userOcid" | "fingerprint" | "privateKey" | "authMode" | "sessionToken">): string[] {
   const missing: string[] = []
+  if (isPrincipalAuthMode(s.authMode)) {
+    return missing
+  }
+  if (s.authMode === "security-token") {
+    if (!(s.sessionToken ?? "").trim()) missing.push("Session Token")
+    if (!s.privateKey.trim()) missing.push("Private Key")
+    return missing
+  }
   if (!s.tenancyOcid.trim()) missing.push("Tenancy OCID")
   if (!s.userOcid.trim()) missing.push("User OCID")
   if (!s.fingerprint.trim()) missing.push("Fingerprint")
@@ -291,6 +346,9 @@ export default function SettingsView({ activeTab: controlledActiveTab, onDone, s
         privateKey: secrets.privateKey,
         privateKeyPassphrase: secrets.privateKeyPassphrase,
         authMode: secrets.authMode,
+        sessionToken: secrets.sessionToken,
+        sessionTokenExpiresAt: secrets.sessionTokenExpiresAt,
+        configFileSource: secrets.configFileSource,
       }
     } catch (error) {
       console.error("Failed to load profile secrets:", error)
@@ -507,7 +565,7 @@ function validateSettings(s: SettingsState, editingProfile: string): string[] {
   }
   const missingApiKeyFields = getMissingApiKeyFields(s)
   if (missingApiKeyFields.length > 0) {
-    errors.push(`Missing API key fields: ${missingApiKeyFields.join(", ")}`)
+    errors.push(`Missing ${s.authMode === "security-token" ? "session token" : "API key"} fields: ${missingApiKeyFields.join(", ")}`)
   }
   return errors
 }
@@ -541,6 +599,12 @@ function ApiConfigTab({
   const [newProfileName, setNewProfileName] = useState("")
   const [addingProfile, setAddingProfile] = useState(false)
   const [deletingProfile, setDeletingProfile] = useState<string | null>(null)
+  const [importingConfig, setImportingConfig] = useState(false)
+  const [bundleTransfer, setBundleTransfer] = useState<"export" | "import" | null>(null)
+  const [refreshingToken, setRefreshingToken] = useState(false)
+  const [tokenRefreshError, setTokenRefreshError] = useState("")
+  const [keyAction, setKeyAction] = useState<"generate" | "rotate" | null>(null)
+  const [keyActionResult, setKeyActionResult] = useState<{ tone: "success" | "danger"; message: string } | null>(null)
   const profiles = settings.profilesConfig || []
   const runtimeProfile = settings.activeProfile.trim() || "DEFAULT"
   const effectiveSelectedProfile = editingProfile && profiles.some((profile) => profile.name === editingProfile)
@@ -561,6 +625,9 @@ function ApiConfigTab({
           privateKey: secrets.privateKey,
           privateKeyPassphrase: secrets.privateKeyPassphrase,
           authMode: secrets.authMode,
+          sessionToken: secrets.sessionToken,
+          sessionTokenExpiresAt: secrets.sessionTokenExpiresAt,
+          configFileSource: secrets.configFileSource,
         }))
       })
       .catch((err) => console.error("Failed to load profile secrets:", err))
@@ -616,6 +683,106 @@ function ApiConfigTab({
     }
   }
 
+  const importFromConfigFile = async () => {
+    setImportingConfig(true)
+    try {
+      await StateServiceClient.importOciConfigProfiles()
+    } catch (error) {
+      console.error("Failed to import OCI config profiles:", error)
+    } finally {
+      setImportingConfig(false)
+    }
+  }
+
+  const runBundleTransfer = async (direction: "export" | "import") => {
+    setBundleTransfer(direction)
+    try {
+      if (direction === "export") {
+        await StateServiceClient.exportProfileBundle()
+      } else {
+        await StateServiceClient.importProfileBundle()
+      }
+    } catch (error) {
+      console.error(`Failed to ${direction} profile bundle:`, error)
+    } finally {
+      setBundleTransfer(null)
+    }
+  }
+
+  const refreshSessionToken = async () => {
+    setRefreshingToken(true)
+    setTokenRefreshError("")
+    try {
+      await StateServiceClient.refreshSessionToken(effectiveSelectedProfile)
+      loadProfileSecrets(effectiveSelectedProfile)
+    } catch (error) {
+      setTokenRefreshError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setRefreshingToken(false)
+    }
+  }
+
+  const runKeyAction = async (action: "generate" | "rotate") => {
+    setKeyAction(action)
+    setKeyActionResult(null)
+    try {
+      const result = action === "generate"
+        ? await StateServiceClient.generateApiKey({ userOcid: settings.userOcid })
+        : await StateServiceClient.rotateApiKey()
+      setKeyActionResult({
+        tone: "success",
+        message: result.deletedFingerprint
+          ? `Now using ${result.fingerprint}. Deleted old key ${result.deletedFingerprint}.`
+          : `Now using ${result.fingerprint}.`,
+      })
+      loadProfileSecrets(effectiveSelectedProfile)
+    } catch (error) {
+      setKeyActionResult({ tone: "danger", message: error instanceof Error ? error.message : String(error) })
+    } finally {
+      setKeyAction(null)
+    }
+  }
+
+  const requestGenerateApiKey = () => {
+    onRequestGuardrail(createCreateLinkResourceGuardrail({
+      resourceKind: "api-signing-key",
+      details: buildWorkbenchResourceGuardrailDetails({
+        resourceLabel: "Profile",
+        resourceName: effectiveSelectedProfile,
+        extras: [
+          { label: "User", value: settings.userOcid.trim() || "(not set)" },
+          { label: "Key", value: "New RSA 2048 key pair" },
+          ...(settings.configFileSource
+            ? [{ label: "Config file", value: `Stops following ${settings.configFileSource.filePath} [${settings.configFileSource.sourceProfile}], which keeps the current key` }]
+            : []),
+        ],
+      }),
+      onConfirm: async () => {
+        void runKeyAction("generate")
+      },
+    }))
+  }
+
+  const requestRotateApiKey = () => {
+    onRequestGuardrail(createRotateResourceGuardrail({
+      resourceKind: "api-signing-key",
+      details: buildWorkbenchResourceGuardrailDetails({
+        resourceLabel: "Profile",
+        resourceName: effectiveSelectedProfile,
+        extras: [
+          { label: "User", value: settings.userOcid.trim() },
+          { label: "Current fingerprint", value: settings.fingerprint.trim() },
+          ...(settings.configFileSource
+            ? [{ label: "Config file", value: `${settings.configFileSource.filePath} [${settings.configFileSource.sourceProfile}] still uses the current key; the OCI CLI and SDKs reading it stop working` }]
+            : []),
+        ],
+      }),
+      onConfirm: async () => {
+        void runKeyAction("rotate")
+      },
+    }))
+  }
+
   const requestDeleteProfile = (name: string) => {
     const profile = profiles.find((item) => item.name === name)
     onRequestGuardrail(createDeleteResourceGuardrail({
@@ -640,7 +807,12 @@ function ApiConfigTab({
     uploadKeyFile: "",
     privateKey: settings.privateKey,
     privateKeyPassphrase: settings.privateKeyPassphrase,
+    sessionToken: settings.sessionToken ?? "",
   }
+  const isSessionTokenMode = settings.authMode === "security-token"
+  const isPrincipalMode = isPrincipalAuthMode(settings.authMode)
+  const sessionTokenExpiresAt = settings.sessionTokenExpiresAt ? new Date(settings.sessionTokenExpiresAt) : null
+  const sessionTokenExpired = sessionTokenExpiresAt !== null && sessionTokenExpiresAt.getTime() <= Date.now()
   const handleApiConfigKeyFileSelect = async (file: File | undefined) => {
     if (!file) {
       return
@@ -669,14 +841,26 @@ function ApiConfigTab({
 
       <div className="flex items-center justify-between gap-2">
         <h4 className="text-xs font-semibold uppercase tracking-wider text-description">OCI Access</h4>
-        <StatusBadge label="API Key Auth" tone="success" className="cursor-help" title="Using API Key from SecretStorage" />
+        {isSessionTokenMode ? (
+          <StatusBadge
+            label="Session Token Auth"
+            tone={sessionTokenExpired ? "danger" : "success"}
+            className="cursor-help"
+            title="Using a session token and ephemeral key from SecretStorage"
+          />
+        ) : isPrincipalMode ? (
+          <StatusBadge label={AUTH_MODE_LABELS[settings.authMode]} tone="success" className="cursor-help" title="Using OCI principal credentials; nothing is stored" />
+        ) : (
+          <StatusBadge label="API Key Auth" tone="success" className="cursor-help" title="Using API Key from SecretStorage" />
+        )}
       </div>
       <p className="-mt-1 text-xs text-description">
-        All OCI requests use API Key credentials from SecretStorage. The OCI config file is not used.
+        Key and token credentials are read from SecretStorage; principal modes use the OCI runtime identity instead. Profiles imported from the OCI config file are copied into SecretStorage.
       </p>
       <div className="rounded-[2px] border border-[var(--vscode-panel-border)] bg-[color-mix(in_srgb,var(--vscode-editor-background)_94%,black_6%)] px-3 py-2">
         <p className="text-[11px] text-description">
           Runtime auth profile: <span className="font-medium text-[var(--vscode-foreground)]">{runtimeProfile}</span>
+          {" "}({AUTH_MODE_LABELS[settings.activeAuthMode]})
         </p>
         <p className="mt-1 text-[11px] text-description">
           Profile editing scope on this page: <span className="font-medium text-[var(--vscode-foreground)]">{effectiveSelectedProfile}</span>
@@ -688,6 +872,14 @@ function ApiConfigTab({
         )}
       </div>
 
+      {settings.configFileSource && (settings.configFileSource.sourceMissing || settings.configFileSource.driftedFields.length > 0) && (
+        <InlineNotice tone="warning" title="Profile drifted from OCI config file">
+          {settings.configFileSource.sourceMissing
+            ? `Profile "${settings.configFileSource.sourceProfile}" can no longer be read from ${settings.configFileSource.filePath}.`
+            : `SecretStorage differs from ${settings.configFileSource.filePath} [${settings.configFileSource.sourceProfile}]: ${settings.configFileSource.driftedFields.join(", ")}. Import the profile again to sync.`}
+        </InlineNotice>
+      )}
+
       {/* Profile Management */}
       <Card title="Profile Editing Scope">
         <div className="flex flex-col gap-1">
@@ -744,14 +936,69 @@ function ApiConfigTab({
             {addingProfile ? "Adding..." : "Add"}
           </WorkbenchActionButton>
         </WorkbenchCompactActionCluster>
+        <WorkbenchCompactActionCluster className="mt-2">
+          <WorkbenchActionButton variant="secondary" onClick={() => void importFromConfigFile()} disabled={importingConfig}>
+            {importingConfig ? <Loader2 size={12} className="mr-1 animate-spin" /> : <FileInput size={12} className="mr-1" />}
+            {importingConfig ? "Importing..." : "Import from OCI Config File"}
+          </WorkbenchActionButton>
+          <WorkbenchActionButton variant="secondary" onClick={() => void runBundleTransfer("export")} disabled={bundleTransfer !== null}>
+            {bundleTransfer === "export" ? <Loader2 size={12} className="mr-1 animate-spin" /> : <Upload size={12} className="mr-1" />}
+            Export Bundle
+          </WorkbenchActionButton>
+          <WorkbenchActionButton variant="secondary" onClick={() => void runBundleTransfer("import")} disabled={bundleTransfer !== null}>
+            {bundleTransfer === "import" ? <Loader2 size={12} className="mr-1 animate-spin" /> : <Download size={12} className="mr-1" />}
+            Import Bundle
+          </WorkbenchActionButton>
+        </WorkbenchCompactActionCluster>
       </Card>
 
-      <Card title="API Key (SecretStorage)">
-        <p className="-mt-1 text-xs text-description">
-          Fill all four required fields below. Requests will fail until SecretStorage has a complete API key for this profile.
-        </p>
+      <Card title={isSessionTokenMode ? "Session Token (SecretStorage)" : isPrincipalMode ? "OCI Principal" : "API Key (SecretStorage)"}>
+        <Select
+          id="authMode"
+          label="Authentication Mode"
+          labelClassName="text-xs text-description font-medium"
+          value={settings.authMode}
+          options={AUTH_MODE_OPTIONS}
+          onChange={(e) => updateField("authMode", e.target.value as OciAuthMode)}
+        />
+        {isSessionTokenMode ? (
+          <>
+            <p className="text-xs text-description">
+              Requests are signed with the session token and its ephemeral private key. Tokens are short-lived; refresh before they lapse.
+            </p>
+            <WorkbenchCompactActionCluster>
+              <span className={clsx("flex-1 text-[11px]", sessionTokenExpired ? "text-error" : "text-description")}>
+                {sessionTokenExpiresAt
+                  ? `${sessionTokenExpired ? "Expired" : "Expires"} ${sessionTokenExpiresAt.toLocaleString()}`
+                  : "Token expiry unknown"}
+              </span>
+              <WorkbenchActionButton
+                variant="secondary"
+                onClick={() => void refreshSessionToken()}
+                disabled={refreshingToken || sessionTokenExpired || !(settings.sessionToken ?? "").trim()}
+              >
+                {refreshingToken ? <Loader2 size={12} className="mr-1 animate-spin" /> : <RefreshCw size={12} className="mr-1" />}
+                {refreshingToken ? "Refreshing..." : "Refresh Token"}
+              </WorkbenchActionButton>
+            </WorkbenchCompactActionCluster>
+            {tokenRefreshError && (
+              <InlineNotice tone="danger" title="Refresh failed">{tokenRefreshError}</InlineNotice>
+            )}
+          </>
+        ) : isPrincipalMode ? (
+          <p className="text-xs text-description">
+            {settings.authMode === "instance-principal"
+              ? "Requests are signed as the compute instance VS Code runs on (e.g. over Remote-SSH). The instance must belong to a dynamic group with matching policies."
+              : "Requests are signed with the resource principal supplied by the OCI runtime environment."}
+            {" "}Tenancy OCID is optional and only used as the default compartment.
+          </p>
+        ) : (
+          <p className="text-xs text-description">
+            Fill all four required fields below. Requests will fail until SecretStorage has a complete API key for this profile.
+          </p>
+        )}
         {renderSettingsSchemaFields<ApiConfigSchemaValues, ApiConfigFieldKey>(
-          API_CONFIG_FIELDS,
+          isSessionTokenMode ? SESSION_TOKEN_CONFIG_FIELDS : isPrincipalMode ? PRINCIPAL_CONFIG_FIELDS : API_CONFIG_FIELDS,
           API_CONFIG_FIELD_SPECS,
           apiConfigSchemaValues,
           updateField as ApiConfigUpdateFieldFn,
@@ -761,6 +1008,41 @@ function ApiConfigTab({
             },
           },
         )}
+        {!isPrincipalMode && (
+          <div className="flex flex-col gap-2 border-t border-border-panel pt-3">
+            <p className="text-xs text-description">
+              Generate a new key pair instead of pasting one. The public key is uploaded to the user through Identity using the runtime profile's current credentials, then stored here once it authenticates.
+            </p>
+            {runtimeProfile !== effectiveSelectedProfile && (
+              <p className="text-[11px] text-warning">Key generation and rotation apply to the runtime profile "{runtimeProfile}" only.</p>
+            )}
+            <WorkbenchCompactActionCluster>
+              <WorkbenchActionButton
+                variant="secondary"
+                onClick={requestGenerateApiKey}
+                disabled={keyAction !== null || runtimeProfile !== effectiveSelectedProfile || !settings.userOcid.trim()}
+              >
+                {keyAction === "generate" ? <Loader2 size={12} className="mr-1 animate-spin" /> : <KeyRound size={12} className="mr-1" />}
+                {keyAction === "generate" ? "Verifying..." : "Generate & Upload Key"}
+              </WorkbenchActionButton>
+              {settings.authMode === "api-key" && (
+                <WorkbenchActionButton
+                  variant="secondary"
+                  onClick={requestRotateApiKey}
+                  disabled={keyAction !== null || runtimeProfile !== effectiveSelectedProfile || getMissingApiKeyFields(settings).length > 0}
+                >
+                  {keyAction === "rotate" ? <Loader2 size={12} className="mr-1 animate-spin" /> : <RefreshCw size={12} className="mr-1" />}
+                  {keyAction === "rotate" ? "Rotating..." : "Rotate Key"}
+                </WorkbenchActionButton>
+              )}
+            </WorkbenchCompactActionCluster>
+            {keyActionResult && (
+              <InlineNotice tone={keyActionResult.tone} title={keyActionResult.tone === "success" ? "API key updated" : "API key update failed"}>
+                {keyActionResult.message}
+              </InlineNotice>
+            )}
+          </div>
+        )}
       </Card>
 
       <WorkbenchInlineActionCluster>
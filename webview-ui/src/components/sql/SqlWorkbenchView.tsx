@@ -1,4 +1,5 @@
 import {
+  AlertCircle,
   Database,
   Download,
   Loader2,
@@ -14,7 +15,9 @@ import { useExtensionState } from "../../context/ExtensionStateContext"
 import { toneFromLifecycleState, useWorkbenchInsight } from "../../context/WorkbenchInsightContext"
 import { ResourceServiceClient, SqlWorkbenchServiceClient } from "../../services/grpc-client"
 import type {
+  AdbConnectionMode,
   AdbResource,
+  AdbWalletStatus,
   ConnectAdbResponse,
   ConnectDbSystemResponse,
   DbSystemConnectionString,
@@ -30,6 +33,7 @@ import type {
   SqlWorkbenchConnectionType,
   TestSqlConnectionResponse,
 } from "../../services/types"
+import { describeWalletStatus } from "../adb/walletStatus"
 import GuardrailDialog from "../common/GuardrailDialog"
 import Card from "../ui/Card"
 import Input from "../ui/Input"
@@ -90,6 +94,11 @@ type BusyAction =
 
 type SqlTarget = AdbResource | DbSystemResource
 
+const ADB_CONNECTION_MODE_OPTIONS: Array<{ value: AdbConnectionMode; label: string }> = [
+  { value: "wallet", label: "Wallet (mutual TLS)" },
+  { value: "tls", label: "TLS (no wallet)" },
+]
+
 type ConnectionSummary = {
   connectionType: SqlWorkbenchConnectionType
   targetId: string
@@ -113,6 +122,9 @@ export default function SqlWorkbenchView() {
   const [error, setError] = useState<string | null>(null)
   const [guardrail, setGuardrail] = useState<WorkbenchGuardrailState>(null)
 
+  const [adbConnectionMode, setAdbConnectionMode] = useState<AdbConnectionMode>("wallet")
+  const [adbMtlsRequired, setAdbMtlsRequired] = useState(false)
+  const [adbWalletStatus, setAdbWalletStatus] = useState<AdbWalletStatus | null>(null)
   const [walletPassword, setWalletPassword] = useState("")
   const [walletPath, setWalletPath] = useState("")
   const [serviceNames, setServiceNames] = useState<string[]>([])
@@ -139,6 +151,8 @@ export default function SqlWorkbenchView() {
   const [showSqlWorkspace, setShowSqlWorkspace] = useState(false)
 
   const previousTargetKeyRef = useRef("")
+  /** Service name handed over with a navigation request, applied once that target is selected */
+  const requestedServiceNameRef = useRef<{ targetId: string; serviceName: string } | null>(null)
   const guardrailBusy = busyAction === "saveProfile"
     || busyAction === "deleteProfile"
     || busyAction === "deleteFavorite"
@@ -162,12 +176,15 @@ export default function SqlWorkbenchView() {
     [selectedTargetId, targets],
   )
   const targetTypeLabel = targetType === "adb" ? "Autonomous Database" : "DB System"
-  const requiresWallet = targetType === "adb"
+  const requiresWallet = targetType === "adb" && adbConnectionMode === "wallet"
+  const blockedByMtls = targetType === "adb" && adbConnectionMode === "tls" && adbMtlsRequired
+  const walletNotice = adbWalletStatus?.walletPath === walletPath.trim() ? describeWalletStatus(adbWalletStatus) : null
   const canManageConnection = Boolean(
     selectedTargetId
     && serviceName.trim()
     && username.trim()
     && password
+    && !blockedByMtls
     && (!requiresWallet || (walletPath.trim() && walletPassword.trim())),
   )
   const isConnectedToSelection = Boolean(
@@ -201,7 +218,7 @@ export default function SqlWorkbenchView() {
 
             <div className="grid gap-2 sm:grid-cols-3">
               <SummaryMetaCard label="Target" value={selectedTarget?.name ?? "Not selected"} />
-              <SummaryMetaCard label="Mode" value={targetTypeLabel} />
+              <SummaryMetaCard label="Mode" value={targetType === "adb" && adbConnectionMode === "tls" ? `${targetTypeLabel} (TLS)` : targetTypeLabel} />
               <SummaryMetaCard label="Service" value={connectionSummary?.serviceName ?? (serviceName || "Not set")} />
             </div>
 
@@ -251,7 +268,28 @@ export default function SqlWorkbenchView() {
           </div>
           <div className="flex flex-col gap-2 px-2.5 py-2">
             {targetType === "adb" && (
+              <WorkbenchSegmentedControl
+                value={adbConnectionMode}
+                items={ADB_CONNECTION_MODE_OPTIONS}
+                onChange={(mode) => {
+                  setAdbConnectionMode(mode)
+                  setServiceNames([])
+                  setTestResult(null)
+                }}
+              />
+            )}
+            {blockedByMtls && (
+              <InlineNotice tone="warning" icon={<AlertCircle size={13} />}>
+                This database requires mutual TLS. Add your IP address and allow TLS in the Network tab of the Autonomous Database view, or connect with a wallet.
+              </InlineNotice>
+            )}
+            {requiresWallet && (
               <>
+                {walletNotice && (
+                  <InlineNotice tone={walletNotice.tone} icon={<AlertCircle size={13} />}>
+                    {walletNotice.message}
+                  </InlineNotice>
+                )}
                 <div className="grid gap-2 sm:grid-cols-2">
                   <Input
                     type="password"
@@ -472,13 +510,20 @@ export default function SqlWorkbenchView() {
     }
 
     setTargetType(pendingSelection.targetType)
+    if (pendingSelection.serviceName) {
+      if (pendingSelection.targetType === targetType && pendingSelection.targetId === selectedTargetId) {
+        setServiceName(pendingSelection.serviceName)
+      } else {
+        requestedServiceNameRef.current = { targetId: pendingSelection.targetId, serviceName: pendingSelection.serviceName }
+      }
+    }
     setRequestedTargetSelection({
       targetId: pendingSelection.targetId,
       targetType: pendingSelection.targetType,
     })
     setShowSqlWorkspace(false)
     setPendingSelection(null)
-  }, [pendingSelection, setPendingSelection])
+  }, [pendingSelection, selectedTargetId, setPendingSelection, targetType])
 
   useEffect(() => {
     if (!selectedTarget) {
@@ -530,16 +575,21 @@ export default function SqlWorkbenchView() {
     setHasSavedProfile(false)
     setServiceNames([])
     setConnectionStrings([])
+    setAdbConnectionMode("wallet")
     setWalletPath("")
     setWalletPassword("")
-    setServiceName("")
+    const requestedServiceName = requestedServiceNameRef.current?.targetId === selectedTargetId
+      ? requestedServiceNameRef.current.serviceName
+      : undefined
+    requestedServiceNameRef.current = null
+    setServiceName(requestedServiceName ?? "")
     setPassword("")
     setUsername(targetType === "adb" ? "ADMIN" : "SYSTEM")
 
     if (targetType === "adb") {
       void loadSavedAdbProfile(selectedTargetId)
     } else {
-      void loadSavedDbSystemProfile(selectedTargetId)
+      void loadSavedDbSystemProfile(selectedTargetId, requestedServiceName)
       if (selectedTarget && "compartmentId" in selectedTarget && selectedTarget.compartmentId) {
         void fetchDbSystemConnectionStrings(selectedTarget)
       }
@@ -556,6 +606,48 @@ export default function SqlWorkbenchView() {
     }
   }, [connectionId, connectionSummary])
 
+  // TLS mode offers the connection string profiles that work without a wallet.
+  const selectedTargetRegion = selectedTarget?.region
+  useEffect(() => {
+    if (targetType !== "adb" || adbConnectionMode !== "tls" || !selectedTargetId) {
+      setAdbMtlsRequired(false)
+      return
+    }
+    let cancelled = false
+    ResourceServiceClient.getAdbNetworkAccess({ autonomousDatabaseId: selectedTargetId, region: selectedTargetRegion })
+      .then((info) => {
+        if (cancelled) return
+        setAdbMtlsRequired(info.isMtlsConnectionRequired)
+        setServiceNames(info.tlsServiceNames)
+        setServiceName((current) => current && info.tlsServiceNames.includes(current) ? current : info.tlsServiceNames[0] ?? current)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [adbConnectionMode, selectedTargetId, selectedTargetRegion, targetType])
+
+  // Warn about a downloaded wallet that was rotated or is about to expire. The check is advisory, so failures stay quiet.
+  useEffect(() => {
+    if (!requiresWallet || !selectedTargetId) {
+      setAdbWalletStatus(null)
+      return
+    }
+    let cancelled = false
+    ResourceServiceClient.getAdbWalletStatus({ autonomousDatabaseId: selectedTargetId, region: selectedTargetRegion })
+      .then((status) => {
+        if (!cancelled) setAdbWalletStatus(status)
+      })
+      .catch(() => {
+        if (!cancelled) setAdbWalletStatus(null)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [requiresWallet, selectedTargetId, selectedTargetRegion, walletPath])
+
   async function loadTargets(): Promise<void> {
     setBusyAction("load")
     setError(null)
@@ -577,6 +669,7 @@ export default function SqlWorkbenchView() {
     try {
       const saved = await ResourceServiceClient.loadAdbConnection(adbId) as LoadAdbConnectionResponse | Record<string, never>
       if (saved && "autonomousDatabaseId" in saved && saved.autonomousDatabaseId) {
+        setAdbConnectionMode(saved.connectionMode === "tls" ? "tls" : "wallet")
         setWalletPath(saved.walletPath || "")
         setWalletPassword(saved.walletPassword || "")
         setUsername(saved.username || "ADMIN")
@@ -589,13 +682,13 @@ export default function SqlWorkbenchView() {
     }
   }
 
-  async function loadSavedDbSystemProfile(dbSystemId: string): Promise<void> {
+  async function loadSavedDbSystemProfile(dbSystemId: string, serviceNameOverride?: string): Promise<void> {
     try {
       const saved = await ResourceServiceClient.loadDbSystemConnection(dbSystemId) as LoadDbSystemConnectionResponse | Record<string, never>
       if (saved && "dbSystemId" in saved && saved.dbSystemId) {
         setUsername(saved.username || "SYSTEM")
         setPassword(saved.password || "")
-        setServiceName(saved.serviceName || "")
+        setServiceName(serviceNameOverride || saved.serviceName || "")
         setHasSavedProfile(true)
       }
     } catch {
@@ -663,6 +756,8 @@ export default function SqlWorkbenchView() {
       const response = targetType === "adb"
         ? await SqlWorkbenchServiceClient.testAdbConnection({
           autonomousDatabaseId: selectedTarget.id,
+          connectionMode: adbConnectionMode,
+          region: selectedTarget.region,
           walletPath,
           walletPassword,
           username,
@@ -696,6 +791,8 @@ export default function SqlWorkbenchView() {
       if (targetType === "adb") {
         const response = await ResourceServiceClient.connectAdb({
           autonomousDatabaseId: selectedTarget.id,
+          connectionMode: adbConnectionMode,
+          region: selectedTarget.region,
           walletPath,
           walletPassword,
           username,
@@ -829,6 +926,7 @@ export default function SqlWorkbenchView() {
       if (targetType === "adb") {
         await ResourceServiceClient.saveAdbConnection({
           autonomousDatabaseId: selectedTarget.id,
+          connectionMode: adbConnectionMode,
           walletPath,
           walletPassword,
           username,
@@ -0,0 +1,167 @@
+import { Activity, ClipboardCopy, ScrollText, Trash2 } from "lucide-react"
+import { useEffect, useMemo, useState } from "react"
+import { ApiTraceServiceClient } from "../../services/grpc-client"
+import type { ApiTraceEntry } from "../../services/types"
+import StatusBadge from "../ui/StatusBadge"
+import { WorkbenchEmptyState } from "../workbench/DatabaseWorkbenchChrome"
+import FeaturePageLayout, { FeatureSearchInput } from "../workbench/FeaturePageLayout"
+import { WorkbenchActionButton, WorkbenchCompactActionCluster } from "../workbench/WorkbenchActionButtons"
+import {
+  WorkbenchInventoryFilterEmpty,
+  WorkbenchInventorySummary,
+  WorkbenchRegionTag,
+} from "../workbench/WorkbenchInventoryScaffold"
+
+export default function ApiTraceView() {
+  const [entries, setEntries] = useState<ApiTraceEntry[]>([])
+  const [query, setQuery] = useState("")
+  const [failuresOnly, setFailuresOnly] = useState(false)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const unsubscribe = ApiTraceServiceClient.subscribeToEntries({
+      onResponse: (data) => {
+        if (data?.entries) setEntries(data.entries)
+      },
+      onError: () => {},
+      onComplete: () => {},
+    })
+    return unsubscribe
+  }, [])
+
+  const failureCount = useMemo(() => entries.filter((entry) => !entry.ok).length, [entries])
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase()
+    return entries.filter((entry) => {
+      if (failuresOnly && entry.ok) return false
+      if (!q) return true
+      return [entry.service, entry.operation, entry.region, entry.opcRequestId ?? "", String(entry.status ?? ""), entry.errorCode ?? ""]
+        .some((value) => value.toLowerCase().includes(q))
+    })
+  }, [entries, failuresOnly, query])
+
+  const handleCopy = async (id: string) => {
+    try {
+      await ApiTraceServiceClient.copyForSupport(id)
+      setCopiedId(id)
+    } catch (err) {
+      console.error("Failed to copy trace entry:", err)
+    }
+  }
+
+  return (
+    <FeaturePageLayout
+      title="API Trace"
+      description="Recent OCI API calls with latency, status and opc-request-id for support tickets."
+      icon={<Activity size={16} />}
+      actions={(
+        <WorkbenchCompactActionCluster>
+          <WorkbenchActionButton variant="secondary" onClick={() => void ApiTraceServiceClient.showOutput()} title="Open the OCI AI: API Trace output channel">
+            <ScrollText size={12} className="mr-1" />
+            Output
+          </WorkbenchActionButton>
+          <WorkbenchActionButton variant="secondary" onClick={() => void ApiTraceServiceClient.clear()} disabled={entries.length === 0}>
+            <Trash2 size={12} className="mr-1" />
+            Clear
+          </WorkbenchActionButton>
+        </WorkbenchCompactActionCluster>
+      )}
+      controls={entries.length > 0 ? (
+        <div className="flex items-center gap-1.5">
+          <FeatureSearchInput
+            value={query}
+            onChange={setQuery}
+            placeholder="Filter by service, operation, region or request id..."
+            className="min-w-0 flex-1"
+          />
+          <WorkbenchActionButton variant={failuresOnly ? "primary" : "secondary"} onClick={() => setFailuresOnly(!failuresOnly)}>
+            Failures ({failureCount})
+          </WorkbenchActionButton>
+        </div>
+      ) : undefined}
+    >
+      <div className="flex h-full min-h-0 flex-col px-2 py-2">
+        {entries.length === 0 ? (
+          <WorkbenchEmptyState
+            title="No API calls yet"
+            description="OCI calls made by this window appear here as they complete. Only the most recent 500 are kept."
+            icon={<Activity size={18} />}
+          />
+        ) : (
+          <section className="flex min-h-0 flex-1 flex-col overflow-hidden rounded-lg border border-[var(--vscode-panel-border)] bg-[var(--workbench-panel-shell)] p-2">
+            <WorkbenchInventorySummary
+              label="Trace"
+              count={filtered.length === entries.length
+                ? `${entries.length} call${entries.length !== 1 ? "s" : ""}`
+                : `${filtered.length} of ${entries.length} calls`}
+              description="Newest first. Failed calls can be copied with their opc-request-id for an OCI support ticket."
+            />
+            {filtered.length === 0 ? (
+              <div className="mt-2">
+                <WorkbenchInventoryFilterEmpty message="No calls match your filter." />
+              </div>
+            ) : (
+              <div className="mt-2 flex min-h-0 flex-1 flex-col gap-1 overflow-y-auto pr-1">
+                {filtered.map((entry) => (
+                  <TraceRow
+                    key={entry.id}
+                    entry={entry}
+                    copied={copiedId === entry.id}
+                    onCopy={() => void handleCopy(entry.id)}
+                  />
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+      </div>
+    </FeaturePageLayout>
+  )
+}
+
+function TraceRow({
+  entry,
+  copied,
+  onCopy,
+}: {
+  entry: ApiTraceEntry
+  copied: boolean
+  onCopy: () => void
+}) {
+  return (
+    <div className="rounded-[2px] border border-[var(--vscode-panel-border)] bg-[var(--vscode-editor-background)] px-2 py-1.5 text-[12px]">
+      <div className="flex items-center gap-2">
+        <StatusBadge
+          label={entry.status !== undefined ? String(entry.status) : "ERR"}
+          tone={entry.ok ? "success" : "danger"}
+          size="compact"
+        />
+        <span className="min-w-0 flex-1 truncate">
+          <span className="text-description">{entry.service}</span>{" "}
+          <span className="font-medium text-[var(--vscode-foreground)]">{entry.operation}</span>
+        </span>
+        {entry.region && <WorkbenchRegionTag region={entry.region} />}
+        <span className="shrink-0 text-[11px] text-description">{entry.latencyMs} ms</span>
+      </div>
+      <div className="mt-1 flex items-center gap-2 text-[11px] text-description">
+        <span className="shrink-0">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+        {entry.attempts > 1 && <span className="shrink-0">{entry.attempts} attempts</span>}
+        <span className="min-w-0 flex-1 truncate font-mono select-text" title={entry.opcRequestId}>
+          {entry.opcRequestId ? `opc-request-id: ${entry.opcRequestId}` : "no opc-request-id"}
+        </span>
+        {!entry.ok && (
+          <WorkbenchActionButton variant="secondary" onClick={onCopy} title="Copy request details for an OCI support ticket">
+            <ClipboardCopy size={12} className="mr-1" />
+            {copied ? "Copied" : "Copy for Support"}
+          </WorkbenchActionButton>
+        )}
+      </div>
+      {!entry.ok && (entry.errorCode || entry.errorMessage) && (
+        <div className="mt-1 break-words text-[11px] text-error">
+          {[entry.errorCode, entry.errorMessage].filter(Boolean).join(": ")}
+        </div>
+      )}
+    </div>
+  )
+}
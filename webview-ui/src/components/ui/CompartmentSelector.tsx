@@ -1,5 +1,5 @@
 import { clsx } from "clsx"
-import { Check, ChevronDown, Lock, MonitorStop } from "lucide-react"
+import { Check, ChevronDown, Lock, MonitorStop, Search } from "lucide-react"
 import { useState, useRef, useEffect, useMemo, useCallback, type MouseEvent as ReactMouseEvent } from "react"
 import { useExtensionState } from "../../context/ExtensionStateContext"
 import { StateServiceClient } from "../../services/grpc-client"
@@ -9,6 +9,9 @@ interface CompartmentSelectorProps {
     multiple?: boolean
 }
 
+// Mappings added from the compartment tree are named by path, so long lists get a filter box.
+const FILTER_THRESHOLD = 8
+
 export default function CompartmentSelector({ featureKey, multiple = false }: CompartmentSelectorProps) {
     const {
         activeProfile,
@@ -27,6 +30,7 @@ export default function CompartmentSelector({ featureKey, multiple = false }: Co
     const [isOpen, setIsOpen] = useState(false)
     const [optimisticSelection, setOptimisticSelection] = useState<string[] | null>(null)
     const [isSaving, setIsSaving] = useState(false)
+    const [filter, setFilter] = useState("")
     const dropdownRef = useRef<HTMLDivElement>(null)
 
     // Determine current active profile config
@@ -100,6 +104,12 @@ export default function CompartmentSelector({ featureKey, multiple = false }: Co
 
     const currentSelection = optimisticSelection ?? persistedSelection
 
+    const filteredCompartments = useMemo(() => {
+        const normalized = filter.trim().toLowerCase()
+        if (!normalized) return availableCompartments
+        return availableCompartments.filter(c => `${c.name} ${c.id}`.toLowerCase().includes(normalized))
+    }, [availableCompartments, filter])
+
     // Only clear optimistic selection when persisted state actually catches up
     useEffect(() => {
         if (optimisticSelection !== null) {
@@ -183,7 +193,19 @@ export default function CompartmentSelector({ featureKey, multiple = false }: Co
 
             {isOpen && (
                 <div className="absolute left-0 right-0 top-full z-50 mt-1 max-h-48 overflow-y-auto rounded-[2px] border border-[var(--vscode-dropdown-border,var(--vscode-input-border))] bg-[var(--vscode-dropdown-background,var(--vscode-input-background))] py-0.5 shadow-lg">
-                    {availableCompartments.map(comp => {
+                    {availableCompartments.length > FILTER_THRESHOLD && (
+                        <div className="relative px-1.5 pb-1 pt-1">
+                            <Search size={12} className="pointer-events-none absolute left-3.5 top-1/2 -translate-y-1/2 text-description" />
+                            <input
+                                autoFocus
+                                placeholder="Filter compartments"
+                                value={filter}
+                                onChange={e => setFilter(e.target.value)}
+                                className="w-full rounded-[2px] border border-input-border bg-input-background py-1 pl-6 pr-2 text-xs outline-none focus:border-border"
+                            />
+                        </div>
+                    )}
+                    {filteredCompartments.map(comp => {
                         const isSelected = currentSelection.includes(comp.id)
                         return (
                             <button
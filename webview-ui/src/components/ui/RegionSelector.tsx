@@ -0,0 +1,193 @@
+import { clsx } from "clsx"
+import { Check, ChevronDown, Globe, Home, LoaderCircle, RefreshCw } from "lucide-react"
+import { useCallback, useEffect, useMemo, useRef, useState, type MouseEvent as ReactMouseEvent } from "react"
+import { useExtensionState } from "../../context/ExtensionStateContext"
+import { StateServiceClient } from "../../services/grpc-client"
+import type { RegionFeatureKey, RegionSubscription } from "../../services/types"
+
+/**
+ * Run reload now and whenever the feature's region selection changes. The extension host reads
+ * the selection itself when listing, so a view has to ask again after RegionSelector saves it.
+ */
+export function useFeatureRegionsReload(featureKey: RegionFeatureKey, reload: () => unknown) {
+    const { featureRegionMap } = useExtensionState()
+    const selectedRegionsKey = (featureRegionMap[featureKey] ?? []).join(",")
+
+    useEffect(() => {
+        void reload()
+    }, [reload, selectedRegionsKey])
+}
+
+interface RegionSelectorProps {
+    featureKey: RegionFeatureKey
+}
+
+export default function RegionSelector({ featureKey }: RegionSelectorProps) {
+    const { activeProfile, region, featureRegionMap } = useExtensionState()
+
+    const [isOpen, setIsOpen] = useState(false)
+    const [subscriptions, setSubscriptions] = useState<RegionSubscription[] | null>(null)
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState("")
+    const [optimisticSelection, setOptimisticSelection] = useState<string[] | null>(null)
+    const [isSaving, setIsSaving] = useState(false)
+    const dropdownRef = useRef<HTMLDivElement>(null)
+
+    const profileRegions = useMemo(
+        () => region.split(",").map(r => r.trim()).filter(r => r.length > 0),
+        [region],
+    )
+    const persistedSelection = useMemo(() => featureRegionMap[featureKey] ?? [], [featureRegionMap, featureKey])
+    const currentSelection = optimisticSelection ?? persistedSelection
+
+    useEffect(() => {
+        if (optimisticSelection === null) return
+        const matches = optimisticSelection.length === persistedSelection.length &&
+            optimisticSelection.every(r => persistedSelection.includes(r))
+        if (matches) {
+            setOptimisticSelection(null)
+        }
+    }, [persistedSelection, optimisticSelection])
+
+    // Subscriptions are per tenancy, so drop them when the active profile changes.
+    useEffect(() => {
+        setSubscriptions(null)
+        setError("")
+    }, [activeProfile])
+
+    useEffect(() => {
+        function handleClickOutside(event: MouseEvent) {
+            if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+                setIsOpen(false)
+            }
+        }
+        document.addEventListener("mousedown", handleClickOutside)
+        return () => document.removeEventListener("mousedown", handleClickOutside)
+    }, [])
+
+    const loadSubscriptions = useCallback(async (refresh: boolean) => {
+        setLoading(true)
+        setError("")
+        try {
+            const result = await StateServiceClient.listRegionSubscriptions({ refresh })
+            setSubscriptions(result.regions)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err))
+        } finally {
+            setLoading(false)
+        }
+    }, [])
+
+    useEffect(() => {
+        if (isOpen && subscriptions === null && !loading && !error) {
+            void loadSubscriptions(false)
+        }
+    }, [error, isOpen, loadSubscriptions, loading, subscriptions])
+
+    // Keep selected regions visible even if they are no longer in the subscription list.
+    const options = useMemo(() => {
+        const names = new Set((subscriptions ?? []).map(s => s.regionName))
+        const extras = currentSelection
+            .filter(r => !names.has(r))
+            .map(r => ({ regionName: r, regionKey: "", isHomeRegion: false, status: "UNKNOWN" }))
+        return [...(subscriptions ?? []), ...extras]
+    }, [currentSelection, subscriptions])
+
+    const saveSelection = useCallback(async (next: string[]) => {
+        setOptimisticSelection(next)
+        setIsSaving(true)
+        try {
+            await StateServiceClient.updateFeatureRegionSelection(featureKey, next)
+        } catch (err) {
+            console.error("Failed to save region selection:", err)
+            setOptimisticSelection(null)
+        } finally {
+            setIsSaving(false)
+        }
+    }, [featureKey])
+
+    const handleToggle = useCallback((regionName: string, e: ReactMouseEvent<HTMLButtonElement>) => {
+        e.stopPropagation()
+        const next = currentSelection.includes(regionName)
+            ? currentSelection.filter(r => r !== regionName)
+            : [...currentSelection, regionName]
+        void saveSelection(next)
+    }, [currentSelection, saveSelection])
+
+    const selectionText = currentSelection.length === 0
+        ? `Profile Region${profileRegions.length > 0 ? ` (${profileRegions.join(", ")})` : ""}`
+        : currentSelection.length === 1
+            ? currentSelection[0]
+            : `${currentSelection.length} Regions`
+
+    return (
+        <div className="relative z-[9]" ref={dropdownRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex w-full items-center justify-between gap-2 rounded-[2px] border border-[var(--vscode-dropdown-border,var(--vscode-input-border))] bg-[var(--vscode-dropdown-background,var(--vscode-input-background))] px-2 py-1.5 text-[12px] text-[var(--vscode-dropdown-foreground,var(--vscode-input-foreground))] transition-colors hover:bg-[var(--vscode-list-hoverBackground)] focus:outline focus:outline-1 focus:outline-[var(--vscode-focusBorder)] focus:-outline-offset-1"
+            >
+                <span className="flex min-w-0 items-center gap-1.5">
+                    <Globe size={12} className="shrink-0 text-[var(--vscode-icon-foreground)]" />
+                    <span className="truncate">{selectionText}</span>
+                </span>
+                {isSaving
+                    ? <LoaderCircle size={14} className="shrink-0 animate-spin" />
+                    : <ChevronDown size={14} className="shrink-0 text-[var(--vscode-icon-foreground)]" />}
+            </button>
+
+            {isOpen && (
+                <div className="absolute left-0 right-0 top-full z-50 mt-1 max-h-56 overflow-y-auto rounded-[2px] border border-[var(--vscode-dropdown-border,var(--vscode-input-border))] bg-[var(--vscode-dropdown-background,var(--vscode-input-background))] py-0.5 shadow-lg">
+                    <div className="flex items-center justify-between gap-2 px-2 py-1 text-[10px] text-description">
+                        <span>Subscribed regions</span>
+                        <button
+                            type="button"
+                            onClick={(e) => { e.stopPropagation(); void loadSubscriptions(true) }}
+                            disabled={loading}
+                            className="inline-flex items-center gap-1 hover:text-[var(--vscode-foreground)]"
+                            title="Reload region subscriptions"
+                        >
+                            <RefreshCw size={10} className={clsx(loading && "animate-spin")} />
+                        </button>
+                    </div>
+                    {currentSelection.length > 0 && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); void saveSelection([]) }}
+                            disabled={isSaving}
+                            className="flex w-full items-center gap-2 px-2 py-1.5 text-left text-xs text-description transition-colors hover:bg-list-background-hover"
+                        >
+                            Use profile region{profileRegions.length > 0 ? ` (${profileRegions.join(", ")})` : ""}
+                        </button>
+                    )}
+                    {error && <div className="px-2 py-1.5 text-[11px] text-error">{error}</div>}
+                    {loading && subscriptions === null && (
+                        <div className="flex items-center gap-1 px-2 py-1.5 text-xs text-description">
+                            <LoaderCircle size={12} className="animate-spin" />
+                            Loading regions...
+                        </div>
+                    )}
+                    {options.map(option => {
+                        const isSelected = currentSelection.includes(option.regionName)
+                        return (
+                            <button
+                                key={option.regionName}
+                                onClick={(e) => handleToggle(option.regionName, e)}
+                                disabled={isSaving}
+                                className="flex w-full items-center gap-2 px-2 py-1.5 text-left text-xs transition-colors hover:bg-list-background-hover"
+                            >
+                                <div className={clsx(
+                                    "flex h-3.5 w-3.5 shrink-0 items-center justify-center rounded-sm border",
+                                    isSelected ? "border-button-primary-background bg-button-primary-background" : "border-input-border",
+                                )}>
+                                    {isSelected && <Check size={10} className="text-button-primary-foreground" />}
+                                </div>
+                                <span className="truncate font-medium text-foreground">{option.regionName}</span>
+                                {option.regionKey && <span className="text-[10px] text-description">{option.regionKey}</span>}
+                                {option.isHomeRegion && <Home size={10} className="shrink-0 text-description" aria-label="Home region" />}
+                            </button>
+                        )
+                    })}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -4,8 +4,10 @@ import type { MutableRefObject } from "react"
 import { useExtensionState } from "../../context/ExtensionStateContext"
 import { toneFromLifecycleState, useWorkbenchInsight } from "../../context/WorkbenchInsightContext"
 import { ResourceServiceClient } from "../../services/grpc-client"
-import type { VcnResource } from "../../services/types"
+import type { RegionListingError, VcnResource } from "../../services/types"
+import RegionErrorsNotice from "../common/RegionErrorsNotice"
 import CompartmentSelector from "../ui/CompartmentSelector"
+import RegionSelector, { useFeatureRegionsReload } from "../ui/RegionSelector"
 import InlineNotice from "../ui/InlineNotice"
 import { LifecycleBadge } from "../ui/StatusBadge"
 import { WorkbenchEmptyState, WorkbenchLoadingState } from "../workbench/DatabaseWorkbenchChrome"
@@ -28,6 +30,7 @@ export default function VcnView() {
     const [vcns, setVcns] = useState<VcnResource[]>([])
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
+    const [regionErrors, setRegionErrors] = useState<RegionListingError[]>([])
     const [query, setQuery] = useState("")
     const [selectedVcn, setSelectedVcn] = useState<VcnResource | null>(null)
     const [requestedVcnId, setRequestedVcnId] = useState<string | null>(null)
@@ -72,20 +75,22 @@ export default function VcnView() {
         return [...new Set(selected)]
     }, [availableCompartmentIds, vcnCompartmentIds])
 
-    const load = useCallback(async () => {
+    const load = useCallback(async (refresh = false) => {
         setLoading(true)
         setError(null)
         if (selectedCompartmentIds.length === 0) {
             setVcns([])
+            setRegionErrors([])
             setSelectedVcn(null)
             setLoading(false)
             return
         }
         try {
-            const res = await ResourceServiceClient.listVcns()
+            const res = await ResourceServiceClient.listVcns(refresh)
             const selectedIds = new Set(selectedCompartmentIds)
             const items = (res.vcns ?? []).filter((vcn) => selectedIds.has((vcn.compartmentId || "").trim()))
             setVcns(items)
+            setRegionErrors(res.regionErrors ?? [])
             setSelectedVcn((current) => {
                 if (current && items.some((item) => item.id === current.id)) {
                     return items.find((item) => item.id === current.id) ?? current
@@ -99,9 +104,7 @@ export default function VcnView() {
         }
     }, [selectedCompartmentIds])
 
-    useEffect(() => {
-        load()
-    }, [load])
+    useFeatureRegionsReload("vcn", load)
 
     useEffect(() => {
         if (pendingSelection?.view !== "vcn") {
@@ -254,7 +257,7 @@ export default function VcnView() {
             icon={<Network size={16} />}
             actions={(
                 <WorkbenchRefreshButton
-                    onClick={load}
+                    onClick={() => void load(true)}
                     disabled={loading}
                     spinning={loading}
                     title="Refresh"
@@ -263,6 +266,7 @@ export default function VcnView() {
             controls={(
                 <div className="flex flex-col gap-1.5">
                     <CompartmentSelector featureKey="vcn" multiple />
+                    <RegionSelector featureKey="vcn" />
                     {vcns.length > 0 && (
                         <FeatureSearchInput
                             value={query}
@@ -274,6 +278,7 @@ export default function VcnView() {
             )}
         >
             <div className="flex h-full min-h-0 flex-col px-2 py-2">
+                <RegionErrorsNotice errors={regionErrors} className="mb-2" />
                 {error && (
                     <InlineNotice tone="danger" size="md" icon={<AlertCircle size={13} />} className="mb-2">
                         {error}
@@ -417,6 +422,7 @@ function VcnListItem({
             buttonRef={onRegisterRef}
             title={vcn.name}
             subtitle={vcn.id}
+            region={vcn.region}
             chips={vcn.cidrBlocks}
             selected={selected}
             highlighted={highlighted}
@@ -1,9 +1,12 @@
 import { clsx } from "clsx"
 import type { ReactNode } from "react"
+import { WorkbenchRegionTag } from "./WorkbenchInventoryScaffold"
 
 interface WorkbenchActionInventoryCardProps {
   title: string
   subtitle?: string
+  /** Shown as a tag next to the title so multi-region inventories stay readable */
+  region?: string
   meta?: ReactNode
   trailing?: ReactNode
   actions?: ReactNode
@@ -23,6 +26,7 @@ function isNestedInteractiveTarget(target: EventTarget | null, currentTarget: HT
 export default function WorkbenchActionInventoryCard({
   title,
   subtitle,
+  region,
   meta,
   trailing,
   actions,
@@ -69,7 +73,10 @@ export default function WorkbenchActionInventoryCard({
     >
       <div className="flex items-start justify-between gap-1.5">
         <div className="flex min-w-0 flex-col">
-          <span className="truncate text-[13px] font-medium text-[var(--vscode-foreground)]">{title}</span>
+          <div className="flex min-w-0 items-center gap-1.5">
+            <span className="truncate text-[13px] font-medium text-[var(--vscode-foreground)]">{title}</span>
+            {region && <WorkbenchRegionTag region={region} />}
+          </div>
           {subtitle && <span className="truncate text-[11px] text-description">{subtitle}</span>}
           {meta && <div className="mt-1">{meta}</div>}
         </div>
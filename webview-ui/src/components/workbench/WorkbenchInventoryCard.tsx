@@ -1,10 +1,12 @@
 import { clsx } from "clsx"
 import { ArrowDownToLine } from "lucide-react"
 import type { ReactNode } from "react"
+import { WorkbenchRegionTag } from "./WorkbenchInventoryScaffold"
 
 interface WorkbenchInventoryCardProps {
   title: string
   subtitle?: string
+  region?: string
   details?: string[]
   chips?: string[]
   rightSlot?: ReactNode
@@ -20,6 +22,7 @@ interface WorkbenchInventoryCardProps {
 export default function WorkbenchInventoryCard({
   title,
   subtitle,
+  region,
   details = [],
   chips = [],
   rightSlot,
@@ -49,7 +52,10 @@ export default function WorkbenchInventoryCard({
   const content = (
     <div className="flex items-start justify-between gap-2">
       <div className="min-w-0">
-        <div className="truncate text-[12px] font-medium">{title}</div>
+        <div className="flex min-w-0 items-center gap-1.5">
+          <div className="truncate text-[12px] font-medium">{title}</div>
+          {region && <WorkbenchRegionTag region={region} />}
+        </div>
         {subtitle && <div className={clsx("mt-0.5 truncate text-[10px]", mutedClassName)}>{subtitle}</div>}
         {details.length > 0 && (
           <div className={clsx("mt-1 flex flex-wrap gap-x-2.5 gap-y-0.5 text-[10px]", mutedClassName)}>
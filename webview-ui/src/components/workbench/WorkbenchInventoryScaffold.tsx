@@ -42,6 +42,18 @@ export function WorkbenchInventoryRegionHeading({
   )
 }
 
+export function WorkbenchRegionTag({
+  region,
+}: {
+  region: string
+}) {
+  return (
+    <span className="shrink-0 rounded-[2px] border border-[var(--vscode-panel-border)] px-1 py-px text-[10px] leading-none text-description">
+      {region}
+    </span>
+  )
+}
+
 export function WorkbenchInventoryFilterEmpty({
   message,
 }: {
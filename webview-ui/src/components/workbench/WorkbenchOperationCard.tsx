@@ -0,0 +1,77 @@
+import { Loader2 } from "lucide-react"
+import type { TrackedWorkRequest } from "../../services/types"
+import StatusBadge, { LifecycleBadge } from "../ui/StatusBadge"
+import { WorkbenchCompactActionCluster, WorkbenchDismissButton, WorkbenchRevealButton } from "./WorkbenchActionButtons"
+import WorkbenchActionInventoryCard from "./WorkbenchActionInventoryCard"
+import { showInListLabel } from "./navigationLabels"
+
+const OPERATION_KIND_LABELS: Record<TrackedWorkRequest["kind"], string> = {
+  launchInstance: "Launch",
+  createImage: "Custom image",
+  createBootVolumeBackup: "Boot volume backup",
+  createAutonomousDatabase: "Create",
+  cloneAutonomousDatabase: "Clone",
+  scaleAutonomousDatabase: "Scale",
+  createAutonomousDatabaseBackup: "Manual backup",
+  restoreAutonomousDatabase: "Point-in-time restore",
+  updateAutonomousDatabaseNetworkAccess: "Network access",
+  rotateAutonomousDatabaseWallet: "Wallet rotation",
+  createPluggableDatabase: "Create PDB",
+  clonePluggableDatabase: "Clone PDB",
+  startPluggableDatabase: "Start PDB",
+  stopPluggableDatabase: "Stop PDB",
+  deletePluggableDatabase: "Delete PDB",
+}
+
+interface WorkbenchOperationCardProps {
+  operation: TrackedWorkRequest
+  /** Noun of the reveal button, e.g. "Instance" */
+  revealLabel: string
+  onReveal: () => void
+  onDismiss: () => void
+}
+
+/** A create or launch followed by WorkRequestService, with its work request progress */
+export default function WorkbenchOperationCard({ operation, revealLabel, onReveal, onDismiss }: WorkbenchOperationCardProps) {
+  const percent = Math.max(0, Math.min(100, operation.percentComplete ?? 0))
+  const inProgress = operation.status === "IN_PROGRESS"
+  return (
+    <WorkbenchActionInventoryCard
+      title={operation.resourceName}
+      subtitle={`${OPERATION_KIND_LABELS[operation.kind]} · ${operation.resourceId}`}
+      region={operation.region}
+      trailing={operation.status === "FAILED"
+        ? <StatusBadge label="Failed" tone="danger" size="compact" />
+        : <LifecycleBadge state={operation.resourceLifecycleState || "PROVISIONING"} size="compact" />}
+      meta={(
+        <>
+          <div className="mt-1 h-1 overflow-hidden rounded-full bg-[var(--workbench-panel-surface-subtle)]">
+            <div
+              className={operation.status === "FAILED"
+                ? "h-full bg-[var(--vscode-errorForeground)]"
+                : "h-full bg-[var(--vscode-progressBar-background)] transition-[width] duration-500"}
+              style={{ width: `${operation.status === "FAILED" ? 100 : percent}%` }}
+            />
+          </div>
+          <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-0.5 text-[11px] text-description">
+            <span>Work request: {operation.workRequestStatus || (inProgress ? "ACCEPTED" : operation.status)}</span>
+            <span>{percent}%</span>
+            <span>Started {new Date(operation.startedAt).toLocaleTimeString()}</span>
+          </div>
+          {operation.errorMessage && (
+            <div className="mt-1 break-words text-[11px] text-error">{operation.errorMessage}</div>
+          )}
+        </>
+      )}
+      actions={(
+        <WorkbenchCompactActionCluster>
+          {inProgress && <Loader2 size={12} className="animate-spin text-description" />}
+          {operation.status === "SUCCEEDED" && (
+            <WorkbenchRevealButton onClick={onReveal} title={showInListLabel(revealLabel)} label={showInListLabel(revealLabel)} />
+          )}
+          {!inProgress && <WorkbenchDismissButton onClick={onDismiss} title="Dismiss" />}
+        </WorkbenchCompactActionCluster>
+      )}
+    />
+  )
+}
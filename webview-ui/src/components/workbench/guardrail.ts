@@ -51,15 +51,33 @@ interface WorkbenchTemplatedGuardrailConfig {
   onConfirm: () => Promise<void>
 }
 
-type WorkbenchGuardrailActionKind = "start" | "stop" | "delete" | "create" | "save" | "clear" | "overwrite"
+type WorkbenchGuardrailActionKind =
+  | "start"
+  | "stop"
+  | "reboot"
+  | "resize"
+  | "terminate"
+  | "delete"
+  | "create"
+  | "save"
+  | "clear"
+  | "overwrite"
+  | "rotate"
+  | "backup"
+  | "restore"
 type WorkbenchGuardrailResourceKind =
   | "compute-instance"
+  | "console-connection"
+  | "custom-image"
+  | "boot-volume-backup"
   | "autonomous-database"
   | "db-system"
+  | "pluggable-database"
   | "bastion-session"
   | "security-list"
   | "pre-authenticated-link"
   | "oci-profile"
+  | "api-signing-key"
   | "compartment"
   | "sql-connection-profile"
   | "sql-favorite"
@@ -103,11 +121,41 @@ function resolveWorkbenchGuardrailResourceTemplate(resourceKind?: WorkbenchGuard
         effects: {
           start: "can resume workloads and start billing again.",
           stop: "interrupts any workloads currently running on it.",
+          reboot: "restarts the operating system and interrupts running workloads until it is back up.",
+          resize: "changes its OCPU and memory allocation. A running instance is rebooted to apply the new size.",
+          terminate: "permanently deletes it and its attached VNICs. Only a preserved boot volume is kept.",
           delete: "can remove access to the running workload.",
           create: "creates a new instance-level action.",
           save: "stores the current instance-level configuration for reuse.",
         },
       }
+    case "console-connection":
+      return {
+        resourceTitle: "Console Connection",
+        confirmTarget: "Connection",
+        subject: "console connection",
+        effects: {
+          overwrite: "deletes the instance's existing connection and creates one for your key. A serial console session open over the old connection is disconnected.",
+        },
+      }
+    case "custom-image":
+      return {
+        resourceTitle: "Custom Image",
+        confirmTarget: "Image",
+        subject: "custom image",
+        effects: {
+          delete: "permanently removes it. Instances already launched from it keep running, but it can no longer be used to launch or restore.",
+        },
+      }
+    case "boot-volume-backup":
+      return {
+        resourceTitle: "Boot Volume Backup",
+        confirmTarget: "Backup",
+        subject: "boot volume backup",
+        effects: {
+          delete: "permanently removes it, so the boot volume can no longer be restored to this point.",
+        },
+      }
     case "autonomous-database":
       return {
         resourceTitle: "Autonomous Database",
@@ -116,6 +164,9 @@ function resolveWorkbenchGuardrailResourceTemplate(resourceKind?: WorkbenchGuard
         effects: {
           start: "resumes access and billing.",
           stop: "interrupts client access until it is started again.",
+          resize: "changes its ECPU and storage allocation online. Billing follows the new size, and auto scaling can bill up to three times the base ECPUs.",
+          backup: "takes a manual backup while it stays available. The backup is kept for the database's retention period and billed as backup storage.",
+          restore: "replaces all of its data with the state at the selected time. Changes made after that time are lost and the database is unavailable until the restore finishes.",
           delete: "removes access for existing connections.",
           create: "creates a new database-level action.",
           save: "stores the current database-level configuration for reuse.",
@@ -134,6 +185,17 @@ function resolveWorkbenchGuardrailResourceTemplate(resourceKind?: WorkbenchGuard
           save: "stores the current DB System-level configuration for reuse.",
         },
       }
+    case "pluggable-database":
+      return {
+        resourceTitle: "Pluggable Database",
+        confirmTarget: "PDB",
+        subject: "pluggable database",
+        effects: {
+          start: "opens it read-write so sessions can connect to its service.",
+          stop: "closes it on every node and disconnects all of its sessions.",
+          delete: "permanently removes it and all of its data. Other pluggable databases of the container database are not affected.",
+        },
+      }
     case "bastion-session":
       return {
         resourceTitle: "Bastion Session",
@@ -181,6 +243,16 @@ function resolveWorkbenchGuardrailResourceTemplate(resourceKind?: WorkbenchGuard
           save: "stores the current credentials and region settings for reuse.",
         },
       }
+    case "api-signing-key":
+      return {
+        resourceTitle: "API Signing Key",
+        confirmTarget: "Key",
+        subject: "API signing key",
+        effects: {
+          create: "uploads a new public key to the OCI user and switches this profile to the generated private key.",
+          rotate: "uploads and verifies a new key, then deletes the current key from the OCI user. Other tools using the current key stop working.",
+        },
+      }
     case "compartment":
       return {
         resourceTitle: "Compartment Mapping",
@@ -282,6 +354,30 @@ export function createStopGuardrail(config: WorkbenchNamedGuardrailConfig): Work
   })
 }
 
+export function createRebootGuardrail(config: WorkbenchNamedGuardrailConfig): WorkbenchGuardrailConfig {
+  return createWorkbenchGuardrail({
+    tone: "warning",
+    ...config,
+    details: buildWorkbenchGuardrailDetails(config.details),
+  })
+}
+
+export function createResizeGuardrail(config: WorkbenchNamedGuardrailConfig): WorkbenchGuardrailConfig {
+  return createWorkbenchGuardrail({
+    tone: "warning",
+    ...config,
+    details: buildWorkbenchGuardrailDetails(config.details),
+  })
+}
+
+export function createTerminateGuardrail(config: WorkbenchNamedGuardrailConfig): WorkbenchGuardrailConfig {
+  return createWorkbenchGuardrail({
+    tone: "danger",
+    ...config,
+    details: buildWorkbenchGuardrailDetails(config.details),
+  })
+}
+
 export function createDeleteGuardrail(config: WorkbenchNamedGuardrailConfig): WorkbenchGuardrailConfig {
   return createWorkbenchGuardrail({
     tone: "danger",
@@ -322,6 +418,30 @@ export function createOverwriteGuardrail(config: WorkbenchNamedGuardrailConfig):
   })
 }
 
+export function createRotateGuardrail(config: WorkbenchNamedGuardrailConfig): WorkbenchGuardrailConfig {
+  return createWorkbenchGuardrail({
+    tone: "danger",
+    ...config,
+    details: buildWorkbenchGuardrailDetails(config.details),
+  })
+}
+
+export function createBackupGuardrail(config: WorkbenchNamedGuardrailConfig): WorkbenchGuardrailConfig {
+  return createWorkbenchGuardrail({
+    tone: "warning",
+    ...config,
+    details: buildWorkbenchGuardrailDetails(config.details),
+  })
+}
+
+export function createRestoreGuardrail(config: WorkbenchNamedGuardrailConfig): WorkbenchGuardrailConfig {
+  return createWorkbenchGuardrail({
+    tone: "danger",
+    ...config,
+    details: buildWorkbenchGuardrailDetails(config.details),
+  })
+}
+
 export function createStartResourceGuardrail(config: WorkbenchTemplatedGuardrailConfig): WorkbenchGuardrailConfig {
   const copy = resolveWorkbenchGuardrailCopy("start", config)
   return createStartGuardrail({
@@ -344,6 +464,39 @@ export function createStopResourceGuardrail(config: WorkbenchTemplatedGuardrailC
   })
 }
 
+export function createRebootResourceGuardrail(config: WorkbenchTemplatedGuardrailConfig): WorkbenchGuardrailConfig {
+  const copy = resolveWorkbenchGuardrailCopy("reboot", config)
+  return createRebootGuardrail({
+    title: `Reboot ${copy.resourceTitle}`,
+    description: `Rebooting this ${copy.subject} ${copy.effect}`,
+    confirmLabel: `Reboot ${copy.confirmTarget}`,
+    details: config.details,
+    onConfirm: config.onConfirm,
+  })
+}
+
+export function createResizeResourceGuardrail(config: WorkbenchTemplatedGuardrailConfig): WorkbenchGuardrailConfig {
+  const copy = resolveWorkbenchGuardrailCopy("resize", config)
+  return createResizeGuardrail({
+    title: `Resize ${copy.resourceTitle}`,
+    description: `Resizing this ${copy.subject} ${copy.effect}`,
+    confirmLabel: `Resize ${copy.confirmTarget}`,
+    details: config.details,
+    onConfirm: config.onConfirm,
+  })
+}
+
+export function createTerminateResourceGuardrail(config: WorkbenchTemplatedGuardrailConfig): WorkbenchGuardrailConfig {
+  const copy = resolveWorkbenchGuardrailCopy("terminate", config)
+  return createTerminateGuardrail({
+    title: `Terminate ${copy.resourceTitle}`,
+    description: `Terminating this ${copy.subject} ${copy.effect}`,
+    confirmLabel: `Terminate ${copy.confirmTarget}`,
+    details: config.details,
+    onConfirm: config.onConfirm,
+  })
+}
+
 export function createDeleteResourceGuardrail(config: WorkbenchTemplatedGuardrailConfig): WorkbenchGuardrailConfig {
   const copy = resolveWorkbenchGuardrailCopy("delete", config)
   return createDeleteGuardrail({
@@ -398,3 +551,36 @@ export function createOverwriteResourceGuardrail(config: WorkbenchTemplatedGuard
     onConfirm: config.onConfirm,
   })
 }
+
+export function createRotateResourceGuardrail(config: WorkbenchTemplatedGuardrailConfig): WorkbenchGuardrailConfig {
+  const copy = resolveWorkbenchGuardrailCopy("rotate", config)
+  return createRotateGuardrail({
+    title: `Rotate ${copy.resourceTitle}`,
+    description: `Rotating this ${copy.subject} ${copy.effect}`,
+    confirmLabel: `Rotate ${copy.confirmTarget}`,
+    details: config.details,
+    onConfirm: config.onConfirm,
+  })
+}
+
+export function createBackupResourceGuardrail(config: WorkbenchTemplatedGuardrailConfig): WorkbenchGuardrailConfig {
+  const copy = resolveWorkbenchGuardrailCopy("backup", config)
+  return createBackupGuardrail({
+    title: `Back Up ${copy.resourceTitle}`,
+    description: `Backing up this ${copy.subject} ${copy.effect}`,
+    confirmLabel: `Back Up ${copy.confirmTarget}`,
+    details: config.details,
+    onConfirm: config.onConfirm,
+  })
+}
+
+export function createRestoreResourceGuardrail(config: WorkbenchTemplatedGuardrailConfig): WorkbenchGuardrailConfig {
+  const copy = resolveWorkbenchGuardrailCopy("restore", config)
+  return createRestoreGuardrail({
+    title: `Restore ${copy.resourceTitle}`,
+    description: `Restoring this ${copy.subject} ${copy.effect}`,
+    confirmLabel: `Restore ${copy.confirmTarget}`,
+    details: config.details,
+    onConfirm: config.onConfirm,
+  })
+}
@@ -17,6 +17,7 @@ export type ViewType =
   | "subagents"
   | "mcpServers"
   | "settings"
+  | "apiTrace"
   | "vcn"
   | "compute"
   | "objectStorage"
@@ -52,6 +53,7 @@ export interface ExtensionStateContextType {
   objectStorageCompartmentIds: string[]
   bastionCompartmentIds: string[]
   speechCompartmentIds: string[]
+  featureRegionMap: AppState["featureRegionMap"]
   profilesConfig: { name: string; compartments: { id: string; name: string }[] }[]
   tenancyOcid: string
   genAiRegion: string
@@ -118,6 +120,7 @@ export function ExtensionStateContextProvider({ children }: { children: ReactNod
     objectStorageCompartmentIds: [],
     bastionCompartmentIds: [],
     speechCompartmentIds: [],
+    featureRegionMap: {},
     profilesConfig: [],
     tenancyOcid: "",
     genAiRegion: "",
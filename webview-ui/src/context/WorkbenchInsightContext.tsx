@@ -44,6 +44,8 @@ export type PendingWorkbenchSelection =
     view: "sqlWorkbench"
     targetId: string
     targetType: "adb" | "dbSystem"
+    /** Service name or connect string to fill in, such as the connect string of a pluggable database */
+    serviceName?: string
   }
 
 export interface WorkbenchInsightResource {
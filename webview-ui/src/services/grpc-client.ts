@@ -1,11 +1,68 @@
 import type {
+  ApiTraceState,
   AppState,
+  CaptureComputeConsoleHistoryRequest,
+  CaptureComputeConsoleHistoryResponse,
+  ComputeInstanceActionRequest,
+  ComputeLaunchOptions,
+  ConnectComputeSerialConsoleRequest,
+  ConnectComputeSerialConsoleResponse,
   ConnectComputeSshRequest,
   ConnectComputeSshResponse,
+  CreateComputeBackupResponse,
+  CreateComputeBootVolumeBackupRequest,
+  CreateComputeImageRequest,
   CodeContextPayload,
+  CompartmentTreeResponse,
+  GetCompartmentTreeRequest,
+  GetComputeLaunchOptionsRequest,
+  GetResourceMetricsRequest,
+  GetResourceMetricsResponse,
+  LaunchComputeInstanceRequest,
+  LaunchComputeInstanceResponse,
+  DeleteComputeBootVolumeBackupRequest,
+  DeleteComputeImageRequest,
+  ListComputeImagesRequest,
+  ListComputeInstanceBackupsRequest,
+  ListComputeInstanceBackupsResponse,
+  ListComputeImagesResponse,
+  ListRunCommandScriptsResponse,
+  ResizeComputeInstanceRequest,
+  RunCommandState,
+  RunComputeCommandRequest,
+  RunComputeCommandResponse,
+  TerminateComputeInstanceRequest,
+  WriteComputeSshConfigRequest,
+  WriteComputeSshConfigResponse,
+  ListRegionSubscriptionsRequest,
+  ListRegionSubscriptionsResponse,
+  RegionFeatureKey,
+  AdbOperationResponse,
+  AdbProvisioningOptions,
+  CloneAutonomousDatabaseRequest,
   ConnectAdbRequest,
   ConnectAdbResponse,
+  CreateAdbBackupRequest,
+  CreateAutonomousDatabaseRequest,
+  GetAdbProvisioningOptionsRequest,
+  ListAdbBackupsRequest,
+  ListAdbBackupsResponse,
+  ProvisionAutonomousDatabaseResponse,
+  RestoreAutonomousDatabaseRequest,
+  ScaleAutonomousDatabaseRequest,
+  AdbNetworkAccessInfo,
+  GetAdbNetworkAccessRequest,
+  GetPublicIpResponse,
+  UpdateAdbAccessControlRequest,
+  UpdateAdbMtlsRequest,
+  AdbWalletStatus,
+  CleanupAdbWalletsResponse,
+  GetAdbWalletStatusRequest,
+  RotateAdbWalletRequest,
   DeleteProfileRequest,
+  RefreshSessionTokenResponse,
+  RegisterApiKeyRequest,
+  RegisterApiKeyResponse,
   DownloadAdbWalletRequest,
   DownloadAdbWalletResponse,
   OcaProxyStatus,
@@ -45,6 +102,13 @@ import type {
   SaveDbSystemConnectionRequest,
   GetDbSystemConnectionStringsRequest,
   GetDbSystemConnectionStringsResponse,
+  ListDbSystemDatabasesRequest,
+  ListDbSystemDatabasesResponse,
+  CreatePluggableDatabaseRequest,
+  ClonePluggableDatabaseRequest,
+  PluggableDatabaseActionRequest,
+  DeletePluggableDatabaseRequest,
+  PluggableDatabaseOperationResponse,
   OracleDbDiagnosticsResponse,
   ListObjectStorageBucketsResponse,
   ListObjectStorageObjectsRequest,
@@ -87,6 +151,7 @@ import type {
   McpPromptPreviewResponse,
   McpResourcePreviewRequest,
   McpResourcePreviewResponse,
+  WorkRequestsState,
 } from "./types"
 import { type Callbacks, ProtoBusClient } from "./grpc-client-base"
 
@@ -117,6 +182,14 @@ export class StateServiceClient extends ProtoBusClient {
     return this.makeUnaryRequest<void>("updateFeatureCompartmentSelection", { featureKey, compartmentIds })
   }
 
+  static updateFeatureRegionSelection(featureKey: RegionFeatureKey, regions: string[]): Promise<void> {
+    return this.makeUnaryRequest<void>("updateFeatureRegionSelection", { featureKey, regions })
+  }
+
+  static listRegionSubscriptions(request: ListRegionSubscriptionsRequest = {}): Promise<ListRegionSubscriptionsResponse> {
+    return this.makeUnaryRequest<ListRegionSubscriptionsResponse>("listRegionSubscriptions", request)
+  }
+
   static getProfileSecrets(profile: string): Promise<ProfileSecretsResponse> {
     return this.makeUnaryRequest<ProfileSecretsResponse>("getProfileSecrets", { profile })
   }
@@ -125,6 +198,37 @@ export class StateServiceClient extends ProtoBusClient {
     return this.makeUnaryRequest<void>("switchProfile", {})
   }
 
+  static importOciConfigProfiles(): Promise<void> {
+    // QuickPick stays open until the user picks profiles, so allow more than the default timeout.
+    return this.makeUnaryRequest<void>("importOciConfigProfiles", {}, 600000)
+  }
+
+  static exportProfileBundle(): Promise<void> {
+    return this.makeUnaryRequest<void>("exportProfileBundle", {}, 600000)
+  }
+
+  static importProfileBundle(): Promise<void> {
+    return this.makeUnaryRequest<void>("importProfileBundle", {}, 600000)
+  }
+
+  static refreshSessionToken(profile: string): Promise<RefreshSessionTokenResponse> {
+    return this.makeUnaryRequest<RefreshSessionTokenResponse>("refreshSessionToken", { profile }, 120000)
+  }
+
+  static generateApiKey(request: RegisterApiKeyRequest): Promise<RegisterApiKeyResponse> {
+    // Includes waiting for the new key to propagate in Identity.
+    return this.makeUnaryRequest<RegisterApiKeyResponse>("generateApiKey", request, 300000)
+  }
+
+  static rotateApiKey(): Promise<RegisterApiKeyResponse> {
+    return this.makeUnaryRequest<RegisterApiKeyResponse>("rotateApiKey", {}, 300000)
+  }
+
+  static getCompartmentTree(request: GetCompartmentTreeRequest = {}): Promise<CompartmentTreeResponse> {
+    // Large tenancies take several pages of Identity results.
+    return this.makeUnaryRequest<CompartmentTreeResponse>("getCompartmentTree", request, 120000)
+  }
+
   static switchCompartment(id: string): Promise<void> {
     return this.makeUnaryRequest<void>("switchCompartment", { id })
   }
@@ -209,8 +313,8 @@ export class SqlWorkbenchServiceClient extends ProtoBusClient {
 export class ResourceServiceClient extends ProtoBusClient {
   static override serviceName = "ResourceService"
 
-  static listCompute(): Promise<ListComputeResponse> {
-    return this.makeUnaryRequest<ListComputeResponse>("listCompute", {})
+  static listCompute(refresh = false): Promise<ListComputeResponse> {
+    return this.makeUnaryRequest<ListComputeResponse>("listCompute", { refresh })
   }
 
   static startCompute(instanceId: string, region?: string): Promise<void> {
@@ -221,12 +325,80 @@ export class ResourceServiceClient extends ProtoBusClient {
     return this.makeUnaryRequest<void>("stopCompute", { instanceId, region })
   }
 
+  static computeInstanceAction(request: ComputeInstanceActionRequest): Promise<void> {
+    return this.makeUnaryRequest<void>("computeInstanceAction", request)
+  }
+
+  static terminateComputeInstance(request: TerminateComputeInstanceRequest): Promise<void> {
+    return this.makeUnaryRequest<void>("terminateComputeInstance", request)
+  }
+
+  static resizeComputeInstance(request: ResizeComputeInstanceRequest): Promise<void> {
+    return this.makeUnaryRequest<void>("resizeComputeInstance", request)
+  }
+
   static connectComputeSsh(request: ConnectComputeSshRequest): Promise<ConnectComputeSshResponse> {
     return this.makeUnaryRequest<ConnectComputeSshResponse>("connectComputeSsh", request)
   }
 
-  static listAdb(): Promise<ListAdbResponse> {
-    return this.makeUnaryRequest<ListAdbResponse>("listAdb", {})
+  static writeComputeSshConfig(request: WriteComputeSshConfigRequest): Promise<WriteComputeSshConfigResponse> {
+    return this.makeUnaryRequest<WriteComputeSshConfigResponse>("writeComputeSshConfig", request)
+  }
+
+  static captureComputeConsoleHistory(request: CaptureComputeConsoleHistoryRequest): Promise<CaptureComputeConsoleHistoryResponse> {
+    return this.makeUnaryRequest<CaptureComputeConsoleHistoryResponse>("captureComputeConsoleHistory", request)
+  }
+
+  static connectComputeSerialConsole(request: ConnectComputeSerialConsoleRequest): Promise<ConnectComputeSerialConsoleResponse> {
+    return this.makeUnaryRequest<ConnectComputeSerialConsoleResponse>("connectComputeSerialConsole", request)
+  }
+
+  static getComputeLaunchOptions(request: GetComputeLaunchOptionsRequest): Promise<ComputeLaunchOptions> {
+    return this.makeUnaryRequest<ComputeLaunchOptions>("getComputeLaunchOptions", request)
+  }
+
+  static listComputeImages(request: ListComputeImagesRequest): Promise<ListComputeImagesResponse> {
+    return this.makeUnaryRequest<ListComputeImagesResponse>("listComputeImages", request)
+  }
+
+  static launchComputeInstance(request: LaunchComputeInstanceRequest): Promise<LaunchComputeInstanceResponse> {
+    return this.makeUnaryRequest<LaunchComputeInstanceResponse>("launchComputeInstance", request)
+  }
+
+  static listComputeInstanceBackups(request: ListComputeInstanceBackupsRequest): Promise<ListComputeInstanceBackupsResponse> {
+    return this.makeUnaryRequest<ListComputeInstanceBackupsResponse>("listComputeInstanceBackups", request)
+  }
+
+  static createComputeImage(request: CreateComputeImageRequest): Promise<CreateComputeBackupResponse> {
+    return this.makeUnaryRequest<CreateComputeBackupResponse>("createComputeImage", request)
+  }
+
+  static createComputeBootVolumeBackup(request: CreateComputeBootVolumeBackupRequest): Promise<CreateComputeBackupResponse> {
+    return this.makeUnaryRequest<CreateComputeBackupResponse>("createComputeBootVolumeBackup", request)
+  }
+
+  static deleteComputeImage(request: DeleteComputeImageRequest): Promise<void> {
+    return this.makeUnaryRequest<void>("deleteComputeImage", request)
+  }
+
+  static deleteComputeBootVolumeBackup(request: DeleteComputeBootVolumeBackupRequest): Promise<void> {
+    return this.makeUnaryRequest<void>("deleteComputeBootVolumeBackup", request)
+  }
+
+  static getResourceMetrics(request: GetResourceMetricsRequest): Promise<GetResourceMetricsResponse> {
+    return this.makeUnaryRequest<GetResourceMetricsResponse>("getResourceMetrics", request)
+  }
+
+  static listRunCommandScripts(): Promise<ListRunCommandScriptsResponse> {
+    return this.makeUnaryRequest<ListRunCommandScriptsResponse>("listRunCommandScripts", {})
+  }
+
+  static runComputeCommand(request: RunComputeCommandRequest): Promise<RunComputeCommandResponse> {
+    return this.makeUnaryRequest<RunComputeCommandResponse>("runComputeCommand", request)
+  }
+
+  static listAdb(refresh = false): Promise<ListAdbResponse> {
+    return this.makeUnaryRequest<ListAdbResponse>("listAdb", { refresh })
   }
 
   static startAdb(autonomousDatabaseId: string, region?: string): Promise<void> {
@@ -237,10 +409,66 @@ export class ResourceServiceClient extends ProtoBusClient {
     return this.makeUnaryRequest<void>("stopAdb", { autonomousDatabaseId, region })
   }
 
+  static getAdbProvisioningOptions(request: GetAdbProvisioningOptionsRequest): Promise<AdbProvisioningOptions> {
+    return this.makeUnaryRequest<AdbProvisioningOptions>("getAdbProvisioningOptions", request)
+  }
+
+  static createAdb(request: CreateAutonomousDatabaseRequest): Promise<ProvisionAutonomousDatabaseResponse> {
+    return this.makeUnaryRequest<ProvisionAutonomousDatabaseResponse>("createAdb", request)
+  }
+
+  static cloneAdb(request: CloneAutonomousDatabaseRequest): Promise<ProvisionAutonomousDatabaseResponse> {
+    return this.makeUnaryRequest<ProvisionAutonomousDatabaseResponse>("cloneAdb", request)
+  }
+
+  static scaleAdb(request: ScaleAutonomousDatabaseRequest): Promise<AdbOperationResponse> {
+    return this.makeUnaryRequest<AdbOperationResponse>("scaleAdb", request)
+  }
+
+  static listAdbBackups(request: ListAdbBackupsRequest): Promise<ListAdbBackupsResponse> {
+    return this.makeUnaryRequest<ListAdbBackupsResponse>("listAdbBackups", request)
+  }
+
+  static createAdbBackup(request: CreateAdbBackupRequest): Promise<AdbOperationResponse> {
+    return this.makeUnaryRequest<AdbOperationResponse>("createAdbBackup", request)
+  }
+
+  static restoreAdb(request: RestoreAutonomousDatabaseRequest): Promise<AdbOperationResponse> {
+    return this.makeUnaryRequest<AdbOperationResponse>("restoreAdb", request)
+  }
+
+  static getAdbNetworkAccess(request: GetAdbNetworkAccessRequest): Promise<AdbNetworkAccessInfo> {
+    return this.makeUnaryRequest<AdbNetworkAccessInfo>("getAdbNetworkAccess", request)
+  }
+
+  static updateAdbAccessControl(request: UpdateAdbAccessControlRequest): Promise<AdbOperationResponse> {
+    return this.makeUnaryRequest<AdbOperationResponse>("updateAdbAccessControl", request)
+  }
+
+  static updateAdbMtls(request: UpdateAdbMtlsRequest): Promise<AdbOperationResponse> {
+    return this.makeUnaryRequest<AdbOperationResponse>("updateAdbMtls", request)
+  }
+
+  static getPublicIp(): Promise<GetPublicIpResponse> {
+    return this.makeUnaryRequest<GetPublicIpResponse>("getPublicIp", {})
+  }
+
   static downloadAdbWallet(request: DownloadAdbWalletRequest): Promise<DownloadAdbWalletResponse> {
     return this.makeUnaryRequest<DownloadAdbWalletResponse>("downloadAdbWallet", request)
   }
 
+  static getAdbWalletStatus(request: GetAdbWalletStatusRequest): Promise<AdbWalletStatus> {
+    return this.makeUnaryRequest<AdbWalletStatus>("getAdbWalletStatus", request)
+  }
+
+  static rotateAdbWallet(request: RotateAdbWalletRequest): Promise<AdbOperationResponse> {
+    return this.makeUnaryRequest<AdbOperationResponse>("rotateAdbWallet", request)
+  }
+
+  static cleanupAdbWallets(): Promise<CleanupAdbWalletsResponse> {
+    return this.makeUnaryRequest<CleanupAdbWalletsResponse>("cleanupAdbWallets", {})
+  }
+
   static connectAdb(request: ConnectAdbRequest): Promise<ConnectAdbResponse> {
     return this.makeUnaryRequest<ConnectAdbResponse>("connectAdb", request)
   }
@@ -265,8 +493,8 @@ export class ResourceServiceClient extends ProtoBusClient {
     return this.makeUnaryRequest<void>("deleteAdbConnection", { autonomousDatabaseId })
   }
 
-  static listDbSystems(): Promise<ListDbSystemsResponse> {
-    return this.makeUnaryRequest<ListDbSystemsResponse>("listDbSystems", {})
+  static listDbSystems(refresh = false): Promise<ListDbSystemsResponse> {
+    return this.makeUnaryRequest<ListDbSystemsResponse>("listDbSystems", { refresh })
   }
 
   static startDbSystem(dbSystemId: string, region?: string): Promise<void> {
@@ -309,12 +537,32 @@ export class ResourceServiceClient extends ProtoBusClient {
     return this.makeUnaryRequest<GetDbSystemConnectionStringsResponse>("getDbSystemConnectionStrings", request)
   }
 
+  static listDbSystemDatabases(request: ListDbSystemDatabasesRequest): Promise<ListDbSystemDatabasesResponse> {
+    return this.makeUnaryRequest<ListDbSystemDatabasesResponse>("listDbSystemDatabases", request)
+  }
+
+  static createPluggableDatabase(request: CreatePluggableDatabaseRequest): Promise<PluggableDatabaseOperationResponse> {
+    return this.makeUnaryRequest<PluggableDatabaseOperationResponse>("createPluggableDatabase", request)
+  }
+
+  static clonePluggableDatabase(request: ClonePluggableDatabaseRequest): Promise<PluggableDatabaseOperationResponse> {
+    return this.makeUnaryRequest<PluggableDatabaseOperationResponse>("clonePluggableDatabase", request)
+  }
+
+  static pluggableDatabaseAction(request: PluggableDatabaseActionRequest): Promise<PluggableDatabaseOperationResponse> {
+    return this.makeUnaryRequest<PluggableDatabaseOperationResponse>("pluggableDatabaseAction", request)
+  }
+
+  static deletePluggableDatabase(request: DeletePluggableDatabaseRequest): Promise<PluggableDatabaseOperationResponse> {
+    return this.makeUnaryRequest<PluggableDatabaseOperationResponse>("deletePluggableDatabase", request)
+  }
+
   static getOracleDbDiagnostics(): Promise<OracleDbDiagnosticsResponse> {
     return this.makeUnaryRequest<OracleDbDiagnosticsResponse>("getOracleDbDiagnostics", {})
   }
 
-  static listVcns(): Promise<ListVcnResponse> {
-    return this.makeUnaryRequest<ListVcnResponse>("listVcns", {})
+  static listVcns(refresh = false): Promise<ListVcnResponse> {
+    return this.makeUnaryRequest<ListVcnResponse>("listVcns", { refresh })
   }
 
   static listSecurityLists(request: ListSecurityListRequest): Promise<ListSecurityListResponse> {
@@ -333,8 +581,8 @@ export class ResourceServiceClient extends ProtoBusClient {
     return this.makeUnaryRequest<void>("deleteSecurityList", request)
   }
 
-  static listObjectStorageBuckets(): Promise<ListObjectStorageBucketsResponse> {
-    return this.makeUnaryRequest<ListObjectStorageBucketsResponse>("listObjectStorageBuckets", {})
+  static listObjectStorageBuckets(refresh = false): Promise<ListObjectStorageBucketsResponse> {
+    return this.makeUnaryRequest<ListObjectStorageBucketsResponse>("listObjectStorageBuckets", { refresh })
   }
 
   static listObjectStorageObjects(request: ListObjectStorageObjectsRequest): Promise<ListObjectStorageObjectsResponse> {
@@ -418,6 +666,66 @@ export class ResourceServiceClient extends ProtoBusClient {
   }
 }
 
+export class ApiTraceServiceClient extends ProtoBusClient {
+  static override serviceName = "ApiTraceService"
+
+  static listEntries(): Promise<ApiTraceState> {
+    return this.makeUnaryRequest<ApiTraceState>("listEntries", {})
+  }
+
+  static clear(): Promise<void> {
+    return this.makeUnaryRequest<void>("clear", {})
+  }
+
+  static showOutput(): Promise<void> {
+    return this.makeUnaryRequest<void>("showOutput", {})
+  }
+
+  static copyForSupport(id: string): Promise<void> {
+    return this.makeUnaryRequest<void>("copyForSupport", { id })
+  }
+
+  static subscribeToEntries(callbacks: Callbacks<ApiTraceState>): () => void {
+    return this.makeStreamingRequest<ApiTraceState>("subscribeToEntries", {}, callbacks)
+  }
+}
+
+export class WorkRequestServiceClient extends ProtoBusClient {
+  static override serviceName = "WorkRequestService"
+
+  static listOperations(): Promise<WorkRequestsState> {
+    return this.makeUnaryRequest<WorkRequestsState>("listOperations", {})
+  }
+
+  static dismiss(id: string): Promise<void> {
+    return this.makeUnaryRequest<void>("dismiss", { id })
+  }
+
+  static subscribeToOperations(callbacks: Callbacks<WorkRequestsState>): () => void {
+    return this.makeStreamingRequest<WorkRequestsState>("subscribeToOperations", {}, callbacks)
+  }
+}
+
+export class RunCommandServiceClient extends ProtoBusClient {
+  static override serviceName = "RunCommandService"
+
+  static listRuns(): Promise<RunCommandState> {
+    return this.makeUnaryRequest<RunCommandState>("listRuns", {})
+  }
+
+  static cancel(id: string): Promise<void> {
+    return this.makeUnaryRequest<void>("cancel", { id })
+  }
+
+  static dismiss(id: string): Promise<void> {
+    return this.makeUnaryRequest<void>("dismiss", { id })
+  }
+
+  static subscribeToRuns(callbacks: Callbacks<RunCommandState>): () => void {
+    return this.makeStreamingRequest<RunCommandState>("subscribeToRuns", {}, callbacks)
+  }
+}
+
 export class McpServiceClient extends ProtoBusClient {
   static override serviceName = "McpService"
 
@@ -67,6 +67,7 @@ export interface AppState {
   objectStorageCompartmentIds: string[]
   bastionCompartmentIds: string[]
   speechCompartmentIds: string[]
+  featureRegionMap: Partial<Record<RegionFeatureKey, string[]>>
   profilesConfig: ProfileConfig[]
   tenancyOcid: string
   genAiRegion: string
@@ -134,6 +135,8 @@ export interface SubagentTranscriptResponse {
   updatedAt?: string
 }
 
+export type OciAuthMode = "api-key" | "security-token" | "instance-principal" | "resource-principal"
+
 export interface SaveSettingsRequest {
   activeProfile: string
   agentMode: AgentMode
@@ -156,6 +159,8 @@ export interface SaveSettingsRequest {
   fingerprint: string
   privateKey: string
   privateKeyPassphrase: string
+  authMode?: OciAuthMode
+  sessionToken?: string
   systemPrompt: string
 
 
@@ -173,14 +178,82 @@ export interface DeleteProfileRequest {
   profile: string
 }
 
+export interface RegisterApiKeyRequest {
+  userOcid?: string
+}
+
+export interface RegisterApiKeyResponse {
+  fingerprint: string
+  deletedFingerprint?: string
+}
+
+export interface RefreshSessionTokenResponse {
+  expiresAt?: string
+}
+
+export type RegionFeatureKey = "compute" | "adb" | "dbSystem" | "vcn" | "objectStorage" | "bastion"
+
+export interface RegionSubscription {
+  regionName: string
+  regionKey: string
+  isHomeRegion: boolean
+  status: string
+}
+
+export interface ListRegionSubscriptionsRequest {
+  refresh?: boolean
+}
+
+export interface ListRegionSubscriptionsResponse {
+  profile: string
+  regions: RegionSubscription[]
+}
+
+export interface CompartmentResource {
+  id: string
+  name: string
+  description?: string
+  parentId: string
+  path: string
+  lifecycleState: string
+}
+
+export interface GetCompartmentTreeRequest {
+  refresh?: boolean
+}
+
+export interface CompartmentTreeResponse {
+  profile: string
+  tenancyOcid: string
+  fetchedAt: string
+  compartments: CompartmentResource[]
+}
+
 export interface SavedCompartment {
   name: string
   id: string
 }
 
+/** Config-file origin of a profile imported from ~/.oci/config */
+export interface ConfigFileSourceStatus {
+  filePath: string
+  sourceProfile: string
+  importedAt: string
+  /** True when the file or its profile section can no longer be read */
+  sourceMissing: boolean
+  /** Config-file keys whose values differ from the SecretStorage copy */
+  driftedFields: string[]
+}
+
 export interface SettingsState extends SaveSettingsRequest {
-  /** Indicates which authentication method is currently active */
-  authMode: "api-key"
+  /** Auth mode of the profile whose fields are shown */
+  authMode: OciAuthMode
+  /** Auth mode OCI requests are signed with right now (always the active profile's) */
+  activeAuthMode: OciAuthMode
+  /** ISO timestamp from the session token's exp claim (security-token mode only) */
+  sessionTokenExpiresAt?: string
+  /** Present when the edited profile was imported from an OCI config file */
+  configFileSource?: ConfigFileSourceStatus
   /** Named compartments saved for quick switching */
   savedCompartments: SavedCompartment[]
   profilesConfig: ProfileConfig[]
@@ -195,7 +268,10 @@ export interface ProfileSecretsResponse {
   privateKey: string
   privateKeyPassphrase: string
   region: string
-  authMode: "api-key"
+  authMode: OciAuthMode
+  sessionToken: string
+  sessionTokenExpiresAt?: string
+  configFileSource?: ConfigFileSourceStatus
 }
 
 export interface SendMessageRequest {
@@ -221,8 +297,12 @@ export interface DownloadAdbWalletResponse {
   serviceNames: string[]
 }
 
+export type AdbConnectionMode = "wallet" | "tls"
+
 export interface ConnectAdbRequest {
   autonomousDatabaseId: string
+  connectionMode?: AdbConnectionMode
+  region?: string
   walletPath: string
   walletPassword?: string
   username: string
@@ -233,6 +313,7 @@ export interface ConnectAdbRequest {
 export interface ConnectAdbResponse {
   connectionId: string
   autonomousDatabaseId: string
+  connectionMode: AdbConnectionMode
   serviceName: string
   walletPath: string
 }
@@ -251,6 +332,31 @@ export interface ConnectComputeSshResponse {
   launched: boolean
 }
 
+/** One instance to write as a Host entry; host is the address chosen by the view's host preference */
+export interface ComputeSshConfigHost extends ConnectComputeSshRequest {
+  region?: string
+  privateIp?: string
+}
+
+export interface WriteComputeSshConfigRequest {
+  hosts: ComputeSshConfigHost[]
+  /** Open the (single) written host in a new Remote-SSH window */
+  openInRemoteSsh?: boolean
+}
+
+export interface WriteComputeSshConfigResponse {
+  configFile: string
+  hosts: {
+    instanceId: string
+    alias: string
+    /** Bastion session used as ProxyCommand for a private address */
+    bastionSessionName?: string
+  }[]
+  /** Private addresses written without a ProxyCommand because no active bastion session targets them */
+  warnings: string[]
+  openedInRemoteSsh: boolean
+}
+
 export interface AdbSqlRow {
   [column: string]: string | number | boolean | null
 }
@@ -336,6 +442,9 @@ export interface ComputeResource {
   privateIp?: string
   subnetId?: string
   vcnId?: string
+  shape?: string
+  ocpus?: number
+  memoryInGBs?: number
 }
 
 export interface AdbResource {
@@ -344,6 +453,12 @@ export interface AdbResource {
   lifecycleState: ResourceState | string
   compartmentId?: string
   region?: string
+  dbWorkload?: string
+  computeCount?: number
+  dataStorageSizeInTBs?: number
+  isAutoScalingEnabled?: boolean
+  isAutoScalingForStorageEnabled?: boolean
+  backupRetentionPeriodInDays?: number
 }
 
 export interface DbSystemResource {
@@ -423,16 +538,24 @@ export interface ObjectStorageObjectResource {
   timeModified?: string
 }
 
+export interface RegionListingError {
+  region: string
+  message: string
+}
+
 export interface ListComputeResponse {
   instances: ComputeResource[]
+  regionErrors?: RegionListingError[]
 }
 
 export interface ListAdbResponse {
   databases: AdbResource[]
+  regionErrors?: RegionListingError[]
 }
 
 export interface ListDbSystemsResponse {
   dbSystems: DbSystemResource[]
+  regionErrors?: RegionListingError[]
 }
 
 export interface ConnectDbSystemRequest {
@@ -521,6 +644,7 @@ export interface OracleDbDiagnosticsResponse {
 
 export interface ListVcnResponse {
   vcns: VcnResource[];
+  regionErrors?: RegionListingError[];
 }
 
 export interface ListSecurityListRequest {
@@ -534,6 +658,7 @@ export interface ListSecurityListResponse {
 
 export interface ListObjectStorageBucketsResponse {
   buckets: ObjectStorageBucketResource[]
+  regionErrors?: RegionListingError[]
 }
 
 export interface ListObjectStorageObjectsRequest {
@@ -634,6 +759,7 @@ export interface DeleteSecurityListRequest {
 /** Non-sensitive ADB connection profile stored in VSCode config */
 export interface AdbConnectionProfile {
   autonomousDatabaseId: string
+  connectionMode?: AdbConnectionMode
   walletPath: string
   username: string
   serviceName: string
@@ -684,6 +810,7 @@ export interface BastionSessionResource {
 
 export interface ListBastionsResponse {
   bastions: BastionResource[]
+  regionErrors?: RegionListingError[]
 }
 
 export interface ListBastionSessionsRequest {
@@ -841,6 +968,619 @@ export interface ListSpeechTranscriptionTasksResponse {
   tasks: SpeechTranscriptionTaskResource[]
 }
 
+// --- API Trace Types ---
+
+export interface ApiTraceEntry {
+  id: string
+  timestamp: string
+  service: string
+  operation: string
+  method: string
+  region: string
+  endpoint: string
+  status?: number
+  ok: boolean
+  latencyMs: number
+  attempts: number
+  opcRequestId?: string
+  errorCode?: string
+  errorMessage?: string
+}
+
+export interface ApiTraceState {
+  entries: ApiTraceEntry[]
+}
+
+// --- Compute Launch Types ---
+
+export interface ComputeShapeOption {
+  shape: string
+  processorDescription?: string
+  ocpus?: number
+  memoryInGBs?: number
+  isFlexible: boolean
+  ocpuMin?: number
+  ocpuMax?: number
+  memoryMinInGBs?: number
+  memoryMaxInGBs?: number
+  defaultMemoryPerOcpuInGBs?: number
+}
+
+export interface ComputeImageOption {
+  id: string
+  name: string
+  operatingSystem: string
+  operatingSystemVersion: string
+  timeCreated?: string
+}
+
+export interface ComputeSubnetOption {
+  id: string
+  name: string
+  vcnId: string
+  cidrBlock: string
+  prohibitPublicIp: boolean
+  availabilityDomain?: string
+}
+
+export interface GetComputeLaunchOptionsRequest {
+  compartmentId: string
+  region?: string
+  availabilityDomain?: string
+}
+
+export interface ComputeLaunchOptions {
+  availabilityDomains: string[]
+  shapes: ComputeShapeOption[]
+  subnets: ComputeSubnetOption[]
+}
+
+export interface ListComputeImagesRequest {
+  compartmentId: string
+  region?: string
+  shape: string
+}
+
+export interface ListComputeImagesResponse {
+  images: ComputeImageOption[]
+}
+
+export interface LaunchComputeInstanceRequest {
+  compartmentId: string
+  region?: string
+  availabilityDomain: string
+  displayName: string
+  shape: string
+  ocpus?: number
+  memoryInGBs?: number
+  imageId?: string
+  bootVolumeBackupId?: string
+  subnetId: string
+  assignPublicIp: boolean
+  sshPublicKey: string
+  cloudInit?: string
+}
+
+export interface LaunchComputeInstanceResponse {
+  instanceId?: string
+  operationId: string
+}
+
+// --- Compute Lifecycle Types ---
+
+/** Instance power actions: SOFTSTOP and SOFTRESET shut the OS down first, STOP and RESET do not */
+export type ComputeInstanceAction = "START" | "STOP" | "SOFTSTOP" | "RESET" | "SOFTRESET"
+
+export interface ComputeInstanceActionRequest {
+  instanceId: string
+  region?: string
+  action: ComputeInstanceAction
+}
+
+export interface TerminateComputeInstanceRequest {
+  instanceId: string
+  region?: string
+  /** Keep the boot volume so it can be attached or used to launch another instance */
+  preserveBootVolume: boolean
+}
+
+export interface ResizeComputeInstanceRequest {
+  instanceId: string
+  region?: string
+  ocpus: number
+  /** Unset sends only the OCPU count and leaves memory to OCI */
+  memoryInGBs?: number
+}
+
+// --- Compute Backup Types ---
+
+export interface ComputeCustomImage {
+  id: string
+  name: string
+  lifecycleState: string
+  operatingSystem: string
+  operatingSystemVersion: string
+  sizeInMBs?: number
+  timeCreated?: string
+  compartmentId: string
+  region: string
+}
+
+export type BootVolumeBackupType = "FULL" | "INCREMENTAL"
+
+export interface ComputeBootVolumeBackup {
+  id: string
+  name: string
+  lifecycleState: string
+  type: string
+  sourceType?: string
+  sizeInGBs?: number
+  timeCreated?: string
+  expirationTime?: string
+  compartmentId: string
+  region: string
+}
+
+export interface ListComputeInstanceBackupsRequest {
+  instanceId: string
+  region?: string
+}
+
+export interface ListComputeInstanceBackupsResponse {
+  bootVolumeId?: string
+  images: ComputeCustomImage[]
+  bootVolumeBackups: ComputeBootVolumeBackup[]
+}
+
+export interface CreateComputeImageRequest {
+  instanceId: string
+  instanceName?: string
+  region?: string
+  displayName: string
+}
+
+export interface CreateComputeBootVolumeBackupRequest {
+  instanceId: string
+  instanceName?: string
+  region?: string
+  displayName: string
+  type: BootVolumeBackupType
+}
+
+export interface CreateComputeBackupResponse {
+  resourceId: string
+  operationId: string
+}
+
+export interface DeleteComputeImageRequest {
+  imageId: string
+  region?: string
+}
+
+export interface DeleteComputeBootVolumeBackupRequest {
+  bootVolumeBackupId: string
+  region?: string
+}
+
+// --- Compute Console Types ---
+
+export interface CaptureComputeConsoleHistoryRequest {
+  instanceId: string
+  instanceName?: string
+  region?: string
+}
+
+export interface CaptureComputeConsoleHistoryResponse {
+  /** Characters of console output opened in the editor */
+  length: number
+}
+
+export interface ConnectComputeSerialConsoleRequest {
+  instanceId: string
+  instanceName?: string
+  region?: string
+  /** Its .pub sibling is the key the console connection is created for; unset tries ~/.ssh/id_ed25519 and ~/.ssh/id_rsa */
+  privateKeyPath?: string
+  /** Delete a console connection made with another key instead of reporting it */
+  replaceExisting?: boolean
+}
+
+export interface ConnectComputeSerialConsoleResponse {
+  launched: boolean
+  /** An existing connection made with the same key was used */
+  reused?: boolean
+  /** Set when nothing was launched because the instance already has a connection made with another key */
+  conflictingConnectionId?: string
+  conflictingFingerprint?: string
+}
+
+// --- ADB Provisioning Types ---
+
+export type AdbWorkloadType = "OLTP" | "DW" | "AJD" | "APEX"
+
+export interface AdbNetworkAccess {
+  type: "PUBLIC" | "RESTRICTED" | "PRIVATE"
+  allowedIps?: string[]
+  subnetId?: string
+}
+
+export interface AdbVersionOption {
+  version: string
+  details?: string
+  isFreeTierEnabled: boolean
+}
+
+export interface GetAdbProvisioningOptionsRequest {
+  compartmentId: string
+  region?: string
+  workload: AdbWorkloadType
+}
+
+export interface AdbProvisioningOptions {
+  versions: AdbVersionOption[]
+  subnets: ComputeSubnetOption[]
+}
+
+export interface CreateAutonomousDatabaseRequest {
+  compartmentId: string
+  region?: string
+  displayName: string
+  dbName: string
+  workload: AdbWorkloadType
+  computeCount: number
+  dataStorageSizeInTBs: number
+  isAutoScalingEnabled: boolean
+  dbVersion?: string
+  adminPassword: string
+  networkAccess: AdbNetworkAccess
+}
+
+export type AdbCloneType = "FULL" | "METADATA" | "REFRESHABLE"
+
+export interface CloneAutonomousDatabaseRequest {
+  sourceId: string
+  region?: string
+  compartmentId: string
+  displayName: string
+  dbName: string
+  cloneType: AdbCloneType
+  computeCount: number
+  dataStorageSizeInTBs: number
+  adminPassword?: string
+  refreshableMode?: "AUTOMATIC" | "MANUAL"
+  networkAccess: AdbNetworkAccess
+}
+
+export interface ProvisionAutonomousDatabaseResponse {
+  autonomousDatabaseId: string
+  operationId: string
+}
+
+// --- ADB Scaling and Backup Types ---
+
+export interface ScaleAutonomousDatabaseRequest {
+  autonomousDatabaseId: string
+  databaseName?: string
+  region?: string
+  computeCount: number
+  dataStorageSizeInTBs: number
+  isAutoScalingEnabled: boolean
+  isAutoScalingForStorageEnabled: boolean
+}
+
+export interface AdbBackup {
+  id: string
+  name: string
+  lifecycleState: string
+  type: string
+  isAutomatic: boolean
+  isRestorable: boolean
+  databaseSizeInTBs?: number
+  retentionPeriodInDays?: number
+  timeStarted?: string
+  timeEnded?: string
+}
+
+export interface ListAdbBackupsRequest {
+  autonomousDatabaseId: string
+  region?: string
+}
+
+export interface ListAdbBackupsResponse {
+  backups: AdbBackup[]
+  backupRetentionPeriodInDays?: number
+}
+
+export interface CreateAdbBackupRequest {
+  autonomousDatabaseId: string
+  databaseName?: string
+  region?: string
+  displayName: string
+}
+
+export interface RestoreAutonomousDatabaseRequest {
+  autonomousDatabaseId: string
+  databaseName?: string
+  region?: string
+  timestamp: string
+}
+
+export interface AdbOperationResponse {
+  operationId: string
+}
+
+// --- ADB Network Access Types ---
+
+export interface GetAdbNetworkAccessRequest {
+  autonomousDatabaseId: string
+  region?: string
+}
+
+export interface AdbNetworkAccessInfo {
+  isMtlsConnectionRequired: boolean
+  whitelistedIps: string[]
+  privateEndpoint?: string
+  tlsServiceNames: string[]
+}
+
+export interface UpdateAdbAccessControlRequest {
+  autonomousDatabaseId: string
+  databaseName?: string
+  region?: string
+  whitelistedIps: string[]
+}
+
+export interface UpdateAdbMtlsRequest {
+  autonomousDatabaseId: string
+  databaseName?: string
+  region?: string
+  isMtlsConnectionRequired: boolean
+}
+
+export interface GetPublicIpResponse {
+  ipAddress: string
+}
+
+// --- ADB Wallet Types ---
+
+export interface GetAdbWalletStatusRequest {
+  autonomousDatabaseId: string
+  region?: string
+}
+
+export interface AdbWalletStatus {
+  autonomousDatabaseId: string
+  walletPath?: string
+  downloadedAt?: string
+  expiresAt?: string
+  walletLifecycleState?: string
+  rotatedAt?: string
+  isStale: boolean
+}
+
+export interface RotateAdbWalletRequest {
+  autonomousDatabaseId: string
+  databaseName?: string
+  region?: string
+  gracePeriodHours: number
+}
+
+export interface CleanupAdbWalletsResponse {
+  removedPaths: string[]
+}
+
+// --- DB System Database Types ---
+
+export interface ListDbSystemDatabasesRequest {
+  dbSystemId: string
+  compartmentId: string
+  region?: string
+  publicIp?: string
+}
+
+export interface PluggableDatabaseResource {
+  id: string
+  name: string
+  containerDatabaseId: string
+  lifecycleState: string
+  openMode?: string
+  lifecycleDetails?: string
+  serviceName?: string
+  connectionString?: string
+}
+
+export interface ContainerDatabaseResource {
+  id: string
+  name: string
+  dbUniqueName?: string
+  lifecycleState: string
+  isCdb: boolean
+  pluggableDatabases: PluggableDatabaseResource[]
+}
+
+export interface DbHomeResource {
+  id: string
+  name: string
+  dbVersion?: string
+  lifecycleState: string
+  databases: ContainerDatabaseResource[]
+}
+
+export interface ListDbSystemDatabasesResponse {
+  dbHomes: DbHomeResource[]
+}
+
+export interface CreatePluggableDatabaseRequest {
+  containerDatabaseId: string
+  pdbName: string
+  pdbAdminPassword: string
+  tdeWalletPassword: string
+  region?: string
+}
+
+export interface ClonePluggableDatabaseRequest {
+  sourcePluggableDatabaseId: string
+  pdbName: string
+  pdbAdminPassword: string
+  tdeWalletPassword: string
+  region?: string
+}
+
+export type PluggableDatabaseAction = "START" | "STOP"
+
+export interface PluggableDatabaseActionRequest {
+  pluggableDatabaseId: string
+  pdbName?: string
+  region?: string
+  action: PluggableDatabaseAction
+}
+
+export interface DeletePluggableDatabaseRequest {
+  pluggableDatabaseId: string
+  pdbName?: string
+  region?: string
+}
+
+export interface PluggableDatabaseOperationResponse {
+  operationId: string
+}
+
+// --- Monitoring Types ---
+
+export type MetricsResourceKind = "compute" | "adb" | "dbSystem"
+
+export type MetricsWindow = "1h" | "6h" | "24h" | "7d"
+
+export type MetricUnit = "percent" | "bytesPerSecond" | "count"
+
+export interface GetResourceMetricsRequest {
+  resourceKind: MetricsResourceKind
+  resourceId: string
+  compartmentId: string
+  region?: string
+  window: MetricsWindow
+}
+
+export interface MetricDatapoint {
+  timestamp: string
+  value: number
+}
+
+export interface MetricSeries {
+  metric: string
+  label: string
+  unit: MetricUnit
+  datapoints: MetricDatapoint[]
+}
+
+export interface GetResourceMetricsResponse {
+  namespace: string
+  window: MetricsWindow
+  interval: string
+  series: MetricSeries[]
+  missing: string[]
+}
+
+// --- Work Request Types ---
+
+export type TrackedWorkRequestStatus = "IN_PROGRESS" | "SUCCEEDED" | "FAILED"
+
+export interface TrackedWorkRequest {
+  id: string
+  kind:
+    | "launchInstance"
+    | "createImage"
+    | "createBootVolumeBackup"
+    | "createAutonomousDatabase"
+    | "cloneAutonomousDatabase"
+    | "scaleAutonomousDatabase"
+    | "createAutonomousDatabaseBackup"
+    | "restoreAutonomousDatabase"
+    | "updateAutonomousDatabaseNetworkAccess"
+    | "rotateAutonomousDatabaseWallet"
+    | "createPluggableDatabase"
+    | "clonePluggableDatabase"
+    | "startPluggableDatabase"
+    | "stopPluggableDatabase"
+    | "deletePluggableDatabase"
+  feature: "compute" | "adb" | "dbSystem" | "vcn" | "objectStorage" | "bastion"
+  resourceId: string
+  resourceName: string
+  parentResourceId?: string
+  compartmentId?: string
+  region: string
+  workRequestId?: string
+  status: TrackedWorkRequestStatus
+  workRequestStatus?: string
+  percentComplete?: number
+  resourceLifecycleState?: string
+  errorMessage?: string
+  startedAt: string
+  finishedAt?: string
+}
+
+export interface WorkRequestsState {
+  operations: TrackedWorkRequest[]
+}
+
+// --- Run Command Types ---
+
+export type RunCommandStatus = "IN_PROGRESS" | "SUCCEEDED" | "FAILED"
+
+export interface RunCommandExecution {
+  instanceId: string
+  instanceName: string
+  region: string
+  commandId?: string
+  status: RunCommandStatus
+  lifecycleState?: string
+  deliveryState?: string
+  exitCode?: number
+  output?: string
+  errorMessage?: string
+  finishedAt?: string
+}
+
+export interface RunCommandRun {
+  id: string
+  scriptName: string
+  scriptPath: string
+  timeoutSeconds: number
+  startedAt: string
+  finishedAt?: string
+  executions: RunCommandExecution[]
+}
+
+export interface RunCommandState {
+  runs: RunCommandRun[]
+}
+
+export interface RunCommandScript {
+  path: string
+  label: string
+}
+
+export interface ListRunCommandScriptsResponse {
+  scripts: RunCommandScript[]
+}
+
+export interface RunComputeCommandTarget {
+  instanceId: string
+  instanceName?: string
+  compartmentId: string
+  region?: string
+}
+
+export interface RunComputeCommandRequest {
+  scriptPath: string
+  targets: RunComputeCommandTarget[]
+  timeoutSeconds?: number
+}
+
+export interface RunComputeCommandResponse {
+  runId: string
+}
+
 // --- OCA Proxy Types ---
 
 export interface OcaProxyStatus {